@@ -460,6 +460,13 @@ export class ApiStack extends Construct {
       methodResponses: commonMethodResponses
     });
 
+    // GET /recipes/search - Structured recipe search
+    recipesResource.addResource('search').addMethod('GET', new apigateway.LambdaIntegration(lambdaFunctions.recipeCrud), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      methodResponses: commonMethodResponses
+    });
+
     const recipeIdResource = recipesResource.addResource('{recipeId}');
     
     recipeIdResource.addMethod('GET', new apigateway.LambdaIntegration(lambdaFunctions.recipeCrud), {
@@ -526,6 +533,36 @@ export class ApiStack extends Construct {
       methodResponses: commonMethodResponses
     });
 
+    // POST /friends/block - Block a user
+    const blockResource = friendsResource.addResource('block');
+    blockResource.addMethod('POST', new apigateway.LambdaIntegration(lambdaFunctions.friendsHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      requestValidator,
+      methodResponses: commonMethodResponses
+    });
+
+    // DELETE /friends/block/{userId} - Unblock a user
+    blockResource.addResource('{userId}').addMethod('DELETE', new apigateway.LambdaIntegration(lambdaFunctions.friendsHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      methodResponses: commonMethodResponses
+    });
+
+    // GET /friends/blocked - List blocked users
+    friendsResource.addResource('blocked').addMethod('GET', new apigateway.LambdaIntegration(lambdaFunctions.friendsHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      methodResponses: commonMethodResponses
+    });
+
+    // GET /friends/suggestions - People you may know
+    friendsResource.addResource('suggestions').addMethod('GET', new apigateway.LambdaIntegration(lambdaFunctions.friendsHandler), {
+      authorizer: cognitoAuthorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+      methodResponses: commonMethodResponses
+    });
+
     // Health check endpoint (no auth required)
     const healthResource = this.api.root.addResource('health');
     healthResource.addMethod('GET', new apigateway.MockIntegration({
@@ -190,6 +190,22 @@ export class SimpleStack extends cdk.Stack {
       },
     });
 
+    // Per-user AI budgets (AI recipes per day/month, requests per minute); admin overrides win
+    const aiQuotaEnvironment = {
+      AI_QUOTA_RECIPES_DAILY: '20',
+      AI_QUOTA_RECIPES_MONTHLY: '300',
+      AI_QUOTA_RECIPES_BURST: '3',
+      AI_QUOTA_VALIDATIONS_DAILY: '50',
+      AI_QUOTA_VALIDATIONS_MONTHLY: '1000',
+      AI_QUOTA_VALIDATIONS_BURST: '10',
+    };
+
+    // Daily AI spend (USD) above which the cost ledger raises an alert, overall and per user
+    const aiCostEnvironment = {
+      AI_COST_DAILY_ALERT_USD: '25',
+      AI_COST_USER_DAILY_ALERT_USD: '0.5',
+    };
+
     // AI Suggestion Lambda - Optimized: 1024MB → 768MB (Bedrock API is the bottleneck)
     const aiSuggestionFunction = new NodejsFunction(this, 'AISuggestion', {
       ...commonLambdaProps,
@@ -197,6 +213,11 @@ export class SimpleStack extends cdk.Stack {
       description: 'Generates recipe suggestions using AI',
       entry: '../lambda/ai-suggestion/index.ts',
       handler: 'handler',
+      environment: {
+        ...commonLambdaProps.environment,
+        ...aiQuotaEnvironment,
+        ...aiCostEnvironment,
+      },
       memorySize: 768,  // Optimized from 1024MB
       timeout: cdk.Duration.seconds(60),
       bundling: {
@@ -206,6 +227,27 @@ export class SimpleStack extends cdk.Stack {
       },
     });
 
+    // AI Suggestion Stream Lambda - Same flow, recipes streamed to the client as they are generated
+    const aiSuggestionStreamFunction = new NodejsFunction(this, 'AISuggestionStream', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-ai-suggestion-stream-${environment}`,
+      description: 'Streams recipe suggestions as they are generated',
+      entry: '../lambda/ai-suggestion/stream.ts',
+      handler: 'handler',
+      environment: {
+        ...commonLambdaProps.environment,
+        ...aiQuotaEnvironment,
+        ...aiCostEnvironment,
+      },
+      memorySize: 768,
+      timeout: cdk.Duration.seconds(90),
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
     // Cooking Session Lambda - Handles cooking sessions and history
     const cookingSessionFunction = new NodejsFunction(this, 'CookingSession', {
       ...commonLambdaProps,
@@ -266,6 +308,91 @@ export class SimpleStack extends cdk.Stack {
       },
     });
 
+    // Notifications Lambda - Handles user notification inbox
+    const notificationsFunction = new NodejsFunction(this, 'Notifications', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-notifications-${environment}`,
+      description: 'Handles listing, reading and deleting user notifications',
+      entry: '../lambda/notifications/index.ts',
+      handler: 'handler',
+      memorySize: 256,
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Pantry Lambda - Handles the user's pantry (quantities and expiry dates)
+    const pantryFunction = new NodejsFunction(this, 'Pantry', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-pantry-${environment}`,
+      description: 'Handles adding, updating, consuming and removing pantry items',
+      entry: '../lambda/pantry/index.ts',
+      handler: 'handler',
+      memorySize: 256,
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Meal Plan Lambda - Generates weekly meal plans from database and AI recipes
+    const mealPlanFunction = new NodejsFunction(this, 'MealPlan', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-meal-plan-${environment}`,
+      description: 'Generates, edits and regenerates weekly meal plans',
+      entry: '../lambda/meal-plan/index.ts',
+      handler: 'handler',
+      environment: {
+        ...commonLambdaProps.environment,
+        ...aiCostEnvironment,
+      },
+      memorySize: 512,
+      timeout: cdk.Duration.seconds(90), // Up to one AI call per missing cooking method
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Shopping List Lambda - Builds shopping lists from recipes and meal plans
+    const shoppingListFunction = new NodejsFunction(this, 'ShoppingList', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-shopping-list-${environment}`,
+      description: 'Builds, checks off and exports shopping lists',
+      entry: '../lambda/shopping-list/index.ts',
+      handler: 'handler',
+      memorySize: 256,
+      timeout: cdk.Duration.seconds(30),
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
+    // Reports Lambda - User reports on posts, comments, recipes and profiles
+    const reportsFunction = new NodejsFunction(this, 'Reports', {
+      ...commonLambdaProps,
+      functionName: `smart-cooking-reports-${environment}`,
+      description: 'Records user reports and hides heavily reported content',
+      entry: '../lambda/reports/index.ts',
+      handler: 'handler',
+      memorySize: 256,
+      environment: {
+        ...commonLambdaProps.environment,
+        REPORT_HIDE_THRESHOLD: '3', // Distinct reporters before content is hidden pending review
+      },
+      bundling: {
+        minify: true,
+        sourceMap: environment !== 'prod',
+        externalModules: ['@aws-sdk/*'],
+      },
+    });
+
     // Monitoring Lambda for cost optimization metrics
     const monitoringFunction = new NodejsFunction(this, 'MonitoringLambda', {
       ...commonLambdaProps,
@@ -291,6 +418,10 @@ export class SimpleStack extends cdk.Stack {
       handler: 'handler',
       memorySize: 256,
       timeout: cdk.Duration.seconds(30),
+      environment: {
+        ...commonLambdaProps.environment,
+        ...aiQuotaEnvironment, // Shows the default limits next to usage
+      },
       bundling: {
         minify: true,
         sourceMap: environment !== 'prod',
@@ -304,10 +435,16 @@ export class SimpleStack extends cdk.Stack {
       userProfileFunction,
       ingredientValidatorFunction,
       aiSuggestionFunction,
+      aiSuggestionStreamFunction,
       cookingSessionFunction,
       postsFunction,
       ratingFunction,
       friendsFunction,
+      notificationsFunction,
+      pantryFunction,
+      mealPlanFunction,
+      shoppingListFunction,
+      reportsFunction,
       monitoringFunction,
       adminFunction
     ];
@@ -317,10 +454,16 @@ export class SimpleStack extends cdk.Stack {
     this.table.grantReadWriteData(userProfileFunction);
     this.table.grantReadWriteData(ingredientValidatorFunction);
     this.table.grantReadWriteData(aiSuggestionFunction);
+    this.table.grantReadWriteData(aiSuggestionStreamFunction);
     this.table.grantReadWriteData(cookingSessionFunction);
     this.table.grantReadWriteData(postsFunction);
     this.table.grantReadWriteData(ratingFunction);
     this.table.grantReadWriteData(friendsFunction);
+    this.table.grantReadWriteData(notificationsFunction);
+    this.table.grantReadWriteData(pantryFunction);
+    this.table.grantReadWriteData(mealPlanFunction);
+    this.table.grantReadWriteData(shoppingListFunction);
+    this.table.grantReadWriteData(reportsFunction);
     this.table.grantReadData(monitoringFunction); // Read-only for metrics collection
     this.table.grantReadWriteData(adminFunction); // Full access for admin operations
 
@@ -339,10 +482,16 @@ export class SimpleStack extends cdk.Stack {
     userProfileFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     ingredientValidatorFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     aiSuggestionFunction.addToRolePolicy(cloudWatchMetricsPolicy);
+    aiSuggestionStreamFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     cookingSessionFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     postsFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     ratingFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     friendsFunction.addToRolePolicy(cloudWatchMetricsPolicy);
+    notificationsFunction.addToRolePolicy(cloudWatchMetricsPolicy);
+    pantryFunction.addToRolePolicy(cloudWatchMetricsPolicy);
+    mealPlanFunction.addToRolePolicy(cloudWatchMetricsPolicy);
+    shoppingListFunction.addToRolePolicy(cloudWatchMetricsPolicy);
+    reportsFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     monitoringFunction.addToRolePolicy(cloudWatchMetricsPolicy);
     adminFunction.addToRolePolicy(cloudWatchMetricsPolicy);
 
@@ -360,6 +509,8 @@ export class SimpleStack extends cdk.Stack {
     });
     
     aiSuggestionFunction.addToRolePolicy(bedrockPolicy);
+    aiSuggestionStreamFunction.addToRolePolicy(bedrockPolicy);
+    mealPlanFunction.addToRolePolicy(bedrockPolicy);
 
     // Grant SNS permissions
     adminTopic.grantPublish(ingredientValidatorFunction);
@@ -470,6 +621,13 @@ export class SimpleStack extends cdk.Stack {
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
 
+    // User search endpoint /v1/users/search
+    const usersSearch = users.addResource('search');
+    usersSearch.addMethod('GET', new apigateway.LambdaIntegration(userProfileFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
     // User profile type routes (preferences, privacy, etc.)
     const userProfileType = userProfile.addResource('{type}');
     userProfileType.addMethod('GET', new apigateway.LambdaIntegration(userProfileFunction), {
@@ -501,6 +659,10 @@ export class SimpleStack extends cdk.Stack {
       authorizer,
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
+    ingredients.addResource('search').addMethod('GET', new apigateway.LambdaIntegration(ingredientValidatorFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
 
     // AI suggestion routes
     const suggestions = v1.addResource('suggestions');
@@ -509,6 +671,18 @@ export class SimpleStack extends cdk.Stack {
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
 
+    // Streaming AI suggestions - API Gateway buffers responses, so this is a Function URL.
+    // There is no Cognito authorizer on Function URLs; the function verifies the ID token itself.
+    const aiSuggestionStreamUrl = aiSuggestionStreamFunction.addFunctionUrl({
+      authType: lambda.FunctionUrlAuthType.NONE,
+      invokeMode: lambda.InvokeMode.RESPONSE_STREAM,
+      cors: {
+        allowedOrigins: ['*'],
+        allowedMethods: [lambda.HttpMethod.POST],
+        allowedHeaders: ['Content-Type', 'Authorization'],
+      },
+    });
+
     // Cooking session routes
     const cooking = v1.addResource('cooking');
     
@@ -596,6 +770,23 @@ export class SimpleStack extends cdk.Stack {
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
 
+    // ========== TAGS ROUTES ==========
+    const tags = v1.addResource('tags');
+
+    // GET /v1/tags/trending - Trending hashtags
+    const tagsTrending = tags.addResource('trending');
+    tagsTrending.addMethod('GET', new apigateway.LambdaIntegration(postsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/tags/{tag}/posts - Posts with a hashtag
+    const tagPosts = tags.addResource('{tag}').addResource('posts');
+    tagPosts.addMethod('GET', new apigateway.LambdaIntegration(postsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
     // ==================== RATING ROUTES ====================
     const ratings = v1.addResource('ratings');
 
@@ -657,6 +848,199 @@ export class SimpleStack extends cdk.Stack {
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
 
+    // POST /v1/friends/block - Block a user
+    const friendsBlock = friends.addResource('block');
+    friendsBlock.addMethod('POST', new apigateway.LambdaIntegration(friendsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // DELETE /v1/friends/block/{userId} - Unblock a user
+    const friendsUnblock = friendsBlock.addResource('{userId}');
+    friendsUnblock.addMethod('DELETE', new apigateway.LambdaIntegration(friendsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/friends/blocked - List blocked users
+    const friendsBlocked = friends.addResource('blocked');
+    friendsBlocked.addMethod('GET', new apigateway.LambdaIntegration(friendsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/friends/suggestions - People you may know
+    const friendsSuggestions = friends.addResource('suggestions');
+    friendsSuggestions.addMethod('GET', new apigateway.LambdaIntegration(friendsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // ==================== NOTIFICATIONS ROUTES ====================
+    const notifications = v1.addResource('notifications');
+
+    // GET /v1/notifications - List notifications (cursor: nextToken)
+    notifications.addMethod('GET', new apigateway.LambdaIntegration(notificationsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/notifications/unread-count - Unread badge count
+    const notificationsUnreadCount = notifications.addResource('unread-count');
+    notificationsUnreadCount.addMethod('GET', new apigateway.LambdaIntegration(notificationsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /v1/notifications/mark-all-read - Mark all as read
+    const notificationsMarkAllRead = notifications.addResource('mark-all-read');
+    notificationsMarkAllRead.addMethod('PUT', new apigateway.LambdaIntegration(notificationsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // DELETE /v1/notifications/{notificationId} - Delete notification
+    const notificationById = notifications.addResource('{notificationId}');
+    notificationById.addMethod('DELETE', new apigateway.LambdaIntegration(notificationsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /v1/notifications/{notificationId}/read - Mark as read
+    const notificationRead = notificationById.addResource('read');
+    notificationRead.addMethod('PUT', new apigateway.LambdaIntegration(notificationsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // ==================== PANTRY ROUTES ====================
+    const pantry = v1.addResource('pantry');
+
+    // GET /v1/pantry - List pantry items (?expiring_within_days=N&include_expired=true)
+    pantry.addMethod('GET', new apigateway.LambdaIntegration(pantryFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/pantry - Add pantry item
+    pantry.addMethod('POST', new apigateway.LambdaIntegration(pantryFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /v1/pantry/{itemId} - Update pantry item
+    const pantryItem = pantry.addResource('{itemId}');
+    pantryItem.addMethod('PUT', new apigateway.LambdaIntegration(pantryFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // DELETE /v1/pantry/{itemId} - Remove pantry item
+    pantryItem.addMethod('DELETE', new apigateway.LambdaIntegration(pantryFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/pantry/{itemId}/consume - Consume part of a pantry item
+    const pantryItemConsume = pantryItem.addResource('consume');
+    pantryItemConsume.addMethod('POST', new apigateway.LambdaIntegration(pantryFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // ==================== MEAL PLAN ROUTES ====================
+    const mealPlans = v1.addResource('meal-plans');
+
+    // GET /v1/meal-plans - List meal plans
+    mealPlans.addMethod('GET', new apigateway.LambdaIntegration(mealPlanFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/meal-plans - Generate a meal plan
+    mealPlans.addMethod('POST', new apigateway.LambdaIntegration(mealPlanFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/meal-plans/{planId} - Get meal plan
+    const mealPlanById = mealPlans.addResource('{planId}');
+    mealPlanById.addMethod('GET', new apigateway.LambdaIntegration(mealPlanFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // DELETE /v1/meal-plans/{planId} - Delete meal plan
+    mealPlanById.addMethod('DELETE', new apigateway.LambdaIntegration(mealPlanFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/meal-plans/{planId}/regenerate - Regenerate unlocked slots
+    const mealPlanRegenerate = mealPlanById.addResource('regenerate');
+    mealPlanRegenerate.addMethod('POST', new apigateway.LambdaIntegration(mealPlanFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /v1/meal-plans/{planId}/slots/{slotId} - Swap and/or lock a slot
+    const mealPlanSlot = mealPlanById.addResource('slots').addResource('{slotId}');
+    mealPlanSlot.addMethod('PUT', new apigateway.LambdaIntegration(mealPlanFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // ==================== REPORT ROUTES ====================
+    const reports = v1.addResource('reports');
+
+    // POST /v1/reports - Report a post, comment, recipe or user profile
+    reports.addMethod('POST', new apigateway.LambdaIntegration(reportsFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // ==================== SHOPPING LIST ROUTES ====================
+    const shoppingLists = v1.addResource('shopping-lists');
+
+    // GET /v1/shopping-lists - List shopping lists
+    shoppingLists.addMethod('GET', new apigateway.LambdaIntegration(shoppingListFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/shopping-lists - Create a shopping list from recipes and/or a meal plan
+    shoppingLists.addMethod('POST', new apigateway.LambdaIntegration(shoppingListFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/shopping-lists/{listId} - Get shopping list
+    const shoppingListById = shoppingLists.addResource('{listId}');
+    shoppingListById.addMethod('GET', new apigateway.LambdaIntegration(shoppingListFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // DELETE /v1/shopping-lists/{listId} - Delete shopping list
+    shoppingListById.addMethod('DELETE', new apigateway.LambdaIntegration(shoppingListFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/shopping-lists/{listId}/export - Export as text or Markdown
+    const shoppingListExport = shoppingListById.addResource('export');
+    shoppingListExport.addMethod('GET', new apigateway.LambdaIntegration(shoppingListFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /v1/shopping-lists/{listId}/items/{itemId} - Check off an item
+    const shoppingListItem = shoppingListById.addResource('items').addResource('{itemId}');
+    shoppingListItem.addMethod('PUT', new apigateway.LambdaIntegration(shoppingListFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
     // ==================== ADMIN ROUTES ====================
     const admin = v1.addResource('admin');
 
@@ -744,6 +1128,104 @@ export class SimpleStack extends cdk.Stack {
       authorizationType: apigateway.AuthorizationType.COGNITO,
     });
 
+    // GET /v1/admin/users/{userId}/ai-quota - AI limits and usage
+    const adminUserAIQuota = adminUserById.addResource('ai-quota');
+    adminUserAIQuota.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // PUT /v1/admin/users/{userId}/ai-quota - Override AI limits
+    adminUserAIQuota.addMethod('PUT', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // DELETE /v1/admin/users/{userId}/ai-quota - Back to default AI limits
+    adminUserAIQuota.addMethod('DELETE', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // Admin AI costs
+    const adminAICosts = admin.addResource('ai-costs');
+
+    // GET /v1/admin/ai-costs - AI spend for a day or month, per feature and top users
+    adminAICosts.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/admin/ai-costs/users/{userId} - A user's AI spend and latest AI calls
+    const adminAICostsUser = adminAICosts.addResource('users').addResource('{userId}');
+    adminAICostsUser.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // Admin audit log
+    const adminAudit = admin.addResource('audit');
+
+    // GET /v1/admin/audit - Browse admin actions with filters
+    adminAudit.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/admin/audit/export - Download admin actions as CSV or JSON
+    const adminAuditExport = adminAudit.addResource('export');
+    adminAuditExport.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/admin/audit/verify - Check the audit hash chain
+    const adminAuditVerify = adminAudit.addResource('verify');
+    adminAuditVerify.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // GET /v1/admin/audit/targets/{targetType}/{targetId} - A target's action history and violations
+    const adminAuditTarget = adminAudit.addResource('targets').addResource('{targetType}').addResource('{targetId}');
+    adminAuditTarget.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // Admin moderation queue
+    const adminQueue = admin.addResource('queue');
+
+    // GET /v1/admin/queue - List moderation queue items
+    adminQueue.addMethod('GET', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // Queue item by ID operations
+    const adminQueueItemById = adminQueue.addResource('{itemId}');
+
+    // POST /v1/admin/queue/{itemId}/claim - Claim item
+    const adminQueueItemClaim = adminQueueItemById.addResource('claim');
+    adminQueueItemClaim.addMethod('POST', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/admin/queue/{itemId}/assign - Assign item to an admin
+    const adminQueueItemAssign = adminQueueItemById.addResource('assign');
+    adminQueueItemAssign.addMethod('POST', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
+    // POST /v1/admin/queue/{itemId}/resolve - Resolve item with an outcome
+    const adminQueueItemResolve = adminQueueItemById.addResource('resolve');
+    adminQueueItemResolve.addMethod('POST', new apigateway.LambdaIntegration(adminFunction), {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+
     // Admin recipes management
     const adminRecipes = admin.addResource('recipes');
 
@@ -928,6 +1410,12 @@ export class SimpleStack extends cdk.Stack {
       exportName: `SmartCooking-${environment}-ApiUrl`
     });
 
+    new cdk.CfnOutput(this, 'AISuggestionStreamUrl', {
+      value: aiSuggestionStreamUrl.url,
+      description: 'Streaming AI suggestions Function URL (NEXT_PUBLIC_AI_STREAM_URL)',
+      exportName: `SmartCooking-${environment}-AISuggestionStreamUrl`
+    });
+
     new cdk.CfnOutput(this, 'WebsiteUrl', {
       value: `https://${this.distribution.distributionDomainName}`,
       description: 'CloudFront Distribution URL',
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import AdminRoute from '@/components/AdminRoute';
 import { getAdminUser, AdminUser } from '@/lib/adminAuth';
 import { authService } from '@/lib/auth';
+import ModerationQueue from '@/components/admin/ModerationQueue';
+import AuditLog from '@/components/admin/AuditLog';
 
 interface DashboardStats {
   totalUsers: number;
@@ -18,6 +20,7 @@ interface DashboardStats {
 export default function AdminDashboard() {
   const router = useRouter();
   const [adminUser, setAdminUser] = useState<AdminUser | null>(null);
+  const [token, setToken] = useState<string | null>(null);
   const [stats] = useState<DashboardStats>({
     totalUsers: 0,
     totalRecipes: 0,
@@ -34,6 +37,7 @@ export default function AdminDashboard() {
   async function loadAdminData() {
     const user = await getAdminUser();
     setAdminUser(user);
+    setToken(await authService.getIdToken());
     
     // TODO: Fetch real stats from API
     // For now, showing placeholder data
@@ -222,6 +226,20 @@ export default function AdminDashboard() {
             </div>
           </div>
 
+          {/* Moderation Queue */}
+          {token && adminUser && (
+            <div className="mb-8">
+              <ModerationQueue token={token} currentAdminId={adminUser.sub} />
+            </div>
+          )}
+
+          {/* Audit Log */}
+          {token && (
+            <div className="mb-8">
+              <AuditLog token={token} />
+            </div>
+          )}
+
           {/* Recent Activity (Placeholder) */}
           <div className="bg-white rounded-lg shadow-md p-6">
             <h2 className="text-xl font-bold text-gray-900 mb-4">Recent Activity</h2>
@@ -7,7 +7,7 @@ import RecipeCard from '@/components/recipes/RecipeCard';
 import RecipeDetailModal from '@/components/recipes/RecipeDetailModal';
 import CookingMode from '@/components/cooking/CookingMode';
 import { Recipe, AISuggestionResponse } from '@/types/recipe';
-import { getAISuggestions, AISuggestionRequest } from '@/services/ingredientService';
+import { streamAISuggestions, AISuggestionRequest } from '@/services/ingredientService';
 
 export default function AISuggestionsPage() {
   const router = useRouter();
@@ -15,6 +15,7 @@ export default function AISuggestionsPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [suggestions, setSuggestions] = useState<AISuggestionResponse | null>(null);
+  const [streamedRecipes, setStreamedRecipes] = useState<Recipe[]>([]); // Shown while generation is still running
   const [selectedRecipe, setSelectedRecipe] = useState<Recipe | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [cookingRecipe, setCookingRecipe] = useState<Recipe | null>(null);
@@ -47,12 +48,23 @@ export default function AISuggestionsPage() {
         recipe_count: recipeCount
       };
 
-      const response = await getAISuggestions(request);
-      setSuggestions(response);
+      setSuggestions(null);
+      setStreamedRecipes([]);
 
-      if (response.suggestions.length === 0) {
-        setError('Không tìm thấy công thức phù hợp với nguyên liệu của bạn. Vui lòng thử lại với nguyên liệu khác.');
-      }
+      await streamAISuggestions(request, {
+        onRecipe: (recipe) => {
+          setStreamedRecipes(prev =>
+            prev.some(r => r.recipe_id === recipe.recipe_id) ? prev : [...prev, recipe]
+          );
+        },
+        onComplete: (response) => {
+          setSuggestions(response);
+
+          if (response.suggestions.length === 0) {
+            setError('Không tìm thấy công thức phù hợp với nguyên liệu của bạn. Vui lòng thử lại với nguyên liệu khác.');
+          }
+        }
+      });
     } catch (err) {
       console.error('Failed to get AI suggestions:', err);
       setError(err instanceof Error ? err.message : 'Không thể lấy gợi ý công thức. Vui lòng thử lại.');
@@ -194,8 +206,8 @@ export default function AISuggestionsPage() {
             </div>
           )}
 
-          {/* Loading State */}
-          {isLoading && (
+          {/* Loading State (until the first recipe arrives) */}
+          {isLoading && streamedRecipes.length === 0 && (
             <div className="bg-white rounded-lg shadow-md p-12">
               <div className="flex flex-col items-center justify-center space-y-4">
                 <div className="relative">
@@ -266,6 +278,28 @@ export default function AISuggestionsPage() {
             </div>
           )}
 
+          {/* Streaming State - recipes rendered as they arrive */}
+          {isLoading && streamedRecipes.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {streamedRecipes.map((recipe) => (
+                <RecipeCard
+                  key={recipe.recipe_id}
+                  recipe={recipe}
+                  onClick={() => handleRecipeClick(recipe)}
+                />
+              ))}
+              <div className="flex flex-col items-center justify-center bg-white rounded-lg shadow-md p-6 border-2 border-dashed border-blue-200">
+                <svg className="animate-spin h-8 w-8 text-blue-600 mb-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                </svg>
+                <p className="text-sm text-gray-600 text-center">
+                  AI đang tạo thêm công thức...
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Success State - Recipe Suggestions */}
           {suggestions && !isLoading && !error && (
             <div className="space-y-8">
@@ -11,6 +11,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { getFeed, deletePost, Post } from '@/services/posts';
 import CreatePostForm from '@/components/posts/CreatePostForm';
 import PostCard from '@/components/posts/PostCard';
+import TrendingTags from '@/components/posts/TrendingTags';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import Navigation from '@/components/Navigation';
 
@@ -113,6 +114,11 @@ function FeedPageContent() {
           <CreatePostForm onPostCreated={handlePostCreated} />
         </div>
 
+        {/* Trending Tags */}
+        <div className="mb-6">
+          <TrendingTags />
+        </div>
+
         {/* Error Message */}
         {error && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -17,6 +17,7 @@ import {
 import FriendRequestCard from '@/components/friends/FriendRequestCard';
 import FriendCard from '@/components/friends/FriendCard';
 import UserSearch from '@/components/friends/UserSearch';
+import FriendSuggestions from '@/components/friends/FriendSuggestions';
 
 type Tab = 'all' | 'pending' | 'search';
 
@@ -241,6 +242,13 @@ export default function FriendsPage() {
             {activeTab === 'search' && <UserSearch />}
           </>
         )}
+
+        {/* People You May Know */}
+        {activeTab !== 'pending' && (
+          <div className="mt-8">
+            <FriendSuggestions />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,137 @@
+/**
+ * Tag Page
+ * Posts with a hashtag, newest first
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { getTagPosts, deletePost, Post } from '@/services/posts';
+import PostCard from '@/components/posts/PostCard';
+import TrendingTags from '@/components/posts/TrendingTags';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import Navigation from '@/components/Navigation';
+
+function TagPageContent() {
+  const params = useParams();
+  const tagParam = decodeURIComponent(params.tag as string);
+  const { token, user } = useAuth();
+  const [tag, setTag] = useState(tagParam);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [nextKey, setNextKey] = useState<string | undefined>();
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  useEffect(() => {
+    loadPosts();
+  }, [token, tagParam]);
+
+  const loadPosts = async (isLoadMore = false) => {
+    if (!token) return;
+
+    try {
+      if (!isLoadMore) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+
+      const result = await getTagPosts(token, tagParam, 20, isLoadMore ? nextKey : undefined);
+
+      if (isLoadMore) {
+        setPosts((prev) => [...prev, ...result.posts]);
+      } else {
+        setPosts(result.posts);
+      }
+
+      setTag(result.tag);
+      setNextKey(result.has_more ? result.next_key : undefined);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load posts');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleDeletePost = async (postId: string) => {
+    if (!token) return;
+
+    await deletePost(token, postId);
+    setPosts((prev) => prev.filter((p) => p.post_id !== postId));
+  };
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-2xl mx-auto">
+          {/* Page Header */}
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">#{tag}</h1>
+            <p className="text-gray-800 mt-1">Posts tagged #{tag}</p>
+          </div>
+
+          <div className="mb-6">
+            <TrendingTags days={7} />
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : posts.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-md p-12 text-center">
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No posts yet</h3>
+              <p className="text-gray-800">Be the first to post with #{tag}</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {posts.map((post) => (
+                <PostCard
+                  key={post.post_id}
+                  post={post}
+                  currentUserId={user?.sub}
+                  onDelete={handleDeletePost}
+                />
+              ))}
+
+              {/* Load More Button */}
+              {nextKey && (
+                <div className="text-center py-4">
+                  <button
+                    onClick={() => loadPosts(true)}
+                    disabled={loadingMore}
+                    className="px-6 py-3 bg-white text-gray-700 rounded-lg border border-gray-300 hover:bg-gray-50 transition font-medium disabled:opacity-50"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+// Wrap with ProtectedRoute
+export default function TagPage() {
+  return (
+    <ProtectedRoute>
+      <TagPageContent />
+    </ProtectedRoute>
+  );
+}
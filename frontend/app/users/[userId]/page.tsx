@@ -10,6 +10,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import AddFriendButton from '@/components/friends/AddFriendButton';
+import ReportButton from '@/components/reports/ReportButton';
 import PostCard from '@/components/posts/PostCard';
 import Image from 'next/image';
 import { Post } from '@/services/posts';
@@ -230,12 +231,13 @@ export default function UserProfilePage() {
                 </div>
               </div>
 
-              {/* Add Friend Button */}
-              <div className="mt-4 sm:mt-0 sm:ml-auto">
+              {/* Add Friend and Report Buttons */}
+              <div className="mt-4 sm:mt-0 sm:ml-auto flex items-center gap-3">
                 <AddFriendButton
                   userId={profile.user_id}
                   username={profile.username}
                 />
+                <ReportButton targetType="user" targetId={profile.user_id} />
               </div>
             </div>
 
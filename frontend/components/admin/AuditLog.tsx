@@ -0,0 +1,288 @@
+/**
+ * Audit Log Component
+ * Admin actions with filters, CSV/JSON export, hash chain verification and per-target history
+ */
+
+'use client';
+
+import { useState, useEffect, FormEvent } from 'react';
+import {
+  getAuditLog,
+  exportAuditLog,
+  verifyAuditLog,
+  AdminAuditEntry,
+  AuditLogFilter,
+  AuditVerification,
+} from '@/services/admin';
+import TargetHistory from './TargetHistory';
+
+interface AuditLogProps {
+  token: string;
+}
+
+const ACTION_TYPES = [
+  'ban_user',
+  'unban_user',
+  'approve_ban',
+  'reject_ban',
+  'approve_recipe',
+  'reject_recipe',
+  'claim_queue_item',
+  'assign_queue_item',
+  'unassign_queue_item',
+  'resolve_queue_item',
+  'set_ai_quota',
+  'clear_ai_quota',
+];
+
+const TARGET_TYPES = ['user', 'recipe', 'moderation_item'];
+
+const BREAK_LABELS: Record<NonNullable<AuditVerification['broken_at']>['reason'], string> = {
+  missing_entry: 'an entry is missing',
+  chain_mismatch: 'an entry does not follow the one before it',
+  hash_mismatch: 'an entry was changed',
+  head_mismatch: 'the latest entries were changed',
+};
+
+export default function AuditLog({ token }: AuditLogProps) {
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [draft, setDraft] = useState<AuditLogFilter>({});
+  const [filter, setFilter] = useState<AuditLogFilter>({});
+  const [nextKey, setNextKey] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [target, setTarget] = useState<{ type: string; id: string } | null>(null);
+
+  useEffect(() => {
+    loadEntries();
+  }, [token, filter]);
+
+  const loadEntries = async (isLoadMore = false) => {
+    try {
+      setLoading(true);
+
+      const result = await getAuditLog(token, filter, 50, isLoadMore ? nextKey : undefined);
+
+      setEntries((prev) => (isLoadMore ? [...prev, ...result.entries] : result.entries));
+      setNextKey(result.next_key);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyFilter = (e: FormEvent) => {
+    e.preventDefault();
+    setFilter({ ...draft });
+  };
+
+  const updateDraft = (field: keyof AuditLogFilter, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value || undefined }));
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    try {
+      setBusy(true);
+      const file = await exportAuditLog(token, filter, format);
+      const url = URL.createObjectURL(file);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `admin-audit.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setBusy(true);
+      setVerification(await verifyAuditLog(token));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold text-gray-900">Audit Log</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={busy}
+            className="px-3 py-1 bg-gray-50 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-50"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={busy}
+            className="px-3 py-1 bg-gray-50 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={handleVerify}
+            disabled={busy}
+            className="px-3 py-1 bg-purple-50 text-purple-700 rounded-md hover:bg-purple-100 disabled:opacity-50"
+          >
+            Verify chain
+          </button>
+        </div>
+      </div>
+
+      <form onSubmit={applyFilter} className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <input
+          type="text"
+          value={draft.admin_id || ''}
+          onChange={(e) => updateDraft('admin_id', e.target.value)}
+          placeholder="Admin ID"
+          className="border border-gray-300 rounded-md px-2 py-1"
+        />
+        <select
+          value={draft.action_type || ''}
+          onChange={(e) => updateDraft('action_type', e.target.value)}
+          className="border border-gray-300 rounded-md px-2 py-1"
+          aria-label="Action"
+        >
+          <option value="">All actions</option>
+          {ACTION_TYPES.map((actionType) => (
+            <option key={actionType} value={actionType}>{actionType}</option>
+          ))}
+        </select>
+        <select
+          value={draft.target_type || ''}
+          onChange={(e) => updateDraft('target_type', e.target.value)}
+          className="border border-gray-300 rounded-md px-2 py-1"
+          aria-label="Target type"
+        >
+          <option value="">Any target</option>
+          {TARGET_TYPES.map((targetType) => (
+            <option key={targetType} value={targetType}>{targetType}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.target_id || ''}
+          onChange={(e) => updateDraft('target_id', e.target.value)}
+          placeholder="Target ID"
+          className="border border-gray-300 rounded-md px-2 py-1"
+        />
+        <input
+          type="date"
+          value={draft.from || ''}
+          onChange={(e) => updateDraft('from', e.target.value)}
+          className="border border-gray-300 rounded-md px-2 py-1"
+          aria-label="From"
+        />
+        <input
+          type="date"
+          value={draft.to || ''}
+          onChange={(e) => updateDraft('to', e.target.value)}
+          className="border border-gray-300 rounded-md px-2 py-1"
+          aria-label="To"
+        />
+        <button type="submit" className="px-3 py-1 bg-blue-50 text-blue-700 rounded-md hover:bg-blue-100">
+          Apply
+        </button>
+      </form>
+
+      {verification && (
+        <div
+          className={`mb-4 p-3 rounded-lg border ${
+            verification.valid ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+          }`}
+        >
+          {verification.valid ? (
+            <p className="text-sm text-green-700">
+              Chain intact: {verification.checked} actions verified
+            </p>
+          ) : (
+            <p className="text-sm text-red-600">
+              Chain broken at #{verification.broken_at?.sequence}:{' '}
+              {verification.broken_at && BREAK_LABELS[verification.broken_at.reason]}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 break-all">Head hash {verification.head_hash}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {target && (
+        <div className="mb-4">
+          <TargetHistory
+            token={token}
+            targetType={target.type}
+            targetId={target.id}
+            onClose={() => setTarget(null)}
+          />
+        </div>
+      )}
+
+      {!loading && entries.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No admin actions</p>
+      ) : (
+        <ul className="divide-y">
+          {entries.map((entry) => (
+            <li key={entry.action_id} className="py-3">
+              <div className="flex flex-wrap items-center gap-2">
+                {entry.sequence !== undefined ? (
+                  <span className="text-xs text-gray-400">#{entry.sequence}</span>
+                ) : (
+                  <span className="text-xs text-gray-400" title="Logged before the hash chain; not covered by verification">
+                    unchained
+                  </span>
+                )}
+                <span className="text-sm font-medium text-gray-900">{entry.action_type}</span>
+                <button
+                  onClick={() => setTarget({ type: entry.target_type, id: entry.target_id })}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  {entry.target_type} {entry.target_id}
+                </button>
+                <span className="text-xs text-gray-500">by {entry.admin_username || entry.admin_id}</span>
+                <span className="ml-auto text-xs text-gray-500">
+                  {new Date(entry.created_at).toLocaleString()}
+                </span>
+              </div>
+              {(entry.reason || entry.notes) && (
+                <p className="text-xs text-gray-600">
+                  {[entry.reason, entry.notes].filter(Boolean).join(' · ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {nextKey && (
+        <div className="text-center pt-4">
+          <button
+            onClick={() => loadEntries(true)}
+            disabled={loading}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
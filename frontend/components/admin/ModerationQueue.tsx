@@ -0,0 +1,277 @@
+/**
+ * Moderation Queue Component
+ * Admin view of items waiting for a decision, with filters, claiming and resolution
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  getModerationQueue,
+  claimQueueItem,
+  assignQueueItem,
+  resolveQueueItem,
+  ModerationItem,
+  ModerationItemType,
+  ModerationSeverity,
+  ModerationOutcome,
+  MODERATION_OUTCOMES,
+} from '@/services/admin';
+
+interface ModerationQueueProps {
+  token: string;
+  currentAdminId: string;
+}
+
+const TYPE_LABELS: Record<ModerationItemType, string> = {
+  ingredient_review: 'Suspicious ingredient',
+  invalid_ingredient: 'Invalid ingredient',
+  user_abuse: 'User abuse',
+  abuse_escalation: 'Escalation',
+  recipe_review: 'Recipe approval',
+  content_report: 'User report',
+};
+
+const SEVERITY_STYLES: Record<ModerationSeverity, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+const OUTCOME_LABELS: Record<ModerationOutcome, string> = {
+  approved: 'Approve',
+  rejected: 'Reject',
+  actioned: 'Action taken',
+  dismissed: 'Dismiss',
+};
+
+export default function ModerationQueue({ token, currentAdminId }: ModerationQueueProps) {
+  const [items, setItems] = useState<ModerationItem[]>([]);
+  const [status, setStatus] = useState<'open' | 'resolved'>('open');
+  const [type, setType] = useState<ModerationItemType | ''>('');
+  const [severity, setSeverity] = useState<ModerationSeverity | ''>('');
+  const [mineOnly, setMineOnly] = useState(false);
+  const [nextKey, setNextKey] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notes, setNotes] = useState<{ [itemId: string]: string }>({});
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadItems();
+  }, [token, status, type, severity, mineOnly]);
+
+  const loadItems = async (isLoadMore = false) => {
+    try {
+      setLoading(true);
+
+      const result = await getModerationQueue(
+        token,
+        {
+          status,
+          type: type || undefined,
+          severity: severity || undefined,
+          assignee: mineOnly ? 'me' : undefined,
+        },
+        50,
+        isLoadMore ? nextKey : undefined
+      );
+
+      setItems((prev) => (isLoadMore ? [...prev, ...result.items] : result.items));
+      setNextKey(result.next_key);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run an item action and swap in the updated item (or drop it once resolved)
+  const runAction = async (itemId: string, action: () => Promise<ModerationItem>) => {
+    try {
+      setBusyItemId(itemId);
+      const updated = await action();
+      setItems((prev) =>
+        updated.status === 'resolved' && status === 'open'
+          ? prev.filter((item) => item.item_id !== itemId)
+          : prev.map((item) => (item.item_id === itemId ? updated : item))
+      );
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold text-gray-900">Moderation Queue</h2>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as 'open' | 'resolved')}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Status"
+          >
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+          </select>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as ModerationItemType | '')}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Type"
+          >
+            <option value="">All types</option>
+            {Object.entries(TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={severity}
+            onChange={(e) => setSeverity(e.target.value as ModerationSeverity | '')}
+            className="border border-gray-300 rounded-md px-2 py-1"
+            aria-label="Severity"
+          >
+            <option value="">All severities</option>
+            <option value="critical">Critical</option>
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input type="checkbox" checked={mineOnly} onChange={(e) => setMineOnly(e.target.checked)} />
+            Assigned to me
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!loading && items.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">Nothing to review</p>
+      ) : (
+        <ul className="divide-y">
+          {items.map((item) => {
+            const isMine = item.assignee_id === currentAdminId;
+            const isBusy = busyItemId === item.item_id;
+
+            return (
+              <li key={item.item_id} className="py-4">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[item.severity]}`}>
+                    {item.severity}
+                  </span>
+                  <span className="text-sm font-medium text-gray-900">{TYPE_LABELS[item.item_type] || item.item_type}</span>
+                  <span className="text-xs text-gray-500">
+                    {item.target_type} {item.target_id}
+                  </span>
+                  {item.occurrence_count > 1 && (
+                    <span className="text-xs text-gray-500">flagged {item.occurrence_count}×</span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {new Date(item.created_at).toLocaleString()}
+                  </span>
+                </div>
+
+                <p className="text-sm text-gray-700">{item.reason}</p>
+
+                {item.item_type === 'content_report' && Array.isArray(item.details.reports) && (
+                  <ul className="mt-1 space-y-0.5">
+                    {item.details.reports.map((report: any) => (
+                      <li key={report.reporter_id} className="text-xs text-gray-600">
+                        {report.reason_code} by {report.reporter_id} (reputation {report.reporter_reputation})
+                        {report.details && `: ${report.details}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {item.status === 'resolved' ? (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {item.outcome} by {item.resolved_by}
+                    {item.resolution_notes && `: ${item.resolution_notes}`}
+                  </p>
+                ) : (
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    {item.assignee_id && (
+                      <span className="text-xs text-gray-500">
+                        {isMine ? 'Claimed by you' : `Claimed by ${item.assignee_id}`}
+                      </span>
+                    )}
+
+                    {!item.assignee_id && (
+                      <button
+                        onClick={() => runAction(item.item_id, () => claimQueueItem(token, item.item_id))}
+                        disabled={isBusy}
+                        className="px-3 py-1 text-xs bg-blue-50 text-blue-700 rounded-md hover:bg-blue-100 disabled:opacity-50"
+                      >
+                        Claim
+                      </button>
+                    )}
+
+                    {isMine && (
+                      <button
+                        onClick={() => runAction(item.item_id, () => assignQueueItem(token, item.item_id, null))}
+                        disabled={isBusy}
+                        className="px-3 py-1 text-xs bg-gray-50 text-gray-700 rounded-md hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        Release
+                      </button>
+                    )}
+
+                    {(!item.assignee_id || isMine) && (
+                      <>
+                        <input
+                          type="text"
+                          value={notes[item.item_id] || ''}
+                          onChange={(e) => setNotes((prev) => ({ ...prev, [item.item_id]: e.target.value }))}
+                          placeholder="Notes"
+                          className="border border-gray-300 rounded-md px-2 py-1 text-xs"
+                        />
+                        {MODERATION_OUTCOMES[item.item_type].map((outcome) => (
+                          <button
+                            key={outcome}
+                            onClick={() =>
+                              runAction(item.item_id, () =>
+                                resolveQueueItem(token, item.item_id, outcome, notes[item.item_id] || undefined)
+                              )
+                            }
+                            disabled={isBusy}
+                            className="px-3 py-1 text-xs bg-purple-50 text-purple-700 rounded-md hover:bg-purple-100 disabled:opacity-50"
+                          >
+                            {OUTCOME_LABELS[outcome]}
+                          </button>
+                        ))}
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {nextKey && (
+        <div className="text-center pt-4">
+          <button
+            onClick={() => loadItems(true)}
+            disabled={loading}
+            className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+          >
+            {loading ? 'Loading...' : 'Load More'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
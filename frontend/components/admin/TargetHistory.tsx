@@ -0,0 +1,131 @@
+/**
+ * Target History Component
+ * Everything admins did to one user, recipe, post or queue item, next to the user's violations
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getTargetHistory, TargetHistory as TargetHistoryData } from '@/services/admin';
+
+interface TargetHistoryProps {
+  token: string;
+  targetType: string;
+  targetId: string;
+  onClose?: () => void;
+}
+
+const VIOLATION_SEVERITY_STYLES: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+export default function TargetHistory({ token, targetType, targetId, onClose }: TargetHistoryProps) {
+  const [history, setHistory] = useState<TargetHistoryData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory();
+  }, [token, targetType, targetId]);
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      setHistory(await getTargetHistory(token, targetType, targetId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load target history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900">
+          History of {targetType} {targetId}
+        </h3>
+        {onClose && (
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700">
+            Close
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {loading && !history && <p className="text-sm text-gray-500">Loading...</p>}
+
+      {history && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Admin actions ({history.actions.length})</h4>
+            {history.actions.length === 0 ? (
+              <p className="text-sm text-gray-500">No admin actions</p>
+            ) : (
+              <ul className="divide-y">
+                {history.actions.map((action) => (
+                  <li key={action.action_id} className="py-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-gray-900">{action.action_type}</span>
+                      <span className="text-xs text-gray-500">by {action.admin_username || action.admin_id}</span>
+                      <span className="ml-auto text-xs text-gray-500">
+                        {new Date(action.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    {(action.reason || action.notes) && (
+                      <p className="text-xs text-gray-600">
+                        {[action.reason, action.notes].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {history.truncated && (
+              <p className="mt-2 text-xs text-gray-500">Older actions are in the audit log export</p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Violations ({history.violations.length})</h4>
+            {history.violations.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {targetType === 'user' ? 'No violations' : 'Violations are only tracked for users'}
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {history.violations.map((violation) => (
+                  <li key={violation.violation_id} className="py-2">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${VIOLATION_SEVERITY_STYLES[violation.severity] || ''}`}
+                      >
+                        {violation.severity}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900">{violation.type}</span>
+                      <span className="ml-auto text-xs text-gray-500">
+                        {new Date(violation.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600">
+                      {violation.description}
+                      {violation.action_taken && ` (${violation.action_taken})`}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * AuditLog Component Tests
+ * Tests browsing, filtering, chain verification and opening a target's history
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import AuditLog from '../AuditLog';
+import { getAuditLog, verifyAuditLog, getTargetHistory } from '@/services/admin';
+
+jest.mock('@/services/admin', () => ({
+  ...jest.requireActual('@/services/admin'),
+  getAuditLog: jest.fn(),
+  exportAuditLog: jest.fn(),
+  verifyAuditLog: jest.fn(),
+  getTargetHistory: jest.fn(),
+}));
+
+const mockGetAuditLog = getAuditLog as jest.Mock;
+const mockVerifyAuditLog = verifyAuditLog as jest.Mock;
+const mockGetTargetHistory = getTargetHistory as jest.Mock;
+
+describe('AuditLog Component', () => {
+  const ban = {
+    action_id: 'action-1',
+    admin_id: 'admin-1',
+    action_type: 'ban_user',
+    target_type: 'user',
+    target_id: 'user-1',
+    reason: 'Repeated spam',
+    sequence: 3,
+    created_at: new Date().toISOString(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetAuditLog.mockResolvedValue({ entries: [ban], count: 1 });
+  });
+
+  it('should render actions and reload with the applied filters', async () => {
+    render(<AuditLog token="token" />);
+
+    expect(await screen.findByText('Repeated spam')).toBeInTheDocument();
+    expect(mockGetAuditLog).toHaveBeenCalledWith('token', {}, 50, undefined);
+
+    fireEvent.change(screen.getByLabelText('Action'), { target: { value: 'ban_user' } });
+    fireEvent.change(screen.getByPlaceholderText('Admin ID'), { target: { value: 'admin-1' } });
+    fireEvent.click(screen.getByText('Apply'));
+
+    await waitFor(() => {
+      expect(mockGetAuditLog).toHaveBeenLastCalledWith(
+        'token',
+        { action_type: 'ban_user', admin_id: 'admin-1' },
+        50,
+        undefined
+      );
+    });
+  });
+
+  it('should report where the hash chain breaks', async () => {
+    mockVerifyAuditLog.mockResolvedValue({
+      valid: false,
+      checked: 1,
+      head_sequence: 3,
+      head_hash: 'abc123',
+      broken_at: { sequence: 2, reason: 'hash_mismatch' },
+      verified_at: new Date().toISOString(),
+    });
+    render(<AuditLog token="token" />);
+
+    fireEvent.click(await screen.findByText('Verify chain'));
+
+    expect(await screen.findByText('Chain broken at #2: an entry was changed')).toBeInTheDocument();
+  });
+
+  it("should open a target's history from an action", async () => {
+    mockGetTargetHistory.mockResolvedValue({
+      target_type: 'user',
+      target_id: 'user-1',
+      actions: [],
+      violations: [],
+      truncated: false,
+    });
+    render(<AuditLog token="token" />);
+
+    fireEvent.click(await screen.findByText('user user-1'));
+
+    expect(await screen.findByText('History of user user-1')).toBeInTheDocument();
+    expect(mockGetTargetHistory).toHaveBeenCalledWith('token', 'user', 'user-1');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * ModerationQueue Component Tests
+ * Tests queue display, claiming and resolution
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ModerationQueue from '../ModerationQueue';
+import { getModerationQueue, claimQueueItem, resolveQueueItem } from '@/services/admin';
+
+jest.mock('@/services/admin', () => ({
+  ...jest.requireActual('@/services/admin'),
+  getModerationQueue: jest.fn(),
+  claimQueueItem: jest.fn(),
+  assignQueueItem: jest.fn(),
+  resolveQueueItem: jest.fn(),
+}));
+
+const mockGetModerationQueue = getModerationQueue as jest.Mock;
+const mockClaimQueueItem = claimQueueItem as jest.Mock;
+const mockResolveQueueItem = resolveQueueItem as jest.Mock;
+
+describe('ModerationQueue Component', () => {
+  const recipeReview = {
+    item_id: 'item-1',
+    item_type: 'recipe_review',
+    severity: 'low',
+    status: 'open',
+    target_type: 'recipe',
+    target_id: 'recipe-1',
+    reason: 'Public recipe awaiting approval',
+    source: 'recipe',
+    details: {},
+    occurrence_count: 1,
+    created_at: new Date().toISOString(),
+    last_flagged_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetModerationQueue.mockResolvedValue({ items: [recipeReview], count: 1 });
+  });
+
+  it('should render open items with their type and reason', async () => {
+    render(<ModerationQueue token="token" currentAdminId="admin-1" />);
+
+    expect(await screen.findByText('Public recipe awaiting approval')).toBeInTheDocument();
+    expect(screen.getByText('Recipe approval', { selector: 'span' })).toBeInTheDocument();
+    expect(mockGetModerationQueue).toHaveBeenCalledWith('token', expect.objectContaining({ status: 'open' }), 50, undefined);
+  });
+
+  it('should claim an unassigned item', async () => {
+    mockClaimQueueItem.mockResolvedValue({ ...recipeReview, assignee_id: 'admin-1' });
+    render(<ModerationQueue token="token" currentAdminId="admin-1" />);
+
+    fireEvent.click(await screen.findByText('Claim'));
+
+    expect(await screen.findByText('Claimed by you')).toBeInTheDocument();
+    expect(mockClaimQueueItem).toHaveBeenCalledWith('token', 'item-1');
+  });
+
+  it('should drop an item from the open list once resolved', async () => {
+    mockResolveQueueItem.mockResolvedValue({ ...recipeReview, status: 'resolved', outcome: 'approved' });
+    render(<ModerationQueue token="token" currentAdminId="admin-1" />);
+
+    fireEvent.click(await screen.findByText('Approve'));
+
+    await waitFor(() => {
+      expect(screen.queryByText('Public recipe awaiting approval')).not.toBeInTheDocument();
+    });
+    expect(mockResolveQueueItem).toHaveBeenCalledWith('token', 'item-1', 'approved', undefined);
+  });
+});
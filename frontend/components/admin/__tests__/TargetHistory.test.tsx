@@ -0,0 +1,80 @@
+/**
+ * TargetHistory Component Tests
+ * Tests a target's admin actions shown next to its violations
+ */
+
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import TargetHistory from '../TargetHistory';
+import { getTargetHistory } from '@/services/admin';
+
+jest.mock('@/services/admin', () => ({
+  ...jest.requireActual('@/services/admin'),
+  getTargetHistory: jest.fn(),
+}));
+
+const mockGetTargetHistory = getTargetHistory as jest.Mock;
+
+describe('TargetHistory Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show the admin actions next to the user violations', async () => {
+    mockGetTargetHistory.mockResolvedValue({
+      target_type: 'user',
+      target_id: 'user-1',
+      actions: [
+        {
+          action_id: 'action-1',
+          admin_id: 'admin-1',
+          action_type: 'ban_user',
+          target_type: 'user',
+          target_id: 'user-1',
+          reason: 'Repeated spam',
+          notes: 'Banned for 30 days',
+          sequence: 7,
+          created_at: new Date().toISOString(),
+        },
+      ],
+      violations: [
+        {
+          violation_id: 'violation-1',
+          user_id: 'user-1',
+          username: 'cook',
+          type: 'spam',
+          severity: 'high',
+          description: 'Posted the same link 20 times',
+          created_at: new Date().toISOString(),
+          status: 'reviewed',
+        },
+      ],
+      truncated: false,
+    });
+
+    render(<TargetHistory token="token" targetType="user" targetId="user-1" />);
+
+    expect(await screen.findByText('ban_user')).toBeInTheDocument();
+    expect(screen.getByText('Repeated spam · Banned for 30 days')).toBeInTheDocument();
+    expect(screen.getByText('Admin actions (1)')).toBeInTheDocument();
+    expect(screen.getByText('Violations (1)')).toBeInTheDocument();
+    expect(screen.getByText('Posted the same link 20 times')).toBeInTheDocument();
+    expect(mockGetTargetHistory).toHaveBeenCalledWith('token', 'user', 'user-1');
+  });
+
+  it('should explain that only users have violations', async () => {
+    mockGetTargetHistory.mockResolvedValue({
+      target_type: 'recipe',
+      target_id: 'recipe-1',
+      actions: [],
+      violations: [],
+      truncated: false,
+    });
+
+    render(<TargetHistory token="token" targetType="recipe" targetId="recipe-1" />);
+
+    expect(await screen.findByText('Violations are only tracked for users')).toBeInTheDocument();
+    expect(screen.getByText('No admin actions')).toBeInTheDocument();
+  });
+});
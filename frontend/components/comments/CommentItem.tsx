@@ -10,12 +10,16 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { Comment } from '@/services/comments';
 import CommentInput from './CommentInput';
+import MentionText from '../posts/MentionText';
+import ReportButton from '../reports/ReportButton';
 
 interface CommentItemProps {
   comment: Comment;
   postId: string;
   currentUserId?: string;
+  postOwnerId?: string;
   onDelete?: (commentId: string) => void;
+  onEdit?: (commentId: string, content: string) => Promise<void>;
   onReplyCreated?: () => void;
   level?: number;
 }
@@ -24,16 +28,23 @@ export default function CommentItem({
   comment,
   postId,
   currentUserId,
+  postOwnerId,
   onDelete,
+  onEdit,
   onReplyCreated,
   level = 0,
 }: CommentItemProps) {
   const [showReplyInput, setShowReplyInput] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [editContent, setEditContent] = useState(comment.content);
+  const [saving, setSaving] = useState(false);
 
-  const isOwnComment = currentUserId === comment.user_id;
-  const maxNestingLevel = 2; // Limit nesting to 2 levels
+  const isOwnComment = !comment.is_deleted && currentUserId === comment.user_id;
+  const canReport = !comment.is_deleted && !comment.is_hidden && !!currentUserId && !isOwnComment;
+  const canDelete = isOwnComment || (!comment.is_deleted && !!currentUserId && currentUserId === postOwnerId);
+  const maxNestingLevel = 2; // Matches the API's maximum reply depth
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -67,31 +78,25 @@ export default function CommentItem({
     }
   };
 
+  const handleSaveEdit = async () => {
+    if (!onEdit || !editContent.trim()) return;
+
+    setSaving(true);
+    try {
+      await onEdit(comment.comment_id, editContent.trim());
+      setEditing(false);
+    } catch (error) {
+      console.error('Failed to edit comment:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleReplyCreated = () => {
     setShowReplyInput(false);
     onReplyCreated?.();
   };
 
-  // Parse @mentions and convert to links
-  const renderContentWithMentions = (text: string) => {
-    const parts = text.split(/(@\w+)/g);
-    return parts.map((part, index) => {
-      if (part.startsWith('@')) {
-        const username = part.substring(1);
-        return (
-          <Link
-            key={index}
-            href={`/users/${username}`}
-            className="text-blue-600 hover:underline font-medium"
-          >
-            {part}
-          </Link>
-        );
-      }
-      return <span key={index}>{part}</span>;
-    });
-  };
-
   return (
     <div className={`${level > 0 ? 'ml-8 mt-3' : ''}`}>
       <div className="flex gap-2">
@@ -117,23 +122,69 @@ export default function CommentItem({
 
         {/* Comment Content */}
         <div className="flex-1 min-w-0">
-          <div className="bg-gray-100 rounded-lg px-3 py-2">
-            <Link
-              href={`/users/${comment.user_id}`}
-              className="font-semibold text-sm text-gray-900 hover:underline"
-            >
-              @{comment.username}
-            </Link>
-            <p className="text-sm text-gray-800 mt-1 break-words whitespace-pre-wrap">
-              {renderContentWithMentions(comment.content)}
-            </p>
-          </div>
+          {comment.is_deleted ? (
+            <div className="bg-gray-50 rounded-lg px-3 py-2">
+              <p className="text-sm italic text-gray-500">This comment was deleted</p>
+            </div>
+          ) : comment.is_hidden && !isOwnComment ? (
+            <div className="bg-gray-50 rounded-lg px-3 py-2">
+              <p className="text-sm italic text-gray-500">This comment was hidden after reports</p>
+            </div>
+          ) : editing ? (
+            <div>
+              <textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                maxLength={2000}
+                rows={2}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                autoFocus
+              />
+              <div className="flex gap-2 mt-1">
+                <button
+                  onClick={handleSaveEdit}
+                  disabled={saving || !editContent.trim()}
+                  className="px-3 py-1 bg-blue-600 text-white rounded text-xs hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => {
+                    setEditing(false);
+                    setEditContent(comment.content);
+                  }}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 transition"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-gray-100 rounded-lg px-3 py-2">
+              <Link
+                href={`/users/${comment.user_id}`}
+                className="font-semibold text-sm text-gray-900 hover:underline"
+              >
+                @{comment.username}
+              </Link>
+              <p className="text-sm text-gray-800 mt-1 break-words whitespace-pre-wrap">
+                <MentionText content={comment.content} mentions={comment.mentions} />
+              </p>
+              {comment.is_hidden && (
+                <p className="text-xs text-yellow-700 mt-1">Hidden after reports; only you can see it</p>
+              )}
+            </div>
+          )}
 
           {/* Action Buttons */}
           <div className="flex items-center gap-3 mt-1 px-2">
             <span className="text-xs text-gray-500">{formatDate(comment.created_at)}</span>
-            
-            {level < maxNestingLevel && (
+
+            {comment.edited_at && !comment.is_deleted && (
+              <span className="text-xs text-gray-400">(edited)</span>
+            )}
+
+            {level < maxNestingLevel && !comment.is_deleted && (
               <button
                 onClick={() => setShowReplyInput(!showReplyInput)}
                 className="text-xs font-semibold text-gray-600 hover:text-blue-600 transition"
@@ -148,8 +199,23 @@ export default function CommentItem({
               </span>
             ) : null}
 
-            {isOwnComment && onDelete && (
-              <div className="relative ml-auto">
+            {isOwnComment && onEdit && !editing && (
+              <button
+                onClick={() => setEditing(true)}
+                className="text-xs font-semibold text-gray-600 hover:text-blue-600 transition ml-auto"
+              >
+                Edit
+              </button>
+            )}
+
+            {canReport && (
+              <div className="ml-auto">
+                <ReportButton targetType="comment" targetId={comment.comment_id} postId={postId} />
+              </div>
+            )}
+
+            {canDelete && onDelete && (
+              <div className={`relative ${(isOwnComment && onEdit && !editing) || canReport ? '' : 'ml-auto'}`}>
                 <button
                   onClick={() => setShowDeleteConfirm(!showDeleteConfirm)}
                   className="text-xs font-semibold text-gray-600 hover:text-red-600 transition"
@@ -7,23 +7,27 @@
 
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { getComments, deleteComment, Comment } from '@/services/comments';
+import { getComments, deleteComment, updateComment, getReplies, Comment } from '@/services/comments';
 import CommentInput from './CommentInput';
 import CommentItem from './CommentItem';
 
 interface CommentListProps {
   postId: string;
+  postOwnerId?: string;
   initialCommentCount?: number;
 }
 
-export default function CommentList({ postId, initialCommentCount = 0 }: CommentListProps) {
+type CommentNode = Comment & { replies?: CommentNode[]; replies_next_key?: string };
+
+export default function CommentList({ postId, postOwnerId, initialCommentCount = 0 }: CommentListProps) {
   const { token, user } = useAuth();
-  const [comments, setComments] = useState<Comment[]>([]);
+  const [comments, setComments] = useState<CommentNode[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [nextToken, setNextToken] = useState<string | undefined>();
   const [loadingMore, setLoadingMore] = useState(false);
   const [showInput, setShowInput] = useState(false);
+  const [loadingReplies, setLoadingReplies] = useState<string | null>(null);
 
   useEffect(() => {
     if (token) {
@@ -44,8 +48,8 @@ export default function CommentList({ postId, initialCommentCount = 0 }: Comment
       const result = await getComments(token, postId, 20, isLoadMore ? nextToken : undefined);
 
       // Organize comments into tree structure
-      const commentMap = new Map<string, Comment & { replies?: Comment[] }>();
-      const rootComments: (Comment & { replies?: Comment[] })[] = [];
+      const commentMap = new Map<string, CommentNode>();
+      const rootComments: CommentNode[] = [];
 
       // First pass: create map of all comments
       result.comments.forEach((comment) => {
@@ -95,14 +99,53 @@ export default function CommentList({ postId, initialCommentCount = 0 }: Comment
     }
   };
 
-  const renderComment = (comment: Comment & { replies?: Comment[] }, level = 0) => {
+  const handleEditComment = async (commentId: string, content: string) => {
+    if (!token) return;
+
+    await updateComment(token, postId, commentId, content);
+    loadComments();
+  };
+
+  // Long threads only come with their first replies, the rest load on demand
+  const handleLoadMoreReplies = async (comment: CommentNode) => {
+    if (!token) return;
+
+    setLoadingReplies(comment.comment_id);
+    try {
+      const loaded = comment.replies || [];
+      const nextKey = loaded.length > 0 ? comment.replies_next_key : undefined;
+      const result = await getReplies(token, postId, comment.comment_id, 20, nextKey);
+
+      const withReplies = (node: CommentNode): CommentNode =>
+        node.comment_id === comment.comment_id
+          ? {
+              ...node,
+              replies: [...(nextKey ? loaded : []), ...result.replies],
+              replies_next_key: result.next_key,
+            }
+          : { ...node, replies: node.replies?.map(withReplies) };
+
+      setComments((prev) => prev.map(withReplies));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load replies');
+    } finally {
+      setLoadingReplies(null);
+    }
+  };
+
+  const renderComment = (comment: CommentNode, level = 0) => {
+    const loadedReplies = comment.replies?.length || 0;
+    const hasMoreReplies = (comment.reply_count || 0) > loadedReplies;
+
     return (
       <div key={comment.comment_id}>
         <CommentItem
           comment={comment}
           postId={postId}
           currentUserId={user?.sub}
+          postOwnerId={postOwnerId}
           onDelete={handleDeleteComment}
+          onEdit={handleEditComment}
           onReplyCreated={() => loadComments()}
           level={level}
         />
@@ -111,6 +154,19 @@ export default function CommentList({ postId, initialCommentCount = 0 }: Comment
             {comment.replies.map((reply) => renderComment(reply, level + 1))}
           </div>
         )}
+        {hasMoreReplies && (
+          <button
+            onClick={() => handleLoadMoreReplies(comment)}
+            disabled={loadingReplies === comment.comment_id}
+            className="ml-8 mt-2 text-xs font-semibold text-gray-600 hover:text-blue-600 transition disabled:opacity-50"
+          >
+            {loadingReplies === comment.comment_id
+              ? 'Loading...'
+              : `View ${(comment.reply_count || 0) - loadedReplies} more ${
+                  (comment.reply_count || 0) - loadedReplies === 1 ? 'reply' : 'replies'
+                }`}
+          </button>
+        )}
       </div>
     );
   };
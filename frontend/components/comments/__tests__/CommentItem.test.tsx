@@ -8,6 +8,13 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import CommentItem from '../CommentItem';
 
+jest.mock('../../reports/ReportButton', () => ({
+  __esModule: true,
+  default: ({ targetId, postId }: { targetId: string; postId?: string }) => (
+    <span data-testid={`report-${targetId}-${postId}`} />
+  ),
+}));
+
 describe('CommentItem Component', () => {
   const mockComment = {
     comment_id: 'comment-123',
@@ -92,4 +99,64 @@ describe('CommentItem Component', () => {
     render(<CommentItem comment={commentNoAvatar} postId="post-456" />);
     expect(screen.getByText('Great recipe!')).toBeInTheDocument();
   });
+
+  it('should link resolved mentions and leave other handles as text', () => {
+    const commentWithMentions = {
+      ...mockComment,
+      content: 'Try this @jane_cook and @nobody',
+      mentions: [{ user_id: 'user-jane', username: 'jane_cook', offset: 9, length: 10 }],
+    };
+    render(<CommentItem comment={commentWithMentions} postId="post-456" />);
+
+    expect(screen.getByRole('link', { name: '@jane_cook' })).toHaveAttribute('href', '/users/user-jane');
+    expect(screen.queryByRole('link', { name: '@nobody' })).not.toBeInTheDocument();
+  });
+
+  it('should mark edited comments', () => {
+    render(<CommentItem comment={{ ...mockComment, edited_at: new Date().toISOString() }} postId="post-456" />);
+    expect(screen.getByText('(edited)')).toBeInTheDocument();
+  });
+
+  it('should show a placeholder without actions for deleted comments', () => {
+    render(
+      <CommentItem
+        comment={{ ...mockComment, content: '', is_deleted: true, reply_count: 1 }}
+        postId="post-456"
+        currentUserId="user-789"
+        onDelete={mockOnDelete}
+      />
+    );
+    expect(screen.getByText('This comment was deleted')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /delete|reply/i })).not.toBeInTheDocument();
+  });
+
+  it('should let the post owner delete comments on their post', () => {
+    render(
+      <CommentItem
+        comment={mockComment}
+        postId="post-456"
+        currentUserId="post-owner"
+        postOwnerId="post-owner"
+        onDelete={mockOnDelete}
+      />
+    );
+    expect(screen.getByRole('button', { name: /delete/i })).toBeInTheDocument();
+  });
+
+  it('should let other users report a comment', () => {
+    render(<CommentItem comment={mockComment} postId="post-456" currentUserId="different-user" />);
+    expect(screen.getByTestId('report-comment-123-post-456')).toBeInTheDocument();
+  });
+
+  it('should replace hidden comments with a placeholder for other users', () => {
+    render(
+      <CommentItem
+        comment={{ ...mockComment, user_id: '', username: '[hidden]', content: '', is_hidden: true }}
+        postId="post-456"
+        currentUserId="different-user"
+      />
+    );
+    expect(screen.getByText('This comment was hidden after reports')).toBeInTheDocument();
+    expect(screen.queryByTestId('report-comment-123-post-456')).not.toBeInTheDocument();
+  });
 });
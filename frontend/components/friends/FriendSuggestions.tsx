@@ -0,0 +1,129 @@
+/**
+ * Friend Suggestions Component
+ * "People you may know" panel with the reason for each suggestion
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { getFriendSuggestions, sendFriendRequest, FriendSuggestion } from '@/services/friends';
+import { useAuth } from '@/contexts/AuthContext';
+
+export default function FriendSuggestions() {
+  const { token } = useAuth();
+  const [suggestions, setSuggestions] = useState<FriendSuggestion[]>([]);
+  const [requested, setRequested] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sendingRequest, setSendingRequest] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const loadSuggestions = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await getFriendSuggestions(token, 6);
+        setSuggestions(data.suggestions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load suggestions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSuggestions();
+  }, [token]);
+
+  const handleSendRequest = async (userId: string) => {
+    setSendingRequest(userId);
+    setError(null);
+    try {
+      await sendFriendRequest(token!, userId);
+      setRequested(prev => new Set(prev).add(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send request');
+    } finally {
+      setSendingRequest(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">People You May Know</h2>
+
+      {/* Error Message */}
+      {error && (
+        <div className="mb-4 text-sm text-red-600 bg-red-50 p-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Loading State */}
+      {loading && (
+        <div className="text-center py-8 text-gray-500">
+          Finding people you may know...
+        </div>
+      )}
+
+      {/* Suggestions */}
+      {!loading && suggestions.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {suggestions.map((suggestion) => (
+            <div
+              key={suggestion.user_id}
+              className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg hover:bg-gray-100 transition"
+            >
+              <Link href={`/profile/${suggestion.username}`} className="flex items-center gap-3 flex-1 min-w-0">
+                {/* Avatar */}
+                <div className="relative w-12 h-12 flex-shrink-0">
+                  <Image
+                    src={suggestion.avatar_url || '/default-avatar.png'}
+                    alt={suggestion.username}
+                    fill
+                    className="rounded-full object-cover"
+                  />
+                </div>
+
+                {/* User Info */}
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 truncate hover:text-blue-600">
+                    {suggestion.full_name || suggestion.username}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">{suggestion.reason}</p>
+                </div>
+              </Link>
+
+              {/* Add Friend Button */}
+              <button
+                onClick={() => handleSendRequest(suggestion.user_id)}
+                disabled={requested.has(suggestion.user_id) || sendingRequest === suggestion.user_id}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition ${
+                  requested.has(suggestion.user_id)
+                    ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
+                    : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300'
+                }`}
+              >
+                {sendingRequest === suggestion.user_id
+                  ? 'Sending...'
+                  : requested.has(suggestion.user_id)
+                  ? 'Request Sent'
+                  : 'Add Friend'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!loading && !error && suggestions.length === 0 && (
+        <div className="text-center py-8 text-gray-400 text-sm">
+          No suggestions yet. Add friends or cook a few recipes to get some.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,21 +7,13 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { searchUsers, sendFriendRequest } from '@/services/friends';
+import { searchUsers, sendFriendRequest, UserSearchResult } from '@/services/friends';
 import { useAuth } from '@/contexts/AuthContext';
 
-interface SearchResult {
-  user_id: string;
-  username: string;
-  full_name: string;
-  avatar_url?: string;
-  is_friend: boolean;
-}
-
 export default function UserSearch() {
   const { token } = useAuth();
   const [query, setQuery] = useState('');
-  const [results, setResults] = useState<SearchResult[]>([]);
+  const [results, setResults] = useState<UserSearchResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sendingRequest, setSendingRequest] = useState<string | null>(null);
@@ -57,7 +49,7 @@ export default function UserSearch() {
       // Update results to reflect sent request
       setResults(prev =>
         prev.map(user =>
-          user.user_id === userId ? { ...user, is_friend: true } : user
+          user.user_id === userId ? { ...user, friendship_status: 'pending' } : user
         )
       );
     } catch (err) {
@@ -117,26 +109,31 @@ export default function UserSearch() {
               {/* User Info */}
               <div className="flex-1 min-w-0">
                 <p className="font-semibold text-gray-900 truncate">
-                  {user.full_name}
+                  {user.full_name || user.username}
                 </p>
                 <p className="text-sm text-gray-500 truncate">
                   @{user.username}
+                  {user.mutual_friends_count > 0 && (
+                    <span> · {user.mutual_friends_count} mutual friend{user.mutual_friends_count === 1 ? '' : 's'}</span>
+                  )}
                 </p>
               </div>
 
               {/* Add Friend Button */}
               <button
                 onClick={() => handleSendRequest(user.user_id)}
-                disabled={user.is_friend || sendingRequest === user.user_id}
+                disabled={user.friendship_status === 'accepted' || user.friendship_status === 'pending' || sendingRequest === user.user_id}
                 className={`px-4 py-2 rounded-lg text-sm font-medium transition ${
-                  user.is_friend
+                  user.friendship_status === 'accepted' || user.friendship_status === 'pending'
                     ? 'bg-gray-200 text-gray-500 cursor-not-allowed'
                     : 'bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-300'
                 }`}
               >
                 {sendingRequest === user.user_id
                   ? 'Sending...'
-                  : user.is_friend
+                  : user.friendship_status === 'accepted'
+                  ? 'Friends'
+                  : user.friendship_status === 'pending'
                   ? 'Request Sent'
                   : 'Add Friend'}
               </button>
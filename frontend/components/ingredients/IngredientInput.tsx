@@ -282,10 +282,13 @@ export default function IngredientInput({
                     ? 'bg-green-100 text-green-800'
                     : suggestion.match_type === 'alias'
                     ? 'bg-blue-100 text-blue-800'
+                    : suggestion.match_type === 'prefix'
+                    ? 'bg-gray-100 text-gray-800'
                     : 'bg-yellow-100 text-yellow-800'
                 }`}>
                   {suggestion.match_type === 'exact' ? 'Chính xác' :
-                   suggestion.match_type === 'alias' ? 'Tên khác' : 'Gần đúng'}
+                   suggestion.match_type === 'alias' ? 'Tên khác' :
+                   suggestion.match_type === 'prefix' ? 'Gợi ý' : 'Gần đúng'}
                 </span>
               </div>
               {suggestion.aliases.length > 0 && (
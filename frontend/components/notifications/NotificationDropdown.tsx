@@ -25,14 +25,13 @@ export default function NotificationDropdown() {
   const [nextToken, setNextToken] = useState<string | undefined>();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Auto-refresh every 30 seconds - DISABLED due to missing backend route
+  // Auto-refresh every 30 seconds
   useEffect(() => {
-    // TODO: Enable when /notifications route is implemented
-    // if (token) {
-    //   loadNotifications();
-    //   const interval = setInterval(loadNotifications, 30000);
-    //   return () => clearInterval(interval);
-    // }
+    if (token) {
+      loadNotifications();
+      const interval = setInterval(loadNotifications, 30000);
+      return () => clearInterval(interval);
+    }
   }, [token]);
 
   // Close dropdown when clicking outside
@@ -110,6 +110,8 @@ export default function NotificationItem({
         return `/users/${notification.target_id}`;
       case 'comment':
         return `/feed#comment-${notification.target_id}`;
+      case 'friendship':
+        return '/friends';
       default:
         return '#';
     }
@@ -0,0 +1,79 @@
+/**
+ * Mention Text Component
+ * Renders post or comment content with resolved @mentions linked to profiles, and
+ * optionally #hashtags linked to their tag pages
+ */
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Mention } from '@/services/posts';
+
+interface MentionTextProps {
+  content: string;
+  mentions?: Mention[];
+  linkHashtags?: boolean;
+}
+
+// Same rule as the API: "#" must not follow a letter, digit or "&" (Vietnamese letters included)
+const HASHTAG_PATTERN = /(^|[^A-Za-z0-9_&#\u00C0-\u1EFF])#([A-Za-z0-9_\u00C0-\u1EFF\u0300-\u036f]{1,50})/g;
+
+function renderHashtags(text: string, keyPrefix: number): React.ReactNode[] {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const match of Array.from(text.matchAll(HASHTAG_PATTERN))) {
+    const start = match.index! + match[1].length;
+    const tag = match[2];
+    if (!/[A-Za-z\u00C0-\u1EFF]/.test(tag)) continue; // "#2024" is not a tag
+
+    parts.push(text.slice(position, start));
+    parts.push(
+      <Link
+        key={`${keyPrefix}-${start}`}
+        href={`/tags/${encodeURIComponent(tag)}`}
+        className="text-blue-600 hover:underline"
+      >
+        #{tag}
+      </Link>
+    );
+    position = start + tag.length + 1;
+  }
+
+  parts.push(text.slice(position));
+  return parts;
+}
+
+export default function MentionText({ content, mentions = [], linkHashtags = false }: MentionTextProps) {
+  // Handles that did not resolve to a user (or one who cannot see the post) stay plain text
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  const pushText = (text: string, offset: number) => {
+    parts.push(...(linkHashtags ? renderHashtags(text, offset) : [text]));
+  };
+
+  [...mentions]
+    .sort((a, b) => a.offset - b.offset)
+    .filter((mention) => mention.offset + mention.length <= content.length)
+    .forEach((mention) => {
+      if (mention.offset < position) return; // Overlaps the previous mention
+
+      pushText(content.slice(position, mention.offset), position);
+      parts.push(
+        <Link
+          key={mention.offset}
+          href={`/users/${mention.user_id}`}
+          className="text-blue-600 hover:underline font-medium"
+        >
+          {content.slice(mention.offset, mention.offset + mention.length)}
+        </Link>
+      );
+      position = mention.offset + mention.length;
+    });
+
+  pushText(content.slice(position), position);
+
+  return <>{parts}</>;
+}
@@ -10,7 +10,9 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { Post } from '@/services/posts';
 import ReactionButtons from './ReactionButtons';
+import MentionText from './MentionText';
 import CommentList from '../comments/CommentList';
+import ReportButton from '../reports/ReportButton';
 
 interface PostCardProps {
   post: Post;
@@ -99,6 +101,11 @@ export default function PostCard({
           </div>
         </Link>
 
+        {/* Report Button */}
+        {currentUserId && !isOwnPost && (
+          <ReportButton targetType="post" targetId={post.post_id} />
+        )}
+
         {/* Delete Button */}
         {isOwnPost && onDelete && (
           <div className="relative">
@@ -142,9 +149,18 @@ export default function PostCard({
         )}
       </div>
 
+      {/* Hidden Notice (only the author still sees a hidden post) */}
+      {post.is_hidden && (
+        <div className="mx-4 mb-3 px-3 py-2 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          This post was hidden after reports and is only visible to you while it is reviewed.
+        </div>
+      )}
+
       {/* Post Content */}
       <div className="px-4 pb-3">
-        <p className="text-gray-800 whitespace-pre-wrap break-words">{post.content}</p>
+        <p className="text-gray-800 whitespace-pre-wrap break-words">
+          <MentionText content={post.content} mentions={post.mentions} linkHashtags />
+        </p>
       </div>
 
       {/* Post Image */}
@@ -201,7 +217,11 @@ export default function PostCard({
 
       {/* Comments Section */}
       {showComments && commentsExpanded && (
-        <CommentList postId={post.post_id} initialCommentCount={post.comment_count} />
+        <CommentList
+          postId={post.post_id}
+          postOwnerId={post.user_id}
+          initialCommentCount={post.comment_count}
+        />
       )}
     </div>
   );
@@ -0,0 +1,50 @@
+/**
+ * Trending Tags Component
+ * Most used hashtags on public posts, linked to their tag pages
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { getTrendingTags, TrendingTag } from '@/services/posts';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface TrendingTagsProps {
+  days?: number;
+  limit?: number;
+}
+
+export default function TrendingTags({ days = 1, limit = 10 }: TrendingTagsProps) {
+  const { token } = useAuth();
+  const [tags, setTags] = useState<TrendingTag[]>([]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    getTrendingTags(token, days, limit)
+      .then((data) => setTags(data.tags))
+      .catch((err) => console.error('Failed to load trending tags:', err));
+  }, [token, days, limit]);
+
+  // Nothing to show until some public posts are tagged
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Trending Tags</h2>
+      <div className="flex flex-wrap gap-2">
+        {tags.map((tag) => (
+          <Link
+            key={tag.tag}
+            href={`/tags/${encodeURIComponent(tag.tag)}`}
+            className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-sm hover:bg-blue-100 transition"
+          >
+            #{tag.tag}
+            <span className="ml-1 text-xs text-blue-400">{tag.post_count}</span>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -26,6 +26,13 @@ jest.mock('../../comments/CommentList', () => ({
   ),
 }));
 
+jest.mock('../../reports/ReportButton', () => ({
+  __esModule: true,
+  default: ({ targetType, targetId }: { targetType: string; targetId: string }) => (
+    <button data-testid={`report-${targetType}-${targetId}`}>Report</button>
+  ),
+}));
+
 describe('PostCard Component', () => {
   const mockPost: Post = {
     post_id: 'post-123',
@@ -118,6 +125,19 @@ describe('PostCard Component', () => {
     expect(buttons.length).toBeGreaterThan(0);
   });
 
+  it('should offer reporting only on other users posts', () => {
+    const { rerender } = render(<PostCard post={mockPost} currentUserId="different-user" />);
+    expect(screen.getByTestId('report-post-post-123')).toBeInTheDocument();
+
+    rerender(<PostCard post={mockPost} currentUserId="user-456" />);
+    expect(screen.queryByTestId('report-post-post-123')).not.toBeInTheDocument();
+  });
+
+  it('should tell the author when their post is hidden', () => {
+    render(<PostCard post={{ ...mockPost, is_hidden: true }} currentUserId="user-456" />);
+    expect(screen.getByText(/hidden after reports/i)).toBeInTheDocument();
+  });
+
   it('should format recent timestamps correctly', () => {
     const recentPost = {
       ...mockPost,
@@ -169,4 +189,10 @@ describe('PostCard Component', () => {
     render(<PostCard post={postWithoutImage} />);
     expect(screen.getByText('Món ăn ngon tuyệt vời!')).toBeInTheDocument();
   });
+
+  it('should link hashtags to their tag pages', () => {
+    render(<PostCard post={{ ...mockPost, content: 'Nấu #CanhChua cho cả nhà, C# không phải tag' }} />);
+    expect(screen.getByRole('link', { name: '#CanhChua' })).toHaveAttribute('href', '/tags/CanhChua');
+    expect(screen.queryByRole('link', { name: /C#/ })).not.toBeInTheDocument();
+  });
 });
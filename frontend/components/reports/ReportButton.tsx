@@ -0,0 +1,124 @@
+/**
+ * Report Button Component
+ * Lets a user report a post, comment, recipe or profile with a reason
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { createReport, ReportReasonCode, ReportTargetType } from '@/services/reports';
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  targetId: string;
+  postId?: string; // Required when reporting a comment
+  className?: string;
+}
+
+const REASON_LABELS: Record<ReportReasonCode, string> = {
+  spam: 'Spam',
+  harassment: 'Harassment or bullying',
+  hate_speech: 'Hate speech',
+  sexual_content: 'Sexual content',
+  violence: 'Violence',
+  misinformation: 'False information',
+  food_safety: 'Unsafe food advice',
+  impersonation: 'Impersonation',
+  other: 'Something else',
+};
+
+const MAX_DETAILS_LENGTH = 500;
+
+export default function ReportButton({ targetType, targetId, postId, className }: ReportButtonProps) {
+  const { token } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [reasonCode, setReasonCode] = useState<ReportReasonCode>('spam');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const detailsRequired = reasonCode === 'other';
+
+  const handleSubmit = async () => {
+    if (!token || submitting) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await createReport(token, {
+        target_type: targetType,
+        target_id: targetId,
+        ...(postId && { post_id: postId }),
+        reason_code: reasonCode,
+        ...(details.trim() && { details: details.trim() }),
+      });
+      setSubmitted(true);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!token) return null;
+
+  if (submitted) {
+    return <span className="text-xs text-gray-500">Reported</span>;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={className || 'text-xs font-semibold text-gray-600 hover:text-red-600 transition'}
+      >
+        Report
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 p-3 w-64 z-10">
+          <p className="text-sm font-medium text-gray-900 mb-2">Why are you reporting this?</p>
+          <select
+            value={reasonCode}
+            onChange={(e) => setReasonCode(e.target.value as ReportReasonCode)}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md mb-2"
+            aria-label="Reason"
+          >
+            {Object.entries(REASON_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={MAX_DETAILS_LENGTH}
+            rows={3}
+            placeholder={detailsRequired ? 'Tell us what is wrong' : 'Add details (optional)'}
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || (detailsRequired && !details.trim())}
+              className="flex-1 px-2 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700 transition disabled:opacity-50"
+            >
+              {submitting ? 'Sending...' : 'Report'}
+            </button>
+            <button
+              onClick={() => setOpen(false)}
+              className="flex-1 px-2 py-1 bg-gray-200 text-gray-700 rounded text-xs hover:bg-gray-300 transition"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
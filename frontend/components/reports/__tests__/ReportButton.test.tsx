@@ -0,0 +1,67 @@
+/**
+ * ReportButton Component Tests
+ * Tests the report form and submission
+ */
+
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import ReportButton from '../ReportButton';
+import { createReport } from '@/services/reports';
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    token: 'mock-token-123',
+    user: { sub: 'user-123' },
+  }),
+}));
+
+jest.mock('@/services/reports', () => ({
+  createReport: jest.fn(),
+}));
+
+const mockCreateReport = createReport as jest.Mock;
+
+describe('ReportButton Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send the selected reason with the target', async () => {
+    mockCreateReport.mockResolvedValue({ report_id: 'report-1' });
+
+    render(<ReportButton targetType="comment" targetId="comment-1" postId="post-1" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Report' }));
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'harassment' } });
+    fireEvent.click(screen.getAllByRole('button', { name: 'Report' })[1]);
+
+    await waitFor(() => expect(screen.getByText('Reported')).toBeInTheDocument());
+    expect(mockCreateReport).toHaveBeenCalledWith('mock-token-123', {
+      target_type: 'comment',
+      target_id: 'comment-1',
+      post_id: 'post-1',
+      reason_code: 'harassment',
+    });
+  });
+
+  it('should require details for "other"', () => {
+    render(<ReportButton targetType="post" targetId="post-1" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Report' }));
+    fireEvent.change(screen.getByLabelText('Reason'), { target: { value: 'other' } });
+
+    expect(screen.getAllByRole('button', { name: 'Report' })[1]).toBeDisabled();
+
+    fireEvent.change(screen.getByPlaceholderText('Tell us what is wrong'), { target: { value: 'Stolen photo' } });
+    expect(screen.getAllByRole('button', { name: 'Report' })[1]).toBeEnabled();
+  });
+
+  it('should show the API error when the report is rejected', async () => {
+    mockCreateReport.mockRejectedValue(new Error('You have already reported this'));
+
+    render(<ReportButton targetType="user" targetId="user-2" />);
+    fireEvent.click(screen.getByRole('button', { name: 'Report' }));
+    fireEvent.click(screen.getAllByRole('button', { name: 'Report' })[1]);
+
+    await waitFor(() => expect(screen.getByText('You have already reported this')).toBeInTheDocument());
+  });
+});
@@ -1,5 +1,8 @@
 export const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api.smartcooking.example.com';
 
+// Lambda Function URL for streamed AI suggestions (stack output AISuggestionStreamUrl)
+export const AI_STREAM_URL = process.env.NEXT_PUBLIC_AI_STREAM_URL || '';
+
 export const API_ENDPOINTS = {
   // Ingredient endpoints
   INGREDIENT_SEARCH: '/v1/ingredients/search',
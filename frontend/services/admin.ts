@@ -0,0 +1,341 @@
+/**
+ * Admin Service
+ * API integration for the admin moderation queue and audit log
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+export type ModerationItemType =
+  | 'ingredient_review'
+  | 'invalid_ingredient'
+  | 'user_abuse'
+  | 'abuse_escalation'
+  | 'recipe_review'
+  | 'content_report';
+
+export type ModerationSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type ModerationOutcome = 'approved' | 'rejected' | 'actioned' | 'dismissed';
+
+export interface ModerationItem {
+  item_id: string;
+  item_type: ModerationItemType;
+  severity: ModerationSeverity;
+  status: 'open' | 'resolved';
+  target_type: 'recipe' | 'ingredient' | 'user' | 'post' | 'comment';
+  target_id: string;
+  reason: string;
+  source: string;
+  details: { [key: string]: any };
+  occurrence_count: number;
+  assignee_id?: string;
+  assigned_at?: string;
+  outcome?: ModerationOutcome;
+  resolution_notes?: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+  last_flagged_at: string;
+  updated_at: string;
+}
+
+export interface ModerationQueueFilter {
+  status?: 'open' | 'resolved';
+  type?: ModerationItemType;
+  severity?: ModerationSeverity;
+  assignee?: string; // 'me' for the calling admin
+}
+
+export interface ModerationQueueResponse {
+  items: ModerationItem[];
+  count: number;
+  next_key?: string;
+}
+
+// Same rule as the API: recipes are approved or rejected, everything else actioned or dismissed
+export const MODERATION_OUTCOMES: Record<ModerationItemType, ModerationOutcome[]> = {
+  ingredient_review: ['actioned', 'dismissed'],
+  invalid_ingredient: ['actioned', 'dismissed'],
+  user_abuse: ['actioned', 'dismissed'],
+  abuse_escalation: ['actioned', 'dismissed'],
+  recipe_review: ['approved', 'rejected'],
+  content_report: ['actioned', 'dismissed'],
+};
+
+/**
+ * Get a page of the moderation queue
+ * Open items come most severe first, resolved items newest first
+ */
+export async function getModerationQueue(
+  token: string,
+  filter: ModerationQueueFilter = {},
+  limit: number = 50,
+  nextKey?: string
+): Promise<ModerationQueueResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(filter.status && { status: filter.status }),
+    ...(filter.type && { type: filter.type }),
+    ...(filter.severity && { severity: filter.severity }),
+    ...(filter.assignee && { assignee: filter.assignee }),
+    ...(nextKey && { last_key: nextKey }),
+  });
+
+  const response = await fetch(`${API_URL}/admin/queue?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load moderation queue');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Claim an item for the calling admin
+ */
+export async function claimQueueItem(token: string, itemId: string): Promise<ModerationItem> {
+  const response = await fetch(`${API_URL}/admin/queue/${itemId}/claim`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to claim item');
+  }
+
+  const result = await response.json();
+  return result.data.item;
+}
+
+/**
+ * Assign an item to another admin, or unassign it with null
+ */
+export async function assignQueueItem(
+  token: string,
+  itemId: string,
+  adminId: string | null
+): Promise<ModerationItem> {
+  const response = await fetch(`${API_URL}/admin/queue/${itemId}/assign`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ admin_id: adminId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to assign item');
+  }
+
+  const result = await response.json();
+  return result.data.item;
+}
+
+/**
+ * Resolve an item with an outcome
+ */
+export async function resolveQueueItem(
+  token: string,
+  itemId: string,
+  outcome: ModerationOutcome,
+  notes?: string
+): Promise<ModerationItem> {
+  const response = await fetch(`${API_URL}/admin/queue/${itemId}/resolve`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ outcome, notes }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to resolve item');
+  }
+
+  const result = await response.json();
+  return result.data.item;
+}
+
+export interface AdminAuditEntry {
+  action_id: string;
+  admin_id: string;
+  admin_username?: string;
+  action_type: string;
+  target_type: string;
+  target_id: string;
+  reason?: string;
+  notes?: string;
+  sequence?: number; // Missing on actions logged before the hash chain
+  prev_hash?: string;
+  hash?: string;
+  created_at: string;
+}
+
+export interface AuditLogFilter {
+  admin_id?: string;
+  action_type?: string;
+  target_type?: string;
+  target_id?: string;
+  from?: string; // ISO date or timestamp
+  to?: string;
+}
+
+export interface AuditLogResponse {
+  entries: AdminAuditEntry[];
+  count: number;
+  next_key?: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  head_sequence: number;
+  head_hash: string;
+  broken_at?: {
+    sequence: number;
+    action_id?: string;
+    reason: 'missing_entry' | 'chain_mismatch' | 'hash_mismatch' | 'head_mismatch';
+  };
+  verified_at: string;
+}
+
+export interface Violation {
+  violation_id: string;
+  user_id: string;
+  username: string;
+  type: string;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  created_at: string;
+  action_taken?: string;
+  status: 'pending' | 'reviewed' | 'dismissed';
+}
+
+export interface TargetHistory {
+  target_type: string;
+  target_id: string;
+  actions: AdminAuditEntry[];
+  violations: Violation[];
+  truncated: boolean;
+}
+
+function auditParams(filter: AuditLogFilter): Record<string, string> {
+  return {
+    ...(filter.admin_id && { admin_id: filter.admin_id }),
+    ...(filter.action_type && { action_type: filter.action_type }),
+    ...(filter.target_type && filter.target_id && { target_type: filter.target_type, target_id: filter.target_id }),
+    ...(filter.from && { from: filter.from }),
+    ...(filter.to && { to: filter.to }),
+  };
+}
+
+/**
+ * Get a page of admin actions, newest first
+ */
+export async function getAuditLog(
+  token: string,
+  filter: AuditLogFilter = {},
+  limit: number = 50,
+  nextKey?: string
+): Promise<AuditLogResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...auditParams(filter),
+    ...(nextKey && { last_key: nextKey }),
+  });
+
+  const response = await fetch(`${API_URL}/admin/audit?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load audit log');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Download the admin actions matching a filter as a CSV or JSON file
+ */
+export async function exportAuditLog(
+  token: string,
+  filter: AuditLogFilter,
+  format: 'csv' | 'json'
+): Promise<Blob> {
+  const params = new URLSearchParams({ format, ...auditParams(filter) });
+
+  const response = await fetch(`${API_URL}/admin/audit/export?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to export audit log');
+  }
+
+  return response.blob();
+}
+
+/**
+ * Check the audit hash chain for edited or deleted actions
+ */
+export async function verifyAuditLog(token: string): Promise<AuditVerification> {
+  const response = await fetch(`${API_URL}/admin/audit/verify`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to verify audit log');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Every admin action on a target, with the target's violations when it is a user
+ */
+export async function getTargetHistory(
+  token: string,
+  targetType: string,
+  targetId: string
+): Promise<TargetHistory> {
+  const response = await fetch(
+    `${API_URL}/admin/audit/targets/${encodeURIComponent(targetType)}/${encodeURIComponent(targetId)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load target history');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
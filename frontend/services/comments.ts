@@ -3,6 +3,8 @@
  * API integration for post comments
  */
 
+import { Mention } from './posts';
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
 export interface Comment {
@@ -12,11 +14,21 @@ export interface Comment {
   username: string;
   user_avatar?: string;
   content: string;
+  mentions?: Mention[];
   parent_comment_id?: string;
   created_at: string;
+  edited_at?: string;
+  is_deleted?: boolean; // Placeholder kept for a deleted comment that has replies
+  is_hidden?: boolean; // Hidden after reports; content is blanked for everyone but the author
   reply_count?: number;
 }
 
+export interface RepliesResponse {
+  replies: Comment[];
+  next_key?: string;
+  has_more: boolean;
+}
+
 export interface CommentsResponse {
   comments: Comment[];
   nextToken?: string;
@@ -82,8 +94,66 @@ export async function createComment(
   return response.json();
 }
 
+/**
+ * Edit a comment
+ */
+export async function updateComment(
+  token: string,
+  postId: string,
+  commentId: string,
+  content: string
+): Promise<{ comment: Comment }> {
+  const response = await fetch(`${API_URL}/posts/${postId}/comments/${commentId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ content }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to edit comment');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get a page of replies to a comment
+ */
+export async function getReplies(
+  token: string,
+  postId: string,
+  commentId: string,
+  limit: number = 20,
+  nextKey?: string
+): Promise<RepliesResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(nextKey && { last_key: nextKey }),
+  });
+
+  const response = await fetch(`${API_URL}/posts/${postId}/comments/${commentId}/replies?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load replies');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Delete a comment
+ * The post owner can delete any comment on their post
  */
 export async function deleteComment(
   token: string,
@@ -128,5 +198,6 @@ export async function searchUsersForMention(
     throw new Error(error.message || 'Failed to search users');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data;
 }
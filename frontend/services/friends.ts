@@ -151,13 +151,23 @@ export async function removeFriend(
   return response.json();
 }
 
+export interface UserSearchResult {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  friendship_status: 'pending' | 'accepted' | 'rejected' | 'none';
+  is_friend: boolean;
+  mutual_friends_count: number;
+}
+
 /**
  * Search users to add as friends
  */
 export async function searchUsers(
   token: string,
   query: string
-): Promise<{ users: Array<{ user_id: string; username: string; full_name: string; avatar_url?: string; is_friend: boolean }> }> {
+): Promise<{ users: UserSearchResult[] }> {
   const url = new URL(`${API_URL}/users/search`);
   url.searchParams.append('q', query);
 
@@ -173,5 +183,46 @@ export async function searchUsers(
     throw new Error(error.error || 'Failed to search users');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data;
+}
+
+export interface FriendSuggestion {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  mutual_friends_count: number;
+  shared_recipes_count: number;
+  shared_cuisines: string[];
+  reason: string;
+  score: number;
+}
+
+/**
+ * Get "people you may know" suggestions
+ */
+export async function getFriendSuggestions(
+  token: string,
+  limit?: number
+): Promise<{ suggestions: FriendSuggestion[]; total_count: number }> {
+  const url = new URL(`${API_URL}/friends/suggestions`);
+  if (limit) {
+    url.searchParams.append('limit', limit.toString());
+  }
+
+  const response = await fetch(url.toString(), {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch friend suggestions');
+  }
+
+  const result = await response.json();
+  return result.data;
 }
@@ -1,4 +1,4 @@
-import { API_BASE_URL, API_ENDPOINTS } from '@/config/api';
+import { API_BASE_URL, API_ENDPOINTS, AI_STREAM_URL } from '@/config/api';
 import { getAuthHeaders } from '@/lib/apiHelpers';
 
 export interface IngredientSearchResult {
@@ -7,8 +7,9 @@ export interface IngredientSearchResult {
   normalized_name: string;
   category: string;
   aliases: string[];
-  match_type: 'exact' | 'alias' | 'fuzzy';
+  match_type: 'exact' | 'alias' | 'prefix' | 'fuzzy';
   match_score: number;
+  popularity?: number;
 }
 
 export interface IngredientSearchOptions {
@@ -36,182 +37,57 @@ export interface ValidationResponse {
 export interface AISuggestionRequest {
   ingredients: string[];
   recipe_count: number;
+  use_pantry?: boolean; // Also use unexpired pantry items
+  use_it_up?: boolean; // Prefer recipes that use soon-to-expire items
+  ingredient_expiry?: Record<string, string>; // ingredient -> YYYY-MM-DD
+}
+
+export interface ExpiringIngredient {
+  ingredient_name: string;
+  expiry_date: string;
+  days_until_expiry: number;
 }
 
 export interface AISuggestionResponse {
-  suggestions: any[]; // Recipe type
+  suggestions: any[]; // Recipe type (includes expiring_ingredients_used in use-it-up mode)
   stats: {
     requested: number;
     from_database: number;
     from_ai: number;
   };
   warnings?: ValidationWarning[];
+  expiring_ingredients?: ExpiringIngredient[];
 }
 
 /**
- * Search for ingredients with fuzzy matching
- * This is a mock implementation that simulates the backend search functionality
+ * Search the master ingredient catalog (autocomplete)
+ * Results are ranked by match type (exact, alias, prefix, fuzzy), then popularity
  */
 export async function searchIngredients(
   query: string,
   options: IngredientSearchOptions = {}
 ): Promise<IngredientSearchResult[]> {
-  // Mock data for common Vietnamese ingredients
-  const mockIngredients: IngredientSearchResult[] = [
-    {
-      ingredient_id: '1',
-      name: 'Thịt gà',
-      normalized_name: 'thit ga',
-      category: 'meat',
-      aliases: ['gà', 'chicken', 'thịt gà ta'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '2',
-      name: 'Cà chua',
-      normalized_name: 'ca chua',
-      category: 'vegetable',
-      aliases: ['tomato', 'cà chua bi'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '3',
-      name: 'Hành tây',
-      normalized_name: 'hanh tay',
-      category: 'vegetable',
-      aliases: ['onion', 'hành'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '4',
-      name: 'Tỏi',
-      normalized_name: 'toi',
-      category: 'vegetable',
-      aliases: ['garlic', 'tỏi tây'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '5',
-      name: 'Gạo',
-      normalized_name: 'gao',
-      category: 'grain',
-      aliases: ['rice', 'gạo tẻ'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '6',
-      name: 'Thịt bò',
-      normalized_name: 'thit bo',
-      category: 'meat',
-      aliases: ['beef', 'bò'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '7',
-      name: 'Cá',
-      normalized_name: 'ca',
-      category: 'seafood',
-      aliases: ['fish', 'cá tươi'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '8',
-      name: 'Rau muống',
-      normalized_name: 'rau muong',
-      category: 'vegetable',
-      aliases: ['water spinach', 'rau muống'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '9',
-      name: 'Trứng',
-      normalized_name: 'trung',
-      category: 'protein',
-      aliases: ['egg', 'trứng gà'],
-      match_type: 'exact',
-      match_score: 1.0
-    },
-    {
-      ingredient_id: '10',
-      name: 'Nước mắm',
-      normalized_name: 'nuoc mam',
-      category: 'seasoning',
-      aliases: ['fish sauce', 'nước mắm'],
-      match_type: 'exact',
-      match_score: 1.0
-    }
-  ];
-
-  const { limit = 10, fuzzyThreshold = 0.6 } = options;
-  const normalizedQuery = normalizeVietnamese(query.toLowerCase());
-
-  // Filter and score ingredients
-  const results = mockIngredients
-    .map(ingredient => {
-      let bestScore = 0;
-      let matchType: 'exact' | 'alias' | 'fuzzy' = 'fuzzy';
+  const { limit = 10, category, fuzzyThreshold = 0.6 } = options;
+  const headers = await getAuthHeaders();
 
-      // Check exact match with name
-      if (ingredient.normalized_name === normalizedQuery) {
-        bestScore = 1.0;
-        matchType = 'exact';
-      }
-      // Check exact match with aliases
-      else if (ingredient.aliases.some(alias => normalizeVietnamese(alias.toLowerCase()) === normalizedQuery)) {
-        bestScore = 0.9;
-        matchType = 'alias';
-      }
-      // Check partial matches
-      else if (ingredient.normalized_name.includes(normalizedQuery) || normalizedQuery.includes(ingredient.normalized_name)) {
-        bestScore = 0.8;
-        matchType = 'fuzzy';
-      }
-      // Check fuzzy matches with aliases
-      else {
-        for (const alias of ingredient.aliases) {
-          const aliasNormalized = normalizeVietnamese(alias.toLowerCase());
-          if (aliasNormalized.includes(normalizedQuery) || normalizedQuery.includes(aliasNormalized)) {
-            bestScore = Math.max(bestScore, 0.7);
-            matchType = 'fuzzy';
-          }
-        }
-      }
+  const params = new URLSearchParams({ q: query.trim(), limit: limit.toString() });
+  if (category) {
+    params.append('category', category);
+  }
 
-      return {
-        ...ingredient,
-        match_score: bestScore,
-        match_type: matchType
-      };
-    })
-    .filter(ingredient => ingredient.match_score >= fuzzyThreshold)
-    .sort((a, b) => b.match_score - a.match_score)
-    .slice(0, limit);
+  const response = await fetch(`${API_BASE_URL}${API_ENDPOINTS.INGREDIENT_SEARCH}?${params}`, {
+    headers
+  });
 
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 200));
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to search ingredients');
+  }
 
-  return results;
-}
+  const result = await response.json();
+  const results: IngredientSearchResult[] = result.data.results;
 
-/**
- * Normalize Vietnamese text for search
- */
-function normalizeVietnamese(text: string): string {
-  return text
-    .toLowerCase()
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '') // Remove diacritics
-    .replace(/đ/g, 'd')
-    .replace(/Đ/g, 'd')
-    .trim();
+  return results.filter(ingredient => ingredient.match_score >= fuzzyThreshold);
 }
 
 /**
@@ -236,6 +112,71 @@ export async function getAISuggestions(
   return response.json();
 }
 
+export interface AISuggestionStreamHandlers {
+  onRecipe: (recipe: any, source: 'database' | 'ai') => void; // Each recipe as soon as it is ready
+  onComplete: (response: AISuggestionResponse) => void; // Final ranking and stats
+}
+
+/**
+ * Get AI suggestions as a stream: recipes are handed to `onRecipe` as the backend produces them.
+ * Falls back to the regular endpoint when no stream URL is configured.
+ */
+export async function streamAISuggestions(
+  request: AISuggestionRequest,
+  handlers: AISuggestionStreamHandlers
+): Promise<void> {
+  if (!AI_STREAM_URL) {
+    const response = await getAISuggestions(request);
+    response.suggestions.forEach(recipe => handlers.onRecipe(recipe, recipe.is_ai_generated ? 'ai' : 'database'));
+    handlers.onComplete(response);
+    return;
+  }
+
+  const headers = await getAuthHeaders();
+
+  const response = await fetch(AI_STREAM_URL, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(request)
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to get AI suggestions');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Newline-delimited JSON: recipe messages, then a single complete (or error) message
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+
+    const message = JSON.parse(line);
+    if (message.type === 'recipe') {
+      handlers.onRecipe(message.recipe, message.source);
+    } else if (message.type === 'complete') {
+      const { type, suggestion_id, ...result } = message;
+      handlers.onComplete(result);
+    } else if (message.type === 'error') {
+      throw new Error(message.error || 'Failed to get AI suggestions');
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer + decoder.decode());
+}
+
 /**
  * Validate ingredients using the backend API
  */
@@ -0,0 +1,172 @@
+/**
+ * Meal Plans Service
+ * API integration for weekly meal planning
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export interface MealPlanSlot {
+  slot_id: string; // <date>_<meal_type>
+  date: string;
+  meal_type: MealType;
+  recipe: any | null; // Recipe snapshot
+  servings: number;
+  is_locked: boolean;
+}
+
+export interface MealPlan {
+  plan_id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string;
+  meal_types: MealType[];
+  slots: MealPlanSlot[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GenerateMealPlanInput {
+  start_date?: string; // YYYY-MM-DD, defaults to today
+  days?: number; // 1-7
+  meal_types?: MealType[];
+  ingredients?: string[];
+  use_pantry?: boolean;
+}
+
+/**
+ * Generate a new meal plan
+ */
+export async function generateMealPlan(token: string, input: GenerateMealPlanInput = {}): Promise<MealPlan> {
+  const response = await fetch(`${API_URL}/meal-plans`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to generate meal plan');
+  }
+
+  const result = await response.json();
+  return (result.data || result).meal_plan;
+}
+
+/**
+ * List meal plans (latest first)
+ */
+export async function getMealPlans(
+  token: string,
+  limit: number = 10,
+  lastKey?: string
+): Promise<{ meal_plans: MealPlan[]; next_key?: string; has_more: boolean }> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(lastKey && { last_key: lastKey }),
+  });
+
+  const response = await fetch(`${API_URL}/meal-plans?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load meal plans');
+  }
+
+  const result = await response.json();
+  return result.data || result;
+}
+
+/**
+ * Get a meal plan
+ */
+export async function getMealPlan(token: string, planId: string): Promise<MealPlan> {
+  const response = await fetch(`${API_URL}/meal-plans/${planId}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load meal plan');
+  }
+
+  const result = await response.json();
+  return (result.data || result).meal_plan;
+}
+
+/**
+ * Swap a slot's recipe and/or lock it
+ */
+export async function updateMealPlanSlot(
+  token: string,
+  planId: string,
+  slotId: string,
+  update: { recipe_id?: string; is_locked?: boolean }
+): Promise<MealPlan> {
+  const response = await fetch(`${API_URL}/meal-plans/${planId}/slots/${slotId}`, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update meal plan slot');
+  }
+
+  const result = await response.json();
+  return (result.data || result).meal_plan;
+}
+
+/**
+ * Regenerate all unlocked slots
+ */
+export async function regenerateMealPlan(token: string, planId: string): Promise<MealPlan> {
+  const response = await fetch(`${API_URL}/meal-plans/${planId}/regenerate`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to regenerate meal plan');
+  }
+
+  const result = await response.json();
+  return (result.data || result).meal_plan;
+}
+
+/**
+ * Delete a meal plan
+ */
+export async function deleteMealPlan(token: string, planId: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_URL}/meal-plans/${planId}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete meal plan');
+  }
+
+  const result = await response.json();
+  return result.data || result;
+}
@@ -20,7 +20,7 @@ export interface Notification {
   actor_id: string;
   actor_username: string;
   actor_avatar?: string;
-  target_type?: 'post' | 'recipe' | 'comment' | 'user';
+  target_type?: 'post' | 'recipe' | 'comment' | 'user' | 'friendship';
   target_id?: string;
   message: string;
   read: boolean;
@@ -34,6 +34,26 @@ export interface NotificationsResponse {
   nextToken?: string;
 }
 
+/**
+ * Map an API notification (content/is_read/ttl) to the UI shape (message/read/expires_at)
+ */
+function toNotification(raw: any): Notification {
+  return {
+    notification_id: raw.notification_id,
+    user_id: raw.user_id,
+    type: raw.type,
+    actor_id: raw.actor_id,
+    actor_username: raw.actor_username || 'Smart Cooking',
+    actor_avatar: raw.actor_avatar_url,
+    target_type: raw.target_type,
+    target_id: raw.target_id,
+    message: raw.content,
+    read: raw.is_read,
+    created_at: raw.created_at,
+    expires_at: raw.ttl ? new Date(raw.ttl * 1000).toISOString() : '',
+  };
+}
+
 /**
  * Get user notifications
  */
@@ -58,7 +78,14 @@ export async function getNotifications(
     throw new Error(error.message || 'Failed to load notifications');
   }
 
-  return response.json();
+  const result = await response.json();
+  // Response format: { success: true, data: { notifications, unread_count, nextToken } }
+  const data = result.data || result;
+  return {
+    notifications: (data.notifications || []).map(toNotification),
+    unread_count: data.unread_count || 0,
+    nextToken: data.nextToken,
+  };
 }
 
 /**
@@ -76,7 +103,8 @@ export async function getUnreadCount(token: string): Promise<{ unread_count: num
     throw new Error(error.message || 'Failed to load unread count');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data || result;
 }
 
 /**
@@ -98,7 +126,8 @@ export async function markAsRead(
     throw new Error(error.message || 'Failed to mark as read');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data || result;
 }
 
 /**
@@ -117,7 +146,8 @@ export async function markAllAsRead(token: string): Promise<{ message: string; c
     throw new Error(error.message || 'Failed to mark all as read');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data || result;
 }
 
 /**
@@ -139,5 +169,6 @@ export async function deleteNotification(
     throw new Error(error.message || 'Failed to delete notification');
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.data || result;
 }
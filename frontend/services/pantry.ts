@@ -0,0 +1,163 @@
+/**
+ * Pantry Service
+ * API integration for the user's pantry (ingredients on hand with quantities and expiry dates)
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+export interface PantryItem {
+  pantry_item_id: string;
+  user_id: string;
+  ingredient_id: string;
+  ingredient_name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  purchase_date?: string; // YYYY-MM-DD
+  expiry_date?: string; // YYYY-MM-DD
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AddPantryItemInput {
+  ingredient_id: string;
+  quantity: number;
+  unit: string;
+  purchase_date?: string;
+  expiry_date?: string;
+}
+
+export interface UpdatePantryItemInput {
+  quantity?: number;
+  unit?: string;
+  purchase_date?: string | null;
+  expiry_date?: string | null;
+}
+
+export interface PantryListOptions {
+  expiringWithinDays?: number;
+  includeExpired?: boolean;
+}
+
+/**
+ * Get pantry items
+ */
+export async function getPantry(
+  token: string,
+  options: PantryListOptions = {}
+): Promise<PantryItem[]> {
+  const params = new URLSearchParams({
+    ...(options.expiringWithinDays !== undefined && { expiring_within_days: options.expiringWithinDays.toString() }),
+    ...(options.includeExpired && { include_expired: 'true' }),
+  });
+
+  const response = await fetch(`${API_URL}/pantry?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load pantry');
+  }
+
+  const result = await response.json();
+  // Response format: { success: true, data: { items, count } }
+  const data = result.data || result;
+  return data.items || [];
+}
+
+/**
+ * Add an item to the pantry
+ */
+export async function addPantryItem(token: string, input: AddPantryItemInput): Promise<PantryItem> {
+  const response = await fetch(`${API_URL}/pantry`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to add pantry item');
+  }
+
+  const result = await response.json();
+  return (result.data || result).item;
+}
+
+/**
+ * Update a pantry item
+ */
+export async function updatePantryItem(
+  token: string,
+  itemId: string,
+  input: UpdatePantryItemInput
+): Promise<PantryItem> {
+  const response = await fetch(`${API_URL}/pantry/${itemId}`, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update pantry item');
+  }
+
+  const result = await response.json();
+  return (result.data || result).item;
+}
+
+/**
+ * Consume part of a pantry item (the item is removed when used up)
+ */
+export async function consumePantryItem(
+  token: string,
+  itemId: string,
+  quantity: number
+): Promise<{ item: PantryItem | null; removed: boolean }> {
+  const response = await fetch(`${API_URL}/pantry/${itemId}/consume`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ quantity }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to consume pantry item');
+  }
+
+  const result = await response.json();
+  return result.data || result;
+}
+
+/**
+ * Remove an item from the pantry
+ */
+export async function removePantryItem(token: string, itemId: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_URL}/pantry/${itemId}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to remove pantry item');
+  }
+
+  const result = await response.json();
+  return result.data || result;
+}
@@ -5,12 +5,24 @@
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
+/**
+ * An @username in post or comment content, resolved by the API when it was written
+ */
+export interface Mention {
+  user_id: string;
+  username: string;
+  offset: number;
+  length: number;
+}
+
 export interface Post {
   post_id: string;
   user_id: string;
   username: string;
   user_avatar?: string;
   content: string;
+  mentions?: Mention[];
+  hashtags?: string[]; // Normalized by the API, without the "#"
   image_url?: string;
   recipe_id?: string;
   recipe_title?: string;
@@ -19,6 +31,7 @@ export interface Post {
   comment_count: number;
   user_reaction?: 'like' | 'love' | 'wow';
   privacy?: 'public' | 'friends' | 'private';
+  is_hidden?: boolean; // Hidden after reports; only the author still sees it
 }
 
 export interface CreatePostRequest {
@@ -34,6 +47,16 @@ export interface PostsResponse {
   nextToken?: string; // Keep for backward compatibility
 }
 
+export interface TagPostsResponse extends PostsResponse {
+  tag: string;
+  has_more: boolean;
+}
+
+export interface TrendingTag {
+  tag: string;
+  post_count: number;
+}
+
 /**
  * Get feed posts (friends' posts)
  */
@@ -94,6 +117,63 @@ export async function getUserPosts(
   return response.json();
 }
 
+/**
+ * Get posts with a hashtag
+ */
+export async function getTagPosts(
+  token: string,
+  tag: string,
+  limit: number = 20,
+  nextKey?: string
+): Promise<TagPostsResponse> {
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    ...(nextKey && { last_key: nextKey }),
+  });
+
+  const response = await fetch(`${API_URL}/tags/${encodeURIComponent(tag)}/posts?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load tag posts');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Get trending hashtags over the last `days` days
+ */
+export async function getTrendingTags(
+  token: string,
+  days: number = 1,
+  limit: number = 10
+): Promise<{ tags: TrendingTag[]; days: number }> {
+  const params = new URLSearchParams({
+    days: days.toString(),
+    limit: limit.toString(),
+  });
+
+  const response = await fetch(`${API_URL}/tags/trending?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load trending tags');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
 /**
  * Create a new post
  * Using Next.js API route as proxy to bypass CORS
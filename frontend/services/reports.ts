@@ -0,0 +1,64 @@
+/**
+ * Reports Service
+ * API integration for reporting posts, comments, recipes and users
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+export type ReportTargetType = 'post' | 'comment' | 'recipe' | 'user';
+
+export type ReportReasonCode =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'sexual_content'
+  | 'violence'
+  | 'misinformation'
+  | 'food_safety'
+  | 'impersonation'
+  | 'other';
+
+export interface CreateReportRequest {
+  target_type: ReportTargetType;
+  target_id: string;
+  post_id?: string; // Required for comments
+  reason_code: ReportReasonCode;
+  details?: string; // Required for 'other', max 500 characters
+}
+
+export interface ContentReport {
+  report_id: string;
+  target_type: ReportTargetType;
+  target_id: string;
+  post_id?: string;
+  reporter_id: string;
+  reason_code: ReportReasonCode;
+  details?: string;
+  created_at: string;
+}
+
+/**
+ * Report content or a user
+ * Fails when the user has already reported the target
+ */
+export async function createReport(
+  token: string,
+  request: CreateReportRequest
+): Promise<ContentReport> {
+  const response = await fetch(`${API_URL}/reports`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to send report');
+  }
+
+  const result = await response.json();
+  return result.data.report;
+}
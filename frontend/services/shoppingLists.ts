@@ -0,0 +1,167 @@
+/**
+ * Shopping Lists Service
+ * API integration for shopping lists built from recipes and meal plans
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || '';
+
+export interface ShoppingListItem {
+  item_id: string;
+  ingredient_id?: string;
+  ingredient_name: string;
+  category: string;
+  quantity?: number;
+  unit?: string;
+  quantity_notes: string[]; // e.g. "to taste"
+  recipes: Array<{ recipe_id: string; title: string }>;
+  pantry_quantity?: number; // Already in the pantry, in a different unit
+  pantry_unit?: string;
+  is_checked: boolean;
+}
+
+export interface ShoppingList {
+  list_id: string;
+  user_id: string;
+  name: string;
+  recipe_ids: string[];
+  meal_plan_id?: string;
+  items: ShoppingListItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateShoppingListInput {
+  name?: string;
+  recipe_ids?: string[];
+  meal_plan_id?: string;
+  subtract_pantry?: boolean; // default true
+}
+
+/**
+ * Create a shopping list from recipes and/or a meal plan
+ */
+export async function createShoppingList(token: string, input: CreateShoppingListInput): Promise<ShoppingList> {
+  const response = await fetch(`${API_URL}/shopping-lists`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to create shopping list');
+  }
+
+  const result = await response.json();
+  return (result.data || result).shopping_list;
+}
+
+/**
+ * List shopping lists (newest first)
+ */
+export async function getShoppingLists(token: string): Promise<ShoppingList[]> {
+  const response = await fetch(`${API_URL}/shopping-lists`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load shopping lists');
+  }
+
+  const result = await response.json();
+  return (result.data || result).shopping_lists || [];
+}
+
+/**
+ * Get a shopping list
+ */
+export async function getShoppingList(token: string, listId: string): Promise<ShoppingList> {
+  const response = await fetch(`${API_URL}/shopping-lists/${listId}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to load shopping list');
+  }
+
+  const result = await response.json();
+  return (result.data || result).shopping_list;
+}
+
+/**
+ * Check or uncheck an item
+ */
+export async function setShoppingListItemChecked(
+  token: string,
+  listId: string,
+  itemId: string,
+  isChecked: boolean
+): Promise<ShoppingList> {
+  const response = await fetch(`${API_URL}/shopping-lists/${listId}/items/${itemId}`, {
+    method: 'PUT',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ is_checked: isChecked }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to update shopping list item');
+  }
+
+  const result = await response.json();
+  return (result.data || result).shopping_list;
+}
+
+/**
+ * Export a shopping list as plain text or Markdown
+ */
+export async function exportShoppingList(
+  token: string,
+  listId: string,
+  format: 'text' | 'markdown' = 'text'
+): Promise<string> {
+  const response = await fetch(`${API_URL}/shopping-lists/${listId}/export?format=${format}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to export shopping list');
+  }
+
+  return response.text();
+}
+
+/**
+ * Delete a shopping list
+ */
+export async function deleteShoppingList(token: string, listId: string): Promise<{ message: string }> {
+  const response = await fetch(`${API_URL}/shopping-lists/${listId}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.message || 'Failed to delete shopping list');
+  }
+
+  const result = await response.json();
+  return result.data || result;
+}
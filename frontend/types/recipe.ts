@@ -2,12 +2,20 @@
  * Recipe types synchronized with backend (lambda/shared/types.ts)
  */
 
+export interface ParsedQuantity {
+  value: number; // Lower bound for ranges ("2-3")
+  max_value?: number;
+  unit?: string; // g, kg, ml, tbsp... or the count unit as written (quả, tép)
+  unit_type: 'mass' | 'volume' | 'count';
+}
+
 export interface RecipeIngredient {
   ingredient_name: string;
   quantity: string;
   unit?: string;
   preparation?: string;
   is_optional?: boolean;
+  parsed_quantity?: ParsedQuantity;
 }
 
 export interface RecipeInstruction {
@@ -27,6 +35,26 @@ export interface NutritionalInfo {
   sodium?: string;
 }
 
+export interface NutrientValues {
+  calories: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g?: number;
+  sodium_mg?: number;
+}
+
+export interface ComputedNutrition {
+  per_serving: NutrientValues;
+  coverage: number; // Share of ingredients that could be quantified (0-1)
+  missing_ingredients: string[];
+  discrepancies?: Array<{
+    nutrient: 'calories' | 'protein' | 'carbs' | 'fat';
+    reported: number;
+    computed: number;
+  }>;
+}
+
 export interface Recipe {
   recipe_id: string;
   user_id?: string;
@@ -41,6 +69,7 @@ export interface Recipe {
   ingredients: RecipeIngredient[];
   instructions: RecipeInstruction[];
   nutritional_info?: NutritionalInfo;
+  computed_nutrition?: ComputedNutrition; // Calculated from master ingredient data
   image_url?: string;
   is_public: boolean;
   is_ai_generated: boolean;
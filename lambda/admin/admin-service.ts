@@ -5,6 +5,25 @@
 
 import { DynamoDBHelper } from '../shared/dynamodb';
 import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { ContentVisibilityService } from '../shared/content-visibility';
+import {
+  ModerationQueueService,
+  ModerationQueueFilter,
+  ModerationItem,
+  ModerationOutcome,
+  MODERATION_ITEM_TYPES,
+  MODERATION_SEVERITIES,
+  MODERATION_OUTCOMES
+} from '../shared/moderation-queue';
+import { AIQuotaService, AIQuotaOverride, AI_QUOTA_SCOPES } from '../shared/ai-quota';
+import { AICostLedger, AICostReport, AIUserCostReport } from '../shared/ai-cost-ledger';
+import {
+  AdminAuditLog,
+  AdminAuditAction,
+  AdminAuditFilter,
+  AdminAuditVerification
+} from '../shared/admin-audit-log';
 import {
   DatabaseStats,
   IngredientStatsOptions,
@@ -28,9 +47,23 @@ import {
   ApproveRecipeResponse,
   RejectRecipeRequest,
   RejectRecipeResponse,
-  AdminAction
+  ModerationQueuePage,
+  ClaimQueueItemRequest,
+  AssignQueueItemRequest,
+  ResolveQueueItemRequest,
+  UserAIQuota,
+  SetAIQuotaOverrideRequest,
+  ClearAIQuotaOverrideRequest,
+  AICostReportOptions,
+  AuditLogPage,
+  AuditExportFormat,
+  AuditLogExport,
+  TargetActionHistory
 } from './types';
 
+const AUDIT_EXPORT_MAX_ENTRIES = 5000;
+const TARGET_HISTORY_MAX_ENTRIES = 500;
+
 export class AdminService {
   private static tableName = process.env.TABLE_NAME || 'smart-cooking-data-dev';
 
@@ -610,39 +643,387 @@ export class AdminService {
     }
   }
 
+  // ==================== AI QUOTAS ====================
+
+  /**
+   * A user's AI limits and usage per scope, with the override behind them if any
+   */
+  static async getUserAIQuota(userId: string): Promise<UserAIQuota> {
+    const [override, ...quotas] = await Promise.all([
+      AIQuotaService.getOverride(userId),
+      ...AI_QUOTA_SCOPES.map(scope => AIQuotaService.getStatus(userId, scope)),
+    ]);
+
+    return {
+      user_id: userId,
+      ...(override && { override }),
+      quotas,
+    };
+  }
+
+  /**
+   * Replace a user's AI limits; scopes and windows left out keep the defaults
+   */
+  static async setUserAIQuota(request: SetAIQuotaOverrideRequest): Promise<UserAIQuota> {
+    const { userId, adminId, limits, reason, expires_at } = request;
+
+    if (!limits || typeof limits !== 'object' || Object.keys(limits).length === 0) {
+      throw new AppError(400, 'invalid_limits', 'limits must set at least one scope');
+    }
+
+    for (const [scope, scopeLimits] of Object.entries(limits)) {
+      if (!AI_QUOTA_SCOPES.includes(scope as any)) {
+        throw new AppError(400, 'invalid_limits', `Unknown scope: ${scope}. Use one of: ${AI_QUOTA_SCOPES.join(', ')}`);
+      }
+      for (const [window, value] of Object.entries(scopeLimits || {})) {
+        if (!['daily', 'monthly', 'burst'].includes(window) || !Number.isInteger(value) || (value as number) < 0) {
+          throw new AppError(400, 'invalid_limits', `${scope}.${window} must be daily, monthly or burst with a non-negative integer`);
+        }
+      }
+    }
+
+    if (expires_at !== undefined && (isNaN(Date.parse(expires_at)) || new Date(expires_at) <= new Date())) {
+      throw new AppError(400, 'invalid_expires_at', 'expires_at must be a future date');
+    }
+
+    const override: AIQuotaOverride = {
+      user_id: userId,
+      limits,
+      reason,
+      set_by: adminId,
+      ...(expires_at && { expires_at: new Date(expires_at).toISOString() }),
+      created_at: new Date().toISOString(),
+    };
+    await AIQuotaService.setOverride(override);
+
+    await this.logAdminAction({
+      admin_id: adminId,
+      action_type: 'set_ai_quota',
+      target_type: 'user',
+      target_id: userId,
+      reason,
+      notes: JSON.stringify(limits)
+    });
+
+    return this.getUserAIQuota(userId);
+  }
+
+  /**
+   * Put a user back on the default AI limits
+   */
+  static async clearUserAIQuota(request: ClearAIQuotaOverrideRequest): Promise<UserAIQuota> {
+    const { userId, adminId, reason } = request;
+
+    await AIQuotaService.clearOverride(userId);
+
+    await this.logAdminAction({
+      admin_id: adminId,
+      action_type: 'clear_ai_quota',
+      target_type: 'user',
+      target_id: userId,
+      reason
+    });
+
+    return this.getUserAIQuota(userId);
+  }
+
+  // ==================== AI COSTS ====================
+
+  /**
+   * AI spend for a day or month, per feature and for the most expensive users
+   */
+  static async getAICostReport(options: AICostReportOptions): Promise<AICostReport> {
+    const { period, date } = options;
+
+    if (period !== 'day' && period !== 'month') {
+      throw new AppError(400, 'invalid_period', 'period must be day or month');
+    }
+
+    const pattern = period === 'day' ? /^\d{4}-\d{2}-\d{2}$/ : /^\d{4}-\d{2}$/;
+    if (date !== undefined && (!pattern.test(date) || isNaN(Date.parse(date)))) {
+      throw new AppError(400, 'invalid_date', period === 'day' ? 'date must be YYYY-MM-DD' : 'date must be YYYY-MM');
+    }
+
+    return AICostLedger.getReport(period, date || AICostLedger.periodKey(period));
+  }
+
+  /**
+   * A user's AI spend today and this month with their latest AI calls
+   */
+  static async getUserAICosts(userId: string, limit: number = 50, lastKey?: any): Promise<AIUserCostReport> {
+    return AICostLedger.getUserReport(userId, limit, lastKey);
+  }
+
+  // ==================== AUDIT LOG ====================
+
+  static async getAuditLog(filter: AdminAuditFilter = {}): Promise<AuditLogPage> {
+    try {
+      logger.info('Getting audit log', { ...filter, lastKey: undefined });
+
+      const { entries, nextKey } = await AdminAuditLog.list(this.normalizeAuditFilter(filter));
+
+      logger.info('Audit log retrieved', { count: entries.length });
+
+      return {
+        entries,
+        count: entries.length,
+        next_key: nextKey
+      };
+    } catch (error) {
+      logger.error('Error getting audit log', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Every entry matching the filter as CSV or JSON, newest first
+   */
+  static async exportAuditLog(filter: AdminAuditFilter, format: AuditExportFormat): Promise<AuditLogExport> {
+    if (format !== 'csv' && format !== 'json') {
+      throw new AppError(400, 'invalid_format', 'format must be csv or json');
+    }
+
+    const exportedAt = new Date().toISOString();
+    const { entries, truncated } = await AdminAuditLog.collect(
+      this.normalizeAuditFilter(filter),
+      AUDIT_EXPORT_MAX_ENTRIES
+    );
+
+    logger.info('Audit log exported', { format, count: entries.length, truncated });
+
+    return {
+      format,
+      filename: `admin-audit-${exportedAt.slice(0, 10)}.${format}`,
+      content: format === 'csv'
+        ? AdminAuditLog.toCsv(entries)
+        : JSON.stringify({ exported_at: exportedAt, truncated, entries }, null, 2),
+      count: entries.length,
+      truncated
+    };
+  }
+
+  static async verifyAuditLog(): Promise<AdminAuditVerification> {
+    const verification = await AdminAuditLog.verifyChain();
+
+    if (!verification.valid) {
+      logger.error('Admin audit chain broken', { brokenAt: verification.broken_at, checked: verification.checked });
+    }
+
+    return verification;
+  }
+
+  /**
+   * Everything admins did to a target, with the target's violations when it is a user
+   */
+  static async getTargetHistory(targetType: string, targetId: string): Promise<TargetActionHistory> {
+    const [{ entries, truncated }, violations] = await Promise.all([
+      AdminAuditLog.collect({ target_type: targetType, target_id: targetId }, TARGET_HISTORY_MAX_ENTRIES),
+      targetType === 'user' ? this.getUserViolations(targetId) : Promise.resolve([])
+    ]);
+
+    return {
+      target_type: targetType,
+      target_id: targetId,
+      actions: entries,
+      violations,
+      truncated
+    };
+  }
+
+  // ==================== MODERATION QUEUE ====================
+
+  static async getModerationQueue(filter: ModerationQueueFilter = {}): Promise<ModerationQueuePage> {
+    try {
+      logger.info('Getting moderation queue', { ...filter, lastKey: undefined });
+
+      if (filter.status && filter.status !== 'open' && filter.status !== 'resolved') {
+        throw new AppError(400, 'invalid_status', 'status must be open or resolved');
+      }
+      if (filter.item_type && !MODERATION_ITEM_TYPES.includes(filter.item_type)) {
+        throw new AppError(400, 'invalid_type', `type must be one of: ${MODERATION_ITEM_TYPES.join(', ')}`);
+      }
+      if (filter.severity && !MODERATION_SEVERITIES.includes(filter.severity)) {
+        throw new AppError(400, 'invalid_severity', `severity must be one of: ${MODERATION_SEVERITIES.join(', ')}`);
+      }
+
+      const { items, nextKey } = await ModerationQueueService.listItems(filter);
+
+      logger.info('Moderation queue retrieved', { count: items.length });
+
+      return {
+        items,
+        count: items.length,
+        next_key: nextKey
+      };
+    } catch (error) {
+      logger.error('Error getting moderation queue', { error });
+      throw error;
+    }
+  }
+
+  static async claimQueueItem(request: ClaimQueueItemRequest): Promise<ModerationItem> {
+    try {
+      const { itemId, adminId } = request;
+
+      logger.info('Claiming moderation item', { itemId, adminId });
+
+      const item = await this.getOpenQueueItem(itemId);
+
+      if (item.assignee_id && item.assignee_id !== adminId) {
+        throw new AppError(409, 'already_claimed', 'Item is already claimed by another admin');
+      }
+
+      const updated = await ModerationQueueService.claim(itemId, adminId)
+        .catch(error => this.throwQueueConflict(error, itemId));
+
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: 'claim_queue_item',
+        target_type: 'moderation_item',
+        target_id: itemId,
+        notes: `${item.item_type} ${item.target_type} ${item.target_id}`
+      });
+
+      return updated;
+    } catch (error) {
+      logger.error('Error claiming moderation item', { error, request });
+      throw error;
+    }
+  }
+
+  static async assignQueueItem(request: AssignQueueItemRequest): Promise<ModerationItem> {
+    try {
+      const { itemId, adminId, assigneeId } = request;
+
+      logger.info('Assigning moderation item', { itemId, adminId, assigneeId });
+
+      const item = await this.getOpenQueueItem(itemId);
+      const updated = await ModerationQueueService.assign(itemId, assigneeId)
+        .catch(error => this.throwQueueConflict(error, itemId));
+
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: assigneeId ? 'assign_queue_item' : 'unassign_queue_item',
+        target_type: 'moderation_item',
+        target_id: itemId,
+        notes: assigneeId
+          ? `Assigned ${item.item_type} ${item.target_type} ${item.target_id} to ${assigneeId}`
+          : `Unassigned ${item.item_type} ${item.target_type} ${item.target_id}`
+      });
+
+      return updated;
+    } catch (error) {
+      logger.error('Error assigning moderation item', { error, request });
+      throw error;
+    }
+  }
+
+  /**
+   * Close a queue item with an outcome
+   * Recipe reviews also approve or reject the recipe and content reports hide or restore the
+   * content; user and ingredient outcomes only record the decision, the enforcement itself goes
+   * through the user management endpoints. The item is closed first, with a conditional write,
+   * so only one admin's decision is applied
+   */
+  static async resolveQueueItem(request: ResolveQueueItemRequest): Promise<ModerationItem> {
+    try {
+      const { itemId, adminId, outcome, notes } = request;
+
+      logger.info('Resolving moderation item', { itemId, adminId, outcome });
+
+      const item = await this.getOpenQueueItem(itemId);
+
+      if (item.assignee_id && item.assignee_id !== adminId) {
+        throw new AppError(409, 'already_claimed', 'Item is claimed by another admin');
+      }
+
+      const outcomes = MODERATION_OUTCOMES[item.item_type] || [];
+      if (!outcomes.includes(outcome)) {
+        throw new AppError(400, 'invalid_outcome', `outcome must be one of: ${outcomes.join(', ')}`);
+      }
+
+      const resolved = await ModerationQueueService.resolve(itemId, adminId, outcome, notes)
+        .catch(error => this.throwQueueConflict(error, itemId));
+
+      if (item.item_type === 'recipe_review' && await DynamoDBHelper.getRecipe(item.target_id)) {
+        if (outcome === 'approved') {
+          await this.setRecipeApproved(item.target_id, adminId);
+        } else {
+          await this.setRecipeRejected(item.target_id, adminId, notes || item.reason);
+        }
+      }
+
+      // Actioned reports keep (or put) the content hidden, dismissed ones restore it
+      if (item.item_type === 'content_report' && item.target_type !== 'ingredient') {
+        await ContentVisibilityService.setHidden(
+          item.target_type,
+          item.target_id,
+          outcome === 'actioned',
+          item.details?.post_id
+        );
+      }
+
+      await this.logAdminAction({
+        admin_id: adminId,
+        action_type: 'resolve_queue_item',
+        target_type: 'moderation_item',
+        target_id: itemId,
+        reason: outcome,
+        notes: `${item.item_type} ${item.target_type} ${item.target_id}${notes ? `: ${notes}` : ''}`
+      });
+
+      return resolved;
+    } catch (error) {
+      logger.error('Error resolving moderation item', { error, request });
+      throw error;
+    }
+  }
+
   // ==================== RECIPE MANAGEMENT ====================
 
+  /**
+   * Public user recipes awaiting approval, read from the moderation queue
+   */
   static async getPendingRecipes(limit: number = 50): Promise<PendingRecipe[]> {
     try {
       logger.info('Getting pending recipes', { limit });
 
-      const params = {
-        IndexName: 'GSI1',
-        KeyConditionExpression: 'GSI1_PK = :pk',
-        FilterExpression: '#status = :pending',
-        ExpressionAttributeNames: {
-          '#status': 'status'
-        },
-        ExpressionAttributeValues: {
-          ':pk': 'RECIPE_ALL',
-          ':pending': 'pending'
-        },
-        Limit: limit
-      };
+      const { items: pending } = await ModerationQueueService.listItems({
+        item_type: 'recipe_review',
+        limit: Math.min(limit, 100)
+      });
 
-      const result = await DynamoDBHelper.query(params);
+      if (pending.length === 0) {
+        return [];
+      }
 
-      const recipes: PendingRecipe[] = (result.Items || []).map((item: any) => ({
-        recipe_id: item.SK.replace('RECIPE#', ''),
-        recipe_name: item.recipe_name,
-        user_id: item.user_id || 'system',
-        username: item.username || 'AI Generated',
-        created_at: item.created_at,
-        status: item.status,
-        category: item.category,
-        ingredients_count: item.ingredients?.length || 0,
-        needs_review: item.needs_review || false
-      }));
+      const recipeItems = await DynamoDBHelper.batchGet(
+        pending.map(review => ({ PK: `RECIPE#${review.target_id}`, SK: 'METADATA' }))
+      );
+      const recipesById = new Map(recipeItems.map((item: any) => [item.recipe_id, item]));
+
+      const userIds = Array.from(new Set(recipeItems.map((item: any) => item.user_id).filter(Boolean)));
+      const profiles = userIds.length > 0
+        ? await DynamoDBHelper.batchGet(userIds.map(userId => ({ PK: `USER#${userId}`, SK: 'PROFILE' })))
+        : [];
+      const usernames = new Map(profiles.map((profile: any) => [profile.user_id, profile.username]));
+
+      const recipes: PendingRecipe[] = pending
+        .filter(review => recipesById.has(review.target_id))
+        .map(review => {
+          const item: any = recipesById.get(review.target_id);
+          return {
+            recipe_id: item.recipe_id,
+            recipe_name: item.title,
+            user_id: item.user_id || 'system',
+            username: usernames.get(item.user_id) || 'Unknown',
+            created_at: item.created_at,
+            status: 'pending',
+            category: item.cuisine_type,
+            ingredients_count: item.ingredients?.length || 0,
+            needs_review: true
+          };
+        });
 
       logger.info('Pending recipes retrieved', { count: recipes.length });
 
@@ -659,22 +1040,11 @@ export class AdminService {
 
       logger.info('Approving recipe', { recipeId, adminId });
 
-      // Update recipe status
-      await DynamoDBHelper.update(
-        `RECIPE#${recipeId}`,
-        'METADATA',
-        `SET #status = :approved,
-            approved_by = :adminId,
-            approved_at = :now`,
-        {
-          ':approved': 'approved',
-          ':adminId': adminId,
-          ':now': new Date().toISOString()
-        },
-        {
-          '#status': 'status'
-        }
-      );
+      if (!await DynamoDBHelper.getRecipe(recipeId)) {
+        throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+      }
+
+      await this.setRecipeApproved(recipeId, adminId);
 
       // Log admin action
       await this.logAdminAction({
@@ -684,6 +1054,8 @@ export class AdminService {
         target_id: recipeId
       });
 
+      await this.closeRecipeReview(recipeId, adminId, 'approved');
+
       logger.info('Recipe approved', { recipeId });
 
       return {
@@ -703,24 +1075,11 @@ export class AdminService {
 
       logger.info('Rejecting recipe', { recipeId, adminId, reason });
 
-      // Update recipe status
-      await DynamoDBHelper.update(
-        `RECIPE#${recipeId}`,
-        'METADATA',
-        `SET #status = :rejected,
-            rejected_by = :adminId,
-            rejected_at = :now,
-            rejection_reason = :reason`,
-        {
-          ':rejected': 'rejected',
-          ':adminId': adminId,
-          ':now': new Date().toISOString(),
-          ':reason': reason
-        },
-        {
-          '#status': 'status'
-        }
-      );
+      if (!await DynamoDBHelper.getRecipe(recipeId)) {
+        throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+      }
+
+      await this.setRecipeRejected(recipeId, adminId, reason);
 
       // Log admin action
       await this.logAdminAction({
@@ -731,6 +1090,8 @@ export class AdminService {
         reason
       });
 
+      await this.closeRecipeReview(recipeId, adminId, 'rejected', reason);
+
       logger.info('Recipe rejected', { recipeId });
 
       return {
@@ -834,23 +1195,128 @@ export class AdminService {
     }
   }
 
-  private static async logAdminAction(action: Partial<AdminAction>): Promise<void> {
-    try {
-      const actionId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      
-      const item = {
-        PK: `ADMIN#${action.admin_id}`,
-        SK: `ACTION#${actionId}`,
-        GSI1_PK: 'ADMIN_ACTION_ALL',
-        GSI1_SK: new Date().toISOString(),
-        action_id: actionId,
-        ...action,
-        created_at: new Date().toISOString()
-      };
+  private static async getOpenQueueItem(itemId: string): Promise<ModerationItem> {
+    const item = await ModerationQueueService.getItem(itemId);
+
+    if (!item) {
+      throw new AppError(404, 'item_not_found', 'Moderation item not found');
+    }
+
+    if (item.status === 'resolved') {
+      throw new AppError(409, 'already_resolved', 'Moderation item is already resolved');
+    }
+
+    return item;
+  }
 
-      await DynamoDBHelper.put(item);
+  private static async setRecipeApproved(recipeId: string, adminId: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    await DynamoDBHelper.update(
+      `RECIPE#${recipeId}`,
+      'METADATA',
+      `SET is_approved = :true,
+          approval_type = :type,
+          approved_by = :adminId,
+          approved_at = :now,
+          updated_at = :now
+      REMOVE rejected_by, rejected_at, rejection_reason`,
+      {
+        ':true': true,
+        ':type': 'admin',
+        ':adminId': adminId,
+        ':now': now
+      }
+    );
+  }
+
+  // Rejected recipes go back to private so they drop out of everyone else's listings
+  private static async setRecipeRejected(recipeId: string, adminId: string, reason: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    await DynamoDBHelper.update(
+      `RECIPE#${recipeId}`,
+      'METADATA',
+      `SET is_approved = :false,
+          is_public = :false,
+          rejected_by = :adminId,
+          rejected_at = :now,
+          rejection_reason = :reason,
+          updated_at = :now`,
+      {
+        ':false': false,
+        ':adminId': adminId,
+        ':now': now,
+        ':reason': reason
+      }
+    );
+  }
+
+  // Approving or rejecting outside the queue still closes the recipe's review item
+  private static async closeRecipeReview(
+    recipeId: string,
+    adminId: string,
+    outcome: ModerationOutcome,
+    notes?: string
+  ): Promise<void> {
+    const itemId = ModerationQueueService.itemIdFor(ModerationQueueService.recipeReviewKey(recipeId));
+    const item = await ModerationQueueService.getItem(itemId);
+
+    if (item && item.status === 'open') {
+      // The recipe decision is already made, so it closes the review whoever claimed it
+      await ModerationQueueService.resolve(itemId, adminId, outcome, notes, true).catch(error => {
+        // Closed concurrently
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+      });
+    }
+  }
+
+  /**
+   * Turn a failed conditional queue write into the 404 / 409 the item's current state explains
+   */
+  private static async throwQueueConflict(error: any, itemId: string): Promise<never> {
+    if (error?.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+
+    await this.getOpenQueueItem(itemId);
+    throw new AppError(409, 'already_claimed', 'Item is claimed by another admin');
+  }
+
+  private static normalizeAuditFilter(filter: AdminAuditFilter): AdminAuditFilter {
+    if (!!filter.target_type !== !!filter.target_id) {
+      throw new AppError(400, 'invalid_target', 'target_type and target_id must be given together');
+    }
+
+    const toTimestamp = (value: string | undefined, endOfDay: boolean): string | undefined => {
+      if (!value) {
+        return undefined;
+      }
+      if (isNaN(Date.parse(value))) {
+        throw new AppError(400, 'invalid_date', 'from and to must be ISO dates');
+      }
+      // A bare date covers the whole day
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay
+        ? `${value}T23:59:59.999Z`
+        : new Date(value).toISOString();
+    };
+
+    const from = toTimestamp(filter.from, false);
+    const to = toTimestamp(filter.to, true);
+    if (from && to && from > to) {
+      throw new AppError(400, 'invalid_date', 'from must be before to');
+    }
+
+    return { ...filter, from, to };
+  }
+
+  private static async logAdminAction(action: AdminAuditAction): Promise<void> {
+    try {
+      const entry = await AdminAuditLog.append(action);
 
-      logger.info('Admin action logged', { actionId, action });
+      logger.info('Admin action logged', { actionId: entry.action_id, sequence: entry.sequence, action });
     } catch (error) {
       logger.error('Error logging admin action', { error, action });
       // Don't throw - logging failure shouldn't break the operation
@@ -1,12 +1,14 @@
 /**
  * Admin Lambda Function
- * Handles admin dashboard operations, user management, and violation reports
+ * Handles admin dashboard operations, user management, violation reports, the moderation queue
+ * and the audit log
  * 
  * Security: Requires admin role in Cognito token
  */
 
 import { APIGatewayEvent, APIResponse } from '../shared/types';
 import { successResponse, errorResponse, handleError } from '../shared/responses';
+import { AdminAuditFilter } from '../shared/admin-audit-log';
 import { getUserIdFromEvent } from '../shared/utils';
 import { AdminService } from './admin-service';
 import { logger } from '../shared/logger';
@@ -109,6 +111,86 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await rejectBan(userId, targetUserId, event.body);
     }
 
+    // GET /admin/users/{userId}/ai-quota - AI limits and usage
+    if (method === 'GET' && path.match(/\/admin\/users\/.+\/ai-quota$/)) {
+      const targetUserId = event.pathParameters?.userId || '';
+      return await getUserAIQuota(userId, targetUserId);
+    }
+
+    // PUT /admin/users/{userId}/ai-quota - Override AI limits
+    if (method === 'PUT' && path.match(/\/admin\/users\/.+\/ai-quota$/)) {
+      const targetUserId = event.pathParameters?.userId || '';
+      return await setUserAIQuota(userId, targetUserId, event.body);
+    }
+
+    // DELETE /admin/users/{userId}/ai-quota - Back to default AI limits
+    if (method === 'DELETE' && path.match(/\/admin\/users\/.+\/ai-quota$/)) {
+      const targetUserId = event.pathParameters?.userId || '';
+      return await clearUserAIQuota(userId, targetUserId, event.body);
+    }
+
+    // ==================== AI COSTS ====================
+
+    // GET /admin/ai-costs - AI spend for a day or month
+    if (method === 'GET' && path === '/admin/ai-costs') {
+      return await getAICostReport(userId, event.queryStringParameters);
+    }
+
+    // GET /admin/ai-costs/users/{userId} - A user's AI spend and latest AI calls
+    if (method === 'GET' && path.match(/\/admin\/ai-costs\/users\/[^/]+$/)) {
+      const targetUserId = event.pathParameters?.userId || '';
+      return await getUserAICosts(userId, targetUserId, event.queryStringParameters);
+    }
+
+    // ==================== MODERATION QUEUE ====================
+
+    // GET /admin/queue - Get moderation queue items
+    if (method === 'GET' && path === '/admin/queue') {
+      return await getModerationQueue(userId, event.queryStringParameters);
+    }
+
+    // POST /admin/queue/{itemId}/claim - Claim item for the calling admin
+    if (method === 'POST' && path.match(/\/admin\/queue\/[^/]+\/claim$/)) {
+      const itemId = event.pathParameters?.itemId || '';
+      return await claimQueueItem(userId, itemId);
+    }
+
+    // POST /admin/queue/{itemId}/assign - Assign item to an admin (or unassign)
+    if (method === 'POST' && path.match(/\/admin\/queue\/[^/]+\/assign$/)) {
+      const itemId = event.pathParameters?.itemId || '';
+      return await assignQueueItem(userId, itemId, event.body);
+    }
+
+    // POST /admin/queue/{itemId}/resolve - Resolve item with an outcome
+    if (method === 'POST' && path.match(/\/admin\/queue\/[^/]+\/resolve$/)) {
+      const itemId = event.pathParameters?.itemId || '';
+      return await resolveQueueItem(userId, itemId, event.body);
+    }
+
+    // ==================== AUDIT LOG ====================
+
+    // GET /admin/audit - Browse admin actions, newest first
+    if (method === 'GET' && path === '/admin/audit') {
+      return await getAuditLog(userId, event.queryStringParameters);
+    }
+
+    // GET /admin/audit/export - Download matching actions as CSV or JSON
+    if (method === 'GET' && path === '/admin/audit/export') {
+      return await exportAuditLog(userId, event.queryStringParameters);
+    }
+
+    // GET /admin/audit/verify - Check the audit hash chain for tampering
+    if (method === 'GET' && path === '/admin/audit/verify') {
+      return await verifyAuditLog(userId);
+    }
+
+    // GET /admin/audit/targets/{targetType}/{targetId} - A target's action history and violations
+    if (method === 'GET' && path.match(/\/admin\/audit\/targets\/[^/]+\/[^/]+$/)) {
+      const targetType = event.pathParameters?.targetType || '';
+      const targetId = event.pathParameters?.targetId || '';
+      return await getTargetHistory(userId, targetType, targetId);
+    }
+
     // ==================== RECIPES MANAGEMENT ====================
     
     // GET /admin/recipes/pending - Get pending recipes
@@ -415,6 +497,359 @@ async function rejectBan(
   }
 }
 
+// ==================== AI QUOTA HANDLERS ====================
+
+async function getUserAIQuota(
+  adminId: string,
+  targetUserId: string
+): Promise<APIResponse> {
+  try {
+    const result = await AdminService.getUserAIQuota(targetUserId);
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error getting AI quota', { error, adminId, targetUserId });
+    return handleError(error);
+  }
+}
+
+async function setUserAIQuota(
+  adminId: string,
+  targetUserId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    if (!body) {
+      return errorResponse(400, 'bad_request', 'Request body required');
+    }
+
+    const request = JSON.parse(body);
+    const { limits, reason, expires_at } = request;
+
+    if (!reason) {
+      return errorResponse(400, 'bad_request', 'Reason is required');
+    }
+
+    const result = await AdminService.setUserAIQuota({
+      userId: targetUserId,
+      adminId,
+      limits,
+      reason,
+      expires_at
+    });
+
+    logger.info('AI quota override set by admin', { adminId, targetUserId, limits, expires_at });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error setting AI quota', { error, adminId, targetUserId });
+    return handleError(error);
+  }
+}
+
+async function clearUserAIQuota(
+  adminId: string,
+  targetUserId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    const reason = body ? JSON.parse(body).reason : 'Admin decision';
+
+    const result = await AdminService.clearUserAIQuota({
+      userId: targetUserId,
+      adminId,
+      reason
+    });
+
+    logger.info('AI quota override cleared by admin', { adminId, targetUserId });
+
+    return successResponse(result);
+  } catch (error) {
+    logger.error('Error clearing AI quota', { error, adminId, targetUserId });
+    return handleError(error);
+  }
+}
+
+// ==================== AI COST HANDLERS ====================
+
+async function getAICostReport(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const report = await AdminService.getAICostReport({
+      period: params?.period || 'day',
+      date: params?.date
+    });
+
+    logger.info('AI cost report retrieved', {
+      adminId,
+      period: report.period,
+      periodKey: report.period_key
+    });
+
+    return successResponse(report);
+  } catch (error) {
+    logger.error('Error getting AI cost report', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function getUserAICosts(
+  adminId: string,
+  targetUserId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const limit = Math.min(parseInt(params?.limit || '50'), 100);
+    const lastKey = params?.last_key
+      ? JSON.parse(Buffer.from(params.last_key, 'base64').toString())
+      : undefined;
+
+    const report = await AdminService.getUserAICosts(targetUserId, limit, lastKey);
+
+    return successResponse({
+      ...report,
+      next_key: report.next_key
+        ? Buffer.from(JSON.stringify(report.next_key)).toString('base64')
+        : undefined
+    });
+  } catch (error) {
+    logger.error('Error getting user AI costs', { error, adminId, targetUserId });
+    return handleError(error);
+  }
+}
+
+// ==================== AUDIT LOG HANDLERS ====================
+
+function parseAuditFilter(params: any): AdminAuditFilter {
+  return {
+    admin_id: params?.admin_id,
+    action_type: params?.action_type,
+    target_type: params?.target_type,
+    target_id: params?.target_id,
+    from: params?.from,
+    to: params?.to
+  };
+}
+
+async function getAuditLog(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const limit = Math.min(parseInt(params?.limit || '50'), 100);
+    const lastKey = params?.last_key
+      ? JSON.parse(Buffer.from(params.last_key, 'base64').toString())
+      : undefined;
+
+    const page = await AdminService.getAuditLog({
+      ...parseAuditFilter(params),
+      limit,
+      lastKey
+    });
+
+    logger.info('Audit log retrieved', {
+      adminId,
+      count: page.count
+    });
+
+    return successResponse({
+      ...page,
+      next_key: page.next_key
+        ? Buffer.from(JSON.stringify(page.next_key)).toString('base64')
+        : undefined
+    });
+  } catch (error) {
+    logger.error('Error getting audit log', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function exportAuditLog(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const exported = await AdminService.exportAuditLog(parseAuditFilter(params), params?.format || 'csv');
+
+    logger.info('Audit log export downloaded', {
+      adminId,
+      format: exported.format,
+      count: exported.count
+    });
+
+    // The file itself is the body, not the usual JSON envelope
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': exported.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+        'X-Audit-Export-Truncated': String(exported.truncated),
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+        'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        'Access-Control-Expose-Headers': 'Content-Disposition,X-Audit-Export-Truncated',
+      },
+      body: exported.content
+    };
+  } catch (error) {
+    logger.error('Error exporting audit log', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function verifyAuditLog(adminId: string): Promise<APIResponse> {
+  try {
+    const verification = await AdminService.verifyAuditLog();
+
+    logger.info('Audit chain verified', {
+      adminId,
+      valid: verification.valid,
+      checked: verification.checked
+    });
+
+    return successResponse(verification);
+  } catch (error) {
+    logger.error('Error verifying audit log', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function getTargetHistory(
+  adminId: string,
+  targetType: string,
+  targetId: string
+): Promise<APIResponse> {
+  try {
+    const history = await AdminService.getTargetHistory(targetType, targetId);
+
+    return successResponse(history);
+  } catch (error) {
+    logger.error('Error getting target history', { error, adminId, targetType, targetId });
+    return handleError(error);
+  }
+}
+
+// ==================== MODERATION QUEUE HANDLERS ====================
+
+async function getModerationQueue(
+  adminId: string,
+  params: any
+): Promise<APIResponse> {
+  try {
+    const limit = Math.min(parseInt(params?.limit || '50'), 100);
+    const lastKey = params?.last_key
+      ? JSON.parse(Buffer.from(params.last_key, 'base64').toString())
+      : undefined;
+
+    const page = await AdminService.getModerationQueue({
+      status: params?.status,
+      item_type: params?.type,
+      severity: params?.severity,
+      assignee_id: params?.assignee === 'me' ? adminId : params?.assignee,
+      limit,
+      lastKey
+    });
+
+    logger.info('Moderation queue retrieved', {
+      adminId,
+      count: page.count
+    });
+
+    return successResponse({
+      ...page,
+      next_key: page.next_key
+        ? Buffer.from(JSON.stringify(page.next_key)).toString('base64')
+        : undefined
+    });
+  } catch (error) {
+    logger.error('Error getting moderation queue', { error, adminId });
+    return handleError(error);
+  }
+}
+
+async function claimQueueItem(
+  adminId: string,
+  itemId: string
+): Promise<APIResponse> {
+  try {
+    const item = await AdminService.claimQueueItem({ itemId, adminId });
+
+    logger.info('Moderation item claimed', { adminId, itemId });
+
+    return successResponse({ item });
+  } catch (error) {
+    logger.error('Error claiming moderation item', { error, adminId, itemId });
+    return handleError(error);
+  }
+}
+
+async function assignQueueItem(
+  adminId: string,
+  itemId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    if (!body) {
+      return errorResponse(400, 'bad_request', 'Request body required');
+    }
+
+    const request = JSON.parse(body);
+    const { admin_id } = request;
+
+    if (admin_id !== null && (typeof admin_id !== 'string' || !admin_id)) {
+      return errorResponse(400, 'bad_request', 'admin_id is required (null to unassign)');
+    }
+
+    const item = await AdminService.assignQueueItem({
+      itemId,
+      adminId,
+      assigneeId: admin_id
+    });
+
+    logger.info('Moderation item assigned', { adminId, itemId, assigneeId: admin_id });
+
+    return successResponse({ item });
+  } catch (error) {
+    logger.error('Error assigning moderation item', { error, adminId, itemId });
+    return handleError(error);
+  }
+}
+
+async function resolveQueueItem(
+  adminId: string,
+  itemId: string,
+  body: string | null
+): Promise<APIResponse> {
+  try {
+    if (!body) {
+      return errorResponse(400, 'bad_request', 'Request body required');
+    }
+
+    const request = JSON.parse(body);
+    const { outcome, notes } = request;
+
+    if (!outcome) {
+      return errorResponse(400, 'bad_request', 'Outcome is required');
+    }
+
+    const item = await AdminService.resolveQueueItem({
+      itemId,
+      adminId,
+      outcome,
+      notes
+    });
+
+    logger.info('Moderation item resolved', { adminId, itemId, outcome });
+
+    return successResponse({ item });
+  } catch (error) {
+    logger.error('Error resolving moderation item', { error, adminId, itemId });
+    return handleError(error);
+  }
+}
+
 // ==================== RECIPE MANAGEMENT HANDLERS ====================
 
 async function getPendingRecipes(
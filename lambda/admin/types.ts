@@ -2,6 +2,11 @@
  * Admin Lambda Types
  */
 
+import { ModerationItem, ModerationOutcome } from '../shared/moderation-queue';
+import { AIQuotaLimits, AIQuotaOverride, AIQuotaScope, AIQuotaStatus } from '../shared/ai-quota';
+import { AICostPeriod } from '../shared/ai-cost-ledger';
+import { AdminAuditEntry } from '../shared/admin-audit-log';
+
 // ==================== DATABASE STATS ====================
 
 export interface DatabaseStats {
@@ -219,16 +224,86 @@ export interface RejectRecipeResponse {
   message: string;
 }
 
-// ==================== ADMIN ACTIONS ====================
+// ==================== MODERATION QUEUE ====================
 
-export interface AdminAction {
-  action_id: string;
-  admin_id: string;
-  admin_username: string;
-  action_type: string; // 'ban_user', 'unban_user', 'approve_recipe', 'reject_recipe', etc.
-  target_type: string; // 'user', 'recipe', 'post', etc.
-  target_id: string;
-  reason?: string;
+export interface ModerationQueuePage {
+  items: ModerationItem[];
+  count: number;
+  next_key?: any;
+}
+
+export interface ClaimQueueItemRequest {
+  itemId: string;
+  adminId: string;
+}
+
+export interface AssignQueueItemRequest {
+  itemId: string;
+  adminId: string;
+  assigneeId: string | null; // null unassigns
+}
+
+export interface ResolveQueueItemRequest {
+  itemId: string;
+  adminId: string;
+  outcome: ModerationOutcome;
   notes?: string;
-  created_at: string;
+}
+
+// ==================== AI QUOTAS ====================
+
+export interface UserAIQuota {
+  user_id: string;
+  override?: AIQuotaOverride;
+  quotas: AIQuotaStatus[]; // One per scope, with today's and this month's usage
+}
+
+export interface SetAIQuotaOverrideRequest {
+  userId: string;
+  adminId: string;
+  limits: Partial<Record<AIQuotaScope, Partial<AIQuotaLimits>>>;
+  reason: string;
+  expires_at?: string;
+}
+
+export interface ClearAIQuotaOverrideRequest {
+  userId: string;
+  adminId: string;
+  reason?: string;
+}
+
+// ==================== AI COSTS ====================
+
+export interface AICostReportOptions {
+  period: AICostPeriod;
+  date?: string; // YYYY-MM-DD for a day, YYYY-MM for a month; defaults to the current one
+}
+
+// ==================== AUDIT LOG ====================
+
+// Admin actions live in the audit log hash chain
+export type AdminAction = AdminAuditEntry;
+
+export interface AuditLogPage {
+  entries: AdminAuditEntry[];
+  count: number;
+  next_key?: any;
+}
+
+export type AuditExportFormat = 'csv' | 'json';
+
+export interface AuditLogExport {
+  format: AuditExportFormat;
+  filename: string;
+  content: string;
+  count: number;
+  truncated: boolean; // More entries matched than one export holds
+}
+
+export interface TargetActionHistory {
+  target_type: string;
+  target_id: string;
+  actions: AdminAuditEntry[]; // Newest first
+  violations: Violation[]; // Only users have violations
+  truncated: boolean;
 }
@@ -14,9 +14,11 @@
  * - Flexible (AI adapts to context)
  */
 
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
 import { logger } from '../shared/logger';
 import { AbuseTrackingService } from '../shared/abuse-tracking-service';
+import { AIQuotaService } from '../shared/ai-quota';
+import { AICostLedger } from '../shared/ai-cost-ledger';
+import { LLMProvider, createLLMProvider } from './llm-provider';
 
 export interface IngredientValidationRequest {
   userId: string;
@@ -50,41 +52,37 @@ export interface InterpretedIngredient {
 }
 
 export class AIConversationalValidator {
-  private client: BedrockRuntimeClient;
-  private modelId: string = 'anthropic.claude-3-haiku-20240307-v1:0';
+  private provider: LLMProvider;
 
-  constructor(region: string = 'us-east-1') {
-    this.client = new BedrockRuntimeClient({ region });
+  constructor(region: string = 'us-east-1', provider?: LLMProvider) {
+    // Lower temperature for consistent validation
+    this.provider = provider || createLLMProvider({ maxTokens: 1500, temperature: 0.3, region });
   }
 
   /**
    * Validate ingredients using conversational AI
+   * Each call is charged to the user's ingredient_validation quota; over the burst limit or out of
+   * daily/monthly budget it throws RateLimitError, since there is no non-AI answer to fall back to
    */
   async validateIngredients(request: IngredientValidationRequest): Promise<ValidationResponse> {
     try {
+      // Charged before the call, so concurrent requests cannot all pass on the last unit of budget
+      const quota = await AIQuotaService.acquire(request.userId, 'ingredient_validation');
+      await AIQuotaService.consume(request.userId, 'ingredient_validation', 1, quota);
+
       const prompt = this.buildValidationPrompt(request);
-      
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 1500,
-          temperature: 0.3, // Lower temperature for consistent validation
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
+      const startTime = Date.now();
+      const completion = await this.provider.invoke(prompt);
+      await AICostLedger.record({
+        feature: 'ingredient_validation',
+        model_id: this.provider.modelId,
+        input_tokens: completion.input_tokens,
+        output_tokens: completion.output_tokens,
+        user_id: request.userId,
+        duration_ms: Date.now() - startTime
       });
-
-      const response = await this.client.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
       
-      return this.parseValidationResponse(responseBody.content[0].text);
+      return this.parseValidationResponse(completion.text);
 
     } catch (error) {
       logger.error('AI validation failed', { error });
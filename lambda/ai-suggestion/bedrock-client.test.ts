@@ -1,5 +1,7 @@
 import { BedrockAIClient, UserContext, AIRecipeRequest } from './bedrock-client';
 import { UserProfile, UserPreferences } from '../shared/types';
+import { InvokeModelCommand, InvokeModelWithResponseStreamCommand } from '@aws-sdk/client-bedrock-runtime';
+import { AICostLedger } from '../shared/ai-cost-ledger';
 
 // Mock AWS SDK
 const mockSend = jest.fn();
@@ -7,9 +9,14 @@ jest.mock('@aws-sdk/client-bedrock-runtime', () => ({
   BedrockRuntimeClient: jest.fn().mockImplementation(() => ({
     send: mockSend
   })),
-  InvokeModelCommand: jest.fn()
+  InvokeModelCommand: jest.fn(),
+  InvokeModelWithResponseStreamCommand: jest.fn()
 }));
 
+jest.mock('../shared/ai-cost-ledger');
+
+const mockRecordCost = AICostLedger.record as jest.Mock;
+
 describe('BedrockAIClient', () => {
   let client: BedrockAIClient;
 
@@ -398,6 +405,47 @@ Hope you enjoy!`
       )).toBe(true);
     });
 
+    it('should tell the AI which expiring ingredients to use first', async () => {
+      const priorityRequest: AIRecipeRequest = {
+        ...mockRequest,
+        ingredients: ['đậu hũ', 'rau cải', 'cà chua'],
+        priority_ingredients: [
+          { ingredient_name: 'rau cải', expiry_date: '2025-10-02', days_until_expiry: 1 },
+          { ingredient_name: 'đậu hũ', expiry_date: '2025-10-04', days_until_expiry: 3 }
+        ]
+      };
+
+      mockSend.mockResolvedValue({
+        body: new TextEncoder().encode(JSON.stringify({
+          content: [{ text: JSON.stringify({ recipes: [{ title: 'Đậu hũ xào rau cải' }] }) }],
+          usage: { input_tokens: 600, output_tokens: 700 }
+        }))
+      });
+
+      await client.generateRecipes(priorityRequest);
+
+      const commandInput = (InvokeModelCommand as unknown as jest.Mock).mock.calls[0][0];
+      const prompt: string = JSON.parse(commandInput.body).messages[0].content;
+      expect(prompt).toContain('USE FIRST - EXPIRING SOON');
+      expect(prompt).toContain('- rau cải (expires tomorrow)');
+      expect(prompt).toContain('- đậu hũ (expires in 3 days)');
+      expect(prompt.indexOf('rau cải (expires')).toBeLessThan(prompt.indexOf('đậu hũ (expires'));
+    });
+
+    it('should omit the expiring section when there are no priority ingredients', async () => {
+      mockSend.mockResolvedValue({
+        body: new TextEncoder().encode(JSON.stringify({
+          content: [{ text: JSON.stringify({ recipes: [{ title: 'Gà xào' }] }) }],
+          usage: { input_tokens: 500, output_tokens: 600 }
+        }))
+      });
+
+      await client.generateRecipes(mockRequest);
+
+      const commandInput = (InvokeModelCommand as unknown as jest.Mock).mock.calls[0][0];
+      expect(JSON.parse(commandInput.body).messages[0].content).not.toContain('USE FIRST');
+    });
+
     it('should track token usage and generation time', async () => {
       const mockAIResponse = {
         content: [{
@@ -430,6 +478,140 @@ Hope you enjoy!`
       expect(result.generation_time_ms).toBeLessThan(endTime - startTime + 100); // Allow some margin
       expect(result.model_used).toBe('anthropic.claude-3-haiku-20240307-v1:0');
     });
+
+    it('should record the call in the cost ledger, even when the answer is unusable', async () => {
+      mockSend.mockResolvedValue({
+        body: new TextEncoder().encode(JSON.stringify({
+          content: [{ text: JSON.stringify({ success: false }) }],
+          usage: { input_tokens: 800, output_tokens: 40 }
+        }))
+      });
+      mockRecordCost.mockResolvedValue({ cost_usd: 0.00025 });
+
+      await expect(client.generateRecipes({
+        ...mockRequest,
+        cost_context: { user_id: 'user-1', suggestion_id: 'suggestion-1' }
+      })).rejects.toThrow('Không thể tìm thấy');
+
+      expect(mockRecordCost).toHaveBeenCalledWith(expect.objectContaining({
+        feature: 'recipe_generation',
+        model_id: 'anthropic.claude-3-haiku-20240307-v1:0',
+        input_tokens: 800,
+        output_tokens: 40,
+        user_id: 'user-1',
+        suggestion_id: 'suggestion-1',
+        recipes: 0
+      }));
+    });
+  });
+
+  describe('generateRecipesStream', () => {
+    const streamRequest: AIRecipeRequest = {
+      ingredients: ['thịt gà', 'cà chua'],
+      cooking_method: 'xào',
+      user_context: {
+        dietary_restrictions: [],
+        allergies: [],
+        favorite_cuisines: [],
+        preferred_cooking_methods: []
+      },
+      recipe_count: 2
+    };
+
+    // Bedrock response-stream events as the SDK yields them
+    const streamEvents = (textChunks: string[]) => ({
+      async *[Symbol.asyncIterator]() {
+        const events = [
+          { type: 'message_start', message: { usage: { input_tokens: 600 } } },
+          ...textChunks.map(text => ({ type: 'content_block_delta', delta: { type: 'text_delta', text } })),
+          { type: 'message_delta', usage: { output_tokens: 900 } }
+        ];
+        for (const event of events) {
+          yield { chunk: { bytes: new TextEncoder().encode(JSON.stringify(event)) } };
+        }
+      }
+    });
+
+    it('should hand each recipe to the callback as soon as its JSON is complete', async () => {
+      const text = JSON.stringify({
+        success: true,
+        recipes: [
+          { title: 'Gà xào cà chua', cooking_method: 'xào', description: 'Món {đặc biệt} "ngon"' },
+          { title: 'Gà xào sả ớt', cooking_method: 'xào' }
+        ]
+      });
+      const secondRecipeStart = text.indexOf('{"title":"Gà xào sả ớt"');
+      const chunks = [text.slice(0, 40), text.slice(40, secondRecipeStart + 5), text.slice(secondRecipeStart + 5)];
+
+      const received: string[] = [];
+      mockSend.mockImplementation(async () => {
+        expect(received).toHaveLength(0);
+        return { body: streamEvents(chunks) };
+      });
+
+      const result = await client.generateRecipesStream(streamRequest, recipe => received.push(recipe.title));
+
+      expect(InvokeModelWithResponseStreamCommand).toHaveBeenCalledWith(expect.objectContaining({
+        modelId: 'anthropic.claude-3-haiku-20240307-v1:0'
+      }));
+      expect(received).toEqual(['Gà xào cà chua', 'Gà xào sả ớt']);
+      expect(result.recipes.map(r => r.title)).toEqual(received);
+      expect(result.recipes[0].description).toBe('Món {đặc biệt} "ngon"');
+      expect(result.prompt_tokens).toBe(600);
+      expect(result.completion_tokens).toBe(900);
+    });
+
+    it('should fall back to a full-text parse when no recipe could be streamed', async () => {
+      mockSend.mockResolvedValue({ body: streamEvents(['Invalid JSON response from AI']) });
+
+      const received: string[] = [];
+      const result = await client.generateRecipesStream(streamRequest, recipe => received.push(recipe.title));
+
+      expect(result.recipes).toHaveLength(1);
+      expect(received).toEqual(['Món xào đơn giản']);
+    });
+
+    it('should skip a malformed recipe and keep the ones already sent', async () => {
+      const text = JSON.stringify({
+        success: true,
+        recipes: [
+          { title: 'Gà xào cà chua', cooking_method: 'xào' },
+          { title: 'Gà hỏng', ingredients: [null] }
+        ]
+      });
+      mockSend.mockResolvedValue({ body: streamEvents([text]) });
+
+      const received: string[] = [];
+      const result = await client.generateRecipesStream(streamRequest, recipe => received.push(recipe.title));
+
+      expect(received).toEqual(['Gà xào cà chua']);
+      expect(result.recipes).toHaveLength(1);
+      expect(mockRecordCost).toHaveBeenCalledWith(expect.objectContaining({ input_tokens: 600, output_tokens: 900, recipes: 1 }));
+    });
+
+    it('should record the call in the cost ledger when the stream fails', async () => {
+      mockSend.mockResolvedValue({
+        body: {
+          async *[Symbol.asyncIterator]() {
+            yield { chunk: { bytes: new TextEncoder().encode(JSON.stringify({ type: 'content_block_delta', delta: { text: '{"success":' } })) } };
+            throw new Error('Stream interrupted');
+          }
+        }
+      });
+
+      await expect(client.generateRecipesStream(streamRequest, () => undefined))
+        .rejects.toThrow('AI generation failed: Stream interrupted');
+      expect(mockRecordCost).toHaveBeenCalledWith(expect.objectContaining({ recipes: 0 }));
+    });
+
+    it('should surface the AI message when it cannot use the ingredients', async () => {
+      mockSend.mockResolvedValue({
+        body: streamEvents([JSON.stringify({ success: false, message: 'Không thể tìm thấy món ăn phù hợp' })])
+      });
+
+      await expect(client.generateRecipesStream(streamRequest, () => undefined))
+        .rejects.toThrow('AI generation failed: Không thể tìm thấy món ăn phù hợp');
+    });
   });
 
   describe('createUserContext', () => {
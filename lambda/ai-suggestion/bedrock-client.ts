@@ -1,5 +1,8 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
-import { UserProfile, UserPreferences, Recipe, RecipeIngredient, RecipeInstruction } from '../shared/types';
+import { UserProfile, UserPreferences, Recipe, RecipeIngredient, RecipeInstruction, ExpiringIngredient } from '../shared/types';
+import { RecipeStreamParser } from './recipe-stream-parser';
+import { LLMCompletion, LLMProvider, createLLMProvider } from './llm-provider';
+import { AICostContext, AICostLedger } from '../shared/ai-cost-ledger';
+import { calculateCost } from '../shared/ai-pricing';
 
 export interface UserContext {
   age_range?: string; // "18-25", "26-35", "36-45", "46-55", "55+"
@@ -25,6 +28,8 @@ export interface AIRecipeRequest {
   cooking_method: string;
   user_context: UserContext;
   recipe_count?: number;
+  priority_ingredients?: ExpiringIngredient[]; // Expiring soon - must be used first
+  cost_context?: AICostContext; // Who the call is recorded against in the cost ledger
 }
 
 export interface AIRecipeResponse {
@@ -33,73 +38,151 @@ export interface AIRecipeResponse {
   model_used: string;
   prompt_tokens?: number;
   completion_tokens?: number;
+  cost_usd?: number;
 }
 
 export class BedrockAIClient {
-  private client: BedrockRuntimeClient;
-  private modelId: string = 'anthropic.claude-3-haiku-20240307-v1:0';
-  private maxTokens: number = 4000;
-  private temperature: number = 0.7;
+  private provider: LLMProvider;
 
-  constructor(region: string = 'us-east-1') {
-    this.client = new BedrockRuntimeClient({ region });
+  constructor(region: string = 'us-east-1', provider?: LLMProvider) {
+    this.provider = provider || createLLMProvider({ maxTokens: 4000, temperature: 0.7, region });
   }
 
   /**
-   * Generate recipes using Claude 3 Haiku with privacy-aware prompting
+   * Generate recipes with the configured LLM provider using privacy-aware prompting
    */
   async generateRecipes(request: AIRecipeRequest): Promise<AIRecipeResponse> {
     const startTime = Date.now();
     
     try {
       const prompt = this.buildPrompt(request);
-      
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: this.maxTokens,
-          temperature: this.temperature,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
+      const completion = await this.provider.invoke(prompt);
+
+      // The call is paid for even when its answer cannot be used
+      let recipes: Recipe[] = [];
+      let costUsd: number;
+      try {
+        recipes = this.parseAIResponse(completion.text, request);
+      } finally {
+        costUsd = await this.recordCost(request, completion, recipes.length, Date.now() - startTime);
+      }
+
+      return {
+        recipes,
+        generation_time_ms: Date.now() - startTime,
+        model_used: this.provider.modelId,
+        prompt_tokens: completion.input_tokens,
+        completion_tokens: completion.output_tokens,
+        cost_usd: costUsd
+      };
+
+    } catch (error) {
+      console.error('Bedrock AI generation failed:', error);
+      throw new Error(`AI generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Generate recipes with a streamed completion, passing each recipe to `onRecipe`
+   * as soon as its JSON object has been received
+   */
+  async generateRecipesStream(
+    request: AIRecipeRequest,
+    onRecipe: (recipe: Recipe) => void
+  ): Promise<AIRecipeResponse> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = this.buildPrompt(request);
+      const parser = new RecipeStreamParser();
+      const recipes: Recipe[] = [];
+
+      const emit = (recipe: Recipe) => {
+        recipes.push(recipe);
+        onRecipe(recipe);
+      };
+
+      // Holds the text streamed so far until the provider returns, so a failed stream is still recorded
+      let completion: LLMCompletion = { text: '' };
+      let costUsd: number;
+      try {
+        completion = await this.provider.stream(prompt, text => {
+          completion.text += text;
+          for (const rawRecipe of parser.push(text)) {
+            // A malformed recipe is skipped rather than failing the ones already sent
+            let recipe: Recipe;
+            try {
+              recipe = this.validateAndFormatRecipe(rawRecipe, request, recipes.length);
+            } catch (error) {
+              console.warn('Skipping malformed streamed recipe:', error);
+              continue;
             }
-          ]
-        })
-      });
+            emit(recipe);
+          }
+        });
 
-      const response = await this.client.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-      
-      const recipes = this.parseAIResponse(responseBody.content[0].text, request);
-      const generationTime = Date.now() - startTime;
+        // Nothing came through incrementally (e.g. the model declined): handle the full text as a blocking response would
+        if (recipes.length === 0) {
+          this.parseAIResponse(completion.text, request).forEach(emit);
+        }
+      } finally {
+        costUsd = await this.recordCost(request, completion, recipes.length, Date.now() - startTime);
+      }
 
       return {
         recipes,
-        generation_time_ms: generationTime,
-        model_used: this.modelId,
-        prompt_tokens: responseBody.usage?.input_tokens,
-        completion_tokens: responseBody.usage?.output_tokens
+        generation_time_ms: Date.now() - startTime,
+        model_used: this.provider.modelId,
+        prompt_tokens: completion.input_tokens,
+        completion_tokens: completion.output_tokens,
+        cost_usd: costUsd
       };
 
     } catch (error) {
-      console.error('Bedrock AI generation failed:', error);
+      console.error('Bedrock AI streaming generation failed:', error);
       throw new Error(`AI generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Record the call in the AI cost ledger and return its cost
+   */
+  private async recordCost(
+    request: AIRecipeRequest,
+    completion: LLMCompletion,
+    recipeCount: number,
+    durationMs: number
+  ): Promise<number> {
+    const { feature = 'recipe_generation', ...context } = request.cost_context || {};
+    const entry = await AICostLedger.record({
+      ...context,
+      feature,
+      model_id: this.provider.modelId,
+      input_tokens: completion.input_tokens,
+      output_tokens: completion.output_tokens,
+      recipes: recipeCount,
+      duration_ms: durationMs
+    });
+
+    return entry?.cost_usd ?? calculateCost(this.provider.modelId, completion.input_tokens || 0, completion.output_tokens || 0);
+  }
+
   /**
    * Build privacy-aware prompt with user personalization context
    * Excludes PII data (email, full name, exact birthdate, address)
    */
   private buildPrompt(request: AIRecipeRequest): string {
-    const { ingredients, cooking_method, user_context, recipe_count = 1 } = request;
+    const { ingredients, cooking_method, user_context, recipe_count = 1, priority_ingredients = [] } = request;
     
     // Build personalization context (privacy-aware)
     const personalizationContext = this.buildPersonalizationContext(user_context);
+    const priorityContext = this.buildPriorityIngredientsContext(priority_ingredients);
+    const availableIngredients = ingredients.length > 0
+      ? ingredients.join(', ')
+      : 'NOT SPECIFIED - choose common, easily available ingredients';
+    const ingredientRule = ingredients.length > 0
+      ? 'Use ONLY the provided ingredients (interpret them correctly, then use them)'
+      : 'Use common ingredients that are easy to buy at a local market';
     
     // Determine cuisine based on user's country (default: Vietnamese)
     const userCountry = user_context.country || 'Vietnam';
@@ -122,14 +205,14 @@ The user may input ingredients WITHOUT Vietnamese diacritics or with typos. You
 Use your knowledge to identify the correct ingredient even with missing diacritics or minor spelling variations.
 
 COOKING METHOD: ${cooking_method}
-AVAILABLE INGREDIENTS (may have typos or missing diacritics): ${ingredients.join(', ')}
-
+AVAILABLE INGREDIENTS (may have typos or missing diacritics): ${availableIngredients}
+${priorityContext}
 ${personalizationContext}
 
 REQUIREMENTS:
 1. INTELLIGENTLY INTERPRET ingredient names - match "ca ro" to "cà rốt", "hanh" to "hành", etc.
 2. CLASSIFY each ingredient into category: meat, seafood, vegetable, spice, grain, dairy, or other
-3. Use ONLY the provided ingredients (interpret them correctly, then use them)
+3. ${ingredientRule}
 4. Create authentic ${cuisineType} recipes using the specified cooking method: ${cooking_method}
 5. Ensure recipes are suitable for the user's dietary needs and preferences
 6. Include detailed step-by-step instructions in ${language}
@@ -214,6 +297,31 @@ REMEMBER:
     return prompt;
   }
 
+  /**
+   * Build the "use it up" section listing items that expire soon, soonest first
+   */
+  private buildPriorityIngredientsContext(priorityIngredients: ExpiringIngredient[]): string {
+    if (priorityIngredients.length === 0) {
+      return '';
+    }
+
+    const items = priorityIngredients.map(item => {
+      const expiry = item.days_until_expiry <= 0
+        ? 'expires today'
+        : item.days_until_expiry === 1
+        ? 'expires tomorrow'
+        : `expires in ${item.days_until_expiry} days`;
+      return `- ${item.ingredient_name} (${expiry})`;
+    });
+
+    return `
+⏰ USE FIRST - EXPIRING SOON (reduce food waste):
+${items.join('\n')}
+  → Build each recipe around as many of these items as possible, most urgent first
+  → Use generous quantities of them so they are used up before they spoil
+`;
+  }
+
   /**
    * Build personalization context while respecting privacy
    * Only uses: age range, gender, country, cooking preferences, allergies
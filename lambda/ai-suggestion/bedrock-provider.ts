@@ -0,0 +1,85 @@
+import { BedrockRuntimeClient, InvokeModelCommand, InvokeModelWithResponseStreamCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMCompletion, LLMProvider, ResolvedLLMProviderConfig } from './llm-provider';
+
+/**
+ * Amazon Bedrock provider for Anthropic models (Messages API)
+ */
+export class BedrockProvider implements LLMProvider {
+  readonly modelId: string;
+  readonly maxTokens: number;
+  readonly temperature: number;
+  private client: BedrockRuntimeClient;
+
+  constructor(config: ResolvedLLMProviderConfig) {
+    this.modelId = config.modelId;
+    this.maxTokens = config.maxTokens;
+    this.temperature = config.temperature;
+    this.client = new BedrockRuntimeClient({ region: config.region || 'us-east-1' });
+  }
+
+  async invoke(prompt: string): Promise<LLMCompletion> {
+    const command = new InvokeModelCommand({
+      modelId: this.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: this.buildRequestBody(prompt)
+    });
+
+    const response = await this.client.send(command);
+    const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+
+    return {
+      text: responseBody.content[0].text,
+      input_tokens: responseBody.usage?.input_tokens,
+      output_tokens: responseBody.usage?.output_tokens
+    };
+  }
+
+  async stream(prompt: string, onText: (text: string) => void): Promise<LLMCompletion> {
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: this.modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: this.buildRequestBody(prompt)
+    });
+
+    const response = await this.client.send(command);
+    const completion: LLMCompletion = { text: '' };
+
+    for await (const event of response.body || []) {
+      if (!event.chunk?.bytes) {
+        continue;
+      }
+
+      const payload = JSON.parse(new TextDecoder().decode(event.chunk.bytes));
+
+      if (payload.type === 'message_start') {
+        completion.input_tokens = payload.message?.usage?.input_tokens;
+      } else if (payload.type === 'message_delta') {
+        completion.output_tokens = payload.usage?.output_tokens;
+      } else if (payload.type === 'content_block_delta' && payload.delta?.text) {
+        completion.text += payload.delta.text;
+        onText(payload.delta.text);
+      }
+    }
+
+    return completion;
+  }
+
+  /**
+   * Messages API request body shared by the blocking and streaming calls
+   */
+  private buildRequestBody(prompt: string): string {
+    return JSON.stringify({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    });
+  }
+}
@@ -1,13 +1,19 @@
 ﻿import { FlexibleMixAlgorithm, FlexibleMixRequest } from './flexible-mix-algorithm';
 import { Recipe, UserPreferences, UserProfile } from '../shared/types';
 import { BedrockAIClient, UserContext } from './bedrock-client';
+import { DEFAULT_MODEL_ID } from './llm-provider';
+import { estimateRecipeCost } from '../shared/ai-pricing';
+
+// Database recipes are priced from the default model when no AI call was made
+const RECIPE_COST = estimateRecipeCost(DEFAULT_MODEL_ID);
 
 // Mock AWS SDK
 const mockSend = jest.fn();
 jest.mock('@aws-sdk/lib-dynamodb', () => ({
   DynamoDBDocumentClient: {
     from: jest.fn(() => ({
-      send: mockSend
+      // Resolved lazily: shared modules create their client while this file's imports load
+      send: (...args: any[]) => mockSend(...args)
     }))
   },
   QueryCommand: jest.fn((params) => params),
@@ -161,7 +167,7 @@ describe('FlexibleMixAlgorithm', () => {
       expect(result.stats.from_database).toBe(2);
       expect(result.stats.from_ai).toBe(0);
       expect(result.stats.database_coverage_percentage).toBe(100);
-      expect(result.cost_optimization.estimated_ai_cost_saved).toBe(0.04); // 2 * $0.02
+      expect(result.cost_optimization.estimated_ai_cost_saved).toBeCloseTo(2 * RECIPE_COST, 6);
     });
 
     it('should generate AI recipes when database coverage is insufficient', async () => {
@@ -218,7 +224,7 @@ describe('FlexibleMixAlgorithm', () => {
       expect(result.stats.from_database).toBe(1);
       expect(result.stats.from_ai).toBe(2);
       expect(result.stats.database_coverage_percentage).toBe(33); // 1/3 * 100
-      expect(result.cost_optimization.estimated_ai_cost_saved).toBe(0.02); // 1 * $0.02
+      expect(result.cost_optimization.estimated_ai_cost_saved).toBeCloseTo(RECIPE_COST, 6);
     });
 
     it('should prioritize user preferred cooking methods', async () => {
@@ -655,7 +661,7 @@ describe('FlexibleMixAlgorithm', () => {
 
       expect(result.cost_optimization.database_recipes_used).toBe(2);
       expect(result.cost_optimization.ai_recipes_generated).toBe(3);
-      expect(result.cost_optimization.estimated_ai_cost_saved).toBe(0.04); // 2 * $0.02
+      expect(result.cost_optimization.estimated_ai_cost_saved).toBeCloseTo(2 * RECIPE_COST, 6);
       expect(result.stats.database_coverage_percentage).toBe(40); // 2/5 * 100
     });
 
@@ -739,10 +745,58 @@ describe('FlexibleMixAlgorithm', () => {
 
       expect(result.cost_optimization.database_recipes_used).toBe(3);
       expect(result.cost_optimization.ai_recipes_generated).toBe(0);
-      expect(result.cost_optimization.estimated_ai_cost_saved).toBe(0.06); // 3 * $0.02
+      expect(result.cost_optimization.estimated_ai_cost_saved).toBeCloseTo(3 * RECIPE_COST, 6);
       expect(result.stats.database_coverage_percentage).toBe(100);
       expect(mockAIClient.generateRecipes).not.toHaveBeenCalled();
     });
+
+    it('should price saved recipes at what the AI calls actually cost', async () => {
+      const request: FlexibleMixRequest = {
+        ingredients: ['gà'],
+        recipe_count: 2,
+        user_context: mockUserContext,
+        cost_context: { user_id: 'user-1', suggestion_id: 'suggestion-1' }
+      };
+
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [{
+            PK: 'RECIPE#chicken-1',
+            SK: 'METADATA',
+            recipe_id: 'chicken-1',
+            title: 'Gà xào',
+            cuisine_type: 'Vietnamese',
+            cooking_method: 'xào',
+            meal_type: 'main',
+            prep_time_minutes: 10,
+            cook_time_minutes: 15,
+            servings: 2,
+            is_approved: true,
+            is_public: true,
+            is_ai_generated: false,
+            ingredients: [{ ingredient_name: 'gà', quantity: '300g' }],
+            instructions: [{ step_number: 1, description: 'Xào gà' }]
+          }]
+        })
+        .mockResolvedValue({ Items: [] });
+
+      mockAIClient.generateRecipes.mockResolvedValueOnce({
+        recipes: [{ ...mockAIRecipe, recipe_id: 'ai-recipe-1', cooking_method: 'canh' }],
+        generation_time_ms: 1500,
+        model_used: 'anthropic.claude-3-haiku-20240307-v1:0',
+        prompt_tokens: 2000,
+        completion_tokens: 1600,
+        cost_usd: 0.0025
+      });
+
+      const result = await algorithm.generateMixedRecipes(request);
+
+      expect(result.cost_optimization.ai_cost_usd).toBe(0.0025);
+      expect(result.cost_optimization.estimated_ai_cost_saved).toBeCloseTo(0.0025, 6);
+      expect(mockAIClient.generateRecipes).toHaveBeenCalledWith(expect.objectContaining({
+        cost_context: { user_id: 'user-1', suggestion_id: 'suggestion-1' }
+      }));
+    });
   });
 
   describe('advanced error handling and edge cases', () => {
@@ -799,6 +853,32 @@ describe('FlexibleMixAlgorithm', () => {
       expect(mockAIClient.generateRecipes).toHaveBeenCalledTimes(5);
     });
 
+    it('should ask each cooking method for more recipes when a plan needs more than one per method', async () => {
+      const request: FlexibleMixRequest = {
+        ingredients: ['thịt gà'],
+        recipe_count: 10,
+        user_context: mockUserContext
+      };
+
+      mockSend.mockResolvedValue({ Items: [] });
+      mockAIClient.generateRecipes.mockImplementation(async (aiRequest: any) => ({
+        recipes: Array.from({ length: aiRequest.recipe_count }, (_, i) => ({
+          ...mockAIRecipe,
+          recipe_id: `ai-${aiRequest.cooking_method}-${i}`,
+          title: `AI ${aiRequest.cooking_method} ${i + 1}`
+        })),
+        generation_time_ms: 2000,
+        model_used: 'claude-3-haiku'
+      }));
+
+      const result = await algorithm.generateMixedRecipes(request);
+
+      expect(result.stats.from_ai).toBe(10);
+      expect(mockAIClient.generateRecipes).toHaveBeenCalledTimes(7);
+      const counts = mockAIClient.generateRecipes.mock.calls.map(([aiRequest]: any[]) => aiRequest.recipe_count);
+      expect(counts).toEqual([2, 2, 2, 1, 1, 1, 1]);
+    });
+
     it('should handle database timeout errors', async () => {
       const request: FlexibleMixRequest = {
         ingredients: ['thá»‹t heo'],
@@ -958,4 +1038,162 @@ describe('FlexibleMixAlgorithm', () => {
       expect(result.recipes.some(r => r.title.includes('hoÃ n háº£o'))).toBe(true);
     });
   });
+
+  describe('use-it-up ranking', () => {
+    const basicContext: UserContext = {
+      dietary_restrictions: [],
+      allergies: [],
+      favorite_cuisines: [],
+      preferred_cooking_methods: []
+    };
+
+    const dbItem = (id: string, title: string, ingredientNames: string[]) => ({
+      PK: `RECIPE#${id}`,
+      SK: 'METADATA',
+      recipe_id: id,
+      title,
+      cooking_method: 'stir-fry',
+      is_approved: true,
+      is_public: true,
+      ingredients: ingredientNames.map(name => ({ ingredient_name: name, quantity: '100g' }))
+    });
+
+    it('should rank recipes that use soon-to-expire items first', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [
+            dbItem('fried-rice', 'Fried rice', ['rice', 'egg']),
+            dbItem('spinach-omelette', 'Spinach omelette', ['spinach', 'egg'])
+          ]
+        })
+        .mockResolvedValue({ Items: [] });
+
+      const result = await algorithm.generateMixedRecipes({
+        ingredients: ['rice', 'egg', 'spinach'],
+        recipe_count: 2,
+        user_context: basicContext,
+        expiring_ingredients: [
+          { ingredient_name: 'spinach', expiry_date: '2025-10-02', days_until_expiry: 1 }
+        ]
+      });
+
+      expect(result.recipes.map(r => r.recipe_id)).toEqual(['spinach-omelette', 'fried-rice']);
+      expect(result.recipes[0].expiring_ingredients_used).toEqual(['spinach']);
+      expect(result.recipes[1].expiring_ingredients_used).toEqual([]);
+      expect(result.expiring_ingredients).toHaveLength(1);
+    });
+
+    it('should weight items that expire sooner more heavily', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [
+            dbItem('fish-soup', 'Fish soup', ['fish', 'tomato']),
+            dbItem('tofu-greens', 'Tofu with greens', ['tofu', 'spinach'])
+          ]
+        })
+        .mockResolvedValue({ Items: [] });
+
+      const result = await algorithm.generateMixedRecipes({
+        ingredients: ['fish', 'tomato', 'tofu', 'spinach'],
+        recipe_count: 2,
+        user_context: basicContext,
+        expiring_ingredients: [
+          { ingredient_name: 'fish', expiry_date: '2025-10-06', days_until_expiry: 5 },
+          { ingredient_name: 'tofu', expiry_date: '2025-10-01', days_until_expiry: 0 }
+        ]
+      });
+
+      expect(result.recipes[0].recipe_id).toBe('tofu-greens');
+      expect(result.recipes[0].expiring_ingredients_used).toEqual(['tofu']);
+      expect(result.recipes[1].expiring_ingredients_used).toEqual(['fish']);
+    });
+
+    it('should pass at-risk items to the AI and ignore items outside the window', async () => {
+      mockSend.mockResolvedValue({ Items: [] });
+      mockAIClient.generateRecipes.mockResolvedValue({
+        recipes: [{ ...mockAIRecipe, ingredients: [{ ingredient_name: 'spinach', quantity: '200g' }] }],
+        generation_time_ms: 1000,
+        model_used: 'test-model'
+      });
+
+      const result = await algorithm.generateMixedRecipes({
+        ingredients: ['spinach', 'rice'],
+        recipe_count: 1,
+        user_context: basicContext,
+        expiring_ingredients: [
+          { ingredient_name: 'rice', expiry_date: '2026-01-01', days_until_expiry: 90 },
+          { ingredient_name: 'spinach', expiry_date: '2025-10-03', days_until_expiry: 2 }
+        ]
+      });
+
+      expect(mockAIClient.generateRecipes).toHaveBeenCalledWith(expect.objectContaining({
+        priority_ingredients: [
+          { ingredient_name: 'spinach', expiry_date: '2025-10-03', days_until_expiry: 2 }
+        ]
+      }));
+      expect(result.expiring_ingredients!.map(item => item.ingredient_name)).toEqual(['spinach']);
+      expect(result.recipes[0].expiring_ingredients_used).toEqual(['spinach']);
+    });
+
+    it('should not annotate recipes when no expiry data is supplied', async () => {
+      mockSend
+        .mockResolvedValueOnce({ Items: [dbItem('fried-rice', 'Fried rice', ['rice', 'egg'])] })
+        .mockResolvedValue({ Items: [] });
+
+      const result = await algorithm.generateMixedRecipes({
+        ingredients: ['rice', 'egg'],
+        recipe_count: 1,
+        user_context: basicContext
+      });
+
+      expect(result.recipes[0].expiring_ingredients_used).toBeUndefined();
+      expect(result.expiring_ingredients).toBeUndefined();
+    });
+  });
+
+  describe('streaming listener', () => {
+    const basicContext: UserContext = {
+      dietary_restrictions: [],
+      allergies: [],
+      favorite_cuisines: [],
+      preferred_cooking_methods: []
+    };
+
+    it('should report database recipes first, then each AI recipe as it is generated', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Items: [{
+            PK: 'RECIPE#db-recipe-1',
+            SK: 'METADATA',
+            recipe_id: 'db-recipe-1',
+            title: 'Fried rice',
+            cooking_method: 'xào',
+            is_approved: true,
+            is_public: true,
+            ingredients: [{ ingredient_name: 'rice', quantity: '200g' }]
+          }]
+        })
+        .mockResolvedValue({ Items: [] });
+
+      mockAIClient.generateRecipesStream.mockImplementation(async (aiRequest, onRecipe) => {
+        const recipe = { ...mockAIRecipe, recipe_id: `ai-${aiRequest.cooking_method}`, is_public: true };
+        onRecipe(recipe);
+        return { recipes: [recipe], generation_time_ms: 1000, model_used: 'claude-3-haiku' };
+      });
+
+      const events: Array<[string, string, boolean]> = [];
+      const result = await algorithm.generateMixedRecipes(
+        { ingredients: ['rice'], recipe_count: 3, user_context: basicContext },
+        { onRecipe: (recipe, source) => events.push([recipe.recipe_id, source, recipe.is_public]) }
+      );
+
+      expect(events).toEqual([
+        ['db-recipe-1', 'database', true],
+        ['ai-canh', 'ai', false],
+        ['ai-hấp', 'ai', false]
+      ]);
+      expect(mockAIClient.generateRecipes).not.toHaveBeenCalled();
+      expect(result.recipes.map(r => r.recipe_id)).toEqual(['db-recipe-1', 'ai-canh', 'ai-hấp']);
+    });
+  });
 });
@@ -1,12 +1,20 @@
 import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { Recipe, DynamoDBItem } from '../shared/types';
+import { Recipe, DynamoDBItem, ExpiringIngredient } from '../shared/types';
 import { BedrockAIClient, UserContext, AIRecipeRequest } from './bedrock-client';
+import { meetsHealthGoals } from '../shared/nutrition';
+import { AICostContext } from '../shared/ai-cost-ledger';
+import { estimateRecipeCost, roundUsd } from '../shared/ai-pricing';
+import { resolveModelId } from './llm-provider';
 
 export interface FlexibleMixRequest {
   ingredients: string[];
   recipe_count: number;
   user_context: UserContext;
+  expiring_ingredients?: ExpiringIngredient[]; // Use-it-up mode: rank by at-risk items consumed
+  exclude_recipe_ids?: string[]; // Database recipes to skip (e.g. recently cooked)
+  max_ai_recipes?: number; // Cap on AI generation (what was reserved from the user's AI budget); 0 = database only
+  cost_context?: AICostContext; // Who AI calls are recorded against in the cost ledger
 }
 
 export interface FlexibleMixResponse {
@@ -18,10 +26,21 @@ export interface FlexibleMixResponse {
     database_coverage_percentage: number;
   };
   cost_optimization: {
-    estimated_ai_cost_saved: number;
+    estimated_ai_cost_saved: number; // USD, database recipes priced at the cost of generating them
+    ai_cost_usd: number; // Actual cost of this request's AI calls
     database_recipes_used: number;
     ai_recipes_generated: number;
   };
+  expiring_ingredients?: ExpiringIngredient[];
+}
+
+export type RecipeSource = 'database' | 'ai';
+
+/**
+ * Receives recipes as soon as they are available (streaming mode)
+ */
+export interface FlexibleMixListener {
+  onRecipe(recipe: Recipe, source: RecipeSource): void;
 }
 
 export interface DatabaseRecipeQuery {
@@ -37,9 +56,11 @@ export class FlexibleMixAlgorithm {
   
   // Vietnamese cooking methods for category diversity
   private readonly COOKING_METHODS = ['xào', 'canh', 'hấp', 'chiên', 'nướng', 'luộc', 'kho'];
-  
-  // Cost estimation (approximate per recipe in USD)
-  private readonly AI_COST_PER_RECIPE = 0.02;
+
+  // Use-it-up mode: items expiring within this many days count as at risk
+  private readonly USE_IT_UP_WINDOW_DAYS = 7;
+  // Use-it-up mode: widen the database candidate pool so ranking has something to choose from
+  private readonly USE_IT_UP_CANDIDATE_MULTIPLIER = 3;
 
   constructor(tableName: string, region: string = 'us-east-1') {
     this.dynamoClient = DynamoDBDocumentClient.from(new DynamoDBClient({ region }));
@@ -49,47 +70,67 @@ export class FlexibleMixAlgorithm {
 
   /**
    * Main flexible mix algorithm - combines database and AI recipes
+   * With a listener, database recipes are reported once queried and AI recipes as each one is parsed;
+   * the returned response still carries the final ranking.
    */
-  async generateMixedRecipes(request: FlexibleMixRequest): Promise<FlexibleMixResponse> {
+  async generateMixedRecipes(request: FlexibleMixRequest, listener?: FlexibleMixListener): Promise<FlexibleMixResponse> {
     const { ingredients, recipe_count, user_context } = request;
+    const expiring = this.selectAtRiskIngredients(request.expiring_ingredients || []);
     
     console.log(`Starting flexible mix for ${recipe_count} recipes with ingredients: ${ingredients.join(', ')}`);
+    if (expiring.length > 0) {
+      console.log(`Use-it-up mode: prioritizing ${expiring.map(item => item.ingredient_name).join(', ')}`);
+    }
     
     // Step 1: Query database for approved recipes with category diversity
     const dbRecipes = await this.queryDatabaseRecipes({
       ingredients,
       recipe_count,
-      user_context
+      user_context,
+      expiring,
+      excludeIds: new Set(request.exclude_recipe_ids || [])
     });
     
     console.log(`Found ${dbRecipes.length} database recipes`);
+    dbRecipes.forEach(recipe => listener?.onRecipe(recipe, 'database'));
     
     // Step 2: Calculate gap and determine AI generation needs
-    const aiRecipesNeeded = Math.max(0, recipe_count - dbRecipes.length);
+    const aiRecipesNeeded = Math.min(
+      Math.max(0, recipe_count - dbRecipes.length),
+      request.max_ai_recipes ?? Infinity
+    );
     const missingCategories = this.identifyMissingCategories(dbRecipes, aiRecipesNeeded);
     
     console.log(`Need ${aiRecipesNeeded} AI recipes for missing categories: ${missingCategories.join(', ')}`);
     
     // Step 3: Generate AI recipes for missing categories
-    const aiRecipes = await this.generateAIRecipesForCategories({
+    const { recipes: aiRecipes, cost_usd: aiCost } = await this.generateAIRecipesForCategories({
       ingredients,
       categories: missingCategories,
-      user_context
+      user_context,
+      expiring,
+      cost_context: request.cost_context,
+      listener
     });
     
-    // Step 4: Combine and format results
-    const allRecipes = [...dbRecipes, ...aiRecipes].slice(0, recipe_count);
+    // Step 4: Combine and format results (use-it-up mode ranks across both sources)
+    const combinedRecipes = [...dbRecipes, ...aiRecipes];
+    const allRecipes = (expiring.length > 0
+      ? this.rankByExpiringIngredients(combinedRecipes, expiring)
+      : combinedRecipes
+    ).slice(0, recipe_count);
     
     // Step 5: Calculate statistics and cost optimization metrics
     const stats = this.calculateStatistics(recipe_count, dbRecipes.length, aiRecipes.length);
-    const costOptimization = this.calculateCostOptimization(dbRecipes.length, aiRecipes.length);
+    const costOptimization = this.calculateCostOptimization(dbRecipes.length, aiRecipes.length, aiCost);
     
     console.log(`Flexible mix complete: ${dbRecipes.length} DB + ${aiRecipes.length} AI = ${allRecipes.length} total`);
     
     return {
       recipes: allRecipes,
       stats,
-      cost_optimization: costOptimization
+      cost_optimization: costOptimization,
+      ...(expiring.length > 0 && { expiring_ingredients: expiring })
     };
   }
 
@@ -100,9 +141,14 @@ export class FlexibleMixAlgorithm {
     ingredients: string[];
     recipe_count: number;
     user_context: UserContext;
+    expiring: ExpiringIngredient[];
+    excludeIds: Set<string>;
   }): Promise<Recipe[]> {
-    const { ingredients, recipe_count, user_context } = params;
+    const { ingredients, recipe_count, user_context, expiring, excludeIds } = params;
     const recipes: Recipe[] = [];
+    const candidateCount = expiring.length > 0
+      ? recipe_count * this.USE_IT_UP_CANDIDATE_MULTIPLIER
+      : recipe_count;
     
     // Prioritize user's preferred cooking methods
     const preferredMethods = user_context.preferred_cooking_methods.length > 0 
@@ -111,10 +157,10 @@ export class FlexibleMixAlgorithm {
     
     // Query each cooking method for diversity
     for (const method of preferredMethods) {
-      if (recipes.length >= recipe_count) break;
+      if (recipes.length >= candidateCount) break;
       
       try {
-        const methodRecipes = await this.queryRecipesByMethod(method, ingredients, 2);
+        const methodRecipes = await this.queryRecipesByMethod(method, ingredients, 2, excludeIds);
         recipes.push(...methodRecipes);
         
         console.log(`Found ${methodRecipes.length} recipes for cooking method: ${method}`);
@@ -130,10 +176,10 @@ export class FlexibleMixAlgorithm {
     );
     
     for (const method of remainingMethods) {
-      if (recipes.length >= recipe_count) break;
+      if (recipes.length >= candidateCount) break;
       
       try {
-        const methodRecipes = await this.queryRecipesByMethod(method, ingredients, 1);
+        const methodRecipes = await this.queryRecipesByMethod(method, ingredients, 1, excludeIds);
         recipes.push(...methodRecipes);
       } catch (error) {
         console.error(`Error querying recipes for method ${method}:`, error);
@@ -144,8 +190,11 @@ export class FlexibleMixAlgorithm {
     // Remove duplicates and apply user dietary restrictions
     const uniqueRecipes = this.deduplicateRecipes(recipes);
     const filteredRecipes = this.applyDietaryFilters(uniqueRecipes, user_context);
+    const rankedRecipes = expiring.length > 0
+      ? this.rankByExpiringIngredients(filteredRecipes, expiring)
+      : filteredRecipes;
     
-    return filteredRecipes.slice(0, recipe_count);
+    return rankedRecipes.slice(0, recipe_count);
   }
 
   /**
@@ -154,18 +203,21 @@ export class FlexibleMixAlgorithm {
   private async queryRecipesByMethod(
     cookingMethod: string, 
     ingredients: string[], 
-    limit: number
+    limit: number,
+    excludeIds: Set<string> = new Set()
   ): Promise<Recipe[]> {
     try {
       const command = new QueryCommand({
         TableName: this.tableName,
         IndexName: 'GSI2',
         KeyConditionExpression: 'GSI2PK = :methodPK',
-        FilterExpression: 'is_approved = :approved AND is_public = :isPublic',
+        // Recipes hidden after reports stay out of suggestions
+        FilterExpression: 'is_approved = :approved AND is_public = :isPublic AND (attribute_not_exists(is_hidden) OR is_hidden = :hidden)',
         ExpressionAttributeValues: {
           ':methodPK': `METHOD#${cookingMethod}`,
           ':approved': true,
-          ':isPublic': true
+          ':isPublic': true,
+          ':hidden': false
         },
         Limit: limit * 2, // Query more to account for filtering
         ScanIndexForward: false // Get newest first
@@ -177,6 +229,7 @@ export class FlexibleMixAlgorithm {
       // Convert DynamoDB items to Recipe objects
       const recipes = items
         .map(item => this.convertDynamoItemToRecipe(item as DynamoDBItem))
+        .filter(recipe => !excludeIds.has(recipe.recipe_id))
         .filter(recipe => this.recipeMatchesIngredients(recipe, ingredients))
         .slice(0, limit);
       
@@ -194,29 +247,39 @@ export class FlexibleMixAlgorithm {
     ingredients: string[];
     categories: string[];
     user_context: UserContext;
-  }): Promise<Recipe[]> {
-    const { ingredients, categories, user_context } = params;
+    expiring: ExpiringIngredient[];
+    cost_context?: AICostContext;
+    listener?: FlexibleMixListener;
+  }): Promise<{ recipes: Recipe[]; cost_usd: number }> {
+    const { ingredients, categories, user_context, expiring, cost_context, listener } = params;
     const aiRecipes: Recipe[] = [];
+    let costUsd = 0;
+    
+    // A category listed more than once is asked for that many recipes in one request
+    const countsByCategory = new Map<string, number>();
+    categories.forEach(category => countsByCategory.set(category, (countsByCategory.get(category) || 0) + 1));
     
-    for (const category of categories) {
+    for (const [category, count] of countsByCategory) {
       try {
         const aiRequest: AIRecipeRequest = {
           ingredients,
           cooking_method: category,
           user_context,
-          recipe_count: 1
+          recipe_count: count,
+          ...(expiring.length > 0 && { priority_ingredients: expiring }),
+          ...(cost_context && { cost_context })
         };
         
-        const aiResponse = await this.aiClient.generateRecipes(aiRequest);
+        const aiResponse = listener
+          ? await this.aiClient.generateRecipesStream(aiRequest, recipe => {
+              listener.onRecipe(this.markForApproval(recipe), 'ai');
+            })
+          : await this.aiClient.generateRecipes(aiRequest);
         
-        // ✅ Mark AI recipes for database storage (Task 5.2 - Auto-approval workflow)
-        aiResponse.recipes.forEach(recipe => {
-          recipe.is_ai_generated = true;
-          recipe.is_approved = false;  // Pending until user rates >= 4.0
-          recipe.is_public = false;    // Not public until approved
-        });
+        aiResponse.recipes.forEach(recipe => this.markForApproval(recipe));
         
         aiRecipes.push(...aiResponse.recipes);
+        costUsd += aiResponse.cost_usd || 0;
         
         console.log(`Generated ${aiResponse.recipes.length} AI recipe(s) for category: ${category}`);
       } catch (error) {
@@ -225,7 +288,17 @@ export class FlexibleMixAlgorithm {
       }
     }
     
-    return aiRecipes;
+    return { recipes: aiRecipes, cost_usd: roundUsd(costUsd) };
+  }
+
+  /**
+   * ✅ Mark AI recipes for database storage (Task 5.2 - Auto-approval workflow)
+   */
+  private markForApproval(recipe: Recipe): Recipe {
+    recipe.is_ai_generated = true;
+    recipe.is_approved = false;  // Pending until user rates >= 4.0
+    recipe.is_public = false;    // Not public until approved
+    return recipe;
   }
 
   /**
@@ -242,8 +315,10 @@ export class FlexibleMixAlgorithm {
       method => !coveredMethods.has(method)
     );
     
-    // Return the number of missing methods we need, prioritizing variety
-    return missingMethods.slice(0, aiRecipesNeeded);
+    // Missing methods first for variety; when more recipes are needed than that (meal plans),
+    // keep cycling through every method so each one is asked for more
+    const order = [...missingMethods, ...this.COOKING_METHODS.filter(method => coveredMethods.has(method))];
+    return Array.from({ length: aiRecipesNeeded }, (_, index) => order[index % order.length]);
   }
 
   /**
@@ -251,6 +326,7 @@ export class FlexibleMixAlgorithm {
    */
   private recipeMatchesIngredients(recipe: Recipe, availableIngredients: string[]): boolean {
     if (!recipe.ingredients || recipe.ingredients.length === 0) return true; // Allow recipes with no ingredients specified
+    if (availableIngredients.length === 0) return true; // No ingredient constraint (e.g. meal planning without a pantry)
     
     // Normalize ingredient names for comparison
     const normalizedAvailable = availableIngredients.map(ing => 
@@ -264,9 +340,7 @@ export class FlexibleMixAlgorithm {
     const matchingIngredients = requiredIngredients.filter(recipeIng => {
       const normalizedRecipeIng = recipeIng.ingredient_name.toLowerCase().trim();
       return normalizedAvailable.some(availableIng => 
-        availableIng.includes(normalizedRecipeIng) || 
-        normalizedRecipeIng.includes(availableIng) ||
-        this.ingredientsAreSimilar(normalizedRecipeIng, availableIng)
+        this.ingredientMatches(normalizedRecipeIng, availableIng)
       );
     });
     
@@ -275,6 +349,60 @@ export class FlexibleMixAlgorithm {
     return matchPercentage >= 0.5; // At least 50% match (more lenient)
   }
 
+  /**
+   * Check if a recipe ingredient is covered by an available ingredient (both normalized)
+   */
+  private ingredientMatches(recipeIngredient: string, availableIngredient: string): boolean {
+    return availableIngredient.includes(recipeIngredient) ||
+      recipeIngredient.includes(availableIngredient) ||
+      this.ingredientsAreSimilar(recipeIngredient, availableIngredient);
+  }
+
+  /**
+   * Keep items expiring within the use-it-up window, soonest first
+   */
+  private selectAtRiskIngredients(expiring: ExpiringIngredient[]): ExpiringIngredient[] {
+    return expiring
+      .filter(item => item.days_until_expiry >= 0 && item.days_until_expiry <= this.USE_IT_UP_WINDOW_DAYS)
+      .sort((a, b) => a.days_until_expiry - b.days_until_expiry);
+  }
+
+  /**
+   * Urgency weight of an at-risk item: 1.0 when it expires today, falling linearly across the window
+   */
+  private calculateExpiryWeight(daysUntilExpiry: number): number {
+    const window = this.USE_IT_UP_WINDOW_DAYS + 1;
+    return (window - Math.max(daysUntilExpiry, 0)) / window;
+  }
+
+  /**
+   * Annotate each recipe with the at-risk items it uses and order by total urgency weight.
+   * Ties keep their original order, so category diversity from the query phase is preserved.
+   */
+  private rankByExpiringIngredients(recipes: Recipe[], expiring: ExpiringIngredient[]): Recipe[] {
+    const scored = recipes.map((recipe, index) => {
+      const recipeIngredients = (recipe.ingredients || [])
+        .map(ing => (ing.ingredient_name || '').toLowerCase().trim())
+        .filter(name => name.length > 0);
+      const used = expiring.filter(item => {
+        const normalizedItem = item.ingredient_name.toLowerCase().trim();
+        return recipeIngredients.some(recipeIng => this.ingredientMatches(recipeIng, normalizedItem));
+      });
+
+      recipe.expiring_ingredients_used = used.map(item => item.ingredient_name);
+
+      return {
+        recipe,
+        index,
+        score: used.reduce((sum, item) => sum + this.calculateExpiryWeight(item.days_until_expiry), 0)
+      };
+    });
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(entry => entry.recipe);
+  }
+
   /**
    * Check if two ingredients are similar (basic similarity check)
    */
@@ -343,6 +471,11 @@ export class FlexibleMixAlgorithm {
         );
         if (hasMeat) return false;
       }
+
+      // Check health goals against computed per-serving nutrition
+      if (!meetsHealthGoals(recipe.computed_nutrition, userContext.health_goals || [])) {
+        return false;
+      }
       
       return true;
     });
@@ -366,6 +499,7 @@ export class FlexibleMixAlgorithm {
       ingredients: item.ingredients || [],
       instructions: item.instructions || [],
       nutritional_info: item.nutritional_info,
+      computed_nutrition: item.computed_nutrition,
       is_public: item.is_public || false,
       is_ai_generated: item.is_ai_generated || false,
       is_approved: item.is_approved || false,
@@ -438,15 +572,21 @@ export class FlexibleMixAlgorithm {
 
   /**
    * Calculate cost optimization metrics
+   * Database recipes are priced at what this request paid per AI recipe, or at the price table's
+   * estimate for the configured model when nothing was generated.
    */
   private calculateCostOptimization(
     databaseRecipes: number, 
-    aiRecipes: number
+    aiRecipes: number,
+    aiCost: number
   ): FlexibleMixResponse['cost_optimization'] {
-    const estimatedAICostSaved = databaseRecipes * this.AI_COST_PER_RECIPE;
+    const costPerRecipe = aiRecipes > 0 && aiCost > 0
+      ? aiCost / aiRecipes
+      : estimateRecipeCost(resolveModelId());
     
     return {
-      estimated_ai_cost_saved: Math.round(estimatedAICostSaved * 100) / 100, // Round to 2 decimal places
+      estimated_ai_cost_saved: roundUsd(databaseRecipes * costPerRecipe),
+      ai_cost_usd: aiCost,
       database_recipes_used: databaseRecipes,
       ai_recipes_generated: aiRecipes
     };
@@ -36,6 +36,8 @@ jest.mock('uuid', () => ({
 
 // Import handler AFTER mocks are set up
 import { handler } from './index';
+import { AIQuotaService, AIQuotaStatus } from '../shared/ai-quota';
+import { RateLimitError } from '../shared/errors';
 
 describe('AI Suggestion Lambda Handler', () => {
   let mockSearchIngredients: jest.Mock;
@@ -125,9 +127,31 @@ describe('AI Suggestion Lambda Handler', () => {
     }
   };
 
+  const quotaStatus = (dailyRemaining: number): AIQuotaStatus => ({
+    scope: 'recipe_generation',
+    limits: { daily: 20, monthly: 300, burst: 3 },
+    used: { daily: 20 - dailyRemaining, monthly: 20 - dailyRemaining, burst: 1 },
+    remaining: { daily: dailyRemaining, monthly: 280 + dailyRemaining, burst: 2 },
+    exhausted: dailyRemaining === 0,
+    overridden: false,
+    daily_reset_at: '2026-10-20T00:00:00.000Z',
+    monthly_reset_at: '2026-11-01T00:00:00.000Z'
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
 
+    // Plenty of AI budget unless a test says otherwise
+    jest.spyOn(AIQuotaService, 'acquire').mockResolvedValue(quotaStatus(20));
+    jest.spyOn(AIQuotaService, 'reserve').mockImplementation(async (_userId, _scope, amount, status) => {
+      const reserved = Math.min(amount, status.remaining.daily);
+      return { reserved, status: { ...status, remaining: { ...status.remaining, daily: status.remaining.daily - reserved } } };
+    });
+    jest.spyOn(AIQuotaService, 'release').mockImplementation(async (_userId, _scope, amount, status) => ({
+      ...status,
+      remaining: { ...status.remaining, daily: status.remaining.daily + Math.max(0, amount) }
+    }));
+
     // Set environment variables for tests
     process.env.DYNAMODB_TABLE = 'test-smart-cooking-data';
     process.env.AWS_REGION = 'us-east-1';
@@ -544,4 +568,72 @@ describe('AI Suggestion Lambda Handler', () => {
       );
     });
   });
+
+  describe('AI quotas', () => {
+    beforeEach(() => {
+      mockSend
+        .mockResolvedValueOnce({ Item: mockUserProfile })
+        .mockResolvedValueOnce({ Item: mockUserPreferences })
+        .mockResolvedValueOnce({}); // History tracking
+    });
+
+    it('should reserve AI recipes before generating and hand back the unused ones', async () => {
+      mockGenerateMixedRecipes.mockResolvedValue(mockMixedRecipes);
+
+      const result = await handler(mockEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(AIQuotaService.reserve).toHaveBeenCalledWith('user-123', 'recipe_generation', 3, expect.anything());
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({ max_ai_recipes: 3 }));
+      // 2 of the 3 reserved recipes were generated
+      expect(AIQuotaService.release).toHaveBeenCalledWith('user-123', 'recipe_generation', 1, expect.anything());
+      expect(result.headers['X-AI-Quota-Daily-Remaining']).toBe('18');
+      expect(result.headers['X-AI-Quota-Daily-Limit']).toBe('20');
+      expect(result.headers['X-AI-Quota-Exhausted']).toBeUndefined();
+    });
+
+    it('should fall back to database recipes only once the AI budget is used up', async () => {
+      (AIQuotaService.acquire as jest.Mock).mockResolvedValue(quotaStatus(0));
+      mockGenerateMixedRecipes.mockResolvedValue({
+        ...mockMixedRecipes,
+        stats: { requested: 3, from_database: 1, from_ai: 0, database_coverage_percentage: 100 }
+      });
+
+      const result = await handler(mockEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({ max_ai_recipes: 0 }));
+      expect(result.headers['X-AI-Quota-Exhausted']).toBe('true');
+      expect(result.headers['X-AI-Quota-Daily-Remaining']).toBe('0');
+
+      const responseBody = JSON.parse(result.body);
+      expect(responseBody.suggestions).toHaveLength(1);
+      expect(responseBody.warnings[0].message).toContain('AI recipe limit reached (resets 2026-10-20T00:00:00.000Z)');
+    });
+
+    it('should hand back the whole reservation when generation fails', async () => {
+      mockGenerateMixedRecipes.mockRejectedValue(new Error('Bedrock unavailable'));
+
+      await handler(mockEvent);
+
+      expect(AIQuotaService.release).toHaveBeenCalledWith('user-123', 'recipe_generation', 3, expect.anything());
+    });
+
+    it('should return 429 with Retry-After over the burst limit', async () => {
+      (AIQuotaService.acquire as jest.Mock).mockRejectedValue(new RateLimitError(42));
+
+      const result = await handler(mockEvent);
+
+      expect(result.statusCode).toBe(429);
+      expect(result.headers['Retry-After']).toBe('42');
+      expect(mockGenerateMixedRecipes).not.toHaveBeenCalled();
+    });
+
+    it('should not count malformed requests against the burst limit', async () => {
+      await handler({ ...mockEvent, body: JSON.stringify({ ingredients: ['thịt gà'], recipe_count: 9 }) });
+
+      expect(AIQuotaService.acquire).not.toHaveBeenCalled();
+      expect(mockGenerateMixedRecipes).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,6 +1,6 @@
-import { APIGatewayEvent, APIResponse, AISuggestionRequest, AISuggestionResponse, UserProfile, UserPreferences, Recipe } from '../shared/types';
-import { FlexibleMixAlgorithm } from './flexible-mix-algorithm';
-import { BedrockAIClient } from './bedrock-client';
+import { APIGatewayEvent, APIResponse, AISuggestionRequest, AISuggestionResponse, UserProfile, UserPreferences, Recipe, PantryItem, ExpiringIngredient, ComputedNutrition, AISuggestionStreamMessage, ValidationWarning } from '../shared/types';
+import { FlexibleMixAlgorithm, FlexibleMixResponse } from './flexible-mix-algorithm';
+import { BedrockAIClient, UserContext } from './bedrock-client';
 import { DynamoDBDocumentClient, GetCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
@@ -10,11 +10,19 @@ import { tracer, captureAWS } from '../shared/tracer';
 import { ErrorHandler, withErrorHandling } from '../shared/error-handler';
 import { executeWithRecovery } from '../shared/error-recovery';
 import { IngredientExtractor } from '../shared/ingredient-extractor';
+import { getPantryItems, getDaysUntilExpiry, isPantryItemExpired } from '../shared/pantry';
+import { withParsedQuantity } from '../shared/quantity';
+import { calculateRecipeNutrition } from '../shared/nutrition';
+import { AIQuotaService, AIQuotaStatus, AIQuotaReservation } from '../shared/ai-quota';
+import { estimateRecipeCost, roundUsd } from '../shared/ai-pricing';
+import { resolveModelId } from './llm-provider';
 import { 
+  AppError,
   BadRequestError, 
   UnauthorizedError, 
   AIServiceError,
-  ValidationError 
+  ValidationError,
+  RateLimitError
 } from '../shared/errors';
 
 // Environment variables
@@ -38,6 +46,22 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
     tracer.setUser(userId);
   }
 
+  // The burst limit is checked before the error handler below, whose fallback would otherwise
+  // answer a rate-limited request with database recipes. Malformed requests skip it and fail
+  // validation there, so they do not use up the burst allowance.
+  let quota: AIQuotaStatus | undefined;
+  if (userId && event.httpMethod === 'POST' && hasValidSuggestionBody(event)) {
+    try {
+      quota = await acquireRecipeQuota(userId);
+    } catch (error) {
+      const retryAfter = (error as RateLimitError).details?.retryAfter;
+      await metrics.flush();
+      return createErrorResponse(429, 'Too many AI requests. Please wait a moment and try again.', { retryAfter }, {
+        ...(retryAfter && { 'Retry-After': retryAfter.toString() })
+      });
+    }
+  }
+
   return await ErrorHandler.executeWithErrorHandling(
     async () => {
       // Validate HTTP method
@@ -45,27 +69,9 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
         throw new BadRequestError('Method not allowed. Use POST.');
       }
 
-      // Parse and validate request body
-      const request = ErrorHandler.validateRequest(event.body, ['ingredients', 'recipe_count']);
-      
-      // Additional validation for AI suggestion specific fields
-      if (!Array.isArray(request.ingredients) || request.ingredients.length === 0) {
-        throw new ValidationError('ingredients must be a non-empty array');
-      }
-
-      if (typeof request.recipe_count !== 'number' || request.recipe_count < 1 || request.recipe_count > 5) {
-        throw new ValidationError('recipe_count must be a number between 1 and 5');
-      }
-
-      // Get user context from authorization
-      const userId = ErrorHandler.extractUserId(event);
-      const userContext = await retrieveUserContext(userId);
-      
-      // SKIP ingredient validation - let AI handle fuzzy matching and interpretation
-      // AI is smart enough to interpret "ca ro" → "cà rốt", "hanh la" → "hành lá", etc.
-      logger.info('Skipping ingredient validation, letting AI interpret', { 
-        ingredients: request.ingredients 
-      });
+      const prepared = await prepareSuggestion(event);
+      const { request, userId } = prepared;
+      const reservation = await reserveRecipeQuota(userId, quota, request.recipe_count);
 
       // Execute AI suggestion with error recovery
       const mixedRecipes = await executeWithRecovery(
@@ -75,7 +81,10 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
             () => flexibleMixAlgorithm.generateMixedRecipes({
               ingredients: request.ingredients, // Pass raw ingredients to AI
               recipe_count: request.recipe_count,
-              user_context: userContext
+              user_context: prepared.userContext,
+              expiring_ingredients: prepared.expiringIngredients,
+              max_ai_recipes: reservation?.reserved,
+              cost_context: { user_id: userId, suggestion_id: prepared.suggestionId }
             }),
             {
               ingredientCount: request.ingredients.length,
@@ -89,57 +98,13 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
           requestId: event.requestContext.requestId,
           originalRequest: request
         }
-      );
-
-      // ✅ NEW: Save AI-generated recipes to database for future reuse
-      // This enables cost optimization and database coverage growth (Task 11.2)
-      if (mixedRecipes.stats.from_ai > 0) {
-        const aiRecipes = mixedRecipes.recipes.filter(r => r.is_ai_generated);
-        try {
-          await saveAIRecipesToDatabase(aiRecipes, userId);
-          logger.info(`Saved ${aiRecipes.length} AI-generated recipes to database`, {
-            recipeIds: aiRecipes.map(r => r.recipe_id),
-            userId,
-            costSavingEnabled: true
-          });
-
-          // ✅ NEW: Extract and save ingredients to master DB
-          await extractAndSaveIngredients(aiRecipes);
-        } catch (error) {
-          // Don't fail the request if saving fails - user still gets recipes
-          logger.error('Failed to save AI recipes to database', { error, userId });
-        }
-      }
-
-      // Track suggestion history for analytics and cost optimization
-      const suggestionId = await trackSuggestionHistory({
-        userId,
-        request,
-        ingredients: request.ingredients, // Use raw ingredients
-        mixedRecipes
+      ).catch(async (error) => {
+        await releaseRecipeQuota(userId, reservation, 0);
+        throw error;
       });
 
-      // Format response
-      const response: AISuggestionResponse = {
-        suggestions: mixedRecipes.recipes,
-        stats: mixedRecipes.stats,
-        warnings: [] // No warnings since we skip validation
-      };
-
-      // Log business metrics
-      logger.logBusinessMetric('ai-suggestion-completed', mixedRecipes.recipes.length, 'count', {
-        userId,
-        fromDatabase: mixedRecipes.stats.from_database,
-        fromAi: mixedRecipes.stats.from_ai,
-        costSaved: mixedRecipes.cost_optimization?.estimated_ai_cost_saved || 0
-      });
-
-      // Track metrics
-      metrics.trackRecipeSuggestion(
-        mixedRecipes.stats.from_database,
-        mixedRecipes.stats.from_ai,
-        request.ingredients.length
-      );
+      const completed = await completeSuggestion(prepared, mixedRecipes, reservation);
+      const { response, suggestionId } = completed;
 
       // Track API request metrics
       const duration = Date.now() - startTime;
@@ -150,7 +115,9 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
       return createSuccessResponse(response, {
         'X-Suggestion-Id': suggestionId,
         'X-Cost-Saved': (mixedRecipes.cost_optimization?.estimated_ai_cost_saved || 0).toString(),
-        'X-DB-Coverage': mixedRecipes.stats.database_coverage_percentage?.toString() || '0'
+        'X-DB-Coverage': mixedRecipes.stats.database_coverage_percentage?.toString() || '0',
+        ...(completed.quota && AIQuotaService.toHeaders(completed.quota)),
+        ...(completed.quotaLimited && { 'X-AI-Quota-Exhausted': 'true' })
       });
     },
     {
@@ -171,6 +138,304 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
   });
 };
 
+/**
+ * Streaming variant of the handler
+ * Each recipe is sent as soon as it is available (database recipes first, then AI recipes
+ * per cooking method as they are parsed), followed by a `complete` message carrying the
+ * final ranking and stats. Failures are reported as an `error` message.
+ */
+export async function streamSuggestions(
+  event: APIGatewayEvent,
+  send: (message: AISuggestionStreamMessage) => void
+): Promise<void> {
+  const startTime = Date.now();
+
+  logger.initFromEvent(event);
+  logger.logFunctionStart('ai-suggestion-stream', event);
+
+  try {
+    const prepared = await prepareSuggestion(event);
+    const { request, userId } = prepared;
+    tracer.setUser(userId);
+
+    const quota = await acquireRecipeQuota(userId);
+    const reservation = await reserveRecipeQuota(userId, quota, request.recipe_count);
+
+    const mixedRecipes = await tracer.captureBusinessOperation(
+      'generate-mixed-recipes-stream',
+      () => flexibleMixAlgorithm.generateMixedRecipes(
+        {
+          ingredients: request.ingredients,
+          recipe_count: request.recipe_count,
+          user_context: prepared.userContext,
+          expiring_ingredients: prepared.expiringIngredients,
+          max_ai_recipes: reservation?.reserved,
+          cost_context: { user_id: userId, suggestion_id: prepared.suggestionId }
+        },
+        {
+          onRecipe: (recipe, source) => send({ type: 'recipe', source, recipe })
+        }
+      ),
+      {
+        ingredientCount: request.ingredients.length,
+        requestedRecipes: request.recipe_count
+      }
+    ).catch(async (error) => {
+      await releaseRecipeQuota(userId, reservation, 0);
+      throw error;
+    });
+
+    const { response, suggestionId } = await completeSuggestion(prepared, mixedRecipes, reservation);
+    send({ type: 'complete', suggestion_id: suggestionId, ...response });
+
+    const duration = Date.now() - startTime;
+    metrics.trackApiRequest(200, duration, 'ai-suggestion-stream');
+    logger.logFunctionEnd('ai-suggestion-stream', 200, duration);
+  } catch (error) {
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    logger.error('Streaming AI suggestion failed', { error });
+
+    send({
+      type: 'error',
+      status_code: statusCode,
+      error: error instanceof AppError ? error.message : 'Không thể lấy gợi ý công thức. Vui lòng thử lại.'
+    });
+
+    const duration = Date.now() - startTime;
+    metrics.trackApiRequest(statusCode, duration, 'ai-suggestion-stream');
+    logger.logFunctionEnd('ai-suggestion-stream', statusCode, duration);
+  } finally {
+    await metrics.flush();
+  }
+}
+
+interface PreparedSuggestion {
+  request: AISuggestionRequest;
+  suggestionId: string; // Known before generation so AI calls can be recorded against it
+  userId: string;
+  userContext: UserContext;
+  expiringIngredients: ExpiringIngredient[];
+}
+
+/**
+ * Parse and validate the request body
+ */
+function parseSuggestionRequest(event: APIGatewayEvent): AISuggestionRequest {
+  const request = ErrorHandler.validateRequest(event.body, ['recipe_count']);
+  const usePantry = request.use_pantry === true;
+
+  // Ingredients may be omitted when they come from the user's pantry
+  if (request.ingredients === undefined || request.ingredients === null) {
+    if (!usePantry) {
+      throw new ValidationError('Missing required field: ingredients', {
+        missingFields: ['ingredients']
+      });
+    }
+    request.ingredients = [];
+  }
+
+  // Additional validation for AI suggestion specific fields
+  if (!Array.isArray(request.ingredients) || (request.ingredients.length === 0 && !usePantry)) {
+    throw new ValidationError('ingredients must be a non-empty array');
+  }
+
+  if (typeof request.recipe_count !== 'number' || request.recipe_count < 1 || request.recipe_count > 5) {
+    throw new ValidationError('recipe_count must be a number between 1 and 5');
+  }
+
+  if (request.ingredient_expiry !== undefined && !isValidIngredientExpiry(request.ingredient_expiry)) {
+    throw new ValidationError('ingredient_expiry must map ingredient names to dates (YYYY-MM-DD)');
+  }
+
+  return request;
+}
+
+function hasValidSuggestionBody(event: APIGatewayEvent): boolean {
+  try {
+    parseSuggestionRequest(event);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Validate the request and load everything generation needs (user context, pantry, expiry data)
+ */
+async function prepareSuggestion(event: APIGatewayEvent): Promise<PreparedSuggestion> {
+  const request = parseSuggestionRequest(event);
+  const usePantry = request.use_pantry === true;
+
+  // Get user context from authorization
+  const userId = ErrorHandler.extractUserId(event);
+  const userContext = await retrieveUserContext(userId);
+
+  const pantryItems = usePantry ? await loadPantryItems(userId) : [];
+  if (usePantry) {
+    request.ingredients = mergePantryIngredients(userId, request.ingredients, pantryItems);
+    if (request.ingredients.length === 0) {
+      throw new ValidationError('No ingredients provided and the pantry has no unexpired items');
+    }
+  }
+
+  // Use-it-up mode: expiry dates come from the pantry and/or the request
+  const expiringIngredients = request.use_it_up === true
+    ? buildExpiringIngredients(request.ingredients, request.ingredient_expiry, pantryItems)
+    : [];
+
+  // SKIP ingredient validation - let AI handle fuzzy matching and interpretation
+  // AI is smart enough to interpret "ca ro" → "cà rốt", "hanh la" → "hành lá", etc.
+  logger.info('Skipping ingredient validation, letting AI interpret', { 
+    ingredients: request.ingredients 
+  });
+
+  return { request, suggestionId: uuidv4(), userId, userContext, expiringIngredients };
+}
+
+/**
+ * Count the request against the user's AI burst limit
+ * Rate limiting throws; a quota read that fails lets the request through unmetered rather than
+ * failing it
+ */
+async function acquireRecipeQuota(userId: string): Promise<AIQuotaStatus | undefined> {
+  try {
+    return await AIQuotaService.acquire(userId, 'recipe_generation');
+  } catch (error) {
+    if (error instanceof RateLimitError) {
+      throw error;
+    }
+    logger.error('Failed to read AI quota, continuing without it', { error, userId });
+    return undefined;
+  }
+}
+
+/**
+ * Reserve the request's AI recipes against the user's budget before generating
+ * A quota write that fails lets the request through unmetered, like a failed read in
+ * acquireRecipeQuota
+ */
+async function reserveRecipeQuota(
+  userId: string,
+  quota: AIQuotaStatus | undefined,
+  recipeCount: number
+): Promise<AIQuotaReservation | undefined> {
+  if (!quota) {
+    return undefined;
+  }
+
+  try {
+    return await AIQuotaService.reserve(userId, 'recipe_generation', recipeCount, quota);
+  } catch (error) {
+    logger.error('Failed to reserve AI quota, continuing without it', { error, userId });
+    return undefined;
+  }
+}
+
+/**
+ * Hand back the reserved AI recipes that were not generated
+ */
+async function releaseRecipeQuota(
+  userId: string,
+  reservation: AIQuotaReservation | undefined,
+  generated: number
+): Promise<AIQuotaStatus | undefined> {
+  if (!reservation) {
+    return undefined;
+  }
+
+  try {
+    return await AIQuotaService.release(userId, 'recipe_generation', reservation.reserved - generated, reservation.status);
+  } catch (error) {
+    logger.error('Failed to release AI quota', { error, userId, unused: reservation.reserved - generated });
+    return reservation.status;
+  }
+}
+
+/**
+ * Persist AI recipes and suggestion history, hand back the AI recipes reserved but not
+ * generated, then build the response body
+ */
+async function completeSuggestion(
+  prepared: PreparedSuggestion,
+  mixedRecipes: FlexibleMixResponse,
+  reservation?: AIQuotaReservation
+): Promise<{ response: AISuggestionResponse; suggestionId: string; quota?: AIQuotaStatus; quotaLimited: boolean }> {
+  const { request, userId } = prepared;
+
+  // The budget capped AI generation when it left the request short of recipes
+  const quotaLimited = !!reservation
+    && mixedRecipes.recipes.length < request.recipe_count
+    && reservation.reserved < request.recipe_count
+    && mixedRecipes.stats.from_ai >= reservation.reserved;
+
+  const chargedQuota = await releaseRecipeQuota(userId, reservation, mixedRecipes.stats.from_ai);
+
+  // ✅ NEW: Save AI-generated recipes to database for future reuse
+  // This enables cost optimization and database coverage growth (Task 11.2)
+  if (mixedRecipes.stats.from_ai > 0) {
+    const aiRecipes = mixedRecipes.recipes.filter(r => r.is_ai_generated);
+    try {
+      await saveAIRecipesToDatabase(aiRecipes, userId);
+      logger.info(`Saved ${aiRecipes.length} AI-generated recipes to database`, {
+        recipeIds: aiRecipes.map(r => r.recipe_id),
+        userId,
+        costSavingEnabled: true
+      });
+
+      // ✅ NEW: Extract and save ingredients to master DB
+      await extractAndSaveIngredients(aiRecipes);
+    } catch (error) {
+      // Don't fail the request if saving fails - user still gets recipes
+      logger.error('Failed to save AI recipes to database', { error, userId });
+    }
+  }
+
+  // Track suggestion history for analytics and cost optimization
+  const suggestionId = await trackSuggestionHistory({
+    suggestionId: prepared.suggestionId,
+    userId,
+    request,
+    ingredients: request.ingredients, // Use raw ingredients
+    mixedRecipes
+  });
+
+  // Format response
+  const response: AISuggestionResponse = {
+    suggestions: mixedRecipes.recipes,
+    stats: mixedRecipes.stats,
+    warnings: chargedQuota && quotaLimited ? [buildQuotaWarning(chargedQuota)] : [], // Ingredient validation is skipped
+    ...(mixedRecipes.expiring_ingredients && { expiring_ingredients: mixedRecipes.expiring_ingredients })
+  };
+
+  // Log business metrics
+  logger.logBusinessMetric('ai-suggestion-completed', mixedRecipes.recipes.length, 'count', {
+    userId,
+    fromDatabase: mixedRecipes.stats.from_database,
+    fromAi: mixedRecipes.stats.from_ai,
+    costSaved: mixedRecipes.cost_optimization?.estimated_ai_cost_saved || 0
+  });
+
+  // Track metrics
+  metrics.trackRecipeSuggestion(
+    mixedRecipes.stats.from_database,
+    mixedRecipes.stats.from_ai,
+    request.ingredients.length
+  );
+
+  return { response, suggestionId, quota: chargedQuota, quotaLimited };
+}
+
+/**
+ * Tell the user their AI budget ran out and when it comes back
+ */
+function buildQuotaWarning(quota: AIQuotaStatus): ValidationWarning {
+  const resetAt = quota.remaining.daily === 0 ? quota.daily_reset_at : quota.monthly_reset_at;
+  return {
+    message: `AI recipe limit reached (resets ${resetAt}). Showing database recipes only.`,
+    suggestions: []
+  };
+}
+
 /**
  * Parse and validate the incoming request
  */
@@ -186,8 +451,12 @@ function parseAndValidateRequest(body: string | null): AISuggestionRequest {
     throw new Error('Invalid JSON in request body');
   }
 
-  // Validate required fields
-  if (!request.ingredients || !Array.isArray(request.ingredients) || request.ingredients.length === 0) {
+  // Validate required fields (pantry requests may omit ingredients)
+  if (request.use_pantry === true && !request.ingredients) {
+    request.ingredients = [];
+  }
+
+  if (!request.ingredients || !Array.isArray(request.ingredients) || (request.ingredients.length === 0 && request.use_pantry !== true)) {
     throw new Error('ingredients array is required and must not be empty');
   }
 
@@ -217,6 +486,90 @@ function getUserIdFromEvent(event: APIGatewayEvent): string {
   return userId;
 }
 
+/**
+ * Load the user's pantry items that are still usable (in stock and not expired)
+ */
+async function loadPantryItems(userId: string): Promise<PantryItem[]> {
+  return (await getPantryItems(userId))
+    .filter(item => item.quantity > 0 && !isPantryItemExpired(item));
+}
+
+/**
+ * Merge pantry items into the requested ingredients
+ * Typed ingredients come first; duplicates are dropped case-insensitively
+ */
+function mergePantryIngredients(userId: string, ingredients: string[], pantryItems: PantryItem[]): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+
+  for (const ingredient of [...ingredients, ...pantryItems.map(item => item.ingredient_name)]) {
+    const trimmed = typeof ingredient === 'string' ? ingredient.trim() : '';
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      merged.push(trimmed);
+    }
+  }
+
+  logger.info('Merged pantry ingredients into suggestion request', {
+    userId,
+    requestedCount: ingredients.length,
+    pantryCount: pantryItems.length,
+    mergedCount: merged.length
+  });
+
+  return merged;
+}
+
+/**
+ * Validate request-supplied expiry dates: { [ingredient]: 'YYYY-MM-DD' }
+ */
+function isValidIngredientExpiry(value: any): boolean {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  return Object.values(value).every(date =>
+    typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(Date.parse(date))
+  );
+}
+
+/**
+ * Collect expiry dates for the requested ingredients, soonest first
+ * Request-supplied dates override pantry dates; the earliest pantry batch wins otherwise.
+ * Expired items are skipped - they should not be cooked.
+ */
+function buildExpiringIngredients(
+  ingredients: string[],
+  ingredientExpiry: { [ingredient: string]: string } | undefined,
+  pantryItems: PantryItem[]
+): ExpiringIngredient[] {
+  const requested = new Set(ingredients.map(ingredient => ingredient.trim().toLowerCase()));
+  const expiryByName = new Map<string, { name: string; date: string }>();
+
+  for (const item of pantryItems) {
+    const key = item.ingredient_name.trim().toLowerCase();
+    const existing = expiryByName.get(key);
+    if (item.expiry_date && (!existing || item.expiry_date < existing.date)) {
+      expiryByName.set(key, { name: item.ingredient_name, date: item.expiry_date });
+    }
+  }
+
+  for (const [name, date] of Object.entries(ingredientExpiry || {})) {
+    expiryByName.set(name.trim().toLowerCase(), { name: name.trim(), date });
+  }
+
+  const expiring: ExpiringIngredient[] = [];
+  for (const [key, { name, date }] of expiryByName) {
+    const daysUntilExpiry = getDaysUntilExpiry({ expiry_date: date });
+    if (requested.has(key) && daysUntilExpiry !== undefined && daysUntilExpiry >= 0) {
+      expiring.push({ ingredient_name: name, expiry_date: date, days_until_expiry: daysUntilExpiry });
+    }
+  }
+
+  return expiring.sort((a, b) => a.days_until_expiry - b.days_until_expiry);
+}
+
 /**
  * Retrieve user context for personalization (privacy-aware)
  */
@@ -351,12 +704,13 @@ async function validateIngredients(ingredients: string[]): Promise<{
  * Track suggestion history for analytics and cost optimization
  */
 async function trackSuggestionHistory(params: {
+  suggestionId: string;
   userId: string;
   request: AISuggestionRequest;
   ingredients: string[]; // Changed from validatedIngredients to raw ingredients
   mixedRecipes: import('./flexible-mix-algorithm').FlexibleMixResponse;
 }): Promise<string> {
-  const suggestionId = uuidv4();
+  const { suggestionId } = params;
   
   try {
     const suggestionRecord = {
@@ -408,6 +762,10 @@ async function handleAIFailureFallback(event: APIGatewayEvent): Promise<APIRespo
     const request = parseAndValidateRequest(event.body);
     const userId = getUserIdFromEvent(event);
     const userContext = await retrieveUserContext(userId);
+    const pantryItems = request.use_pantry ? await loadPantryItems(userId) : [];
+    if (request.use_pantry) {
+      request.ingredients = mergePantryIngredients(userId, request.ingredients, pantryItems);
+    }
     const validatedIngredients = await validateIngredients(request.ingredients);
 
     if (validatedIngredients.valid.length === 0) {
@@ -419,11 +777,15 @@ async function handleAIFailureFallback(event: APIGatewayEvent): Promise<APIRespo
     // Create a database-only algorithm instance
     const dbOnlyAlgorithm = new FlexibleMixAlgorithm(DYNAMODB_TABLE, AWS_REGION);
     
-    // Force database-only by setting recipe_count to a smaller number and handling AI errors
+    // Database recipes only, and fewer of them
     const fallbackRecipes = await dbOnlyAlgorithm.generateMixedRecipes({
       ingredients: validatedIngredients.valid,
       recipe_count: Math.min(request.recipe_count, 3), // Limit fallback to 3 recipes
-      user_context: userContext
+      user_context: userContext,
+      max_ai_recipes: 0,
+      expiring_ingredients: request.use_it_up && (request.ingredient_expiry === undefined || isValidIngredientExpiry(request.ingredient_expiry))
+        ? buildExpiringIngredients(validatedIngredients.valid, request.ingredient_expiry, pantryItems)
+        : []
     });
 
     const response: AISuggestionResponse = {
@@ -439,7 +801,8 @@ async function handleAIFailureFallback(event: APIGatewayEvent): Promise<APIRespo
           message: 'AI service temporarily unavailable. Showing database recipes only.',
           suggestions: []
         }
-      ]
+      ],
+      ...(fallbackRecipes.expiring_ingredients && { expiring_ingredients: fallbackRecipes.expiring_ingredients })
     };
 
     return createSuccessResponse(response, {
@@ -471,6 +834,23 @@ async function saveAIRecipesToDatabase(
     createdBy
   });
 
+  // Computed from master ingredient data; strong disagreement with the model's own numbers is logged
+  const nutritionByRecipe = new Map<string, ComputedNutrition>();
+  for (const recipe of recipes) {
+    const nutrition = await calculateRecipeNutrition(recipe);
+    if (nutrition.coverage === 0) {
+      continue;
+    }
+
+    if (nutrition.discrepancies) {
+      logger.warn('AI-reported nutrition differs from computed values', {
+        recipeId: recipe.recipe_id,
+        discrepancies: nutrition.discrepancies
+      });
+    }
+    nutritionByRecipe.set(recipe.recipe_id, nutrition);
+  }
+
   const putRequests = recipes.map(recipe => ({
     PutRequest: {
       Item: {
@@ -480,7 +860,7 @@ async function saveAIRecipesToDatabase(
         recipe_id: recipe.recipe_id,
         title: recipe.title,
         description: recipe.description || '',
-        ingredients: recipe.ingredients || [],
+        ingredients: (recipe.ingredients || []).map(withParsedQuantity), // Raw text plus structured quantity
         instructions: recipe.instructions || [],
         cooking_method: recipe.cooking_method || 'unknown',
         cuisine_type: recipe.cuisine_type || 'vietnamese',
@@ -488,6 +868,8 @@ async function saveAIRecipesToDatabase(
         prep_time_minutes: recipe.prep_time_minutes || 0,
         cook_time_minutes: recipe.cook_time_minutes || 0,
         servings: recipe.servings || 2,
+        ...(recipe.nutritional_info && { nutritional_info: recipe.nutritional_info }),
+        ...(nutritionByRecipe.has(recipe.recipe_id) && { computed_nutrition: nutritionByRecipe.get(recipe.recipe_id) }),
         
         // Approval workflow (Task 5.2)
         is_approved: false,  // Pending approval until rated >= 4.0
@@ -511,7 +893,10 @@ async function saveAIRecipesToDatabase(
         GSI1PK: `METHOD#${recipe.cooking_method || 'unknown'}`,
         GSI1SK: new Date().toISOString(),
         GSI2PK: `CUISINE#${recipe.cuisine_type || 'vietnamese'}`,
-        GSI2SK: new Date().toISOString()
+        GSI2SK: new Date().toISOString(),
+        // Recipe search catalog
+        GSI3PK: 'RECIPE_CATALOG',
+        GSI3SK: new Date().toISOString()
       }
     }
   }));
@@ -535,7 +920,7 @@ async function saveAIRecipesToDatabase(
     logger.logBusinessMetric('recipes-saved-to-database', recipes.length, 'count', {
       source: 'ai_generated',
       createdBy,
-      estimatedCostSavings: recipes.length * 0.02 // $0.02 per recipe saved
+      estimatedCostSavings: roundUsd(recipes.length * estimateRecipeCost(resolveModelId()))
     });
   } catch (error) {
     logger.error('Error saving recipes to database', { 
@@ -637,7 +1022,12 @@ async function extractAndSaveIngredients(recipes: Recipe[]): Promise<void> {
 /**
  * Create error response
  */
-function createErrorResponse(statusCode: number, message: string, details?: any): APIResponse {
+function createErrorResponse(
+  statusCode: number,
+  message: string,
+  details?: any,
+  additionalHeaders: { [key: string]: string } = {}
+): APIResponse {
   const errorBody = {
     error: message,
     ...(details && { details })
@@ -649,7 +1039,8 @@ function createErrorResponse(statusCode: number, message: string, details?: any)
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Headers': 'Content-Type,Authorization',
-      'Access-Control-Allow-Methods': 'POST,OPTIONS'
+      'Access-Control-Allow-Methods': 'POST,OPTIONS',
+      ...additionalHeaders
     },
     body: JSON.stringify(errorBody)
   };
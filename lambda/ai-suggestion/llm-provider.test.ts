@@ -0,0 +1,104 @@
+import { createLLMProvider, DEFAULT_MODEL_ID } from './llm-provider';
+import { BedrockProvider } from './bedrock-provider';
+import { FixtureProvider } from './fixture-provider';
+import { BedrockAIClient, AIRecipeRequest } from './bedrock-client';
+import { AIConversationalValidator } from './ai-conversational-validator';
+import { AICostLedger } from '../shared/ai-cost-ledger';
+
+jest.mock('../shared/dynamodb');
+jest.mock('../shared/ai-cost-ledger');
+
+describe('createLLMProvider', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_MODEL_ID;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should default to Bedrock with the default model', () => {
+    const provider = createLLMProvider({ maxTokens: 4000, temperature: 0.7 });
+
+    expect(provider).toBeInstanceOf(BedrockProvider);
+    expect(provider.modelId).toBe(DEFAULT_MODEL_ID);
+    expect(provider.maxTokens).toBe(4000);
+    expect(provider.temperature).toBe(0.7);
+  });
+
+  it('should select the provider and model from the environment', () => {
+    process.env.LLM_PROVIDER = 'fixture';
+    process.env.LLM_MODEL_ID = 'local-fixture';
+
+    const provider = createLLMProvider({ maxTokens: 1500, temperature: 0.3 });
+
+    expect(provider).toBeInstanceOf(FixtureProvider);
+    expect(provider.modelId).toBe('local-fixture');
+  });
+
+  it('should reject an unknown provider', () => {
+    process.env.LLM_PROVIDER = 'openai';
+
+    expect(() => createLLMProvider({ maxTokens: 4000, temperature: 0.7 })).toThrow('Unknown LLM_PROVIDER: openai');
+  });
+});
+
+describe('FixtureProvider', () => {
+  const provider = new FixtureProvider({ modelId: 'local-fixture', maxTokens: 4000, temperature: 0.7 });
+  const request: AIRecipeRequest = {
+    ingredients: ['thịt gà', 'cà chua'],
+    cooking_method: 'xào',
+    user_context: {
+      dietary_restrictions: [],
+      allergies: [],
+      favorite_cuisines: [],
+      preferred_cooking_methods: []
+    },
+    recipe_count: 2
+  };
+
+  it('should drive recipe generation without AWS', async () => {
+    const client = new BedrockAIClient('us-east-1', provider);
+
+    const result = await client.generateRecipes(request);
+
+    expect(result.model_used).toBe('local-fixture');
+    expect(result.recipes.map(recipe => recipe.title)).toEqual(['Món xào thịt gà và cà chua 1', 'Món xào thịt gà và cà chua 2']);
+    expect(result.recipes[0].ingredients.map(ingredient => ingredient.ingredient_name)).toEqual(['thịt gà', 'cà chua']);
+    expect(result.prompt_tokens).toBeGreaterThan(0);
+  });
+
+  it('should stream the same recipes deterministically', async () => {
+    const client = new BedrockAIClient('us-east-1', provider);
+    const streamed: string[] = [];
+
+    const result = await client.generateRecipesStream(request, recipe => streamed.push(recipe.title));
+    const blocking = await client.generateRecipes(request);
+
+    expect(streamed).toEqual(blocking.recipes.map(recipe => recipe.title));
+    expect(result.completion_tokens).toBe(blocking.completion_tokens);
+  });
+
+  it('should answer ingredient validation prompts', async () => {
+    const validator = new AIConversationalValidator('us-east-1', provider);
+
+    const result = await validator.validateIngredients({ userId: 'user-1', userInput: ['ca ro', 'hanh la'] });
+
+    expect(result.status).toBe('needs_confirmation');
+    expect(result.interpretedIngredients?.map(ingredient => ingredient.original)).toEqual(['ca ro', 'hanh la']);
+    expect(AICostLedger.record).toHaveBeenCalledWith(expect.objectContaining({
+      feature: 'ingredient_validation',
+      model_id: 'local-fixture',
+      user_id: 'user-1',
+      input_tokens: expect.any(Number)
+    }));
+  });
+
+  it('should fail loudly when no fixture matches', async () => {
+    await expect(provider.invoke('Hello')).rejects.toThrow('No LLM fixture matches the prompt');
+  });
+});
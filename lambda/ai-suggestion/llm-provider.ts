@@ -0,0 +1,74 @@
+import { BedrockProvider } from './bedrock-provider';
+import { FixtureProvider } from './fixture-provider';
+
+/**
+ * LLM provider layer
+ * Callers build prompts and parse the text answer; a provider only knows how to send a
+ * prompt to a model. The provider is chosen per environment with LLM_PROVIDER:
+ * - bedrock (default): Amazon Bedrock Messages API
+ * - fixture: canned, deterministic answers for local development and tests (no AWS)
+ */
+
+export const DEFAULT_MODEL_ID = 'anthropic.claude-3-haiku-20240307-v1:0';
+
+export type LLMProviderName = 'bedrock' | 'fixture';
+
+export interface LLMProviderConfig {
+  modelId?: string;
+  maxTokens: number;
+  temperature: number;
+  region?: string;
+}
+
+/** Config handed to a provider once the model id has been resolved */
+export type ResolvedLLMProviderConfig = LLMProviderConfig & { modelId: string };
+
+export interface LLMCompletion {
+  text: string;
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+export interface LLMProvider {
+  readonly modelId: string;
+  readonly maxTokens: number;
+  readonly temperature: number;
+
+  /**
+   * Send a single-turn prompt and wait for the whole answer
+   */
+  invoke(prompt: string): Promise<LLMCompletion>;
+
+  /**
+   * Send a single-turn prompt, passing each text delta to `onText` as it arrives.
+   * Resolves with the full answer once the model has finished.
+   */
+  stream(prompt: string, onText: (text: string) => void): Promise<LLMCompletion>;
+}
+
+/**
+ * Model used when none is passed explicitly (LLM_MODEL_ID, then the default)
+ */
+export function resolveModelId(modelId?: string): string {
+  return modelId || process.env.LLM_MODEL_ID || DEFAULT_MODEL_ID;
+}
+
+/**
+ * Create the provider configured for this environment (LLM_PROVIDER, LLM_MODEL_ID)
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'bedrock') as LLMProviderName;
+  const resolvedConfig: ResolvedLLMProviderConfig = {
+    ...config,
+    modelId: resolveModelId(config.modelId),
+  };
+
+  switch (name) {
+    case 'bedrock':
+      return new BedrockProvider(resolvedConfig);
+    case 'fixture':
+      return new FixtureProvider(resolvedConfig);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Incremental parser for streamed AI recipe responses
+ * The model answers with `{"success": true, "recipes": [{...}, {...}]}`; text arrives in
+ * small deltas, so each recipe object is returned as soon as its closing brace is seen
+ * instead of waiting for the whole document.
+ */
+export class RecipeStreamParser {
+  private text = '';
+  private position = -1; // Next character to scan inside the recipes array, -1 until it is found
+  private depth = 0;
+  private objectStart = -1;
+  private inString = false;
+  private escaped = false;
+  private finished = false;
+
+  /**
+   * Append a text delta and return the recipe objects completed by it
+   */
+  push(chunk: string): any[] {
+    this.text += chunk;
+    const recipes: any[] = [];
+
+    if (this.position < 0) {
+      const match = this.text.match(/"recipes"\s*:\s*\[/);
+      if (!match || match.index === undefined) {
+        return recipes;
+      }
+      this.position = match.index + match[0].length;
+    }
+
+    for (; !this.finished && this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{') {
+        if (this.depth === 0) {
+          this.objectStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}') {
+        this.depth--;
+        if (this.depth === 0) {
+          try {
+            recipes.push(JSON.parse(this.text.slice(this.objectStart, this.position + 1)));
+          } catch (error) {
+            console.warn('Skipping malformed streamed recipe:', error);
+          }
+        }
+      } else if (char === ']' && this.depth === 0) {
+        this.finished = true;
+      }
+    }
+
+    return recipes;
+  }
+}
@@ -0,0 +1,74 @@
+/// <reference types="aws-lambda" />
+import type { APIGatewayProxyEventV2 } from 'aws-lambda';
+import { APIGatewayEvent, AISuggestionStreamMessage } from '../shared/types';
+import { verifyIdToken } from '../shared/cognito-token';
+import { streamSuggestions } from './index';
+
+/**
+ * AI Suggestion streaming entry point
+ * Served from a Lambda Function URL in RESPONSE_STREAM mode, since API Gateway buffers
+ * responses. Function URLs have no Cognito authorizer, so the ID token is verified here
+ * and mapped onto the API Gateway event shape the suggestion flow expects.
+ *
+ * Response: newline-delimited JSON, one AISuggestionStreamMessage per line.
+ */
+export const handler = awslambda.streamifyResponse(
+  async (event: APIGatewayProxyEventV2, responseStream) => {
+    const headers = event.headers || {};
+    const body = event.body && event.isBase64Encoded
+      ? Buffer.from(event.body, 'base64').toString('utf8')
+      : event.body || null;
+
+    if (event.requestContext.http.method !== 'POST') {
+      writeErrorResponse(responseStream, 405, 'Method not allowed. Use POST.');
+      return;
+    }
+
+    let claims;
+    try {
+      claims = await verifyIdToken(headers.authorization || headers.Authorization);
+    } catch (error) {
+      writeErrorResponse(responseStream, 401, 'Authentication required. Please log in and try again.');
+      return;
+    }
+
+    const apiEvent: APIGatewayEvent = {
+      httpMethod: 'POST',
+      path: event.rawPath,
+      pathParameters: null,
+      queryStringParameters: (event.queryStringParameters as { [key: string]: string }) || null,
+      headers: headers as { [key: string]: string },
+      body,
+      requestContext: {
+        requestId: event.requestContext.requestId,
+        authorizer: { claims },
+      },
+      isBase64Encoded: false,
+      resource: event.rawPath,
+    };
+
+    const stream = awslambda.HttpResponseStream.from(responseStream, {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+      },
+    });
+
+    await streamSuggestions(apiEvent, (message: AISuggestionStreamMessage) => {
+      stream.write(`${JSON.stringify(message)}\n`);
+    });
+
+    stream.end();
+  }
+);
+
+function writeErrorResponse(responseStream: awslambda.HttpResponseStream, statusCode: number, error: string): void {
+  const stream = awslambda.HttpResponseStream.from(responseStream, {
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  stream.write(JSON.stringify({ error }));
+  stream.end();
+}
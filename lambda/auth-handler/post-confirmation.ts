@@ -19,6 +19,7 @@ export interface PostConfirmationTriggerEvent {
 export type PostConfirmationTriggerHandler = (event: PostConfirmationTriggerEvent) => Promise<PostConfirmationTriggerEvent>;
 import { DynamoDBHelper } from '../shared/dynamodb';
 import { AvatarService } from '../shared/avatar-service';
+import { UserSearchService } from '../shared/user-search';
 import { UserProfile } from '../shared/types';
 import { generateUUID, formatTimestamp, logStructured } from '../shared/utils';
 
@@ -104,6 +105,9 @@ export const postConfirmationHandler: PostConfirmationTriggerHandler = async (
       GSI1SK: 'PROFILE'
     });
 
+    // Make the new user findable in user search
+    await UserSearchService.indexUser(profileData);
+
     // Create default user preferences
     const defaultPreferences = {
       dietary_restrictions: [],
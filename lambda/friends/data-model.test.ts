@@ -9,6 +9,7 @@ import { v4 as uuidv4 } from 'uuid';
 
 // Mock DynamoDB Helper
 jest.mock('../shared/dynamodb');
+jest.mock('../shared/notifications');
 const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
 
 describe('Friendship Bidirectional Data Model', () => {
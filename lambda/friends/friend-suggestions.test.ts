@@ -0,0 +1,124 @@
+/**
+ * Unit Tests for friend suggestions ("people you may know")
+ */
+
+import { FriendSuggestionService } from './friend-suggestions';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { UserSearchService } from '../shared/user-search';
+
+jest.mock('../shared/dynamodb');
+jest.mock('../shared/user-search');
+jest.mock('../shared/utils', () => ({
+  logStructured: jest.fn()
+}));
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+const mockGetAcceptedFriendIds = UserSearchService.getAcceptedFriendIds as jest.MockedFunction<
+  typeof UserSearchService.getAcceptedFriendIds
+>;
+
+const page = (Items: any[]) => ({ Items, Count: Items.length, LastEvaluatedKey: undefined });
+
+// alice is friends with bob and carol, has a pending request with dan, blocked eve, and
+// frank's request only shows up in the GSI4 reverse lookup
+const friendRecords = [
+  { friend_id: 'user-bob', status: 'accepted' },
+  { friend_id: 'user-carol', status: 'accepted' },
+  { friend_id: 'user-dan', status: 'pending' },
+  { friend_id: 'user-eve', status: 'blocked', blocked_by: ['user-alice'] },
+];
+const reverseRecords = [{ user_id: 'user-frank', status: 'pending' }];
+
+const acceptedFriends: Record<string, string[]> = {
+  'user-alice': ['user-bob', 'user-carol'],
+  'user-bob': ['user-alice', 'user-gina', 'user-dan', 'user-frank'],
+  'user-carol': ['user-alice', 'user-gina', 'user-eve', 'user-hank'],
+};
+
+const sessions = [
+  { recipe_id: 'recipe-canh', recipe_title: 'canh chua', recipe_cuisine: 'Vietnamese' },
+  { recipe_id: 'recipe-pho', recipe_title: 'phở bò', recipe_cuisine: 'Vietnamese' },
+  { recipe_id: 'recipe-canh', recipe_title: 'canh chua', recipe_cuisine: 'Vietnamese' },
+];
+
+const recipeCooks: Record<string, string[]> = {
+  'RECIPE#recipe-canh': ['user-alice', 'user-ivy', 'user-hank'],
+  'RECIPE#recipe-pho': ['user-ivy', 'user-eve'],
+};
+
+const favoriteCuisines: Record<string, string[]> = {
+  'user-alice': ['Vietnamese', 'Thai'],
+  'user-hank': ['thai'],
+  'user-ivy': ['Vietnamese'],
+};
+
+describe('FriendSuggestionService', () => {
+  const userId = 'user-alice';
+  let privacy: Record<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // hank shares preferences publicly, everyone else keeps the defaults (friends only)
+    privacy = { 'user-hank': { profile_visibility: 'public', cooking_history_visibility: 'public', preferences_visibility: 'public' } };
+
+    mockGetAcceptedFriendIds.mockImplementation(async (id: string) => acceptedFriends[id] || []);
+    mockDynamoDBHelper.query.mockImplementation(async (params: any) => {
+      const values = params.ExpressionAttributeValues;
+      if (params.IndexName === 'GSI4') return page(reverseRecords);
+      if (params.IndexName === 'GSI2') {
+        return page((recipeCooks[values[':pk']] || []).map(id => ({ user_id: id, GSI2SK: `USER#${id}#2025-01-01` })));
+      }
+      return page(values[':sk'] === 'SESSION#' ? sessions : friendRecords);
+    });
+    mockDynamoDBHelper.get.mockImplementation(async (pk: string, sk: string) =>
+      (sk === 'PRIVACY' ? privacy[pk.replace('USER#', '')] : undefined));
+    mockDynamoDBHelper.getUserProfile.mockImplementation(async (id: string) =>
+      ({ user_id: id, username: id.replace('user-', '') } as any));
+    mockDynamoDBHelper.getUserPreferences.mockImplementation(async (id: string) =>
+      ({ favorite_cuisines: favoriteCuisines[id] || [] } as any));
+  });
+
+  it('should rank friends-of-friends and fellow cooks with a reason', async () => {
+    const suggestions = await FriendSuggestionService.getSuggestions(userId);
+
+    expect(suggestions.map(s => [s.user_id, s.reason])).toEqual([
+      ['user-gina', '2 mutual friends'],
+      ['user-hank', '1 mutual friend'],
+      ['user-ivy', 'also cooks Vietnamese canh chua'],
+    ]);
+    expect(suggestions[1]).toMatchObject({
+      username: 'hank',
+      mutual_friends_count: 1,
+      shared_recipes_count: 1,
+      shared_cuisines: ['Thai'],
+      score: 6,
+    });
+    // ivy keeps preferences friends-only, so ivy's cuisines are not used
+    expect(suggestions[2]).toMatchObject({ shared_recipes_count: 2, shared_cuisines: [] });
+  });
+
+  it('should exclude friends, pending requests in either direction and blocked users', async () => {
+    const ids = (await FriendSuggestionService.getSuggestions(userId)).map(s => s.user_id);
+
+    expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+      IndexName: 'GSI4',
+      ExpressionAttributeValues: { ':gsi4pk': 'FRIEND#user-alice' },
+    }));
+    ['user-alice', 'user-bob', 'user-carol', 'user-dan', 'user-eve', 'user-frank']
+      .forEach(id => expect(ids).not.toContain(id));
+  });
+
+  it('should respect candidates\' profile and cooking history visibility', async () => {
+    privacy['user-gina'] = { profile_visibility: 'private' };
+    privacy['user-ivy'] = { profile_visibility: 'public', cooking_history_visibility: 'friends' };
+
+    const suggestions = await FriendSuggestionService.getSuggestions(userId, 5);
+
+    expect(suggestions.map(s => s.user_id)).toEqual(['user-hank']);
+  });
+
+  it('should fall back to shared cuisines for the reason', () => {
+    expect(FriendSuggestionService.buildReason(0, [], ['Thai'])).toBe('also loves Thai food');
+    expect(FriendSuggestionService.buildReason(0, [{ recipe_id: 'r', title: 'bún chả' }], [])).toBe('also cooks bún chả');
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Friend Suggestions
+ * "People you may know": ranks users the viewer has no friendship record with by mutual
+ * friends, recipes both have cooked (cooking sessions on GSI2 RECIPE#id) and shared
+ * favorite_cuisines, with a short reason for the strongest signal.
+ *
+ * Candidates come from friends-of-friends and from other cooks of the viewer's recent
+ * recipes. Anyone with a friendship record in either direction (accepted, pending,
+ * rejected or blocked) is left out, and the candidates' own privacy settings decide
+ * whether their profile, cooking history and preferences may be used.
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { getUserPrivacySettings, hasAccess, PrivacyContext } from '../shared/privacy-middleware';
+import { UserSearchService } from '../shared/user-search';
+import { logStructured } from '../shared/utils';
+import { FriendSuggestion } from './types';
+
+const FRIEND_SAMPLE_LIMIT = 50; // Friends whose friend lists are read for mutual friends
+const SESSION_HISTORY_LIMIT = 50; // Viewer's most recent cooking sessions considered
+const RECIPE_SAMPLE_LIMIT = 20; // Distinct recipes looked up for other cooks
+const COOKS_PER_RECIPE_LIMIT = 50;
+const CANDIDATE_LIMIT = 50; // Candidates scored in full, by mutual friends and shared recipes
+
+const MUTUAL_FRIEND_WEIGHT = 3;
+const SHARED_RECIPE_WEIGHT = 2;
+const SHARED_CUISINE_WEIGHT = 1;
+
+interface CookedRecipe {
+  recipe_id: string;
+  title: string;
+  cuisine?: string;
+}
+
+interface Candidate {
+  user_id: string;
+  mutual_friends: Set<string>;
+  shared_recipes: CookedRecipe[];
+}
+
+export class FriendSuggestionService {
+  /**
+   * Ranked friend suggestions for a user
+   */
+  static async getSuggestions(userId: string, limit: number = 10): Promise<FriendSuggestion[]> {
+    const [excludedIds, friendIds, cookedRecipes, favoriteCuisines] = await Promise.all([
+      this.getConnectedUserIds(userId),
+      UserSearchService.getAcceptedFriendIds(userId),
+      this.getCookedRecipes(userId),
+      this.getFavoriteCuisines(userId),
+    ]);
+    excludedIds.add(userId);
+
+    const candidates = new Map<string, Candidate>();
+    const candidateFor = (candidateId: string): Candidate => {
+      if (!candidates.has(candidateId)) {
+        candidates.set(candidateId, { user_id: candidateId, mutual_friends: new Set(), shared_recipes: [] });
+      }
+      return candidates.get(candidateId)!;
+    };
+
+    const friendsOfFriends = await Promise.all(
+      friendIds.slice(0, FRIEND_SAMPLE_LIMIT).map(async friendId => ({
+        friendId,
+        theirFriendIds: await UserSearchService.getAcceptedFriendIds(friendId),
+      }))
+    );
+    for (const { friendId, theirFriendIds } of friendsOfFriends) {
+      theirFriendIds
+        .filter(candidateId => !excludedIds.has(candidateId))
+        .forEach(candidateId => candidateFor(candidateId).mutual_friends.add(friendId));
+    }
+
+    const cooksByRecipe = await Promise.all(
+      cookedRecipes.map(async recipe => ({ recipe, cookIds: await this.getRecipeCookIds(recipe.recipe_id) }))
+    );
+    for (const { recipe, cookIds } of cooksByRecipe) {
+      cookIds
+        .filter(candidateId => !excludedIds.has(candidateId))
+        .forEach(candidateId => candidateFor(candidateId).shared_recipes.push(recipe));
+    }
+
+    const shortlist = Array.from(candidates.values())
+      .sort((a, b) => this.baseScore(b) - this.baseScore(a) || (a.user_id < b.user_id ? -1 : 1))
+      .slice(0, CANDIDATE_LIMIT);
+
+    const suggestions = await Promise.all(
+      shortlist.map(candidate => this.buildSuggestion(userId, candidate, favoriteCuisines))
+    );
+
+    const ranked = suggestions
+      .filter((suggestion): suggestion is FriendSuggestion => suggestion !== null)
+      .sort((a, b) => b.score - a.score || (a.user_id < b.user_id ? -1 : 1))
+      .slice(0, limit);
+
+    logStructured('INFO', 'Friend suggestions generated', {
+      userId,
+      candidateCount: candidates.size,
+      suggestionCount: ranked.length
+    });
+
+    return ranked;
+  }
+
+  /**
+   * The reason shown for a suggestion, from its strongest signal
+   */
+  static buildReason(mutualFriendsCount: number, sharedRecipes: CookedRecipe[], sharedCuisines: string[]): string {
+    if (mutualFriendsCount > 0) {
+      return `${mutualFriendsCount} mutual friend${mutualFriendsCount === 1 ? '' : 's'}`;
+    }
+    if (sharedRecipes.length > 0) {
+      const [recipe] = sharedRecipes;
+      return recipe.cuisine ? `also cooks ${recipe.cuisine} ${recipe.title}` : `also cooks ${recipe.title}`;
+    }
+    return `also loves ${sharedCuisines[0]} food`;
+  }
+
+  private static baseScore(candidate: Candidate): number {
+    return MUTUAL_FRIEND_WEIGHT * candidate.mutual_friends.size + SHARED_RECIPE_WEIGHT * candidate.shared_recipes.length;
+  }
+
+  /**
+   * Score a candidate and load their profile, or null when they should not be suggested
+   */
+  private static async buildSuggestion(
+    viewerId: string,
+    candidate: Candidate,
+    favoriteCuisines: Map<string, string>
+  ): Promise<FriendSuggestion | null> {
+    const profile = await DynamoDBHelper.getUserProfile(candidate.user_id);
+    if (!profile) {
+      return null;
+    }
+
+    // Candidates have no friendship record with the viewer, so they see what strangers see
+    const context: PrivacyContext = { viewerId, targetUserId: candidate.user_id, isSelf: false, isFriend: false };
+    const privacySettings = await getUserPrivacySettings(candidate.user_id);
+    if (!hasAccess(privacySettings.profile_visibility, context)) {
+      return null;
+    }
+
+    const sharedRecipes = hasAccess(privacySettings.cooking_history_visibility, context) ? candidate.shared_recipes : [];
+    const sharedCuisines = hasAccess(privacySettings.preferences_visibility, context)
+      ? Array.from((await this.getFavoriteCuisines(candidate.user_id)).keys())
+        .filter(cuisine => favoriteCuisines.has(cuisine))
+        .map(cuisine => favoriteCuisines.get(cuisine)!)
+      : [];
+
+    const mutualFriendsCount = candidate.mutual_friends.size;
+    const score = MUTUAL_FRIEND_WEIGHT * mutualFriendsCount
+      + SHARED_RECIPE_WEIGHT * sharedRecipes.length
+      + SHARED_CUISINE_WEIGHT * sharedCuisines.length;
+    if (score === 0) {
+      return null;
+    }
+
+    return {
+      user_id: candidate.user_id,
+      username: profile.username,
+      full_name: profile.full_name,
+      avatar_url: profile.avatar_url,
+      mutual_friends_count: mutualFriendsCount,
+      shared_recipes_count: sharedRecipes.length,
+      shared_cuisines: sharedCuisines,
+      reason: this.buildReason(mutualFriendsCount, sharedRecipes, sharedCuisines),
+      score,
+    };
+  }
+
+  /**
+   * Users with a friendship record of any status with this user, read from both the
+   * user's own records and the GSI4 reverse lookup (records that point at the user)
+   */
+  private static async getConnectedUserIds(userId: string): Promise<Set<string>> {
+    const [ownRecords, reverseRecords] = await Promise.all([
+      DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'FRIEND#'
+        }
+      }),
+      DynamoDBHelper.query({
+        IndexName: 'GSI4',
+        KeyConditionExpression: 'GSI4PK = :gsi4pk',
+        ExpressionAttributeValues: {
+          ':gsi4pk': `FRIEND#${userId}`
+        }
+      })
+    ]);
+
+    return new Set<string>([
+      ...ownRecords.Items.map(item => item.friend_id),
+      ...reverseRecords.Items.map(item => item.user_id)
+    ]);
+  }
+
+  /**
+   * Distinct recipes from the user's most recent cooking sessions
+   */
+  private static async getCookedRecipes(userId: string): Promise<CookedRecipe[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'SESSION#'
+      },
+      ScanIndexForward: false,
+      Limit: SESSION_HISTORY_LIMIT
+    });
+
+    const recipes = new Map<string, CookedRecipe>();
+    for (const session of result.Items) {
+      if (session.recipe_id && !recipes.has(session.recipe_id)) {
+        recipes.set(session.recipe_id, {
+          recipe_id: session.recipe_id,
+          title: session.recipe_title || 'the same recipes',
+          cuisine: session.recipe_cuisine
+        });
+      }
+    }
+    return Array.from(recipes.values()).slice(0, RECIPE_SAMPLE_LIMIT);
+  }
+
+  /**
+   * Users with a cooking session for a recipe, most recent first
+   */
+  private static async getRecipeCookIds(recipeId: string): Promise<string[]> {
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `RECIPE#${recipeId}`,
+        ':sk': 'USER#'
+      },
+      ScanIndexForward: false,
+      Limit: COOKS_PER_RECIPE_LIMIT
+    });
+
+    return Array.from(new Set<string>(result.Items.map(item => item.user_id).filter(Boolean)));
+  }
+
+  /**
+   * Favorite cuisines keyed by lowercase name
+   */
+  private static async getFavoriteCuisines(userId: string): Promise<Map<string, string>> {
+    const preferences = await DynamoDBHelper.getUserPreferences(userId);
+    return new Map<string, string>(
+      (preferences?.favorite_cuisines || []).map((cuisine: string) => [cuisine.trim().toLowerCase(), cuisine.trim()])
+    );
+  }
+}
@@ -7,9 +7,13 @@ import { FriendshipService } from './friendship-service';
 import { DynamoDBHelper } from '../shared/dynamodb';
 import { AppError } from '../shared/responses';
 import { FriendshipStatus } from './types';
+import { createNotification } from '../shared/notifications';
+import { TimelineService } from '../shared/timeline';
 
 // Mock dependencies
 jest.mock('../shared/dynamodb');
+jest.mock('../shared/notifications');
+jest.mock('../shared/timeline');
 jest.mock('../shared/utils', () => ({
   formatTimestamp: jest.fn(() => '2025-10-06T10:00:00.000Z'),
   logStructured: jest.fn()
@@ -80,6 +84,17 @@ describe('FriendshipService - Bidirectional Data Model', () => {
           GSI4SK: expect.stringContaining(`USER#${addresseeId}#`)
         })
       );
+
+      // Verify addressee is notified
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipientId: addresseeId,
+          type: 'friend_request',
+          actorId: requesterId,
+          targetType: 'friendship',
+          targetId: result.friendship_id
+        })
+      );
     });
 
     it('should throw error when sending friend request to self', async () => {
@@ -193,6 +208,16 @@ describe('FriendshipService - Bidirectional Data Model', () => {
         }),
         expect.any(Object)
       );
+
+      // Verify requester is notified
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipientId: requesterId,
+          type: 'friend_accept',
+          actorId: addresseeId,
+          targetId: friendshipId
+        })
+      );
     });
 
     it('should throw error when friendship not found', async () => {
@@ -478,6 +503,96 @@ describe('FriendshipService - Bidirectional Data Model', () => {
     });
   });
 
+  describe('Blocking', () => {
+    const blockerId = 'user-123';
+    const blockedId = 'user-456';
+
+    beforeEach(() => {
+      (DynamoDBHelper.getUserProfile as jest.Mock).mockResolvedValue({ user_id: blockedId, username: 'john_doe' });
+      (DynamoDBHelper.put as jest.Mock).mockResolvedValue({});
+    });
+
+    it('should replace a friendship with blocked records on both sides and clean up timelines', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({
+        friendship_id: 'friendship-1',
+        status: 'accepted',
+        requested_at: '2025-10-01T09:00:00.000Z',
+        created_at: '2025-10-01T09:00:00.000Z'
+      });
+
+      const result = await FriendshipService.blockUser(blockerId, blockedId);
+
+      expect(result).toEqual({ blocked_user_id: blockedId, blocked_at: '2025-10-06T10:00:00.000Z' });
+      expect(DynamoDBHelper.put).toHaveBeenCalledTimes(2);
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${blockerId}`,
+        SK: `FRIEND#${blockedId}`,
+        friendship_id: 'friendship-1',
+        status: 'blocked',
+        blocked_by: [blockerId]
+      }));
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${blockedId}`,
+        SK: `FRIEND#${blockerId}`,
+        status: 'blocked',
+        blocked_by: [blockerId]
+      }));
+      expect(TimelineService.removeFriendship).toHaveBeenCalledWith(blockerId, blockedId);
+    });
+
+    it('should let both users block each other, but not twice', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [blockedId] });
+
+      await FriendshipService.blockUser(blockerId, blockedId);
+
+      expect(DynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({ blocked_by: [blockedId, blockerId] }));
+      expect(TimelineService.removeFriendship).not.toHaveBeenCalled();
+
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [blockerId] });
+      await expect(FriendshipService.blockUser(blockerId, blockedId))
+        .rejects.toMatchObject({ statusCode: 409, errorCode: 'already_blocked' });
+    });
+
+    it('should delete the records on unblock once nobody blocks', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [blockerId] });
+
+      await FriendshipService.unblockUser(blockerId, blockedId);
+
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${blockerId}`, `FRIEND#${blockedId}`);
+      expect(DynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${blockedId}`, `FRIEND#${blockerId}`);
+    });
+
+    it('should not let the blocked user unblock or unfriend their way out', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [blockerId] });
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [{ friendship_id: 'friendship-1', friend_id: blockerId, status: 'blocked', blocked_by: [blockerId] }]
+      });
+
+      await expect(FriendshipService.unblockUser(blockedId, blockerId))
+        .rejects.toMatchObject({ statusCode: 404, errorCode: 'block_not_found' });
+      await expect(FriendshipService.removeFriendship(blockedId, 'friendship-1'))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_status' });
+      expect(DynamoDBHelper.delete).not.toHaveBeenCalled();
+    });
+
+    it('should list only users the user blocked, and hide blocks by others from friend lists', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValue({
+        Items: [
+          { friend_id: blockedId, status: 'blocked', blocked_by: [blockerId], blocked_at: '2025-10-05T10:00:00.000Z' },
+          { friend_id: 'user-789', status: 'blocked', blocked_by: ['user-789'], blocked_at: '2025-10-04T10:00:00.000Z' }
+        ]
+      });
+
+      const blockedUsers = await FriendshipService.getBlockedUsers(blockerId);
+      const friends = await FriendshipService.getFriends(blockerId, {});
+
+      expect(blockedUsers).toEqual([
+        expect.objectContaining({ user_id: blockedId, username: 'john_doe', blocked_at: '2025-10-05T10:00:00.000Z' })
+      ]);
+      expect(friends.friends.map(friend => friend.user_id)).toEqual([blockedId]);
+    });
+  });
+
   describe('Friendship Status Tracking', () => {
     const statuses: FriendshipStatus[] = ['pending', 'accepted', 'rejected', 'blocked'];
 
@@ -7,12 +7,15 @@ import { DynamoDBHelper } from '../shared/dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import { formatTimestamp, logStructured } from '../shared/utils';
 import { AppError } from '../shared/responses';
+import { createNotification } from '../shared/notifications';
+import { TimelineService } from '../shared/timeline';
 import {
   Friendship,
   FriendRequest,
   FriendshipStatus,
   GetFriendsRequest,
-  FriendProfile
+  FriendProfile,
+  BlockedUser
 } from './types';
 
 export class FriendshipService {
@@ -106,6 +109,15 @@ export class FriendshipService {
       addresseeId: addressee_id
     });
 
+    await createNotification({
+      recipientId: addressee_id,
+      type: 'friend_request',
+      actorId: requesterId,
+      targetType: 'friendship',
+      targetId: friendshipId,
+      content: 'sent you a friend request'
+    });
+
     return friendshipData;
   }
 
@@ -165,6 +177,17 @@ export class FriendshipService {
       friendId
     });
 
+    await TimelineService.backfillFriendship(userId, friendId);
+
+    await createNotification({
+      recipientId: friendId,
+      type: 'friend_accept',
+      actorId: userId,
+      targetType: 'friendship',
+      targetId: friendshipId,
+      content: 'accepted your friend request'
+    });
+
     return {
       friendship_id: friendshipId,
       requester_id: friendId,
@@ -240,12 +263,21 @@ export class FriendshipService {
       throw new AppError(404, 'friendship_not_found', 'Friendship not found');
     }
 
+    // Otherwise the blocked user could delete the block
+    if (friendship.status === 'blocked') {
+      throw new AppError(400, 'invalid_status', 'Blocked users can only be removed by unblocking');
+    }
+
     const friendId = friendship.friend_id;
 
     // Delete both records
     await DynamoDBHelper.delete(`USER#${userId}`, `FRIEND#${friendId}`);
     await DynamoDBHelper.delete(`USER#${friendId}`, `FRIEND#${userId}`);
 
+    if (friendship.status === 'accepted') {
+      await TimelineService.removeFriendship(userId, friendId);
+    }
+
     logStructured('INFO', 'Friendship removed', {
       friendshipId,
       userId,
@@ -253,6 +285,133 @@ export class FriendshipService {
     });
   }
 
+  /**
+   * Block a user
+   * Replaces any friendship or pending request with 'blocked' records on both sides. Both
+   * users can block each other, so the records list everyone who blocked (blocked_by).
+   */
+  static async blockUser(blockerId: string, blockedId: string): Promise<{ blocked_user_id: string; blocked_at: string }> {
+    if (blockerId === blockedId) {
+      throw new AppError(400, 'invalid_request', 'Cannot block yourself');
+    }
+
+    const blockedProfile = await DynamoDBHelper.getUserProfile(blockedId);
+    if (!blockedProfile) {
+      throw new AppError(404, 'user_not_found', 'User not found');
+    }
+
+    const existing = await this.checkExistingFriendship(blockerId, blockedId);
+    const existingBlockers: string[] = existing?.status === 'blocked' ? existing.blocked_by || [] : [];
+    if (existingBlockers.includes(blockerId)) {
+      throw new AppError(409, 'already_blocked', 'You have already blocked this user');
+    }
+
+    const friendshipId = existing?.friendship_id || uuidv4();
+    const timestamp = formatTimestamp();
+    const blockedBy = [...existingBlockers, blockerId];
+
+    for (const [userId, friendId] of [[blockerId, blockedId], [blockedId, blockerId]]) {
+      await DynamoDBHelper.put({
+        PK: `USER#${userId}`,
+        SK: `FRIEND#${friendId}`,
+        EntityType: 'Friendship',
+        friendship_id: friendshipId,
+        user_id: userId,
+        friend_id: friendId,
+        status: 'blocked',
+        blocked_by: blockedBy,
+        requested_at: existing?.requested_at || timestamp,
+        created_at: existing?.created_at || timestamp,
+        updated_at: timestamp,
+        blocked_at: timestamp,
+        // GSI4 for reverse lookup: friend_id -> user_id
+        GSI4PK: `FRIEND#${friendId}`,
+        GSI4SK: `USER#${userId}#${timestamp}`
+      });
+    }
+
+    if (existing?.status === 'accepted') {
+      await TimelineService.removeFriendship(blockerId, blockedId);
+    }
+
+    logStructured('INFO', 'User blocked', {
+      friendshipId,
+      blockerId,
+      blockedId
+    });
+
+    return { blocked_user_id: blockedId, blocked_at: timestamp };
+  }
+
+  /**
+   * Unblock a user
+   * Deletes both records once nobody blocks, so the users can send friend requests again
+   */
+  static async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    const existing = await this.checkExistingFriendship(blockerId, blockedId);
+    const blockedBy: string[] = existing?.status === 'blocked' ? existing.blocked_by || [] : [];
+
+    if (!blockedBy.includes(blockerId)) {
+      throw new AppError(404, 'block_not_found', 'You have not blocked this user');
+    }
+
+    const remainingBlockers = blockedBy.filter(userId => userId !== blockerId);
+
+    if (remainingBlockers.length === 0) {
+      await DynamoDBHelper.delete(`USER#${blockerId}`, `FRIEND#${blockedId}`);
+      await DynamoDBHelper.delete(`USER#${blockedId}`, `FRIEND#${blockerId}`);
+    } else {
+      const timestamp = formatTimestamp();
+      for (const [userId, friendId] of [[blockerId, blockedId], [blockedId, blockerId]]) {
+        await DynamoDBHelper.update(
+          `USER#${userId}`,
+          `FRIEND#${friendId}`,
+          'SET blocked_by = :blockedBy, updated_at = :timestamp',
+          {
+            ':blockedBy': remainingBlockers,
+            ':timestamp': timestamp
+          }
+        );
+      }
+    }
+
+    logStructured('INFO', 'User unblocked', {
+      blockerId,
+      blockedId
+    });
+  }
+
+  /**
+   * Get users the user has blocked
+   */
+  static async getBlockedUsers(userId: string): Promise<BlockedUser[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      FilterExpression: '#status = :status',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FRIEND#',
+        ':status': 'blocked'
+      },
+      ExpressionAttributeNames: { '#status': 'status' }
+    });
+
+    return Promise.all(
+      result.Items
+        .filter((item: any) => (item.blocked_by || []).includes(userId))
+        .map(async (item: any) => {
+          const blockedProfile = await DynamoDBHelper.getUserProfile(item.friend_id);
+          return {
+            user_id: item.friend_id,
+            username: blockedProfile?.username || 'Unknown',
+            full_name: blockedProfile?.full_name,
+            avatar_url: blockedProfile?.avatar_url,
+            blocked_at: item.blocked_at
+          };
+        })
+    );
+  }
+
   /**
    * Get user's friends list with filtering
    */
@@ -287,7 +446,7 @@ export class FriendshipService {
 
     // Get friend profiles
     const friends: FriendProfile[] = await Promise.all(
-      result.Items.map(async (item: any) => {
+      result.Items.filter((item: any) => this.isVisibleTo(item, userId)).map(async (item: any) => {
         const friendProfile = await DynamoDBHelper.getUserProfile(item.friend_id);
         return {
           user_id: item.friend_id,
@@ -326,6 +485,15 @@ export class FriendshipService {
     return result.Items[0] || null;
   }
 
+  /**
+   * Helper: Whether a friendship record may be listed to a user
+   * Users are not told that someone else blocked them (records from before blocked_by
+   * was stored do not say who blocked, and stay listed)
+   */
+  private static isVisibleTo(item: any, userId: string): boolean {
+    return item.status !== 'blocked' || !item.blocked_by || item.blocked_by.includes(userId);
+  }
+
   /**
    * Helper: Check if friendship exists between two users (either direction)
    */
@@ -359,7 +527,7 @@ export class FriendshipService {
 
     // Get friend profiles
     const friends: FriendProfile[] = await Promise.all(
-      result.Items.map(async (item: any) => {
+      result.Items.filter((item: any) => this.isVisibleTo(item, userId)).map(async (item: any) => {
         const friendProfile = await DynamoDBHelper.getUserProfile(item.user_id);
         return {
           user_id: item.user_id,
@@ -23,6 +23,7 @@ import { APIGatewayEvent } from '../shared/types';
 
 // Mock DynamoDB Helper
 jest.mock('../shared/dynamodb');
+jest.mock('../shared/notifications');
 const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
 
 // Mock getUserProfile
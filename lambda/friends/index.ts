@@ -1,12 +1,14 @@
 /**
  * Friendship Management Lambda Function
- * Handles friend requests, accept/reject, remove friendship, and list friends
+ * Handles friend requests, accept/reject, remove friendship, list friends, blocking and
+ * friend suggestions
  */
 
 import { APIGatewayEvent, APIResponse } from '../shared/types';
 import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
 import { getUserIdFromEvent } from '../shared/utils';
 import { FriendshipService } from './friendship-service';
+import { FriendSuggestionService } from './friend-suggestions';
 import { logger } from '../shared/logger';
 import { metrics } from '../shared/metrics';
 import { tracer } from '../shared/tracer';
@@ -15,7 +17,8 @@ import {
   AcceptFriendRequest,
   RejectFriendRequest,
   RemoveFriendRequest,
-  GetFriendsRequest
+  GetFriendsRequest,
+  BlockUserRequest
 } from './types';
 
 export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
@@ -53,6 +56,22 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await rejectFriendRequest(userId, event.body);
     }
 
+    if (method === 'POST' && path.endsWith('/friends/block')) {
+      return await blockUser(userId, event.body);
+    }
+
+    if (method === 'DELETE' && path.match(/\/friends\/block\/[^/]+$/)) {
+      return await unblockUser(userId, event.pathParameters?.userId || '');
+    }
+
+    if (method === 'GET' && path.endsWith('/friends/blocked')) {
+      return await getBlockedUsers(userId);
+    }
+
+    if (method === 'GET' && path.endsWith('/friends/suggestions')) {
+      return await getFriendSuggestions(userId, event.queryStringParameters);
+    }
+
     if (method === 'DELETE' && path.match(/\/friends\/.+/)) {
       return await removeFriendship(userId, event.pathParameters?.id || '');
     }
@@ -157,6 +176,68 @@ async function removeFriendship(userId: string, friendshipId: string): Promise<A
   });
 }
 
+/**
+ * Block a user
+ */
+async function blockUser(userId: string, body: string | null): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: BlockUserRequest = JSON.parse(body);
+
+  if (!request.user_id) {
+    throw new AppError(400, 'missing_user_id', 'User ID is required');
+  }
+
+  const block = await FriendshipService.blockUser(userId, request.user_id);
+  return successResponse({
+    message: 'User blocked',
+    ...block
+  }, 201);
+}
+
+/**
+ * Unblock a user
+ */
+async function unblockUser(userId: string, blockedUserId: string): Promise<APIResponse> {
+  if (!blockedUserId) {
+    throw new AppError(400, 'missing_user_id', 'User ID is required');
+  }
+
+  await FriendshipService.unblockUser(userId, blockedUserId);
+  return successResponse({
+    message: 'User unblocked'
+  });
+}
+
+/**
+ * Get users the user has blocked
+ */
+async function getBlockedUsers(userId: string): Promise<APIResponse> {
+  const blockedUsers = await FriendshipService.getBlockedUsers(userId);
+  return successResponse({
+    blocked_users: blockedUsers,
+    total_count: blockedUsers.length
+  });
+}
+
+/**
+ * Get "people you may know" suggestions
+ */
+async function getFriendSuggestions(userId: string, queryParams: any): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 10;
+  if (isNaN(limit) || limit < 1 || limit > 50) {
+    throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 50');
+  }
+
+  const suggestions = await FriendSuggestionService.getSuggestions(userId, limit);
+  return successResponse({
+    suggestions,
+    total_count: suggestions.length
+  });
+}
+
 /**
  * Get user's friends list
  */
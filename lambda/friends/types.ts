@@ -48,3 +48,27 @@ export interface FriendProfile {
   requested_at: string;
   responded_at?: string;
 }
+
+export interface BlockUserRequest {
+  user_id: string;
+}
+
+export interface BlockedUser {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  blocked_at: string;
+}
+
+export interface FriendSuggestion {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  mutual_friends_count: number;
+  shared_recipes_count: number;
+  shared_cuisines: string[];
+  reason: string; // e.g. "5 mutual friends", "also cooks Vietnamese canh chua"
+  score: number;
+}
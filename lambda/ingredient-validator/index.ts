@@ -4,6 +4,8 @@ import { DynamoDBHelper } from '../shared/dynamodb';
 import { parseJSON, logStructured } from '../shared/utils';
 import { normalizeVietnamese } from './validation-utils';
 import { IngredientService } from '../shared/ingredient-service';
+import { ModerationQueueService } from '../shared/moderation-queue';
+import { autocompleteIngredients } from '../shared/ingredient-search-index';
 import { SNSClient, PublishCommand } from '@aws-sdk/client-sns';
 import { logger } from '../shared/logger';
 import { metrics } from '../shared/metrics';
@@ -30,6 +32,11 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
   try {
     return await ErrorHandler.executeWithErrorHandling(
       async () => {
+        // GET /ingredients/search - autocomplete
+        if (event.httpMethod === 'GET' && event.path.endsWith('/ingredients/search')) {
+          return await searchIngredients(event, startTime);
+        }
+
         // Validate request body
         const body = ErrorHandler.validateRequest(event.body, ['ingredients']);
         
@@ -139,6 +146,40 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
   }
 };
 
+/**
+ * Autocomplete over the master ingredient catalog
+ * Query params: q (required), category, limit (1-25, default 10)
+ */
+async function searchIngredients(event: APIGatewayEvent, startTime: number): Promise<APIResponse> {
+  const query = (event.queryStringParameters?.q || '').trim();
+  const category = event.queryStringParameters?.category || undefined;
+  const limit = Math.min(Math.max(parseInt(event.queryStringParameters?.limit || '10', 10) || 10, 1), 25);
+
+  if (!query) {
+    throw new ValidationError('q query parameter is required');
+  }
+
+  if (query.length > 50) {
+    throw new ValidationError('q query parameter cannot be longer than 50 characters');
+  }
+
+  const results = await autocompleteIngredients(query, { limit, category });
+
+  const duration = Date.now() - startTime;
+  metrics.trackApiRequest(200, duration, 'ingredient-validator');
+
+  logger.info('Ingredient search completed', {
+    query,
+    category,
+    resultCount: results.length,
+    duration
+  });
+
+  logger.logFunctionEnd('ingredient-validator', 200, duration);
+
+  return successResponse({ results });
+}
+
 interface ValidationResult {
   originalName: string;
   correctedName?: string;
@@ -303,8 +344,23 @@ async function logInvalidIngredient(originalName: string, normalizedName: string
       needsAdminReview
     });
     
-    // Send admin notification if threshold reached
+    // Queue for admin review and notify once the threshold is reached
     if (needsAdminReview) {
+      await ModerationQueueService.enqueue({
+        item_type: 'invalid_ingredient',
+        severity: 'low',
+        target_type: 'ingredient',
+        target_id: normalizedName,
+        reason: `Reported as missing from the ingredient database ${newReportCount} times`,
+        source: 'ingredient-validator',
+        details: {
+          original_name: originalName,
+          normalized_name: normalizedName,
+          report_count: newReportCount,
+        },
+        dedupe_key: `invalid_ingredient:${normalizedName}`,
+      });
+
       await sendAdminNotification(originalName, normalizedName, newReportCount);
     }
 
@@ -0,0 +1,370 @@
+/**
+ * Unit Tests for Meal Plan Lambda
+ */
+
+import { handler } from './index';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { AIQuotaService, AIQuotaStatus } from '../shared/ai-quota';
+import { RateLimitError } from '../shared/errors';
+import { APIGatewayEvent, Recipe } from '../shared/types';
+
+// Mock DynamoDB Helper
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+const mockGenerateMixedRecipes = jest.fn();
+jest.mock('../ai-suggestion/flexible-mix-algorithm', () => ({
+  FlexibleMixAlgorithm: jest.fn().mockImplementation(() => ({
+    generateMixedRecipes: (...args: any[]) => mockGenerateMixedRecipes(...args)
+  }))
+}));
+
+const mockCreateUserContext = jest.fn();
+jest.mock('../ai-suggestion/bedrock-client', () => ({
+  BedrockAIClient: {
+    createUserContext: (...args: any[]) => mockCreateUserContext(...args)
+  }
+}));
+
+jest.mock('uuid', () => ({
+  v4: () => 'plan-1'
+}));
+
+describe('Meal Plan Lambda', () => {
+  const userId = 'user-alice';
+  const planId = 'plan-1';
+
+  const createMockEvent = (
+    method: string,
+    path: string,
+    userId: string,
+    body?: any,
+    pathParams?: any,
+    queryParams?: any
+  ): APIGatewayEvent => ({
+    httpMethod: method,
+    path,
+    pathParameters: pathParams || null,
+    queryStringParameters: queryParams || null,
+    headers: {},
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: {
+        claims: {
+          sub: userId,
+          email: `${userId}@example.com`,
+          username: userId
+        }
+      }
+    },
+    multiValueHeaders: undefined,
+    multiValueQueryStringParameters: undefined,
+    stageVariables: null,
+    isBase64Encoded: false,
+    resource: path
+  });
+
+  const recipe = (id: string, overrides: Partial<Recipe> = {}): Recipe => ({
+    recipe_id: id,
+    title: `Recipe ${id}`,
+    description: '',
+    cuisine_type: 'Vietnamese',
+    cooking_method: 'xào',
+    meal_type: 'main',
+    prep_time_minutes: 10,
+    cook_time_minutes: 15,
+    servings: 2,
+    ingredients: [{ ingredient_name: 'thịt gà', quantity: '300g' }],
+    instructions: [{ step_number: 1, description: 'Nấu' }],
+    is_public: true,
+    is_ai_generated: false,
+    is_approved: true,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  const mixResult = (recipes: Recipe[]) => ({
+    recipes,
+    stats: { requested: recipes.length, from_database: recipes.length, from_ai: 0, database_coverage_percentage: 100 },
+    cost_optimization: { estimated_ai_cost_saved: 0, database_recipes_used: recipes.length, ai_recipes_generated: 0 }
+  });
+
+  const baseContext = {
+    dietary_restrictions: [],
+    allergies: [],
+    favorite_cuisines: [],
+    preferred_cooking_methods: []
+  };
+
+  const emptyQuery = { Items: [], LastEvaluatedKey: undefined, Count: 0 };
+
+  const storedPlan = (slots: any[]) => ({
+    PK: `USER#${userId}`,
+    SK: `MEAL_PLAN#2025-10-06#${planId}`,
+    entity_type: 'MEAL_PLAN',
+    plan_id: planId,
+    user_id: userId,
+    start_date: '2025-10-06',
+    end_date: '2025-10-06',
+    meal_types: ['lunch', 'dinner'],
+    slots,
+    created_at: '2025-10-01T00:00:00.000Z',
+    updated_at: '2025-10-01T00:00:00.000Z'
+  });
+
+  const quotaStatus = {
+    scope: 'recipe_generation',
+    limits: { daily: 20, monthly: 300, burst: 3 },
+    used: { daily: 0, monthly: 0, burst: 1 },
+    remaining: { daily: 20, monthly: 300, burst: 2 },
+    exhausted: false,
+    overridden: false,
+    daily_reset_at: '2025-10-07T00:00:00.000Z',
+    monthly_reset_at: '2025-11-01T00:00:00.000Z'
+  } as AIQuotaStatus;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(AIQuotaService, 'acquire').mockResolvedValue(quotaStatus);
+    jest.spyOn(AIQuotaService, 'reserve').mockImplementation(async (_userId, _scope, amount, status) => ({
+      reserved: Math.min(amount, status.remaining.daily),
+      status
+    }));
+    jest.spyOn(AIQuotaService, 'release').mockImplementation(async (_userId, _scope, _amount, status) => status);
+    mockCreateUserContext.mockReturnValue(baseContext);
+    mockDynamoDBHelper.getUserProfile.mockResolvedValue({});
+    mockDynamoDBHelper.getUserPreferences.mockResolvedValue({});
+    mockDynamoDBHelper.getUserIngredients.mockResolvedValue(emptyQuery);
+    mockDynamoDBHelper.put.mockResolvedValue({} as any);
+  });
+
+  describe('Generate Meal Plan', () => {
+    it('should generate a 7-day lunch and dinner plan by default', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue(emptyQuery); // no recent sessions
+      mockGenerateMixedRecipes.mockResolvedValue(mixResult(
+        Array.from({ length: 14 }, (_, i) => recipe(`r${i}`))
+      ));
+
+      const result = await handler(createMockEvent('POST', '/meal-plans', userId, { start_date: '2025-10-06' }));
+
+      expect(result.statusCode).toBe(201);
+      const plan = JSON.parse(result.body).data.meal_plan;
+      expect(plan.start_date).toBe('2025-10-06');
+      expect(plan.end_date).toBe('2025-10-12');
+      expect(plan.slots).toHaveLength(14);
+      expect(plan.slots[0].slot_id).toBe('2025-10-06_lunch');
+      expect(plan.slots[1].slot_id).toBe('2025-10-06_dinner');
+      expect(new Set(plan.slots.map((s: any) => s.recipe.recipe_id)).size).toBe(14);
+      expect(JSON.parse(result.body).data.warnings).toEqual([]);
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({ recipe_count: 14 }));
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${userId}`,
+        SK: `MEAL_PLAN#2025-10-06#${planId}`
+      }));
+    });
+
+    it('should honor preferences and skip recently cooked recipes', async () => {
+      mockCreateUserContext.mockReturnValue({ ...baseContext, household_size: 4, max_cooking_time_minutes: 30 });
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [{ recipe_id: 'recent-1', recipe_title: 'Canh chua cá' }],
+        LastEvaluatedKey: undefined,
+        Count: 1
+      });
+      mockGenerateMixedRecipes.mockResolvedValue(mixResult([
+        recipe('quick-1'),
+        recipe('slow-1', { cook_time_minutes: 90 }),
+        recipe('ai-dup', { title: 'Canh chua cá', is_ai_generated: true }),
+        recipe('quick-2')
+      ]));
+
+      const result = await handler(createMockEvent('POST', '/v1/meal-plans', userId, {
+        start_date: '2025-10-06',
+        days: 2,
+        meal_types: ['dinner']
+      }));
+
+      expect(result.statusCode).toBe(201);
+      const plan = JSON.parse(result.body).data.meal_plan;
+      expect(plan.slots.map((s: any) => s.recipe.recipe_id)).toEqual(['quick-1', 'quick-2']);
+      expect(plan.slots.every((s: any) => s.servings === 4)).toBe(true);
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({
+        exclude_recipe_ids: ['recent-1'],
+        user_context: expect.objectContaining({ household_size: 4 })
+      }));
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to'
+      }));
+    });
+
+    it('should warn when too few recipes were found and meals repeat', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue(emptyQuery);
+      mockGenerateMixedRecipes.mockResolvedValue(mixResult([recipe('r1'), recipe('r2'), recipe('r3')]));
+
+      const result = await handler(createMockEvent('POST', '/meal-plans', userId, {
+        start_date: '2025-10-06',
+        days: 2,
+        meal_types: ['breakfast', 'lunch', 'dinner']
+      }));
+
+      expect(result.statusCode).toBe(201);
+      const data = JSON.parse(result.body).data;
+      expect(data.meal_plan.slots.map((s: any) => s.recipe.recipe_id)).toEqual(['r1', 'r2', 'r3', 'r1', 'r2', 'r3']);
+      expect(data.warnings).toEqual(['Only 3 different recipes were found, so 3 of 6 meals repeat one']);
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.not.objectContaining({ warnings: expect.anything() }));
+    });
+
+    it('should plan around pantry items and pass expiring ones to the mix', async () => {
+      const soon = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({
+        Items: [{
+          pantry_item_id: 'p1', ingredient_name: 'cà chua', quantity: 3, unit: 'quả',
+          expiry_date: soon, created_at: '2025-10-01T00:00:00.000Z'
+        }],
+        LastEvaluatedKey: undefined,
+        Count: 1
+      });
+      mockDynamoDBHelper.query.mockResolvedValue(emptyQuery);
+      mockGenerateMixedRecipes.mockResolvedValue(mixResult([recipe('r1')]));
+
+      await handler(createMockEvent('POST', '/meal-plans', userId, {
+        days: 1,
+        meal_types: ['lunch'],
+        ingredients: ['trứng']
+      }));
+
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({
+        ingredients: ['trứng', 'cà chua'],
+        expiring_ingredients: [expect.objectContaining({ ingredient_name: 'cà chua', days_until_expiry: 2 })]
+      }));
+    });
+
+    it('should take AI recipes out of the user\'s AI budget', async () => {
+      (AIQuotaService.acquire as jest.Mock).mockResolvedValue({
+        ...quotaStatus,
+        remaining: { ...quotaStatus.remaining, daily: 3 }
+      });
+      mockDynamoDBHelper.query.mockResolvedValue(emptyQuery);
+      mockGenerateMixedRecipes.mockResolvedValue({
+        ...mixResult([recipe('r1'), recipe('ai-1', { is_ai_generated: true })]),
+        stats: { requested: 4, from_database: 1, from_ai: 1, database_coverage_percentage: 25 }
+      });
+
+      const result = await handler(createMockEvent('POST', '/meal-plans', userId, { days: 2 }));
+
+      expect(result.statusCode).toBe(201);
+      expect(AIQuotaService.reserve).toHaveBeenCalledWith(userId, 'recipe_generation', 4, expect.anything());
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({ max_ai_recipes: 3 }));
+      // 1 of the 3 reserved AI recipes was generated
+      expect(AIQuotaService.release).toHaveBeenCalledWith(userId, 'recipe_generation', 2, expect.anything());
+    });
+
+    it('should return 429 over the AI burst limit', async () => {
+      (AIQuotaService.acquire as jest.Mock).mockRejectedValue(new RateLimitError(42));
+      mockDynamoDBHelper.query.mockResolvedValue(emptyQuery);
+
+      const result = await handler(createMockEvent('POST', '/meal-plans', userId, { days: 1 }));
+
+      expect(result.statusCode).toBe(429);
+      expect(JSON.parse(result.body).details.retryAfter).toBe(42);
+      expect(mockGenerateMixedRecipes).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid plan parameters', async () => {
+      const result = await handler(createMockEvent('POST', '/meal-plans', userId, { days: 10 }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_days');
+      expect(mockGenerateMixedRecipes).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Update Slot', () => {
+    it('should swap a recipe into a slot and lock it', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [storedPlan([
+          { slot_id: '2025-10-06_lunch', date: '2025-10-06', meal_type: 'lunch', recipe: recipe('r1'), servings: 2, is_locked: false }
+        ])],
+        LastEvaluatedKey: undefined,
+        Count: 1
+      });
+      mockDynamoDBHelper.getRecipe.mockResolvedValue({
+        PK: 'RECIPE#fav', SK: 'METADATA', ...recipe('fav', { title: 'Phở bò' })
+      });
+
+      const result = await handler(createMockEvent(
+        'PUT', `/meal-plans/${planId}/slots/2025-10-06_lunch`, userId,
+        { recipe_id: 'fav' }, { planId, slotId: '2025-10-06_lunch' }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      const slot = JSON.parse(result.body).data.meal_plan.slots[0];
+      expect(slot.recipe.recipe_id).toBe('fav');
+      expect(slot.recipe.PK).toBeUndefined();
+      expect(slot.is_locked).toBe(true);
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: `MEAL_PLAN#2025-10-06#${planId}`
+      }));
+    });
+
+    it('should not allow swapping in another user\'s private recipe', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [storedPlan([
+          { slot_id: '2025-10-06_lunch', date: '2025-10-06', meal_type: 'lunch', recipe: recipe('r1'), servings: 2, is_locked: false }
+        ])],
+        LastEvaluatedKey: undefined,
+        Count: 1
+      });
+      mockDynamoDBHelper.getRecipe.mockResolvedValue({ ...recipe('secret'), is_public: false, user_id: 'user-bob' });
+
+      const result = await handler(createMockEvent(
+        'PUT', `/meal-plans/${planId}/slots/2025-10-06_lunch`, userId,
+        { recipe_id: 'secret' }, { planId, slotId: '2025-10-06_lunch' }
+      ));
+
+      expect(result.statusCode).toBe(403);
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Regenerate Meal Plan', () => {
+    it('should regenerate only unlocked slots', async () => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({ // plan lookup
+          Items: [storedPlan([
+            { slot_id: '2025-10-06_lunch', date: '2025-10-06', meal_type: 'lunch', recipe: recipe('keep'), servings: 2, is_locked: true },
+            { slot_id: '2025-10-06_dinner', date: '2025-10-06', meal_type: 'dinner', recipe: recipe('old'), servings: 2, is_locked: false }
+          ])],
+          LastEvaluatedKey: undefined,
+          Count: 1
+        })
+        .mockResolvedValue(emptyQuery); // recent sessions
+      mockGenerateMixedRecipes.mockResolvedValue(mixResult([recipe('new')]));
+
+      const result = await handler(createMockEvent(
+        'POST', `/meal-plans/${planId}/regenerate`, userId, null, { planId }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      const slots = JSON.parse(result.body).data.meal_plan.slots;
+      expect(slots[0].recipe.recipe_id).toBe('keep');
+      expect(slots[1].recipe.recipe_id).toBe('new');
+      expect(mockGenerateMixedRecipes).toHaveBeenCalledWith(expect.objectContaining({
+        recipe_count: 1,
+        exclude_recipe_ids: expect.arrayContaining(['keep', 'old'])
+      }));
+    });
+
+    it('should return 404 for an unknown plan', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue(emptyQuery);
+
+      const result = await handler(createMockEvent(
+        'POST', '/meal-plans/missing/regenerate', userId, null, { planId: 'missing' }
+      ));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('meal_plan_not_found');
+    });
+  });
+});
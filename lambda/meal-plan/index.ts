@@ -0,0 +1,213 @@
+/**
+ * Meal Plan Lambda Function
+ * Handles generating, viewing, editing (swap/lock slots), regenerating and deleting meal plans
+ */
+
+import { APIGatewayEvent, APIResponse } from '../shared/types';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
+import { getUserIdFromEvent } from '../shared/utils';
+import { MealPlanService } from './meal-plan-service';
+import { logger } from '../shared/logger';
+import { metrics } from '../shared/metrics';
+import { tracer } from '../shared/tracer';
+import { GenerateMealPlanRequest, RegenerateMealPlanRequest, UpdateMealPlanSlotRequest } from './types';
+
+export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
+  const startTime = Date.now();
+
+  // Initialize logger with request context
+  logger.initFromEvent(event);
+  logger.logFunctionStart('meal-plan', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS preflight requests for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Set X-Ray user context
+    tracer.setUser(userId);
+
+    logger.info('Meal plan request received', {
+      method,
+      path,
+      userId,
+      pathParameters: event.pathParameters
+    });
+
+    // Route requests based on HTTP method and path
+    if (method === 'GET' && (path === '/meal-plans' || path === '/v1/meal-plans')) {
+      return await listMealPlans(userId, event.queryStringParameters);
+    }
+
+    if (method === 'POST' && (path === '/meal-plans' || path === '/v1/meal-plans')) {
+      return await generateMealPlan(userId, event.body);
+    }
+
+    if (method === 'PUT' && path.match(/\/meal-plans\/[^/]+\/slots\/[^/]+$/)) {
+      const planId = event.pathParameters?.planId || '';
+      const slotId = event.pathParameters?.slotId || '';
+      return await updateSlot(userId, planId, slotId, event.body);
+    }
+
+    if (method === 'POST' && path.match(/\/meal-plans\/[^/]+\/regenerate$/)) {
+      const planId = event.pathParameters?.planId || '';
+      return await regenerateMealPlan(userId, planId, event.body);
+    }
+
+    if (method === 'GET' && path.match(/\/meal-plans\/[^/]+$/)) {
+      const planId = event.pathParameters?.planId || '';
+      return await getMealPlan(userId, planId);
+    }
+
+    if (method === 'DELETE' && path.match(/\/meal-plans\/[^/]+$/)) {
+      const planId = event.pathParameters?.planId || '';
+      return await deleteMealPlan(userId, planId);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Meal plan handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'meal-plan');
+    logger.logFunctionEnd('meal-plan', 500, duration);
+    return handleError(error);
+  } finally {
+    // Flush metrics and log function end
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('meal-plan', 200, duration);
+    await metrics.flush();
+  }
+}
+
+/**
+ * Generate a new meal plan (defaults: 7 days from today, lunch and dinner)
+ */
+async function generateMealPlan(userId: string, body: string | null): Promise<APIResponse> {
+  const request: GenerateMealPlanRequest = body ? JSON.parse(body) : {};
+
+  const { meal_plan, warnings } = await MealPlanService.generateMealPlan(userId, request);
+
+  return successResponse({
+    message: 'Meal plan generated successfully',
+    meal_plan,
+    warnings
+  }, 201);
+}
+
+/**
+ * Get a single meal plan
+ */
+async function getMealPlan(userId: string, planId: string): Promise<APIResponse> {
+  if (!planId) {
+    throw new AppError(400, 'missing_plan_id', 'Meal plan ID is required');
+  }
+
+  const mealPlan = await MealPlanService.getMealPlan(userId, planId);
+
+  return successResponse({ meal_plan: mealPlan });
+}
+
+/**
+ * Swap and/or lock a single slot
+ */
+async function updateSlot(userId: string, planId: string, slotId: string, body: string | null): Promise<APIResponse> {
+  if (!planId) {
+    throw new AppError(400, 'missing_plan_id', 'Meal plan ID is required');
+  }
+
+  if (!slotId) {
+    throw new AppError(400, 'missing_slot_id', 'Slot ID is required');
+  }
+
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdateMealPlanSlotRequest = JSON.parse(body);
+
+  const mealPlan = await MealPlanService.updateSlot(userId, planId, slotId, request);
+
+  return successResponse({
+    message: 'Meal plan slot updated successfully',
+    meal_plan: mealPlan
+  });
+}
+
+/**
+ * Regenerate all unlocked slots
+ */
+async function regenerateMealPlan(userId: string, planId: string, body: string | null): Promise<APIResponse> {
+  if (!planId) {
+    throw new AppError(400, 'missing_plan_id', 'Meal plan ID is required');
+  }
+
+  const request: RegenerateMealPlanRequest = body ? JSON.parse(body) : {};
+
+  const { meal_plan, warnings } = await MealPlanService.regenerateMealPlan(userId, planId, request);
+
+  return successResponse({
+    message: 'Meal plan regenerated successfully',
+    meal_plan,
+    warnings
+  });
+}
+
+/**
+ * Delete a meal plan
+ */
+async function deleteMealPlan(userId: string, planId: string): Promise<APIResponse> {
+  if (!planId) {
+    throw new AppError(400, 'missing_plan_id', 'Meal plan ID is required');
+  }
+
+  await MealPlanService.deleteMealPlan(userId, planId);
+
+  return successResponse({
+    message: 'Meal plan deleted successfully',
+    plan_id: planId
+  });
+}
+
+/**
+ * List meal plans with pagination
+ */
+async function listMealPlans(
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const lastKey = queryParams?.last_key
+    ? JSON.parse(Buffer.from(queryParams.last_key, 'base64').toString())
+    : undefined;
+
+  const result = await MealPlanService.listMealPlans(userId, {
+    limit: queryParams?.limit ? parseInt(queryParams.limit) : undefined,
+    last_key: lastKey
+  });
+
+  // Encode next key for pagination
+  const nextKey = result.nextKey
+    ? Buffer.from(JSON.stringify(result.nextKey)).toString('base64')
+    : undefined;
+
+  return successResponse({
+    meal_plans: result.meal_plans,
+    next_key: nextKey,
+    has_more: result.hasMore,
+    count: result.meal_plans.length,
+  });
+}
@@ -0,0 +1,562 @@
+/**
+ * Meal Plan Service
+ * Builds multi-day meal plans (days × meal slots) from the flexible mix of database and AI recipes
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { generateUUID, formatTimestamp } from '../shared/utils';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { getDaysUntilExpiry, getPantryItems, isPantryItemExpired } from '../shared/pantry';
+import { AIQuotaService, AIQuotaReservation } from '../shared/ai-quota';
+import { RateLimitError } from '../shared/errors';
+import { ExpiringIngredient, MealPlan, MealPlanSlot, MealType, Recipe } from '../shared/types';
+import { FlexibleMixAlgorithm } from '../ai-suggestion/flexible-mix-algorithm';
+import { BedrockAIClient, UserContext } from '../ai-suggestion/bedrock-client';
+import {
+  GenerateMealPlanRequest,
+  RegenerateMealPlanRequest,
+  UpdateMealPlanSlotRequest,
+  ListMealPlansResult,
+  MealPlanResult,
+} from './types';
+
+const DYNAMODB_TABLE = process.env.DYNAMODB_TABLE || 'smart-cooking-data';
+const AWS_REGION = process.env.AWS_REGION || 'us-east-1';
+
+const MAX_PLAN_DAYS = 7;
+const MEAL_TYPE_ORDER: MealType[] = ['breakfast', 'lunch', 'dinner'];
+const DEFAULT_MEAL_TYPES: MealType[] = ['lunch', 'dinner'];
+const RECENT_HISTORY_DAYS = 14;
+const MAX_EXTRA_INGREDIENTS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const flexibleMixAlgorithm = new FlexibleMixAlgorithm(DYNAMODB_TABLE, AWS_REGION);
+
+interface FillOptions {
+  ingredients?: string[];
+  use_pantry?: boolean;
+}
+
+export class MealPlanService {
+  /**
+   * Generate and save a new meal plan
+   */
+  static async generateMealPlan(userId: string, request: GenerateMealPlanRequest): Promise<MealPlanResult> {
+    const startDate = this.validateStartDate(request.start_date);
+    const days = this.validateDays(request.days);
+    const mealTypes = this.validateMealTypes(request.meal_types);
+
+    const slots: MealPlanSlot[] = [];
+    for (let day = 0; day < days; day++) {
+      const date = this.addDays(startDate, day);
+      for (const mealType of mealTypes) {
+        slots.push({
+          slot_id: `${date}_${mealType}`,
+          date,
+          meal_type: mealType,
+          recipe: null,
+          servings: 0,
+          is_locked: false,
+        });
+      }
+    }
+
+    const warnings = await this.fillOpenSlots(userId, slots, request);
+
+    const now = formatTimestamp();
+    const plan: MealPlan = {
+      plan_id: generateUUID(),
+      user_id: userId,
+      start_date: startDate,
+      end_date: this.addDays(startDate, days - 1),
+      meal_types: mealTypes,
+      slots,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `MEAL_PLAN#${plan.start_date}#${plan.plan_id}`,
+      entity_type: 'MEAL_PLAN',
+      ...plan,
+    });
+
+    logger.info('Meal plan generated', { userId, planId: plan.plan_id, startDate, days, slots: slots.length });
+
+    return { meal_plan: plan, warnings };
+  }
+
+  /**
+   * Get a meal plan owned by the user
+   */
+  static async getMealPlan(userId: string, planId: string): Promise<MealPlan> {
+    const item = await this.getMealPlanItem(userId, planId);
+    return this.convertDynamoItemToMealPlan(item);
+  }
+
+  /**
+   * List meal plans, latest start date first
+   */
+  static async listMealPlans(userId: string, request: { limit?: number; last_key?: any }): Promise<ListMealPlansResult> {
+    const limit = Math.min(Math.max(request.limit || 10, 1), 50);
+
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'MEAL_PLAN#',
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: request.last_key,
+    });
+
+    return {
+      meal_plans: result.Items.map(item => this.convertDynamoItemToMealPlan(item)),
+      nextKey: result.LastEvaluatedKey,
+      hasMore: !!result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Swap a slot's recipe and/or lock or unlock it
+   * Swapping in a recipe locks the slot unless the request explicitly sets is_locked to false
+   */
+  static async updateSlot(
+    userId: string,
+    planId: string,
+    slotId: string,
+    request: UpdateMealPlanSlotRequest
+  ): Promise<MealPlan> {
+    if (request.recipe_id === undefined && request.is_locked === undefined) {
+      throw new AppError(400, 'invalid_slot_update', 'Provide recipe_id and/or is_locked');
+    }
+
+    if (request.is_locked !== undefined && typeof request.is_locked !== 'boolean') {
+      throw new AppError(400, 'invalid_is_locked', 'is_locked must be a boolean');
+    }
+
+    const item = await this.getMealPlanItem(userId, planId);
+    const plan = this.convertDynamoItemToMealPlan(item);
+    const slot = plan.slots.find(s => s.slot_id === slotId);
+
+    if (!slot) {
+      throw new AppError(404, 'slot_not_found', 'Meal plan slot not found');
+    }
+
+    if (request.recipe_id !== undefined) {
+      const recipe = await this.getSwappableRecipe(userId, request.recipe_id);
+      slot.recipe = recipe;
+      slot.servings = slot.servings || recipe.servings;
+      slot.is_locked = request.is_locked ?? true;
+    } else {
+      slot.is_locked = request.is_locked as boolean;
+    }
+
+    plan.updated_at = formatTimestamp();
+    await DynamoDBHelper.put({ ...item, ...plan });
+
+    logger.info('Meal plan slot updated', { userId, planId, slotId, recipeId: request.recipe_id, isLocked: slot.is_locked });
+
+    return plan;
+  }
+
+  /**
+   * Regenerate every unlocked slot, keeping locked slots as they are
+   */
+  static async regenerateMealPlan(
+    userId: string,
+    planId: string,
+    request: RegenerateMealPlanRequest
+  ): Promise<MealPlanResult> {
+    const item = await this.getMealPlanItem(userId, planId);
+    const plan = this.convertDynamoItemToMealPlan(item);
+
+    const openSlots = plan.slots.filter(slot => !slot.is_locked);
+    if (openSlots.length === 0) {
+      throw new AppError(400, 'all_slots_locked', 'Unlock at least one slot to regenerate');
+    }
+
+    // Previous picks for open slots are excluded so regeneration actually changes them
+    const previousRecipeIds = openSlots
+      .map(slot => slot.recipe?.recipe_id)
+      .filter((id): id is string => !!id);
+
+    openSlots.forEach(slot => {
+      slot.recipe = null;
+    });
+
+    const warnings = await this.fillOpenSlots(userId, plan.slots, request, previousRecipeIds);
+
+    plan.updated_at = formatTimestamp();
+    await DynamoDBHelper.put({ ...item, ...plan });
+
+    logger.info('Meal plan regenerated', { userId, planId, regeneratedSlots: openSlots.length });
+
+    return { meal_plan: plan, warnings };
+  }
+
+  /**
+   * Delete a meal plan
+   */
+  static async deleteMealPlan(userId: string, planId: string): Promise<void> {
+    const item = await this.getMealPlanItem(userId, planId);
+
+    await DynamoDBHelper.delete(item.PK, item.SK);
+
+    logger.info('Meal plan deleted', { userId, planId });
+  }
+
+  /**
+   * Fill unlocked slots with recipes from the flexible mix.
+   * Honors user preferences through the AI user context (household size, time, budget, health goals,
+   * dietary restrictions), skips recently cooked recipes and recipes already locked into the plan.
+   * Returns warnings for the response, such as slots that had to repeat a recipe.
+   */
+  private static async fillOpenSlots(
+    userId: string,
+    slots: MealPlanSlot[],
+    options: FillOptions,
+    extraExcludedIds: string[] = []
+  ): Promise<string[]> {
+    const openSlots = slots.filter(slot => !slot.is_locked);
+    if (openSlots.length === 0) {
+      return [];
+    }
+
+    const extraIngredients = this.validateIngredients(options.ingredients);
+    const [userContext, pantryItems, recentlyCooked] = await Promise.all([
+      this.getUserContext(userId),
+      options.use_pantry === false ? Promise.resolve([]) : getPantryItems(userId),
+      this.getRecentlyCookedRecipes(userId),
+    ]);
+
+    const usablePantry = pantryItems.filter(item => item.quantity > 0 && !isPantryItemExpired(item));
+    const ingredients = this.mergeIngredients(extraIngredients, usablePantry.map(item => item.ingredient_name));
+    const expiring: ExpiringIngredient[] = usablePantry
+      .filter(item => item.expiry_date)
+      .map(item => ({
+        ingredient_name: item.ingredient_name,
+        expiry_date: item.expiry_date as string,
+        days_until_expiry: getDaysUntilExpiry(item) as number,
+      }));
+
+    const lockedRecipes = slots
+      .filter(slot => slot.is_locked && slot.recipe)
+      .map(slot => slot.recipe as Recipe);
+    const excludedIds = new Set([
+      ...recentlyCooked.recipeIds,
+      ...lockedRecipes.map(recipe => recipe.recipe_id),
+      ...extraExcludedIds,
+    ]);
+    const excludedTitles = new Set([
+      ...recentlyCooked.titles,
+      ...lockedRecipes.map(recipe => recipe.title.toLowerCase().trim()),
+    ]);
+
+    // AI recipes in a plan come out of the same per-user budget as suggestions
+    const reservation = await this.reserveAIRecipes(userId, openSlots.length);
+    const mix = await flexibleMixAlgorithm.generateMixedRecipes({
+      ingredients,
+      recipe_count: openSlots.length,
+      user_context: userContext,
+      expiring_ingredients: expiring,
+      exclude_recipe_ids: Array.from(excludedIds),
+      max_ai_recipes: reservation?.reserved,
+      cost_context: { feature: 'meal_plan', user_id: userId },
+    }).catch(async (error) => {
+      await this.releaseAIRecipes(userId, reservation, 0);
+      throw error;
+    });
+    await this.releaseAIRecipes(userId, reservation, mix.stats.from_ai);
+
+    const candidates = mix.recipes.filter(recipe =>
+      !excludedIds.has(recipe.recipe_id) && !excludedTitles.has(recipe.title.toLowerCase().trim())
+    );
+
+    // Database recipes are not pre-filtered by time; AI recipes were asked to respect it
+    const maxMinutes = userContext.max_cooking_time_minutes;
+    const withinTime = maxMinutes
+      ? candidates.filter(recipe => recipe.prep_time_minutes + recipe.cook_time_minutes <= maxMinutes)
+      : candidates;
+    const recipes = withinTime.length > 0 ? withinTime : candidates;
+
+    if (recipes.length === 0) {
+      throw new AppError(503, 'meal_plan_generation_failed', 'Could not find recipes for this meal plan. Please try again later.');
+    }
+
+    // Fewer recipes than slots repeat in order, so repeats land on different days
+    openSlots.forEach((slot, index) => {
+      const recipe = recipes[index % recipes.length];
+      slot.recipe = recipe;
+      slot.servings = userContext.household_size || recipe.servings;
+    });
+
+    logger.info('Meal plan slots filled', {
+      userId,
+      openSlots: openSlots.length,
+      uniqueRecipes: Math.min(recipes.length, openSlots.length),
+      fromDatabase: mix.stats.from_database,
+      fromAi: mix.stats.from_ai,
+      excludedRecent: recentlyCooked.recipeIds.length,
+    });
+
+    const repeatedSlots = openSlots.length - Math.min(recipes.length, openSlots.length);
+    return repeatedSlots > 0
+      ? [`Only ${recipes.length} different recipes were found, so ${repeatedSlots} of ${openSlots.length} meals repeat one`]
+      : [];
+  }
+
+  /**
+   * Count the plan against the user's AI burst limit and reserve AI recipes for its open slots
+   * A quota that cannot be read or written lets the plan through unmetered, as for suggestions
+   */
+  private static async reserveAIRecipes(userId: string, count: number): Promise<AIQuotaReservation | undefined> {
+    try {
+      const quota = await AIQuotaService.acquire(userId, 'recipe_generation');
+      return await AIQuotaService.reserve(userId, 'recipe_generation', count, quota);
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw new AppError(429, 'rate_limited', 'Too many AI requests. Please wait a moment and try again.', error.details);
+      }
+      logger.error('Failed to reserve AI quota, continuing without it', { error, userId });
+      return undefined;
+    }
+  }
+
+  /**
+   * Hand back the reserved AI recipes that were not generated
+   */
+  private static async releaseAIRecipes(
+    userId: string,
+    reservation: AIQuotaReservation | undefined,
+    generated: number
+  ): Promise<void> {
+    if (!reservation) {
+      return;
+    }
+
+    try {
+      await AIQuotaService.release(userId, 'recipe_generation', reservation.reserved - generated, reservation.status);
+    } catch (error) {
+      logger.error('Failed to release AI quota', { error, userId, unused: reservation.reserved - generated });
+    }
+  }
+
+  /**
+   * Recipes cooked within the recent history window (cooking sessions)
+   */
+  private static async getRecentlyCookedRecipes(userId: string): Promise<{ recipeIds: string[]; titles: string[] }> {
+    const cutoff = new Date(Date.now() - RECENT_HISTORY_DAYS * DAY_MS).toISOString();
+    const recipeIds = new Set<string>();
+    const titles = new Set<string>();
+    let lastKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':from': `SESSION#${cutoff}`,
+          ':to': 'SESSION#~',
+        },
+        ExclusiveStartKey: lastKey,
+      });
+
+      for (const session of result.Items) {
+        if (session.recipe_id) recipeIds.add(session.recipe_id);
+        if (session.recipe_title) titles.add(String(session.recipe_title).toLowerCase().trim());
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return { recipeIds: Array.from(recipeIds), titles: Array.from(titles) };
+  }
+
+  /**
+   * Privacy-aware AI context built from the user's profile and preferences
+   */
+  private static async getUserContext(userId: string): Promise<UserContext> {
+    const [profile, preferences] = await Promise.all([
+      DynamoDBHelper.getUserProfile(userId),
+      DynamoDBHelper.getUserPreferences(userId),
+    ]);
+
+    return BedrockAIClient.createUserContext(profile as any, preferences as any);
+  }
+
+  /**
+   * A recipe the user may put in their plan (public, or their own)
+   */
+  private static async getSwappableRecipe(userId: string, recipeId: string): Promise<Recipe> {
+    if (!recipeId || typeof recipeId !== 'string') {
+      throw new AppError(400, 'invalid_recipe_id', 'recipe_id must be a non-empty string');
+    }
+
+    const item = await DynamoDBHelper.getRecipe(recipeId);
+
+    if (!item) {
+      throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+    }
+
+    if (!item.is_public && (item.user_id || item.created_by) !== userId) {
+      throw new AppError(403, 'access_denied', 'You do not have permission to use this recipe');
+    }
+
+    return this.convertDynamoItemToRecipe(item);
+  }
+
+  /**
+   * Find a meal plan by ID within the user's partition
+   * The SK embeds the start date, so lookup by ID filters the user's meal plan range
+   */
+  private static async getMealPlanItem(userId: string, planId: string): Promise<any> {
+    let lastKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'plan_id = :planId',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'MEAL_PLAN#',
+          ':planId': planId,
+        },
+        ExclusiveStartKey: lastKey,
+      });
+
+      if (result.Items.length > 0) {
+        return result.Items[0];
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    throw new AppError(404, 'meal_plan_not_found', 'Meal plan not found');
+  }
+
+  private static validateStartDate(value: any): string {
+    if (value === undefined || value === null || value === '') {
+      return new Date().toISOString().slice(0, 10);
+    }
+
+    const timestamp = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? Date.parse(`${value}T00:00:00.000Z`)
+      : NaN;
+
+    if (isNaN(timestamp) || new Date(timestamp).toISOString().slice(0, 10) !== value) {
+      throw new AppError(400, 'invalid_start_date', 'start_date must be a valid date (YYYY-MM-DD)');
+    }
+
+    return value;
+  }
+
+  private static validateDays(value: any): number {
+    if (value === undefined || value === null) {
+      return MAX_PLAN_DAYS;
+    }
+
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PLAN_DAYS) {
+      throw new AppError(400, 'invalid_days', `days must be an integer between 1 and ${MAX_PLAN_DAYS}`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Deduplicate and order meal types breakfast → lunch → dinner
+   */
+  private static validateMealTypes(value: any): MealType[] {
+    if (value === undefined || value === null) {
+      return DEFAULT_MEAL_TYPES;
+    }
+
+    if (!Array.isArray(value) || value.length === 0 || value.some(type => !MEAL_TYPE_ORDER.includes(type))) {
+      throw new AppError(400, 'invalid_meal_types', `meal_types must be a non-empty list of: ${MEAL_TYPE_ORDER.join(', ')}`);
+    }
+
+    return MEAL_TYPE_ORDER.filter(type => value.includes(type));
+  }
+
+  private static validateIngredients(value: any): string[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+
+    if (!Array.isArray(value) || value.length > MAX_EXTRA_INGREDIENTS || value.some(ing => typeof ing !== 'string')) {
+      throw new AppError(400, 'invalid_ingredients', `ingredients must be a list of at most ${MAX_EXTRA_INGREDIENTS} strings`);
+    }
+
+    return value;
+  }
+
+  /**
+   * Merge ingredient lists, dropping blanks and case-insensitive duplicates
+   */
+  private static mergeIngredients(...lists: string[][]): string[] {
+    const seen = new Set<string>();
+    const merged: string[] = [];
+
+    for (const ingredient of lists.flat()) {
+      const trimmed = ingredient.trim();
+      const key = trimmed.toLowerCase();
+      if (trimmed && !seen.has(key)) {
+        seen.add(key);
+        merged.push(trimmed);
+      }
+    }
+
+    return merged;
+  }
+
+  private static addDays(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Convert DynamoDB recipe item to a Recipe snapshot for a slot
+   */
+  private static convertDynamoItemToRecipe(item: any): Recipe {
+    return {
+      recipe_id: item.recipe_id,
+      user_id: item.user_id || item.created_by,
+      title: item.title,
+      description: item.description || '',
+      cuisine_type: item.cuisine_type,
+      cooking_method: item.cooking_method,
+      meal_type: item.meal_type,
+      prep_time_minutes: item.prep_time_minutes || 0,
+      cook_time_minutes: item.cook_time_minutes || 0,
+      servings: item.servings || 2,
+      ingredients: item.ingredients || [],
+      instructions: item.instructions || [],
+      nutritional_info: item.nutritional_info,
+      is_public: item.is_public || false,
+      is_ai_generated: item.is_ai_generated || false,
+      is_approved: item.is_approved || false,
+      average_rating: item.average_rating,
+      rating_count: item.rating_count,
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+    };
+  }
+
+  /**
+   * Convert DynamoDB item to MealPlan object
+   */
+  private static convertDynamoItemToMealPlan(item: any): MealPlan {
+    return {
+      plan_id: item.plan_id,
+      user_id: item.user_id,
+      start_date: item.start_date,
+      end_date: item.end_date,
+      meal_types: item.meal_types || DEFAULT_MEAL_TYPES,
+      slots: item.slots || [],
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+    };
+  }
+}
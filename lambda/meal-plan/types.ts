@@ -0,0 +1,34 @@
+/**
+ * Meal Plan Types
+ */
+
+import { MealPlan, MealType } from '../shared/types';
+
+export interface GenerateMealPlanRequest {
+  start_date?: string; // YYYY-MM-DD, defaults to today
+  days?: number; // 1-7, defaults to 7
+  meal_types?: MealType[]; // Defaults to lunch and dinner
+  ingredients?: string[]; // Extra ingredients to plan around
+  use_pantry?: boolean; // Plan around unexpired pantry items (default true)
+}
+
+export interface RegenerateMealPlanRequest {
+  ingredients?: string[];
+  use_pantry?: boolean;
+}
+
+export interface UpdateMealPlanSlotRequest {
+  recipe_id?: string; // Swap in a specific recipe (locks the slot unless is_locked is false)
+  is_locked?: boolean;
+}
+
+export interface MealPlanResult {
+  meal_plan: MealPlan;
+  warnings: string[]; // About this generation only (e.g. repeated recipes), not stored with the plan
+}
+
+export interface ListMealPlansResult {
+  meal_plans: MealPlan[];
+  nextKey?: any;
+  hasMore: boolean;
+}
@@ -170,6 +170,40 @@ describe('Monitoring Lambda Handler', () => {
     expect(timeoutMetric.Value).toBe(50);
   });
 
+  it('should report AI cost from the ledger costs stored with each suggestion', async () => {
+    mockDynamoDBSend
+      .mockResolvedValueOnce({ Count: 10, Items: [] })
+      .mockResolvedValueOnce({ Count: 50, Items: [] })
+      .mockResolvedValueOnce({
+        Count: 1,
+        Items: [
+          {
+            stats: {
+              M: {
+                from_database: { N: '2' },
+                from_ai: { N: '1' },
+                generation_time_ms: { N: '3000' }
+              }
+            },
+            cost_optimization: {
+              M: {
+                ai_cost_usd: { N: '0.0025' },
+                estimated_ai_cost_saved: { N: '0.005' }
+              }
+            }
+          }
+        ]
+      });
+
+    mockCloudWatchSend.mockResolvedValue({});
+
+    await handler(createTestEvent(), {} as any, {} as any);
+
+    const metricsData = mockCloudWatchSend.mock.calls.flatMap(call => call[0].input.MetricData);
+    expect(metricsData.find(metric => metric.MetricName === 'EstimatedAICost').Value).toBe(0.0025);
+    expect(metricsData.find(metric => metric.MetricName === 'PotentialSavings').Value).toBe(0.005);
+  });
+
   it('should handle errors gracefully and publish error metrics', async () => {
     // Mock DynamoDB error - this will cause the DB queries to fail
     // but handler should catch errors and publish error metrics
@@ -1,6 +1,8 @@
 import { CloudWatchClient, PutMetricDataCommand, StandardUnit } from '@aws-sdk/client-cloudwatch';
 import { DynamoDBClient, ScanCommand } from '@aws-sdk/client-dynamodb';
 import { Handler, ScheduledEvent } from 'aws-lambda';
+import { estimateRecipeCost, roundUsd } from '../shared/ai-pricing';
+import { resolveModelId } from '../ai-suggestion/llm-provider';
 
 // Allow clients to be injected for testing
 let cloudwatch: CloudWatchClient;
@@ -183,12 +185,27 @@ async function calculateAICostOptimization(tableName: string, environment: strin
     let totalAiRecipes = 0;
     let totalGenerationTime = 0;
     let timeoutCount = 0;
+    let estimatedAICost = 0;
+    let potentialSavings = 0;
+
+    // Suggestions carry the ledger cost of their AI calls; older ones without it are priced from the table
+    const fallbackRecipeCost = estimateRecipeCost(resolveModelId());
 
     aiHistoryResult.Items?.forEach(item => {
       const stats = item.stats?.M;
+      const costOptimization = item.cost_optimization?.M;
       if (stats) {
-        totalDbRecipes += parseInt(stats.from_database?.N || '0');
-        totalAiRecipes += parseInt(stats.from_ai?.N || '0');
+        const dbRecipes = parseInt(stats.from_database?.N || '0');
+        const aiRecipes = parseInt(stats.from_ai?.N || '0');
+        totalDbRecipes += dbRecipes;
+        totalAiRecipes += aiRecipes;
+
+        estimatedAICost += costOptimization?.ai_cost_usd?.N
+          ? parseFloat(costOptimization.ai_cost_usd.N)
+          : aiRecipes * fallbackRecipeCost;
+        potentialSavings += costOptimization?.ai_cost_usd?.N && costOptimization.estimated_ai_cost_saved?.N
+          ? parseFloat(costOptimization.estimated_ai_cost_saved.N)
+          : dbRecipes * fallbackRecipeCost;
         
         const generationTime = parseInt(stats.generation_time_ms?.N || '0');
         totalGenerationTime += generationTime;
@@ -205,10 +222,6 @@ async function calculateAICostOptimization(tableName: string, environment: strin
     const avgGenerationTime = totalAiRecipes > 0 ? totalGenerationTime / totalAiRecipes : 0;
     const timeoutRate = aiHistoryResult.Items?.length ? (timeoutCount / aiHistoryResult.Items.length) * 100 : 0;
 
-    // Estimate cost savings (AI costs ~$0.002 per recipe, DB is negligible)
-    const estimatedAICost = totalAiRecipes * 0.002;
-    const potentialSavings = totalDbRecipes * 0.002;
-
     return [
       {
         MetricName: 'DBRecipeRatio',
@@ -244,7 +257,7 @@ async function calculateAICostOptimization(tableName: string, environment: strin
       },
       {
         MetricName: 'EstimatedAICost',
-        Value: estimatedAICost,
+        Value: roundUsd(estimatedAICost),
         Unit: StandardUnit.None,
         Dimensions: [
           { Name: 'Environment', Value: environment },
@@ -253,7 +266,7 @@ async function calculateAICostOptimization(tableName: string, environment: strin
       },
       {
         MetricName: 'PotentialSavings',
-        Value: potentialSavings,
+        Value: roundUsd(potentialSavings),
         Unit: StandardUnit.None,
         Dimensions: [
           { Name: 'Environment', Value: environment },
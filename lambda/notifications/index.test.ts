@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for Notifications Lambda
+ */
+
+import { handler } from './index';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { APIGatewayEvent } from '../shared/types';
+
+// Mock DynamoDB Helper
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+describe('Notifications Lambda', () => {
+  const userId = 'user-alice';
+  const notificationId = 'notif-1';
+
+  const createMockEvent = (
+    method: string,
+    path: string,
+    userId: string,
+    pathParams?: any,
+    queryParams?: any
+  ): APIGatewayEvent => ({
+    httpMethod: method,
+    path,
+    pathParameters: pathParams || null,
+    queryStringParameters: queryParams || null,
+    headers: {},
+    body: null,
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: {
+        claims: {
+          sub: userId,
+          email: `${userId}@example.com`,
+          username: userId
+        }
+      }
+    },
+    multiValueHeaders: undefined,
+    multiValueQueryStringParameters: undefined,
+    stageVariables: null,
+    isBase64Encoded: false,
+    resource: path
+  });
+
+  const notificationItem = {
+    PK: `USER#${userId}`,
+    SK: `NOTIFICATION#2025-10-06T10:00:00.000Z#${notificationId}`,
+    GSI1PK: `USER#${userId}#UNREAD`,
+    GSI1SK: '2025-10-06T10:00:00.000Z',
+    entity_type: 'NOTIFICATION',
+    notification_id: notificationId,
+    user_id: userId,
+    type: 'comment',
+    actor_id: 'user-bob',
+    actor_username: 'bob',
+    target_type: 'post',
+    target_id: 'post-1',
+    content: 'commented on your post',
+    is_read: false,
+    created_at: '2025-10-06T10:00:00.000Z',
+    ttl: Math.floor(Date.now() / 1000) + 3600
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('List Notifications', () => {
+    it('should list notifications newest first with unread count and cursor', async () => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({ // list
+          Items: [notificationItem],
+          LastEvaluatedKey: { PK: notificationItem.PK, SK: notificationItem.SK },
+          Count: 1
+        })
+        .mockResolvedValueOnce({ // unread index
+          Items: [notificationItem],
+          LastEvaluatedKey: undefined,
+          Count: 1
+        });
+
+      const result = await handler(createMockEvent('GET', '/notifications', userId, null, { limit: '10' }));
+
+      expect(result.statusCode).toBe(200);
+      const data = JSON.parse(result.body).data;
+      expect(data.notifications).toHaveLength(1);
+      expect(data.notifications[0].content).toBe('commented on your post');
+      expect(data.notifications[0].PK).toBeUndefined();
+      expect(data.unread_count).toBe(1);
+      expect(data.has_more).toBe(true);
+      expect(data.nextToken).toBeDefined();
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: expect.objectContaining({
+          ':pk': `USER#${userId}`,
+          ':sk': 'NOTIFICATION#'
+        }),
+        ScanIndexForward: false,
+        Limit: 10
+      }));
+    });
+
+    it('should decode nextToken into the exclusive start key', async () => {
+      const startKey = { PK: notificationItem.PK, SK: notificationItem.SK };
+      const nextToken = Buffer.from(JSON.stringify(startKey)).toString('base64');
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [], LastEvaluatedKey: undefined, Count: 0 });
+
+      const result = await handler(createMockEvent('GET', '/notifications', userId, null, { nextToken }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExclusiveStartKey: startKey
+      }));
+      expect(JSON.parse(result.body).data.has_more).toBe(false);
+    });
+  });
+
+  describe('Unread Count', () => {
+    it('should count unread notifications from the unread index', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [notificationItem, { ...notificationItem, notification_id: 'notif-2' }],
+        LastEvaluatedKey: undefined,
+        Count: 2
+      });
+
+      const result = await handler(createMockEvent('GET', '/notifications/unread-count', userId));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.unread_count).toBe(2);
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: expect.objectContaining({ ':pk': `USER#${userId}#UNREAD` })
+      }));
+    });
+  });
+
+  describe('Mark As Read', () => {
+    it('should mark a notification as read and drop it from the unread index', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [notificationItem], LastEvaluatedKey: undefined, Count: 1 });
+      mockDynamoDBHelper.update.mockResolvedValue({ ...notificationItem, is_read: true });
+
+      const result = await handler(createMockEvent(
+        'PUT', `/notifications/${notificationId}/read`, userId, { notificationId }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.notification.is_read).toBe(true);
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+        notificationItem.PK,
+        notificationItem.SK,
+        expect.stringContaining('REMOVE GSI1PK, GSI1SK'),
+        expect.objectContaining({ ':read': true })
+      );
+    });
+
+    it('should return 404 for an unknown notification', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [], LastEvaluatedKey: undefined, Count: 0 });
+
+      const result = await handler(createMockEvent(
+        'PUT', '/notifications/missing/read', userId, { notificationId: 'missing' }
+      ));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('notification_not_found');
+    });
+
+    it('should mark all unread notifications as read', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [notificationItem, { ...notificationItem, SK: 'NOTIFICATION#other' }],
+        LastEvaluatedKey: undefined,
+        Count: 2
+      });
+      mockDynamoDBHelper.update.mockResolvedValue({});
+
+      const result = await handler(createMockEvent('PUT', '/notifications/mark-all-read', userId));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.count).toBe(2);
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Delete Notification', () => {
+    it('should delete own notification', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({ Items: [notificationItem], LastEvaluatedKey: undefined, Count: 1 });
+      mockDynamoDBHelper.delete.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent(
+        'DELETE', `/notifications/${notificationId}`, userId, { notificationId }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDynamoDBHelper.delete).toHaveBeenCalledWith(notificationItem.PK, notificationItem.SK);
+    });
+  });
+});
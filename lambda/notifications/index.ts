@@ -0,0 +1,170 @@
+/**
+ * Notifications Lambda Function
+ * Handles listing notifications, unread count, mark as read and delete
+ */
+
+import { APIGatewayEvent, APIResponse } from '../shared/types';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
+import { getUserIdFromEvent } from '../shared/utils';
+import { NotificationService } from './notification-service';
+import { logger } from '../shared/logger';
+import { metrics } from '../shared/metrics';
+import { tracer } from '../shared/tracer';
+
+export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
+  const startTime = Date.now();
+
+  // Initialize logger with request context
+  logger.initFromEvent(event);
+  logger.logFunctionStart('notifications', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS preflight requests for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+          'Access-Control-Allow-Methods': 'GET,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Set X-Ray user context
+    tracer.setUser(userId);
+
+    logger.info('Notifications request received', {
+      method,
+      path,
+      userId,
+      pathParameters: event.pathParameters
+    });
+
+    // Route requests based on HTTP method and path
+    if (method === 'GET' && path.match(/\/notifications\/?$/)) {
+      return await listNotifications(userId, event.queryStringParameters);
+    }
+
+    if (method === 'GET' && path.endsWith('/notifications/unread-count')) {
+      return await getUnreadCount(userId);
+    }
+
+    if (method === 'PUT' && path.endsWith('/notifications/mark-all-read')) {
+      return await markAllAsRead(userId);
+    }
+
+    if (method === 'PUT' && path.match(/\/notifications\/[^/]+\/read$/)) {
+      const notificationId = event.pathParameters?.notificationId || '';
+      return await markAsRead(userId, notificationId);
+    }
+
+    if (method === 'DELETE' && path.match(/\/notifications\/[^/]+$/)) {
+      const notificationId = event.pathParameters?.notificationId || '';
+      return await deleteNotification(userId, notificationId);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Notifications handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'notifications');
+    logger.logFunctionEnd('notifications', 500, duration);
+    return handleError(error);
+  } finally {
+    // Flush metrics and log function end
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('notifications', 200, duration);
+    await metrics.flush();
+  }
+}
+
+/**
+ * List notifications with cursor pagination
+ * Accepts `nextToken` (used by the frontend) or `last_key` as the cursor
+ */
+async function listNotifications(
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 20;
+  const cursor = queryParams?.nextToken || queryParams?.last_key;
+  const lastKey = cursor
+    ? JSON.parse(Buffer.from(cursor, 'base64').toString())
+    : undefined;
+
+  const [result, unreadCount] = await Promise.all([
+    NotificationService.listNotifications(userId, { limit, last_key: lastKey }),
+    NotificationService.getUnreadCount(userId)
+  ]);
+
+  // Encode next key for pagination
+  const nextKey = result.nextKey
+    ? Buffer.from(JSON.stringify(result.nextKey)).toString('base64')
+    : undefined;
+
+  return successResponse({
+    notifications: result.notifications,
+    unread_count: unreadCount,
+    total_count: result.notifications.length,
+    has_more: result.hasMore,
+    nextToken: nextKey
+  });
+}
+
+/**
+ * Get unread notification count
+ */
+async function getUnreadCount(userId: string): Promise<APIResponse> {
+  const unreadCount = await NotificationService.getUnreadCount(userId);
+  return successResponse({
+    unread_count: unreadCount
+  });
+}
+
+/**
+ * Mark a notification as read
+ */
+async function markAsRead(userId: string, notificationId: string): Promise<APIResponse> {
+  if (!notificationId) {
+    throw new AppError(400, 'missing_notification_id', 'Notification ID is required');
+  }
+
+  const notification = await NotificationService.markAsRead(userId, notificationId);
+  return successResponse({
+    message: 'Notification marked as read',
+    notification
+  });
+}
+
+/**
+ * Mark all notifications as read
+ */
+async function markAllAsRead(userId: string): Promise<APIResponse> {
+  const count = await NotificationService.markAllAsRead(userId);
+  return successResponse({
+    message: 'All notifications marked as read',
+    count
+  });
+}
+
+/**
+ * Delete a notification
+ */
+async function deleteNotification(userId: string, notificationId: string): Promise<APIResponse> {
+  if (!notificationId) {
+    throw new AppError(400, 'missing_notification_id', 'Notification ID is required');
+  }
+
+  await NotificationService.deleteNotification(userId, notificationId);
+  return successResponse({
+    message: 'Notification deleted'
+  });
+}
@@ -0,0 +1,188 @@
+/**
+ * Notification Service
+ * Reads and updates a user's notifications (written by shared/notifications)
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { formatTimestamp } from '../shared/utils';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { NOTIFICATION_TTL_DAYS } from '../shared/notifications';
+import { Notification } from '../shared/types';
+import { ListNotificationsRequest, ListNotificationsResult } from './types';
+
+export class NotificationService {
+  /**
+   * List notifications, newest first
+   * Expired items are filtered out because DynamoDB TTL deletion can lag by up to 48 hours
+   */
+  static async listNotifications(userId: string, request: ListNotificationsRequest): Promise<ListNotificationsResult> {
+    const limit = Math.min(Math.max(request.limit || 20, 1), 100);
+
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      FilterExpression: 'attribute_not_exists(#ttl) OR #ttl > :now',
+      ExpressionAttributeNames: {
+        '#ttl': 'ttl',
+      },
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'NOTIFICATION#',
+        ':now': Math.floor(Date.now() / 1000),
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: request.last_key,
+    });
+
+    return {
+      notifications: result.Items.map(item => this.convertDynamoItemToNotification(item)),
+      nextKey: result.LastEvaluatedKey,
+      hasMore: !!result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Count unread notifications using the GSI1 unread index
+   */
+  static async getUnreadCount(userId: string): Promise<number> {
+    const unreadItems = await this.getUnreadItems(userId);
+    return unreadItems.length;
+  }
+
+  /**
+   * Mark a single notification as read
+   * Removing the GSI1 keys drops the item from the unread index
+   */
+  static async markAsRead(userId: string, notificationId: string): Promise<Notification> {
+    const item = await this.getNotificationItem(userId, notificationId);
+
+    if (item.is_read) {
+      return this.convertDynamoItemToNotification(item);
+    }
+
+    const updatedItem = await DynamoDBHelper.update(
+      item.PK,
+      item.SK,
+      'SET is_read = :read, read_at = :now REMOVE GSI1PK, GSI1SK',
+      {
+        ':read': true,
+        ':now': formatTimestamp(),
+      }
+    );
+
+    logger.info('Notification marked as read', { userId, notificationId });
+
+    return this.convertDynamoItemToNotification(updatedItem);
+  }
+
+  /**
+   * Mark all unread notifications as read
+   */
+  static async markAllAsRead(userId: string): Promise<number> {
+    const unreadItems = await this.getUnreadItems(userId);
+    const now = formatTimestamp();
+
+    for (const item of unreadItems) {
+      await DynamoDBHelper.update(
+        item.PK,
+        item.SK,
+        'SET is_read = :read, read_at = :now REMOVE GSI1PK, GSI1SK',
+        {
+          ':read': true,
+          ':now': now,
+        }
+      );
+    }
+
+    logger.info('All notifications marked as read', { userId, count: unreadItems.length });
+
+    return unreadItems.length;
+  }
+
+  /**
+   * Delete a notification
+   */
+  static async deleteNotification(userId: string, notificationId: string): Promise<void> {
+    const item = await this.getNotificationItem(userId, notificationId);
+
+    await DynamoDBHelper.delete(item.PK, item.SK);
+
+    logger.info('Notification deleted', { userId, notificationId });
+  }
+
+  /**
+   * Find a notification by ID within the user's partition
+   * The SK embeds the creation timestamp, so lookup by ID filters the (TTL-bounded) notification range
+   */
+  private static async getNotificationItem(userId: string, notificationId: string): Promise<any> {
+    let lastKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'notification_id = :notificationId',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': 'NOTIFICATION#',
+          ':notificationId': notificationId,
+        },
+        ExclusiveStartKey: lastKey,
+      });
+
+      if (result.Items.length > 0) {
+        return result.Items[0];
+      }
+
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    throw new AppError(404, 'notification_not_found', 'Notification not found');
+  }
+
+  /**
+   * Get all unread, unexpired notification items for a user
+   */
+  private static async getUnreadItems(userId: string): Promise<any[]> {
+    const cutoff = new Date(Date.now() - NOTIFICATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const items: any[] = [];
+    let lastKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK > :cutoff',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}#UNREAD`,
+          ':cutoff': cutoff,
+        },
+        ExclusiveStartKey: lastKey,
+      });
+
+      items.push(...result.Items);
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    return items;
+  }
+
+  /**
+   * Convert DynamoDB item to Notification object
+   */
+  private static convertDynamoItemToNotification(item: any): Notification {
+    return {
+      notification_id: item.notification_id,
+      user_id: item.user_id,
+      type: item.type,
+      actor_id: item.actor_id || 'system',
+      actor_username: item.actor_username,
+      actor_avatar_url: item.actor_avatar_url,
+      target_type: item.target_type,
+      target_id: item.target_id,
+      content: item.content,
+      is_read: item.is_read || false,
+      created_at: item.created_at,
+      ttl: item.ttl,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Notification Management Types
+ */
+
+import { Notification } from '../shared/types';
+
+export interface ListNotificationsRequest {
+  limit?: number;
+  last_key?: any; // Decoded pagination token
+}
+
+export interface ListNotificationsResult {
+  notifications: Notification[];
+  nextKey?: any;
+  hasMore: boolean;
+}
@@ -0,0 +1,275 @@
+/**
+ * Unit Tests for Pantry Lambda
+ */
+
+import { handler } from './index';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { APIGatewayEvent } from '../shared/types';
+
+// Mock DynamoDB Helper
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+jest.mock('uuid', () => ({
+  v4: () => 'pantry-item-1'
+}));
+
+describe('Pantry Lambda', () => {
+  const userId = 'user-alice';
+  const itemId = 'pantry-item-1';
+
+  const createMockEvent = (
+    method: string,
+    path: string,
+    userId: string,
+    body?: any,
+    pathParams?: any,
+    queryParams?: any
+  ): APIGatewayEvent => ({
+    httpMethod: method,
+    path,
+    pathParameters: pathParams || null,
+    queryStringParameters: queryParams || null,
+    headers: {},
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: {
+        claims: {
+          sub: userId,
+          email: `${userId}@example.com`,
+          username: userId
+        }
+      }
+    },
+    multiValueHeaders: undefined,
+    multiValueQueryStringParameters: undefined,
+    stageVariables: null,
+    isBase64Encoded: false,
+    resource: path
+  });
+
+  const daysFromToday = (days: number) =>
+    new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const masterIngredient = {
+    PK: 'INGREDIENT#ing-tomato',
+    SK: 'METADATA',
+    ingredient_id: 'ing-tomato',
+    name: 'Cà chua',
+    normalized_name: 'ca chua',
+    category: 'vegetable',
+    aliases: ['tomato'],
+    is_active: true
+  };
+
+  const pantryItem = (overrides: any = {}) => ({
+    PK: `USER#${userId}`,
+    SK: `INGREDIENT#${overrides.pantry_item_id || itemId}`,
+    entity_type: 'PANTRY_ITEM',
+    pantry_item_id: itemId,
+    user_id: userId,
+    ingredient_id: 'ing-tomato',
+    ingredient_name: 'Cà chua',
+    category: 'vegetable',
+    quantity: 500,
+    unit: 'g',
+    expiry_date: daysFromToday(5),
+    created_at: '2025-10-01T10:00:00.000Z',
+    updated_at: '2025-10-01T10:00:00.000Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Add Item', () => {
+    it('should add an item linked to a master ingredient', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(masterIngredient);
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({ Items: [], LastEvaluatedKey: undefined, Count: 0 });
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('POST', '/pantry', userId, {
+        ingredient_id: 'ing-tomato',
+        quantity: 500,
+        unit: 'g',
+        purchase_date: '2025-10-01',
+        expiry_date: '2025-10-08'
+      }));
+
+      expect(result.statusCode).toBe(201);
+      const item = JSON.parse(result.body).data.item;
+      expect(item.ingredient_name).toBe('Cà chua');
+      expect(item.category).toBe('vegetable');
+      expect(item.expiry_date).toBe('2025-10-08');
+      expect(mockDynamoDBHelper.get).toHaveBeenCalledWith('INGREDIENT#ing-tomato', 'METADATA');
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${userId}`,
+        SK: `INGREDIENT#${itemId}`,
+        quantity: 500
+      }));
+    });
+
+    it('should reject unknown ingredients', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(undefined);
+
+      const result = await handler(createMockEvent('POST', '/v1/pantry', userId, {
+        ingredient_id: 'ing-missing',
+        quantity: 1,
+        unit: 'kg'
+      }));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('ingredient_not_found');
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dates and expiry before purchase', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(masterIngredient);
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({ Items: [], LastEvaluatedKey: undefined, Count: 0 });
+
+      const invalidDate = await handler(createMockEvent('POST', '/pantry', userId, {
+        ingredient_id: 'ing-tomato', quantity: 1, unit: 'kg', expiry_date: '2025-02-30'
+      }));
+      expect(invalidDate.statusCode).toBe(400);
+      expect(JSON.parse(invalidDate.body).error).toBe('invalid_expiry_date');
+
+      const outOfOrder = await handler(createMockEvent('POST', '/pantry', userId, {
+        ingredient_id: 'ing-tomato', quantity: 1, unit: 'kg', purchase_date: '2025-10-08', expiry_date: '2025-10-01'
+      }));
+      expect(outOfOrder.statusCode).toBe(400);
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-positive quantities', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(masterIngredient);
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({ Items: [], LastEvaluatedKey: undefined, Count: 0 });
+
+      const result = await handler(createMockEvent('POST', '/pantry', userId, {
+        ingredient_id: 'ing-tomato', quantity: 0, unit: 'g'
+      }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_quantity');
+    });
+  });
+
+  describe('List Pantry', () => {
+    it('should hide expired items by default', async () => {
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({
+        Items: [
+          pantryItem(),
+          pantryItem({ pantry_item_id: 'expired', expiry_date: daysFromToday(-2) }),
+          pantryItem({ pantry_item_id: 'no-expiry', expiry_date: undefined })
+        ],
+        LastEvaluatedKey: undefined,
+        Count: 3
+      });
+
+      const result = await handler(createMockEvent('GET', '/pantry', userId));
+
+      expect(result.statusCode).toBe(200);
+      const data = JSON.parse(result.body).data;
+      expect(data.count).toBe(2);
+      expect(data.items.map((item: any) => item.pantry_item_id)).toEqual([itemId, 'no-expiry']);
+      expect(data.items[0].PK).toBeUndefined();
+    });
+
+    it('should filter items expiring within N days', async () => {
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({
+        Items: [
+          pantryItem(),
+          pantryItem({ pantry_item_id: 'soon', expiry_date: daysFromToday(1) }),
+          pantryItem({ pantry_item_id: 'no-expiry', expiry_date: undefined })
+        ],
+        LastEvaluatedKey: undefined,
+        Count: 3
+      });
+
+      const result = await handler(createMockEvent('GET', '/pantry', userId, null, null, {
+        expiring_within_days: '2'
+      }));
+
+      expect(result.statusCode).toBe(200);
+      const data = JSON.parse(result.body).data;
+      expect(data.items.map((item: any) => item.pantry_item_id)).toEqual(['soon']);
+    });
+  });
+
+  describe('Update Item', () => {
+    it('should update quantity and clear the expiry date', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(pantryItem());
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent(
+        'PUT', `/pantry/${itemId}`, userId, { quantity: 250, expiry_date: null }, { itemId }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      const item = JSON.parse(result.body).data.item;
+      expect(item.quantity).toBe(250);
+      expect(item.expiry_date).toBeUndefined();
+      expect(item.ingredient_id).toBe('ing-tomato');
+    });
+
+    it('should return 404 for an unknown item', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(undefined);
+
+      const result = await handler(createMockEvent(
+        'PUT', '/pantry/missing', userId, { quantity: 1 }, { itemId: 'missing' }
+      ));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('pantry_item_not_found');
+    });
+  });
+
+  describe('Consume Item', () => {
+    it('should decrement the remaining quantity', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(pantryItem());
+      mockDynamoDBHelper.update.mockResolvedValue(pantryItem({ quantity: 300 }));
+
+      const result = await handler(createMockEvent(
+        'POST', `/pantry/${itemId}/consume`, userId, { quantity: 200 }, { itemId }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      const data = JSON.parse(result.body).data;
+      expect(data.removed).toBe(false);
+      expect(data.item.quantity).toBe(300);
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+        `USER#${userId}`,
+        `INGREDIENT#${itemId}`,
+        expect.stringContaining('quantity = :quantity'),
+        expect.objectContaining({ ':quantity': 300 })
+      );
+    });
+
+    it('should remove the item once it is used up', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(pantryItem());
+      mockDynamoDBHelper.delete.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent(
+        'POST', `/v1/pantry/${itemId}/consume`, userId, { quantity: 600 }, { itemId }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.removed).toBe(true);
+      expect(mockDynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${userId}`, `INGREDIENT#${itemId}`);
+      expect(mockDynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Remove Item', () => {
+    it('should remove own pantry item', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(pantryItem());
+      mockDynamoDBHelper.delete.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('DELETE', `/pantry/${itemId}`, userId, null, { itemId }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDynamoDBHelper.delete).toHaveBeenCalledWith(`USER#${userId}`, `INGREDIENT#${itemId}`);
+    });
+  });
+});
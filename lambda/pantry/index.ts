@@ -0,0 +1,195 @@
+/**
+ * Pantry Lambda Function
+ * Handles adding, updating, consuming, removing and listing pantry items
+ */
+
+import { APIGatewayEvent, APIResponse } from '../shared/types';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
+import { getUserIdFromEvent } from '../shared/utils';
+import { PantryService } from './pantry-service';
+import { logger } from '../shared/logger';
+import { metrics } from '../shared/metrics';
+import { tracer } from '../shared/tracer';
+import { AddPantryItemRequest, UpdatePantryItemRequest, ConsumePantryItemRequest } from './types';
+
+export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
+  const startTime = Date.now();
+
+  // Initialize logger with request context
+  logger.initFromEvent(event);
+  logger.logFunctionStart('pantry', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS preflight requests for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Set X-Ray user context
+    tracer.setUser(userId);
+
+    logger.info('Pantry request received', {
+      method,
+      path,
+      userId,
+      pathParameters: event.pathParameters
+    });
+
+    // Route requests based on HTTP method and path
+    if (method === 'GET' && (path === '/pantry' || path === '/v1/pantry')) {
+      return await listPantry(userId, event.queryStringParameters);
+    }
+
+    if (method === 'POST' && (path === '/pantry' || path === '/v1/pantry')) {
+      return await addItem(userId, event.body);
+    }
+
+    if (method === 'POST' && path.match(/\/pantry\/[^/]+\/consume$/)) {
+      const itemId = event.pathParameters?.itemId || '';
+      return await consumeItem(userId, itemId, event.body);
+    }
+
+    if (method === 'PUT' && path.match(/\/pantry\/[^/]+$/)) {
+      const itemId = event.pathParameters?.itemId || '';
+      return await updateItem(userId, itemId, event.body);
+    }
+
+    if (method === 'DELETE' && path.match(/\/pantry\/[^/]+$/)) {
+      const itemId = event.pathParameters?.itemId || '';
+      return await removeItem(userId, itemId);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Pantry handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'pantry');
+    logger.logFunctionEnd('pantry', 500, duration);
+    return handleError(error);
+  } finally {
+    // Flush metrics and log function end
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('pantry', 200, duration);
+    await metrics.flush();
+  }
+}
+
+/**
+ * List pantry items
+ * `expiring_within_days` narrows to items expiring soon; expired items are hidden unless `include_expired=true`
+ */
+async function listPantry(
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const expiringWithinDays = queryParams?.expiring_within_days !== undefined
+    ? parseInt(queryParams.expiring_within_days)
+    : undefined;
+
+  if (expiringWithinDays !== undefined && (isNaN(expiringWithinDays) || expiringWithinDays < 0)) {
+    throw new AppError(400, 'invalid_expiring_within_days', 'expiring_within_days must be a non-negative integer');
+  }
+
+  const items = await PantryService.listPantry(userId, {
+    expiring_within_days: expiringWithinDays,
+    include_expired: queryParams?.include_expired === 'true'
+  });
+
+  return successResponse({
+    items,
+    count: items.length
+  });
+}
+
+/**
+ * Add an item to the pantry
+ */
+async function addItem(userId: string, body: string | null): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: AddPantryItemRequest = JSON.parse(body);
+
+  const item = await PantryService.addItem(userId, request);
+
+  return successResponse({
+    message: 'Pantry item added successfully',
+    item
+  }, 201);
+}
+
+/**
+ * Update a pantry item
+ */
+async function updateItem(userId: string, itemId: string, body: string | null): Promise<APIResponse> {
+  if (!itemId) {
+    throw new AppError(400, 'missing_item_id', 'Pantry item ID is required');
+  }
+
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdatePantryItemRequest = JSON.parse(body);
+
+  const item = await PantryService.updateItem(userId, itemId, request);
+
+  return successResponse({
+    message: 'Pantry item updated successfully',
+    item
+  });
+}
+
+/**
+ * Consume part of a pantry item
+ */
+async function consumeItem(userId: string, itemId: string, body: string | null): Promise<APIResponse> {
+  if (!itemId) {
+    throw new AppError(400, 'missing_item_id', 'Pantry item ID is required');
+  }
+
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: ConsumePantryItemRequest = JSON.parse(body);
+
+  const result = await PantryService.consumeItem(userId, itemId, request.quantity);
+
+  return successResponse({
+    message: result.removed ? 'Pantry item used up' : 'Pantry item consumed',
+    item: result.item,
+    removed: result.removed
+  });
+}
+
+/**
+ * Remove an item from the pantry
+ */
+async function removeItem(userId: string, itemId: string): Promise<APIResponse> {
+  if (!itemId) {
+    throw new AppError(400, 'missing_item_id', 'Pantry item ID is required');
+  }
+
+  await PantryService.removeItem(userId, itemId);
+
+  return successResponse({
+    message: 'Pantry item removed successfully',
+    item_id: itemId
+  });
+}
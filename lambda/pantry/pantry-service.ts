@@ -0,0 +1,243 @@
+/**
+ * Pantry Service
+ * Business logic for a user's pantry (ingredients on hand with quantities and expiry dates)
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { generateUUID, formatTimestamp } from '../shared/utils';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import {
+  convertDynamoItemToPantryItem,
+  getDaysUntilExpiry,
+  getPantryItems,
+  isPantryItemExpired,
+} from '../shared/pantry';
+import { MasterIngredient, PantryItem } from '../shared/types';
+import {
+  AddPantryItemRequest,
+  UpdatePantryItemRequest,
+  ListPantryRequest,
+} from './types';
+
+const MAX_PANTRY_ITEMS = 500;
+const MAX_QUANTITY = 100000;
+const MAX_UNIT_LENGTH = 20;
+
+export class PantryService {
+  /**
+   * List pantry items, optionally limited to items expiring soon
+   */
+  static async listPantry(userId: string, request: ListPantryRequest = {}): Promise<PantryItem[]> {
+    const items = await getPantryItems(userId);
+
+    return items.filter(item => {
+      if (!request.include_expired && isPantryItemExpired(item)) {
+        return false;
+      }
+
+      if (request.expiring_within_days !== undefined) {
+        const days = getDaysUntilExpiry(item);
+        return days !== undefined && days <= request.expiring_within_days;
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Add an item to the pantry
+   * The ingredient must exist in the master ingredient table so name/category stay canonical
+   */
+  static async addItem(userId: string, request: AddPantryItemRequest): Promise<PantryItem> {
+    if (!request.ingredient_id || typeof request.ingredient_id !== 'string') {
+      throw new AppError(400, 'missing_ingredient_id', 'ingredient_id is required');
+    }
+
+    const ingredient = await this.getMasterIngredient(request.ingredient_id);
+
+    const existing = await DynamoDBHelper.getUserIngredients(userId);
+    if (existing.Count >= MAX_PANTRY_ITEMS) {
+      throw new AppError(400, 'pantry_full', `Pantry cannot hold more than ${MAX_PANTRY_ITEMS} items`);
+    }
+
+    const purchaseDate = this.validateDate(request.purchase_date, 'purchase_date');
+    const expiryDate = this.validateDate(request.expiry_date, 'expiry_date');
+    this.validateDateOrder(purchaseDate, expiryDate);
+
+    const now = formatTimestamp();
+    const item: PantryItem = {
+      pantry_item_id: generateUUID(),
+      user_id: userId,
+      ingredient_id: ingredient.ingredient_id,
+      ingredient_name: ingredient.name,
+      category: ingredient.category,
+      quantity: this.validateQuantity(request.quantity),
+      unit: this.validateUnit(request.unit),
+      purchase_date: purchaseDate,
+      expiry_date: expiryDate,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `INGREDIENT#${item.pantry_item_id}`,
+      entity_type: 'PANTRY_ITEM',
+      ...item,
+    });
+
+    logger.info('Pantry item added', { userId, pantryItemId: item.pantry_item_id, ingredientId: item.ingredient_id });
+
+    return item;
+  }
+
+  /**
+   * Update quantity, unit or dates of a pantry item
+   */
+  static async updateItem(userId: string, pantryItemId: string, request: UpdatePantryItemRequest): Promise<PantryItem> {
+    const existing = await this.getItem(userId, pantryItemId);
+
+    const purchaseDate = request.purchase_date === undefined
+      ? existing.purchase_date
+      : this.validateDate(request.purchase_date, 'purchase_date');
+    const expiryDate = request.expiry_date === undefined
+      ? existing.expiry_date
+      : this.validateDate(request.expiry_date, 'expiry_date');
+    this.validateDateOrder(purchaseDate, expiryDate);
+
+    const item: PantryItem = {
+      ...existing,
+      quantity: request.quantity === undefined ? existing.quantity : this.validateQuantity(request.quantity),
+      unit: request.unit === undefined ? existing.unit : this.validateUnit(request.unit),
+      purchase_date: purchaseDate,
+      expiry_date: expiryDate,
+      updated_at: formatTimestamp(),
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `INGREDIENT#${pantryItemId}`,
+      entity_type: 'PANTRY_ITEM',
+      ...item,
+    });
+
+    logger.info('Pantry item updated', { userId, pantryItemId, fields: Object.keys(request) });
+
+    return item;
+  }
+
+  /**
+   * Consume part of a pantry item
+   * The item is removed once nothing is left
+   */
+  static async consumeItem(
+    userId: string,
+    pantryItemId: string,
+    quantity: number
+  ): Promise<{ item: PantryItem | null; removed: boolean }> {
+    const existing = await this.getItem(userId, pantryItemId);
+    const amount = this.validateQuantity(quantity);
+    const remaining = Math.round((existing.quantity - amount) * 1000) / 1000;
+
+    if (remaining <= 0) {
+      await DynamoDBHelper.delete(`USER#${userId}`, `INGREDIENT#${pantryItemId}`);
+      logger.info('Pantry item used up', { userId, pantryItemId });
+      return { item: null, removed: true };
+    }
+
+    const updatedItem = await DynamoDBHelper.update(
+      `USER#${userId}`,
+      `INGREDIENT#${pantryItemId}`,
+      'SET quantity = :quantity, updated_at = :now',
+      {
+        ':quantity': remaining,
+        ':now': formatTimestamp(),
+      }
+    );
+
+    logger.info('Pantry item consumed', { userId, pantryItemId, consumed: amount, remaining });
+
+    return { item: convertDynamoItemToPantryItem(updatedItem), removed: false };
+  }
+
+  /**
+   * Remove an item from the pantry
+   */
+  static async removeItem(userId: string, pantryItemId: string): Promise<void> {
+    await this.getItem(userId, pantryItemId);
+
+    await DynamoDBHelper.delete(`USER#${userId}`, `INGREDIENT#${pantryItemId}`);
+
+    logger.info('Pantry item removed', { userId, pantryItemId });
+  }
+
+  /**
+   * Get a pantry item owned by the user
+   */
+  private static async getItem(userId: string, pantryItemId: string): Promise<PantryItem> {
+    const item = await DynamoDBHelper.get(`USER#${userId}`, `INGREDIENT#${pantryItemId}`);
+
+    if (!item) {
+      throw new AppError(404, 'pantry_item_not_found', 'Pantry item not found');
+    }
+
+    return convertDynamoItemToPantryItem(item);
+  }
+
+  /**
+   * Look up an active master ingredient
+   */
+  private static async getMasterIngredient(ingredientId: string): Promise<MasterIngredient> {
+    const ingredient = await DynamoDBHelper.get(`INGREDIENT#${ingredientId}`, 'METADATA');
+
+    if (!ingredient || ingredient.is_active === false) {
+      throw new AppError(404, 'ingredient_not_found', 'Ingredient not found');
+    }
+
+    return ingredient as MasterIngredient;
+  }
+
+  private static validateQuantity(quantity: any): number {
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0 || quantity > MAX_QUANTITY) {
+      throw new AppError(400, 'invalid_quantity', `quantity must be a number between 0 and ${MAX_QUANTITY}`);
+    }
+    return quantity;
+  }
+
+  private static validateUnit(unit: any): string {
+    if (typeof unit !== 'string' || unit.trim().length === 0) {
+      throw new AppError(400, 'invalid_unit', 'unit is required');
+    }
+    if (unit.trim().length > MAX_UNIT_LENGTH) {
+      throw new AppError(400, 'invalid_unit', `unit must be less than ${MAX_UNIT_LENGTH} characters`);
+    }
+    return unit.trim();
+  }
+
+  /**
+   * Dates are calendar days (YYYY-MM-DD); null or empty clears the field
+   */
+  private static validateDate(value: any, field: string): string | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    const timestamp = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? Date.parse(`${value}T00:00:00.000Z`)
+      : NaN;
+
+    // Rejects impossible days such as 2025-02-30, which Date.parse rolls over
+    if (isNaN(timestamp) || new Date(timestamp).toISOString().slice(0, 10) !== value) {
+      throw new AppError(400, `invalid_${field}`, `${field} must be a valid date (YYYY-MM-DD)`);
+    }
+
+    return value;
+  }
+
+  private static validateDateOrder(purchaseDate?: string, expiryDate?: string): void {
+    if (purchaseDate && expiryDate && expiryDate < purchaseDate) {
+      throw new AppError(400, 'invalid_expiry_date', 'expiry_date cannot be before purchase_date');
+    }
+  }
+}
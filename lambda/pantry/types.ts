@@ -0,0 +1,27 @@
+/**
+ * Pantry Management Types
+ */
+
+export interface AddPantryItemRequest {
+  ingredient_id: string;
+  quantity: number;
+  unit: string;
+  purchase_date?: string; // YYYY-MM-DD
+  expiry_date?: string; // YYYY-MM-DD
+}
+
+export interface UpdatePantryItemRequest {
+  quantity?: number;
+  unit?: string;
+  purchase_date?: string | null; // null clears the date
+  expiry_date?: string | null;
+}
+
+export interface ConsumePantryItemRequest {
+  quantity: number;
+}
+
+export interface ListPantryRequest {
+  expiring_within_days?: number; // Only items expiring within N days (includes expired)
+  include_expired?: boolean;
+}
@@ -6,6 +6,7 @@ import { handler } from './index';
 import { APIGatewayEvent } from '../shared/types';
 import { DynamoDBHelper } from '../shared/dynamodb';
 import { checkFriendship } from '../shared/privacy-middleware';
+import { createNotification } from '../shared/notifications';
 
 // Mock dependencies
 jest.mock('../shared/dynamodb', () => ({
@@ -46,12 +47,18 @@ jest.mock('../shared/privacy-middleware', () => ({
     isFriend: true,
   }),
   checkFriendship: jest.fn().mockResolvedValue(true),
+  checkBlocked: jest.fn().mockResolvedValue(false),
+  getBlockedUserIds: jest.fn().mockResolvedValue([]),
+}));
+jest.mock('../shared/notifications', () => ({
+  createNotification: jest.fn(),
 }));
 
 const mockQuery = DynamoDBHelper.query as jest.MockedFunction<typeof DynamoDBHelper.query>;
 const mockGet = DynamoDBHelper.get as jest.MockedFunction<typeof DynamoDBHelper.get>;
 const mockPut = DynamoDBHelper.put as jest.MockedFunction<typeof DynamoDBHelper.put>;
 const mockUpdate = DynamoDBHelper.update as jest.MockedFunction<typeof DynamoDBHelper.update>;
+const mockDelete = DynamoDBHelper.delete as jest.MockedFunction<typeof DynamoDBHelper.delete>;
 const mockCheckFriendship = checkFriendship as jest.MockedFunction<typeof checkFriendship>;
 
 describe('Comments System - Unit Tests', () => {
@@ -139,6 +146,17 @@ describe('Comments System - Unit Tests', () => {
           ':inc': 1,
         })
       );
+
+      // Verify post owner was notified
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipientId: 'other-user',
+          type: 'comment',
+          actorId: mockUserId,
+          targetType: 'post',
+          targetId: mockPostId,
+        })
+      );
     });
 
     test('should create a nested comment (reply) successfully', async () => {
@@ -288,6 +306,90 @@ describe('Comments System - Unit Tests', () => {
     });
   });
 
+  describe('Comment depth', () => {
+    test('should reject replies nested deeper than the maximum depth', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [
+          {
+            comment_id: 'reply-to-reply',
+            parent_comment_id: 'reply-1',
+            depth: 2,
+            content: 'Deep reply',
+          },
+        ],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const event = {
+        ...mockEvent,
+        body: JSON.stringify({
+          content: 'Even deeper',
+          parent_comment_id: 'reply-to-reply',
+        }),
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      const body = JSON.parse(result.body);
+      expect(body.error).toBe('max_depth_exceeded');
+      expect(mockPut).not.toHaveBeenCalled();
+    });
+
+    test('should index replies under their parent and count them', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [
+          {
+            comment_id: 'parent-1',
+            SK: 'COMMENT#2025-10-06T10:00:00.000Z#parent-1',
+            depth: 0,
+            content: 'Parent comment',
+          },
+        ],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const event = {
+        ...mockEvent,
+        body: JSON.stringify({
+          content: 'Reply',
+          parent_comment_id: 'parent-1',
+        }),
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data.comment.depth).toBe(1);
+      expect(mockPut).toHaveBeenCalledWith(
+        expect.objectContaining({
+          GSI2PK: 'COMMENT#parent-1',
+          GSI2SK: expect.stringMatching(/^REPLY#/),
+        })
+      );
+      expect(mockUpdate).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        'COMMENT#2025-10-06T10:00:00.000Z#parent-1',
+        expect.stringContaining('reply_count'),
+        expect.objectContaining({ ':inc': 1 })
+      );
+    });
+  });
+
   describe('GET /posts/{id}/comments - Get Comments', () => {
     test('should get all comments for a post', async () => {
       // Mock post exists
@@ -349,7 +451,7 @@ describe('Comments System - Unit Tests', () => {
         is_public: true,
       });
 
-      // Mock comments with parent-child relationship
+      // Mock top-level comments, then the parent's replies
       mockQuery.mockResolvedValueOnce({
         Items: [
           {
@@ -357,9 +459,16 @@ describe('Comments System - Unit Tests', () => {
             post_id: mockPostId,
             user_id: 'user-1',
             content: 'Parent comment',
+            reply_count: 1,
             created_at: '2025-10-06T10:00:00Z',
             updated_at: '2025-10-06T10:00:00Z',
           },
+        ],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+      mockQuery.mockResolvedValueOnce({
+        Items: [
           {
             comment_id: 'reply-1',
             post_id: mockPostId,
@@ -370,7 +479,7 @@ describe('Comments System - Unit Tests', () => {
             updated_at: '2025-10-06T10:05:00Z',
           },
         ],
-        Count: 2,
+        Count: 1,
         LastEvaluatedKey: undefined,
       });
 
@@ -442,6 +551,57 @@ describe('Comments System - Unit Tests', () => {
       expect(body.data.next_key).toBeDefined();
     });
 
+    test('should keep reading when replies leave the page short', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: mockUserId,
+        is_public: true,
+      });
+
+      mockQuery
+        .mockResolvedValueOnce({
+          Items: [
+            { PK: `POST#${mockPostId}`, SK: 'COMMENT#t1#comment-1', comment_id: 'comment-1', post_id: mockPostId, user_id: 'user-1', content: 'First' },
+          ],
+          Count: 1,
+          LastEvaluatedKey: { PK: `POST#${mockPostId}`, SK: 'COMMENT#t3#reply-1' },
+        })
+        .mockResolvedValueOnce({
+          Items: [
+            { PK: `POST#${mockPostId}`, SK: 'COMMENT#t4#comment-2', comment_id: 'comment-2', post_id: mockPostId, user_id: 'user-1', content: 'Second' },
+            { PK: `POST#${mockPostId}`, SK: 'COMMENT#t5#comment-3', comment_id: 'comment-3', post_id: mockPostId, user_id: 'user-1', content: 'Third' },
+          ],
+          Count: 2,
+          LastEvaluatedKey: { PK: `POST#${mockPostId}`, SK: 'COMMENT#t6#comment-4' },
+        });
+
+      mockGet.mockResolvedValue({
+        user_id: 'user-1',
+        username: 'user1',
+      });
+
+      const event = {
+        ...mockEvent,
+        httpMethod: 'GET',
+        queryStringParameters: { limit: '2' },
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.comments.map((c: any) => c.comment.comment_id)).toEqual(['comment-1', 'comment-2']);
+      expect(body.data.has_more).toBe(true);
+      expect(JSON.parse(Buffer.from(body.data.next_key, 'base64').toString('utf-8'))).toEqual({
+        PK: `POST#${mockPostId}`,
+        SK: 'COMMENT#t4#comment-2',
+      });
+      expect(mockQuery.mock.calls[1][0].ExclusiveStartKey).toEqual({
+        PK: `POST#${mockPostId}`,
+        SK: 'COMMENT#t3#reply-1',
+      });
+    });
+
     test('should reject get comments on non-existent post', async () => {
       // Mock post not found
       mockGet.mockResolvedValueOnce(undefined);
@@ -495,4 +655,351 @@ describe('Comments System - Unit Tests', () => {
       expect(body.error).toBe('invalid_limit');
     });
   });
+
+  describe('PUT /posts/{id}/comments/{commentId} - Edit Comment', () => {
+    const editEvent = {
+      ...mockEvent,
+      httpMethod: 'PUT',
+      path: `/posts/${mockPostId}/comments/${mockCommentId}`,
+      pathParameters: { id: mockPostId, commentId: mockCommentId },
+      body: JSON.stringify({ content: 'Edited comment' }),
+    } as APIGatewayEvent;
+
+    test('should edit own comment and mark it as edited', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [
+          {
+            comment_id: mockCommentId,
+            post_id: mockPostId,
+            SK: `COMMENT#2025-10-06T10:00:00.000Z#${mockCommentId}`,
+            user_id: mockUserId,
+            content: 'Original comment',
+          },
+        ],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      mockUpdate.mockImplementationOnce(async (_pk, _sk, _expression, values: any) => ({
+        comment_id: mockCommentId,
+        post_id: mockPostId,
+        user_id: mockUserId,
+        content: values[':content'],
+        edited_at: values[':now'],
+      }));
+
+      const result = await handler(editEvent);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.comment.content).toBe('Edited comment');
+      expect(body.data.comment.edited_at).toBeDefined();
+      expect(mockUpdate).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        `COMMENT#2025-10-06T10:00:00.000Z#${mockCommentId}`,
+        expect.stringContaining('edited_at = :now'),
+        expect.objectContaining({ ':content': 'Edited comment' }),
+        { '#content': 'content' }
+      );
+    });
+
+    test('should find the comment past the first page of the post\'s comments', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      const firstPageKey = { PK: `POST#${mockPostId}`, SK: 'COMMENT#2025-10-06T09:00:00.000Z#comment-0' };
+      mockQuery
+        .mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: firstPageKey })
+        .mockResolvedValueOnce({
+          Items: [
+            {
+              comment_id: mockCommentId,
+              post_id: mockPostId,
+              SK: `COMMENT#2025-10-06T10:00:00.000Z#${mockCommentId}`,
+              user_id: mockUserId,
+              content: 'Original comment',
+            },
+          ],
+          Count: 1,
+          LastEvaluatedKey: undefined,
+        });
+
+      mockUpdate.mockResolvedValueOnce({ comment_id: mockCommentId, user_id: mockUserId, content: 'Edited comment' });
+
+      const result = await handler(editEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.objectContaining({
+        FilterExpression: 'comment_id = :commentId',
+        ExclusiveStartKey: firstPageKey,
+      }));
+    });
+
+    test("should reject editing someone else's comment", async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: mockUserId,
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [{ comment_id: mockCommentId, user_id: 'other-user', content: 'Their comment' }],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const result = await handler(editEvent);
+
+      expect(result.statusCode).toBe(403);
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /posts/{id}/comments/{commentId} - Delete Comment', () => {
+    const deleteEvent = {
+      ...mockEvent,
+      httpMethod: 'DELETE',
+      path: `/posts/${mockPostId}/comments/${mockCommentId}`,
+      pathParameters: { id: mockPostId, commentId: mockCommentId },
+    } as APIGatewayEvent;
+
+    test('should delete own comment without replies and decrement comments_count', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [{ comment_id: mockCommentId, SK: `COMMENT#t#${mockCommentId}`, user_id: mockUserId, reply_count: 0 }],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const result = await handler(deleteEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.soft_deleted).toBe(false);
+      expect(mockDelete).toHaveBeenCalledWith(`POST#${mockPostId}`, `COMMENT#t#${mockCommentId}`);
+      expect(mockUpdate).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        'METADATA',
+        expect.stringContaining('comments_count'),
+        expect.objectContaining({ ':dec': 1 })
+      );
+    });
+
+    test('should let the post owner remove a comment with replies as a placeholder', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: mockUserId,
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [{ comment_id: mockCommentId, SK: `COMMENT#t#${mockCommentId}`, user_id: 'other-user', reply_count: 2 }],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const result = await handler(deleteEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.soft_deleted).toBe(true);
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(mockUpdate).toHaveBeenCalledWith(
+        `POST#${mockPostId}`,
+        `COMMENT#t#${mockCommentId}`,
+        expect.stringContaining('is_deleted = :deleted'),
+        expect.objectContaining({ ':deleted': true, ':empty': '' }),
+        { '#content': 'content' }
+      );
+    });
+
+    test('should keep a comment without a reply count as a placeholder when it has replies', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery
+        .mockResolvedValueOnce({
+          Items: [{ comment_id: mockCommentId, SK: `COMMENT#t#${mockCommentId}`, user_id: mockUserId }],
+          Count: 1,
+          LastEvaluatedKey: undefined,
+        })
+        .mockResolvedValueOnce({
+          Items: [],
+          Count: 0,
+          LastEvaluatedKey: { PK: `POST#${mockPostId}`, SK: 'COMMENT#t1#other' },
+        })
+        .mockResolvedValueOnce({
+          // Replies from before threading only have the base table and GSI1 keys
+          Items: [{
+            PK: `POST#${mockPostId}`,
+            SK: 'COMMENT#t2#reply-1',
+            entity_type: 'COMMENT',
+            comment_id: 'reply-1',
+            post_id: mockPostId,
+            user_id: 'user-2',
+            parent_comment_id: mockCommentId,
+            content: 'Old reply',
+            GSI1PK: 'USER#user-2',
+            GSI1SK: 'COMMENT#t2',
+          }],
+          Count: 1,
+          LastEvaluatedKey: undefined,
+        });
+
+      const result = await handler(deleteEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.soft_deleted).toBe(true);
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'parent_comment_id = :commentId',
+        ExpressionAttributeValues: { ':pk': `POST#${mockPostId}`, ':sk': 'COMMENT#', ':commentId': mockCommentId },
+        ExclusiveStartKey: { PK: `POST#${mockPostId}`, SK: 'COMMENT#t1#other' },
+      }));
+    });
+
+    test('should remove a comment without a reply count when nothing replies to it', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery
+        .mockResolvedValueOnce({
+          Items: [{ comment_id: mockCommentId, SK: `COMMENT#t#${mockCommentId}`, user_id: mockUserId }],
+          Count: 1,
+          LastEvaluatedKey: undefined,
+        })
+        .mockResolvedValueOnce({
+          Items: [],
+          Count: 0,
+          LastEvaluatedKey: undefined,
+        });
+
+      const result = await handler(deleteEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.soft_deleted).toBe(false);
+      expect(mockDelete).toHaveBeenCalledWith(`POST#${mockPostId}`, `COMMENT#t#${mockCommentId}`);
+    });
+
+    test('should remove a deleted placeholder with its last reply', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery
+        .mockResolvedValueOnce({
+          Items: [{ comment_id: mockCommentId, SK: `COMMENT#t2#${mockCommentId}`, user_id: mockUserId, parent_comment_id: 'parent-1', reply_count: 0 }],
+          Count: 1,
+          LastEvaluatedKey: undefined,
+        })
+        .mockResolvedValueOnce({
+          Items: [{ comment_id: 'parent-1', SK: 'COMMENT#t1#parent-1', is_deleted: true, reply_count: 1 }],
+          Count: 1,
+          LastEvaluatedKey: undefined,
+        });
+
+      // Parent reply_count after the decrement
+      mockUpdate.mockResolvedValueOnce({ reply_count: 0 });
+
+      const result = await handler(deleteEvent);
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDelete).toHaveBeenCalledWith(`POST#${mockPostId}`, `COMMENT#t2#${mockCommentId}`);
+      expect(mockDelete).toHaveBeenCalledWith(`POST#${mockPostId}`, 'COMMENT#t1#parent-1');
+    });
+
+    test("should reject deleting someone else's comment on someone else's post", async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: 'other-user',
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [{ comment_id: mockCommentId, user_id: 'another-user' }],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const result = await handler(deleteEvent);
+
+      expect(result.statusCode).toBe(403);
+      expect(mockDelete).not.toHaveBeenCalled();
+      expect(mockUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /posts/{id}/comments/{commentId}/replies - Get Replies', () => {
+    test('should page through replies from the reply index', async () => {
+      mockGet.mockResolvedValueOnce({
+        post_id: mockPostId,
+        user_id: mockUserId,
+        is_public: true,
+      });
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [
+          {
+            comment_id: 'reply-1',
+            post_id: mockPostId,
+            user_id: 'user-2',
+            parent_comment_id: mockCommentId,
+            content: 'First reply',
+          },
+        ],
+        Count: 1,
+        LastEvaluatedKey: { PK: `POST#${mockPostId}`, SK: 'COMMENT#t#reply-1' },
+      });
+
+      mockGet.mockResolvedValue({
+        user_id: 'user-2',
+        username: 'user2',
+      });
+
+      const event = {
+        ...mockEvent,
+        httpMethod: 'GET',
+        path: `/posts/${mockPostId}/comments/${mockCommentId}/replies`,
+        pathParameters: { id: mockPostId, commentId: mockCommentId },
+        queryStringParameters: { limit: '1' },
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.replies).toHaveLength(1);
+      expect(body.data.replies[0].comment.comment_id).toBe('reply-1');
+      expect(body.data.has_more).toBe(true);
+      expect(body.data.next_key).toBeDefined();
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          IndexName: 'GSI2',
+          ExpressionAttributeValues: { ':pk': `COMMENT#${mockCommentId}`, ':sk': 'REPLY#' },
+          Limit: 1,
+        })
+      );
+    });
+  });
 });
@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for the ranked ("top") feed
+ */
+
+import { FeedRankingService, RankingContext } from './feed-ranking';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { TimelineService } from '../shared/timeline';
+import { RankedFeedCursor } from './types';
+
+jest.mock('../shared/dynamodb');
+jest.mock('../shared/timeline');
+jest.mock('../shared/logger');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+const mockGetHomeFeedPage = TimelineService.getHomeFeedPage as jest.MockedFunction<typeof TimelineService.getHomeFeedPage>;
+
+const NOW = new Date('2025-06-01T12:00:00.000Z').getTime();
+const hoursAgo = (hours: number) => new Date(NOW - hours * 60 * 60 * 1000).toISOString();
+
+const post = (id: string, overrides: any = {}) => ({
+  PK: `POST#${id}`,
+  SK: 'METADATA',
+  post_id: id,
+  user_id: 'user-bob',
+  content: `Post ${id}`,
+  likes_count: 0,
+  comments_count: 0,
+  created_at: hoursAgo(1),
+  ...overrides,
+});
+
+const context = (overrides: Partial<RankingContext> = {}): RankingContext => ({
+  now: NOW,
+  interactionCounts: new Map(),
+  favoriteCuisines: new Set(),
+  recipeCuisines: new Map(),
+  ...overrides,
+});
+
+describe('FeedRankingService', () => {
+  const userId = 'user-alice';
+
+  describe('scorePost', () => {
+    it('should decay with age and boost engagement, affinity and favorite cuisines', () => {
+      const base = FeedRankingService.scorePost(post('p'), context());
+
+      expect(FeedRankingService.scorePost(post('p', { created_at: hoursAgo(25) }), context())).toBeCloseTo(base / 2);
+      expect(FeedRankingService.scorePost(post('p', { likes_count: 3, comments_count: 1 }), context())).toBeGreaterThan(base);
+      expect(FeedRankingService.scorePost(post('p'), context({ interactionCounts: new Map([['user-bob', 4]]) })))
+        .toBeGreaterThan(base);
+      expect(FeedRankingService.scorePost(
+        post('p', { recipe_id: 'recipe-1' }),
+        context({ favoriteCuisines: new Set(['vietnamese']), recipeCuisines: new Map([['recipe-1', 'vietnamese']]) })
+      )).toBeGreaterThan(base);
+    });
+  });
+
+  describe('getRankedPostItems', () => {
+    const candidates = [
+      post('fresh', { created_at: hoursAgo(1) }),
+      post('popular', { created_at: hoursAgo(10), likes_count: 40, comments_count: 12 }),
+      post('close-friend', { user_id: 'user-carol', created_at: hoursAgo(6) }),
+      post('old', { created_at: hoursAgo(96), likes_count: 5 }),
+    ];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(Date, 'now').mockReturnValue(NOW);
+
+      mockGetHomeFeedPage.mockResolvedValue({ posts: candidates, hasMore: false });
+      mockDynamoDBHelper.getUserPreferences.mockResolvedValue({ favorite_cuisines: [] });
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+      mockDynamoDBHelper.query.mockImplementation(async (params: any) => ({
+        // The viewer has commented on three of carol's posts
+        Items: params.ExpressionAttributeValues[':sk'] === 'COMMENT#'
+          ? [{ post_id: 'close-friend' }, { post_id: 'carol-older-1' }, { post_id: 'carol-older-2' }]
+          : [],
+        Count: 0,
+        LastEvaluatedKey: undefined,
+      }));
+      mockDynamoDBHelper.batchGet.mockImplementation(async (keys: any[]) => keys
+        .map(key => key.PK.replace('POST#', ''))
+        .map(postId => candidates.find(c => c.post_id === postId) || post(postId, { user_id: 'user-carol' })));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should rank the timeline and store the order for later pages', async () => {
+      // Affinity lifts carol's post above a fresher one, engagement lifts the popular one
+      const result = await FeedRankingService.getRankedPostItems(userId, 3);
+
+      expect(result.postItems.map(item => item.post_id)).toEqual(['popular', 'close-friend', 'fresh']);
+      expect(result.nextKey).toEqual({ ranking_id: expect.any(String), offset: 3 });
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${userId}`,
+        SK: `FEED_RANKING#${(result.nextKey as RankedFeedCursor).ranking_id}`,
+        post_ids: ['popular', 'close-friend', 'fresh', 'old'],
+        ttl: NOW / 1000 + 3600,
+      }));
+    });
+
+    it('should page through the stored ranking even when scores change', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue({
+        post_ids: ['popular', 'close-friend', 'fresh', 'old'],
+        ttl: NOW / 1000 + 60,
+      });
+
+      const result = await FeedRankingService.getRankedPostItems(userId, 3, { ranking_id: 'ranking-1', offset: 3 });
+
+      expect(mockDynamoDBHelper.get).toHaveBeenCalledWith(`USER#${userId}`, 'FEED_RANKING#ranking-1');
+      expect(mockGetHomeFeedPage).not.toHaveBeenCalled();
+      expect(result.postItems.map(item => item.post_id)).toEqual(['old']);
+      expect(result.nextKey).toBeUndefined();
+    });
+
+    it('should continue with a recent feed cursor after the ranked window', async () => {
+      const oldest = { created_at: hoursAgo(96), post_id: 'old' };
+      mockGetHomeFeedPage.mockResolvedValue({ posts: candidates, oldest, hasMore: true });
+
+      const firstPage = await FeedRankingService.getRankedPostItems(userId, 4);
+
+      expect(firstPage.postItems).toHaveLength(4);
+      expect(firstPage.nextKey).toEqual({ before: oldest });
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({ continue_before: oldest }));
+
+      mockDynamoDBHelper.get.mockResolvedValue({
+        post_ids: ['popular', 'close-friend', 'fresh', 'old'],
+        continue_before: oldest,
+        ttl: NOW / 1000 + 60,
+      });
+
+      const lastRankedPage = await FeedRankingService.getRankedPostItems(userId, 3, { ranking_id: 'ranking-1', offset: 3 });
+
+      expect(lastRankedPage.postItems.map(item => item.post_id)).toEqual(['old']);
+      expect(lastRankedPage.nextKey).toEqual({ before: oldest });
+    });
+
+    it('should reject expired and malformed cursors', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue({ post_ids: ['fresh'], ttl: NOW / 1000 - 1 });
+
+      await expect(FeedRankingService.getRankedPostItems(userId, 3, { ranking_id: 'ranking-1', offset: 3 }))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'cursor_expired' });
+      await expect(FeedRankingService.getRankedPostItems(userId, 3, { PK: 'TIMELINE#user-alice' } as any))
+        .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_cursor' });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Feed Ranking
+ * "Top" feed mode: scores the viewer's recent timeline and public posts by recency decay,
+ * likes and comments, the viewer's interaction history with each author, and whether the
+ * attached recipe's cuisine is one of the viewer's favorite_cuisines.
+ *
+ * Scores move as posts collect likes and comments, so paging by score would skip or repeat
+ * posts. The first page stores the ranked post IDs in a FEED_RANKING item (expires after
+ * RANKING_TTL_SECONDS) and later pages read that ranking by offset.
+ *
+ * Only the newest CANDIDATE_LIMIT posts are ranked. When there are older ones, the ranking
+ * also stores where the window ended and the page after the last ranked one is a recent feed
+ * cursor ({ before }) that continues from there, newest first.
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { FeedPosition, TimelineService } from '../shared/timeline';
+import { generateUUID, formatTimestamp } from '../shared/utils';
+import { RankedFeedCursor } from './types';
+
+const CANDIDATE_LIMIT = 100; // Most recent timeline and public posts considered for ranking
+const INTERACTION_HISTORY_LIMIT = 100; // Most recent reactions and comments per kind
+const RANKING_TTL_SECONDS = 60 * 60;
+const BATCH_GET_SIZE = 100;
+
+const RECENCY_HALF_LIFE_HOURS = 24;
+const ENGAGEMENT_WEIGHT = 0.5;
+const AFFINITY_WEIGHT = 0.75;
+const CUISINE_MATCH_BOOST = 0.5;
+
+export interface RankingContext {
+  now: number;
+  interactionCounts: Map<string, number>; // Author ID -> viewer's reactions and comments on their posts
+  favoriteCuisines: Set<string>; // Lowercase
+  recipeCuisines: Map<string, string>; // Recipe ID -> lowercase cuisine_type
+}
+
+interface StoredRanking {
+  ranking_id: string;
+  post_ids: string[];
+  continue_before?: FeedPosition; // Set when older posts than the ranked window exist
+}
+
+export class FeedRankingService {
+  /**
+   * Get a page of the viewer's "top" feed, ranking it on the first page
+   */
+  static async getRankedPostItems(
+    userId: string,
+    limit: number,
+    cursor?: RankedFeedCursor
+  ): Promise<{ postItems: any[]; nextKey?: RankedFeedCursor | { before: FeedPosition } }> {
+    const ranking = cursor
+      ? await this.getStoredRanking(userId, cursor)
+      : await this.createRanking(userId);
+
+    const offset = cursor?.offset || 0;
+    const postItems = await this.getPostsByIds(ranking.post_ids.slice(offset, offset + limit));
+    const nextOffset = offset + limit;
+
+    let nextKey: RankedFeedCursor | { before: FeedPosition } | undefined;
+    if (nextOffset < ranking.post_ids.length) {
+      nextKey = { ranking_id: ranking.ranking_id, offset: nextOffset };
+    } else if (ranking.continue_before) {
+      nextKey = { before: ranking.continue_before };
+    }
+
+    return { postItems, nextKey };
+  }
+
+  /**
+   * Score a post: recency decay times a boost from engagement, affinity and cuisine match
+   * Comments count double, since they take more effort than a like
+   */
+  static scorePost(post: any, context: RankingContext): number {
+    const ageHours = Math.max(0, context.now - new Date(post.created_at).getTime()) / (60 * 60 * 1000);
+    const recency = Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+
+    const engagement = Math.log1p((post.likes_count || 0) + 2 * (post.comments_count || 0));
+    const affinity = Math.log1p(context.interactionCounts.get(post.user_id) || 0);
+    const cuisine = post.recipe_id ? context.recipeCuisines.get(post.recipe_id) : undefined;
+    const cuisineMatch = cuisine && context.favoriteCuisines.has(cuisine) ? 1 : 0;
+
+    return recency * (1 + ENGAGEMENT_WEIGHT * engagement + AFFINITY_WEIGHT * affinity + CUISINE_MATCH_BOOST * cuisineMatch);
+  }
+
+  /**
+   * Rank the viewer's candidate posts and store the order for the following pages
+   */
+  private static async createRanking(userId: string): Promise<StoredRanking> {
+    const { posts: candidates, continueBefore } = await this.getCandidates(userId);
+    if (candidates.length === 0) {
+      return { ranking_id: '', post_ids: [], ...(continueBefore && { continue_before: continueBefore }) };
+    }
+
+    const [interactionCounts, favoriteCuisines, recipeCuisines] = await Promise.all([
+      this.getInteractionCounts(userId, candidates),
+      this.getFavoriteCuisines(userId),
+      this.getRecipeCuisines(candidates),
+    ]);
+    const context: RankingContext = { now: Date.now(), interactionCounts, favoriteCuisines, recipeCuisines };
+
+    // Ties broken by post_id so the order is deterministic
+    const postIds = candidates
+      .map(post => ({ post_id: post.post_id as string, score: this.scorePost(post, context) }))
+      .sort((a, b) => b.score - a.score || (a.post_id < b.post_id ? -1 : 1))
+      .map(({ post_id }) => post_id);
+
+    const rankingId = generateUUID();
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `FEED_RANKING#${rankingId}`,
+      entity_type: 'FEED_RANKING',
+      ranking_id: rankingId,
+      post_ids: postIds,
+      ...(continueBefore && { continue_before: continueBefore }),
+      created_at: formatTimestamp(),
+      ttl: Math.floor(context.now / 1000) + RANKING_TTL_SECONDS,
+    });
+
+    logger.info('Feed ranking created', { userId, rankingId, postCount: postIds.length, hasOlderPosts: !!continueBefore });
+
+    return { ranking_id: rankingId, post_ids: postIds, ...(continueBefore && { continue_before: continueBefore }) };
+  }
+
+  private static async getStoredRanking(userId: string, cursor: RankedFeedCursor): Promise<StoredRanking> {
+    if (typeof cursor.ranking_id !== 'string' || !Number.isInteger(cursor.offset) || cursor.offset < 0) {
+      throw new AppError(400, 'invalid_cursor', 'last_key is not a valid top feed cursor');
+    }
+
+    const item = await DynamoDBHelper.get(`USER#${userId}`, `FEED_RANKING#${cursor.ranking_id}`);
+
+    // TTL deletes lazily, so check the expiry too
+    if (!item || item.ttl <= Math.floor(Date.now() / 1000)) {
+      throw new AppError(400, 'cursor_expired', 'The top feed has changed, reload it from the first page');
+    }
+
+    return {
+      ranking_id: cursor.ranking_id,
+      post_ids: item.post_ids || [],
+      ...(item.continue_before && { continue_before: item.continue_before }),
+    };
+  }
+
+  /**
+   * The viewer's most recent timeline and public posts, and where the window ended if there are older ones
+   */
+  private static async getCandidates(userId: string): Promise<{ posts: any[]; continueBefore?: FeedPosition }> {
+    const page = await TimelineService.getHomeFeedPage(userId, CANDIDATE_LIMIT);
+    return {
+      posts: page.posts,
+      ...(page.hasMore && page.oldest && { continueBefore: page.oldest }),
+    };
+  }
+
+  /**
+   * Count the viewer's recent reactions and comments per post author
+   */
+  private static async getInteractionCounts(userId: string, candidates: any[]): Promise<Map<string, number>> {
+    const [reactions, comments] = await Promise.all(['REACTION#', 'COMMENT#'].map(prefix =>
+      DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId}`,
+          ':sk': prefix,
+        },
+        ScanIndexForward: false,
+        Limit: INTERACTION_HISTORY_LIMIT,
+      })
+    ));
+
+    const interactedPostIds: string[] = [
+      ...reactions.Items.filter(item => item.target_type === 'post').map(item => item.target_id),
+      ...comments.Items.map(item => item.post_id),
+    ];
+
+    // Authors of candidate posts are already known, look up the rest
+    const authorIds = new Map<string, string>(candidates.map(post => [post.post_id, post.user_id]));
+    const unknownPostIds = Array.from(new Set(interactedPostIds.filter(postId => !authorIds.has(postId))));
+    for (const post of await this.getPostsByIds(unknownPostIds)) {
+      authorIds.set(post.post_id, post.user_id);
+    }
+
+    const counts = new Map<string, number>();
+    for (const postId of interactedPostIds) {
+      const authorId = authorIds.get(postId);
+      if (authorId && authorId !== userId) {
+        counts.set(authorId, (counts.get(authorId) || 0) + 1);
+      }
+    }
+    return counts;
+  }
+
+  private static async getFavoriteCuisines(userId: string): Promise<Set<string>> {
+    const preferences = await DynamoDBHelper.getUserPreferences(userId);
+    return new Set<string>((preferences?.favorite_cuisines || []).map((cuisine: string) => cuisine.trim().toLowerCase()));
+  }
+
+  private static async getRecipeCuisines(candidates: any[]): Promise<Map<string, string>> {
+    const recipeIds = Array.from(new Set(candidates.map(post => post.recipe_id).filter(Boolean)));
+    const cuisines = new Map<string, string>();
+
+    for (let i = 0; i < recipeIds.length; i += BATCH_GET_SIZE) {
+      const recipes = await DynamoDBHelper.batchGet(
+        recipeIds.slice(i, i + BATCH_GET_SIZE).map(recipeId => ({ PK: `RECIPE#${recipeId}`, SK: 'METADATA' }))
+      );
+      for (const recipe of recipes) {
+        if (recipe.cuisine_type) {
+          cuisines.set(recipe.recipe_id, String(recipe.cuisine_type).trim().toLowerCase());
+        }
+      }
+    }
+    return cuisines;
+  }
+
+  /**
+   * Load posts in the given order, skipping deleted ones
+   */
+  private static async getPostsByIds(postIds: string[]): Promise<any[]> {
+    const itemsById = new Map<string, any>();
+
+    for (let i = 0; i < postIds.length; i += BATCH_GET_SIZE) {
+      const items = await DynamoDBHelper.batchGet(
+        postIds.slice(i, i + BATCH_GET_SIZE).map(postId => ({ PK: `POST#${postId}`, SK: 'METADATA' }))
+      );
+      items.forEach(item => itemsById.set(item.post_id, item));
+    }
+
+    return postIds.filter(postId => itemsById.has(postId)).map(postId => itemsById.get(postId));
+  }
+}
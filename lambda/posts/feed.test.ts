@@ -5,6 +5,7 @@
 import { handler } from './index';
 import { APIGatewayEvent } from '../shared/types';
 import { DynamoDBHelper } from '../shared/dynamodb';
+import { checkFriendship } from '../shared/privacy-middleware';
 
 // Mock dependencies
 jest.mock('../shared/dynamodb', () => ({
@@ -14,6 +15,7 @@ jest.mock('../shared/dynamodb', () => ({
     put: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
+    batchGet: jest.fn(),
   },
 }));
 jest.mock('../shared/logger', () => ({
@@ -40,10 +42,13 @@ jest.mock('../shared/privacy-middleware', () => ({
   getUserPrivacySettings: jest.fn(),
   createPrivacyContext: jest.fn(),
   checkFriendship: jest.fn().mockResolvedValue(true),
+  checkBlocked: jest.fn().mockResolvedValue(false),
+  getBlockedUserIds: jest.fn().mockResolvedValue([]),
 }));
 
 const mockQuery = DynamoDBHelper.query as jest.MockedFunction<typeof DynamoDBHelper.query>;
 const mockGet = DynamoDBHelper.get as jest.MockedFunction<typeof DynamoDBHelper.get>;
+const mockBatchGet = DynamoDBHelper.batchGet as jest.MockedFunction<typeof DynamoDBHelper.batchGet>;
 
 describe('Posts Feed - Unit Tests', () => {
   const mockUserId = 'user-123';
@@ -81,7 +86,7 @@ describe('Posts Feed - Unit Tests', () => {
 
   describe('GET /posts/feed', () => {
     test('should get feed with public posts successfully', async () => {
-      // Mock friends query (no friends)
+      // Mock timeline query (empty)
       mockQuery.mockResolvedValueOnce({
         Items: [],
         Count: 0,
@@ -128,7 +133,7 @@ describe('Posts Feed - Unit Tests', () => {
     });
 
     test('should support pagination with limit parameter', async () => {
-      // Mock friends query
+      // Mock timeline query (empty)
       mockQuery.mockResolvedValueOnce({
         Items: [],
         Count: 0,
@@ -173,7 +178,7 @@ describe('Posts Feed - Unit Tests', () => {
     });
 
     test('should sort posts by created_at descending', async () => {
-      // Mock friends query
+      // Mock timeline query (empty)
       mockQuery.mockResolvedValueOnce({
         Items: [],
         Count: 0,
@@ -228,6 +233,172 @@ describe('Posts Feed - Unit Tests', () => {
       expect(body.data.posts[1].post.post_id).toBe('post-old');
     });
 
+    test('should read posts from the user timeline in timeline order', async () => {
+      // Mock timeline query
+      mockQuery.mockResolvedValueOnce({
+        Items: [
+          { PK: `TIMELINE#${mockUserId}`, SK: 'POST#2025-10-06T10:00:00Z#post-friend', post_id: 'post-friend', author_id: mockFriendId, created_at: '2025-10-06T10:00:00Z' },
+          { PK: `TIMELINE#${mockUserId}`, SK: 'POST#2025-10-06T09:00:00Z#post-deleted', post_id: 'post-deleted', author_id: mockFriendId, created_at: '2025-10-06T09:00:00Z' },
+          { PK: `TIMELINE#${mockUserId}`, SK: 'POST#2025-10-06T08:00:00Z#post-own', post_id: 'post-own', author_id: mockUserId, created_at: '2025-10-06T08:00:00Z' },
+        ],
+        Count: 3,
+        LastEvaluatedKey: { PK: `TIMELINE#${mockUserId}`, SK: 'POST#2025-10-06T08:00:00Z#post-own' },
+      });
+
+      // Mock GSI3 query (no public posts)
+      mockQuery.mockResolvedValueOnce({
+        Items: [],
+        Count: 0,
+        LastEvaluatedKey: undefined,
+      });
+
+      // Deleted posts are missing from the batch get
+      mockBatchGet.mockResolvedValueOnce([
+        {
+          post_id: 'post-own',
+          user_id: mockUserId,
+          content: 'Own private post',
+          images: [],
+          privacy: 'private',
+          is_public: false,
+          likes_count: 0,
+          comments_count: 0,
+          created_at: '2025-10-06T08:00:00Z',
+          updated_at: '2025-10-06T08:00:00Z',
+        },
+        {
+          post_id: 'post-friend',
+          user_id: mockFriendId,
+          content: 'Friends-only post',
+          images: [],
+          privacy: 'friends',
+          is_public: true,
+          likes_count: 0,
+          comments_count: 0,
+          created_at: '2025-10-06T10:00:00Z',
+          updated_at: '2025-10-06T10:00:00Z',
+        },
+      ]);
+
+      // Mock user info
+      mockGet.mockResolvedValue({
+        user_id: mockFriendId,
+        username: 'frienduser',
+      });
+
+      const result = await handler({ ...mockEvent, queryStringParameters: { limit: '2' } } as APIGatewayEvent);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.posts.map((p: any) => p.post.post_id)).toEqual(['post-friend', 'post-own']);
+      expect(body.data.has_more).toBe(true);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': `TIMELINE#${mockUserId}`, ':sk': 'POST#' },
+      }));
+    });
+
+    test('should merge public posts into the timeline without duplicates', async () => {
+      const friendPost = {
+        post_id: 'post-friend',
+        user_id: mockFriendId,
+        content: 'Friends-only post',
+        images: [],
+        privacy: 'friends',
+        is_public: true,
+        likes_count: 0,
+        comments_count: 0,
+        created_at: '2025-10-06T09:00:00Z',
+        updated_at: '2025-10-06T09:00:00Z',
+      };
+      const publicPost = (postId: string, createdAt: string) => ({
+        post_id: postId,
+        user_id: 'stranger-789',
+        content: 'Public post',
+        images: [],
+        privacy: 'public',
+        is_public: true,
+        likes_count: 0,
+        comments_count: 0,
+        created_at: createdAt,
+        updated_at: createdAt,
+      });
+
+      // Mock timeline query: a friend's post and a public post from a friend
+      mockQuery.mockResolvedValueOnce({
+        Items: [
+          { PK: `TIMELINE#${mockUserId}`, SK: 'POST#2025-10-06T09:00:00Z#post-friend', post_id: 'post-friend', author_id: mockFriendId, created_at: '2025-10-06T09:00:00Z' },
+          { PK: `TIMELINE#${mockUserId}`, SK: 'POST#2025-10-06T08:00:00Z#post-both', post_id: 'post-both', author_id: mockFriendId, created_at: '2025-10-06T08:00:00Z' },
+        ],
+        Count: 2,
+        LastEvaluatedKey: undefined,
+      });
+
+      // Mock GSI3 query: a stranger's public post and the one already on the timeline
+      mockQuery.mockResolvedValueOnce({
+        Items: [publicPost('post-stranger', '2025-10-06T10:00:00Z'), publicPost('post-both', '2025-10-06T08:00:00Z')],
+        Count: 2,
+        LastEvaluatedKey: undefined,
+      });
+
+      mockBatchGet.mockResolvedValueOnce([friendPost]);
+
+      mockGet.mockResolvedValue({
+        user_id: mockFriendId,
+        username: 'frienduser',
+      });
+
+      const result = await handler({ ...mockEvent } as APIGatewayEvent);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.posts.map((p: any) => p.post.post_id)).toEqual(['post-stranger', 'post-friend', 'post-both']);
+      expect(body.data.has_more).toBe(false);
+      // Posts already read from the public feed are not loaded again
+      expect(mockBatchGet).toHaveBeenCalledWith([{ PK: 'POST#post-friend', SK: 'METADATA' }]);
+    });
+
+    test('should continue the top feed with the recent feed after the ranked window', async () => {
+      const before = { created_at: '2025-10-06T09:00:00Z', post_id: 'post-ranked-last' };
+      const olderPost = {
+        post_id: 'post-older',
+        user_id: 'stranger-789',
+        content: 'Older public post',
+        images: [],
+        privacy: 'public',
+        is_public: true,
+        likes_count: 0,
+        comments_count: 0,
+        created_at: '2025-10-06T08:00:00Z',
+        updated_at: '2025-10-06T08:00:00Z',
+      };
+
+      // Mock timeline query (nothing older) and GSI3 query
+      mockQuery.mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: undefined });
+      mockQuery.mockResolvedValueOnce({ Items: [olderPost], Count: 1, LastEvaluatedKey: undefined });
+
+      mockGet.mockResolvedValue({
+        user_id: 'stranger-789',
+        username: 'stranger',
+      });
+
+      const lastKey = Buffer.from(JSON.stringify({ before })).toString('base64');
+      const result = await handler({
+        ...mockEvent,
+        queryStringParameters: { mode: 'top', last_key: lastKey },
+      } as APIGatewayEvent);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.posts.map((p: any) => p.post.post_id)).toEqual(['post-older']);
+      expect(body.data.has_more).toBe(false);
+      // Read from the recent feed, not a stored ranking
+      expect(mockGet).not.toHaveBeenCalledWith(`USER#${mockUserId}`, expect.stringMatching(/^FEED_RANKING#/));
+      expect(mockQuery).toHaveBeenCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :sk AND :before',
+      }));
+    });
+
     test('should handle invalid limit parameter', async () => {
       const event = {
         ...mockEvent,
@@ -241,6 +412,19 @@ describe('Posts Feed - Unit Tests', () => {
       expect(body.error).toBe('invalid_limit');
     });
 
+    test('should reject an unknown feed mode', async () => {
+      const event = {
+        ...mockEvent,
+        queryStringParameters: { mode: 'hot' },
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      const body = JSON.parse(result.body);
+      expect(body.error).toBe('invalid_mode');
+    });
+
     test('should handle errors gracefully', async () => {
       // Mock query to throw error
       mockQuery.mockRejectedValueOnce(new Error('Database error'));
@@ -254,4 +438,50 @@ describe('Posts Feed - Unit Tests', () => {
       expect(result.statusCode).toBe(500);
     });
   });
+
+  describe('GET /tags/{tag}/posts', () => {
+    test('should return posts with the normalized tag that the viewer can see', async () => {
+      (checkFriendship as jest.Mock).mockResolvedValueOnce(false);
+
+      mockQuery.mockResolvedValueOnce({
+        Items: [{ post_id: 'post-friends' }, { post_id: 'post-public' }],
+        Count: 2,
+        LastEvaluatedKey: undefined,
+      });
+      mockBatchGet.mockResolvedValueOnce([
+        { post_id: 'post-public', user_id: 'stranger', content: 'Nấu #CanhChua', is_public: true, created_at: '2025-10-06T10:00:00Z' },
+        { post_id: 'post-friends', user_id: 'stranger', content: 'Chỉ bạn bè #canhchua', is_public: false, created_at: '2025-10-06T11:00:00Z' },
+      ]);
+      mockGet.mockResolvedValue({ user_id: 'stranger', username: 'stranger' });
+
+      const event = {
+        ...mockEvent,
+        path: `/tags/${encodeURIComponent('CanhChua')}/posts`,
+        pathParameters: { tag: encodeURIComponent('Cánh_Chua') },
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const body = JSON.parse(result.body);
+      expect(body.data.tag).toBe('canhchua');
+      expect(body.data.posts.map((p: any) => p.post.post_id)).toEqual(['post-public']);
+      expect(mockQuery).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': 'TAG#canhchua', ':sk': 'POST#' },
+      }));
+    });
+
+    test('should reject tags without letters', async () => {
+      const event = {
+        ...mockEvent,
+        path: '/tags/2024/posts',
+        pathParameters: { tag: '2024' },
+      } as APIGatewayEvent;
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_tag');
+    });
+  });
 });
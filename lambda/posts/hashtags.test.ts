@@ -0,0 +1,105 @@
+/**
+ * Unit Tests for hashtags
+ */
+
+import { HashtagService } from './hashtags';
+import { DynamoDBHelper } from '../shared/dynamodb';
+
+jest.mock('../shared/dynamodb');
+jest.mock('../shared/logger');
+
+const mockQuery = DynamoDBHelper.query as jest.Mock;
+const mockBatchGet = DynamoDBHelper.batchGet as jest.Mock;
+const mockBatchWrite = DynamoDBHelper.batchWrite as jest.Mock;
+const mockUpdate = DynamoDBHelper.update as jest.Mock;
+
+describe('HashtagService', () => {
+  const createdAt = new Date().toISOString();
+  const post = { post_id: 'post-1', user_id: 'user-1', created_at: createdAt, is_public: true };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('extractTags', () => {
+    it('should normalize Vietnamese tags and skip non-tags', () => {
+      expect(HashtagService.extractTags('Nấu #CanhChua hôm nay #canh_chua #cánhchua #Phở, C# &#39; #2024 #bún_bò'))
+        .toEqual(['canhchua', 'pho', 'bunbo']);
+    });
+
+    it('should keep combining marks in decomposed tags', () => {
+      expect(HashtagService.extractTags('#Phở #cánhchua'.normalize('NFD'))).toEqual(['pho', 'canhchua']);
+    });
+  });
+
+  describe('indexPost', () => {
+    it('should index added tags, unindex removed ones and count them for public posts', async () => {
+      await HashtagService.indexPost(
+        { ...post, hashtags: ['canhchua', 'pho'] },
+        { ...post, hashtags: ['canhchua', 'bunbo'] }
+      );
+
+      expect(mockBatchWrite).toHaveBeenCalledWith([
+        { DeleteRequest: { Key: { PK: 'TAG#bunbo', SK: `POST#${createdAt}#post-1` } } },
+        { PutRequest: { Item: expect.objectContaining({ PK: 'TAG#pho', SK: `POST#${createdAt}#post-1`, entity_type: 'TAG_POST' }) } },
+      ]);
+
+      const date = createdAt.slice(0, 10);
+      expect(mockUpdate).toHaveBeenCalledTimes(2);
+      expect(mockUpdate).toHaveBeenCalledWith(`TRENDING#${date}`, 'TAG#pho', expect.stringContaining('ADD post_count :delta'), expect.objectContaining({ ':delta': 1 }), { '#ttl': 'ttl' });
+      expect(mockUpdate).toHaveBeenCalledWith(`TRENDING#${date}`, 'TAG#bunbo', expect.any(String), expect.objectContaining({ ':delta': -1 }), { '#ttl': 'ttl' });
+    });
+
+    it('should uncount tags when a post stops being public, keeping its tag entries', async () => {
+      await HashtagService.indexPost(
+        { ...post, is_public: false, hashtags: ['canhchua'] },
+        { ...post, hashtags: ['canhchua'] }
+      );
+
+      expect(mockBatchWrite).not.toHaveBeenCalled();
+      expect(mockUpdate).toHaveBeenCalledWith(expect.any(String), 'TAG#canhchua', expect.any(String), expect.objectContaining({ ':delta': -1 }), expect.anything());
+    });
+  });
+
+  describe('getTagPostItems', () => {
+    it('should load the posts of a page of tag entries, skipping deleted posts', async () => {
+      mockQuery.mockResolvedValue({
+        Items: [{ post_id: 'post-2' }, { post_id: 'post-1' }],
+        Count: 2,
+        LastEvaluatedKey: { PK: 'TAG#pho', SK: 'POST#x' },
+      });
+      mockBatchGet.mockResolvedValue([{ post_id: 'post-1', content: 'Phở' }]);
+
+      const result = await HashtagService.getTagPostItems('pho', 2);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': 'TAG#pho', ':sk': 'POST#' },
+        ScanIndexForward: false,
+        Limit: 2,
+      }));
+      expect(result.postItems).toEqual([{ post_id: 'post-1', content: 'Phở' }]);
+      expect(result.nextKey).toEqual({ PK: 'TAG#pho', SK: 'POST#x' });
+    });
+  });
+
+  describe('getTrendingTags', () => {
+    it('should add up daily counts over the window', async () => {
+      const counts: { [date: string]: any[] } = {
+        '2026-10-19': [{ tag: 'pho', post_count: 2 }, { tag: 'canhchua', post_count: 1 }],
+        '2026-10-18': [{ tag: 'canhchua', post_count: 3 }, { tag: 'bunbo', post_count: 0 }],
+        '2026-10-17': [{ tag: 'banhmi', post_count: 9 }],
+      };
+      mockQuery.mockImplementation(async (params: any) => {
+        const items = counts[params.ExpressionAttributeValues[':pk'].replace('TRENDING#', '')] || [];
+        return { Items: items, Count: items.length };
+      });
+
+      const tags = await HashtagService.getTrendingTags(2, 10, new Date('2026-10-19T12:00:00Z'));
+
+      expect(tags).toEqual([
+        { tag: 'canhchua', post_count: 4 },
+        { tag: 'pho', post_count: 2 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Hashtags
+ * Extracts #tags from post content when a post is written, indexes them for tag pages and
+ * counts them for trending tags.
+ *
+ * Tags are normalized with IngredientService.normalizeVietnamese and stripped of everything
+ * but letters and digits, so "#CanhChua", "#canh_chua" and "#cánhchua" are the same tag.
+ *
+ * Index: one TAG_POST item per tag and post (PK: TAG#tag, SK: POST#created_at#postId), for
+ * every privacy level; tag pages filter by the viewer like the feed does. Trending: one
+ * TRENDING_TAG counter per tag and day (PK: TRENDING#date, SK: TAG#tag) counting public posts
+ * only, so friends-only tags never show up for strangers. Counters expire after
+ * TRENDING_TTL_DAYS.
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { IngredientService } from '../shared/ingredient-service';
+import { logger } from '../shared/logger';
+import { TrendingTag } from './types';
+
+const MAX_TAGS_PER_POST = 10;
+const MAX_TRENDING_DAYS = 7;
+const TRENDING_TTL_DAYS = MAX_TRENDING_DAYS + 1;
+const BATCH_WRITE_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+
+// "#" must not follow a letter, digit or "&", so "C#" and "&#39;" are not tags
+// Combining marks belong to the tag, so decomposed Vietnamese text is not cut at the first accent
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{M}\p{N}_&#])#([\p{L}\p{M}\p{N}_]{1,50})/gu;
+
+type WriteRequest = { PutRequest?: { Item: any }; DeleteRequest?: { Key: any } };
+
+export interface HashtaggedPost {
+  post_id: string;
+  user_id: string;
+  created_at: string;
+  is_public?: boolean;
+  hashtags?: string[];
+}
+
+export class HashtagService {
+  /**
+   * Normalize a tag for storage and lookup, without the "#"
+   * Returns '' for tags without a letter, like "#1"
+   */
+  static normalizeTag(tag: string): string {
+    const normalized = IngredientService.normalizeVietnamese(tag.replace(/^#/, '')).replace(/[^a-z0-9]/g, '');
+    return /[a-z]/.test(normalized) ? normalized : '';
+  }
+
+  /**
+   * Distinct normalized tags in content, in order of appearance
+   */
+  static extractTags(content: string): string[] {
+    const tags = Array.from(content.matchAll(HASHTAG_PATTERN), match => this.normalizeTag(match[2]));
+    return Array.from(new Set(tags.filter(Boolean))).slice(0, MAX_TAGS_PER_POST);
+  }
+
+  /**
+   * Bring a post's tag index entries and trending counts in line with its current tags and
+   * visibility; previous is the post as stored before the change, if any
+   * Never throws: the post is already saved, and a missed entry only hides it from a tag page
+   */
+  static async indexPost(post: HashtaggedPost, previous?: HashtaggedPost): Promise<void> {
+    try {
+      const tags = post.hashtags || [];
+      const previousTags = previous?.hashtags || [];
+
+      await this.batchWrite([
+        ...previousTags
+          .filter(tag => !tags.includes(tag))
+          .map(tag => ({ DeleteRequest: { Key: this.buildKey(tag, post) } })),
+        ...tags
+          .filter(tag => !previousTags.includes(tag))
+          .map(tag => ({ PutRequest: { Item: this.buildEntry(tag, post) } })),
+      ]);
+
+      await this.updateTrendingCounts(
+        post,
+        post.is_public ? tags : [],
+        previous?.is_public ? previousTags : []
+      );
+    } catch (error) {
+      logger.error('Failed to index post hashtags', error, { postId: post.post_id });
+    }
+  }
+
+  /**
+   * Remove a deleted post from its tag pages and trending counts
+   */
+  static async removePost(post: HashtaggedPost): Promise<void> {
+    await this.indexPost({ ...post, hashtags: [] }, post);
+  }
+
+  /**
+   * Read a page of a tag's posts, newest first
+   * Posts deleted since their entry was written are skipped
+   */
+  static async getTagPostItems(
+    tag: string,
+    limit: number,
+    lastKey?: any
+  ): Promise<{ postItems: any[]; nextKey?: any }> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `TAG#${tag}`,
+        ':sk': 'POST#',
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: lastKey,
+    });
+
+    const postIds: string[] = result.Items.map(item => item.post_id);
+    const itemsById = new Map<string, any>();
+
+    for (let i = 0; i < postIds.length; i += BATCH_GET_SIZE) {
+      const items = await DynamoDBHelper.batchGet(
+        postIds.slice(i, i + BATCH_GET_SIZE).map(postId => ({ PK: `POST#${postId}`, SK: 'METADATA' }))
+      );
+      items.forEach(item => itemsById.set(item.post_id, item));
+    }
+
+    return {
+      postItems: postIds.filter(postId => itemsById.has(postId)).map(postId => itemsById.get(postId)),
+      nextKey: result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Most used tags on public posts over the last `days` days (today included)
+   */
+  static async getTrendingTags(days: number, limit: number, now: Date = new Date()): Promise<TrendingTag[]> {
+    const counts = new Map<string, number>();
+
+    for (let day = 0; day < Math.min(days, MAX_TRENDING_DAYS); day++) {
+      const date = new Date(now.getTime() - day * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      let exclusiveStartKey: any;
+
+      do {
+        const result = await DynamoDBHelper.query({
+          KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+          ExpressionAttributeValues: {
+            ':pk': `TRENDING#${date}`,
+            ':sk': 'TAG#',
+          },
+          ExclusiveStartKey: exclusiveStartKey,
+        });
+        result.Items.forEach(item => counts.set(item.tag, (counts.get(item.tag) || 0) + (item.post_count || 0)));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    }
+
+    return Array.from(counts.entries())
+      .filter(([, postCount]) => postCount > 0)
+      .sort(([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB))
+      .slice(0, limit)
+      .map(([tag, postCount]) => ({ tag, post_count: postCount }));
+  }
+
+  /**
+   * Count added tags and uncount removed ones on the day the post was created
+   * Posts older than the trending window no longer count anywhere, so they are skipped
+   */
+  private static async updateTrendingCounts(
+    post: HashtaggedPost,
+    countedTags: string[],
+    previouslyCountedTags: string[]
+  ): Promise<void> {
+    const createdAt = new Date(post.created_at);
+    if (Date.now() - createdAt.getTime() > MAX_TRENDING_DAYS * 24 * 60 * 60 * 1000) {
+      return;
+    }
+
+    const date = createdAt.toISOString().slice(0, 10);
+    const ttl = Math.floor(createdAt.getTime() / 1000) + TRENDING_TTL_DAYS * 24 * 60 * 60;
+    const changes = [
+      ...countedTags.filter(tag => !previouslyCountedTags.includes(tag)).map(tag => ({ tag, delta: 1 })),
+      ...previouslyCountedTags.filter(tag => !countedTags.includes(tag)).map(tag => ({ tag, delta: -1 })),
+    ];
+
+    for (const { tag, delta } of changes) {
+      await DynamoDBHelper.update(
+        `TRENDING#${date}`,
+        `TAG#${tag}`,
+        'SET entity_type = :type, tag = :tag, #ttl = :ttl ADD post_count :delta',
+        {
+          ':type': 'TRENDING_TAG',
+          ':tag': tag,
+          ':ttl': ttl,
+          ':delta': delta,
+        },
+        { '#ttl': 'ttl' }
+      );
+    }
+  }
+
+  private static buildKey(tag: string, post: HashtaggedPost) {
+    return {
+      PK: `TAG#${tag}`,
+      SK: `POST#${post.created_at}#${post.post_id}`,
+    };
+  }
+
+  private static buildEntry(tag: string, post: HashtaggedPost) {
+    return {
+      ...this.buildKey(tag, post),
+      entity_type: 'TAG_POST',
+      tag,
+      post_id: post.post_id,
+      author_id: post.user_id,
+      created_at: post.created_at,
+    };
+  }
+
+  private static async batchWrite(writes: WriteRequest[]): Promise<void> {
+    for (let i = 0; i < writes.length; i += BATCH_WRITE_SIZE) {
+      await DynamoDBHelper.batchWrite(writes.slice(i, i + BATCH_WRITE_SIZE));
+    }
+  }
+}
@@ -10,7 +10,7 @@ import { PostsService } from './posts-service';
 import { logger } from '../shared/logger';
 import { metrics } from '../shared/metrics';
 import { tracer } from '../shared/tracer';
-import { CreatePostRequest, UpdatePostRequest, CreateCommentRequest, CreateReactionRequest } from './types';
+import { CreatePostRequest, FeedMode, UpdatePostRequest, CreateCommentRequest, UpdateCommentRequest, CreateReactionRequest } from './types';
 
 export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
   const startTime = Date.now();
@@ -66,6 +66,15 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await getUserPosts(targetUserId, userId, event.queryStringParameters);
     }
 
+    if (method === 'GET' && path.match(/\/tags\/trending$/)) {
+      return await getTrendingTags(event.queryStringParameters);
+    }
+
+    if (method === 'GET' && path.match(/\/tags\/[^/]+\/posts$/)) {
+      const tag = event.pathParameters?.tag || '';
+      return await getTagPosts(tag, userId, event.queryStringParameters);
+    }
+
     if (method === 'POST' && path === '/reactions') {
       return await createReaction(userId, event.body);
     }
@@ -85,6 +94,24 @@ export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
       return await getComments(postId, userId, event.queryStringParameters);
     }
 
+    if (method === 'GET' && path.match(/\/posts\/.+\/comments\/[^/]+\/replies$/)) {
+      const postId = event.pathParameters?.id || '';
+      const commentId = event.pathParameters?.commentId || '';
+      return await getReplies(postId, commentId, userId, event.queryStringParameters);
+    }
+
+    if (method === 'PUT' && path.match(/\/posts\/.+\/comments\/[^/]+$/)) {
+      const postId = event.pathParameters?.id || '';
+      const commentId = event.pathParameters?.commentId || '';
+      return await updateComment(postId, commentId, userId, event.body);
+    }
+
+    if (method === 'DELETE' && path.match(/\/posts\/.+\/comments\/[^/]+$/)) {
+      const postId = event.pathParameters?.id || '';
+      const commentId = event.pathParameters?.commentId || '';
+      return await deleteComment(postId, commentId, userId);
+    }
+
     if (method === 'GET' && path.match(/\/posts\/.+/)) {
       const postId = event.pathParameters?.id || '';
       return await getPost(postId, userId);
@@ -240,7 +267,46 @@ async function getFeed(
     ? JSON.parse(Buffer.from(queryParams.last_key, 'base64').toString())
     : undefined;
 
-  const result = await PostsService.getFeed(userId, limit, lastKey);
+  const mode = (queryParams?.mode || 'recent') as FeedMode;
+
+  const result = await PostsService.getFeed(userId, limit, lastKey, mode);
+
+  // Encode next key for pagination
+  const nextKey = result.nextKey
+    ? Buffer.from(JSON.stringify(result.nextKey)).toString('base64')
+    : undefined;
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    posts: result.posts,
+    next_key: nextKey,
+    has_more: result.hasMore,
+    count: result.posts.length,
+  });
+}
+
+/**
+ * Get posts with a hashtag (with privacy filtering)
+ */
+async function getTagPosts(
+  tag: string,
+  viewerId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 20;
+  const lastKey = queryParams?.last_key
+    ? JSON.parse(Buffer.from(queryParams.last_key, 'base64').toString())
+    : undefined;
+
+  let decodedTag = tag;
+  try {
+    decodedTag = decodeURIComponent(tag);
+  } catch (error) {
+    throw new AppError(400, 'invalid_tag', 'Invalid tag');
+  }
+
+  const result = await PostsService.getTagPosts(decodedTag, viewerId, limit, lastKey);
 
   // Encode next key for pagination
   const nextKey = result.nextKey
@@ -250,6 +316,7 @@ async function getFeed(
   metrics.trackApiRequest(200, Date.now(), 'posts');
 
   return successResponse({
+    tag: result.tag,
     posts: result.posts,
     next_key: nextKey,
     has_more: result.hasMore,
@@ -257,6 +324,23 @@ async function getFeed(
   });
 }
 
+/**
+ * Get trending hashtags
+ */
+async function getTrendingTags(queryParams: { [key: string]: string } | null): Promise<APIResponse> {
+  const days = queryParams?.days ? parseInt(queryParams.days) : 1;
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 10;
+
+  const tags = await PostsService.getTrendingTags(days, limit);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    tags,
+    days,
+  });
+}
+
 /**
  * Get posts by a specific user (with privacy filtering)
  */
@@ -334,6 +418,65 @@ async function getComments(
   });
 }
 
+/**
+ * Get a page of replies to a comment
+ */
+async function getReplies(
+  postId: string,
+  commentId: string,
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const limit = queryParams?.limit ? parseInt(queryParams.limit) : 20;
+  const lastKey = queryParams?.last_key;
+
+  const result = await PostsService.getReplies(postId, commentId, userId, limit, lastKey);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    replies: result.replies,
+    next_key: result.next_key,
+    has_more: result.has_more,
+    count: result.replies.length,
+  });
+}
+
+/**
+ * Edit a comment
+ */
+async function updateComment(
+  postId: string,
+  commentId: string,
+  userId: string,
+  body: string | null
+): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdateCommentRequest = JSON.parse(body);
+  const comment = await PostsService.updateComment(postId, commentId, userId, request);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({ comment });
+}
+
+/**
+ * Delete a comment
+ */
+async function deleteComment(postId: string, commentId: string, userId: string): Promise<APIResponse> {
+  const result = await PostsService.deleteComment(postId, commentId, userId);
+
+  metrics.trackApiRequest(200, Date.now(), 'posts');
+
+  return successResponse({
+    message: 'Comment deleted successfully',
+    soft_deleted: result.soft_deleted,
+  });
+}
+
 /**
  * Create a reaction on a post or comment
  */
@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for @mentions
+ */
+
+import { MentionService } from './mentions';
+import { UserSearchService } from '../shared/user-search';
+import { createNotification } from '../shared/notifications';
+
+jest.mock('../shared/user-search');
+jest.mock('../shared/notifications');
+jest.mock('../shared/logger');
+
+const mockFindByUsernames = UserSearchService.findByUsernames as jest.MockedFunction<
+  typeof UserSearchService.findByUsernames
+>;
+const mockCreateNotification = createNotification as jest.MockedFunction<typeof createNotification>;
+
+const profile = (userId: string, username: string) => ({ user_id: userId, username } as any);
+
+describe('MentionService', () => {
+  const authorId = 'user-alice';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindByUsernames.mockResolvedValue(new Map([
+      ['bob', profile('user-bob', 'Bob')],
+      ['carol_n', profile('user-carol', 'carol_n')],
+      ['alice', profile('user-alice', 'alice')],
+    ]));
+  });
+
+  describe('parseHandles', () => {
+    it('should find handles with their positions and skip emails', () => {
+      expect(MentionService.parseHandles('Thanks @Bob, ask @carol_n. Mail me at me@example.com')).toEqual([
+        { handle: 'bob', offset: 7, length: 4 },
+        { handle: 'carol_n', offset: 17, length: 8 },
+      ]);
+    });
+  });
+
+  describe('resolveMentions', () => {
+    it('should resolve every occurrence of users who can see the post', async () => {
+      const canSee = jest.fn(async (userId: string) => userId !== 'user-carol');
+      const content = '@bob and @carol_n, @ghost and @alice: @BOB';
+
+      const mentions = await MentionService.resolveMentions(authorId, content, canSee);
+
+      expect(mockFindByUsernames).toHaveBeenCalledWith(['bob', 'carol_n', 'ghost', 'alice']);
+      expect(mentions).toEqual([
+        { user_id: 'user-bob', username: 'Bob', offset: 0, length: 4 },
+        { user_id: 'user-bob', username: 'Bob', offset: 38, length: 4 },
+      ]);
+      // The author is never asked about, or mentioned
+      expect(canSee).not.toHaveBeenCalledWith('user-alice');
+    });
+
+    it('should not look anything up without handles, and not throw when lookup fails', async () => {
+      expect(await MentionService.resolveMentions(authorId, 'No mentions here', jest.fn())).toEqual([]);
+      expect(mockFindByUsernames).not.toHaveBeenCalled();
+
+      mockFindByUsernames.mockRejectedValue(new Error('Throttled'));
+      expect(await MentionService.resolveMentions(authorId, 'Hi @bob', jest.fn())).toEqual([]);
+    });
+  });
+
+  describe('notifyMentions', () => {
+    it('should notify each mentioned user once, skipping users already notified', async () => {
+      const mentions = [
+        { user_id: 'user-bob', username: 'bob', offset: 0, length: 4 },
+        { user_id: 'user-bob', username: 'bob', offset: 10, length: 4 },
+        { user_id: 'user-carol', username: 'carol_n', offset: 20, length: 8 },
+      ];
+
+      await MentionService.notifyMentions(authorId, mentions, 'comment', 'comment-1', ['user-carol']);
+
+      expect(mockCreateNotification).toHaveBeenCalledTimes(1);
+      expect(mockCreateNotification).toHaveBeenCalledWith({
+        recipientId: 'user-bob',
+        type: 'mention',
+        actorId: authorId,
+        targetType: 'comment',
+        targetId: 'comment-1',
+        content: 'mentioned you in a comment',
+      });
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Mentions
+ * Resolves @username handles in post and comment content to users when the content is
+ * written, and notifies the mentioned users.
+ *
+ * Mentions are stored on the post or comment as entities (user_id, username and the
+ * position of the handle) so clients can link them without looking usernames up again.
+ * A handle that matches no user, or a user who cannot see the post, stays plain text.
+ */
+
+import { logger } from '../shared/logger';
+import { createNotification } from '../shared/notifications';
+import { UserSearchService } from '../shared/user-search';
+import { Mention } from './types';
+
+const MAX_MENTIONED_USERS = 20; // Distinct handles resolved per post or comment
+
+// "@" must not follow a word character or another "@", so emails are not mentions
+const MENTION_PATTERN = /(^|[^\w@])@([A-Za-z0-9_.]{2,50})/g;
+
+export interface MentionHandle {
+  handle: string; // Lowercase, without the "@"
+  offset: number;
+  length: number; // Including the "@"
+}
+
+export class MentionService {
+  /**
+   * Find @username handles in content, in order of appearance
+   */
+  static parseHandles(content: string): MentionHandle[] {
+    return Array.from(content.matchAll(MENTION_PATTERN), match => {
+      const handle = match[2].replace(/\.+$/, ''); // Drop sentence-ending dots
+      return {
+        handle: handle.toLowerCase(),
+        offset: match.index! + match[1].length,
+        length: handle.length + 1,
+      };
+    }).filter(({ handle }) => handle.length >= 2);
+  }
+
+  /**
+   * Resolve the handles in content to mention entities
+   * canSee decides whether a mentioned user may see the post the content belongs to.
+   * Never throws: unresolved mentions only lose their links and notifications.
+   */
+  static async resolveMentions(
+    authorId: string,
+    content: string,
+    canSee: (userId: string) => Promise<boolean>
+  ): Promise<Mention[]> {
+    const handles = this.parseHandles(content);
+    const usernames = Array.from(new Set(handles.map(({ handle }) => handle))).slice(0, MAX_MENTIONED_USERS);
+    if (usernames.length === 0) {
+      return [];
+    }
+
+    try {
+      const profiles = await UserSearchService.findByUsernames(usernames);
+
+      const allowedUserIds = new Set<string>();
+      for (const profile of profiles.values()) {
+        if (profile.user_id !== authorId && await canSee(profile.user_id)) {
+          allowedUserIds.add(profile.user_id);
+        }
+      }
+
+      return handles
+        .filter(({ handle }) => allowedUserIds.has(profiles.get(handle)?.user_id || ''))
+        .map(({ handle, offset, length }) => ({
+          user_id: profiles.get(handle)!.user_id,
+          username: profiles.get(handle)!.username,
+          offset,
+          length,
+        }));
+    } catch (error) {
+      logger.error('Failed to resolve mentions', error, { authorId });
+      return [];
+    }
+  }
+
+  /**
+   * Notify each mentioned user once, skipping users already notified for the same action
+   */
+  static async notifyMentions(
+    actorId: string,
+    mentions: Mention[],
+    targetType: 'post' | 'comment',
+    targetId: string,
+    skipUserIds: string[] = []
+  ): Promise<void> {
+    const recipientIds = new Set(mentions.map(mention => mention.user_id).filter(userId => !skipUserIds.includes(userId)));
+
+    for (const recipientId of recipientIds) {
+      await createNotification({
+        recipientId,
+        type: 'mention',
+        actorId,
+        targetType,
+        targetId,
+        content: targetType === 'post' ? 'mentioned you in a post' : 'mentioned you in a comment',
+      });
+    }
+  }
+}
@@ -7,9 +7,19 @@ import { DynamoDBHelper } from '../shared/dynamodb';
 import { generateUUID, formatTimestamp } from '../shared/utils';
 import { logger } from '../shared/logger';
 import { AppError } from '../shared/responses';
-import { Post, CreatePostRequest, UpdatePostRequest, PostResponse, Comment, CreateCommentRequest, CommentResponse, Reaction, CreateReactionRequest, ReactionType } from './types';
+import { FeedMode, Mention, Post, TrendingTag, CreatePostRequest, UpdatePostRequest, PostResponse, Comment, CreateCommentRequest, UpdateCommentRequest, CommentResponse, Reaction, CreateReactionRequest, ReactionType } from './types';
 import { PrivacySettings } from '../shared/types';
-import { getUserPrivacySettings, createPrivacyContext, checkFriendship } from '../shared/privacy-middleware';
+import { getUserPrivacySettings, createPrivacyContext, checkFriendship, checkBlocked, getBlockedUserIds } from '../shared/privacy-middleware';
+import { createNotification } from '../shared/notifications';
+import { FeedPosition, TimelinePost, TimelineService } from '../shared/timeline';
+import { FeedRankingService } from './feed-ranking';
+import { MentionService } from './mentions';
+import { HashtaggedPost, HashtagService } from './hashtags';
+
+const MAX_COMMENT_DEPTH = 2; // Top-level comments are depth 0
+const REPLY_PREVIEW_LIMIT = 3; // Replies returned with each comment, the rest are paged
+const MAX_FEED_READS = 5; // Feed reads per page when privacy filtering leaves it short
+const MAX_COMMENT_READS = 5; // Comment reads per page when replies leave it short
 
 export class PostsService {
   /**
@@ -48,6 +58,12 @@ export class PostsService {
     // Determine GSI3PK based on post visibility
     const gsi3pk = isPublic ? 'FEED#PUBLIC' : `FEED#${userId}`;
 
+    const mentions = await MentionService.resolveMentions(
+      userId,
+      request.content.trim(),
+      mentionedUserId => this.canViewPost(mentionedUserId, { user_id: userId, is_public: isPublic })
+    );
+
     const post: Post = {
       post_id: postId,
       user_id: userId,
@@ -56,6 +72,8 @@ export class PostsService {
       images: request.images || [],
       is_public: isPublic,
       privacy,
+      mentions,
+      hashtags: HashtagService.extractTags(request.content),
       likes_count: 0,
       comments_count: 0,
       created_at: now,
@@ -76,6 +94,10 @@ export class PostsService {
 
     logger.info('Post created successfully', { postId, userId, isPublic });
 
+    await TimelineService.fanOutPost(post);
+    await HashtagService.indexPost(post);
+    await MentionService.notifyMentions(userId, mentions, 'post', postId);
+
     return post;
   }
 
@@ -93,6 +115,16 @@ export class PostsService {
     const ownerId = postItem.user_id;
     const isPublic = postItem.is_public;
 
+    // Blocked users cannot see each other's posts
+    if (viewerId !== ownerId && await checkBlocked(viewerId, ownerId)) {
+      throw new AppError(403, 'access_denied', 'You do not have permission to view this post');
+    }
+
+    // Posts hidden after reports are only visible to their author
+    if (postItem.is_hidden && viewerId !== ownerId) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
     // If post is public, anyone can view
     if (isPublic) {
       return this.convertDynamoItemToPost(postItem);
@@ -160,6 +192,10 @@ export class PostsService {
       updateExpressions.push('#content = :content');
       expressionAttributeNames['#content'] = 'content';
       expressionAttributeValues[':content'] = request.content.trim();
+
+      updateExpressions.push('#hashtags = :hashtags');
+      expressionAttributeNames['#hashtags'] = 'hashtags';
+      expressionAttributeValues[':hashtags'] = HashtagService.extractTags(request.content);
     }
 
     if (request.images !== undefined) {
@@ -185,6 +221,11 @@ export class PostsService {
       updateExpressions.push('#is_public = :is_public');
       expressionAttributeNames['#is_public'] = 'is_public';
       expressionAttributeValues[':is_public'] = request.is_public;
+
+      // Keep privacy in step, the same way createPost maps the legacy field
+      updateExpressions.push('#privacy = :privacy');
+      expressionAttributeNames['#privacy'] = 'privacy';
+      expressionAttributeValues[':privacy'] = request.is_public ? 'public' : 'private';
       
       // Update GSI3PK if visibility changed
       const newGsi3pk = request.is_public ? 'FEED#PUBLIC' : `FEED#${userId}`;
@@ -195,6 +236,24 @@ export class PostsService {
       }
     }
 
+    // Re-resolve mentions against the new content and visibility
+    let mentions: Mention[] | undefined;
+    if (request.content !== undefined || request.is_public !== undefined) {
+      const updatedPost = {
+        ...postItem,
+        content: request.content !== undefined ? request.content.trim() : postItem.content,
+        is_public: request.is_public !== undefined ? request.is_public : postItem.is_public,
+      };
+      mentions = await MentionService.resolveMentions(
+        userId,
+        updatedPost.content,
+        mentionedUserId => this.canViewPost(mentionedUserId, updatedPost)
+      );
+      updateExpressions.push('#mentions = :mentions');
+      expressionAttributeNames['#mentions'] = 'mentions';
+      expressionAttributeValues[':mentions'] = mentions;
+    }
+
     // Build update expression
     const updateExpression = `SET ${updateExpressions.join(', ')}`;
 
@@ -209,6 +268,21 @@ export class PostsService {
 
     logger.info('Post updated successfully', { postId, userId, updates: Object.keys(updates) });
 
+    const wasShared = TimelineService.isSharedWithFriends(postItem as TimelinePost);
+    if (updatedItem && wasShared !== TimelineService.isSharedWithFriends(updatedItem as TimelinePost)) {
+      await TimelineService.updatePostVisibility(updatedItem as TimelinePost);
+    }
+
+    if (updatedItem && (request.content !== undefined || request.is_public !== undefined)) {
+      await HashtagService.indexPost(updatedItem as HashtaggedPost, postItem as HashtaggedPost);
+    }
+
+    // Only users mentioned by this edit are notified
+    if (mentions) {
+      const previouslyMentioned = (postItem.mentions || []).map((mention: Mention) => mention.user_id);
+      await MentionService.notifyMentions(userId, mentions, 'post', postId, previouslyMentioned);
+    }
+
     return this.convertDynamoItemToPost(updatedItem);
   }
 
@@ -230,6 +304,8 @@ export class PostsService {
 
     // Delete the post
     await DynamoDBHelper.delete(`POST#${postId}`, 'METADATA');
+    await TimelineService.removePost(postItem as TimelinePost);
+    await HashtagService.removePost(postItem as HashtaggedPost);
 
     // TODO: In future, also delete associated comments and reactions
     // This would be done in a separate cleanup process or using DynamoDB Streams
@@ -317,6 +393,9 @@ export class PostsService {
       content: item.content,
       images: item.images || [],
       is_public: item.is_public,
+      mentions: item.mentions || [],
+      hashtags: item.hashtags || [],
+      ...(item.is_hidden && { is_hidden: true }),
       likes_count: item.likes_count || 0,
       comments_count: item.comments_count || 0,
       created_at: item.created_at,
@@ -326,128 +405,41 @@ export class PostsService {
 
   /**
    * Get personalized feed for user
-   * Combines public posts and friends' posts with privacy filtering
+   * Merges the user's timeline (their own posts plus friends' shared posts, written when each
+   * post was created) with recent public posts. The "top" mode ranks the same posts (see
+   * feed-ranking).
    */
   static async getFeed(
     userId: string,
     limit: number = 20,
-    lastKey?: any
+    lastKey?: any,
+    mode: FeedMode = 'recent'
   ): Promise<{ posts: PostResponse[]; nextKey?: any; hasMore: boolean }> {
     // Validate limit
     if (limit < 1 || limit > 100) {
       throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
     }
 
-    try {
-      // Get user's friends list
-      const friendships = await this.getUserFriends(userId);
-      const friendIds = friendships.map(f => f.user_id);
-
-      // Query public posts using GSI3
-      const publicPostsResult = await DynamoDBHelper.query({
-        IndexName: 'GSI3',
-        KeyConditionExpression: 'GSI3PK = :pk',
-        ExpressionAttributeValues: {
-          ':pk': 'FEED#PUBLIC',
-        },
-        ScanIndexForward: false, // Sort by newest first
-        Limit: limit * 2, // Get more to account for filtering
-        ExclusiveStartKey: lastKey,
-      });
-
-      let allPosts = publicPostsResult.Items || [];
-
-      // Always include user's own posts
-      const ownPostsResult = await DynamoDBHelper.query({
-        IndexName: 'GSI1',
-        KeyConditionExpression: 'GSI1PK = :pk',
-        ExpressionAttributeValues: {
-          ':pk': `USER#${userId}`,
-        },
-        ScanIndexForward: false,
-        Limit: 10, // Get user's recent posts
-      });
-      
-      allPosts = [...allPosts, ...(ownPostsResult.Items || [])];
-
-      // If user has friends, also query their posts
-      if (friendIds.length > 0) {
-        // Query each friend's posts (limited to avoid too many queries)
-        const friendPostPromises = friendIds.slice(0, 10).map(friendId =>
-          DynamoDBHelper.query({
-            IndexName: 'GSI1',
-            KeyConditionExpression: 'GSI1PK = :pk',
-            ExpressionAttributeValues: {
-              ':pk': `USER#${friendId}`,
-            },
-            ScanIndexForward: false,
-            Limit: 5, // Limit per friend to avoid overload
-          })
-        );
-
-        const friendPostsResults = await Promise.all(friendPostPromises);
-        const friendPosts = friendPostsResults.flatMap(result => result.Items || []);
-        
-        allPosts = [...allPosts, ...friendPosts];
-      }
-
-      // Remove duplicates based on post_id
-      const uniquePosts = Array.from(
-        new Map(allPosts.map(post => [post.post_id, post])).values()
-      );
-
-      // Sort by created_at descending (newest first)
-      uniquePosts.sort((a, b) => {
-        const dateA = new Date(a.created_at).getTime();
-        const dateB = new Date(b.created_at).getTime();
-        return dateB - dateA;
-      });
-
-      // Apply privacy filtering
-      const filteredPosts: PostResponse[] = [];
-      
-      for (const postItem of uniquePosts) {
-        if (filteredPosts.length >= limit) break;
-
-        try {
-          // Check if user can view this post
-          const canView = await this.canViewPost(userId, postItem);
-          
-          if (canView) {
-            const post = this.convertDynamoItemToPost(postItem);
-            
-            // Get user and recipe info
-            const userInfo = await this.getUserInfo(post.user_id, userId);
-            const recipeInfo = post.recipe_id
-              ? await this.getRecipeInfo(post.recipe_id)
-              : null;
+    if (mode !== 'recent' && mode !== 'top') {
+      throw new AppError(400, 'invalid_mode', 'Mode must be "recent" or "top"');
+    }
 
-            filteredPosts.push({
-              post,
-              user: userInfo,
-              recipe: recipeInfo || undefined,
-            });
-          }
-        } catch (error) {
-          // Skip posts that cause errors (e.g., deleted users)
-          logger.error('Error processing post in feed', error, { postId: postItem.post_id });
-          continue;
-        }
-      }
+    try {
+      const { posts, nextKey } = mode === 'top'
+        ? await this.getTopFeed(userId, limit, lastKey)
+        : await this.getRecentFeed(userId, limit, lastKey);
 
-      // Determine if there are more posts
-      const hasMore = uniquePosts.length > limit && publicPostsResult.LastEvaluatedKey !== undefined;
-      const nextKey = hasMore ? publicPostsResult.LastEvaluatedKey : undefined;
+      const hasMore = nextKey !== undefined;
 
       logger.info('Feed generated successfully', {
         userId,
-        postsReturned: filteredPosts.length,
+        mode,
+        postsReturned: posts.length,
         hasMore,
-        friendCount: friendIds.length,
       });
 
       return {
-        posts: filteredPosts,
+        posts,
         nextKey,
         hasMore,
       };
@@ -457,6 +449,57 @@ export class PostsService {
     }
   }
 
+  /**
+   * Get posts with a hashtag, newest first, with privacy filtering
+   */
+  static async getTagPosts(
+    tag: string,
+    viewerId: string,
+    limit: number = 20,
+    lastKey?: any
+  ): Promise<{ tag: string; posts: PostResponse[]; nextKey?: any; hasMore: boolean }> {
+    const normalizedTag = HashtagService.normalizeTag(tag);
+    if (!normalizedTag) {
+      throw new AppError(400, 'invalid_tag', 'Tag must contain at least one letter');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
+    }
+
+    const { postItems, nextKey } = await HashtagService.getTagPostItems(normalizedTag, limit, lastKey);
+    const posts = await this.buildVisiblePostResponses(postItems, viewerId, limit);
+
+    logger.info('Tag posts retrieved successfully', {
+      tag: normalizedTag,
+      viewerId,
+      postsReturned: posts.length,
+      hasMore: nextKey !== undefined,
+    });
+
+    return {
+      tag: normalizedTag,
+      posts,
+      nextKey,
+      hasMore: nextKey !== undefined,
+    };
+  }
+
+  /**
+   * Get the most used hashtags on public posts over the last `days` days
+   */
+  static async getTrendingTags(days: number = 1, limit: number = 10): Promise<TrendingTag[]> {
+    if (!Number.isInteger(days) || days < 1 || days > 7) {
+      throw new AppError(400, 'invalid_days', 'Days must be between 1 and 7');
+    }
+
+    if (limit < 1 || limit > 50) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 50');
+    }
+
+    return HashtagService.getTrendingTags(days, limit);
+  }
+
   /**
    * Get posts by a specific user with privacy filtering
    * Task 17.1 - Display user's public posts on their profile
@@ -477,6 +520,11 @@ export class PostsService {
       const isSelf = viewerId === targetUserId;
       const isFriend = !isSelf && await checkFriendship(viewerId, targetUserId);
 
+      // Blocked users see none of each other's posts
+      if (!isSelf && !isFriend && await checkBlocked(viewerId, targetUserId)) {
+        return { posts: [], hasMore: false };
+      }
+
       // Query user's posts using GSI1
       const result = await DynamoDBHelper.query({
         IndexName: 'GSI1',
@@ -500,6 +548,11 @@ export class PostsService {
           // Apply privacy filtering
           const isPublic = postItem.is_public;
 
+          // Posts hidden after reports are only shown to their author
+          if (!isSelf && postItem.is_hidden) {
+            continue;
+          }
+
           // If viewing own posts, show all
           if (isSelf) {
             const post = this.convertDynamoItemToPost(postItem);
@@ -574,36 +627,302 @@ export class PostsService {
   }
 
   /**
-   * Get user's friends list
+   * Ranked posts first, then the recent feed for posts older than the ranked window
+   * A page where the ranking ends is filled from the recent feed; its cursor ({ before }) is
+   * a recent feed cursor, which later "top" pages keep following.
    */
-  private static async getUserFriends(userId: string): Promise<Array<{ user_id: string }>> {
-    try {
+  private static async getTopFeed(
+    userId: string,
+    limit: number,
+    lastKey?: any
+  ): Promise<{ posts: PostResponse[]; nextKey?: any }> {
+    if (lastKey?.before) {
+      return this.getRecentFeed(userId, limit, lastKey);
+    }
+
+    const ranked = await FeedRankingService.getRankedPostItems(userId, limit, lastKey);
+    const posts = await this.buildVisiblePostResponses(ranked.postItems, userId, limit);
+
+    if (ranked.nextKey && 'before' in ranked.nextKey && posts.length < limit) {
+      const recent = await this.getRecentFeed(userId, limit - posts.length, ranked.nextKey);
+      return { posts: [...posts, ...recent.posts], nextKey: recent.nextKey };
+    }
+
+    return { posts, nextKey: ranked.nextKey };
+  }
+
+  /**
+   * Timeline and public posts newest first, read until the page is full
+   * The cursor is the position of the last post returned; cursors from before the merged
+   * feed restart at the newest posts.
+   */
+  private static async getRecentFeed(
+    userId: string,
+    limit: number,
+    lastKey?: any
+  ): Promise<{ posts: PostResponse[]; nextKey?: { before: FeedPosition } }> {
+    const posts: PostResponse[] = [];
+    let before: FeedPosition | undefined = lastKey?.before;
+    let hasMore = true;
+
+    for (let reads = 0; reads < MAX_FEED_READS && hasMore && posts.length < limit; reads++) {
+      const page = await TimelineService.getHomeFeedPage(userId, limit, before);
+      const visible = await this.buildVisiblePostResponses(page.posts, userId, limit - posts.length);
+      posts.push(...visible);
+      hasMore = page.hasMore;
+
+      const last = visible[visible.length - 1]?.post;
+      if (posts.length >= limit && last && last.post_id !== page.oldest?.post_id) {
+        // The page filled up before the end of what was read
+        before = { created_at: last.created_at, post_id: last.post_id };
+        hasMore = true;
+      } else if (page.oldest) {
+        before = page.oldest;
+      }
+    }
+
+    return {
+      posts,
+      ...(hasMore && before && { nextKey: { before } }),
+    };
+  }
+
+  /**
+   * Build responses for the posts the viewer may see, with author and recipe info
+   */
+  private static async buildVisiblePostResponses(
+    postItems: any[],
+    viewerId: string,
+    limit: number
+  ): Promise<PostResponse[]> {
+    const filteredPosts: PostResponse[] = [];
+    const blockedUserIds = new Set(await getBlockedUserIds(viewerId));
+
+    for (const postItem of postItems) {
+      if (filteredPosts.length >= limit) break;
+
+      try {
+        // Check if user can view this post
+        const canView = await this.canViewPost(viewerId, postItem, blockedUserIds);
+
+        if (canView) {
+          const post = this.convertDynamoItemToPost(postItem);
+
+          // Get user and recipe info
+          const userInfo = await this.getUserInfo(post.user_id, viewerId);
+          const recipeInfo = post.recipe_id
+            ? await this.getRecipeInfo(post.recipe_id)
+            : null;
+
+          filteredPosts.push({
+            post,
+            user: userInfo,
+            recipe: recipeInfo || undefined,
+          });
+        }
+      } catch (error) {
+        // Skip posts that cause errors (e.g., deleted users)
+        logger.error('Error processing post', error, { postId: postItem.post_id });
+        continue;
+      }
+    }
+
+    return filteredPosts;
+  }
+
+  /**
+   * Find a comment in a post's partition by ID
+   */
+  private static async findComment(postId: string, commentId: string): Promise<any | null> {
+    return this.findCommentWhere(postId, 'comment_id = :commentId', commentId);
+  }
+
+  /**
+   * Nesting depth of a comment
+   * Comments written before depth was stored are treated as top-level or first-level replies
+   */
+  private static getCommentDepth(commentItem: any): number {
+    if (typeof commentItem.depth === 'number') {
+      return commentItem.depth;
+    }
+    return commentItem.parent_comment_id ? 1 : 0;
+  }
+
+  /**
+   * Convert DynamoDB item to Comment object, hiding the content of deleted placeholders and,
+   * from anyone but the author, of comments hidden after reports
+   */
+  private static convertDynamoItemToComment(item: any, viewerId?: string): Comment {
+    const masked = item.is_deleted || this.isHiddenFrom(item, viewerId);
+
+    return {
+      comment_id: item.comment_id,
+      post_id: item.post_id,
+      user_id: masked ? '' : item.user_id,
+      parent_comment_id: item.parent_comment_id,
+      content: masked ? '' : item.content,
+      mentions: masked ? [] : item.mentions || [],
+      depth: this.getCommentDepth(item),
+      reply_count: item.reply_count || 0,
+      ...(item.is_deleted && { is_deleted: true }),
+      ...(item.is_hidden && { is_hidden: true }),
+      ...(item.edited_at && { edited_at: item.edited_at }),
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+    };
+  }
+
+  /**
+   * Whether a comment hidden after reports should be masked for a viewer (everyone but its author)
+   */
+  private static isHiddenFrom(item: any, viewerId?: string): boolean {
+    return !!item.is_hidden && viewerId !== undefined && viewerId !== item.user_id;
+  }
+
+  /**
+   * Build comment responses with the first page of each comment's replies
+   */
+  private static async buildCommentResponses(items: any[], viewerId: string): Promise<CommentResponse[]> {
+    const responses: CommentResponse[] = [];
+
+    for (const item of items) {
+      let user;
+      if (item.is_deleted) {
+        user = { user_id: '', username: '[deleted]' };
+      } else if (this.isHiddenFrom(item, viewerId)) {
+        user = { user_id: '', username: '[hidden]' };
+      } else {
+        user = await this.getUserInfo(item.user_id, viewerId);
+      }
+
+      const response: CommentResponse = {
+        comment: this.convertDynamoItemToComment(item, viewerId),
+        user,
+        replies: [],
+      };
+
+      if ((item.reply_count || 0) > 0) {
+        const page = await this.getReplyPage(item.post_id, item.comment_id, viewerId, REPLY_PREVIEW_LIMIT);
+        response.replies = page.replies;
+        response.replies_next_key = page.next_key;
+      }
+
+      responses.push(response);
+    }
+
+    return responses;
+  }
+
+  /**
+   * Whether a comment has replies
+   * Comments from before reply counts were kept are checked on the post's comments, since their
+   * replies have no GSI2 keys until scripts/backfill-comment-replies.ts has run.
+   */
+  private static async hasReplies(postId: string, commentItem: any): Promise<boolean> {
+    if (commentItem.reply_count !== undefined) {
+      return commentItem.reply_count > 0;
+    }
+
+    const reply = await this.findCommentWhere(postId, 'parent_comment_id = :commentId', commentItem.comment_id);
+    return !!reply;
+  }
+
+  /**
+   * First comment on a post matching a filter on :commentId, paging through the post's comments
+   */
+  private static async findCommentWhere(postId: string, filterExpression: string, commentId: string): Promise<any | null> {
+    let exclusiveStartKey: any;
+
+    do {
       const result = await DynamoDBHelper.query({
         KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-        FilterExpression: '#status = :status',
-        ExpressionAttributeNames: {
-          '#status': 'status',
-        },
+        FilterExpression: filterExpression,
         ExpressionAttributeValues: {
-          ':pk': `USER#${userId}`,
-          ':sk': 'FRIEND#',
-          ':status': 'accepted',
+          ':pk': `POST#${postId}`,
+          ':sk': 'COMMENT#',
+          ':commentId': commentId,
         },
+        ExclusiveStartKey: exclusiveStartKey,
       });
 
-      return (result.Items || []).map(item => ({
-        user_id: item.addressee_id,
-      }));
-    } catch (error) {
-      logger.error('Failed to get user friends', error, { userId });
-      return [];
+      if (result.Items && result.Items.length > 0) {
+        return result.Items[0];
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return null;
+  }
+
+  /**
+   * Query one page of a comment's replies from GSI2
+   */
+  private static async getReplyPage(
+    postId: string,
+    commentId: string,
+    viewerId: string,
+    limit: number,
+    exclusiveStartKey?: any
+  ): Promise<{ replies: CommentResponse[]; next_key?: string; has_more: boolean }> {
+    const result = await DynamoDBHelper.query({
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `COMMENT#${commentId}`,
+        ':sk': 'REPLY#',
+      },
+      ScanIndexForward: true, // Oldest replies first
+      Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+
+    // The comment ID comes from the request, so only return replies on the checked post
+    const items = (result.Items || []).filter(item => item.post_id === postId);
+
+    return {
+      replies: await this.buildCommentResponses(items, viewerId),
+      next_key: result.LastEvaluatedKey
+        ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64')
+        : undefined,
+      has_more: !!result.LastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Delete a comment item and update its parent's reply count
+   * A deleted placeholder goes once its last reply is gone
+   */
+  private static async removeCommentItem(postId: string, commentItem: any): Promise<void> {
+    await DynamoDBHelper.delete(`POST#${postId}`, commentItem.SK);
+
+    if (!commentItem.parent_comment_id) {
+      return;
+    }
+
+    const parentItem = await this.findComment(postId, commentItem.parent_comment_id);
+    if (!parentItem) {
+      return;
+    }
+
+    const updatedParent = await DynamoDBHelper.update(
+      `POST#${postId}`,
+      parentItem.SK,
+      'SET reply_count = if_not_exists(reply_count, :one) - :dec',
+      {
+        ':dec': 1,
+        ':one': 1,
+      }
+    );
+
+    if (parentItem.is_deleted && (updatedParent?.reply_count || 0) <= 0) {
+      await this.removeCommentItem(postId, parentItem);
     }
   }
 
   /**
    * Check if user can view a post based on privacy settings
    */
-  private static async canViewPost(viewerId: string, postItem: any): Promise<boolean> {
+  private static async canViewPost(viewerId: string, postItem: any, blockedUserIds?: Set<string>): Promise<boolean> {
     const postOwnerId = postItem.user_id;
     const isPublic = postItem.is_public;
 
@@ -612,6 +931,17 @@ export class PostsService {
       return true;
     }
 
+    // Posts hidden after reports are only visible to their author
+    if (postItem.is_hidden) {
+      return false;
+    }
+
+    // Blocked users cannot see each other's posts
+    const isBlocked = blockedUserIds ? blockedUserIds.has(postOwnerId) : await checkBlocked(viewerId, postOwnerId);
+    if (isBlocked) {
+      return false;
+    }
+
     // Public posts are viewable by everyone
     if (isPublic) {
       return true;
@@ -648,22 +978,33 @@ export class PostsService {
     }
 
     // If parent comment provided, verify it exists
+    let parentCommentItem: any;
+    let depth = 0;
     if (request.parent_comment_id) {
-      const parentComment = await DynamoDBHelper.query({
-        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-        FilterExpression: 'comment_id = :commentId',
-        ExpressionAttributeValues: {
-          ':pk': `POST#${request.post_id}`,
-          ':sk': `COMMENT#`,
-          ':commentId': request.parent_comment_id,
-        },
-      });
+      parentCommentItem = await this.findComment(request.post_id, request.parent_comment_id);
 
-      if (!parentComment.Items || parentComment.Items.length === 0) {
+      if (!parentCommentItem || parentCommentItem.is_deleted) {
         throw new AppError(404, 'parent_comment_not_found', 'Parent comment not found');
       }
+
+      depth = this.getCommentDepth(parentCommentItem) + 1;
+      if (depth > MAX_COMMENT_DEPTH) {
+        throw new AppError(400, 'max_depth_exceeded', `Replies can only be nested ${MAX_COMMENT_DEPTH} levels deep`);
+      }
+
+      // Blocked users cannot reply to each other
+      if (parentCommentItem.user_id !== userId && await checkBlocked(userId, parentCommentItem.user_id)) {
+        throw new AppError(403, 'forbidden', 'You do not have permission to reply to this comment');
+      }
     }
 
+    // Comments are seen by whoever can see the post
+    const mentions = await MentionService.resolveMentions(
+      userId,
+      request.content.trim(),
+      mentionedUserId => this.canViewPost(mentionedUserId, postItem)
+    );
+
     const commentId = generateUUID();
     const now = formatTimestamp();
 
@@ -673,6 +1014,9 @@ export class PostsService {
       user_id: userId,
       parent_comment_id: request.parent_comment_id,
       content: request.content.trim(),
+      mentions,
+      depth,
+      reply_count: 0,
       created_at: now,
       updated_at: now,
     };
@@ -685,8 +1029,25 @@ export class PostsService {
       ...comment,
       GSI1PK: `USER#${userId}`, // For querying user's comments
       GSI1SK: `COMMENT#${now}`,
+      // Replies are paged per parent on GSI2
+      ...(parentCommentItem && {
+        GSI2PK: `COMMENT#${parentCommentItem.comment_id}`,
+        GSI2SK: `REPLY#${now}#${commentId}`,
+      }),
     });
 
+    if (parentCommentItem) {
+      await DynamoDBHelper.update(
+        `POST#${request.post_id}`,
+        parentCommentItem.SK,
+        'SET reply_count = if_not_exists(reply_count, :zero) + :inc',
+        {
+          ':inc': 1,
+          ':zero': 0,
+        }
+      );
+    }
+
     // Increment post comments_count
     await DynamoDBHelper.update(
       `POST#${request.post_id}`,
@@ -701,6 +1062,31 @@ export class PostsService {
 
     logger.info('Comment created successfully', { commentId, postId: request.post_id, userId });
 
+    // Notify the post owner, and the parent comment author for replies
+    const notifiedUserIds = [postItem.user_id];
+    await createNotification({
+      recipientId: postItem.user_id,
+      type: 'comment',
+      actorId: userId,
+      targetType: 'post',
+      targetId: request.post_id,
+      content: 'commented on your post',
+    });
+
+    if (parentCommentItem && !notifiedUserIds.includes(parentCommentItem.user_id)) {
+      notifiedUserIds.push(parentCommentItem.user_id);
+      await createNotification({
+        recipientId: parentCommentItem.user_id,
+        type: 'comment',
+        actorId: userId,
+        targetType: 'comment',
+        targetId: parentCommentItem.comment_id,
+        content: 'replied to your comment',
+      });
+    }
+
+    await MentionService.notifyMentions(userId, mentions, 'comment', commentId, notifiedUserIds);
+
     return comment;
   }
 
@@ -739,73 +1125,204 @@ export class PostsService {
       }
     }
 
-    // Query comments for the post
-    const result = await DynamoDBHelper.query({
-      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
-      ExpressionAttributeValues: {
-        ':pk': `POST#${postId}`,
-        ':sk': 'COMMENT#',
-      },
-      ScanIndexForward: true, // Oldest comments first
-      Limit: limit,
-      ExclusiveStartKey: exclusiveStartKey,
-    });
-
-    const commentItems = result.Items || [];
-
-    // Build comment tree (top-level comments with nested replies)
-    const commentsMap = new Map<string, CommentResponse>();
-    const topLevelComments: CommentResponse[] = [];
+    // Replies share the post's comment range, so read until the page has enough top-level comments
+    const items: any[] = [];
+    let nextStartKey: any = exclusiveStartKey;
 
-    // First pass: Create all comment responses
-    for (const item of commentItems) {
-      const userInfo = await this.getUserInfo(item.user_id, viewerId);
-      
-      const commentResponse: CommentResponse = {
-        comment: {
-          comment_id: item.comment_id,
-          post_id: item.post_id,
-          user_id: item.user_id,
-          parent_comment_id: item.parent_comment_id,
-          content: item.content,
-          created_at: item.created_at,
-          updated_at: item.updated_at,
+    for (let reads = 0; reads < MAX_COMMENT_READS && items.length < limit; reads++) {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'attribute_not_exists(parent_comment_id)',
+        ExpressionAttributeValues: {
+          ':pk': `POST#${postId}`,
+          ':sk': 'COMMENT#',
         },
-        user: userInfo,
-        replies: [],
-      };
+        ScanIndexForward: true, // Oldest comments first
+        Limit: limit,
+        ExclusiveStartKey: nextStartKey,
+      });
 
-      commentsMap.set(item.comment_id, commentResponse);
-    }
+      items.push(...(result.Items || []));
+      nextStartKey = result.LastEvaluatedKey;
 
-    // Second pass: Build tree structure
-    for (const commentResponse of commentsMap.values()) {
-      if (commentResponse.comment.parent_comment_id) {
-        // This is a reply, add to parent's replies
-        const parent = commentsMap.get(commentResponse.comment.parent_comment_id);
-        if (parent) {
-          parent.replies = parent.replies || [];
-          parent.replies.push(commentResponse);
-        }
-      } else {
-        // This is a top-level comment
-        topLevelComments.push(commentResponse);
+      if (items.length > limit) {
+        // The page filled up before the end of what was read
+        items.length = limit;
+        const last = items[limit - 1];
+        nextStartKey = { PK: last.PK, SK: last.SK };
       }
+
+      if (!nextStartKey) break;
     }
 
+    const comments = await this.buildCommentResponses(items, viewerId);
+
     // Encode next pagination key
     let nextKey: string | undefined;
-    if (result.LastEvaluatedKey) {
-      nextKey = Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64');
+    if (nextStartKey) {
+      nextKey = Buffer.from(JSON.stringify(nextStartKey)).toString('base64');
     }
 
     return {
-      comments: topLevelComments,
+      comments,
       next_key: nextKey,
-      has_more: !!result.LastEvaluatedKey,
+      has_more: !!nextStartKey,
     };
   }
 
+  /**
+   * Get a page of replies to a comment, oldest first
+   */
+  static async getReplies(
+    postId: string,
+    commentId: string,
+    viewerId: string,
+    limit: number = 20,
+    lastKey?: string
+  ): Promise<{ replies: CommentResponse[]; next_key?: string; has_more: boolean }> {
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
+    const canView = await this.canViewPost(viewerId, postItem);
+    if (!canView) {
+      throw new AppError(403, 'forbidden', 'You do not have permission to view this post');
+    }
+
+    if (limit < 1 || limit > 100) {
+      throw new AppError(400, 'invalid_limit', 'Limit must be between 1 and 100');
+    }
+
+    let exclusiveStartKey: any = undefined;
+    if (lastKey) {
+      try {
+        exclusiveStartKey = JSON.parse(Buffer.from(lastKey, 'base64').toString('utf-8'));
+      } catch (error) {
+        throw new AppError(400, 'invalid_pagination_token', 'Invalid pagination token');
+      }
+    }
+
+    return this.getReplyPage(postId, commentId, viewerId, limit, exclusiveStartKey);
+  }
+
+  /**
+   * Edit a comment (only the author can edit)
+   */
+  static async updateComment(
+    postId: string,
+    commentId: string,
+    userId: string,
+    request: UpdateCommentRequest
+  ): Promise<Comment> {
+    if (!request.content || request.content.trim().length === 0) {
+      throw new AppError(400, 'missing_content', 'Comment content is required');
+    }
+
+    if (request.content.length > 2000) {
+      throw new AppError(400, 'content_too_long', 'Comment must be less than 2000 characters');
+    }
+
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
+    const commentItem = await this.findComment(postId, commentId);
+    if (!commentItem || commentItem.is_deleted) {
+      throw new AppError(404, 'comment_not_found', 'Comment not found');
+    }
+
+    if (commentItem.user_id !== userId) {
+      throw new AppError(403, 'forbidden', 'You can only edit your own comments');
+    }
+
+    const content = request.content.trim();
+    const mentions = await MentionService.resolveMentions(
+      userId,
+      content,
+      mentionedUserId => this.canViewPost(mentionedUserId, postItem)
+    );
+    const now = formatTimestamp();
+
+    const updatedItem = await DynamoDBHelper.update(
+      `POST#${postId}`,
+      commentItem.SK,
+      'SET #content = :content, mentions = :mentions, edited_at = :now, updated_at = :now',
+      {
+        ':content': content,
+        ':mentions': mentions,
+        ':now': now,
+      },
+      { '#content': 'content' }
+    );
+
+    logger.info('Comment updated successfully', { commentId, postId, userId });
+
+    // Only users mentioned by this edit are notified
+    const previouslyMentioned = (commentItem.mentions || []).map((mention: Mention) => mention.user_id);
+    await MentionService.notifyMentions(userId, mentions, 'comment', commentId, previouslyMentioned);
+
+    return this.convertDynamoItemToComment(updatedItem || { ...commentItem, content, mentions, edited_at: now, updated_at: now });
+  }
+
+  /**
+   * Delete a comment (its author or the post owner can delete)
+   * Comments with replies become a placeholder so the thread stays intact; the placeholder
+   * is removed with its last reply.
+   */
+  static async deleteComment(postId: string, commentId: string, userId: string): Promise<{ soft_deleted: boolean }> {
+    const postItem = await DynamoDBHelper.get(`POST#${postId}`, 'METADATA');
+    if (!postItem) {
+      throw new AppError(404, 'post_not_found', 'Post not found');
+    }
+
+    const commentItem = await this.findComment(postId, commentId);
+    if (!commentItem || commentItem.is_deleted) {
+      throw new AppError(404, 'comment_not_found', 'Comment not found');
+    }
+
+    if (commentItem.user_id !== userId && postItem.user_id !== userId) {
+      throw new AppError(403, 'forbidden', 'You can only delete your own comments or comments on your posts');
+    }
+
+    const now = formatTimestamp();
+    const softDelete = await this.hasReplies(postId, commentItem);
+
+    if (softDelete) {
+      await DynamoDBHelper.update(
+        `POST#${postId}`,
+        commentItem.SK,
+        'SET is_deleted = :deleted, #content = :empty, mentions = :none, deleted_at = :now, updated_at = :now',
+        {
+          ':deleted': true,
+          ':empty': '',
+          ':none': [],
+          ':now': now,
+        },
+        { '#content': 'content' }
+      );
+    } else {
+      await this.removeCommentItem(postId, commentItem);
+    }
+
+    // Placeholders do not count as comments
+    await DynamoDBHelper.update(
+      `POST#${postId}`,
+      'METADATA',
+      'SET comments_count = if_not_exists(comments_count, :one) - :dec, updated_at = :now',
+      {
+        ':dec': 1,
+        ':one': 1,
+        ':now': now,
+      }
+    );
+
+    logger.info('Comment deleted successfully', { commentId, postId, userId, softDelete });
+
+    return { soft_deleted: softDelete };
+  }
+
   /**
    * Create a reaction on a post or comment
    */
@@ -858,7 +1375,7 @@ export class PostsService {
         },
       });
 
-      if (!commentsResult.Items || commentsResult.Items.length === 0) {
+      if (!commentsResult.Items || commentsResult.Items.length === 0 || commentsResult.Items[0].is_deleted) {
         throw new AppError(404, 'comment_not_found', 'Comment not found');
       }
 
@@ -866,6 +1383,10 @@ export class PostsService {
       targetPK = `POST#${targetItem.post_id}`;
       targetSK = targetItem.SK;
 
+      if (targetItem.user_id !== userId && await checkBlocked(userId, targetItem.user_id)) {
+        throw new AppError(403, 'forbidden', 'You do not have permission to react to this comment');
+      }
+
       // Check if user can view the post (comments inherit post's privacy)
       const postItem = await DynamoDBHelper.get(`POST#${targetItem.post_id}`, 'METADATA');
       if (postItem) {
@@ -946,6 +1467,15 @@ export class PostsService {
 
     logger.info('Reaction created successfully', { reactionId, targetType: request.target_type, targetId: request.target_id, userId });
 
+    await createNotification({
+      recipientId: targetItem.user_id,
+      type: 'reaction',
+      actorId: userId,
+      targetType: request.target_type,
+      targetId: request.target_type === 'post' ? request.target_id : targetItem.comment_id,
+      content: request.target_type === 'post' ? 'reacted to your post' : 'reacted to your comment',
+    });
+
     return reaction;
   }
 
@@ -6,6 +6,7 @@ import { handler } from './index';
 import { APIGatewayEvent } from '../shared/types';
 import { DynamoDBHelper } from '../shared/dynamodb';
 import { checkFriendship } from '../shared/privacy-middleware';
+import { createNotification } from '../shared/notifications';
 
 // Mock dependencies
 jest.mock('../shared/dynamodb', () => ({
@@ -46,6 +47,11 @@ jest.mock('../shared/privacy-middleware', () => ({
     isFriend: true,
   }),
   checkFriendship: jest.fn().mockResolvedValue(true),
+  checkBlocked: jest.fn().mockResolvedValue(false),
+  getBlockedUserIds: jest.fn().mockResolvedValue([]),
+}));
+jest.mock('../shared/notifications', () => ({
+  createNotification: jest.fn(),
 }));
 
 const mockQuery = DynamoDBHelper.query as jest.MockedFunction<typeof DynamoDBHelper.query>;
@@ -150,6 +156,17 @@ describe('Reactions and Likes System - Unit Tests', () => {
           ':inc': 1,
         })
       );
+
+      // Verify post owner was notified
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          recipientId: 'other-user',
+          type: 'reaction',
+          actorId: mockUserId,
+          targetType: 'post',
+          targetId: mockPostId,
+        })
+      );
     });
 
     test('should create a "love" reaction on a post', async () => {
@@ -300,6 +317,9 @@ describe('Reactions and Likes System - Unit Tests', () => {
           ':dec': 1,
         })
       );
+
+      // Removing a reaction does not notify anyone
+      expect(createNotification).not.toHaveBeenCalled();
     });
 
     test('should update reaction when changing type', async () => {
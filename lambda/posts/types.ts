@@ -2,6 +2,17 @@
  * Posts Management Types
  */
 
+/**
+ * An @username in post or comment content, resolved to a user when the content was written
+ * offset/length locate the "@username" text in the content
+ */
+export interface Mention {
+  user_id: string;
+  username: string;
+  offset: number;
+  length: number;
+}
+
 export interface Post {
   post_id: string;
   user_id: string;
@@ -10,6 +21,9 @@ export interface Post {
   images?: string[];
   is_public: boolean; // Legacy field
   privacy?: 'public' | 'friends' | 'private'; // New field
+  mentions?: Mention[];
+  hashtags?: string[]; // Normalized, without the "#"
+  is_hidden?: boolean; // Hidden after reports, visible to its author only
   likes_count: number;
   comments_count: number;
   created_at: string;
@@ -53,9 +67,31 @@ export interface DeletePostRequest {
   post_id: string;
 }
 
+/**
+ * A tag with the number of public posts using it in the trending window
+ */
+export interface TrendingTag {
+  tag: string;
+  post_count: number;
+}
+
+/**
+ * Feed ordering: reverse-chronological, or ranked by engagement and affinity
+ */
+export type FeedMode = 'recent' | 'top';
+
 export interface GetFeedRequest {
   limit?: number;
   last_key?: string; // Encoded pagination token
+  mode?: FeedMode;
+}
+
+/**
+ * Position in a stored "top" feed ranking
+ */
+export interface RankedFeedCursor {
+  ranking_id: string;
+  offset: number;
 }
 
 export interface FeedResponse {
@@ -71,6 +107,12 @@ export interface Comment {
   user_id: string;
   parent_comment_id?: string; // For nested comments
   content: string;
+  mentions?: Mention[];
+  depth?: number; // 0 for top-level comments, at most MAX_COMMENT_DEPTH
+  reply_count?: number; // Direct replies, including deleted placeholders
+  is_deleted?: boolean; // Placeholder for a deleted comment that still has replies
+  is_hidden?: boolean; // Hidden after reports; content is masked for everyone but the author
+  edited_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -81,6 +123,10 @@ export interface CreateCommentRequest {
   parent_comment_id?: string;
 }
 
+export interface UpdateCommentRequest {
+  content: string;
+}
+
 export interface CommentResponse {
   comment: Comment;
   user: {
@@ -89,7 +135,8 @@ export interface CommentResponse {
     full_name?: string;
     user_avatar?: string; // Changed from avatar_url for frontend consistency
   };
-  replies?: CommentResponse[]; // Nested replies
+  replies?: CommentResponse[]; // First page of nested replies
+  replies_next_key?: string; // Load the rest with GET /posts/{id}/comments/{commentId}/replies
 }
 
 export interface GetCommentsRequest {
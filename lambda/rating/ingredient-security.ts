@@ -13,6 +13,7 @@
 
 import { logger } from '../shared/logger';
 import { DynamoDBHelper } from '../shared/dynamodb';
+import { ModerationQueueService, ModerationSeverity } from '../shared/moderation-queue';
 
 export interface SecurityCheckResult {
   isValid: boolean;
@@ -301,7 +302,7 @@ export class IngredientSecurityService {
   }
 
   /**
-   * Add ingredient to manual review queue
+   * Add ingredient to the admin moderation queue
    */
   static async addToManualReviewQueue(
     recipeId: string,
@@ -309,27 +310,27 @@ export class IngredientSecurityService {
     reason: string,
     suspicionLevel: string
   ): Promise<void> {
-    const reviewId = `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const timestamp = new Date().toISOString();
-    
-    await DynamoDBHelper.put({
-      PK: `REVIEW_QUEUE#INGREDIENT`,
-      SK: `${timestamp}#${reviewId}`,
-      entity_type: 'ingredient_review',
-      review_id: reviewId,
-      recipe_id: recipeId,
-      ingredient_name: ingredientName,
-      reason: reason,
-      suspicion_level: suspicionLevel,
-      status: 'pending',
-      created_at: timestamp,
-      // GSI for admin dashboard
-      GSI1PK: 'PENDING_REVIEWS',
-      GSI1SK: timestamp,
+    const severity: ModerationSeverity = suspicionLevel === 'high' || suspicionLevel === 'medium'
+      ? suspicionLevel
+      : 'low';
+
+    const item = await ModerationQueueService.enqueue({
+      item_type: 'ingredient_review',
+      severity,
+      target_type: 'recipe',
+      target_id: recipeId,
+      reason,
+      source: 'ingredient-security',
+      details: {
+        recipe_id: recipeId,
+        ingredient_name: ingredientName,
+        suspicion_level: suspicionLevel,
+      },
+      dedupe_key: `ingredient_review:${recipeId}:${ingredientName.toLowerCase()}`,
     });
 
     logger.warn('Ingredient added to manual review queue', {
-      reviewId,
+      itemId: item?.item_id,
       recipeId,
       ingredientName,
       reason,
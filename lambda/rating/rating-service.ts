@@ -3,6 +3,7 @@ import { logStructured } from '../shared/utils';
 import { AppError } from '../shared/responses';
 import { v4 as uuidv4 } from 'uuid';
 import { DynamoDBHelper } from '../shared/dynamodb';
+import { createNotification } from '../shared/notifications';
 import { IngredientEnrichmentService } from './ingredient-enrichment';
 
 const AUTO_APPROVAL_THRESHOLD = 4.0;
@@ -267,31 +268,18 @@ export class RatingService {
    * Send notification to recipe owner about auto-approval
    */
   private static async sendAutoApprovalNotification(userId: string, recipeId: string, averageRating: number) {
-    const notificationId = uuidv4();
-    const now = new Date().toISOString();
-    const ttl = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60); // 30 days
-
-    await DynamoDBHelper.put({
-      PK: `USER#${userId}`,
-      SK: `NOTIFICATION#${now}#${notificationId}`,
-      GSI1PK: `USER#${userId}#UNREAD`,
-      GSI1SK: now,
-      entity_type: 'NOTIFICATION',
-      notification_id: notificationId,
-      user_id: userId,
+    const notification = await createNotification({
+      recipientId: userId,
       type: 'recipe_approved',
-      target_type: 'recipe',
-      target_id: recipeId,
+      targetType: 'recipe',
+      targetId: recipeId,
       content: `Your recipe has been auto-approved with an average rating of ${averageRating.toFixed(1)} stars!`,
-      is_read: false,
-      created_at: now,
-      ttl,
     });
 
     logStructured('INFO', 'Auto-approval notification sent', {
       userId,
       recipeId,
-      notificationId,
+      notificationId: notification?.notification_id,
     });
   }
 
@@ -0,0 +1,501 @@
+/**
+ * Unit Tests for Recipe Management Lambda
+ */
+
+// Mock UUID first before any imports
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'test-recipe-id')
+}));
+
+const mockSearchRecipes = jest.fn();
+jest.mock('../shared/optimized-queries', () => ({
+  getOptimizedQueries: jest.fn(() => ({
+    searchRecipes: mockSearchRecipes
+  }))
+}));
+
+import { handler } from './index';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { APIGatewayEvent } from '../shared/types';
+
+// Mock DynamoDB Helper
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+describe('Recipe Management Lambda', () => {
+  const owner = 'user-alice';
+  const otherUser = 'user-bob';
+  const recipeId = 'test-recipe-id';
+
+  const createMockEvent = (
+    method: string,
+    path: string,
+    userId: string,
+    body?: any,
+    pathParams?: any,
+    queryParams?: any
+  ): APIGatewayEvent => ({
+    httpMethod: method,
+    path,
+    pathParameters: pathParams || null,
+    queryStringParameters: queryParams || null,
+    headers: {},
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: {
+        claims: {
+          sub: userId,
+          email: `${userId}@example.com`,
+          username: userId
+        }
+      }
+    },
+    multiValueHeaders: undefined,
+    multiValueQueryStringParameters: undefined,
+    stageVariables: null,
+    isBase64Encoded: false,
+    resource: path
+  });
+
+  const validRecipe = {
+    title: 'Canh chua cá',
+    description: 'Sour fish soup',
+    cuisine_type: 'Vietnamese',
+    cooking_method: 'canh',
+    meal_type: 'Soup',
+    prep_time_minutes: 15,
+    cook_time_minutes: 20,
+    servings: 4,
+    ingredients: [
+      { ingredient_name: 'cá lóc', quantity: '500', unit: 'g' },
+      { ingredient_name: 'cà chua', quantity: 2 },
+      { ingredient_name: 'ngò gai', quantity: '1', unit: 'bó', is_optional: true }
+    ],
+    instructions: [
+      { step_number: 2, description: 'Nấu nước dùng với cà chua' },
+      { step_number: 1, description: 'Làm sạch cá', duration: '5 phút' }
+    ],
+    is_public: true
+  };
+
+  const existingItem = {
+    PK: `RECIPE#${recipeId}`,
+    SK: 'METADATA',
+    recipe_id: recipeId,
+    user_id: owner,
+    title: 'Canh chua cá',
+    description: '',
+    cuisine_type: 'Vietnamese',
+    cooking_method: 'canh',
+    meal_type: 'soup',
+    prep_time_minutes: 15,
+    cook_time_minutes: 20,
+    servings: 4,
+    ingredients: [{ ingredient_name: 'cá lóc', quantity: '500', unit: 'g' }],
+    instructions: [{ step_number: 1, description: 'Làm sạch cá' }],
+    is_public: false,
+    is_ai_generated: false,
+    is_approved: false,
+    rating_count: 3,
+    average_rating: 4.2,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    GSI1PK: 'RECIPE',
+    GSI1SK: 'vietnamese#canh#soup#2025-01-01T00:00:00.000Z',
+    GSI2PK: `USER_RECIPES#${owner}`,
+    GSI2SK: '2025-01-01T00:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Create Recipe', () => {
+    it('should create a recipe with normalized ingredients and instructions', async () => {
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('POST', '/recipes', owner, validRecipe));
+
+      expect(result.statusCode).toBe(201);
+      const { recipe } = JSON.parse(result.body).data;
+      expect(recipe.recipe_id).toBe(recipeId);
+      expect(recipe.user_id).toBe(owner);
+      expect(recipe.is_approved).toBe(false);
+      expect(recipe.is_ai_generated).toBe(false);
+      expect(recipe.ingredients[1]).toEqual({
+        ingredient_name: 'cà chua',
+        quantity: '2',
+        is_optional: false
+      });
+      expect(recipe.instructions.map((step: any) => step.description)).toEqual([
+        'Làm sạch cá',
+        'Nấu nước dùng với cà chua'
+      ]);
+
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(
+        expect.objectContaining({
+          PK: `RECIPE#${recipeId}`,
+          SK: 'METADATA',
+          source: 'user_created',
+          GSI1PK: 'RECIPE',
+          GSI1SK: expect.stringMatching(/^vietnamese#canh#soup#/),
+          GSI2PK: `USER_RECIPES#${owner}`
+        })
+      );
+    });
+
+    it('should queue public recipes for admin approval', async () => {
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      await handler(createMockEvent('POST', '/recipes', owner, validRecipe));
+
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entity_type: 'MODERATION_ITEM',
+          item_type: 'recipe_review',
+          target_id: recipeId,
+          GSI1PK: 'MODERATION#OPEN'
+        })
+      );
+    });
+
+    it('should not queue private recipes', async () => {
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      await handler(createMockEvent('POST', '/recipes', owner, { ...validRecipe, is_public: false }));
+
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 400 when ingredients are missing', async () => {
+      const result = await handler(createMockEvent('POST', '/recipes', owner, {
+        ...validRecipe,
+        ingredients: []
+      }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('missing_ingredients');
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when an ingredient has no quantity', async () => {
+      const result = await handler(createMockEvent('POST', '/recipes', owner, {
+        ...validRecipe,
+        ingredients: [{ ingredient_name: 'cá lóc' }]
+      }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_ingredient');
+    });
+
+    it('should return 400 for duplicate instruction step numbers', async () => {
+      const result = await handler(createMockEvent('POST', '/recipes', owner, {
+        ...validRecipe,
+        instructions: [
+          { step_number: 1, description: 'Bước một' },
+          { step_number: 1, description: 'Bước hai' }
+        ]
+      }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_instruction');
+    });
+
+    it('should return 400 for an out-of-range servings value', async () => {
+      const result = await handler(createMockEvent('POST', '/recipes', owner, {
+        ...validRecipe,
+        servings: 0
+      }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_servings');
+    });
+  });
+
+  describe('Get Recipe', () => {
+    it('should return a private recipe to its owner', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+
+      const result = await handler(createMockEvent('GET', `/recipes/${recipeId}`, owner, null, { recipeId }));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.recipe.title).toBe('Canh chua cá');
+    });
+
+    it('should return 403 for a private recipe owned by someone else', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+
+      const result = await handler(createMockEvent('GET', `/recipes/${recipeId}`, otherUser, null, { recipeId }));
+
+      expect(result.statusCode).toBe(403);
+    });
+
+    it('should return 404 when recipe does not exist', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(undefined);
+
+      const result = await handler(createMockEvent('GET', `/recipes/${recipeId}`, owner, null, { recipeId }));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('recipe_not_found');
+    });
+
+    it('should rescale ingredients with ?servings', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue({
+        ...existingItem,
+        ingredients: [
+          { ingredient_name: 'cá lóc', quantity: '500', unit: 'g' },
+          { ingredient_name: 'me', quantity: '1 1/2 thìa canh' },
+          { ingredient_name: 'muối', quantity: 'vừa đủ' }
+        ]
+      });
+
+      const result = await handler(createMockEvent('GET', `/recipes/${recipeId}`, owner, null, { recipeId }, { servings: '6' }));
+
+      expect(result.statusCode).toBe(200);
+      const data = JSON.parse(result.body).data;
+      expect(data.scaling).toEqual({ original_servings: 4, servings: 6 });
+      expect(data.recipe.servings).toBe(6);
+      expect(data.recipe.ingredients.map((i: any) => [i.quantity, i.unit])).toEqual([
+        ['750', 'g'],
+        ['2.25', 'thìa canh'],
+        ['vừa đủ', undefined]
+      ]);
+      expect(data.recipe.ingredients[0].parsed_quantity).toEqual({ value: 750, unit: 'g', unit_type: 'mass' });
+    });
+
+    it('should rescale to the household size from preferences', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+      mockDynamoDBHelper.getUserPreferences.mockResolvedValue({ household_size: 2 });
+
+      const result = await handler(createMockEvent('GET', `/recipes/${recipeId}`, owner, null, { recipeId }, { servings: 'household' }));
+
+      const data = JSON.parse(result.body).data;
+      expect(mockDynamoDBHelper.getUserPreferences).toHaveBeenCalledWith(owner);
+      expect(data.recipe.servings).toBe(2);
+      expect(data.recipe.ingredients[0].quantity).toBe('250');
+    });
+
+    it('should return 400 for invalid servings', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+
+      const result = await handler(createMockEvent('GET', `/recipes/${recipeId}`, owner, null, { recipeId }, { servings: '0' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_servings');
+    });
+  });
+
+  describe('Update Recipe', () => {
+    it('should merge updates, keep stats and refresh the search key', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('PUT', `/recipes/${recipeId}`, owner, {
+        cooking_method: 'nấu',
+        is_public: true
+      }, { recipeId }));
+
+      expect(result.statusCode).toBe(200);
+      const { recipe } = JSON.parse(result.body).data;
+      expect(recipe.cooking_method).toBe('nấu');
+      expect(recipe.is_public).toBe(true);
+      expect(recipe.rating_count).toBe(3);
+
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(
+        expect.objectContaining({
+          GSI1SK: 'vietnamese#nấu#soup#2025-01-01T00:00:00.000Z',
+          GSI2PK: `USER_RECIPES#${owner}`,
+          average_rating: 4.2
+        })
+      );
+    });
+
+    it('should send an approved public recipe back for review when its content changes', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue({
+        ...existingItem,
+        is_public: true,
+        is_approved: true,
+        approval_type: 'admin',
+        approved_by: 'admin-1',
+        approved_at: '2025-01-02T00:00:00.000Z'
+      });
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('PUT', `/recipes/${recipeId}`, owner, {
+        instructions: [{ step_number: 1, description: 'Something else entirely' }]
+      }, { recipeId }));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.recipe.is_approved).toBe(false);
+
+      const saved = mockDynamoDBHelper.put.mock.calls[0][0];
+      expect(saved.is_approved).toBe(false);
+      expect(saved.approved_by).toBeUndefined();
+      expect(saved.approved_at).toBeUndefined();
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        entity_type: 'MODERATION_ITEM',
+        item_type: 'recipe_review',
+        target_id: recipeId,
+        reason: 'Approved recipe changed'
+      }));
+    });
+
+    it('should keep an approved recipe approved when only its timing changes', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue({ ...existingItem, is_public: true, is_approved: true });
+      mockDynamoDBHelper.put.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('PUT', `/recipes/${recipeId}`, owner, {
+        cook_time_minutes: 25
+      }, { recipeId }));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.recipe.is_approved).toBe(true);
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 403 when updating another user\'s recipe', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+
+      const result = await handler(createMockEvent('PUT', `/recipes/${recipeId}`, otherUser, {
+        title: 'Hijacked'
+      }, { recipeId }));
+
+      expect(result.statusCode).toBe(403);
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Delete Recipe', () => {
+    it('should delete own recipe', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+      mockDynamoDBHelper.delete.mockResolvedValue({} as any);
+
+      const result = await handler(createMockEvent('DELETE', `/recipes/${recipeId}`, owner, null, { recipeId }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDynamoDBHelper.delete).toHaveBeenCalledWith(`RECIPE#${recipeId}`, 'METADATA');
+    });
+
+    it('should return 403 when deleting another user\'s recipe', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(existingItem);
+
+      const result = await handler(createMockEvent('DELETE', `/recipes/${recipeId}`, otherUser, null, { recipeId }));
+
+      expect(result.statusCode).toBe(403);
+      expect(mockDynamoDBHelper.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('List Recipes', () => {
+    it('should list catalog recipes through searchRecipes with normalized filters', async () => {
+      mockSearchRecipes.mockResolvedValueOnce({
+        recipes: [
+          { ...existingItem, recipe_id: 'public-1', is_public: true, user_id: otherUser },
+          { ...existingItem, recipe_id: 'private-1', is_public: false, user_id: otherUser },
+          { ...existingItem, recipe_id: 'own-draft', is_public: false }
+        ],
+        lastEvaluatedKey: { PK: { S: 'RECIPE#public-1' } },
+        count: 3
+      }).mockResolvedValue({ recipes: [], lastEvaluatedKey: { PK: { S: 'RECIPE#more' } }, count: 0 });
+
+      const result = await handler(createMockEvent('GET', '/recipes', owner, null, null, {
+        cuisine: 'Vietnamese',
+        cooking_method: 'Canh',
+        is_approved: 'false',
+        limit: '10'
+      }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockSearchRecipes).toHaveBeenCalledWith(expect.objectContaining({
+        cuisine: 'vietnamese',
+        cookingMethod: 'canh',
+        isApproved: false,
+        limit: 10
+      }));
+
+      const data = JSON.parse(result.body).data;
+      expect(data.recipes.map((recipe: any) => recipe.recipe_id)).toEqual(['public-1', 'own-draft']);
+      expect(data.has_more).toBe(true);
+      expect(data.next_key).toBeDefined();
+    });
+
+    it('should keep reading until the page is full', async () => {
+      mockSearchRecipes
+        .mockResolvedValueOnce({
+          recipes: [
+            { ...existingItem, recipe_id: 'public-1', is_public: true, user_id: otherUser },
+            { ...existingItem, recipe_id: 'private-1', is_public: false, user_id: otherUser }
+          ],
+          lastEvaluatedKey: { PK: { S: 'RECIPE#private-1' } },
+          count: 2
+        })
+        .mockResolvedValueOnce({
+          recipes: [{ ...existingItem, recipe_id: 'public-2', is_public: true, user_id: otherUser }],
+          lastEvaluatedKey: { PK: { S: 'RECIPE#public-2' } },
+          count: 1
+        });
+
+      const result = await handler(createMockEvent('GET', '/recipes', owner, null, null, { limit: '2' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockSearchRecipes).toHaveBeenCalledTimes(2);
+      expect(mockSearchRecipes).toHaveBeenLastCalledWith(expect.objectContaining({
+        limit: 1,
+        lastEvaluatedKey: { PK: { S: 'RECIPE#private-1' } }
+      }));
+
+      const data = JSON.parse(result.body).data;
+      expect(data.recipes.map((recipe: any) => recipe.recipe_id)).toEqual(['public-1', 'public-2']);
+      expect(data.has_more).toBe(true);
+    });
+
+    it('should list own recipes from the user index', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [existingItem],
+        LastEvaluatedKey: undefined,
+        Count: 1
+      });
+
+      const result = await handler(createMockEvent('GET', '/recipes', owner, null, null, { mine: 'true' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        ExpressionAttributeValues: { ':pk': `USER_RECIPES#${owner}` }
+      }));
+      expect(mockSearchRecipes).not.toHaveBeenCalled();
+
+      const data = JSON.parse(result.body).data;
+      expect(data.count).toBe(1);
+      expect(data.has_more).toBe(false);
+    });
+  });
+
+  describe('Search Recipes', () => {
+    it('should route /recipes/search to search instead of treating it as a recipe ID', async () => {
+      const publicItem = { ...existingItem, is_public: true, is_approved: true };
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [publicItem],
+        LastEvaluatedKey: undefined,
+        Count: 1
+      });
+      mockDynamoDBHelper.batchGet.mockResolvedValue([publicItem]);
+      mockDynamoDBHelper.getUserPreferences.mockResolvedValue({ allergies: [] });
+
+      const result = await handler(createMockEvent('GET', '/recipes/search', otherUser, null, null, {
+        q: 'canh chua',
+        include: 'cá lóc, Ca Loc',
+        max_time: '60'
+      }));
+
+      expect(result.statusCode).toBe(200);
+      expect(mockDynamoDBHelper.getRecipe).not.toHaveBeenCalled();
+
+      const data = JSON.parse(result.body).data;
+      expect(data.recipes.map((recipe: any) => recipe.recipe_id)).toEqual([recipeId]);
+      expect(data.has_more).toBe(false);
+      expect(data.excluded_allergens).toEqual([]);
+    });
+  });
+});
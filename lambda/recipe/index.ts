@@ -0,0 +1,257 @@
+/**
+ * Recipe Management Lambda Function
+ * Handles creating, retrieving, updating, deleting and listing recipes
+ */
+
+import { APIGatewayEvent, APIResponse } from '../shared/types';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
+import { getUserIdFromEvent } from '../shared/utils';
+import { RecipeService } from './recipe-service';
+import { RecipeSearchService } from './recipe-search';
+import { logger } from '../shared/logger';
+import { metrics } from '../shared/metrics';
+import { tracer } from '../shared/tracer';
+import { CreateRecipeRequest, UpdateRecipeRequest, RecipeSearchSort } from './types';
+
+export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
+  const startTime = Date.now();
+
+  // Initialize logger with request context
+  logger.initFromEvent(event);
+  logger.logFunctionStart('recipe', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS preflight requests for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Set X-Ray user context
+    tracer.setUser(userId);
+
+    logger.info('Recipe request received', {
+      method,
+      path,
+      userId,
+      pathParameters: event.pathParameters
+    });
+
+    // Route requests based on HTTP method and path
+    if (method === 'GET' && (path === '/recipes' || path === '/v1/recipes')) {
+      return await listRecipes(userId, event.queryStringParameters);
+    }
+
+    if (method === 'POST' && (path === '/recipes' || path === '/v1/recipes')) {
+      return await createRecipe(userId, event.body);
+    }
+
+    if (method === 'GET' && path.endsWith('/recipes/search')) {
+      return await searchRecipes(userId, event.queryStringParameters);
+    }
+
+    if (method === 'GET' && path.match(/\/recipes\/[^/]+$/)) {
+      const recipeId = event.pathParameters?.recipeId || '';
+      return await getRecipe(recipeId, userId, event.queryStringParameters);
+    }
+
+    if (method === 'PUT' && path.match(/\/recipes\/[^/]+$/)) {
+      const recipeId = event.pathParameters?.recipeId || '';
+      return await updateRecipe(recipeId, userId, event.body);
+    }
+
+    if (method === 'DELETE' && path.match(/\/recipes\/[^/]+$/)) {
+      const recipeId = event.pathParameters?.recipeId || '';
+      return await deleteRecipe(recipeId, userId);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Recipe handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'recipe');
+    logger.logFunctionEnd('recipe', 500, duration);
+    return handleError(error);
+  } finally {
+    // Flush metrics and log function end
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('recipe', 200, duration);
+    await metrics.flush();
+  }
+}
+
+/**
+ * Create a new recipe
+ */
+async function createRecipe(userId: string, body: string | null): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: CreateRecipeRequest = JSON.parse(body);
+
+  const recipe = await RecipeService.createRecipe(userId, request);
+
+  return successResponse({
+    message: 'Recipe created successfully',
+    recipe
+  }, 201);
+}
+
+/**
+ * Get a single recipe, optionally rescaled with ?servings=N (or ?servings=household
+ * for the user's household size)
+ */
+async function getRecipe(
+  recipeId: string,
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  if (!recipeId) {
+    throw new AppError(400, 'missing_recipe_id', 'Recipe ID is required');
+  }
+
+  const recipe = await RecipeService.getRecipe(recipeId, userId);
+
+  if (!queryParams?.servings) {
+    return successResponse({ recipe });
+  }
+
+  let servings: number;
+  if (queryParams.servings === 'household') {
+    servings = (await RecipeService.getHouseholdSize(userId)) || recipe.servings;
+  } else if (/^\d+$/.test(queryParams.servings)) {
+    servings = parseInt(queryParams.servings);
+  } else {
+    throw new AppError(400, 'invalid_servings', 'servings must be a number or "household"');
+  }
+
+  const scaled = RecipeService.scaleRecipe(recipe, servings);
+
+  return successResponse({
+    recipe: scaled,
+    scaling: {
+      original_servings: recipe.servings,
+      servings: scaled.servings,
+    }
+  });
+}
+
+/**
+ * Update a recipe (owner only)
+ */
+async function updateRecipe(recipeId: string, userId: string, body: string | null): Promise<APIResponse> {
+  if (!recipeId) {
+    throw new AppError(400, 'missing_recipe_id', 'Recipe ID is required');
+  }
+
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdateRecipeRequest = JSON.parse(body);
+
+  const recipe = await RecipeService.updateRecipe(recipeId, userId, request);
+
+  return successResponse({
+    message: 'Recipe updated successfully',
+    recipe
+  });
+}
+
+/**
+ * Delete a recipe (owner only)
+ */
+async function deleteRecipe(recipeId: string, userId: string): Promise<APIResponse> {
+  if (!recipeId) {
+    throw new AppError(400, 'missing_recipe_id', 'Recipe ID is required');
+  }
+
+  await RecipeService.deleteRecipe(recipeId, userId);
+
+  return successResponse({
+    message: 'Recipe deleted successfully',
+    recipe_id: recipeId
+  });
+}
+
+/**
+ * List recipes with filters and pagination
+ */
+async function listRecipes(
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const lastKey = queryParams?.last_key
+    ? JSON.parse(Buffer.from(queryParams.last_key, 'base64').toString())
+    : undefined;
+
+  const result = await RecipeService.listRecipes(userId, {
+    cuisine: queryParams?.cuisine,
+    cooking_method: queryParams?.cooking_method,
+    meal_type: queryParams?.meal_type,
+    is_approved: queryParams?.is_approved !== undefined ? queryParams.is_approved !== 'false' : undefined,
+    mine: queryParams?.mine === 'true',
+    limit: queryParams?.limit ? parseInt(queryParams.limit) : undefined,
+    last_key: lastKey
+  });
+
+  // Encode next key for pagination
+  const nextKey = result.nextKey
+    ? Buffer.from(JSON.stringify(result.nextKey)).toString('base64')
+    : undefined;
+
+  return successResponse({
+    recipes: result.recipes,
+    next_key: nextKey,
+    has_more: result.hasMore,
+    count: result.recipes.length,
+  });
+}
+
+/**
+ * Search recipes
+ * Query params: q, include / exclude (comma-separated ingredients), max_time (minutes),
+ * min_rating, source (ai|human), exclude_allergens (default true), sort (rating|recent|popular),
+ * limit, cursor
+ */
+async function searchRecipes(
+  userId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  const splitList = (value?: string) => value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+
+  const result = await RecipeSearchService.searchRecipes(userId, {
+    q: queryParams?.q,
+    include_ingredients: splitList(queryParams?.include),
+    exclude_ingredients: splitList(queryParams?.exclude),
+    max_total_time: queryParams?.max_time ? Number(queryParams.max_time) : undefined,
+    min_rating: queryParams?.min_rating ? Number(queryParams.min_rating) : undefined,
+    source: queryParams?.source as 'ai' | 'human' | undefined,
+    exclude_allergens: queryParams?.exclude_allergens !== 'false',
+    sort: queryParams?.sort as RecipeSearchSort | undefined,
+    limit: queryParams?.limit ? parseInt(queryParams.limit) : undefined,
+    cursor: queryParams?.cursor,
+  });
+
+  return successResponse({
+    recipes: result.recipes,
+    next_cursor: result.nextCursor,
+    has_more: result.hasMore,
+    count: result.recipes.length,
+    excluded_allergens: result.excludedAllergens,
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for Recipe Search
+ */
+
+import { RecipeSearchService } from './recipe-search';
+import { DynamoDBHelper } from '../shared/dynamodb';
+
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+const recipe = (id: string, overrides: any = {}) => ({
+  PK: `RECIPE#${id}`,
+  SK: 'METADATA',
+  recipe_id: id,
+  user_id: 'user-alice',
+  title: `Recipe ${id}`,
+  description: '',
+  prep_time_minutes: 10,
+  cook_time_minutes: 20,
+  servings: 2,
+  ingredients: [],
+  instructions: [],
+  is_public: true,
+  is_approved: true,
+  is_ai_generated: false,
+  average_rating: 4,
+  rating_count: 0,
+  created_at: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const ingredients = (...names: string[]) => names.map(name => ({ ingredient_name: name, quantity: '1' }));
+
+const items = [
+  recipe('pho', {
+    title: 'Phở Gà',
+    description: 'Món phở truyền thống',
+    ingredients: ingredients('thịt gà', 'bánh phở', 'hành lá'),
+    cook_time_minutes: 60,
+    average_rating: 4.8,
+    rating_count: 12,
+    created_at: '2025-01-03T00:00:00.000Z',
+  }),
+  recipe('com-ga', {
+    title: 'Cơm gà xối mỡ',
+    ingredients: ingredients('gạo', 'thịt gà', 'nước mắm'),
+    is_ai_generated: true,
+    average_rating: 4.2,
+    rating_count: 3,
+    cook_count: 20,
+    created_at: '2025-01-02T00:00:00.000Z',
+  }),
+  recipe('tom', {
+    title: 'Tôm rang me',
+    ingredients: ingredients('tôm sú', 'me'),
+    average_rating: 4.5,
+    created_at: '2025-01-04T00:00:00.000Z',
+  }),
+  recipe('draft', { title: 'Gà nướng', is_public: false, user_id: 'user-bob', ingredients: ingredients('thịt gà') }),
+  recipe('pending', { title: 'Gà hấp', is_approved: false, user_id: 'user-bob', ingredients: ingredients('thịt gà') }),
+  // Seed data keeps ingredients in separate items
+  recipe('canh', { title: 'Canh chua cá', ingredients: undefined, average_rating: 3.5, created_at: '2025-01-05T00:00:00.000Z' }),
+  { PK: 'RECIPE#canh', SK: 'INGREDIENT#001', entity_type: 'RECIPE_INGREDIENT', ingredient_name: 'cá lóc', quantity: '500' },
+  { PK: 'RECIPE#canh', SK: 'INGREDIENT#002', entity_type: 'RECIPE_INGREDIENT', ingredient_name: 'cà chua', quantity: '2' },
+];
+
+describe('RecipeSearchService', () => {
+  const userId = 'user-alice';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDynamoDBHelper.query.mockResolvedValue({ Items: items, Count: items.length, LastEvaluatedKey: undefined });
+    mockDynamoDBHelper.batchGet.mockImplementation(async keys =>
+      items.filter(item => keys.some(key => key.PK === item.PK && key.SK === item.SK))
+    );
+    mockDynamoDBHelper.getUserPreferences.mockResolvedValue({ allergies: [] });
+  });
+
+  const ids = (result: { recipes: { recipe_id: string }[] }) => result.recipes.map(r => r.recipe_id);
+
+  it('should match free text without diacritics and hide other users\' private or unapproved recipes', async () => {
+    const result = await RecipeSearchService.searchRecipes(userId, { q: 'ga' });
+
+    expect(ids(result)).toEqual(['pho', 'com-ga']);
+    expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+      IndexName: 'GSI3',
+      ExpressionAttributeValues: { ':pk': 'RECIPE_CATALOG' },
+    }));
+    expect(ids(await RecipeSearchService.searchRecipes('user-bob', { q: 'ga nuong' }))).toEqual(['draft']);
+    expect(ids(await RecipeSearchService.searchRecipes('user-bob', { q: 'ga hap' }))).toEqual(['pending']);
+  });
+
+  it('should filter by must-have and must-not-have ingredients as whole words', async () => {
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { include_ingredients: ['ga'] }))).toEqual(['pho', 'com-ga']);
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { include_ingredients: ['ga'], exclude_ingredients: ['Gạo'] })))
+      .toEqual(['pho']);
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { include_ingredients: ['ca loc'] }))).toEqual(['canh']);
+  });
+
+  it('should filter by total time, rating and source', async () => {
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { max_total_time: 30 }))).toEqual(['canh', 'tom', 'com-ga']);
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { min_rating: 4.5 }))).toEqual(['tom', 'pho']);
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { source: 'ai' }))).toEqual(['com-ga']);
+  });
+
+  it('should exclude recipes with the user\'s allergens unless disabled', async () => {
+    mockDynamoDBHelper.getUserPreferences.mockResolvedValue({ allergies: ['tôm'] });
+
+    const result = await RecipeSearchService.searchRecipes(userId, {});
+    expect(ids(result)).not.toContain('tom');
+    expect(result.excludedAllergens).toEqual(['tôm']);
+
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { exclude_allergens: false }))).toContain('tom');
+  });
+
+  it('should sort by rating or popularity and page with a cursor', async () => {
+    expect(ids(await RecipeSearchService.searchRecipes(userId, { sort: 'popular', limit: 2 }))).toEqual(['com-ga', 'pho']);
+
+    const first = await RecipeSearchService.searchRecipes(userId, { sort: 'rating', limit: 2 });
+    expect(ids(first)).toEqual(['pho', 'tom']);
+    expect(first.hasMore).toBe(true);
+
+    const second = await RecipeSearchService.searchRecipes(userId, { sort: 'rating', limit: 2, cursor: first.nextCursor });
+    expect(ids(second)).toEqual(['com-ga', 'canh']);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should load the catalog once per container', async () => {
+    await RecipeSearchService.searchRecipes(userId, {});
+
+    expect(mockDynamoDBHelper.query).not.toHaveBeenCalled();
+    expect(mockDynamoDBHelper.scan).not.toHaveBeenCalled();
+  });
+
+  it('should drop recipes deleted or hidden since the catalog loaded', async () => {
+    mockDynamoDBHelper.batchGet.mockResolvedValue([
+      recipe('pho', { is_hidden: true }),
+      recipe('tom'),
+    ]);
+
+    const result = await RecipeSearchService.searchRecipes('user-carol', { sort: 'rating', limit: 3 });
+
+    expect(ids(result)).toEqual(['tom']);
+    expect(result.hasMore).toBe(true);
+    expect(mockDynamoDBHelper.batchGet).toHaveBeenCalledWith([
+      { PK: 'RECIPE#pho', SK: 'METADATA' },
+      { PK: 'RECIPE#tom', SK: 'METADATA' },
+      { PK: 'RECIPE#com-ga', SK: 'METADATA' },
+    ]);
+  });
+
+  it('should reject invalid filters', async () => {
+    await expect(RecipeSearchService.searchRecipes(userId, { sort: 'name' as any }))
+      .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_sort' });
+    await expect(RecipeSearchService.searchRecipes(userId, { min_rating: 6 }))
+      .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_min_rating' });
+    await expect(RecipeSearchService.searchRecipes(userId, { cursor: 'not-a-cursor' }))
+      .rejects.toMatchObject({ statusCode: 400, errorCode: 'invalid_cursor' });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Recipe Search
+ * Structured search over the recipe catalog: free text, ingredient include/exclude, time,
+ * rating, source and allergen filters, sorted by rating, recency or popularity.
+ *
+ * Recipes keep different GSI1/GSI2 layouts (user recipes on GSI1 RECIPE, AI recipes on
+ * METHOD#/CUISINE#, seed data on USER#/METHOD#), so every recipe item is also written to the
+ * GSI3 RECIPE_CATALOG partition (backfilled by scripts/backfill-recipe-catalog.ts). That
+ * partition is loaded into a per-container catalog refreshed after CATALOG_TTL_MS, like the
+ * ingredient autocomplete index, and filtered in memory; each returned page is re-read so
+ * recipes deleted or hidden since the load are dropped.
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { IngredientService } from '../shared/ingredient-service';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { Recipe } from '../shared/types';
+import { RecipeService } from './recipe-service';
+import { RecipeSearchSort, SearchRecipesRequest, SearchRecipesResult } from './types';
+
+const CATALOG_TTL_MS = 5 * 60 * 1000;
+const MAX_QUERY_LENGTH = 100;
+const MAX_INGREDIENT_FILTERS = 10;
+const SORTS: RecipeSearchSort[] = ['rating', 'recent', 'popular'];
+const CATALOG_PARTITION = 'RECIPE_CATALOG';
+
+interface CatalogRecipe {
+  recipe: Recipe;
+  owner_id?: string;
+  search_text: string; // Normalized title and description
+  ingredient_names: string[]; // Normalized
+  total_time: number;
+  popularity: number; // Ratings, cooks and favorites
+}
+
+interface SearchCursor {
+  value: number | string;
+  recipe_id: string;
+}
+
+let cachedCatalog: { recipes: CatalogRecipe[]; builtAt: number } | null = null;
+let pendingLoad: Promise<CatalogRecipe[]> | null = null;
+
+export class RecipeSearchService {
+  /**
+   * Search recipes visible to the user (public, approved and not hidden after reports, or their own)
+   */
+  static async searchRecipes(userId: string, request: SearchRecipesRequest): Promise<SearchRecipesResult> {
+    const limit = Math.min(Math.max(request.limit || 20, 1), 50);
+    const sort = request.sort || 'recent';
+
+    this.validateRequest(request, sort);
+    const cursor = request.cursor ? this.decodeCursor(request.cursor) : undefined;
+
+    const queryWords = normalizeText(request.q || '').split(' ').filter(Boolean);
+    const includes = (request.include_ingredients || []).map(name => normalizeText(name)).filter(Boolean);
+    const excludes = (request.exclude_ingredients || []).map(name => normalizeText(name)).filter(Boolean);
+
+    const excludedAllergens = request.exclude_allergens === false ? [] : await this.getAllergies(userId);
+    const allergens = excludedAllergens.map(allergen => normalizeText(allergen)).filter(Boolean);
+
+    const matches = (await getRecipeCatalog()).filter(entry => {
+      const { recipe } = entry;
+
+      if (!isVisible(recipe, entry.owner_id, userId)) return false;
+      if (queryWords.some(word => !entry.search_text.includes(word))) return false;
+      if (includes.some(name => !entry.ingredient_names.some(ingredient => this.containsWords(ingredient, name)))) return false;
+      if (excludes.some(name => entry.ingredient_names.some(ingredient => this.containsWords(ingredient, name)))) return false;
+      // Plain substring, like the AI suggestion allergy filter: over-excluding is the safe side
+      if (allergens.some(allergen => entry.ingredient_names.some(ingredient => ingredient.includes(allergen)))) return false;
+      if (request.max_total_time !== undefined && entry.total_time > request.max_total_time) return false;
+      if (request.min_rating !== undefined && (recipe.average_rating || 0) < request.min_rating) return false;
+      if (request.source === 'ai' && !recipe.is_ai_generated) return false;
+      if (request.source === 'human' && recipe.is_ai_generated) return false;
+
+      return true;
+    });
+
+    const sorted = matches
+      .map(entry => ({ entry, key: { value: this.getSortValue(entry, sort), recipe_id: entry.recipe.recipe_id } }))
+      .sort((a, b) => this.compareKeys(a.key, b.key))
+      .filter(({ key }) => !cursor || this.compareKeys(key, cursor) > 0);
+
+    const page = sorted.slice(0, limit);
+    const hasMore = sorted.length > limit;
+    const current = await this.filterCurrent(userId, page.map(({ entry }) => entry));
+
+    logger.info('Recipe search completed', {
+      userId,
+      sort,
+      matchCount: matches.length,
+      resultCount: current.length,
+      droppedCount: page.length - current.length,
+      hasMore,
+    });
+
+    return {
+      recipes: current.map(entry => entry.recipe),
+      nextCursor: hasMore ? this.encodeCursor(page[page.length - 1].key) : undefined,
+      hasMore,
+      excludedAllergens,
+    };
+  }
+
+  private static validateRequest(request: SearchRecipesRequest, sort: string): void {
+    if (request.q && request.q.length > MAX_QUERY_LENGTH) {
+      throw new AppError(400, 'invalid_query', `q must be less than ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    if ((request.include_ingredients?.length || 0) > MAX_INGREDIENT_FILTERS ||
+        (request.exclude_ingredients?.length || 0) > MAX_INGREDIENT_FILTERS) {
+      throw new AppError(400, 'too_many_ingredients', `Maximum ${MAX_INGREDIENT_FILTERS} ingredients per filter`);
+    }
+
+    if (request.max_total_time !== undefined && (!Number.isInteger(request.max_total_time) || request.max_total_time < 1)) {
+      throw new AppError(400, 'invalid_max_total_time', 'max_total_time must be a positive integer (minutes)');
+    }
+
+    if (request.min_rating !== undefined && (isNaN(request.min_rating) || request.min_rating < 0 || request.min_rating > 5)) {
+      throw new AppError(400, 'invalid_min_rating', 'min_rating must be between 0 and 5');
+    }
+
+    if (request.source !== undefined && request.source !== 'ai' && request.source !== 'human') {
+      throw new AppError(400, 'invalid_source', 'source must be "ai" or "human"');
+    }
+
+    if (!SORTS.includes(sort as RecipeSearchSort)) {
+      throw new AppError(400, 'invalid_sort', `sort must be one of: ${SORTS.join(', ')}`);
+    }
+  }
+
+  /**
+   * Re-read the page's recipes and drop those deleted or no longer visible since the catalog loaded
+   * The cursor still comes from the unfiltered page, so the next page starts after them
+   */
+  private static async filterCurrent(userId: string, entries: CatalogRecipe[]): Promise<CatalogRecipe[]> {
+    if (entries.length === 0) {
+      return entries;
+    }
+
+    const items = await DynamoDBHelper.batchGet(
+      entries.map(entry => ({ PK: `RECIPE#${entry.recipe.recipe_id}`, SK: 'METADATA' }))
+    );
+    const currentItems = new Map(items.map(item => [item.recipe_id, item]));
+
+    return entries.filter(entry => {
+      const item = currentItems.get(entry.recipe.recipe_id);
+      return item && isVisible(item, RecipeService.getOwnerId(item), userId);
+    });
+  }
+
+  private static async getAllergies(userId: string): Promise<string[]> {
+    const preferences = await DynamoDBHelper.getUserPreferences(userId);
+    return preferences?.allergies || [];
+  }
+
+  /**
+   * Whole-word match, so "ga" (gà) matches "thit ga" but not "gao" (gạo)
+   */
+  private static containsWords(text: string, words: string): boolean {
+    return ` ${text} `.includes(` ${words} `);
+  }
+
+  private static getSortValue(entry: CatalogRecipe, sort: RecipeSearchSort): number | string {
+    switch (sort) {
+      case 'rating':
+        return entry.recipe.average_rating || 0;
+      case 'popular':
+        return entry.popularity;
+      default:
+        return entry.recipe.created_at || '';
+    }
+  }
+
+  /**
+   * Descending by sort value, then ascending recipe_id so the order (and cursors) are stable
+   */
+  private static compareKeys(a: SearchCursor, b: SearchCursor): number {
+    if (a.value !== b.value) {
+      return a.value > b.value ? -1 : 1;
+    }
+    return a.recipe_id < b.recipe_id ? -1 : a.recipe_id > b.recipe_id ? 1 : 0;
+  }
+
+  private static encodeCursor(key: SearchCursor): string {
+    return Buffer.from(JSON.stringify(key)).toString('base64');
+  }
+
+  private static decodeCursor(cursor: string): SearchCursor {
+    try {
+      const key = JSON.parse(Buffer.from(cursor, 'base64').toString());
+      if (typeof key.recipe_id === 'string' && (typeof key.value === 'number' || typeof key.value === 'string')) {
+        return key;
+      }
+    } catch (error) {
+      // Fall through to the error below
+    }
+    throw new AppError(400, 'invalid_cursor', 'cursor is invalid');
+  }
+}
+
+function isVisible(
+  recipe: { is_public?: boolean; is_approved?: boolean; is_hidden?: boolean },
+  ownerId: string | undefined,
+  userId: string
+): boolean {
+  return ownerId === userId || (!!recipe.is_public && !!recipe.is_approved && !recipe.is_hidden);
+}
+
+function normalizeText(text: string): string {
+  return IngredientService.normalizeVietnamese(text || '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Build catalog entries from RECIPE# items
+ * Seed recipes keep their ingredients in separate RECIPE_INGREDIENT items
+ */
+function buildRecipeCatalog(items: any[]): CatalogRecipe[] {
+  const separateIngredients = new Map<string, any[]>();
+  for (const item of items) {
+    if (item.SK !== 'METADATA') {
+      separateIngredients.set(item.PK, [...(separateIngredients.get(item.PK) || []), item]);
+    }
+  }
+
+  return items
+    .filter(item => item.SK === 'METADATA' && item.title)
+    .map(item => {
+      const recipe = RecipeService.convertDynamoItemToRecipe({
+        ...item,
+        ingredients: item.ingredients || separateIngredients.get(item.PK) || [],
+      });
+      return {
+        recipe,
+        owner_id: RecipeService.getOwnerId(item),
+        search_text: normalizeText(`${recipe.title} ${recipe.description}`),
+        ingredient_names: recipe.ingredients.map(ingredient => normalizeText(ingredient.ingredient_name)),
+        total_time: recipe.prep_time_minutes + recipe.cook_time_minutes,
+        popularity: (item.rating_count || 0) + (item.cook_count || 0) + (item.favorite_count || 0),
+      };
+    });
+}
+
+async function loadRecipeCatalog(): Promise<CatalogRecipe[]> {
+  const items: any[] = [];
+  let exclusiveStartKey: any;
+
+  do {
+    const page = await DynamoDBHelper.query({
+      IndexName: 'GSI3',
+      KeyConditionExpression: 'GSI3PK = :pk',
+      ExpressionAttributeValues: { ':pk': CATALOG_PARTITION },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    items.push(...page.Items);
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  const recipes = buildRecipeCatalog(items);
+  cachedCatalog = { recipes, builtAt: Date.now() };
+  logger.info('Recipe search catalog loaded', { recipeCount: recipes.length });
+  return recipes;
+}
+
+/**
+ * Get the container's catalog, loading it on first use and after it expires
+ */
+async function getRecipeCatalog(): Promise<CatalogRecipe[]> {
+  if (cachedCatalog && Date.now() - cachedCatalog.builtAt < CATALOG_TTL_MS) {
+    return cachedCatalog.recipes;
+  }
+
+  // Concurrent callers share a single load
+  if (!pendingLoad) {
+    pendingLoad = loadRecipeCatalog()
+      .catch((error) => {
+        // Serve the stale catalog rather than failing search
+        if (cachedCatalog) {
+          logger.error('Recipe search catalog refresh failed, using stale catalog', error);
+          return cachedCatalog.recipes;
+        }
+        throw error;
+      })
+      .finally(() => {
+        pendingLoad = null;
+      });
+  }
+
+  return pendingLoad;
+}
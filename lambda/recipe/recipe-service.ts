@@ -0,0 +1,531 @@
+/**
+ * Recipe Service
+ * Business logic for user-authored recipe management
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { getOptimizedQueries } from '../shared/optimized-queries';
+import { generateUUID, formatTimestamp } from '../shared/utils';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { ModerationQueueService } from '../shared/moderation-queue';
+import { scaleIngredients } from '../shared/quantity';
+import { calculateRecipeNutrition } from '../shared/nutrition';
+import { Recipe, RecipeIngredient, RecipeInstruction } from '../shared/types';
+import { CreateRecipeRequest, UpdateRecipeRequest, ListRecipesRequest, ListRecipesResult } from './types';
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_INGREDIENTS = 50;
+const MAX_INSTRUCTIONS = 50;
+const MAX_SERVINGS = 50;
+const MAX_TIME_MINUTES = 24 * 60;
+const MAX_LIST_READS = 10; // Catalog reads per page when filters leave it short
+
+// Text an admin approves; changing any of it on a public recipe sends the recipe back for review
+const REVIEWED_FIELDS = ['title', 'description', 'cuisine_type', 'cooking_method', 'meal_type', 'ingredients', 'instructions'] as const;
+
+export class RecipeService {
+  /**
+   * Create a new user-authored recipe
+   */
+  static async createRecipe(userId: string, request: CreateRecipeRequest): Promise<Recipe> {
+    const now = formatTimestamp();
+
+    const recipe: Recipe = await this.withComputedNutrition({
+      recipe_id: generateUUID(),
+      user_id: userId,
+      ...this.validateRecipeFields(request),
+      is_public: request.is_public === true,
+      is_ai_generated: false,
+      is_approved: false,
+      average_rating: 0,
+      rating_count: 0,
+      created_at: now,
+      updated_at: now,
+    });
+
+    await DynamoDBHelper.put(this.buildRecipeItem(recipe));
+
+    if (recipe.is_public) {
+      await this.queueForApproval(recipe, userId);
+    }
+
+    logger.info('Recipe created successfully', { recipeId: recipe.recipe_id, userId });
+
+    return recipe;
+  }
+
+  /**
+   * Get recipe by ID (private recipes are only visible to their owner)
+   */
+  static async getRecipe(recipeId: string, viewerId: string): Promise<Recipe> {
+    const item = await DynamoDBHelper.getRecipe(recipeId);
+
+    if (!item) {
+      throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+    }
+
+    const recipe = this.convertDynamoItemToRecipe(item);
+
+    if (!recipe.is_public && this.getOwnerId(item) !== viewerId) {
+      throw new AppError(403, 'access_denied', 'You do not have permission to view this recipe');
+    }
+
+    // Recipes hidden after reports are only visible to their owner
+    if (recipe.is_hidden && this.getOwnerId(item) !== viewerId) {
+      throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+    }
+
+    return recipe;
+  }
+
+  /**
+   * Household size from the user's preferences, if set
+   */
+  static async getHouseholdSize(userId: string): Promise<number | undefined> {
+    const preferences = await DynamoDBHelper.getUserPreferences(userId);
+    return preferences?.household_size || undefined;
+  }
+
+  /**
+   * Rescale a recipe's ingredients to a number of servings
+   */
+  static scaleRecipe(recipe: Recipe, servings: number): Recipe {
+    if (!Number.isInteger(servings) || servings < 1 || servings > MAX_SERVINGS) {
+      throw new AppError(400, 'invalid_servings', `servings must be an integer between 1 and ${MAX_SERVINGS}`);
+    }
+
+    const factor = servings / (recipe.servings || servings);
+
+    return {
+      ...recipe,
+      servings,
+      ingredients: scaleIngredients(recipe.ingredients, factor),
+    };
+  }
+
+  /**
+   * Update a recipe (only owner can update)
+   * The merged recipe is re-validated as a whole so partial updates cannot leave it inconsistent
+   */
+  static async updateRecipe(recipeId: string, userId: string, request: UpdateRecipeRequest): Promise<Recipe> {
+    const item = await DynamoDBHelper.getRecipe(recipeId);
+
+    if (!item) {
+      throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+    }
+
+    if (this.getOwnerId(item) !== userId) {
+      throw new AppError(403, 'forbidden', 'You can only update your own recipes');
+    }
+
+    const existing = this.convertDynamoItemToRecipe(item);
+    const merged: CreateRecipeRequest = {
+      title: request.title ?? existing.title,
+      description: request.description ?? existing.description,
+      cuisine_type: request.cuisine_type ?? existing.cuisine_type,
+      cooking_method: request.cooking_method ?? existing.cooking_method,
+      meal_type: request.meal_type ?? existing.meal_type,
+      prep_time_minutes: request.prep_time_minutes ?? existing.prep_time_minutes,
+      cook_time_minutes: request.cook_time_minutes ?? existing.cook_time_minutes,
+      servings: request.servings ?? existing.servings,
+      ingredients: request.ingredients ?? existing.ingredients,
+      instructions: request.instructions ?? existing.instructions,
+      nutritional_info: request.nutritional_info ?? existing.nutritional_info,
+    };
+
+    let recipe: Recipe = {
+      ...existing,
+      ...this.validateRecipeFields(merged),
+      is_public: request.is_public ?? existing.is_public,
+      updated_at: formatTimestamp(),
+    };
+
+    if (request.ingredients !== undefined || request.servings !== undefined || request.nutritional_info !== undefined) {
+      recipe = await this.withComputedNutrition(recipe);
+    }
+
+    const changedAfterApproval = recipe.is_public && recipe.is_approved && this.hasReviewedChanges(request, existing, recipe);
+    if (changedAfterApproval) {
+      recipe = { ...recipe, is_approved: false, approval_type: undefined, approved_at: undefined };
+    }
+
+    // Preserve attributes this service does not manage (stats, approval metadata, AI source, GSI keys)
+    await DynamoDBHelper.put({
+      ...item,
+      ...recipe,
+      computed_nutrition: recipe.computed_nutrition,
+      ...(changedAfterApproval && { approved_by: undefined }),
+      GSI1SK: item.GSI1PK === 'RECIPE' ? this.buildSearchSortKey(recipe) : item.GSI1SK,
+    });
+
+    if (changedAfterApproval) {
+      await this.queueForApproval(recipe, userId, 'Approved recipe changed');
+    } else if (recipe.is_public && !existing.is_public && !recipe.is_approved) {
+      await this.queueForApproval(recipe, userId);
+    }
+
+    logger.info('Recipe updated successfully', { recipeId, userId, fields: Object.keys(request) });
+
+    return recipe;
+  }
+
+  /**
+   * Delete a recipe (only owner can delete)
+   */
+  static async deleteRecipe(recipeId: string, userId: string): Promise<void> {
+    const item = await DynamoDBHelper.getRecipe(recipeId);
+
+    if (!item) {
+      throw new AppError(404, 'recipe_not_found', 'Recipe not found');
+    }
+
+    if (this.getOwnerId(item) !== userId) {
+      throw new AppError(403, 'forbidden', 'You can only delete your own recipes');
+    }
+
+    await DynamoDBHelper.delete(`RECIPE#${recipeId}`, 'METADATA');
+
+    logger.info('Recipe deleted successfully', { recipeId, userId });
+  }
+
+  /**
+   * List recipes
+   * - mine: the caller's own recipes (newest first, any approval state)
+   * - otherwise: catalog listing filtered by cuisine/method/meal type and approval state
+   */
+  static async listRecipes(userId: string, request: ListRecipesRequest): Promise<ListRecipesResult> {
+    const limit = Math.min(Math.max(request.limit || 20, 1), 100);
+
+    if (request.mine) {
+      const result = await DynamoDBHelper.query({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': `USER_RECIPES#${userId}`,
+        },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: request.last_key,
+      });
+
+      return {
+        recipes: result.Items.map(item => this.convertDynamoItemToRecipe(item)),
+        nextKey: result.LastEvaluatedKey,
+        hasMore: !!result.LastEvaluatedKey,
+      };
+    }
+
+    // Filters apply after the query limit, so keep reading until the page is full. Each read asks
+    // only for the recipes still missing, so the last read's key is where the next page starts.
+    const recipes: Recipe[] = [];
+    let nextKey = request.last_key;
+    let reads = 0;
+
+    do {
+      const result = await getOptimizedQueries().searchRecipes({
+        cuisine: request.cuisine ? this.normalizeKeyPart(request.cuisine) : undefined,
+        cookingMethod: request.cooking_method ? this.normalizeKeyPart(request.cooking_method) : undefined,
+        mealType: request.meal_type ? this.normalizeKeyPart(request.meal_type) : undefined,
+        isApproved: request.is_approved,
+        limit: limit - recipes.length,
+        lastEvaluatedKey: nextKey,
+      });
+
+      // Unapproved listings may include other users' private drafts, and reported recipes may be hidden
+      recipes.push(...result.recipes
+        .filter(item => this.getOwnerId(item) === userId || (item.is_public && !item.is_hidden))
+        .map(item => this.convertDynamoItemToRecipe(item)));
+      nextKey = result.lastEvaluatedKey;
+      reads++;
+    } while (nextKey && recipes.length < limit && reads < MAX_LIST_READS);
+
+    return {
+      recipes,
+      nextKey,
+      hasMore: !!nextKey,
+    };
+  }
+
+  /**
+   * Validate and normalize the user-editable recipe fields
+   */
+  private static validateRecipeFields(request: CreateRecipeRequest) {
+    const title = this.requireString(request.title, 'title', MAX_TITLE_LENGTH);
+    const cuisineType = this.requireString(request.cuisine_type, 'cuisine_type', 50);
+    const cookingMethod = this.requireString(request.cooking_method, 'cooking_method', 50);
+    const mealType = this.requireString(request.meal_type, 'meal_type', 50);
+
+    if (request.description !== undefined && typeof request.description !== 'string') {
+      throw new AppError(400, 'invalid_description', 'description must be a string');
+    }
+    const description = (request.description || '').trim();
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      throw new AppError(400, 'description_too_long', `description must be less than ${MAX_DESCRIPTION_LENGTH} characters`);
+    }
+
+    return {
+      title,
+      description,
+      cuisine_type: cuisineType,
+      cooking_method: cookingMethod,
+      meal_type: mealType,
+      prep_time_minutes: this.requireInteger(request.prep_time_minutes, 'prep_time_minutes', 0, MAX_TIME_MINUTES),
+      cook_time_minutes: this.requireInteger(request.cook_time_minutes, 'cook_time_minutes', 0, MAX_TIME_MINUTES),
+      servings: this.requireInteger(request.servings, 'servings', 1, MAX_SERVINGS),
+      ingredients: this.validateIngredients(request.ingredients),
+      instructions: this.validateInstructions(request.instructions),
+      nutritional_info: request.nutritional_info,
+    };
+  }
+
+  /**
+   * Put a newly public or changed user recipe in the admin moderation queue for approval
+   */
+  private static async queueForApproval(
+    recipe: Recipe,
+    userId: string,
+    reason: string = 'Public recipe awaiting approval'
+  ): Promise<void> {
+    await ModerationQueueService.enqueue({
+      item_type: 'recipe_review',
+      severity: 'low',
+      target_type: 'recipe',
+      target_id: recipe.recipe_id,
+      reason,
+      source: 'recipe',
+      details: {
+        title: recipe.title,
+        user_id: userId,
+      },
+      dedupe_key: ModerationQueueService.recipeReviewKey(recipe.recipe_id),
+    });
+  }
+
+  /**
+   * Whether an update changed text an admin approved
+   */
+  private static hasReviewedChanges(request: UpdateRecipeRequest, existing: Recipe, updated: Recipe): boolean {
+    return REVIEWED_FIELDS.some(field =>
+      request[field] !== undefined && JSON.stringify(existing[field]) !== JSON.stringify(updated[field])
+    );
+  }
+
+  /**
+   * Attach nutrition computed from master ingredient data; dropped when no ingredient could be quantified
+   */
+  private static async withComputedNutrition(recipe: Recipe): Promise<Recipe> {
+    const { computed_nutrition, ...rest } = recipe;
+    const nutrition = await calculateRecipeNutrition(recipe);
+
+    if (nutrition.coverage === 0) {
+      return rest;
+    }
+
+    if (nutrition.discrepancies) {
+      logger.info('Reported nutrition differs from computed values', {
+        recipeId: recipe.recipe_id,
+        discrepancies: nutrition.discrepancies,
+      });
+    }
+
+    return { ...rest, computed_nutrition: nutrition };
+  }
+
+  /**
+   * Validate recipe ingredients
+   */
+  private static validateIngredients(ingredients: RecipeIngredient[]): RecipeIngredient[] {
+    if (!Array.isArray(ingredients) || ingredients.length === 0) {
+      throw new AppError(400, 'missing_ingredients', 'At least one ingredient is required');
+    }
+
+    if (ingredients.length > MAX_INGREDIENTS) {
+      throw new AppError(400, 'too_many_ingredients', `Maximum ${MAX_INGREDIENTS} ingredients per recipe`);
+    }
+
+    return ingredients.map((ingredient, index) => {
+      if (!ingredient || typeof ingredient !== 'object') {
+        throw new AppError(400, 'invalid_ingredient', `Ingredient ${index + 1} is invalid`);
+      }
+
+      const name = typeof ingredient.ingredient_name === 'string' ? ingredient.ingredient_name.trim() : '';
+      if (!name) {
+        throw new AppError(400, 'invalid_ingredient', `Ingredient ${index + 1} is missing ingredient_name`);
+      }
+
+      // Quantities are free text ("1/2", "2-3") but numbers are accepted for convenience
+      const rawQuantity: unknown = ingredient.quantity;
+      const quantity = typeof rawQuantity === 'number' ? String(rawQuantity)
+        : typeof rawQuantity === 'string' ? rawQuantity.trim() : '';
+      if (!quantity) {
+        throw new AppError(400, 'invalid_ingredient', `Ingredient "${name}" is missing quantity`);
+      }
+
+      if (ingredient.unit !== undefined && typeof ingredient.unit !== 'string') {
+        throw new AppError(400, 'invalid_ingredient', `Ingredient "${name}" has an invalid unit`);
+      }
+
+      if (ingredient.preparation !== undefined && typeof ingredient.preparation !== 'string') {
+        throw new AppError(400, 'invalid_ingredient', `Ingredient "${name}" has an invalid preparation`);
+      }
+
+      return {
+        ingredient_name: name,
+        quantity,
+        unit: ingredient.unit?.trim() || undefined,
+        preparation: ingredient.preparation?.trim() || undefined,
+        is_optional: ingredient.is_optional === true,
+      };
+    });
+  }
+
+  /**
+   * Validate recipe instructions
+   * Step numbers are optional but must be unique; steps are returned in order and renumbered from 1
+   */
+  private static validateInstructions(instructions: RecipeInstruction[]): RecipeInstruction[] {
+    if (!Array.isArray(instructions) || instructions.length === 0) {
+      throw new AppError(400, 'missing_instructions', 'At least one instruction is required');
+    }
+
+    if (instructions.length > MAX_INSTRUCTIONS) {
+      throw new AppError(400, 'too_many_instructions', `Maximum ${MAX_INSTRUCTIONS} instructions per recipe`);
+    }
+
+    const seenSteps = new Set<number>();
+
+    const steps = instructions.map((instruction, index) => {
+      if (!instruction || typeof instruction !== 'object') {
+        throw new AppError(400, 'invalid_instruction', `Instruction ${index + 1} is invalid`);
+      }
+
+      const stepNumber = instruction.step_number ?? index + 1;
+      if (!Number.isInteger(stepNumber) || stepNumber < 1) {
+        throw new AppError(400, 'invalid_instruction', `Instruction ${index + 1} has an invalid step_number`);
+      }
+      if (seenSteps.has(stepNumber)) {
+        throw new AppError(400, 'invalid_instruction', `Duplicate step_number ${stepNumber}`);
+      }
+      seenSteps.add(stepNumber);
+
+      const description = typeof instruction.description === 'string' ? instruction.description.trim() : '';
+      if (!description) {
+        throw new AppError(400, 'invalid_instruction', `Step ${stepNumber} is missing a description`);
+      }
+
+      if (instruction.duration !== undefined && typeof instruction.duration !== 'string') {
+        throw new AppError(400, 'invalid_instruction', `Step ${stepNumber} has an invalid duration`);
+      }
+
+      return {
+        step_number: stepNumber,
+        description,
+        duration: instruction.duration?.trim() || undefined,
+      };
+    });
+
+    return steps
+      .sort((a, b) => a.step_number - b.step_number)
+      .map((step, index) => ({ ...step, step_number: index + 1 }));
+  }
+
+  private static requireString(value: unknown, field: string, maxLength: number): string {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      throw new AppError(400, `missing_${field}`, `${field} is required`);
+    }
+    if (value.trim().length > maxLength) {
+      throw new AppError(400, `invalid_${field}`, `${field} must be less than ${maxLength} characters`);
+    }
+    return value.trim();
+  }
+
+  private static requireInteger(value: unknown, field: string, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new AppError(400, `invalid_${field}`, `${field} must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  /**
+   * Key parts are stored lowercased so catalog filters are case-insensitive
+   */
+  private static normalizeKeyPart(value: string): string {
+    return value.trim().toLowerCase();
+  }
+
+  /**
+   * Recipes saved from AI suggestions record their owner in created_by
+   */
+  static getOwnerId(item: any): string | undefined {
+    return item.user_id || item.created_by;
+  }
+
+  /**
+   * Build the DynamoDB item for a recipe
+   * GSI1 (RECIPE / cuisine#method#meal#created_at) backs OptimizedQueries.searchRecipes,
+   * GSI2 (USER_RECIPES#userId) backs the "my recipes" listing,
+   * GSI3 (RECIPE_CATALOG / created_at) backs the recipe search catalog
+   */
+  private static buildRecipeItem(recipe: Recipe) {
+    return {
+      PK: `RECIPE#${recipe.recipe_id}`,
+      SK: 'METADATA',
+      entity_type: 'recipe',
+      ...recipe,
+      source: 'user_created',
+      created_by: recipe.user_id,
+      GSI1PK: 'RECIPE',
+      GSI1SK: this.buildSearchSortKey(recipe),
+      GSI2PK: `USER_RECIPES#${recipe.user_id}`,
+      GSI2SK: recipe.created_at,
+      GSI3PK: 'RECIPE_CATALOG',
+      GSI3SK: recipe.created_at,
+    };
+  }
+
+  /**
+   * GSI1SK layout expected by OptimizedQueries.searchRecipes prefix filters
+   */
+  private static buildSearchSortKey(recipe: Recipe): string {
+    return [
+      this.normalizeKeyPart(recipe.cuisine_type),
+      this.normalizeKeyPart(recipe.cooking_method),
+      this.normalizeKeyPart(recipe.meal_type),
+      recipe.created_at,
+    ].join('#');
+  }
+
+  /**
+   * Convert DynamoDB item to Recipe object
+   */
+  static convertDynamoItemToRecipe(item: any): Recipe {
+    return {
+      recipe_id: item.recipe_id || item.PK.replace('RECIPE#', ''),
+      user_id: item.user_id || item.created_by,
+      title: item.title,
+      description: item.description || '',
+      cuisine_type: item.cuisine_type,
+      cooking_method: item.cooking_method,
+      meal_type: item.meal_type,
+      prep_time_minutes: item.prep_time_minutes || 0,
+      cook_time_minutes: item.cook_time_minutes || 0,
+      servings: item.servings || 1,
+      ingredients: item.ingredients || [],
+      instructions: item.instructions || [],
+      nutritional_info: item.nutritional_info,
+      computed_nutrition: item.computed_nutrition,
+      is_public: item.is_public || false,
+      is_ai_generated: item.is_ai_generated || false,
+      is_approved: item.is_approved || false,
+      approval_type: item.approval_type,
+      average_rating: item.average_rating,
+      rating_count: item.rating_count || 0,
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+      approved_at: item.approved_at,
+      ...(item.is_hidden && { is_hidden: true }),
+    };
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Recipe Management Types
+ */
+
+import { Recipe, RecipeIngredient, RecipeInstruction, NutritionalInfo } from '../shared/types';
+
+export interface CreateRecipeRequest {
+  title: string;
+  description?: string;
+  cuisine_type: string;
+  cooking_method: string;
+  meal_type: string;
+  prep_time_minutes: number;
+  cook_time_minutes: number;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  instructions: RecipeInstruction[];
+  nutritional_info?: NutritionalInfo;
+  is_public?: boolean;
+}
+
+export type UpdateRecipeRequest = Partial<CreateRecipeRequest>;
+
+export interface ListRecipesRequest {
+  cuisine?: string;
+  cooking_method?: string;
+  meal_type?: string;
+  is_approved?: boolean;
+  mine?: boolean;
+  limit?: number;
+  last_key?: any; // Decoded pagination token
+}
+
+export interface ListRecipesResult {
+  recipes: Recipe[];
+  nextKey?: any;
+  hasMore: boolean;
+}
+
+export type RecipeSearchSort = 'rating' | 'recent' | 'popular';
+
+export interface SearchRecipesRequest {
+  q?: string; // Free text over title and description, diacritic-insensitive
+  include_ingredients?: string[]; // Every one must be in the recipe
+  exclude_ingredients?: string[]; // None may be in the recipe
+  max_total_time?: number; // prep + cook, minutes
+  min_rating?: number;
+  source?: 'ai' | 'human';
+  exclude_allergens?: boolean; // Drop recipes containing the caller's allergies (default true)
+  sort?: RecipeSearchSort;
+  limit?: number;
+  cursor?: string; // next_cursor from the previous page
+}
+
+export interface SearchRecipesResult {
+  recipes: Recipe[];
+  nextCursor?: string;
+  hasMore: boolean;
+  excludedAllergens: string[];
+}
@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for Reports Lambda
+ */
+
+import { handler } from './index';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { APIGatewayEvent } from '../shared/types';
+
+// Mock DynamoDB Helper
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+const mockGetUserReputationScore = jest.fn();
+jest.mock('../rating/ingredient-security', () => ({
+  IngredientSecurityService: {
+    getUserReputationScore: (...args: any[]) => mockGetUserReputationScore(...args)
+  }
+}));
+
+describe('Reports Lambda', () => {
+  const reporter = 'user-bob';
+  const author = 'user-alice';
+
+  const createMockEvent = (body?: any, userId: string = reporter): APIGatewayEvent => ({
+    httpMethod: 'POST',
+    path: '/reports',
+    pathParameters: null,
+    queryStringParameters: null,
+    headers: {},
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: {
+        claims: {
+          sub: userId,
+          email: `${userId}@example.com`,
+          username: userId
+        }
+      }
+    },
+    multiValueHeaders: undefined,
+    multiValueQueryStringParameters: undefined,
+    stageVariables: null,
+    isBase64Encoded: false,
+    resource: '/reports'
+  });
+
+  const postItem = {
+    PK: 'POST#post-1',
+    SK: 'METADATA',
+    post_id: 'post-1',
+    user_id: author,
+    content: 'Buy cheap followers',
+    is_public: true
+  };
+
+  const spamReport = { target_type: 'post', target_id: 'post-1', reason_code: 'spam' };
+
+  // get() is called for the target and the queue item
+  const mockGet = () => {
+    mockDynamoDBHelper.get.mockImplementation(async (PK: string, SK: string) => {
+      if (PK === 'POST#post-1' && SK === 'METADATA') return postItem;
+      return undefined;
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.REPORT_HIDE_THRESHOLD;
+    mockGetUserReputationScore.mockResolvedValue(42);
+    mockDynamoDBHelper.query.mockResolvedValue({
+      Items: [{ reporter_id: reporter, reporter_reputation: 42, reason_code: 'spam', created_at: '2026-10-19T00:00:00.000Z' }],
+      Count: 1,
+      LastEvaluatedKey: undefined
+    });
+  });
+
+  it('should record a report with the reporter reputation and queue it for admins', async () => {
+    mockGet();
+    mockDynamoDBHelper.update.mockResolvedValue({ reporter_count: 1 });
+
+    const result = await handler(createMockEvent({ ...spamReport, details: '  Spam link  ' }));
+
+    expect(result.statusCode).toBe(201);
+    const { report } = JSON.parse(result.body).data;
+    expect(report).toMatchObject({ target_type: 'post', target_id: 'post-1', reporter_id: reporter, details: 'Spam link' });
+    expect(report.reporter_reputation).toBeUndefined();
+
+    expect(mockDynamoDBHelper.conditionalPut).toHaveBeenCalledWith(expect.objectContaining({
+      PK: 'REPORT#post#post-1',
+      SK: `REPORTER#${reporter}`,
+      entity_type: 'CONTENT_REPORT',
+      reporter_reputation: 42
+    }), 'attribute_not_exists(PK)');
+    expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+      entity_type: 'MODERATION_ITEM',
+      item_type: 'content_report',
+      severity: 'low',
+      target_type: 'post',
+      details: expect.objectContaining({
+        owner_id: author,
+        reporter_count: 1,
+        hidden: false,
+        reports: [expect.objectContaining({ reporter_id: reporter, reporter_reputation: 42 })]
+      })
+    }));
+    expect(mockDynamoDBHelper.update).not.toHaveBeenCalledWith(
+      'POST#post-1', 'METADATA', expect.stringContaining('is_hidden'), expect.anything()
+    );
+  });
+
+  it('should hide the content when the configured number of distinct reporters is reached', async () => {
+    process.env.REPORT_HIDE_THRESHOLD = '2';
+    mockGet();
+    mockDynamoDBHelper.update.mockResolvedValue({ reporter_count: 2 });
+
+    const result = await handler(createMockEvent(spamReport));
+
+    expect(result.statusCode).toBe(201);
+    expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+      'POST#post-1',
+      'METADATA',
+      'SET is_hidden = :true, hidden_at = :now',
+      expect.objectContaining({ ':true': true })
+    );
+    expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+      item_type: 'content_report',
+      severity: 'high',
+      details: expect.objectContaining({ hidden: true })
+    }));
+  });
+
+  it('should return 409 when the user already reported the target', async () => {
+    mockGet();
+    mockDynamoDBHelper.conditionalPut.mockRejectedValueOnce(
+      Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' })
+    );
+
+    const result = await handler(createMockEvent(spamReport));
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).error).toBe('already_reported');
+    expect(mockDynamoDBHelper.update).not.toHaveBeenCalled();
+    expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+  });
+
+  it('should remove the report again when it could not be counted', async () => {
+    mockGet();
+    mockDynamoDBHelper.update.mockRejectedValueOnce(new Error('Database operation update failed'));
+
+    const result = await handler(createMockEvent(spamReport));
+
+    expect(result.statusCode).toBe(500);
+    expect(mockDynamoDBHelper.delete).toHaveBeenCalledWith('REPORT#post#post-1', `REPORTER#${reporter}`);
+    expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+  });
+
+  it('should find a reported comment past the first page of the post\'s comments', async () => {
+    mockGet();
+    mockDynamoDBHelper.query
+      .mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: { PK: 'POST#post-1', SK: 'COMMENT#2026-10-18#comment-0' } })
+      .mockResolvedValueOnce({
+        Items: [{ PK: 'POST#post-1', SK: 'COMMENT#2026-10-19#comment-1', comment_id: 'comment-1', user_id: author }],
+        Count: 1,
+        LastEvaluatedKey: { PK: 'POST#post-1', SK: 'COMMENT#2026-10-19#comment-1' }
+      });
+    mockDynamoDBHelper.update.mockResolvedValue({ reporter_count: 1 });
+
+    const result = await handler(createMockEvent({ target_type: 'comment', target_id: 'comment-1', post_id: 'post-1', reason_code: 'spam' }));
+
+    expect(result.statusCode).toBe(201);
+    expect(mockDynamoDBHelper.query).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      FilterExpression: 'comment_id = :commentId',
+      ExclusiveStartKey: { PK: 'POST#post-1', SK: 'COMMENT#2026-10-18#comment-0' }
+    }));
+  });
+
+  it('should return 400 when reporting your own content', async () => {
+    mockGet();
+
+    const result = await handler(createMockEvent(spamReport, author));
+
+    expect(result.statusCode).toBe(400);
+    expect(JSON.parse(result.body).error).toBe('cannot_report_self');
+  });
+
+  it('should require details for reason "other" and post_id for comments', async () => {
+    const other = await handler(createMockEvent({ ...spamReport, reason_code: 'other' }));
+    expect(JSON.parse(other.body).error).toBe('missing_details');
+
+    const comment = await handler(createMockEvent({ target_type: 'comment', target_id: 'comment-1', reason_code: 'spam' }));
+    expect(JSON.parse(comment.body).error).toBe('missing_post_id');
+  });
+
+  it('should return 404 for a missing target', async () => {
+    mockDynamoDBHelper.get.mockResolvedValue(undefined);
+
+    const result = await handler(createMockEvent(spamReport));
+
+    expect(result.statusCode).toBe(404);
+    expect(JSON.parse(result.body).error).toBe('target_not_found');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Reports Lambda Function
+ * Handles user reports on posts, comments, recipes and user profiles
+ */
+
+import { APIGatewayEvent, APIResponse } from '../shared/types';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
+import { getUserIdFromEvent } from '../shared/utils';
+import { ReportService } from './report-service';
+import { logger } from '../shared/logger';
+import { metrics } from '../shared/metrics';
+import { tracer } from '../shared/tracer';
+import { CreateReportRequest } from './types';
+
+export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
+  const startTime = Date.now();
+
+  // Initialize logger with request context
+  logger.initFromEvent(event);
+  logger.logFunctionStart('reports', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS preflight requests for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Set X-Ray user context
+    tracer.setUser(userId);
+
+    logger.info('Reports request received', {
+      method,
+      path,
+      userId
+    });
+
+    if (method === 'POST' && (path === '/reports' || path === '/v1/reports')) {
+      return await createReport(userId, event.body);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Reports handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'reports');
+    logger.logFunctionEnd('reports', 500, duration);
+    return handleError(error);
+  } finally {
+    // Flush metrics and log function end
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('reports', 200, duration);
+    await metrics.flush();
+  }
+}
+
+/**
+ * Report a post, comment, recipe or user profile
+ */
+async function createReport(userId: string, body: string | null): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: CreateReportRequest = JSON.parse(body);
+
+  const report = await ReportService.createReport(userId, request);
+
+  return successResponse({
+    message: 'Report received',
+    report
+  }, 201);
+}
@@ -0,0 +1,239 @@
+/**
+ * Report Service
+ * Business logic for user reports on posts, comments, recipes and profiles
+ *
+ * Storage: one CONTENT_REPORT per reporter and target (PK: REPORT#type#targetId,
+ * SK: REPORTER#userId), so a user can report a target once, plus a SUMMARY item in the same
+ * partition counting distinct reporters. When the count reaches REPORT_HIDE_THRESHOLD the
+ * target is hidden until an admin decides; every report also updates the target's
+ * content_report item in the moderation queue.
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { generateUUID, formatTimestamp } from '../shared/utils';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { ContentVisibilityService, REPORTABLE_TARGET_TYPES } from '../shared/content-visibility';
+import { ModerationQueueService, ModerationSeverity } from '../shared/moderation-queue';
+import { IngredientSecurityService } from '../rating/ingredient-security';
+import { ContentReport, CreateReportRequest, ReportReasonCode } from './types';
+
+export const REPORT_REASON_CODES: ReportReasonCode[] = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'sexual_content',
+  'violence',
+  'misinformation',
+  'food_safety',
+  'impersonation',
+  'other',
+];
+
+const MAX_DETAILS_LENGTH = 500;
+const DEFAULT_HIDE_THRESHOLD = 3;
+const MAX_REPORTS_IN_QUEUE_ITEM = 20;
+
+export class ReportService {
+  /**
+   * Report a target
+   * Throws 409 already_reported when the user has reported it before
+   */
+  static async createReport(userId: string, request: CreateReportRequest): Promise<ContentReport> {
+    this.validateRequest(request);
+
+    const { target_type: targetType, target_id: targetId } = request;
+    const postId = targetType === 'comment' ? request.post_id : undefined;
+
+    const target = await ContentVisibilityService.findTarget(targetType, targetId, postId);
+    if (!target || target.is_deleted) {
+      throw new AppError(404, 'target_not_found', 'Reported content not found');
+    }
+
+    const ownerId = ContentVisibilityService.getOwnerId(targetType, target);
+    if (ownerId === userId) {
+      throw new AppError(400, 'cannot_report_self', 'You cannot report your own content');
+    }
+
+    const partitionKey = `REPORT#${targetType}#${targetId}`;
+    const reporterReputation = await IngredientSecurityService.getUserReputationScore(userId);
+
+    const report: ContentReport = {
+      report_id: generateUUID(),
+      target_type: targetType,
+      target_id: targetId,
+      ...(postId && { post_id: postId }),
+      reporter_id: userId,
+      reason_code: request.reason_code,
+      ...(request.details?.trim() && { details: request.details.trim() }),
+      created_at: formatTimestamp(),
+    };
+
+    // The condition makes concurrent duplicates fail here, before they reach the count
+    try {
+      await DynamoDBHelper.conditionalPut(
+        {
+          PK: partitionKey,
+          SK: `REPORTER#${userId}`,
+          entity_type: 'CONTENT_REPORT',
+          ...report,
+          reporter_reputation: reporterReputation,
+        },
+        'attribute_not_exists(PK)'
+      );
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        throw new AppError(409, 'already_reported', 'You have already reported this');
+      }
+      throw error;
+    }
+
+    const reporterCount = await this.countReporter(report, ownerId);
+
+    // Hide once, when the threshold-th distinct reporter comes in; after an admin restores
+    // the content, later reports only go to the queue
+    const hidden = reporterCount === this.getHideThreshold() && !target.is_hidden
+      ? await ContentVisibilityService.setHidden(targetType, targetId, true, postId)
+      : !!target.is_hidden;
+
+    await this.queueForModeration(report, ownerId, reporterCount, hidden);
+
+    logger.info('Content reported', {
+      reportId: report.report_id,
+      targetType,
+      targetId,
+      reasonCode: report.reason_code,
+      reporterCount,
+      hidden,
+    });
+
+    return report;
+  }
+
+  /**
+   * Add the reporter to the target's summary and return the new count
+   * The ADD returns a distinct count to each reporter, so exactly one of them reaches the
+   * hide threshold. If it fails the report is removed again so the user can retry.
+   */
+  private static async countReporter(report: ContentReport, ownerId: string | undefined): Promise<number> {
+    const partitionKey = `REPORT#${report.target_type}#${report.target_id}`;
+
+    try {
+      const summary = await DynamoDBHelper.update(
+        partitionKey,
+        'SUMMARY',
+        'SET entity_type = :type, target_type = :targetType, target_id = :targetId, owner_id = :ownerId, last_reported_at = :now ADD reporter_count :one',
+        {
+          ':type': 'CONTENT_REPORT_SUMMARY',
+          ':targetType': report.target_type,
+          ':targetId': report.target_id,
+          ':ownerId': ownerId || '',
+          ':now': report.created_at,
+          ':one': 1,
+        }
+      );
+      return summary?.reporter_count || 1;
+    } catch (error) {
+      await DynamoDBHelper.delete(partitionKey, `REPORTER#${report.reporter_id}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Distinct reporters that hide a target, from REPORT_HIDE_THRESHOLD
+   */
+  static getHideThreshold(): number {
+    const threshold = parseInt(process.env.REPORT_HIDE_THRESHOLD || '', 10);
+    return Number.isInteger(threshold) && threshold > 0 ? threshold : DEFAULT_HIDE_THRESHOLD;
+  }
+
+  private static validateRequest(request: CreateReportRequest): void {
+    if (!REPORTABLE_TARGET_TYPES.includes(request.target_type)) {
+      throw new AppError(400, 'invalid_target_type', `target_type must be one of: ${REPORTABLE_TARGET_TYPES.join(', ')}`);
+    }
+
+    if (!request.target_id || typeof request.target_id !== 'string') {
+      throw new AppError(400, 'missing_target_id', 'target_id is required');
+    }
+
+    if (request.target_type === 'comment' && !request.post_id) {
+      throw new AppError(400, 'missing_post_id', 'post_id is required when reporting a comment');
+    }
+
+    if (!REPORT_REASON_CODES.includes(request.reason_code)) {
+      throw new AppError(400, 'invalid_reason_code', `reason_code must be one of: ${REPORT_REASON_CODES.join(', ')}`);
+    }
+
+    if (request.details !== undefined && typeof request.details !== 'string') {
+      throw new AppError(400, 'invalid_details', 'details must be a string');
+    }
+
+    if (request.details && request.details.length > MAX_DETAILS_LENGTH) {
+      throw new AppError(400, 'details_too_long', `details must be at most ${MAX_DETAILS_LENGTH} characters`);
+    }
+
+    if (request.reason_code === 'other' && !request.details?.trim()) {
+      throw new AppError(400, 'missing_details', 'details are required for reason "other"');
+    }
+  }
+
+  /**
+   * Update the target's content_report item with the latest reports and reporter reputations
+   */
+  private static async queueForModeration(
+    report: ContentReport,
+    ownerId: string | undefined,
+    reporterCount: number,
+    hidden: boolean
+  ): Promise<void> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `REPORT#${report.target_type}#${report.target_id}`,
+        ':sk': 'REPORTER#',
+      },
+    });
+
+    const reports = (result.Items || [])
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, MAX_REPORTS_IN_QUEUE_ITEM)
+      .map(item => ({
+        reporter_id: item.reporter_id,
+        reporter_reputation: item.reporter_reputation || 0,
+        reason_code: item.reason_code,
+        details: item.details,
+        created_at: item.created_at,
+      }));
+
+    const reasonCounts: { [reasonCode: string]: number } = {};
+    (result.Items || []).forEach(item => {
+      reasonCounts[item.reason_code] = (reasonCounts[item.reason_code] || 0) + 1;
+    });
+    const topReason = Object.entries(reasonCounts).sort(([, a], [, b]) => b - a)[0]?.[0] || report.reason_code;
+
+    let severity: ModerationSeverity = 'low';
+    if (hidden) {
+      severity = 'high';
+    } else if (reporterCount > 1 || report.target_type === 'user') {
+      severity = 'medium';
+    }
+
+    await ModerationQueueService.enqueue({
+      item_type: 'content_report',
+      severity,
+      target_type: report.target_type,
+      target_id: report.target_id,
+      reason: `Reported by ${reporterCount} user${reporterCount === 1 ? '' : 's'} (${topReason})${hidden ? ', hidden' : ''}`,
+      source: 'reports',
+      details: {
+        ...(report.post_id && { post_id: report.post_id }),
+        owner_id: ownerId,
+        reporter_count: reporterCount,
+        reason_counts: reasonCounts,
+        hidden,
+        reports,
+      },
+      dedupe_key: `content_report:${report.target_type}:${report.target_id}`,
+    });
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Content Report Types
+ */
+
+import { ReportableTargetType } from '../shared/content-visibility';
+
+export type ReportReasonCode =
+  | 'spam'
+  | 'harassment'
+  | 'hate_speech'
+  | 'sexual_content'
+  | 'violence'
+  | 'misinformation'
+  | 'food_safety' // Dangerous cooking or storage advice
+  | 'impersonation'
+  | 'other'; // Requires details
+
+export interface CreateReportRequest {
+  target_type: ReportableTargetType;
+  target_id: string;
+  post_id?: string; // Required for comments
+  reason_code: ReportReasonCode;
+  details?: string;
+}
+
+export interface ContentReport {
+  report_id: string;
+  target_type: ReportableTargetType;
+  target_id: string;
+  post_id?: string;
+  reporter_id: string;
+  reason_code: ReportReasonCode;
+  details?: string;
+  created_at: string;
+}
@@ -12,6 +12,7 @@
 
 import { DynamoDBHelper } from '../shared/dynamodb';
 import { logger } from '../shared/logger';
+import { ModerationQueueService } from '../shared/moderation-queue';
 import { v4 as uuidv4 } from 'uuid';
 
 export interface AbuseRecord {
@@ -248,6 +249,21 @@ export class AbuseTrackingService {
       GSI2SK: timestamp,
     });
 
+    await ModerationQueueService.enqueue({
+      item_type: 'user_abuse',
+      severity: stats.this_week_violations >= 10 ? 'critical' : 'high',
+      target_type: 'user',
+      target_id: userId,
+      reason: `${stats.this_week_violations} violations in week ${weekKey}`,
+      source: 'abuse-tracking',
+      details: {
+        week_key: weekKey,
+        notification_id: notificationId,
+        severity_breakdown: stats.severity_breakdown,
+      },
+      dedupe_key: `user_abuse:${userId}:${weekKey}`,
+    });
+
     logger.warn('🚨 ADMIN NOTIFIED: User exceeded violation threshold', {
       userId,
       weekKey,
@@ -309,22 +325,23 @@ export class AbuseTrackingService {
     stats: AbuseStats,
     escalationType: 'auto_suspension' | 'critical_violation'
   ): Promise<void> {
-    const escalationId = uuidv4();
-    const timestamp = new Date().toISOString();
+    const weekKey = this.getCurrentWeekKey();
 
-    await DynamoDBHelper.put({
-      PK: 'ADMIN_ESCALATIONS',
-      SK: `${timestamp}#${escalationId}`,
-      entity_type: 'admin_escalation',
-      escalation_id: escalationId,
-      escalation_type: escalationType,
-      user_id: userId,
-      stats: stats,
-      created_at: timestamp,
-      status: 'urgent',
-      // GSI for admin dashboard - CRITICAL priority
-      GSI1PK: 'URGENT_ESCALATIONS',
-      GSI1SK: timestamp,
+    await ModerationQueueService.enqueue({
+      item_type: 'abuse_escalation',
+      severity: 'critical',
+      target_type: 'user',
+      target_id: userId,
+      reason: escalationType === 'auto_suspension'
+        ? `Auto-suspended after ${stats.this_week_violations} violations in week ${weekKey}`
+        : 'Critical violation',
+      source: 'abuse-tracking',
+      details: {
+        escalation_type: escalationType,
+        week_key: weekKey,
+        stats,
+      },
+      dedupe_key: `abuse_escalation:${userId}:${weekKey}:${escalationType}`,
     });
 
     logger.error('🚨🚨🚨 CRITICAL ESCALATION TO ADMIN', {
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for the admin audit log
+ */
+
+import { AdminAuditLog } from './admin-audit-log';
+import { DynamoDBHelper } from './dynamodb';
+
+jest.mock('./dynamodb');
+jest.mock('./logger');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+describe('AdminAuditLog', () => {
+  const now = new Date('2026-10-19T10:15:30.000Z');
+
+  // Entries and the chain head written through transactPut, read back through get and query
+  let items: any[];
+  let head: any;
+
+  const append = (targetId: string, notes?: string) =>
+    AdminAuditLog.append({
+      admin_id: 'admin-1',
+      action_type: 'ban_user',
+      target_type: 'user',
+      target_id: targetId,
+      reason: 'Spam',
+      notes,
+    }, now);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    items = [];
+    head = undefined;
+
+    mockDynamoDBHelper.get.mockImplementation(async () => head && { ...head });
+    mockDynamoDBHelper.transactPut.mockImplementation(async (puts: any[]) => {
+      items.push(puts[0].Item);
+      head = puts[1].Item;
+      return {} as any;
+    });
+    mockDynamoDBHelper.query.mockImplementation(async () => ({
+      Items: [...items].sort((a, b) => a.GSI1SK.localeCompare(b.GSI1SK)),
+      LastEvaluatedKey: undefined,
+      Count: items.length,
+    }));
+  });
+
+  describe('append', () => {
+    it('should link each entry to the one before it and move the head', async () => {
+      const first = await append('user-1');
+      const second = await append('user-2');
+
+      expect(first).toMatchObject({ sequence: 1, prev_hash: '0'.repeat(64), created_at: now.toISOString() });
+      expect(second).toMatchObject({ sequence: 2, prev_hash: first.hash });
+      expect(second.hash).toBe(AdminAuditLog.computeHash(second));
+      expect(head).toMatchObject({ sequence: 2, hash: second.hash, action_id: second.action_id });
+
+      expect(items[1]).toMatchObject({
+        PK: 'ADMIN#admin-1',
+        SK: `ACTION#${second.action_id}`,
+        GSI1PK: 'ADMIN_AUDIT',
+        GSI1SK: '000000000002',
+        GSI2PK: 'AUDIT_TARGET#user#user-2',
+      });
+      expect(mockDynamoDBHelper.transactPut.mock.calls[1][0][1]).toMatchObject({
+        ConditionExpression: '#sequence = :prev',
+        ExpressionAttributeValues: { ':prev': 1 },
+      });
+    });
+
+    it('should retry when another action moved the head first', async () => {
+      const conflict = Object.assign(new Error('Transaction cancelled'), { name: 'TransactionCanceledException' });
+      mockDynamoDBHelper.transactPut.mockRejectedValueOnce(conflict);
+
+      const entry = await append('user-1');
+
+      expect(entry.sequence).toBe(1);
+      expect(mockDynamoDBHelper.transactPut).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('verifyChain', () => {
+    beforeEach(async () => {
+      await append('user-1');
+      await append('user-2', 'Banned for 30 days');
+      await append('user-3');
+    });
+
+    it('should accept an untouched chain', async () => {
+      const verification = await AdminAuditLog.verifyChain(now);
+
+      expect(verification).toMatchObject({ valid: true, checked: 3, head_sequence: 3, head_hash: head.hash });
+      expect(verification.broken_at).toBeUndefined();
+    });
+
+    it('should detect an edited entry', async () => {
+      items[1].notes = 'Banned for 1 day';
+
+      const verification = await AdminAuditLog.verifyChain(now);
+
+      expect(verification).toMatchObject({
+        valid: false,
+        checked: 1,
+        broken_at: { sequence: 2, reason: 'hash_mismatch' },
+      });
+    });
+
+    it('should detect a deleted entry', async () => {
+      items.splice(1, 1);
+
+      const verification = await AdminAuditLog.verifyChain(now);
+
+      expect(verification.broken_at).toEqual({ sequence: 2, reason: 'missing_entry' });
+    });
+
+    it('should detect the latest entry being removed', async () => {
+      items.pop();
+
+      const verification = await AdminAuditLog.verifyChain(now);
+
+      expect(verification.broken_at).toEqual({ sequence: 3, reason: 'missing_entry' });
+    });
+  });
+
+  describe('list', () => {
+    it('should read a target from its index with the other filters applied', async () => {
+      await AdminAuditLog.list({
+        target_type: 'user',
+        target_id: 'user-1',
+        admin_id: 'admin-1',
+        action_type: 'ban_user',
+        from: '2026-10-01T00:00:00.000Z',
+        limit: 20,
+      });
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :pk',
+        FilterExpression: 'admin_id = :admin AND action_type = :actionType AND created_at >= :from',
+        ScanIndexForward: false,
+        Limit: 20,
+      }));
+    });
+
+    it('should continue into the unchained pre-chain actions once the chain runs out', async () => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({ Items: [{ action_id: 'a2', sequence: 1, created_at: '2026-10-02T00:00:00.000Z' }], LastEvaluatedKey: undefined } as any)
+        .mockResolvedValueOnce({
+          Items: [{ action_id: 'a1', created_at: '2026-09-01T00:00:00.000Z' }],
+          LastEvaluatedKey: { PK: 'ADMIN#admin-1', SK: 'ACTION#a1', GSI1PK: 'ADMIN_AUDIT_LEGACY', GSI1SK: '2026-09-01T00:00:00.000Z#a1' },
+        } as any);
+
+      const page = await AdminAuditLog.list({ limit: 2 });
+
+      expect(page.entries.map(entry => entry.action_id)).toEqual(['a2', 'a1']);
+      expect(mockDynamoDBHelper.query).toHaveBeenLastCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: { ':pk': 'ADMIN_AUDIT_LEGACY' },
+        Limit: 1,
+      }));
+
+      mockDynamoDBHelper.query.mockClear();
+      mockDynamoDBHelper.query.mockResolvedValueOnce({ Items: [], LastEvaluatedKey: undefined } as any);
+      await AdminAuditLog.list({ limit: 2, lastKey: page.nextKey });
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledTimes(1);
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': 'ADMIN_AUDIT_LEGACY' },
+        ExclusiveStartKey: page.nextKey,
+      }));
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote separators and defuse formulas', async () => {
+      const entry = await append('user-1', 'Posted "free" links, twice');
+      const csv = AdminAuditLog.toCsv([{ ...entry, reason: '=HYPERLINK("x")' }]);
+      const [header, row] = csv.trimEnd().split('\r\n');
+
+      expect(header.split(',')[0]).toBe('sequence');
+      expect(row).toContain('"\'=HYPERLINK(""x"")"');
+      expect(row).toContain('"Posted ""free"" links, twice"');
+    });
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * Admin Audit Log
+ * Every admin action (bans, recipe decisions, queue resolutions, quota overrides) is appended to
+ * one hash chain: each entry carries a sequence number, the hash of the entry before it and its own
+ * SHA-256 over its fields and that previous hash. Editing or deleting a past entry breaks the chain
+ * from that point on, and the chain head catches removal of the latest entries. The head hash
+ * returned by verification can be kept outside DynamoDB to also detect a rewrite of the whole chain.
+ *
+ * Storage:
+ * - Entries: PK ADMIN#adminId, SK ACTION#actionId
+ *   GSI1PK ADMIN_AUDIT, GSI1SK zero-padded sequence (chain order)
+ *   GSI2PK AUDIT_TARGET#targetType#targetId, GSI2SK createdAt#actionId (a target's history)
+ * - Head: PK ADMIN_AUDIT, SK CHAIN_HEAD with the last sequence and hash. Entry and head are written
+ *   in one transaction conditioned on the head not having moved, so concurrent actions never fork
+ *   the chain.
+ *
+ * Actions logged before the chain existed have no sequence or hash. scripts/backfill-admin-audit.ts
+ * indexes them on GSI1PK ADMIN_AUDIT_LEGACY (GSI1SK createdAt#actionId) and on their target's GSI2
+ * history; they all predate the chain, so the full listing continues into them after the first entry.
+ */
+
+import { createHash } from 'crypto';
+import { DynamoDBHelper } from './dynamodb';
+import { logger } from './logger';
+import { generateUUID } from './utils';
+
+export interface AdminAuditAction {
+  admin_id: string;
+  admin_username?: string;
+  action_type: string; // 'ban_user', 'unban_user', 'approve_recipe', 'reject_recipe', 'resolve_queue_item', etc.
+  target_type: string; // 'user', 'recipe', 'post', 'moderation_item', etc.
+  target_id: string;
+  reason?: string;
+  notes?: string;
+}
+
+export interface AdminAuditEntry extends AdminAuditAction {
+  action_id: string;
+  sequence?: number; // Missing on actions logged before the chain existed
+  prev_hash?: string;
+  hash?: string;
+  created_at: string;
+}
+
+export interface AdminAuditFilter {
+  admin_id?: string;
+  action_type?: string;
+  target_type?: string;
+  target_id?: string; // Only used together with target_type
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+  limit?: number;
+  lastKey?: any;
+}
+
+export type AdminAuditBreak = 'missing_entry' | 'chain_mismatch' | 'hash_mismatch' | 'head_mismatch';
+
+export interface AdminAuditVerification {
+  valid: boolean;
+  checked: number;
+  head_sequence: number;
+  head_hash: string;
+  broken_at?: {
+    sequence: number;
+    action_id?: string;
+    reason: AdminAuditBreak;
+  };
+  verified_at: string;
+}
+
+export const AUDIT_CSV_COLUMNS: Array<keyof AdminAuditEntry> = [
+  'sequence',
+  'created_at',
+  'action_id',
+  'admin_id',
+  'admin_username',
+  'action_type',
+  'target_type',
+  'target_id',
+  'reason',
+  'notes',
+  'prev_hash',
+  'hash',
+];
+
+const CHAIN_PK = 'ADMIN_AUDIT';
+const LEGACY_PK = 'ADMIN_AUDIT_LEGACY'; // Actions from before the chain
+const HEAD_SK = 'CHAIN_HEAD';
+const GENESIS_HASH = '0'.repeat(64);
+const SEQUENCE_WIDTH = 12;
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Fields covered by an entry's hash, in hashing order
+const HASHED_FIELDS: Array<keyof AdminAuditEntry> = [
+  'sequence',
+  'prev_hash',
+  'action_id',
+  'admin_id',
+  'admin_username',
+  'action_type',
+  'target_type',
+  'target_id',
+  'reason',
+  'notes',
+  'created_at',
+];
+
+export class AdminAuditLog {
+  /**
+   * Append an action to the chain
+   * Retries when another action took the head first; throws once the attempts run out.
+   */
+  static async append(action: AdminAuditAction, now: Date = new Date()): Promise<AdminAuditEntry> {
+    for (let attempt = 1; ; attempt++) {
+      const head = await DynamoDBHelper.get(CHAIN_PK, HEAD_SK);
+      const entry: AdminAuditEntry = {
+        action_id: `${now.getTime()}-${generateUUID()}`, // Time first so an admin's actions sort by time
+        ...action,
+        sequence: (head?.sequence || 0) + 1,
+        prev_hash: head?.hash || GENESIS_HASH,
+        created_at: now.toISOString(),
+      };
+      entry.hash = this.computeHash(entry);
+
+      try {
+        await DynamoDBHelper.transactPut([
+          {
+            Item: this.toItem(entry),
+            ConditionExpression: 'attribute_not_exists(PK)',
+          },
+          {
+            Item: {
+              PK: CHAIN_PK,
+              SK: HEAD_SK,
+              entity_type: 'ADMIN_AUDIT_HEAD',
+              sequence: entry.sequence,
+              hash: entry.hash,
+              action_id: entry.action_id,
+              updated_at: entry.created_at,
+            },
+            ...(head
+              ? {
+                  ConditionExpression: '#sequence = :prev',
+                  ExpressionAttributeNames: { '#sequence': 'sequence' },
+                  ExpressionAttributeValues: { ':prev': head.sequence },
+                }
+              : { ConditionExpression: 'attribute_not_exists(PK)' }),
+          },
+        ]);
+
+        return entry;
+      } catch (error: any) {
+        if (error?.name !== 'TransactionCanceledException' || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+        logger.warn('Audit chain head moved, retrying append', { attempt, sequence: entry.sequence });
+      }
+    }
+  }
+
+  /**
+   * A page of entries, newest first
+   * A target reads its own index, an admin their own partition, everything else the chain and
+   * then the unchained actions from before it.
+   */
+  static async list(filter: AdminAuditFilter = {}): Promise<{ entries: AdminAuditEntry[]; nextKey?: any }> {
+    const params: any = {
+      ExpressionAttributeValues: {},
+      ScanIndexForward: false,
+      Limit: filter.limit || 50,
+      ExclusiveStartKey: filter.lastKey,
+    };
+
+    const filters: string[] = [];
+    if (filter.target_type && filter.target_id) {
+      params.IndexName = 'GSI2';
+      params.KeyConditionExpression = 'GSI2PK = :pk';
+      params.ExpressionAttributeValues[':pk'] = this.targetKey(filter.target_type, filter.target_id);
+      if (filter.admin_id) {
+        filters.push('admin_id = :admin');
+        params.ExpressionAttributeValues[':admin'] = filter.admin_id;
+      }
+    } else if (filter.admin_id) {
+      params.KeyConditionExpression = 'PK = :pk AND begins_with(SK, :sk)';
+      params.ExpressionAttributeValues[':pk'] = `ADMIN#${filter.admin_id}`;
+      params.ExpressionAttributeValues[':sk'] = 'ACTION#';
+    } else {
+      params.IndexName = 'GSI1';
+      params.KeyConditionExpression = 'GSI1PK = :pk';
+      params.ExpressionAttributeValues[':pk'] = filter.lastKey?.GSI1PK === LEGACY_PK ? LEGACY_PK : CHAIN_PK;
+    }
+
+    if (filter.action_type) {
+      filters.push('action_type = :actionType');
+      params.ExpressionAttributeValues[':actionType'] = filter.action_type;
+    }
+    if (filter.from) {
+      filters.push('created_at >= :from');
+      params.ExpressionAttributeValues[':from'] = filter.from;
+    }
+    if (filter.to) {
+      filters.push('created_at <= :to');
+      params.ExpressionAttributeValues[':to'] = filter.to;
+    }
+    if (filters.length > 0) {
+      params.FilterExpression = filters.join(' AND ');
+    }
+
+    const result = await DynamoDBHelper.query(params);
+    const items = result.Items || [];
+    let nextKey = result.LastEvaluatedKey;
+
+    // The chain ran out: fill the rest of the page from the older, unchained actions
+    if (params.ExpressionAttributeValues[':pk'] === CHAIN_PK && !nextKey && items.length < params.Limit) {
+      const legacy = await DynamoDBHelper.query({
+        ...params,
+        ExpressionAttributeValues: { ...params.ExpressionAttributeValues, ':pk': LEGACY_PK },
+        Limit: params.Limit - items.length,
+        ExclusiveStartKey: undefined,
+      });
+      items.push(...(legacy.Items || []));
+      nextKey = legacy.LastEvaluatedKey;
+    }
+
+    return {
+      entries: items.map(item => this.toEntry(item)),
+      nextKey,
+    };
+  }
+
+  /**
+   * Every entry matching the filter up to `max`, newest first
+   */
+  static async collect(
+    filter: AdminAuditFilter,
+    max: number
+  ): Promise<{ entries: AdminAuditEntry[]; truncated: boolean }> {
+    const entries: AdminAuditEntry[] = [];
+    let lastKey: any;
+    do {
+      const page = await this.list({ ...filter, limit: Math.min(100, max - entries.length), lastKey });
+      entries.push(...page.entries);
+      lastKey = page.nextKey;
+    } while (lastKey && entries.length < max);
+
+    return { entries, truncated: !!lastKey };
+  }
+
+  /**
+   * Walk the chain from the first entry and check every link up to the current head
+   */
+  static async verifyChain(now: Date = new Date()): Promise<AdminAuditVerification> {
+    const head = await DynamoDBHelper.get(CHAIN_PK, HEAD_SK);
+    const headSequence: number = head?.sequence || 0;
+    const headHash: string = head?.hash || GENESIS_HASH;
+
+    let expected = 1;
+    let prevHash = GENESIS_HASH;
+    let lastKey: any;
+
+    const result = (broken?: AdminAuditVerification['broken_at']): AdminAuditVerification => ({
+      valid: !broken,
+      checked: expected - 1,
+      head_sequence: headSequence,
+      head_hash: headHash,
+      ...(broken && { broken_at: broken }),
+      verified_at: now.toISOString(),
+    });
+
+    if (headSequence === 0) {
+      return result();
+    }
+
+    do {
+      // Entries appended while verifying sit past the head that was read and are left for next time
+      const page = await DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND GSI1SK <= :head',
+        ExpressionAttributeValues: { ':pk': CHAIN_PK, ':head': this.sequenceKey(headSequence) },
+        ScanIndexForward: true,
+        ExclusiveStartKey: lastKey,
+      });
+
+      for (const item of page.Items) {
+        const entry = this.toEntry(item);
+        if (entry.sequence! > expected) {
+          return result({ sequence: expected, reason: 'missing_entry' });
+        }
+        if (entry.sequence! < expected || entry.prev_hash !== prevHash) {
+          return result({ sequence: entry.sequence!, action_id: entry.action_id, reason: 'chain_mismatch' });
+        }
+        if (this.computeHash(entry) !== entry.hash) {
+          return result({ sequence: entry.sequence!, action_id: entry.action_id, reason: 'hash_mismatch' });
+        }
+        prevHash = entry.hash;
+        expected++;
+      }
+
+      lastKey = page.LastEvaluatedKey;
+    } while (lastKey);
+
+    if (expected <= headSequence) {
+      return result({ sequence: expected, reason: 'missing_entry' });
+    }
+    if (prevHash !== headHash) {
+      return result({ sequence: headSequence, action_id: head?.action_id, reason: 'head_mismatch' });
+    }
+
+    return result();
+  }
+
+  /**
+   * SHA-256 over the hashed fields in a fixed order; missing fields hash as null
+   */
+  static computeHash(entry: AdminAuditEntry): string {
+    const canonical = JSON.stringify(HASHED_FIELDS.map(field => entry[field] ?? null));
+    return createHash('sha256').update(canonical).digest('hex');
+  }
+
+  /**
+   * RFC 4180 CSV with a header row
+   */
+  static toCsv(entries: AdminAuditEntry[]): string {
+    const rows = [
+      AUDIT_CSV_COLUMNS.join(','),
+      ...entries.map(entry => AUDIT_CSV_COLUMNS.map(column => this.csvCell(entry[column])).join(',')),
+    ];
+    return rows.join('\r\n') + '\r\n';
+  }
+
+  private static csvCell(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    let text = String(value);
+    // Reasons and notes are admin input: keep spreadsheets from running them as formulas
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private static targetKey(targetType: string, targetId: string): string {
+    return `AUDIT_TARGET#${targetType}#${targetId}`;
+  }
+
+  private static sequenceKey(sequence: number): string {
+    return sequence.toString().padStart(SEQUENCE_WIDTH, '0');
+  }
+
+  private static toItem(entry: AdminAuditEntry): any {
+    return {
+      PK: `ADMIN#${entry.admin_id}`,
+      SK: `ACTION#${entry.action_id}`,
+      entity_type: 'ADMIN_ACTION',
+      ...entry,
+      GSI1PK: CHAIN_PK,
+      GSI1SK: this.sequenceKey(entry.sequence!),
+      GSI2PK: this.targetKey(entry.target_type, entry.target_id),
+      GSI2SK: `${entry.created_at}#${entry.action_id}`,
+    };
+  }
+
+  private static toEntry(item: any): AdminAuditEntry {
+    return {
+      action_id: item.action_id,
+      admin_id: item.admin_id,
+      ...(item.admin_username !== undefined && { admin_username: item.admin_username }),
+      action_type: item.action_type,
+      target_type: item.target_type,
+      target_id: item.target_id,
+      ...(item.reason !== undefined && { reason: item.reason }),
+      ...(item.notes !== undefined && { notes: item.notes }),
+      ...(item.sequence !== undefined && { sequence: item.sequence, prev_hash: item.prev_hash, hash: item.hash }),
+      created_at: item.created_at,
+    };
+  }
+}
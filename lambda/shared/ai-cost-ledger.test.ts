@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the AI cost ledger
+ */
+
+import { AICostLedger } from './ai-cost-ledger';
+import { DynamoDBHelper } from './dynamodb';
+import { getAICostMonitor } from './ai-cost-monitor';
+
+jest.mock('./dynamodb');
+jest.mock('./logger');
+jest.mock('./ai-cost-monitor', () => {
+  const monitor = { trackCall: jest.fn(), checkCostThreshold: jest.fn() };
+  return { getAICostMonitor: () => monitor };
+});
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+const mockMonitor = getAICostMonitor() as jest.Mocked<ReturnType<typeof getAICostMonitor>>;
+
+describe('AICostLedger', () => {
+  const now = new Date('2026-10-19T10:15:30.000Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDynamoDBHelper.put.mockResolvedValue(undefined as any);
+  });
+
+  describe('record', () => {
+    it('should price the tokens and update the daily and monthly roll-ups', async () => {
+      mockDynamoDBHelper.update.mockImplementation(async (_PK: string, SK: string) =>
+        ({ cost_usd: SK === 'TOTAL' ? 12.5 : 0.75 })
+      );
+
+      const entry = await AICostLedger.record({
+        feature: 'recipe_generation',
+        model_id: 'anthropic.claude-3-haiku-20240307-v1:0',
+        input_tokens: 2000,
+        output_tokens: 1600,
+        user_id: 'user-1',
+        suggestion_id: 'suggestion-1',
+        recipes: 1,
+      }, now);
+
+      // 2000 * $0.25/M + 1600 * $1.25/M
+      expect(entry).toMatchObject({ cost_usd: 0.0025, estimated: false, user_id: 'user-1', suggestion_id: 'suggestion-1' });
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: 'AI_COST_LEDGER#2026-10-19',
+        GSI1PK: 'AI_COST_USER#user-1',
+        cost_usd: 0.0025,
+      }));
+
+      const rollups = mockDynamoDBHelper.update.mock.calls.map(([PK, SK]) => `${PK} ${SK}`);
+      expect(rollups.sort()).toEqual([
+        'AI_COST#DAY#2026-10-19 FEATURE#recipe_generation',
+        'AI_COST#DAY#2026-10-19 TOTAL',
+        'AI_COST#DAY#2026-10-19 USER#user-1',
+        'AI_COST#MONTH#2026-10 FEATURE#recipe_generation',
+        'AI_COST#MONTH#2026-10 TOTAL',
+        'AI_COST#MONTH#2026-10 USER#user-1',
+      ]);
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+        'AI_COST#DAY#2026-10-19', 'TOTAL', expect.stringContaining('ADD calls :one'),
+        expect.objectContaining({ ':cost': 0.0025, ':input': 2000, ':output': 1600, ':recipes': 1 }),
+        { '#ttl': 'ttl' }
+      );
+
+      expect(mockMonitor.trackCall).toHaveBeenCalledWith(expect.objectContaining({ feature: 'recipe_generation', costUsd: 0.0025 }));
+      expect(mockMonitor.checkCostThreshold).toHaveBeenCalledWith(12.5, 0.0025);
+      expect(mockMonitor.checkCostThreshold).toHaveBeenCalledWith(0.75, 0.0025, 'user-1');
+    });
+
+    it('should flag unknown models and missing token counts as estimated', async () => {
+      mockDynamoDBHelper.update.mockResolvedValue({});
+
+      const unknownModel = await AICostLedger.record({
+        feature: 'ingredient_validation',
+        model_id: 'us.anthropic.claude-next-v1:0',
+        input_tokens: 1000,
+        output_tokens: 1000,
+      }, now);
+      const missingTokens = await AICostLedger.record({
+        feature: 'ingredient_validation',
+        model_id: 'us.anthropic.claude-3-haiku-20240307-v1:0',
+      }, now);
+      const missingOutput = await AICostLedger.record({
+        feature: 'ingredient_validation',
+        model_id: 'us.anthropic.claude-3-haiku-20240307-v1:0',
+        input_tokens: 1000,
+      }, now);
+
+      // Priced like the most expensive model
+      expect(unknownModel).toMatchObject({ cost_usd: 0.09, estimated: true });
+      // Missing counts are priced as a typical recipe call (1500 in, 1200 out)
+      expect(missingTokens).toMatchObject({ input_tokens: 1500, output_tokens: 1200, cost_usd: 0.001875, estimated: true });
+      expect(missingOutput).toMatchObject({ input_tokens: 1000, output_tokens: 1200, cost_usd: 0.00175, estimated: true });
+      // No user: only the total and feature roll-ups
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledTimes(12);
+    });
+
+    it('should not throw when the ledger cannot be written', async () => {
+      mockDynamoDBHelper.put.mockRejectedValue(new Error('DynamoDB unavailable'));
+      mockDynamoDBHelper.update.mockResolvedValue({});
+
+      await expect(AICostLedger.record({
+        feature: 'recipe_generation',
+        model_id: 'anthropic.claude-3-haiku-20240307-v1:0',
+        input_tokens: 10,
+        output_tokens: 10,
+      }, now)).resolves.toBeUndefined();
+      expect(mockMonitor.trackCall).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReport', () => {
+    it('should split a period into the total, features and most expensive users', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [
+          { SK: 'TOTAL', calls: 3, input_tokens: 5000, output_tokens: 3000, cost_usd: 0.00501, recipes: 2 },
+          { SK: 'FEATURE#recipe_generation', calls: 2, input_tokens: 4000, output_tokens: 2800, cost_usd: 0.0045, recipes: 2 },
+          { SK: 'FEATURE#ingredient_validation', calls: 1, input_tokens: 1000, output_tokens: 200, cost_usd: 0.00051 },
+          { SK: 'USER#user-1', calls: 1, cost_usd: 0.001 },
+          { SK: 'USER#user-2', calls: 2, cost_usd: 0.004 },
+        ],
+        LastEvaluatedKey: undefined,
+        Count: 5,
+      });
+
+      const report = await AICostLedger.getReport('month', '2026-10');
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': 'AI_COST#MONTH#2026-10' },
+      }));
+      expect(report.total).toEqual({ calls: 3, input_tokens: 5000, output_tokens: 3000, cost_usd: 0.00501, recipes: 2 });
+      expect(report.by_feature.map(feature => feature.feature)).toEqual(['recipe_generation', 'ingredient_validation']);
+      expect(report.top_users.map(user => user.user_id)).toEqual(['user-2', 'user-1']);
+    });
+  });
+});
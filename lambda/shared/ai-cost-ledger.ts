@@ -0,0 +1,274 @@
+/**
+ * AI Cost Ledger
+ * Every Bedrock call is recorded with its model, token counts and the cost computed from the
+ * price table, together with the user and suggestion it was made for. Daily and monthly roll-ups
+ * per feature and per user are kept next to the entries so admins can read spend without scans.
+ *
+ * Storage:
+ * - Entries: PK AI_COST_LEDGER#YYYY-MM-DD, SK createdAt#entryId, GSI1PK AI_COST_USER#userId (90-day ttl)
+ * - Roll-ups: PK AI_COST#DAY#YYYY-MM-DD or AI_COST#MONTH#YYYY-MM, SK TOTAL, FEATURE#feature or
+ *   USER#userId; day roll-ups expire with the entries, month roll-ups are kept
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBHelper } from './dynamodb';
+import { logger } from './logger';
+import { calculateCost, getModelPrice, roundUsd, TYPICAL_RECIPE_TOKENS } from './ai-pricing';
+import { getAICostMonitor } from './ai-cost-monitor';
+
+export type AICostFeature = 'recipe_generation' | 'meal_plan' | 'ingredient_validation';
+
+export type AICostPeriod = 'day' | 'month';
+
+/**
+ * Who a call is made for, passed along with AI requests
+ */
+export interface AICostContext {
+  feature?: AICostFeature; // Defaults to the caller's own feature
+  user_id?: string;
+  suggestion_id?: string;
+}
+
+export interface AICostRecordInput extends AICostContext {
+  feature: AICostFeature;
+  model_id: string;
+  input_tokens?: number; // Missing when the provider did not report usage
+  output_tokens?: number;
+  recipes?: number; // Recipes produced by the call
+  duration_ms?: number;
+}
+
+export interface AICostLedgerEntry {
+  entry_id: string;
+  feature: AICostFeature;
+  model_id: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  estimated: boolean; // Unknown model price or missing token counts
+  user_id?: string;
+  suggestion_id?: string;
+  recipes: number;
+  duration_ms?: number;
+  created_at: string;
+}
+
+export interface AICostRollup {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  recipes: number;
+}
+
+export interface AICostReport {
+  period: AICostPeriod;
+  period_key: string; // YYYY-MM-DD or YYYY-MM
+  total: AICostRollup;
+  by_feature: Array<AICostRollup & { feature: AICostFeature }>;
+  top_users: Array<AICostRollup & { user_id: string }>;
+}
+
+export interface AIUserCostReport {
+  user_id: string;
+  today: AICostRollup;
+  this_month: AICostRollup;
+  entries: AICostLedgerEntry[];
+  next_key?: Record<string, any>;
+}
+
+const LEDGER_TTL_DAYS = 90;
+const TOP_USERS_LIMIT = 20;
+
+const EMPTY_ROLLUP: AICostRollup = { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, recipes: 0 };
+
+export class AICostLedger {
+  /**
+   * Record one AI call, update the roll-ups and feed the cost alerts
+   * Never throws: losing a ledger entry must not fail the user's request.
+   * A missing token count is taken from the typical recipe call and the entry is flagged as estimated.
+   */
+  static async record(input: AICostRecordInput, now: Date = new Date()): Promise<AICostLedgerEntry | undefined> {
+    try {
+      const inputTokens = input.input_tokens ?? TYPICAL_RECIPE_TOKENS.input;
+      const outputTokens = input.output_tokens ?? TYPICAL_RECIPE_TOKENS.output;
+      const entry: AICostLedgerEntry = {
+        entry_id: uuidv4(),
+        feature: input.feature,
+        model_id: input.model_id,
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        cost_usd: calculateCost(input.model_id, inputTokens, outputTokens),
+        estimated: !getModelPrice(input.model_id).known || input.input_tokens === undefined || input.output_tokens === undefined,
+        ...(input.user_id && { user_id: input.user_id }),
+        ...(input.suggestion_id && { suggestion_id: input.suggestion_id }),
+        recipes: input.recipes || 0,
+        ...(input.duration_ms !== undefined && { duration_ms: input.duration_ms }),
+        created_at: now.toISOString(),
+      };
+
+      const ttl = Math.floor(now.getTime() / 1000) + LEDGER_TTL_DAYS * 24 * 60 * 60;
+      const day = this.periodKey('day', now);
+      const month = this.periodKey('month', now);
+
+      const [, dayTotal, dayUser] = await Promise.all([
+        DynamoDBHelper.put({
+          PK: `AI_COST_LEDGER#${day}`,
+          SK: `${entry.created_at}#${entry.entry_id}`,
+          entity_type: 'AI_COST_ENTRY',
+          ...entry,
+          ...(entry.user_id && { GSI1PK: `AI_COST_USER#${entry.user_id}`, GSI1SK: entry.created_at }),
+          ttl,
+        }),
+        this.addToRollup(`AI_COST#DAY#${day}`, 'TOTAL', entry, ttl),
+        entry.user_id ? this.addToRollup(`AI_COST#DAY#${day}`, `USER#${entry.user_id}`, entry, ttl) : undefined,
+        this.addToRollup(`AI_COST#DAY#${day}`, `FEATURE#${entry.feature}`, entry, ttl),
+        this.addToRollup(`AI_COST#MONTH#${month}`, 'TOTAL', entry),
+        this.addToRollup(`AI_COST#MONTH#${month}`, `FEATURE#${entry.feature}`, entry),
+        entry.user_id ? this.addToRollup(`AI_COST#MONTH#${month}`, `USER#${entry.user_id}`, entry) : undefined,
+      ]);
+
+      const monitor = getAICostMonitor();
+      await Promise.all([
+        monitor.trackCall({
+          feature: entry.feature,
+          modelId: entry.model_id,
+          inputTokens: entry.input_tokens,
+          outputTokens: entry.output_tokens,
+          costUsd: entry.cost_usd,
+        }),
+        dayTotal && monitor.checkCostThreshold(dayTotal.cost_usd, entry.cost_usd),
+        dayUser && monitor.checkCostThreshold(dayUser.cost_usd, entry.cost_usd, entry.user_id),
+      ]);
+
+      return entry;
+    } catch (error) {
+      logger.error('Failed to record AI cost', { error, feature: input.feature, userId: input.user_id });
+      return undefined;
+    }
+  }
+
+  /**
+   * Spend for one day or month: the total, each feature and the most expensive users
+   */
+  static async getReport(period: AICostPeriod, periodKey: string): Promise<AICostReport> {
+    const items: any[] = [];
+    let lastKey: any;
+    do {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk',
+        ExpressionAttributeValues: { ':pk': `AI_COST#${period === 'day' ? 'DAY' : 'MONTH'}#${periodKey}` },
+        ExclusiveStartKey: lastKey,
+      });
+      items.push(...result.Items);
+      lastKey = result.LastEvaluatedKey;
+    } while (lastKey);
+
+    const total = items.find(item => item.SK === 'TOTAL');
+    const byFeature = items
+      .filter(item => item.SK.startsWith('FEATURE#'))
+      .map(item => ({ feature: item.SK.slice('FEATURE#'.length) as AICostFeature, ...this.toRollup(item) }));
+    const topUsers = items
+      .filter(item => item.SK.startsWith('USER#'))
+      .map(item => ({ user_id: item.SK.slice('USER#'.length), ...this.toRollup(item) }))
+      .sort((a, b) => b.cost_usd - a.cost_usd)
+      .slice(0, TOP_USERS_LIMIT);
+
+    return {
+      period,
+      period_key: periodKey,
+      total: this.toRollup(total),
+      by_feature: byFeature.sort((a, b) => b.cost_usd - a.cost_usd),
+      top_users: topUsers,
+    };
+  }
+
+  /**
+   * A user's spend today and this month with their most recent ledger entries
+   */
+  static async getUserReport(
+    userId: string,
+    limit: number = 50,
+    startKey?: any,
+    now: Date = new Date()
+  ): Promise<AIUserCostReport> {
+    const [today, thisMonth, entries] = await Promise.all([
+      DynamoDBHelper.get(`AI_COST#DAY#${this.periodKey('day', now)}`, `USER#${userId}`),
+      DynamoDBHelper.get(`AI_COST#MONTH#${this.periodKey('month', now)}`, `USER#${userId}`),
+      DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk',
+        ExpressionAttributeValues: { ':pk': `AI_COST_USER#${userId}` },
+        ScanIndexForward: false, // Newest first
+        Limit: limit,
+        ExclusiveStartKey: startKey,
+      }),
+    ]);
+
+    return {
+      user_id: userId,
+      today: this.toRollup(today),
+      this_month: this.toRollup(thisMonth),
+      entries: entries.Items.map(item => this.toEntry(item)),
+      ...(entries.LastEvaluatedKey && { next_key: entries.LastEvaluatedKey }),
+    };
+  }
+
+  /**
+   * Day (YYYY-MM-DD) or month (YYYY-MM) key in UTC
+   */
+  static periodKey(period: AICostPeriod, now: Date = new Date()): string {
+    return now.toISOString().slice(0, period === 'day' ? 10 : 7);
+  }
+
+  private static async addToRollup(PK: string, SK: string, entry: AICostLedgerEntry, ttl?: number): Promise<AICostRollup> {
+    const updated = await DynamoDBHelper.update(
+      PK,
+      SK,
+      `SET entity_type = :type${ttl ? ', #ttl = :ttl' : ''} ADD calls :one, input_tokens :input, output_tokens :output, cost_usd :cost, recipes :recipes`,
+      {
+        ':type': 'AI_COST_ROLLUP',
+        ':one': 1,
+        ':input': entry.input_tokens,
+        ':output': entry.output_tokens,
+        ':cost': entry.cost_usd,
+        ':recipes': entry.recipes,
+        ...(ttl && { ':ttl': ttl }),
+      },
+      ttl ? { '#ttl': 'ttl' } : undefined
+    );
+
+    return this.toRollup(updated);
+  }
+
+  private static toRollup(item: any): AICostRollup {
+    if (!item) {
+      return { ...EMPTY_ROLLUP };
+    }
+
+    return {
+      calls: item.calls || 0,
+      input_tokens: item.input_tokens || 0,
+      output_tokens: item.output_tokens || 0,
+      cost_usd: roundUsd(item.cost_usd || 0),
+      recipes: item.recipes || 0,
+    };
+  }
+
+  private static toEntry(item: any): AICostLedgerEntry {
+    return {
+      entry_id: item.entry_id,
+      feature: item.feature,
+      model_id: item.model_id,
+      input_tokens: item.input_tokens,
+      output_tokens: item.output_tokens,
+      cost_usd: item.cost_usd,
+      estimated: !!item.estimated,
+      ...(item.user_id && { user_id: item.user_id }),
+      ...(item.suggestion_id && { suggestion_id: item.suggestion_id }),
+      recipes: item.recipes || 0,
+      ...(item.duration_ms !== undefined && { duration_ms: item.duration_ms }),
+      created_at: item.created_at,
+    };
+  }
+}
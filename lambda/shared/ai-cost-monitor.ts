@@ -0,0 +1,111 @@
+/**
+ * AI Cost Monitoring
+ * Publishes the cost of every Bedrock call to CloudWatch and warns when the daily spend,
+ * overall or for a single user, crosses its threshold.
+ *
+ * Thresholds (USD per day, UTC):
+ * - AI_COST_DAILY_ALERT_USD: all AI features together
+ * - AI_COST_USER_DAILY_ALERT_USD: one user
+ */
+
+import { CloudWatchClient, PutMetricDataCommand, StandardUnit } from '@aws-sdk/client-cloudwatch';
+import { logger } from './logger';
+
+const cloudwatch = new CloudWatchClient({ region: process.env.AWS_REGION || 'us-east-1' });
+const NAMESPACE = 'SmartCooking/AI';
+
+const DEFAULT_DAILY_THRESHOLD_USD = 25;
+const DEFAULT_USER_DAILY_THRESHOLD_USD = 0.5;
+
+interface AICallMetrics {
+  feature: string;
+  modelId: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export class AICostMonitor {
+  /**
+   * Track the tokens and cost of one AI call
+   */
+  async trackCall(metrics: AICallMetrics): Promise<void> {
+    const { feature, modelId, inputTokens, outputTokens, costUsd } = metrics;
+    const dimensions = [
+      { Name: 'Feature', Value: feature },
+      { Name: 'Model', Value: modelId }
+    ];
+
+    try {
+      await cloudwatch.send(new PutMetricDataCommand({
+        Namespace: NAMESPACE,
+        MetricData: [
+          { MetricName: 'Cost', Value: costUsd, Unit: StandardUnit.None, Dimensions: dimensions, Timestamp: new Date() },
+          { MetricName: 'InputTokens', Value: inputTokens, Unit: StandardUnit.Count, Dimensions: dimensions, Timestamp: new Date() },
+          { MetricName: 'OutputTokens', Value: outputTokens, Unit: StandardUnit.Count, Dimensions: dimensions, Timestamp: new Date() },
+          { MetricName: 'Calls', Value: 1, Unit: StandardUnit.Count, Dimensions: dimensions, Timestamp: new Date() }
+        ]
+      }));
+    } catch (error) {
+      logger.error('Failed to track AI cost metrics', { error, metrics });
+    }
+  }
+
+  /**
+   * Check a daily total after a call added `callCostUsd` to it and alert once it crosses the threshold
+   * Without `userId` the total is the spend of all users.
+   */
+  async checkCostThreshold(dailyCostUsd: number, callCostUsd: number, userId?: string): Promise<boolean> {
+    const threshold = userId
+      ? this.getThreshold('AI_COST_USER_DAILY_ALERT_USD', DEFAULT_USER_DAILY_THRESHOLD_USD)
+      : this.getThreshold('AI_COST_DAILY_ALERT_USD', DEFAULT_DAILY_THRESHOLD_USD);
+
+    // Only the call that crosses the threshold alerts, later calls on the same day stay quiet
+    const crossed = dailyCostUsd >= threshold && dailyCostUsd - callCostUsd < threshold;
+    if (!crossed) {
+      return false;
+    }
+
+    logger.warn('AI cost threshold exceeded', {
+      scope: userId ? 'user' : 'total',
+      userId,
+      dailyCostUsd,
+      thresholdUsd: threshold
+    });
+
+    // CloudWatch alarms on this metric deliver the alert (SNS)
+    try {
+      await cloudwatch.send(new PutMetricDataCommand({
+        Namespace: NAMESPACE,
+        MetricData: [{
+          MetricName: 'CostThresholdExceeded',
+          Value: 1,
+          Unit: StandardUnit.Count,
+          Dimensions: [{ Name: 'Scope', Value: userId ? 'user' : 'total' }],
+          Timestamp: new Date()
+        }]
+      }));
+    } catch (error) {
+      logger.error('Failed to publish AI cost alert', { error, userId });
+    }
+
+    return true;
+  }
+
+  private getThreshold(envName: string, fallback: number): number {
+    const value = parseFloat(process.env[envName] || '');
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+let monitorInstance: AICostMonitor | null = null;
+
+export function getAICostMonitor(): AICostMonitor {
+  if (!monitorInstance) {
+    monitorInstance = new AICostMonitor();
+  }
+  return monitorInstance;
+}
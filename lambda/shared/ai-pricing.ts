@@ -0,0 +1,64 @@
+/**
+ * AI Pricing
+ * Per-model Bedrock on-demand prices used to turn token counts into USD. Kept free of AWS clients
+ * so the monitoring Lambda and the recipe mix can price calls without touching DynamoDB.
+ */
+
+export interface ModelPrice {
+  input_per_million: number; // USD per 1M input tokens
+  output_per_million: number; // USD per 1M output tokens
+}
+
+// Bedrock on-demand pricing (USD per 1M tokens)
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'anthropic.claude-3-haiku-20240307-v1:0': { input_per_million: 0.25, output_per_million: 1.25 },
+  'anthropic.claude-3-5-haiku-20241022-v1:0': { input_per_million: 0.8, output_per_million: 4 },
+  'anthropic.claude-3-sonnet-20240229-v1:0': { input_per_million: 3, output_per_million: 15 },
+  'anthropic.claude-3-5-sonnet-20240620-v1:0': { input_per_million: 3, output_per_million: 15 },
+  'anthropic.claude-3-5-sonnet-20241022-v2:0': { input_per_million: 3, output_per_million: 15 },
+  'anthropic.claude-3-7-sonnet-20250219-v1:0': { input_per_million: 3, output_per_million: 15 },
+  'anthropic.claude-3-opus-20240229-v1:0': { input_per_million: 15, output_per_million: 75 },
+};
+
+// Unknown models are priced like the most expensive one so costs are never under-reported
+const FALLBACK_PRICE: ModelPrice = Object.values(MODEL_PRICES).reduce((highest, price) =>
+  price.output_per_million > highest.output_per_million ? price : highest
+);
+
+// Typical size of a one-recipe generation call, used before any real calls have been priced
+export const TYPICAL_RECIPE_TOKENS = { input: 1500, output: 1200 };
+
+/**
+ * Strip ARN and cross-region inference profile prefixes (us., eu., apac.) from a model id
+ */
+export function normalizeModelId(modelId: string): string {
+  return modelId
+    .replace(/^arn:aws:bedrock:[^:]*:[^:]*:(foundation-model|inference-profile)\//, '')
+    .replace(/^(us|eu|apac)\./, '');
+}
+
+export function getModelPrice(modelId: string): { price: ModelPrice; known: boolean } {
+  const price = MODEL_PRICES[normalizeModelId(modelId)];
+  return price ? { price, known: true } : { price: FALLBACK_PRICE, known: false };
+}
+
+/**
+ * Cost of one call in USD, rounded to a millionth of a dollar
+ */
+export function calculateCost(modelId: string, inputTokens: number, outputTokens: number): number {
+  const { price } = getModelPrice(modelId);
+  return roundUsd(
+    (inputTokens / 1_000_000) * price.input_per_million + (outputTokens / 1_000_000) * price.output_per_million
+  );
+}
+
+/**
+ * Expected cost of generating one recipe with the given model
+ */
+export function estimateRecipeCost(modelId: string): number {
+  return calculateCost(modelId, TYPICAL_RECIPE_TOKENS.input, TYPICAL_RECIPE_TOKENS.output);
+}
+
+export function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
@@ -0,0 +1,245 @@
+/**
+ * Unit tests for AI quotas
+ */
+
+import { AIQuotaService } from './ai-quota';
+import { DynamoDBHelper } from './dynamodb';
+import { RateLimitError } from './errors';
+
+jest.mock('./dynamodb');
+jest.mock('./logger');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+describe('AIQuotaService', () => {
+  const now = new Date('2026-10-19T10:15:30.000Z');
+
+  // Stored items by sort key under USER#user-1
+  const mockItems = (items: { [sk: string]: any }) => {
+    mockDynamoDBHelper.get.mockImplementation(async (_PK: string, SK: string) => items[SK]);
+  };
+
+  const conditionFailed = () =>
+    Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.AI_QUOTA_RECIPES_DAILY;
+  });
+
+  describe('getStatus', () => {
+    it('should combine default limits with usage in the current windows', async () => {
+      mockItems({
+        'AI_QUOTA#recipe_generation#DAY#2026-10-19': { used: 5 },
+        'AI_QUOTA#recipe_generation#MONTH#2026-10': { used: 40 },
+        'AI_QUOTA#recipe_generation#MINUTE#2026-10-19T10:15': { used: 1 },
+      });
+
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+
+      expect(status).toMatchObject({
+        limits: { daily: 20, monthly: 300, burst: 3 },
+        used: { daily: 5, monthly: 40, burst: 1 },
+        remaining: { daily: 15, monthly: 260, burst: 2 },
+        exhausted: false,
+        overridden: false,
+        daily_reset_at: '2026-10-20T00:00:00.000Z',
+        monthly_reset_at: '2026-11-01T00:00:00.000Z',
+      });
+    });
+
+    it('should apply an admin override and the environment defaults', async () => {
+      process.env.AI_QUOTA_RECIPES_DAILY = '10';
+      mockItems({
+        AI_QUOTA_OVERRIDE: { user_id: 'user-1', limits: { recipe_generation: { monthly: 0 } } },
+      });
+
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+
+      expect(status.limits).toEqual({ daily: 10, monthly: 0, burst: 3 });
+      expect(status.overridden).toBe(true);
+      expect(status.exhausted).toBe(true);
+      expect(AIQuotaService.getBudget(status)).toBe(0);
+    });
+
+    it('should ignore an expired override', async () => {
+      mockItems({
+        AI_QUOTA_OVERRIDE: {
+          user_id: 'user-1',
+          limits: { recipe_generation: { daily: 100 } },
+          expires_at: '2026-10-19T00:00:00.000Z',
+        },
+      });
+
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+
+      expect(status.limits.daily).toBe(20);
+      expect(status.overridden).toBe(false);
+    });
+  });
+
+  describe('acquire', () => {
+    it('should count the request in the minute window', async () => {
+      mockItems({});
+      mockDynamoDBHelper.conditionalUpdate.mockResolvedValue({ used: 1 });
+
+      const status = await AIQuotaService.acquire('user-1', 'ingredient_validation', now);
+
+      expect(status.remaining.burst).toBe(9);
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        'USER#user-1',
+        'AI_QUOTA#ingredient_validation#MINUTE#2026-10-19T10:15',
+        'SET entity_type = :type, #ttl = :ttl ADD used :amount',
+        'attribute_not_exists(used) OR used <= :max',
+        expect.objectContaining({ ':amount': 1, ':max': 9, ':ttl': Date.UTC(2026, 9, 19, 10, 16) / 1000 }),
+        { '#ttl': 'ttl' }
+      );
+    });
+
+    it('should reject requests over the burst limit until the next minute', async () => {
+      // Another request took the last slot after the counter was read
+      mockItems({ 'AI_QUOTA#recipe_generation#MINUTE#2026-10-19T10:15': { used: 2 } });
+      mockDynamoDBHelper.conditionalUpdate.mockRejectedValueOnce(conditionFailed());
+
+      const error = await AIQuotaService.acquire('user-1', 'recipe_generation', now).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.details.retryAfter).toBe(30);
+      expect(mockDynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consume', () => {
+    it('should charge the daily and monthly budgets', async () => {
+      mockItems({});
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+      mockDynamoDBHelper.conditionalUpdate
+        .mockResolvedValueOnce({ used: 3 })
+        .mockResolvedValueOnce({ used: 3 });
+
+      const charged = await AIQuotaService.consume('user-1', 'recipe_generation', 3, status, now);
+
+      expect(charged.remaining).toMatchObject({ daily: 17, monthly: 297 });
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        'USER#user-1', 'AI_QUOTA#recipe_generation#DAY#2026-10-19', expect.any(String),
+        'attribute_not_exists(used) OR used <= :max',
+        expect.objectContaining({ ':amount': 3, ':max': 17 }), expect.anything()
+      );
+      expect(AIQuotaService.toHeaders(charged)).toMatchObject({
+        'X-AI-Quota-Daily-Remaining': '17',
+        'X-AI-Quota-Monthly-Remaining': '297',
+        'X-AI-Quota-Reset': '2026-10-20T00:00:00.000Z',
+      });
+    });
+
+    it('should charge neither budget when one was used up by another request', async () => {
+      mockItems({});
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+      mockDynamoDBHelper.conditionalUpdate
+        .mockResolvedValueOnce({ used: 4 })
+        .mockRejectedValueOnce(conditionFailed());
+
+      const error = await AIQuotaService.consume('user-1', 'recipe_generation', 1, status, now).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.details.retryAfter).toBe(Math.ceil((Date.UTC(2026, 10, 1) - now.getTime()) / 1000));
+      // The daily charge is taken back
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+        'USER#user-1', 'AI_QUOTA#recipe_generation#DAY#2026-10-19', expect.any(String),
+        expect.objectContaining({ ':amount': -1 }), { '#ttl': 'ttl' }
+      );
+    });
+
+    it('should not charge an amount that does not fit in the budget', async () => {
+      mockItems({ 'AI_QUOTA#recipe_generation#DAY#2026-10-19': { used: 19 } });
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+
+      const error = await AIQuotaService.consume('user-1', 'recipe_generation', 25, status, now).catch(e => e);
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      // 25 can never fit in a daily limit of 20, so only the monthly counter is tried
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledTimes(1);
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        'USER#user-1', 'AI_QUOTA#recipe_generation#MONTH#2026-10', expect.any(String),
+        'attribute_not_exists(used) OR used <= :max',
+        expect.objectContaining({ ':amount': 25, ':max': 275 }), expect.anything()
+      );
+    });
+
+    it('should not write when nothing was generated', async () => {
+      mockItems({});
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+
+      expect(await AIQuotaService.consume('user-1', 'recipe_generation', 0, status, now)).toBe(status);
+      expect(mockDynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reserve', () => {
+    it('should reserve what is left of the budget', async () => {
+      mockItems({ 'AI_QUOTA#recipe_generation#DAY#2026-10-19': { used: 19 } });
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+      mockDynamoDBHelper.conditionalUpdate
+        .mockResolvedValueOnce({ used: 20 })
+        .mockResolvedValueOnce({ used: 20 });
+
+      const reservation = await AIQuotaService.reserve('user-1', 'recipe_generation', 5, status, now);
+
+      expect(reservation.reserved).toBe(1);
+      expect(reservation.status.remaining.daily).toBe(0);
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        'USER#user-1', 'AI_QUOTA#recipe_generation#DAY#2026-10-19', expect.any(String),
+        'attribute_not_exists(used) OR used <= :max',
+        expect.objectContaining({ ':amount': 1, ':max': 19 }), expect.anything()
+      );
+    });
+
+    it('should reserve less when another request took part of the budget', async () => {
+      const items: { [sk: string]: any } = { 'AI_QUOTA#recipe_generation#DAY#2026-10-19': { used: 16 } };
+      mockItems(items);
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+      items['AI_QUOTA#recipe_generation#DAY#2026-10-19'] = { used: 18 };
+      mockDynamoDBHelper.conditionalUpdate
+        .mockRejectedValueOnce(conditionFailed())
+        .mockResolvedValueOnce({ used: 22 })
+        .mockResolvedValueOnce({ used: 20 })
+        .mockResolvedValueOnce({ used: 20 });
+
+      const reservation = await AIQuotaService.reserve('user-1', 'recipe_generation', 3, status, now);
+
+      expect(reservation.reserved).toBe(2);
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenLastCalledWith(
+        'USER#user-1', expect.any(String), expect.any(String), expect.any(String),
+        expect.objectContaining({ ':amount': 2 }), expect.anything()
+      );
+    });
+
+    it('should reserve nothing once the budget is used up', async () => {
+      mockItems({ 'AI_QUOTA#recipe_generation#DAY#2026-10-19': { used: 20 } });
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+
+      const reservation = await AIQuotaService.reserve('user-1', 'recipe_generation', 3, status, now);
+
+      expect(reservation.reserved).toBe(0);
+      expect(mockDynamoDBHelper.conditionalUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should hand unused budget back to both windows', async () => {
+      mockItems({});
+      const status = await AIQuotaService.getStatus('user-1', 'recipe_generation', now);
+      mockDynamoDBHelper.update
+        .mockResolvedValueOnce({ used: 1 })
+        .mockResolvedValueOnce({ used: 1 });
+
+      const released = await AIQuotaService.release('user-1', 'recipe_generation', 2, status, now);
+
+      expect(released.remaining).toMatchObject({ daily: 19, monthly: 299 });
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+        'USER#user-1', 'AI_QUOTA#recipe_generation#MONTH#2026-10', expect.any(String),
+        expect.objectContaining({ ':amount': -2 }), { '#ttl': 'ttl' }
+      );
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * AI Quotas
+ * Per-user budgets for the Bedrock-backed features. Recipe generation is budgeted in AI recipes
+ * per day and per month, the conversational ingredient validator in calls; both also have a
+ * burst limit on requests per minute. Admins can override any limit per user.
+ *
+ * Storage: usage counters live under the user (PK: USER#userId, SK: AI_QUOTA#scope#window, with
+ * window DAY#YYYY-MM-DD, MONTH#YYYY-MM or MINUTE#YYYY-MM-DDTHH:mm, all UTC) and expire through
+ * ttl once their window has passed. Overrides are one AI_QUOTA_OVERRIDE item per user.
+ */
+
+import { DynamoDBHelper } from './dynamodb';
+import { logger } from './logger';
+import { RateLimitError } from './errors';
+
+export type AIQuotaScope = 'recipe_generation' | 'ingredient_validation';
+
+export const AI_QUOTA_SCOPES: AIQuotaScope[] = ['recipe_generation', 'ingredient_validation'];
+
+export interface AIQuotaLimits {
+  daily: number;
+  monthly: number;
+  burst: number; // Requests per minute
+}
+
+export interface AIQuotaOverride {
+  user_id: string;
+  limits: Partial<Record<AIQuotaScope, Partial<AIQuotaLimits>>>;
+  reason: string;
+  set_by: string;
+  expires_at?: string; // Defaults apply again afterwards
+  created_at: string;
+}
+
+export interface AIQuotaStatus {
+  scope: AIQuotaScope;
+  limits: AIQuotaLimits;
+  used: AIQuotaLimits;
+  remaining: AIQuotaLimits;
+  exhausted: boolean; // Daily or monthly budget used up
+  overridden: boolean;
+  daily_reset_at: string;
+  monthly_reset_at: string;
+}
+
+export interface AIQuotaReservation {
+  reserved: number;
+  status: AIQuotaStatus; // Usage with the reservation charged
+}
+
+// Defaults, each configurable through the environment variable next to it
+const DEFAULT_LIMITS: Record<AIQuotaScope, { [K in keyof AIQuotaLimits]: [string, number] }> = {
+  recipe_generation: {
+    daily: ['AI_QUOTA_RECIPES_DAILY', 20],
+    monthly: ['AI_QUOTA_RECIPES_MONTHLY', 300],
+    burst: ['AI_QUOTA_RECIPES_BURST', 3],
+  },
+  ingredient_validation: {
+    daily: ['AI_QUOTA_VALIDATIONS_DAILY', 50],
+    monthly: ['AI_QUOTA_VALIDATIONS_MONTHLY', 1000],
+    burst: ['AI_QUOTA_VALIDATIONS_BURST', 10],
+  },
+};
+
+const QUOTA_WINDOWS: (keyof AIQuotaLimits)[] = ['daily', 'monthly', 'burst'];
+const MAX_RESERVE_ATTEMPTS = 3;
+
+export class AIQuotaService {
+  /**
+   * Current limits and usage of a user for one scope
+   */
+  static async getStatus(userId: string, scope: AIQuotaScope, now: Date = new Date()): Promise<AIQuotaStatus> {
+    const [override, ...counters] = await Promise.all([
+      this.getOverride(userId, now),
+      ...QUOTA_WINDOWS.map(window => DynamoDBHelper.get(`USER#${userId}`, this.counterKey(scope, window, now))),
+    ]);
+
+    const overrideLimits = override?.limits[scope] || {};
+    const limits = {} as AIQuotaLimits;
+    const used = {} as AIQuotaLimits;
+    QUOTA_WINDOWS.forEach((window, index) => {
+      limits[window] = overrideLimits[window] ?? this.getDefaultLimits(scope)[window];
+      used[window] = counters[index]?.used || 0;
+    });
+
+    return this.buildStatus(scope, limits, used, Object.keys(overrideLimits).length > 0, now);
+  }
+
+  /**
+   * Count a request against the burst limit
+   * Throws RateLimitError when the user is over it; the daily and monthly budgets are left to the
+   * caller, which decides how to degrade
+   */
+  static async acquire(userId: string, scope: AIQuotaScope, now: Date = new Date()): Promise<AIQuotaStatus> {
+    const status = await this.getStatus(userId, scope, now);
+
+    const used = await this.increment(userId, scope, 'burst', 1, status.limits.burst, now);
+    if (used === undefined) {
+      logger.warn('AI burst limit reached', { userId, scope, limit: status.limits.burst });
+      throw new RateLimitError(60 - now.getUTCSeconds());
+    }
+
+    return this.buildStatus(scope, status.limits, { ...status.used, burst: used }, status.overridden, now);
+  }
+
+  /**
+   * Charge usage against the daily and monthly budgets
+   * Throws RateLimitError when either budget was already used up, charging neither
+   */
+  static async consume(
+    userId: string,
+    scope: AIQuotaScope,
+    amount: number,
+    status: AIQuotaStatus,
+    now: Date = new Date()
+  ): Promise<AIQuotaStatus> {
+    if (amount <= 0) {
+      return status;
+    }
+
+    const [daily, monthly] = await Promise.all([
+      this.increment(userId, scope, 'daily', amount, status.limits.daily, now),
+      this.increment(userId, scope, 'monthly', amount, status.limits.monthly, now),
+    ]);
+
+    if (daily === undefined || monthly === undefined) {
+      if (daily !== undefined) {
+        await this.increment(userId, scope, 'daily', -amount, undefined, now);
+      }
+      if (monthly !== undefined) {
+        await this.increment(userId, scope, 'monthly', -amount, undefined, now);
+      }
+
+      const resetAt = daily === undefined ? this.windowEnd('daily', now) : this.windowEnd('monthly', now);
+      logger.warn('AI quota used up', { userId, scope, window: daily === undefined ? 'daily' : 'monthly' });
+      throw new RateLimitError(Math.ceil((resetAt.getTime() - now.getTime()) / 1000));
+    }
+
+    return this.buildStatus(scope, status.limits, { ...status.used, daily, monthly }, status.overridden, now);
+  }
+
+  /**
+   * Charge up to amount against the daily and monthly budgets before generating, so concurrent
+   * requests cannot spend the same budget; what goes unused is handed back through release
+   * Returns how much was reserved, 0 once the budget is used up
+   */
+  static async reserve(
+    userId: string,
+    scope: AIQuotaScope,
+    amount: number,
+    status: AIQuotaStatus,
+    now: Date = new Date()
+  ): Promise<AIQuotaReservation> {
+    let current = status;
+
+    for (let attempt = 1; attempt <= MAX_RESERVE_ATTEMPTS; attempt++) {
+      const reserved = Math.min(amount, this.getBudget(current));
+      if (reserved <= 0) {
+        break;
+      }
+
+      try {
+        return { reserved, status: await this.consume(userId, scope, reserved, current, now) };
+      } catch (error) {
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        // Another request took part of the budget since it was read
+        current = await this.getStatus(userId, scope, now);
+      }
+    }
+
+    return { reserved: 0, status: current };
+  }
+
+  /**
+   * Hand back reserved budget that was not used
+   */
+  static async release(
+    userId: string,
+    scope: AIQuotaScope,
+    amount: number,
+    status: AIQuotaStatus,
+    now: Date = new Date()
+  ): Promise<AIQuotaStatus> {
+    if (amount <= 0) {
+      return status;
+    }
+
+    const [daily, monthly] = await Promise.all([
+      this.increment(userId, scope, 'daily', -amount, undefined, now),
+      this.increment(userId, scope, 'monthly', -amount, undefined, now),
+    ]);
+
+    return this.buildStatus(
+      scope,
+      status.limits,
+      { ...status.used, daily: Math.max(0, daily!), monthly: Math.max(0, monthly!) },
+      status.overridden,
+      now
+    );
+  }
+
+  /**
+   * How much of the daily and monthly budget is left
+   */
+  static getBudget(status: AIQuotaStatus): number {
+    return Math.min(status.remaining.daily, status.remaining.monthly);
+  }
+
+  /**
+   * Response headers describing the remaining allowance
+   */
+  static toHeaders(status: AIQuotaStatus): { [key: string]: string } {
+    const headers: { [key: string]: string } = {
+      'X-AI-Quota-Daily-Limit': status.limits.daily.toString(),
+      'X-AI-Quota-Daily-Remaining': status.remaining.daily.toString(),
+      'X-AI-Quota-Monthly-Limit': status.limits.monthly.toString(),
+      'X-AI-Quota-Monthly-Remaining': status.remaining.monthly.toString(),
+      'X-AI-Quota-Burst-Remaining': status.remaining.burst.toString(),
+      'X-AI-Quota-Reset': status.daily_reset_at,
+    };
+
+    return {
+      ...headers,
+      'Access-Control-Expose-Headers': Object.keys(headers).join(','),
+    };
+  }
+
+  /**
+   * The user's override, if one is set and has not expired
+   */
+  static async getOverride(userId: string, now: Date = new Date()): Promise<AIQuotaOverride | undefined> {
+    const item = await DynamoDBHelper.get(`USER#${userId}`, 'AI_QUOTA_OVERRIDE');
+    if (!item || (item.expires_at && item.expires_at <= now.toISOString())) {
+      return undefined;
+    }
+
+    return {
+      user_id: item.user_id,
+      limits: item.limits || {},
+      reason: item.reason,
+      set_by: item.set_by,
+      ...(item.expires_at && { expires_at: item.expires_at }),
+      created_at: item.created_at,
+    };
+  }
+
+  /**
+   * Replace the user's override; limits left out keep their defaults
+   */
+  static async setOverride(override: AIQuotaOverride): Promise<AIQuotaOverride> {
+    await DynamoDBHelper.put({
+      PK: `USER#${override.user_id}`,
+      SK: 'AI_QUOTA_OVERRIDE',
+      entity_type: 'AI_QUOTA_OVERRIDE',
+      ...override,
+      ...(override.expires_at && { ttl: Math.floor(new Date(override.expires_at).getTime() / 1000) }),
+    });
+
+    logger.info('AI quota override set', { userId: override.user_id, setBy: override.set_by });
+    return override;
+  }
+
+  static async clearOverride(userId: string): Promise<void> {
+    await DynamoDBHelper.delete(`USER#${userId}`, 'AI_QUOTA_OVERRIDE');
+    logger.info('AI quota override cleared', { userId });
+  }
+
+  static getDefaultLimits(scope: AIQuotaScope): AIQuotaLimits {
+    const limits = {} as AIQuotaLimits;
+    QUOTA_WINDOWS.forEach(window => {
+      const [envName, fallback] = DEFAULT_LIMITS[scope][window];
+      const value = parseInt(process.env[envName] || '', 10);
+      limits[window] = Number.isInteger(value) && value >= 0 ? value : fallback;
+    });
+    return limits;
+  }
+
+  /**
+   * Add to a usage counter, as long as the result stays within the limit when one is given
+   * Returns the new count, or undefined when the amount did not fit
+   */
+  private static async increment(
+    userId: string,
+    scope: AIQuotaScope,
+    window: keyof AIQuotaLimits,
+    amount: number,
+    limit: number | undefined,
+    now: Date
+  ): Promise<number | undefined> {
+    const key = this.counterKey(scope, window, now);
+    const updateExpression = 'SET entity_type = :type, #ttl = :ttl ADD used :amount';
+    const values = {
+      ':type': 'AI_QUOTA_USAGE',
+      ':ttl': Math.floor(this.windowEnd(window, now).getTime() / 1000),
+      ':amount': amount,
+    };
+
+    if (limit === undefined) {
+      const updated = await DynamoDBHelper.update(`USER#${userId}`, key, updateExpression, values, { '#ttl': 'ttl' });
+      return updated?.used ?? amount;
+    }
+
+    // The whole amount has to fit, so the counter may be at most limit - amount beforehand
+    const max = limit - amount;
+    if (max < 0) {
+      return undefined;
+    }
+
+    try {
+      const updated = await DynamoDBHelper.conditionalUpdate(
+        `USER#${userId}`,
+        key,
+        updateExpression,
+        'attribute_not_exists(used) OR used <= :max',
+        { ...values, ':max': max },
+        { '#ttl': 'ttl' }
+      );
+      return updated?.used ?? amount;
+    } catch (error: any) {
+      if (error?.name === 'ConditionalCheckFailedException') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private static buildStatus(
+    scope: AIQuotaScope,
+    limits: AIQuotaLimits,
+    used: AIQuotaLimits,
+    overridden: boolean,
+    now: Date
+  ): AIQuotaStatus {
+    const remaining = {} as AIQuotaLimits;
+    QUOTA_WINDOWS.forEach(window => {
+      remaining[window] = Math.max(0, limits[window] - used[window]);
+    });
+
+    return {
+      scope,
+      limits,
+      used,
+      remaining,
+      exhausted: remaining.daily === 0 || remaining.monthly === 0,
+      overridden,
+      daily_reset_at: this.windowEnd('daily', now).toISOString(),
+      monthly_reset_at: this.windowEnd('monthly', now).toISOString(),
+    };
+  }
+
+  private static counterKey(scope: AIQuotaScope, window: keyof AIQuotaLimits, now: Date): string {
+    const iso = now.toISOString();
+    switch (window) {
+      case 'daily':
+        return `AI_QUOTA#${scope}#DAY#${iso.slice(0, 10)}`;
+      case 'monthly':
+        return `AI_QUOTA#${scope}#MONTH#${iso.slice(0, 7)}`;
+      case 'burst':
+        return `AI_QUOTA#${scope}#MINUTE#${iso.slice(0, 16)}`;
+    }
+  }
+
+  private static windowEnd(window: keyof AIQuotaLimits, now: Date): Date {
+    switch (window) {
+      case 'daily':
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+      case 'monthly':
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+      case 'burst':
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), now.getUTCHours(), now.getUTCMinutes() + 1));
+    }
+  }
+}
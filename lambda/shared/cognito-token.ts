@@ -0,0 +1,107 @@
+import { createPublicKey, verify, KeyObject, JsonWebKey } from 'crypto';
+import { UnauthorizedError } from './errors';
+
+/**
+ * Cognito ID token verification
+ * For endpoints that are not behind the API Gateway Cognito authorizer (e.g. Lambda
+ * Function URLs used for response streaming). Verifies the RS256 signature against the
+ * user pool's JWKS and checks issuer, audience, token use and expiry.
+ */
+
+export interface CognitoTokenClaims {
+  sub: string;
+  email: string;
+  username: string;
+}
+
+const USER_POOL_ID = process.env.USER_POOL_ID || '';
+const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID || '';
+
+// Signing keys by key id, cached for the lifetime of the container
+let signingKeys: Map<string, KeyObject> | null = null;
+let signingKeysLoadedAt = 0;
+
+// Unknown key ids refetch the JWKS at most this often, so tokens with made-up key ids cannot
+// make every request call Cognito
+const JWKS_REFETCH_INTERVAL_MS = 5 * 60 * 1000;
+
+function getIssuer(): string {
+  const region = USER_POOL_ID.split('_')[0];
+  return `https://cognito-idp.${region}.amazonaws.com/${USER_POOL_ID}`;
+}
+
+async function loadSigningKeys(): Promise<Map<string, KeyObject>> {
+  const response = await fetch(`${getIssuer()}/.well-known/jwks.json`);
+  if (!response.ok) {
+    throw new Error(`Failed to load JWKS: ${response.status}`);
+  }
+
+  const { keys } = await response.json() as { keys: Array<JsonWebKey & { kid: string }> };
+  return new Map(keys.map(key => [key.kid, createPublicKey({ key, format: 'jwk' })]));
+}
+
+async function getSigningKey(keyId: string): Promise<KeyObject | undefined> {
+  // Unknown key id: the pool may have rotated its keys
+  const canRefetch = Date.now() - signingKeysLoadedAt >= JWKS_REFETCH_INTERVAL_MS;
+  if (!signingKeys || (!signingKeys.has(keyId) && canRefetch)) {
+    signingKeys = await loadSigningKeys();
+    signingKeysLoadedAt = Date.now();
+  }
+
+  return signingKeys.get(keyId);
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+/**
+ * Verify a Cognito ID token and return its identity claims
+ */
+export async function verifyIdToken(token: string | undefined): Promise<CognitoTokenClaims> {
+  const segments = (token || '').replace(/^Bearer\s+/i, '').split('.');
+  if (segments.length !== 3) {
+    throw new UnauthorizedError();
+  }
+
+  let header: any;
+  let payload: any;
+  try {
+    header = decodeSegment(segments[0]);
+    payload = decodeSegment(segments[1]);
+  } catch (error) {
+    throw new UnauthorizedError('Invalid token');
+  }
+
+  if (header.alg !== 'RS256' || typeof header.kid !== 'string') {
+    throw new UnauthorizedError('Invalid token');
+  }
+
+  const key = await getSigningKey(header.kid);
+  const signatureValid = key !== undefined && verify(
+    'RSA-SHA256',
+    Buffer.from(`${segments[0]}.${segments[1]}`),
+    key,
+    Buffer.from(segments[2], 'base64url')
+  );
+
+  if (!signatureValid) {
+    throw new UnauthorizedError('Invalid token');
+  }
+
+  if (
+    payload.iss !== getIssuer() ||
+    payload.aud !== USER_POOL_CLIENT_ID ||
+    payload.token_use !== 'id' ||
+    typeof payload.exp !== 'number' ||
+    payload.exp * 1000 <= Date.now()
+  ) {
+    throw new UnauthorizedError('Token expired or not issued for this application');
+  }
+
+  return {
+    sub: payload.sub,
+    email: payload.email,
+    username: payload['cognito:username'] || payload.sub,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Content Visibility
+ * Looks up reportable content (posts, comments, recipes, user profiles) and hides or restores
+ * it when it is reported or moderated.
+ *
+ * Hidden content keeps its item with is_hidden = true; reads show it to its owner only, so an
+ * author can still see what was hidden while it waits for an admin. Profiles are never hidden:
+ * reported users are handled through the admin ban endpoints instead.
+ */
+
+import { DynamoDBHelper } from './dynamodb';
+import { logger } from './logger';
+
+export type ReportableTargetType = 'post' | 'comment' | 'recipe' | 'user';
+
+export const REPORTABLE_TARGET_TYPES: ReportableTargetType[] = ['post', 'comment', 'recipe', 'user'];
+
+export class ContentVisibilityService {
+  /**
+   * Load the item behind a report target; comments are looked up within their post
+   */
+  static async findTarget(
+    targetType: ReportableTargetType,
+    targetId: string,
+    postId?: string
+  ): Promise<any | null> {
+    switch (targetType) {
+      case 'post':
+        return (await DynamoDBHelper.get(`POST#${targetId}`, 'METADATA')) || null;
+      case 'recipe':
+        return (await DynamoDBHelper.getRecipe(targetId)) || null;
+      case 'user':
+        return (await DynamoDBHelper.get(`USER#${targetId}`, 'PROFILE')) || null;
+      case 'comment': {
+        if (!postId) {
+          return null;
+        }
+        return this.findComment(postId, targetId);
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Find a comment by ID, paging through the post's comments since the filter applies after each read
+   */
+  private static async findComment(postId: string, commentId: string): Promise<any | null> {
+    let exclusiveStartKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        FilterExpression: 'comment_id = :commentId',
+        ExpressionAttributeValues: {
+          ':pk': `POST#${postId}`,
+          ':sk': 'COMMENT#',
+          ':commentId': commentId,
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      });
+
+      if (result.Items && result.Items.length > 0) {
+        return result.Items[0];
+      }
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return null;
+  }
+
+  /**
+   * User who owns a target item (the profile itself for users)
+   */
+  static getOwnerId(targetType: ReportableTargetType, item: any): string | undefined {
+    if (targetType === 'user') {
+      return item.user_id || item.PK?.replace('USER#', '');
+    }
+    return item.user_id || item.created_by;
+  }
+
+  static canHide(targetType: ReportableTargetType): boolean {
+    return targetType !== 'user';
+  }
+
+  /**
+   * Hide or restore a target
+   * Returns false when the target is gone or cannot be hidden
+   */
+  static async setHidden(
+    targetType: ReportableTargetType,
+    targetId: string,
+    hidden: boolean,
+    postId?: string
+  ): Promise<boolean> {
+    if (!this.canHide(targetType)) {
+      return false;
+    }
+
+    const item = await this.findTarget(targetType, targetId, postId);
+    if (!item) {
+      return false;
+    }
+
+    if (hidden) {
+      await DynamoDBHelper.update(
+        item.PK,
+        item.SK,
+        'SET is_hidden = :true, hidden_at = :now',
+        {
+          ':true': true,
+          ':now': new Date().toISOString(),
+        }
+      );
+    } else {
+      await DynamoDBHelper.update(item.PK, item.SK, 'REMOVE is_hidden, hidden_at', undefined);
+    }
+
+    logger.info(hidden ? 'Content hidden' : 'Content restored', { targetType, targetId });
+
+    return true;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Unit Tests for DynamoDBHelper batch writes
+ */
+
+import { BatchWriteCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBHelper } from './dynamodb';
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+const TABLE_NAME = process.env.DYNAMODB_TABLE || 'smart-cooking-data';
+
+const put = (id: string) => ({ PutRequest: { Item: { PK: `TIMELINE#${id}`, SK: 'POST#1' } } });
+
+describe('DynamoDBHelper.batchWrite', () => {
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  it('should resend unprocessed items until all are written', async () => {
+    ddbMock.on(BatchWriteCommand)
+      .resolvesOnce({ UnprocessedItems: { [TABLE_NAME]: [put('b'), put('c')] } })
+      .resolvesOnce({ UnprocessedItems: { [TABLE_NAME]: [put('c')] } })
+      .resolves({ UnprocessedItems: {} });
+
+    await DynamoDBHelper.batchWrite([put('a'), put('b'), put('c')]);
+
+    const calls = ddbMock.commandCalls(BatchWriteCommand);
+    expect(calls.map(call => call.args[0].input.RequestItems![TABLE_NAME].length)).toEqual([3, 2, 1]);
+  });
+
+  it('should fail when items are still unprocessed after the last attempt', async () => {
+    ddbMock.on(BatchWriteCommand).resolves({ UnprocessedItems: { [TABLE_NAME]: [put('a')] } });
+
+    await expect(DynamoDBHelper.batchWrite([put('a')])).rejects.toMatchObject({
+      details: { operation: 'batchWrite', unprocessedCount: 1 }
+    });
+    expect(ddbMock.commandCalls(BatchWriteCommand)).toHaveLength(5);
+  }, 10000);
+});
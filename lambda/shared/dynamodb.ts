@@ -9,10 +9,11 @@ import {
   ScanCommand,
   BatchGetCommand,
   BatchWriteCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { logger } from './logger';
 import { metrics } from './metrics';
-import { retryWithExponentialBackoff } from './utils';
+import { delay, retryWithExponentialBackoff } from './utils';
 import { DatabaseError, isTransientError } from './errors';
 
 // Initialize DynamoDB client
@@ -33,6 +34,10 @@ const ddb = DynamoDBDocumentClient.from(client, {
 
 const TABLE_NAME = process.env.DYNAMODB_TABLE || 'smart-cooking-data';
 
+const MAX_BATCH_WRITE_ATTEMPTS = 5;
+const BATCH_WRITE_BASE_DELAY_MS = 100;
+const BATCH_WRITE_MAX_DELAY_MS = 2000;
+
 export class DynamoDBHelper {
   static async get(PK: string, SK: string) {
     return await this.executeWithRetry(
@@ -157,13 +162,98 @@ export class DynamoDBHelper {
     return result.Responses?.[TABLE_NAME] || [];
   }
 
+  /**
+   * Write up to 25 items; items DynamoDB leaves unprocessed (throttling) are resent with
+   * exponential backoff, and a DatabaseError is thrown if some are still left after the last attempt
+   */
   static async batchWrite(items: Array<{ PutRequest?: { Item: any }; DeleteRequest?: { Key: any } }>) {
-    const command = new BatchWriteCommand({
-      RequestItems: {
-        [TABLE_NAME]: items,
-      },
+    let pending: any[] = items;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.executeWithRetry(
+        async () => {
+          const command = new BatchWriteCommand({
+            RequestItems: {
+              [TABLE_NAME]: pending,
+            },
+          });
+
+          return await ddb.send(command);
+        },
+        'batchWrite',
+        { itemCount: pending.length }
+      );
+
+      pending = result.UnprocessedItems?.[TABLE_NAME] || [];
+      if (pending.length === 0) {
+        return result;
+      }
+
+      if (attempt === MAX_BATCH_WRITE_ATTEMPTS) {
+        throw new DatabaseError('Some items could not be written', {
+          operation: 'batchWrite',
+          unprocessedCount: pending.length
+        });
+      }
+
+      logger.warn('DynamoDB batchWrite retrying unprocessed items', { unprocessedCount: pending.length, attempt });
+      await delay(Math.min(BATCH_WRITE_BASE_DELAY_MS * 2 ** (attempt - 1), BATCH_WRITE_MAX_DELAY_MS));
+    }
+  }
+
+  // Put only when the condition holds; a failed condition surfaces as ConditionalCheckFailedException
+  static async conditionalPut(item: any, conditionExpression: string, expressionAttributeValues?: any, expressionAttributeNames?: any) {
+    const command = new PutCommand({
+      TableName: TABLE_NAME,
+      Item: item,
+      ConditionExpression: conditionExpression,
+      ExpressionAttributeValues: expressionAttributeValues,
+      ExpressionAttributeNames: expressionAttributeNames,
     });
-    
+
+    return await ddb.send(command);
+  }
+
+  // Update only when the condition holds, returning the new item; a failed condition surfaces as
+  // ConditionalCheckFailedException
+  static async conditionalUpdate(
+    PK: string,
+    SK: string,
+    updateExpression: string,
+    conditionExpression: string,
+    expressionAttributeValues: any,
+    expressionAttributeNames?: any
+  ) {
+    const command = new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { PK, SK },
+      UpdateExpression: updateExpression,
+      ConditionExpression: conditionExpression,
+      ExpressionAttributeValues: expressionAttributeValues,
+      ExpressionAttributeNames: expressionAttributeNames,
+      ReturnValues: 'ALL_NEW',
+    });
+
+    const result = await ddb.send(command);
+    return result.Attributes;
+  }
+
+  // All-or-nothing conditional puts; a failed condition surfaces as TransactionCanceledException
+  static async transactPut(items: Array<{
+    Item: any;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: any;
+    ExpressionAttributeValues?: any;
+  }>) {
+    const command = new TransactWriteCommand({
+      TransactItems: items.map(item => ({
+        Put: {
+          TableName: TABLE_NAME,
+          ...item,
+        },
+      })),
+    });
+
     return await ddb.send(command);
   }
 
@@ -103,13 +103,20 @@ export class IngredientExtractor {
         fuzzyThreshold: 0.9 // High threshold for exact matches
       });
 
-      // If exact match exists, don't save
+      // If exact match exists, don't save - count the use instead (autocomplete popularity)
       if (searchResults.length > 0 && searchResults[0].match_score >= 0.95) {
         logger.info('Ingredient already exists in master DB', {
           name: ingredientName,
           existingId: searchResults[0].ingredient_id,
           matchScore: searchResults[0].match_score
         });
+
+        await DynamoDBHelper.update(
+          `INGREDIENT#${searchResults[0].ingredient_id}`,
+          'METADATA',
+          'ADD usage_count :one',
+          { ':one': 1 }
+        );
         return false;
       }
 
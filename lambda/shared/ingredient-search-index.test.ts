@@ -0,0 +1,90 @@
+/**
+ * Unit tests for the ingredient autocomplete index
+ */
+
+import { IngredientSearchIndex, autocompleteIngredients } from './ingredient-search-index';
+import { DynamoDBHelper } from './dynamodb';
+
+jest.mock('./dynamodb');
+
+const master = (id: string, name: string, category: string, usageCount: number, aliases: string[] = []) => ({
+  entity_type: 'MASTER_INGREDIENT',
+  ingredient_id: id,
+  name,
+  normalized_name: name.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/g, 'd'),
+  category,
+  aliases,
+  usage_count: usageCount,
+  is_active: true,
+});
+
+const items = [
+  master('thit-ga', 'Thịt gà', 'meat', 40, ['chicken']),
+  master('gao', 'Gạo', 'grain', 90),
+  master('ga-ta', 'Gà ta', 'meat', 5),
+  master('gung', 'Gừng', 'spice', 20),
+  master('hanh-tay', 'Hành tây', 'vegetable', 30),
+  { ...master('old', 'Gà tây', 'meat', 100), is_active: false },
+  { entity_type: 'INGREDIENT_ALIAS', ingredient_id: 'gung', alias: 'ginger' },
+];
+
+describe('IngredientSearchIndex', () => {
+  const index = IngredientSearchIndex.build(items);
+
+  it('should skip inactive ingredients', () => {
+    expect(index.size).toBe(5);
+    expect(index.search('ga tay').map(r => r.ingredient_id)).not.toContain('old');
+  });
+
+  it('should rank exact matches first, then prefixes by popularity', () => {
+    const results = index.search('gà');
+
+    expect(results.map(r => [r.ingredient_id, r.match_type])).toEqual([
+      ['gao', 'prefix'],
+      ['thit-ga', 'prefix'],
+      ['ga-ta', 'prefix'],
+    ]);
+    expect(index.search('Gà ta')[0]).toEqual(expect.objectContaining({
+      ingredient_id: 'ga-ta',
+      match_type: 'exact',
+      match_score: 1.0,
+      popularity: 5,
+    }));
+  });
+
+  it('should match aliases from both the master item and alias items', () => {
+    expect(index.search('chicken')[0]).toEqual(expect.objectContaining({ ingredient_id: 'thit-ga', match_type: 'alias' }));
+    expect(index.search('ging')[0]).toEqual(expect.objectContaining({ ingredient_id: 'gung', match_type: 'prefix' }));
+  });
+
+  it('should fall back to trigram matches for typos', () => {
+    const results = index.search('hanh tai');
+
+    expect(results[0]).toEqual(expect.objectContaining({ ingredient_id: 'hanh-tay', match_type: 'fuzzy' }));
+  });
+
+  it('should filter by category and respect the limit', () => {
+    expect(index.search('ga', { category: 'meat' }).map(r => r.ingredient_id)).toEqual(['thit-ga', 'ga-ta']);
+    expect(index.search('ga', { limit: 1 })).toHaveLength(1);
+  });
+});
+
+describe('autocompleteIngredients', () => {
+  it('should load the index from the INGREDIENT#SEARCH partition once per container', async () => {
+    (DynamoDBHelper.query as jest.Mock)
+      .mockResolvedValueOnce({ Items: items.slice(0, 3), Count: 3, LastEvaluatedKey: { PK: 'page' } })
+      .mockResolvedValueOnce({ Items: items.slice(3), Count: items.length - 3 });
+
+    const first = await autocompleteIngredients('gung');
+    const second = await autocompleteIngredients('gao');
+
+    expect(first[0].ingredient_id).toBe('gung');
+    expect(second[0].ingredient_id).toBe('gao');
+    expect(DynamoDBHelper.query).toHaveBeenCalledTimes(2);
+    expect(DynamoDBHelper.query).toHaveBeenLastCalledWith(expect.objectContaining({
+      IndexName: 'GSI2',
+      ExpressionAttributeValues: { ':pk': 'INGREDIENT#SEARCH' },
+      ExclusiveStartKey: { PK: 'page' },
+    }));
+  });
+});
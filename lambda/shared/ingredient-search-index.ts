@@ -0,0 +1,285 @@
+/**
+ * Ingredient Autocomplete Index
+ * In-memory prefix and trigram index over master ingredient names and aliases.
+ *
+ * Built from the INGREDIENT#SEARCH partition (master and alias items) and reused for the
+ * lifetime of the Lambda container, refreshed after INDEX_TTL_MS. Lookups are a binary
+ * search for prefixes plus trigram postings for typos, so no request scans DynamoDB.
+ */
+
+import { DynamoDBHelper } from './dynamodb';
+import { IngredientService, IngredientSearchResult, IngredientSearchOptions } from './ingredient-service';
+
+const INDEX_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_FUZZY_THRESHOLD = 0.5; // Dice coefficient over trigrams
+
+// Ranking order: exact name, exact alias, prefix, fuzzy
+const MATCH_TYPE_RANK: { [matchType in IngredientSearchResult['match_type']]: number } = {
+  exact: 3,
+  alias: 2,
+  prefix: 1,
+  fuzzy: 0,
+};
+
+interface IndexedIngredient {
+  ingredient_id: string;
+  name: string;
+  normalized_name: string;
+  category: string;
+  aliases: string[];
+  popularity: number;
+}
+
+interface IndexedTerm {
+  term: string;
+  ingredient_id: string;
+  is_alias: boolean;
+  is_word_suffix: boolean; // "ga" indexed from "thit ga"
+}
+
+export class IngredientSearchIndex {
+  private ingredients = new Map<string, IndexedIngredient>();
+  private terms: IndexedTerm[] = []; // Sorted by term for prefix lookups
+  private trigrams = new Map<string, number[]>(); // Trigram -> indexes into terms (full terms only)
+
+  /**
+   * Build the index from INGREDIENT#SEARCH items
+   */
+  static build(items: any[]): IngredientSearchIndex {
+    const index = new IngredientSearchIndex();
+    const seen = new Set<string>();
+    const terms: IndexedTerm[] = [];
+
+    const addTerm = (text: string, ingredientId: string, isAlias: boolean) => {
+      const term = IngredientService.normalizeVietnamese(text || '').replace(/\s+/g, ' ');
+      const key = `${ingredientId}|${term}`;
+      if (!term || seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+
+      const words = term.split(' ');
+      words.forEach((_, position) => terms.push({
+        term: words.slice(position).join(' '),
+        ingredient_id: ingredientId,
+        is_alias: isAlias,
+        is_word_suffix: position > 0,
+      }));
+    };
+
+    for (const item of items) {
+      if (item.entity_type !== 'MASTER_INGREDIENT' || item.is_active === false) {
+        continue;
+      }
+
+      index.ingredients.set(item.ingredient_id, {
+        ingredient_id: item.ingredient_id,
+        name: item.name,
+        normalized_name: item.normalized_name,
+        category: item.category,
+        aliases: item.aliases || [],
+        popularity: item.usage_count || 0,
+      });
+
+      addTerm(item.name, item.ingredient_id, false);
+      (item.aliases || []).forEach((alias: string) => addTerm(alias, item.ingredient_id, true));
+    }
+
+    for (const item of items) {
+      if (item.entity_type === 'INGREDIENT_ALIAS' && index.ingredients.has(item.ingredient_id)) {
+        addTerm(item.alias, item.ingredient_id, true);
+      }
+    }
+
+    index.terms = terms.sort((a, b) => (a.term < b.term ? -1 : a.term > b.term ? 1 : 0));
+    index.terms.forEach((entry, position) => {
+      if (entry.is_word_suffix) {
+        return;
+      }
+      for (const trigram of toTrigrams(entry.term)) {
+        const postings = index.trigrams.get(trigram) || [];
+        postings.push(position);
+        index.trigrams.set(trigram, postings);
+      }
+    });
+
+    return index;
+  }
+
+  get size(): number {
+    return this.ingredients.size;
+  }
+
+  /**
+   * Autocomplete: exact and prefix matches on names, aliases and later words of either,
+   * then trigram matches for typos. Ranked by match type, then popularity.
+   */
+  search(query: string, options: IngredientSearchOptions = {}): IngredientSearchResult[] {
+    const { limit = 10, category, fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD } = options;
+    const normalizedQuery = IngredientService.normalizeVietnamese(query).replace(/\s+/g, ' ');
+    const matches = new Map<string, { match_type: IngredientSearchResult['match_type']; match_score: number }>();
+
+    if (!normalizedQuery) {
+      return [];
+    }
+
+    const addMatch = (ingredientId: string, matchType: IngredientSearchResult['match_type'], score: number) => {
+      const ingredient = this.ingredients.get(ingredientId);
+      if (!ingredient || (category && ingredient.category !== category)) {
+        return;
+      }
+
+      const current = matches.get(ingredientId);
+      if (
+        !current ||
+        MATCH_TYPE_RANK[matchType] > MATCH_TYPE_RANK[current.match_type] ||
+        (matchType === current.match_type && score > current.match_score)
+      ) {
+        matches.set(ingredientId, { match_type: matchType, match_score: score });
+      }
+    };
+
+    // 1. Prefix matches (binary search to the first term >= query)
+    for (let position = this.lowerBound(normalizedQuery); position < this.terms.length; position++) {
+      const entry = this.terms[position];
+      if (!entry.term.startsWith(normalizedQuery)) {
+        break;
+      }
+
+      if (entry.term === normalizedQuery && !entry.is_word_suffix) {
+        addMatch(entry.ingredient_id, entry.is_alias ? 'alias' : 'exact', entry.is_alias ? 0.9 : 1.0);
+      } else {
+        const coverage = normalizedQuery.length / entry.term.length;
+        addMatch(entry.ingredient_id, 'prefix', (entry.is_word_suffix ? 0.7 : 0.8) + 0.1 * coverage);
+      }
+    }
+
+    // 2. Trigram matches for typos, only when prefixes did not fill the list
+    if (matches.size < limit) {
+      const queryTrigrams = toTrigrams(normalizedQuery);
+      const sharedCounts = new Map<number, number>();
+
+      for (const trigram of new Set(queryTrigrams)) {
+        for (const position of this.trigrams.get(trigram) || []) {
+          sharedCounts.set(position, (sharedCounts.get(position) || 0) + 1);
+        }
+      }
+
+      sharedCounts.forEach((shared, position) => {
+        const entry = this.terms[position];
+        const dice = (2 * shared) / (queryTrigrams.length + toTrigrams(entry.term).length);
+        if (dice >= fuzzyThreshold) {
+          addMatch(entry.ingredient_id, 'fuzzy', Math.round(dice * 100) / 100);
+        }
+      });
+    }
+
+    return Array.from(matches.entries())
+      .map(([ingredientId, match]) => ({ ingredient: this.ingredients.get(ingredientId)!, ...match }))
+      .sort((a, b) =>
+        MATCH_TYPE_RANK[b.match_type] - MATCH_TYPE_RANK[a.match_type] ||
+        b.ingredient.popularity - a.ingredient.popularity ||
+        b.match_score - a.match_score ||
+        a.ingredient.normalized_name.localeCompare(b.ingredient.normalized_name)
+      )
+      .slice(0, limit)
+      .map(({ ingredient, match_type, match_score }) => ({
+        ingredient_id: ingredient.ingredient_id,
+        name: ingredient.name,
+        normalized_name: ingredient.normalized_name,
+        category: ingredient.category,
+        aliases: ingredient.aliases,
+        match_type,
+        match_score,
+        popularity: ingredient.popularity,
+      }));
+  }
+
+  private lowerBound(term: string): number {
+    let low = 0;
+    let high = this.terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.terms[middle].term < term) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
+
+/**
+ * Padded character trigrams: "ga" -> ["  g", " ga", "ga "]
+ */
+function toTrigrams(term: string): string[] {
+  const padded = `  ${term} `;
+  const trigrams: string[] = [];
+  for (let i = 0; i < padded.length - 2; i++) {
+    trigrams.push(padded.slice(i, i + 3));
+  }
+  return trigrams;
+}
+
+let cachedIndex: { index: IngredientSearchIndex; builtAt: number } | null = null;
+let pendingBuild: Promise<IngredientSearchIndex> | null = null;
+
+async function loadIndex(): Promise<IngredientSearchIndex> {
+  const items: any[] = [];
+  let exclusiveStartKey: any;
+
+  do {
+    const page = await DynamoDBHelper.query({
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk',
+      ExpressionAttributeValues: { ':pk': 'INGREDIENT#SEARCH' },
+      ExclusiveStartKey: exclusiveStartKey,
+    });
+    items.push(...page.Items);
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  const index = IngredientSearchIndex.build(items);
+  cachedIndex = { index, builtAt: Date.now() };
+  console.log(`Ingredient search index built: ${index.size} ingredients`);
+  return index;
+}
+
+/**
+ * Get the container's index, building it on first use and after it expires
+ */
+export async function getIngredientSearchIndex(): Promise<IngredientSearchIndex> {
+  if (cachedIndex && Date.now() - cachedIndex.builtAt < INDEX_TTL_MS) {
+    return cachedIndex.index;
+  }
+
+  // Concurrent callers share a single rebuild
+  if (!pendingBuild) {
+    pendingBuild = loadIndex()
+      .catch((error) => {
+        // Serve the stale index rather than failing autocomplete
+        if (cachedIndex) {
+          console.error('Ingredient search index refresh failed, using stale index:', error);
+          return cachedIndex.index;
+        }
+        throw error;
+      })
+      .finally(() => {
+        pendingBuild = null;
+      });
+  }
+
+  return pendingBuild;
+}
+
+/**
+ * Autocomplete ingredient names for the search box
+ */
+export async function autocompleteIngredients(
+  query: string,
+  options: IngredientSearchOptions = {}
+): Promise<IngredientSearchResult[]> {
+  const index = await getIngredientSearchIndex();
+  return index.search(query, options);
+}
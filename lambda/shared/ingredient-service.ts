@@ -7,8 +7,9 @@ export interface IngredientSearchResult {
   normalized_name: string;
   category: string;
   aliases: string[];
-  match_type: 'exact' | 'alias' | 'fuzzy';
+  match_type: 'exact' | 'alias' | 'prefix' | 'fuzzy';
   match_score: number;
+  popularity?: number; // usage_count, set by autocomplete
 }
 
 export interface IngredientSearchOptions {
@@ -227,6 +228,37 @@ export class IngredientService {
     }
   }
 
+  /**
+   * Find the master ingredient for an exact name or alias (no fuzzy matching)
+   */
+  static async findByName(name: string): Promise<MasterIngredient | null> {
+    try {
+      const result = await DynamoDBHelper.query({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK = :sk',
+        ExpressionAttributeValues: {
+          ':pk': 'INGREDIENT#SEARCH',
+          ':sk': `NAME#${this.normalizeVietnamese(name)}`,
+        },
+        Limit: 1,
+      });
+
+      const match = result.Items[0];
+      if (!match) {
+        return null;
+      }
+
+      if (match.entity_type === 'INGREDIENT_ALIAS') {
+        return await this.getIngredientById(match.ingredient_id);
+      }
+
+      return match as MasterIngredient;
+    } catch (error) {
+      console.error('Error finding ingredient by name:', error);
+      return null;
+    }
+  }
+
   /**
    * Get ingredients by category
    */
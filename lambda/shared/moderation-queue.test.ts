@@ -0,0 +1,235 @@
+/**
+ * Unit tests for the moderation queue
+ */
+
+import { ModerationQueueService } from './moderation-queue';
+import { DynamoDBHelper } from './dynamodb';
+
+jest.mock('./dynamodb');
+jest.mock('./logger');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+const abuseItem = {
+  item_type: 'user_abuse' as const,
+  severity: 'high' as const,
+  target_type: 'user' as const,
+  target_id: 'user-1',
+  reason: '5 violations in week 2026-42',
+  source: 'abuse-tracking',
+  dedupe_key: 'user_abuse:user-1:2026-42',
+};
+
+describe('ModerationQueueService', () => {
+  const itemId = ModerationQueueService.itemIdFor(abuseItem.dedupe_key);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('should queue a new open item sorted by severity', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(undefined);
+
+      const item = await ModerationQueueService.enqueue(abuseItem);
+
+      expect(item).toMatchObject({ item_id: itemId, status: 'open', occurrence_count: 1 });
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `MODERATION#${itemId}`,
+        SK: 'METADATA',
+        entity_type: 'MODERATION_ITEM',
+        GSI1PK: 'MODERATION#OPEN',
+        GSI1SK: expect.stringMatching(new RegExp(`^1#.+#${itemId}$`)),
+      }));
+    });
+
+    it('should bump the open item with the same dedupe key, escalating its severity', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue({
+        item_id: itemId,
+        status: 'open',
+        severity: 'high',
+        occurrence_count: 1,
+        created_at: '2026-10-19T00:00:00.000Z',
+      });
+      mockDynamoDBHelper.update.mockResolvedValue({ item_id: itemId, severity: 'critical', occurrence_count: 2 });
+
+      await ModerationQueueService.enqueue({ ...abuseItem, severity: 'critical' });
+
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+      expect(mockDynamoDBHelper.update).toHaveBeenCalledWith(
+        `MODERATION#${itemId}`,
+        'METADATA',
+        expect.stringContaining('ADD occurrence_count :one'),
+        expect.objectContaining({
+          ':severity': 'critical',
+          ':sk': `0#2026-10-19T00:00:00.000Z#${itemId}`,
+        })
+      );
+    });
+
+    it('should reopen a resolved item', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue({ item_id: itemId, status: 'resolved', severity: 'high', occurrence_count: 3 });
+
+      const item = await ModerationQueueService.enqueue(abuseItem);
+
+      expect(item).toMatchObject({ status: 'open', occurrence_count: 4 });
+      expect(item?.outcome).toBeUndefined();
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({ GSI1PK: 'MODERATION#OPEN' }));
+    });
+
+    it('should not throw when the write fails', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(undefined);
+      mockDynamoDBHelper.put.mockRejectedValueOnce(new Error('DynamoDB unavailable'));
+
+      await expect(ModerationQueueService.enqueue(abuseItem)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('listItems', () => {
+    it('should read open items of one severity in queue order, filtering by type', async () => {
+      mockDynamoDBHelper.query.mockResolvedValue({
+        Items: [{ PK: `MODERATION#${itemId}`, SK: 'METADATA', GSI1PK: 'MODERATION#OPEN', item_id: itemId }],
+        Count: 1,
+        LastEvaluatedKey: undefined,
+      });
+
+      const result = await ModerationQueueService.listItems({ severity: 'high', item_type: 'user_abuse', limit: 10 });
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :rank)',
+        FilterExpression: 'item_type = :type',
+        ExpressionAttributeValues: { ':pk': 'MODERATION#OPEN', ':rank': '1#', ':type': 'user_abuse' },
+        ScanIndexForward: true,
+        Limit: 10,
+      }));
+      expect(result.items).toEqual([{ item_id: itemId }]);
+    });
+    it('should keep reading until a filtered page is full', async () => {
+      const queueItem = (id: string, rank: string) => ({
+        PK: `MODERATION#${id}`,
+        SK: 'METADATA',
+        GSI1PK: 'MODERATION#OPEN',
+        GSI1SK: `${rank}#2026-10-01T00:00:00.000Z#${id}`,
+        item_id: id,
+      });
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({
+          Items: [queueItem('item-1', '0')],
+          Count: 1,
+          LastEvaluatedKey: { PK: 'MODERATION#other', SK: 'METADATA' },
+        })
+        .mockResolvedValueOnce({
+          Items: [queueItem('item-2', '1'), queueItem('item-3', '2')],
+          Count: 2,
+          LastEvaluatedKey: { PK: 'MODERATION#more', SK: 'METADATA' },
+        });
+
+      const result = await ModerationQueueService.listItems({ item_type: 'recipe_review', limit: 2 });
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledTimes(2);
+      expect(mockDynamoDBHelper.query).toHaveBeenLastCalledWith(expect.objectContaining({
+        ExclusiveStartKey: { PK: 'MODERATION#other', SK: 'METADATA' },
+      }));
+      expect(result.items).toEqual([{ item_id: 'item-1' }, { item_id: 'item-2' }]);
+      expect(result.nextKey).toEqual({
+        PK: 'MODERATION#item-2',
+        SK: 'METADATA',
+        GSI1PK: 'MODERATION#OPEN',
+        GSI1SK: '1#2026-10-01T00:00:00.000Z#item-2',
+      });
+    });
+  });
+
+  describe('claim', () => {
+    it('should only claim an open item that is unclaimed or already the admin\'s', async () => {
+      mockDynamoDBHelper.conditionalUpdate.mockResolvedValue({ item_id: itemId, status: 'open', assignee_id: 'admin-1' });
+
+      const item = await ModerationQueueService.claim(itemId, 'admin-1');
+
+      expect(item).toEqual({ item_id: itemId, status: 'open', assignee_id: 'admin-1' });
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        `MODERATION#${itemId}`,
+        'METADATA',
+        expect.stringContaining('assignee_id = :assignee'),
+        '#status = :open AND (attribute_not_exists(assignee_id) OR assignee_id = :assignee)',
+        expect.objectContaining({ ':assignee': 'admin-1', ':open': 'open' }),
+        { '#status': 'status' }
+      );
+    });
+
+    it('should surface a lost race as ConditionalCheckFailedException', async () => {
+      const conflict = Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+      mockDynamoDBHelper.conditionalUpdate.mockRejectedValue(conflict);
+
+      await expect(ModerationQueueService.claim(itemId, 'admin-2')).rejects.toBe(conflict);
+      expect(mockDynamoDBHelper.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assign', () => {
+    it('should reassign or unassign only an existing open item', async () => {
+      mockDynamoDBHelper.conditionalUpdate.mockResolvedValue({ item_id: itemId, status: 'open' });
+
+      await ModerationQueueService.assign(itemId, 'admin-2');
+      await ModerationQueueService.assign(itemId, null);
+
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenNthCalledWith(
+        1,
+        `MODERATION#${itemId}`,
+        'METADATA',
+        expect.stringContaining('SET assignee_id = :assignee'),
+        '#status = :open',
+        expect.objectContaining({ ':assignee': 'admin-2' }),
+        { '#status': 'status' }
+      );
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenNthCalledWith(
+        2,
+        `MODERATION#${itemId}`,
+        'METADATA',
+        expect.stringContaining('REMOVE assignee_id'),
+        '#status = :open',
+        expect.any(Object),
+        { '#status': 'status' }
+      );
+    });
+  });
+
+  describe('resolve', () => {
+    it('should record the outcome and move the item to the resolved list', async () => {
+      mockDynamoDBHelper.conditionalUpdate.mockResolvedValue({ item_id: itemId, status: 'resolved', outcome: 'dismissed' });
+
+      const item = await ModerationQueueService.resolve(itemId, 'admin-1', 'dismissed', 'False positive');
+
+      expect(item).toEqual({ item_id: itemId, status: 'resolved', outcome: 'dismissed' });
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        `MODERATION#${itemId}`,
+        'METADATA',
+        expect.stringContaining('#status = :resolved'),
+        '#status = :open AND (attribute_not_exists(assignee_id) OR assignee_id = :adminId)',
+        expect.objectContaining({
+          ':outcome': 'dismissed',
+          ':notes': 'False positive',
+          ':adminId': 'admin-1',
+          ':pk': 'MODERATION#RESOLVED',
+        }),
+        { '#status': 'status' }
+      );
+    });
+
+    it('should skip the claim check when closing a review decided outside the queue', async () => {
+      mockDynamoDBHelper.conditionalUpdate.mockResolvedValue({ item_id: itemId, status: 'resolved', outcome: 'approved' });
+
+      await ModerationQueueService.resolve(itemId, 'admin-1', 'approved', undefined, true);
+
+      expect(mockDynamoDBHelper.conditionalUpdate).toHaveBeenCalledWith(
+        `MODERATION#${itemId}`,
+        'METADATA',
+        expect.any(String),
+        '#status = :open',
+        expect.any(Object),
+        { '#status': 'status' }
+      );
+    });
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Moderation Queue
+ * One queue for everything that needs an admin decision: suspicious ingredients from ratings,
+ * frequently reported invalid ingredients, abusive users, auto-suspension escalations, public
+ * user recipes awaiting approval and content reported by users.
+ *
+ * Storage: one MODERATION_ITEM per item (PK: MODERATION#itemId, SK: METADATA).
+ * Open items sit on GSI1 under MODERATION#OPEN with GSI1SK = severityRank#created_at#itemId, so
+ * the queue reads most severe first, oldest first within a severity. Resolved items move to
+ * MODERATION#RESOLVED with GSI1SK = resolved_at#itemId.
+ *
+ * Producers pass a dedupe_key when the same thing can be flagged repeatedly (the same user in
+ * the same week, the same recipe); the item id is derived from it, so flagging again bumps
+ * occurrence_count on the open item instead of queueing a duplicate, and reopens a resolved one.
+ */
+
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBHelper } from './dynamodb';
+import { logger } from './logger';
+
+export type ModerationItemType =
+  | 'ingredient_review'
+  | 'invalid_ingredient'
+  | 'user_abuse'
+  | 'abuse_escalation'
+  | 'recipe_review'
+  | 'content_report';
+
+export type ModerationSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type ModerationStatus = 'open' | 'resolved';
+export type ModerationOutcome = 'approved' | 'rejected' | 'actioned' | 'dismissed';
+export type ModerationTargetType = 'recipe' | 'ingredient' | 'user' | 'post' | 'comment';
+
+export const MODERATION_ITEM_TYPES: ModerationItemType[] = [
+  'ingredient_review',
+  'invalid_ingredient',
+  'user_abuse',
+  'abuse_escalation',
+  'recipe_review',
+  'content_report',
+];
+
+export const MODERATION_SEVERITIES: ModerationSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// Recipes are approved or rejected; everything else is either acted on or dismissed
+export const MODERATION_OUTCOMES: Record<ModerationItemType, ModerationOutcome[]> = {
+  ingredient_review: ['actioned', 'dismissed'],
+  invalid_ingredient: ['actioned', 'dismissed'],
+  user_abuse: ['actioned', 'dismissed'],
+  abuse_escalation: ['actioned', 'dismissed'],
+  recipe_review: ['approved', 'rejected'],
+  content_report: ['actioned', 'dismissed'],
+};
+
+export interface ModerationItem {
+  item_id: string;
+  item_type: ModerationItemType;
+  severity: ModerationSeverity;
+  status: ModerationStatus;
+  target_type: ModerationTargetType;
+  target_id: string;
+  reason: string;
+  source: string; // Service that queued the item
+  details: { [key: string]: any };
+  occurrence_count: number;
+  assignee_id?: string;
+  assigned_at?: string;
+  outcome?: ModerationOutcome;
+  resolution_notes?: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+  last_flagged_at: string;
+  updated_at: string;
+}
+
+export interface EnqueueModerationItem {
+  item_type: ModerationItemType;
+  severity: ModerationSeverity;
+  target_type: ModerationTargetType;
+  target_id: string;
+  reason: string;
+  source: string;
+  details?: { [key: string]: any };
+  dedupe_key?: string;
+}
+
+export interface ModerationQueueFilter {
+  status?: ModerationStatus;
+  item_type?: ModerationItemType;
+  severity?: ModerationSeverity;
+  assignee_id?: string;
+  limit?: number;
+  lastKey?: any;
+}
+
+const OPEN_PK = 'MODERATION#OPEN';
+const RESOLVED_PK = 'MODERATION#RESOLVED';
+const MAX_LIST_READS = 10; // Queue reads per page when filters leave it short
+
+const SEVERITY_RANK: Record<ModerationSeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+export class ModerationQueueService {
+  /**
+   * Queue an item for review, or bump the open item with the same dedupe_key
+   * Never throws: the flagged action has already happened, and losing a queue entry must not
+   * fail it
+   */
+  static async enqueue(input: EnqueueModerationItem): Promise<ModerationItem | undefined> {
+    try {
+      const now = new Date().toISOString();
+      const itemId = input.dedupe_key ? this.itemIdFor(input.dedupe_key) : uuidv4();
+      const existing = input.dedupe_key
+        ? await DynamoDBHelper.get(`MODERATION#${itemId}`, 'METADATA')
+        : undefined;
+
+      if (existing && existing.status === 'open') {
+        // Severity only ever escalates while the item waits
+        const severity = SEVERITY_RANK[input.severity] < SEVERITY_RANK[existing.severity as ModerationSeverity]
+          ? input.severity
+          : existing.severity;
+
+        const updated = await DynamoDBHelper.update(
+          `MODERATION#${itemId}`,
+          'METADATA',
+          'SET severity = :severity, reason = :reason, details = :details, last_flagged_at = :now, updated_at = :now, GSI1SK = :sk ADD occurrence_count :one',
+          {
+            ':severity': severity,
+            ':reason': input.reason,
+            ':details': input.details || {},
+            ':now': now,
+            ':sk': this.buildOpenSortKey(severity, existing.created_at, itemId),
+            ':one': 1,
+          }
+        );
+
+        logger.info('Moderation item flagged again', { itemId, itemType: input.item_type, targetId: input.target_id });
+        return this.toModerationItem(updated);
+      }
+
+      const item: ModerationItem = {
+        item_id: itemId,
+        item_type: input.item_type,
+        severity: input.severity,
+        status: 'open',
+        target_type: input.target_type,
+        target_id: input.target_id,
+        reason: input.reason,
+        source: input.source,
+        details: input.details || {},
+        occurrence_count: (existing?.occurrence_count || 0) + 1,
+        created_at: now,
+        last_flagged_at: now,
+        updated_at: now,
+      };
+
+      await DynamoDBHelper.put({
+        PK: `MODERATION#${itemId}`,
+        SK: 'METADATA',
+        entity_type: 'MODERATION_ITEM',
+        ...item,
+        GSI1PK: OPEN_PK,
+        GSI1SK: this.buildOpenSortKey(item.severity, now, itemId),
+      });
+
+      logger.info('Moderation item queued', {
+        itemId,
+        itemType: input.item_type,
+        severity: input.severity,
+        targetId: input.target_id,
+        reopened: !!existing,
+      });
+
+      return item;
+    } catch (error) {
+      logger.error('Failed to queue moderation item', error, {
+        itemType: input.item_type,
+        targetId: input.target_id,
+      });
+      return undefined;
+    }
+  }
+
+  static async getItem(itemId: string): Promise<ModerationItem | undefined> {
+    const item = await DynamoDBHelper.get(`MODERATION#${itemId}`, 'METADATA');
+    return item ? this.toModerationItem(item) : undefined;
+  }
+
+  /**
+   * Read a page of the queue
+   * Open items come most severe first, then oldest first; resolved items newest first
+   * Type and assignee filters apply after each read, so filtered pages take more than one read
+   */
+  static async listItems(filter: ModerationQueueFilter = {}): Promise<{ items: ModerationItem[]; nextKey?: any }> {
+    const status = filter.status || 'open';
+    const limit = filter.limit || 50;
+    const params: any = {
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'GSI1PK = :pk',
+      ExpressionAttributeValues: {
+        ':pk': status === 'open' ? OPEN_PK : RESOLVED_PK,
+      },
+      ScanIndexForward: status === 'open',
+      Limit: limit,
+    };
+
+    const filters: string[] = [];
+    if (filter.severity) {
+      if (status === 'open') {
+        params.KeyConditionExpression += ' AND begins_with(GSI1SK, :rank)';
+        params.ExpressionAttributeValues[':rank'] = `${SEVERITY_RANK[filter.severity]}#`;
+      } else {
+        filters.push('severity = :severity');
+        params.ExpressionAttributeValues[':severity'] = filter.severity;
+      }
+    }
+    if (filter.item_type) {
+      filters.push('item_type = :type');
+      params.ExpressionAttributeValues[':type'] = filter.item_type;
+    }
+    if (filter.assignee_id) {
+      filters.push('assignee_id = :assignee');
+      params.ExpressionAttributeValues[':assignee'] = filter.assignee_id;
+    }
+    if (filters.length > 0) {
+      params.FilterExpression = filters.join(' AND ');
+    }
+
+    // Filters apply after Limit, so keep reading until the page is full
+    const items: any[] = [];
+    let nextKey: any = filter.lastKey;
+
+    for (let reads = 0; reads < MAX_LIST_READS && items.length < limit; reads++) {
+      const result = await DynamoDBHelper.query({ ...params, ExclusiveStartKey: nextKey });
+      items.push(...(result.Items || []));
+      nextKey = result.LastEvaluatedKey;
+
+      if (items.length > limit) {
+        // The page filled up before the end of what was read
+        items.length = limit;
+        const last = items[limit - 1];
+        nextKey = { PK: last.PK, SK: last.SK, GSI1PK: last.GSI1PK, GSI1SK: last.GSI1SK };
+      }
+
+      if (!nextKey) break;
+    }
+
+    return {
+      items: items.map(item => this.toModerationItem(item)),
+      nextKey,
+    };
+  }
+
+  /**
+   * Claim an open item for an admin
+   * Conditional, so two admins cannot both claim it; a missing, resolved or already claimed item
+   * fails with ConditionalCheckFailedException
+   */
+  static async claim(itemId: string, adminId: string): Promise<ModerationItem> {
+    const now = new Date().toISOString();
+
+    const updated = await DynamoDBHelper.conditionalUpdate(
+      `MODERATION#${itemId}`,
+      'METADATA',
+      'SET assignee_id = :assignee, assigned_at = :now, updated_at = :now',
+      '#status = :open AND (attribute_not_exists(assignee_id) OR assignee_id = :assignee)',
+      { ':assignee': adminId, ':now': now, ':open': 'open' },
+      { '#status': 'status' }
+    );
+
+    return this.toModerationItem(updated);
+  }
+
+  /**
+   * Assign an open item to an admin, or unassign it with null
+   * A missing or resolved item fails with ConditionalCheckFailedException
+   */
+  static async assign(itemId: string, assigneeId: string | null): Promise<ModerationItem> {
+    const now = new Date().toISOString();
+
+    const updated = assigneeId
+      ? await DynamoDBHelper.conditionalUpdate(
+          `MODERATION#${itemId}`,
+          'METADATA',
+          'SET assignee_id = :assignee, assigned_at = :now, updated_at = :now',
+          '#status = :open',
+          { ':assignee': assigneeId, ':now': now, ':open': 'open' },
+          { '#status': 'status' }
+        )
+      : await DynamoDBHelper.conditionalUpdate(
+          `MODERATION#${itemId}`,
+          'METADATA',
+          'SET updated_at = :now REMOVE assignee_id, assigned_at',
+          '#status = :open',
+          { ':now': now, ':open': 'open' },
+          { '#status': 'status' }
+        );
+
+    return this.toModerationItem(updated);
+  }
+
+  /**
+   * Close an item with the admin's outcome and move it to the resolved list
+   * Only an open item that is unclaimed or claimed by the admin is closed (anyAssignee drops the
+   * claim check); otherwise this fails with ConditionalCheckFailedException
+   */
+  static async resolve(
+    itemId: string,
+    adminId: string,
+    outcome: ModerationOutcome,
+    notes?: string,
+    anyAssignee: boolean = false
+  ): Promise<ModerationItem> {
+    const now = new Date().toISOString();
+
+    const updated = await DynamoDBHelper.conditionalUpdate(
+      `MODERATION#${itemId}`,
+      'METADATA',
+      'SET #status = :resolved, outcome = :outcome, resolution_notes = :notes, resolved_by = :adminId, resolved_at = :now, updated_at = :now, GSI1PK = :pk, GSI1SK = :sk',
+      anyAssignee
+        ? '#status = :open'
+        : '#status = :open AND (attribute_not_exists(assignee_id) OR assignee_id = :adminId)',
+      {
+        ':resolved': 'resolved',
+        ':open': 'open',
+        ':outcome': outcome,
+        ':notes': notes || '',
+        ':adminId': adminId,
+        ':now': now,
+        ':pk': RESOLVED_PK,
+        ':sk': `${now}#${itemId}`,
+      },
+      { '#status': 'status' }
+    );
+
+    logger.info('Moderation item resolved', { itemId, adminId, outcome });
+
+    return this.toModerationItem(updated);
+  }
+
+  /**
+   * Deterministic item id for a dedupe key
+   */
+  static itemIdFor(dedupeKey: string): string {
+    return createHash('sha256').update(dedupeKey).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Dedupe key of a recipe's approval review, shared by the recipe service and admin actions
+   */
+  static recipeReviewKey(recipeId: string): string {
+    return `recipe_review:${recipeId}`;
+  }
+
+  private static buildOpenSortKey(severity: ModerationSeverity, createdAt: string, itemId: string): string {
+    return `${SEVERITY_RANK[severity]}#${createdAt}#${itemId}`;
+  }
+
+  private static toModerationItem(item: any): ModerationItem {
+    const { PK, SK, GSI1PK, GSI1SK, entity_type, ...rest } = item;
+    return rest as ModerationItem;
+  }
+}
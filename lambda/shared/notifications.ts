@@ -0,0 +1,86 @@
+import { DynamoDBHelper } from './dynamodb';
+import { generateUUID, formatTimestamp } from './utils';
+import { logger } from './logger';
+import { Notification, NotificationType, NotificationTargetType } from './types';
+
+/**
+ * Notification Writer
+ * Stores notifications as USER#<recipient> / NOTIFICATION#<timestamp>#<id> with a 30-day TTL.
+ * Unread notifications are also indexed on GSI1 (USER#<recipient>#UNREAD) so unread counts
+ * never have to read the full notification history.
+ */
+
+export const NOTIFICATION_TTL_DAYS = 30;
+
+export interface CreateNotificationInput {
+  recipientId: string;
+  type: NotificationType;
+  actorId?: string;
+  targetType: NotificationTargetType;
+  targetId: string;
+  content: string;
+}
+
+/**
+ * Unix timestamp (seconds) used for the table's `ttl` attribute
+ */
+export function calculateNotificationTTL(from: Date = new Date()): number {
+  return Math.floor(from.getTime() / 1000) + NOTIFICATION_TTL_DAYS * 24 * 60 * 60;
+}
+
+/**
+ * Create a notification for a user.
+ * Best-effort: notifications must never fail the action that triggered them,
+ * so errors are logged and null is returned. Self-notifications are skipped.
+ */
+export async function createNotification(input: CreateNotificationInput): Promise<Notification | null> {
+  const { recipientId, type, actorId, targetType, targetId, content } = input;
+
+  if (!recipientId || recipientId === actorId) {
+    return null;
+  }
+
+  try {
+    const now = formatTimestamp();
+
+    // Denormalize actor display info so listing does not need a profile lookup per item
+    const actorProfile = actorId ? await DynamoDBHelper.getUserProfile(actorId) : undefined;
+
+    const notification: Notification = {
+      notification_id: generateUUID(),
+      user_id: recipientId,
+      type,
+      actor_id: actorId || 'system',
+      actor_username: actorProfile?.username,
+      actor_avatar_url: actorProfile?.avatar_url,
+      target_type: targetType,
+      target_id: targetId,
+      content,
+      is_read: false,
+      created_at: now,
+      ttl: calculateNotificationTTL(),
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${recipientId}`,
+      SK: `NOTIFICATION#${now}#${notification.notification_id}`,
+      GSI1PK: `USER#${recipientId}#UNREAD`,
+      GSI1SK: now,
+      entity_type: 'NOTIFICATION',
+      ...notification,
+    });
+
+    logger.info('Notification created', {
+      notificationId: notification.notification_id,
+      recipientId,
+      type,
+      targetType,
+      targetId,
+    });
+
+    return notification;
+  } catch (error) {
+    logger.error('Failed to create notification', error, { recipientId, type, targetId });
+    return null;
+  }
+}
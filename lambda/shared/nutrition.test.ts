@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the nutrition calculator
+ */
+
+import { computeNutrition, compareReportedNutrition, meetsHealthGoals } from './nutrition';
+import { ComputedNutrition, MasterIngredient } from './types';
+
+jest.mock('./dynamodb');
+
+function master(name: string, extra: Partial<MasterIngredient>): MasterIngredient {
+  return {
+    ingredient_id: `ing-${name}`,
+    name,
+    normalized_name: name,
+    category: 'other',
+    aliases: [],
+    is_active: true,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...extra
+  };
+}
+
+const masters = new Map<string, MasterIngredient | null>([
+  ['thit ga', master('Thịt gà', { nutrition_per_100g: { calories: 200, protein_g: 20, carbs_g: 0, fat_g: 12, sodium_mg: 70 } })],
+  ['trung ga', master('Trứng gà', {
+    nutrition_per_100g: { calories: 140, protein_g: 12, carbs_g: 1, fat_g: 10 },
+    grams_per_unit: { 'quả': 50 }
+  })],
+  ['dau an', master('Dầu ăn', { nutrition_per_100g: { calories: 900, protein_g: 0, carbs_g: 0, fat_g: 100 }, grams_per_ml: 0.9 })],
+  ['hanh la', master('Hành lá', {})],
+  ['muoi', null]
+]);
+
+describe('computeNutrition', () => {
+  it('should compute per-serving values from mass, volume and count quantities', () => {
+    const nutrition = computeNutrition([
+      { ingredient_name: 'Thịt gà', quantity: '0.5', unit: 'kg' },
+      { ingredient_name: 'Trứng gà', quantity: '2', unit: 'quả' },
+      { ingredient_name: 'Dầu ăn', quantity: '2 thìa canh' }
+    ], 2, masters);
+
+    // 500g chicken + 100g egg + 27g oil, split over 2 servings
+    expect(nutrition.per_serving).toEqual({
+      calories: 692,
+      protein_g: 56,
+      carbs_g: 0.5,
+      fat_g: 48.5,
+      fiber_g: 0,
+      sodium_mg: 175
+    });
+    expect(nutrition.coverage).toBe(1);
+    expect(nutrition.missing_ingredients).toEqual([]);
+  });
+
+  it('should report ingredients without data or a measurable quantity as missing', () => {
+    const nutrition = computeNutrition([
+      { ingredient_name: 'Thịt gà', quantity: '200g' },
+      { ingredient_name: 'Hành lá', quantity: '2', unit: 'cây' },
+      { ingredient_name: 'Muối', quantity: 'vừa đủ' },
+      { ingredient_name: 'Trứng gà', quantity: '1', unit: 'chén' },
+      { ingredient_name: 'Ớt', quantity: '1', unit: 'quả', is_optional: true }
+    ], 1, masters);
+
+    expect(nutrition.per_serving.calories).toBe(400);
+    expect(nutrition.coverage).toBe(0.25);
+    expect(nutrition.missing_ingredients).toEqual(['Hành lá', 'Muối', 'Trứng gà']);
+  });
+});
+
+describe('compareReportedNutrition', () => {
+  const computed: ComputedNutrition = {
+    per_serving: { calories: 500, protein_g: 30, carbs_g: 40, fat_g: 20 },
+    coverage: 0.9,
+    missing_ingredients: []
+  };
+
+  it('should flag reported values that disagree strongly with the computed values', () => {
+    expect(compareReportedNutrition({ calories: 1200, protein: '28g', carbs: '5g', fat: '22 g' }, computed)).toEqual([
+      { nutrient: 'calories', reported: 1200, computed: 500 },
+      { nutrient: 'carbs', reported: 5, computed: 40 }
+    ]);
+  });
+
+  it('should not compare when too few ingredients were quantified', () => {
+    expect(compareReportedNutrition({ calories: 1200 }, { ...computed, coverage: 0.4 })).toEqual([]);
+  });
+});
+
+describe('meetsHealthGoals', () => {
+  const nutrition: ComputedNutrition = {
+    per_serving: { calories: 750, protein_g: 35, carbs_g: 60, fat_g: 30, sodium_mg: 1200 },
+    coverage: 0.8,
+    missing_ingredients: []
+  };
+
+  it('should apply the per-serving limits of each goal', () => {
+    expect(meetsHealthGoals(nutrition, ['muscle_gain'])).toBe(true);
+    expect(meetsHealthGoals(nutrition, ['general_health'])).toBe(true);
+    expect(meetsHealthGoals(nutrition, ['muscle_gain', 'weight_loss'])).toBe(false);
+  });
+
+  it('should not exclude recipes without usable computed nutrition', () => {
+    expect(meetsHealthGoals(undefined, ['weight_loss'])).toBe(true);
+    expect(meetsHealthGoals({ ...nutrition, coverage: 0.3 }, ['weight_loss'])).toBe(true);
+  });
+});
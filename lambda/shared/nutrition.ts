@@ -0,0 +1,218 @@
+import {
+  ComputedNutrition,
+  MasterIngredient,
+  NutrientValues,
+  NutritionalInfo,
+  NutritionDiscrepancy,
+  Recipe,
+  RecipeIngredient,
+  UserPreferences,
+} from './types';
+import { IngredientService } from './ingredient-service';
+import { parseQuantity, toBaseUnit } from './quantity';
+import { normalizeText } from './utils';
+
+/**
+ * Nutrition Calculator
+ * Computes per-serving calories and macros from parsed recipe quantities and the per-100g
+ * data on master ingredients, so nutrition can be compared and filtered on as numbers
+ * instead of the free text the model writes into `nutritional_info`.
+ */
+
+type HealthGoal = NonNullable<UserPreferences['health_goals']>[number];
+
+interface HealthGoalLimits {
+  max_calories?: number;
+  max_fat_g?: number;
+  max_sodium_mg?: number;
+  min_protein_g?: number;
+}
+
+// Below this share of quantified ingredients the computed totals are too partial to act on
+export const MIN_NUTRITION_COVERAGE = 0.6;
+
+// Per-serving limits applied when filtering recipes by health goal
+export const HEALTH_GOAL_LIMITS: Record<HealthGoal, HealthGoalLimits> = {
+  weight_loss: { max_calories: 600, max_fat_g: 25 },
+  muscle_gain: { min_protein_g: 25 },
+  general_health: { max_calories: 900, max_sodium_mg: 1500 },
+};
+
+// A reported value is flagged when it is off by more than this share AND by more than the absolute margin
+const DISCREPANCY_RATIO = 0.5;
+const DISCREPANCY_MARGINS: Record<NutritionDiscrepancy['nutrient'], number> = {
+  calories: 100,
+  protein: 10,
+  carbs: 15,
+  fat: 10,
+};
+
+const NUTRIENT_FIELDS: Record<NutritionDiscrepancy['nutrient'], keyof NutrientValues> = {
+  calories: 'calories',
+  protein: 'protein_g',
+  carbs: 'carbs_g',
+  fat: 'fat_g',
+};
+
+/**
+ * Weight in grams of an ingredient's quantity, or undefined when it cannot be weighed
+ */
+function ingredientGrams(ingredient: RecipeIngredient, master: MasterIngredient): number | undefined {
+  const parsed = ingredient.parsed_quantity || parseQuantity(ingredient.quantity, ingredient.unit);
+  if (!parsed) {
+    return undefined;
+  }
+
+  // Ranges count at their midpoint
+  const base = toBaseUnit(parsed);
+  const amount = base.max_value !== undefined ? (base.value + base.max_value) / 2 : base.value;
+
+  if (base.unit_type === 'mass') {
+    return amount;
+  }
+
+  if (base.unit_type === 'volume') {
+    return amount * (master.grams_per_ml ?? 1);
+  }
+
+  const unitKey = base.unit ? normalizeText(base.unit) : 'each';
+  const unitGrams = Object.entries(master.grams_per_unit || {})
+    .find(([unit]) => normalizeText(unit) === unitKey)?.[1];
+
+  return unitGrams !== undefined ? amount * unitGrams : undefined;
+}
+
+function roundNutrient(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Compute per-serving nutrition from ingredients and their master ingredient data.
+ * `masters` is keyed by the normalized ingredient name; optional ingredients are not counted.
+ */
+export function computeNutrition(
+  ingredients: RecipeIngredient[],
+  servings: number,
+  masters: Map<string, MasterIngredient | null>
+): ComputedNutrition {
+  const totals: Required<NutrientValues> = {
+    calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0, fiber_g: 0, sodium_mg: 0,
+  };
+  const missing: string[] = [];
+  const required = ingredients.filter(ingredient => !ingredient.is_optional);
+
+  for (const ingredient of required) {
+    const master = masters.get(normalizeText(ingredient.ingredient_name));
+    const per100g = master?.nutrition_per_100g;
+    const grams = master && per100g ? ingredientGrams(ingredient, master) : undefined;
+
+    if (!per100g || grams === undefined) {
+      missing.push(ingredient.ingredient_name);
+      continue;
+    }
+
+    const ratio = grams / 100;
+    totals.calories += per100g.calories * ratio;
+    totals.protein_g += per100g.protein_g * ratio;
+    totals.carbs_g += per100g.carbs_g * ratio;
+    totals.fat_g += per100g.fat_g * ratio;
+    totals.fiber_g += (per100g.fiber_g || 0) * ratio;
+    totals.sodium_mg += (per100g.sodium_mg || 0) * ratio;
+  }
+
+  const portions = servings > 0 ? servings : 1;
+
+  return {
+    per_serving: {
+      calories: Math.round(totals.calories / portions),
+      protein_g: roundNutrient(totals.protein_g / portions),
+      carbs_g: roundNutrient(totals.carbs_g / portions),
+      fat_g: roundNutrient(totals.fat_g / portions),
+      fiber_g: roundNutrient(totals.fiber_g / portions),
+      sodium_mg: Math.round(totals.sodium_mg / portions),
+    },
+    coverage: required.length > 0
+      ? Math.round(((required.length - missing.length) / required.length) * 100) / 100
+      : 0,
+    missing_ingredients: missing,
+  };
+}
+
+/**
+ * Compare the nutrition a recipe reports (AI free text such as "25g") with the computed values
+ */
+export function compareReportedNutrition(
+  reported: NutritionalInfo | undefined,
+  computed: ComputedNutrition
+): NutritionDiscrepancy[] {
+  if (!reported || computed.coverage < MIN_NUTRITION_COVERAGE) {
+    return [];
+  }
+
+  const discrepancies: NutritionDiscrepancy[] = [];
+
+  for (const nutrient of Object.keys(NUTRIENT_FIELDS) as NutritionDiscrepancy['nutrient'][]) {
+    const reportedValue = parseFloat(String(reported[nutrient] ?? '').replace(',', '.'));
+    if (isNaN(reportedValue)) {
+      continue;
+    }
+
+    const computedValue = computed.per_serving[NUTRIENT_FIELDS[nutrient]] ?? 0;
+    const difference = Math.abs(reportedValue - computedValue);
+    const reference = Math.max(reportedValue, computedValue);
+
+    if (difference > DISCREPANCY_MARGINS[nutrient] && difference > reference * DISCREPANCY_RATIO) {
+      discrepancies.push({ nutrient, reported: reportedValue, computed: computedValue });
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Compute a recipe's nutrition, looking up each ingredient's master data by name.
+ * Reported nutrition that disagrees strongly is recorded in `discrepancies`.
+ */
+export async function calculateRecipeNutrition(
+  recipe: Pick<Recipe, 'ingredients' | 'servings' | 'nutritional_info'>
+): Promise<ComputedNutrition> {
+  const masters = new Map<string, MasterIngredient | null>();
+
+  for (const ingredient of recipe.ingredients || []) {
+    const key = normalizeText(ingredient.ingredient_name);
+    if (!masters.has(key)) {
+      masters.set(key, await IngredientService.findByName(ingredient.ingredient_name));
+    }
+  }
+
+  const computed = computeNutrition(recipe.ingredients || [], recipe.servings, masters);
+  const discrepancies = compareReportedNutrition(recipe.nutritional_info, computed);
+
+  return discrepancies.length > 0 ? { ...computed, discrepancies } : computed;
+}
+
+/**
+ * Whether a recipe's computed nutrition fits every health goal.
+ * Recipes without usable computed nutrition are not excluded.
+ */
+export function meetsHealthGoals(nutrition: ComputedNutrition | undefined, goals: string[]): boolean {
+  if (!nutrition || nutrition.coverage < MIN_NUTRITION_COVERAGE) {
+    return true;
+  }
+
+  const perServing = nutrition.per_serving;
+
+  return goals.every(goal => {
+    const limits = HEALTH_GOAL_LIMITS[goal as HealthGoal];
+    if (!limits) {
+      return true;
+    }
+
+    if (limits.max_calories !== undefined && perServing.calories > limits.max_calories) return false;
+    if (limits.max_fat_g !== undefined && perServing.fat_g > limits.max_fat_g) return false;
+    if (limits.max_sodium_mg !== undefined && (perServing.sodium_mg ?? 0) > limits.max_sodium_mg) return false;
+    if (limits.min_protein_g !== undefined && perServing.protein_g < limits.min_protein_g) return false;
+
+    return true;
+  });
+}
@@ -17,6 +17,9 @@ export class OptimizedQueries {
 
   /**
    * Optimized recipe search using GSI with efficient filtering
+   * GSI1SK is cuisine#method#meal#created_at, so only the filters that lead it without a gap
+   * can narrow the key condition; the others are applied as filters. Filters run after Limit,
+   * so a page can come back short while more items remain.
    */
   async searchRecipes(filters: {
     cuisine?: string;
@@ -34,26 +37,41 @@ export class OptimizedQueries {
     const { cuisine, cookingMethod, mealType, isApproved = true, limit = 20, lastEvaluatedKey } = filters;
 
     try {
-      // Build GSI1SK for efficient filtering
-      const gsi1SKParts = [cuisine, cookingMethod, mealType].filter(Boolean);
-      const gsi1SK = gsi1SKParts.length > 0 ? gsi1SKParts.join('#') : '';
+      const keyParts: [string, string | undefined][] = [
+        ['cuisine', cuisine],
+        ['cookingMethod', cookingMethod],
+        ['mealType', mealType]
+      ];
+      const firstMissing = keyParts.findIndex(([, value]) => !value);
+      const leadingCount = firstMissing === -1 ? keyParts.length : firstMissing;
 
       let keyConditionExpression = 'GSI1PK = :pk';
       const expressionAttributeValues: any = {
         ':pk': 'RECIPE'
       };
 
-      if (gsi1SK) {
+      if (leadingCount > 0) {
         keyConditionExpression += ' AND begins_with(GSI1SK, :sk)';
-        expressionAttributeValues[':sk'] = gsi1SK;
+        expressionAttributeValues[':sk'] = `${keyParts.slice(0, leadingCount).map(([, value]) => value).join('#')}#`;
       }
 
+      const filterExpressions: string[] = [];
+
+      // Later parts sit between '#' separators (the cuisine never does, being first), so a
+      // method and a meal type spelled the same would match either slot
+      keyParts.slice(leadingCount).forEach(([name, value]) => {
+        if (value) {
+          filterExpressions.push(`contains(GSI1SK, :${name})`);
+          expressionAttributeValues[`:${name}`] = `#${value}#`;
+        }
+      });
+
       // Add approval filter
-      let filterExpression = '';
       if (isApproved !== undefined) {
-        filterExpression = 'is_approved = :approved';
+        filterExpressions.push('is_approved = :approved');
         expressionAttributeValues[':approved'] = isApproved;
       }
+      const filterExpression = filterExpressions.join(' AND ');
 
       const response = await this.client.send(new QueryCommand({
         TableName: this.tableName,
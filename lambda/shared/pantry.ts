@@ -0,0 +1,65 @@
+import { DynamoDBHelper } from './dynamodb';
+import { PantryItem } from './types';
+
+/**
+ * Pantry Reader
+ * Pantry items are stored as USER#<id> / INGREDIENT#<pantry_item_id> (the range read by
+ * DynamoDBHelper.getUserIngredients). Shared so the pantry API and recipe suggestion
+ * lambdas see the same view of a user's pantry.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days from today (UTC) until the item's expiry date.
+ * Negative once expired; undefined when the item has no expiry date.
+ */
+export function getDaysUntilExpiry(item: Pick<PantryItem, 'expiry_date'>, now: Date = new Date()): number | undefined {
+  if (!item.expiry_date) {
+    return undefined;
+  }
+
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const expiry = Date.parse(`${item.expiry_date}T00:00:00.000Z`);
+
+  return Math.round((expiry - today) / DAY_MS);
+}
+
+/**
+ * An item is expired the day after its expiry date
+ */
+export function isPantryItemExpired(item: Pick<PantryItem, 'expiry_date'>, now: Date = new Date()): boolean {
+  const days = getDaysUntilExpiry(item, now);
+  return days !== undefined && days < 0;
+}
+
+/**
+ * Convert DynamoDB item to PantryItem object
+ */
+export function convertDynamoItemToPantryItem(item: any): PantryItem {
+  return {
+    pantry_item_id: item.pantry_item_id,
+    user_id: item.user_id,
+    ingredient_id: item.ingredient_id,
+    ingredient_name: item.ingredient_name,
+    category: item.category,
+    quantity: item.quantity,
+    unit: item.unit,
+    purchase_date: item.purchase_date,
+    expiry_date: item.expiry_date,
+    created_at: item.created_at,
+    updated_at: item.updated_at,
+  };
+}
+
+/**
+ * Get all pantry items for a user, most recently added first
+ */
+export async function getPantryItems(userId: string): Promise<PantryItem[]> {
+  const result = await DynamoDBHelper.getUserIngredients(userId);
+
+  // SKs are keyed by item ID, so ordering is applied here rather than by the query
+  return result.Items
+    .map(convertDynamoItemToPantryItem)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
@@ -1,5 +1,6 @@
 import {
   checkFriendship,
+  checkBlocked,
   createPrivacyContext,
   getUserPrivacySettings,
   hasAccess,
@@ -112,6 +113,36 @@ describe('Privacy Middleware', () => {
     });
   });
 
+  describe('blocking', () => {
+    it('should detect a block from the friendship record', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [userId2] });
+
+      expect(await checkBlocked(userId1, userId2)).toBe(true);
+      expect(await checkBlocked(userId1, userId1)).toBe(false);
+    });
+
+    it('should treat users as blocked when the friendship record cannot be read', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockRejectedValue(new Error('Database operation get failed'));
+
+      expect(await checkBlocked(userId1, userId2)).toBe(true);
+    });
+
+    it('should mark blocked users in the context and deny them all access', async () => {
+      (DynamoDBHelper.get as jest.Mock).mockResolvedValue({ status: 'blocked', blocked_by: [userId2] });
+
+      const context = await createPrivacyContext(userId1, userId2);
+
+      expect(context).toEqual({
+        viewerId: userId1,
+        targetUserId: userId2,
+        isSelf: false,
+        isFriend: false,
+        isBlocked: true
+      });
+      expect(hasAccess('public', context)).toBe(false);
+    });
+  });
+
   describe('getUserPrivacySettings', () => {
     it('should return user privacy settings', async () => {
       const mockSettings = {
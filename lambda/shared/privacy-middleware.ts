@@ -11,6 +11,7 @@ export interface PrivacyContext {
   targetUserId: string;    // User whose data is being viewed
   isSelf: boolean;         // Is viewer viewing their own data
   isFriend: boolean;       // Is viewer a friend of target user
+  isBlocked?: boolean;     // Has either user blocked the other
 }
 
 /**
@@ -37,6 +38,41 @@ export async function checkFriendship(userId1: string, userId2: string): Promise
   }
 }
 
+/**
+ * Check if either user has blocked the other
+ * Blocks are stored on both friendship records, so one read is enough. When the record cannot
+ * be read the users are treated as blocked, so a failed read never exposes content.
+ */
+export async function checkBlocked(userId1: string, userId2: string): Promise<boolean> {
+  if (userId1 === userId2) return false;
+
+  try {
+    const friendship = await DynamoDBHelper.get(`USER#${userId1}`, `FRIEND#${userId2}`);
+    return friendship?.status === 'blocked';
+  } catch (error) {
+    console.error('Error checking block:', error);
+    return true;
+  }
+}
+
+/**
+ * Get IDs of users a user has blocked or been blocked by
+ */
+export async function getBlockedUserIds(userId: string): Promise<string[]> {
+  const result = await DynamoDBHelper.query({
+    KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+    FilterExpression: '#status = :status',
+    ExpressionAttributeValues: {
+      ':pk': `USER#${userId}`,
+      ':sk': 'FRIEND#',
+      ':status': 'blocked'
+    },
+    ExpressionAttributeNames: { '#status': 'status' }
+  });
+
+  return result.Items.map(item => item.friend_id);
+}
+
 /**
  * Create privacy context for filtering
  */
@@ -46,12 +82,15 @@ export async function createPrivacyContext(
 ): Promise<PrivacyContext> {
   const isSelf = viewerId === targetUserId;
   const isFriend = isSelf ? false : await checkFriendship(viewerId, targetUserId);
+  // Friends cannot be blocked, so only check strangers
+  const isBlocked = isSelf || isFriend ? false : await checkBlocked(viewerId, targetUserId);
 
   return {
     viewerId,
     targetUserId,
     isSelf,
-    isFriend
+    isFriend,
+    ...(isBlocked && { isBlocked })
   };
 }
 
@@ -102,6 +141,11 @@ export function hasAccess(privacyLevel: PrivacyLevel, context: PrivacyContext):
     return true;
   }
 
+  // Blocked users see nothing beyond the username
+  if (context.isBlocked) {
+    return false;
+  }
+
   // Check privacy level
   switch (privacyLevel) {
     case 'public':
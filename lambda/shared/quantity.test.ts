@@ -0,0 +1,95 @@
+/**
+ * Unit tests for the quantity parser and servings scaling
+ */
+
+import { parseQuantity, scaleIngredients, toBaseUnit, fromBaseUnit, withParsedQuantity } from './quantity';
+
+describe('parseQuantity', () => {
+  it('should parse numbers with a separate unit', () => {
+    expect(parseQuantity('300', 'g')).toEqual({ value: 300, unit: 'g', unit_type: 'mass' });
+    expect(parseQuantity('1,5', 'lít')).toEqual({ value: 1.5, unit: 'l', unit_type: 'volume' });
+  });
+
+  it('should parse units written into the quantity', () => {
+    expect(parseQuantity('300g')).toEqual({ value: 300, unit: 'g', unit_type: 'mass' });
+    expect(parseQuantity('2 thìa canh')).toEqual({ value: 2, unit: 'tbsp', unit_type: 'volume' });
+    expect(parseQuantity('1 muỗng cà phê')).toEqual({ value: 1, unit: 'tsp', unit_type: 'volume' });
+    expect(parseQuantity('2 lạng')).toEqual({ value: 2, unit: 'lạng', unit_type: 'mass' });
+    expect(parseQuantity('8 oz')).toEqual({ value: 8, unit: 'oz', unit_type: 'mass' });
+  });
+
+  it('should parse fractions, mixed numbers and number words', () => {
+    expect(parseQuantity('1/2', 'kg')).toEqual({ value: 0.5, unit: 'kg', unit_type: 'mass' });
+    expect(parseQuantity('1 1/2 cups')).toEqual({ value: 1.5, unit: 'cup', unit_type: 'volume' });
+    expect(parseQuantity('½ quả')).toEqual({ value: 0.5, unit: 'quả', unit_type: 'count' });
+    expect(parseQuantity('nửa', 'kg')).toEqual({ value: 0.5, unit: 'kg', unit_type: 'mass' });
+    expect(parseQuantity('1 rưỡi', 'kg')).toEqual({ value: 1.5, unit: 'kg', unit_type: 'mass' });
+  });
+
+  it('should parse ranges', () => {
+    expect(parseQuantity('2-3', 'quả')).toEqual({ value: 2, max_value: 3, unit: 'quả', unit_type: 'count' });
+    expect(parseQuantity('2 đến 3 tép')).toEqual({ value: 2, max_value: 3, unit: 'tép', unit_type: 'count' });
+    expect(parseQuantity('3-2', 'quả')).toBeUndefined();
+  });
+
+  it('should treat unknown units as counts', () => {
+    expect(parseQuantity('2')).toEqual({ value: 2, unit: undefined, unit_type: 'count' });
+    expect(parseQuantity('3', 'Nhánh')).toEqual({ value: 3, unit: 'nhánh', unit_type: 'count' });
+  });
+
+  it('should return undefined for unmeasurable amounts', () => {
+    expect(parseQuantity('vừa đủ')).toBeUndefined();
+    expect(parseQuantity('to taste')).toBeUndefined();
+    expect(parseQuantity('')).toBeUndefined();
+    expect(parseQuantity('1/0', 'kg')).toBeUndefined();
+  });
+});
+
+describe('unit conversion', () => {
+  it('should convert mass and volume to base units', () => {
+    expect(toBaseUnit({ value: 0.5, unit: 'kg', unit_type: 'mass' })).toEqual({ value: 500, unit: 'g', unit_type: 'mass' });
+    expect(toBaseUnit({ value: 2, unit: 'tbsp', unit_type: 'volume' })).toEqual({ value: 30, unit: 'ml', unit_type: 'volume' });
+    expect(toBaseUnit({ value: 2, unit: 'quả', unit_type: 'count' })).toEqual({ value: 2, unit: 'quả', unit_type: 'count' });
+  });
+
+  it('should express large base amounts in kg / l', () => {
+    expect(fromBaseUnit(1500, 'g')).toEqual({ value: 1.5, unit: 'kg' });
+    expect(fromBaseUnit(250, 'ml')).toEqual({ value: 250, unit: 'ml' });
+    expect(fromBaseUnit(1200, 'quả')).toEqual({ value: 1200, unit: 'quả' });
+  });
+});
+
+describe('scaleIngredients', () => {
+  it('should rescale measurable quantities and keep the original unit wording', () => {
+    const scaled = scaleIngredients([
+      { ingredient_name: 'thịt gà', quantity: '300g' },
+      { ingredient_name: 'nước mắm', quantity: '2', unit: 'thìa canh' },
+      { ingredient_name: 'tỏi', quantity: '2-3', unit: 'tép' },
+      { ingredient_name: 'muối', quantity: 'vừa đủ' }
+    ], 1.5);
+
+    expect(scaled.map(i => [i.quantity, i.unit])).toEqual([
+      ['450', 'g'],
+      ['3', 'thìa canh'],
+      ['3-4.5', 'tép'],
+      ['vừa đủ', undefined]
+    ]);
+    expect(scaled[1].parsed_quantity).toEqual({ value: 3, unit: 'tbsp', unit_type: 'volume' });
+    expect(scaled[3].parsed_quantity).toBeUndefined();
+  });
+});
+
+describe('withParsedQuantity', () => {
+  it('should store the structured form alongside the raw text', () => {
+    expect(withParsedQuantity({ ingredient_name: 'gạo', quantity: '1/2', unit: 'kg' })).toEqual({
+      ingredient_name: 'gạo',
+      quantity: '1/2',
+      unit: 'kg',
+      parsed_quantity: { value: 0.5, unit: 'kg', unit_type: 'mass' }
+    });
+    expect(withParsedQuantity({ ingredient_name: 'muối', quantity: 'vừa đủ' })).toEqual({
+      ingredient_name: 'muối',
+      quantity: 'vừa đủ'
+    });
+  });
+});
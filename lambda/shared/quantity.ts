@@ -0,0 +1,281 @@
+import { ParsedQuantity, QuantityUnitType, RecipeIngredient } from './types';
+import { normalizeText } from './utils';
+
+/**
+ * Quantity Parser
+ * Turns free-text recipe quantities ("2 thìa canh", "1/2 kg", "300g", "2-3 quả") into a
+ * structured form that can be scaled, converted and summed. Shared by the recipe, AI
+ * suggestion and shopping list lambdas.
+ */
+
+interface UnitDefinition {
+  unit: string; // Canonical unit code
+  type: Exclude<QuantityUnitType, 'count'>;
+  factor: number; // Multiplier to the base unit (g for mass, ml for volume)
+}
+
+const UNIT_DEFINITIONS: Array<UnitDefinition & { aliases: string[] }> = [
+  { unit: 'mg', type: 'mass', factor: 0.001, aliases: ['mg', 'milligram', 'milligrams'] },
+  { unit: 'g', type: 'mass', factor: 1, aliases: ['g', 'gr', 'gram', 'grams', 'gam'] },
+  { unit: 'kg', type: 'mass', factor: 1000, aliases: ['kg', 'kgs', 'kilogram', 'kilograms', 'kilo', 'ky', 'ki'] },
+  { unit: 'lạng', type: 'mass', factor: 100, aliases: ['lang'] },
+  { unit: 'oz', type: 'mass', factor: 28.35, aliases: ['oz', 'ounce', 'ounces'] },
+  { unit: 'lb', type: 'mass', factor: 453.6, aliases: ['lb', 'lbs', 'pound', 'pounds'] },
+  { unit: 'ml', type: 'volume', factor: 1, aliases: ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres', 'mililit'] },
+  { unit: 'l', type: 'volume', factor: 1000, aliases: ['l', 'lit', 'liter', 'liters', 'litre', 'litres'] },
+  {
+    unit: 'tsp', type: 'volume', factor: 5,
+    aliases: ['tsp', 'teaspoon', 'teaspoons', 'thia ca phe', 'thia cafe', 'muong ca phe', 'muong cafe', 'thia nho', 'muong nho'],
+  },
+  {
+    unit: 'tbsp', type: 'volume', factor: 15,
+    aliases: ['tbsp', 'tablespoon', 'tablespoons', 'thia canh', 'muong canh', 'thia lon', 'muong lon'],
+  },
+  { unit: 'cup', type: 'volume', factor: 240, aliases: ['cup', 'cups'] },
+];
+
+const UNIT_ALIASES = new Map<string, UnitDefinition>();
+for (const { aliases, ...definition } of UNIT_DEFINITIONS) {
+  for (const alias of aliases) {
+    UNIT_ALIASES.set(alias, definition);
+  }
+}
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  nua: 0.5, mot: 1, hai: 2, ba: 3, bon: 4, nam: 5,
+  half: 0.5, a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+};
+
+const UNICODE_FRACTIONS: { [char: string]: number } = {
+  '½': 0.5, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 0.25, '¾': 0.75, '⅛': 0.125,
+};
+
+const NUMBER_PATTERN = /^(\d+\s+\d+\s*\/\s*\d+|\d+\s*\/\s*\d+|\d*[½⅓⅔¼¾⅛]|\d+(?:[.,]\d+)?)/;
+const RANGE_SEPARATOR_PATTERN = /^\s*(?:-|–|~|to\b|đến\b|tới\b)\s*/i;
+const HALF_SUFFIX_PATTERN = /^\s*rưỡi\b/i; // "1 rưỡi" = 1.5
+
+function parseNumber(token: string): number | undefined {
+  const compact = token.replace(/\s+/g, ' ').trim();
+
+  const mixed = compact.match(/^(?:(\d+) )?(\d+) ?\/ ?(\d+)$/);
+  if (mixed) {
+    const denominator = parseInt(mixed[3]);
+    if (denominator === 0) {
+      return undefined;
+    }
+    return (mixed[1] ? parseInt(mixed[1]) : 0) + parseInt(mixed[2]) / denominator;
+  }
+
+  const unicode = compact.match(/^(\d*)([½⅓⅔¼¾⅛])$/);
+  if (unicode) {
+    return (unicode[1] ? parseInt(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+
+  return parseFloat(compact.replace(',', '.'));
+}
+
+/**
+ * Read a leading amount (number, fraction or number word) off the text
+ */
+function readAmount(text: string): { value: number; rest: string } | undefined {
+  const numeric = text.match(NUMBER_PATTERN);
+  if (numeric) {
+    const value = parseNumber(numeric[1]);
+    if (value === undefined || isNaN(value)) {
+      return undefined;
+    }
+
+    let rest = text.slice(numeric[1].length);
+    const half = rest.match(HALF_SUFFIX_PATTERN);
+    if (half) {
+      return { value: value + 0.5, rest: rest.slice(half[0].length) };
+    }
+    return { value, rest };
+  }
+
+  const word = text.match(/^(\S+)([\s\S]*)$/);
+  if (word) {
+    const value = NUMBER_WORDS[normalizeText(word[1])];
+    if (value !== undefined) {
+      return { value, rest: word[2] };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve unit text to a known unit; multi-word text matches its longest known prefix
+ * ("thìa canh đầy" → tbsp)
+ */
+function resolveUnit(unitText: string): UnitDefinition | undefined {
+  const normalized = normalizeText(unitText);
+
+  const exact = UNIT_ALIASES.get(normalized) || UNIT_ALIASES.get(normalized.replace(/s$/, ''));
+  if (exact) {
+    return exact;
+  }
+
+  const words = normalized.split(' ');
+  for (let length = words.length - 1; length > 0; length--) {
+    const prefix = UNIT_ALIASES.get(words.slice(0, length).join(' '));
+    if (prefix) {
+      return prefix;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a quantity into its parsed amount and the unit text as written
+ * (taken from the quantity itself when no separate unit is given, e.g. "300g")
+ */
+function splitQuantity(
+  quantity: string | number | undefined,
+  unit?: string
+): { value: number; maxValue?: number; unitText: string } | undefined {
+  const text = String(quantity ?? '').trim();
+  if (!text) {
+    return undefined;
+  }
+
+  const first = readAmount(text);
+  if (!first) {
+    return undefined;
+  }
+
+  let rest = first.rest;
+  let maxValue: number | undefined;
+
+  const separator = rest.match(RANGE_SEPARATOR_PATTERN);
+  if (separator) {
+    const second = readAmount(rest.slice(separator[0].length));
+    if (!second) {
+      return undefined;
+    }
+    maxValue = second.value;
+    rest = second.rest;
+  }
+
+  if (maxValue !== undefined && maxValue < first.value) {
+    return undefined;
+  }
+
+  const unitText = [rest.replace(/\(.*\)/g, '').trim(), unit?.trim()].filter(Boolean).join(' ');
+
+  return { value: first.value, maxValue: maxValue === first.value ? undefined : maxValue, unitText };
+}
+
+/**
+ * Parse a recipe quantity and optional unit into a structured quantity.
+ * Returns undefined for amounts that cannot be measured ("vừa đủ", "to taste").
+ */
+export function parseQuantity(quantity: string | number | undefined, unit?: string): ParsedQuantity | undefined {
+  const split = splitQuantity(quantity, unit);
+  if (!split) {
+    return undefined;
+  }
+
+  const definition = split.unitText ? resolveUnit(split.unitText) : undefined;
+
+  return {
+    value: split.value,
+    ...(split.maxValue !== undefined && { max_value: split.maxValue }),
+    unit: definition ? definition.unit : (split.unitText.toLowerCase() || undefined),
+    unit_type: definition ? definition.type : 'count',
+  };
+}
+
+/**
+ * Multiply a quantity (both ends of a range)
+ */
+export function scaleQuantity(quantity: ParsedQuantity, factor: number): ParsedQuantity {
+  return {
+    ...quantity,
+    value: roundQuantity(quantity.value * factor),
+    ...(quantity.max_value !== undefined && { max_value: roundQuantity(quantity.max_value * factor) }),
+  };
+}
+
+/**
+ * Convert mass to grams and volume to millilitres so different units can be summed.
+ * Count quantities are returned unchanged.
+ */
+export function toBaseUnit(quantity: ParsedQuantity): ParsedQuantity {
+  if (quantity.unit_type === 'count' || !quantity.unit) {
+    return quantity;
+  }
+
+  const definition = UNIT_DEFINITIONS.find(d => d.unit === quantity.unit);
+  if (!definition) {
+    return quantity;
+  }
+
+  return {
+    value: roundQuantity(quantity.value * definition.factor),
+    ...(quantity.max_value !== undefined && { max_value: roundQuantity(quantity.max_value * definition.factor) }),
+    unit: quantity.unit_type === 'mass' ? 'g' : 'ml',
+    unit_type: quantity.unit_type,
+  };
+}
+
+/**
+ * Express base-unit amounts of 1000 g / ml or more in kg / l
+ */
+export function fromBaseUnit(value: number, unit?: string): { value: number; unit?: string } {
+  if (value >= 1000 && (unit === 'g' || unit === 'ml')) {
+    return { value: roundQuantity(value / 1000), unit: unit === 'g' ? 'kg' : 'l' };
+  }
+
+  return { value, unit };
+}
+
+/**
+ * Render a quantity amount ("2", "1.5", "2-3")
+ */
+export function formatAmount(quantity: ParsedQuantity): string {
+  return quantity.max_value !== undefined
+    ? `${quantity.value}-${quantity.max_value}`
+    : `${quantity.value}`;
+}
+
+export function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Attach the structured quantity to an ingredient, keeping the raw text
+ */
+export function withParsedQuantity(ingredient: RecipeIngredient): RecipeIngredient {
+  const { parsed_quantity, ...rest } = ingredient;
+  const parsed = parseQuantity(ingredient.quantity, ingredient.unit);
+
+  return parsed ? { ...rest, parsed_quantity: parsed } : rest;
+}
+
+/**
+ * Rescale ingredients by a servings factor.
+ * Measurable quantities are rewritten as number + unit (the unit keeps the recipe's wording);
+ * the rest ("vừa đủ") are left as they are.
+ */
+export function scaleIngredients(ingredients: RecipeIngredient[], factor: number): RecipeIngredient[] {
+  return ingredients.map(ingredient => {
+    const { parsed_quantity, ...rest } = ingredient;
+    const split = splitQuantity(ingredient.quantity, ingredient.unit);
+    const parsed = parseQuantity(ingredient.quantity, ingredient.unit);
+
+    if (!split || !parsed) {
+      return { ...rest };
+    }
+
+    const scaled = scaleQuantity(parsed, factor);
+
+    return {
+      ...rest,
+      quantity: formatAmount(scaled),
+      unit: split.unitText || undefined,
+      parsed_quantity: scaled,
+    };
+  });
+}
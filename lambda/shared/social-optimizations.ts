@@ -3,7 +3,7 @@
  * Task 18.2: Optimize social queries and performance
  * 
  * Implements:
- * - Feed query optimization with GSI3
+ * - Feed query from fan-out-on-write timelines merged with the public feed
  * - Friend list caching
  * - Pagination for posts, comments, and notifications
  * - Sparse index optimization for unread notifications
@@ -17,6 +17,7 @@ import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
 import { logger } from './logger';
 import { getCache, CACHE_TTL } from './cache-service';
 import { getPerformanceMetrics } from './performance-metrics';
+import { TimelineService } from './timeline';
 
 export interface PaginationOptions {
   limit?: number;
@@ -49,8 +50,10 @@ export class SocialOptimizations {
   }
 
   /**
-   * Optimized feed query using GSI3 with efficient pagination
-   * Combines public posts and friends' posts in a single query
+   * Optimized feed query: one page of the user's fan-out-on-write timeline merged with
+   * the public feed
+   * Friends' public and friends-only posts are written to the timeline when created, so no
+   * per-friend queries are needed
    */
   async getFeedOptimized(
     userId: string,
@@ -60,56 +63,32 @@ export class SocialOptimizations {
     const { limit = 20, nextToken } = options;
 
     try {
-      // Get cached friend list to reduce DynamoDB reads
-      const friendIds = await this.getCachedFriendList(userId);
-      
-      // Build GSI3 query for feed
-      // GSI3PK patterns: FEED#PUBLIC (public posts) and FEED#<user_id> (user's posts)
-      const feedKeys = [
-        'FEED#PUBLIC',
-        ...friendIds.map(friendId => `FEED#${friendId}`),
-        `FEED#${userId}` // Include own posts
-      ];
-
-      // Use parallel queries for better performance
-      const queryPromises = feedKeys.map(feedKey =>
-        this.queryFeedByKey(feedKey, Math.ceil(limit / feedKeys.length), nextToken)
-      );
-
-      const results = await Promise.all(queryPromises);
-      
-      // Merge and sort results by created_at (newest first)
-      const allPosts = results.flatMap(r => r.items);
-      const sortedPosts = allPosts
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-        .slice(0, limit);
+      const lastKey = nextToken ? this.decodeNextToken(nextToken) : undefined;
+      const before = typeof lastKey?.before?.created_at === 'string' && typeof lastKey?.before?.post_id === 'string'
+        ? lastKey.before
+        : undefined;
+      const page = await TimelineService.getHomeFeedPage(userId, limit, before);
 
-      // Generate next token if there are more results
-      const hasMore = results.some(r => r.nextToken);
-      const responseNextToken = hasMore ? this.encodeNextToken(results) : undefined;
-
-      const duration = timer.stop({ postCount: sortedPosts.length, friendCount: friendIds.length });
+      const duration = timer.stop({ postCount: page.posts.length });
 
       await this.metrics.recordDatabaseMetrics({
         operation: 'social_feed_query',
         queryTime: duration,
-        itemCount: sortedPosts.length,
-        indexUsed: 'GSI3',
-        filterApplied: true
+        itemCount: page.posts.length,
+        indexUsed: 'TIMELINE',
+        filterApplied: false
       });
 
       logger.info('Optimized feed query completed', {
         userId,
-        postCount: sortedPosts.length,
-        friendCount: friendIds.length,
-        duration,
-        cached: true
+        postCount: page.posts.length,
+        duration
       });
 
       return {
-        items: sortedPosts,
-        nextToken: responseNextToken,
-        count: sortedPosts.length
+        items: page.posts,
+        nextToken: page.hasMore && page.oldest ? this.encodeNextToken({ before: page.oldest }) : undefined,
+        count: page.posts.length
       };
 
     } catch (error) {
@@ -123,46 +102,6 @@ export class SocialOptimizations {
     }
   }
 
-  /**
-   * Query feed by GSI3 key with pagination
-   */
-  private async queryFeedByKey(
-    feedKey: string,
-    limit: number,
-    nextToken?: string
-  ): Promise<PaginatedResponse<any>> {
-    try {
-      const exclusiveStartKey = nextToken ? this.decodeNextToken(nextToken) : undefined;
-
-      const response = await this.client.send(new QueryCommand({
-        TableName: this.tableName,
-        IndexName: 'GSI3',
-        KeyConditionExpression: 'GSI3PK = :feedKey',
-        ExpressionAttributeValues: marshall({
-          ':feedKey': feedKey
-        }),
-        Limit: limit,
-        ScanIndexForward: false, // Newest first
-        ExclusiveStartKey: exclusiveStartKey
-      }));
-
-      const items = response.Items?.map(item => unmarshall(item)) || [];
-
-      return {
-        items,
-        nextToken: response.LastEvaluatedKey ? JSON.stringify(response.LastEvaluatedKey) : undefined,
-        count: items.length
-      };
-
-    } catch (error) {
-      logger.error('Feed key query failed', {
-        feedKey,
-        error: (error as Error).message
-      });
-      return { items: [], count: 0 };
-    }
-  }
-
   /**
    * Get cached friend list to reduce DynamoDB reads
    * Cache TTL: 15 minutes
@@ -490,12 +429,8 @@ export class SocialOptimizations {
   /**
    * Encode pagination token
    */
-  private encodeNextToken(results: any[]): string {
-    const lastKeys = results
-      .filter(r => r.nextToken)
-      .map(r => r.nextToken);
-    
-    return Buffer.from(JSON.stringify(lastKeys)).toString('base64');
+  private encodeNextToken(lastKey: any): string {
+    return Buffer.from(JSON.stringify(lastKey)).toString('base64');
   }
 
   /**
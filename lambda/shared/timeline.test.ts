@@ -0,0 +1,211 @@
+/**
+ * Unit tests for fan-out-on-write timelines
+ */
+
+import { TimelineService } from './timeline';
+import { DynamoDBHelper } from './dynamodb';
+import { UserSearchService } from './user-search';
+
+jest.mock('./dynamodb');
+jest.mock('./user-search');
+jest.mock('./logger');
+
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+const mockGetAcceptedFriendIds = UserSearchService.getAcceptedFriendIds as jest.MockedFunction<
+  typeof UserSearchService.getAcceptedFriendIds
+>;
+
+const post = (id: string, overrides: any = {}) => ({
+  post_id: id,
+  user_id: 'user-alice',
+  created_at: '2025-01-01T00:00:00.000Z',
+  privacy: 'public' as const,
+  is_public: true,
+  ...overrides,
+});
+
+// Timeline keys written across all batchWrite calls
+const writtenKeys = (type: 'PutRequest' | 'DeleteRequest') =>
+  mockDynamoDBHelper.batchWrite.mock.calls
+    .flatMap(([requests]) => requests)
+    .filter((request: any) => request[type])
+    .map((request: any) => (type === 'PutRequest' ? request.PutRequest.Item : request.DeleteRequest.Key))
+    .map((key: any) => `${key.PK}|${key.SK}`);
+
+describe('TimelineService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDynamoDBHelper.batchWrite.mockResolvedValue(undefined as any);
+    mockGetAcceptedFriendIds.mockResolvedValue(['user-bob', 'user-carol']);
+  });
+
+  describe('fanOutPost', () => {
+    it('should write shared posts to the author and every friend', async () => {
+      await TimelineService.fanOutPost(post('post-1', { privacy: 'friends' }));
+
+      expect(writtenKeys('PutRequest')).toEqual([
+        'TIMELINE#user-alice|POST#2025-01-01T00:00:00.000Z#post-1',
+        'TIMELINE#user-bob|POST#2025-01-01T00:00:00.000Z#post-1',
+        'TIMELINE#user-carol|POST#2025-01-01T00:00:00.000Z#post-1',
+      ]);
+      expect(mockDynamoDBHelper.batchWrite.mock.calls[0][0][1]).toEqual({
+        PutRequest: {
+          Item: expect.objectContaining({ entity_type: 'TIMELINE_ENTRY', post_id: 'post-1', author_id: 'user-alice' }),
+        },
+      });
+    });
+
+    it('should write private posts only to the author', async () => {
+      await TimelineService.fanOutPost(post('post-1', { privacy: 'private', is_public: false }));
+
+      expect(mockGetAcceptedFriendIds).not.toHaveBeenCalled();
+      expect(writtenKeys('PutRequest')).toEqual(['TIMELINE#user-alice|POST#2025-01-01T00:00:00.000Z#post-1']);
+    });
+
+    it('should write in batches of 25 and not throw on failure', async () => {
+      mockGetAcceptedFriendIds.mockResolvedValue(Array.from({ length: 30 }, (_, i) => `friend-${i}`));
+
+      await TimelineService.fanOutPost(post('post-1'));
+      expect(mockDynamoDBHelper.batchWrite.mock.calls.map(([requests]) => requests.length)).toEqual([25, 6]);
+
+      mockDynamoDBHelper.batchWrite.mockRejectedValue(new Error('Throttled'));
+      await expect(TimelineService.fanOutPost(post('post-2'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('friendships', () => {
+    it('should backfill each friend\'s recent shared posts into the other\'s timeline', async () => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({ Items: [post('bob-1', { user_id: 'user-bob' }), post('bob-2', { user_id: 'user-bob', privacy: 'private' })], Count: 2, LastEvaluatedKey: undefined })
+        .mockResolvedValueOnce({ Items: [post('alice-1', { privacy: undefined, is_public: true })], Count: 1, LastEvaluatedKey: undefined });
+
+      await TimelineService.backfillFriendship('user-alice', 'user-bob');
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI1',
+        ExpressionAttributeValues: { ':pk': 'USER#user-bob', ':sk': 'POST#' },
+        Limit: 50,
+      }));
+      expect(writtenKeys('PutRequest')).toEqual([
+        'TIMELINE#user-alice|POST#2025-01-01T00:00:00.000Z#bob-1',
+        'TIMELINE#user-bob|POST#2025-01-01T00:00:00.000Z#alice-1',
+      ]);
+    });
+
+    it('should remove all of each former friend\'s posts from the other\'s timeline', async () => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({ Items: [post('bob-1', { user_id: 'user-bob' })], Count: 1, LastEvaluatedKey: { PK: 'page' } })
+        .mockResolvedValueOnce({ Items: [post('bob-2', { user_id: 'user-bob', privacy: 'private' })], Count: 1, LastEvaluatedKey: undefined })
+        .mockResolvedValueOnce({ Items: [], Count: 0, LastEvaluatedKey: undefined });
+
+      await TimelineService.removeFriendship('user-alice', 'user-bob');
+
+      expect(writtenKeys('DeleteRequest')).toEqual([
+        'TIMELINE#user-alice|POST#2025-01-01T00:00:00.000Z#bob-1',
+        'TIMELINE#user-alice|POST#2025-01-01T00:00:00.000Z#bob-2',
+      ]);
+    });
+  });
+
+  describe('removePost', () => {
+    it('should delete the post from the author\'s and friends\' timelines', async () => {
+      await TimelineService.removePost(post('post-1'));
+
+      expect(writtenKeys('DeleteRequest')).toEqual([
+        'TIMELINE#user-alice|POST#2025-01-01T00:00:00.000Z#post-1',
+        'TIMELINE#user-bob|POST#2025-01-01T00:00:00.000Z#post-1',
+        'TIMELINE#user-carol|POST#2025-01-01T00:00:00.000Z#post-1',
+      ]);
+    });
+  });
+
+  describe('getHomeFeedPage', () => {
+    const entry = (id: string, createdAt: string) => ({ post_id: id, author_id: 'user-bob', created_at: createdAt });
+    const publicPost = (id: string, createdAt: string) => post(id, { user_id: 'user-dave', created_at: createdAt });
+
+    // The timeline is queried first, then the public feed
+    const mockSources = (timeline: any, publicFeed: any) => {
+      mockDynamoDBHelper.query
+        .mockResolvedValueOnce({ Count: timeline.Items.length, ...timeline })
+        .mockResolvedValueOnce({ Count: publicFeed.Items.length, ...publicFeed });
+    };
+
+    it('should merge the timeline with public posts, newest first and without duplicates', async () => {
+      mockSources(
+        {
+          Items: [
+            entry('post-3', '2025-01-03T00:00:00.000Z'),
+            entry('post-gone', '2025-01-02T12:00:00.000Z'),
+            entry('post-1', '2025-01-01T00:00:00.000Z'),
+          ],
+        },
+        { Items: [publicPost('post-2', '2025-01-02T00:00:00.000Z'), publicPost('post-1', '2025-01-01T00:00:00.000Z')] }
+      );
+      mockDynamoDBHelper.batchGet.mockResolvedValueOnce([post('post-3', { user_id: 'user-bob' })]);
+
+      const page = await TimelineService.getHomeFeedPage('user-alice', 10);
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        ExpressionAttributeValues: { ':pk': 'TIMELINE#user-alice', ':sk': 'POST#' },
+        ScanIndexForward: false,
+        Limit: 10,
+      }));
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI3',
+        ExpressionAttributeValues: { ':pk': 'FEED#PUBLIC' },
+      }));
+      // Posts already in the public feed are not loaded again, deleted posts are skipped
+      expect(mockDynamoDBHelper.batchGet).toHaveBeenCalledWith([
+        { PK: 'POST#post-3', SK: 'METADATA' },
+        { PK: 'POST#post-gone', SK: 'METADATA' },
+      ]);
+      expect(page.posts.map(p => p.post_id)).toEqual(['post-3', 'post-2', 'post-1']);
+      expect(page.oldest).toEqual({ created_at: '2025-01-01T00:00:00.000Z', post_id: 'post-1' });
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should cut the page where a source stopped at the limit', async () => {
+      mockSources(
+        {
+          Items: [entry('post-4', '2025-01-04T00:00:00.000Z'), entry('post-3', '2025-01-03T00:00:00.000Z')],
+          LastEvaluatedKey: { PK: 'TIMELINE#user-alice', SK: 'POST#2025-01-03T00:00:00.000Z#post-3' },
+        },
+        { Items: [publicPost('post-1', '2025-01-01T00:00:00.000Z')] }
+      );
+      mockDynamoDBHelper.batchGet.mockResolvedValueOnce([post('post-4'), post('post-3')]);
+
+      const page = await TimelineService.getHomeFeedPage('user-alice', 2);
+
+      // post-1 waits for the next page, after the older timeline entries it has not reached
+      expect(page.posts.map(p => p.post_id)).toEqual(['post-4', 'post-3']);
+      expect(page.oldest).toEqual({ created_at: '2025-01-03T00:00:00.000Z', post_id: 'post-3' });
+      expect(page.hasMore).toBe(true);
+    });
+
+    it('should continue from the position of the last post shown', async () => {
+      const before = { created_at: '2025-01-03T00:00:00.000Z', post_id: 'post-3' };
+      mockSources(
+        { Items: [entry('post-3', '2025-01-03T00:00:00.000Z'), entry('post-2', '2025-01-02T00:00:00.000Z')] },
+        { Items: [publicPost('post-1', '2025-01-01T00:00:00.000Z')] }
+      );
+      mockDynamoDBHelper.batchGet.mockResolvedValueOnce([post('post-2')]);
+
+      const page = await TimelineService.getHomeFeedPage('user-alice', 2, before);
+
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'PK = :pk AND SK BETWEEN :sk AND :before',
+        ExpressionAttributeValues: {
+          ':pk': 'TIMELINE#user-alice',
+          ':sk': 'POST#',
+          ':before': 'POST#2025-01-03T00:00:00.000Z#post-3',
+        },
+        Limit: 3,
+      }));
+      expect(mockDynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'GSI3PK = :pk AND GSI3SK <= :before',
+        ExpressionAttributeValues: { ':pk': 'FEED#PUBLIC', ':before': 'POST#2025-01-03T00:00:00.000Z' },
+      }));
+      expect(page.posts.map(p => p.post_id)).toEqual(['post-2', 'post-1']);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Timeline Service
+ * Fan-out-on-write home timelines for the social feed
+ *
+ * Each user has a TIMELINE#userId partition with one TIMELINE_ENTRY per post they should
+ * see (SK: POST#created_at#postId): their own posts, and their friends' public and
+ * friends-only posts. Entries are written when a post is created, backfilled when a
+ * friendship is accepted and removed on unfriend or post delete. The home feed merges the
+ * timeline with the public feed (GSI3 FEED#PUBLIC) so public posts from non-friends show too.
+ */
+
+import { DynamoDBHelper } from './dynamodb';
+import { logger } from './logger';
+import { UserSearchService } from './user-search';
+
+const BATCH_WRITE_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+const BACKFILL_POST_LIMIT = 50; // Most recent posts copied into a new friend's timeline
+
+export interface TimelinePost {
+  post_id: string;
+  user_id: string;
+  created_at: string;
+  is_public?: boolean;
+  privacy?: 'public' | 'friends' | 'private';
+}
+
+export interface TimelineEntry {
+  post_id: string;
+  author_id: string;
+  created_at: string;
+}
+
+// Where a post sits in the feed; pages continue from the position of the last post shown
+export interface FeedPosition {
+  created_at: string;
+  post_id: string;
+}
+
+export interface HomeFeedPage {
+  posts: any[]; // Newest first, all older than the `before` position that was read from
+  oldest?: FeedPosition; // Oldest position the page covers, including skipped posts
+  hasMore: boolean;
+}
+
+type WriteRequest = { PutRequest?: { Item: any }; DeleteRequest?: { Key: any } };
+
+export class TimelineService {
+  /**
+   * Whether a post goes to the author's friends, not just the author
+   * Posts written before the privacy field existed fall back to is_public
+   */
+  static isSharedWithFriends(post: TimelinePost): boolean {
+    return post.privacy ? post.privacy !== 'private' : post.is_public === true;
+  }
+
+  /**
+   * Write a new post to its author's timeline and, unless private, to every friend's
+   * Never throws: the post is already saved, and a missed entry only hides it from a feed
+   */
+  static async fanOutPost(post: TimelinePost): Promise<void> {
+    try {
+      const friendIds = this.isSharedWithFriends(post)
+        ? await UserSearchService.getAcceptedFriendIds(post.user_id)
+        : [];
+
+      await this.batchWrite(
+        [post.user_id, ...friendIds].map(userId => ({ PutRequest: { Item: this.buildEntry(userId, post) } }))
+      );
+
+      logger.info('Post fanned out to timelines', { postId: post.post_id, timelineCount: friendIds.length + 1 });
+    } catch (error) {
+      logger.error('Failed to fan out post', error, { postId: post.post_id });
+    }
+  }
+
+  /**
+   * Add or remove a post in friends' timelines after its privacy changed
+   */
+  static async updatePostVisibility(post: TimelinePost): Promise<void> {
+    try {
+      const friendIds = await UserSearchService.getAcceptedFriendIds(post.user_id);
+      const shared = this.isSharedWithFriends(post);
+
+      await this.batchWrite(
+        friendIds.map(friendId => shared
+          ? { PutRequest: { Item: this.buildEntry(friendId, post) } }
+          : { DeleteRequest: { Key: this.buildKey(friendId, post) } })
+      );
+    } catch (error) {
+      logger.error('Failed to update post visibility in timelines', error, { postId: post.post_id });
+    }
+  }
+
+  /**
+   * Remove a deleted post from its author's and friends' timelines
+   */
+  static async removePost(post: TimelinePost): Promise<void> {
+    try {
+      const friendIds = await UserSearchService.getAcceptedFriendIds(post.user_id);
+
+      await this.batchWrite(
+        [post.user_id, ...friendIds].map(userId => ({ DeleteRequest: { Key: this.buildKey(userId, post) } }))
+      );
+    } catch (error) {
+      logger.error('Failed to remove post from timelines', error, { postId: post.post_id });
+    }
+  }
+
+  /**
+   * Copy each new friend's recent shared posts into the other's timeline
+   */
+  static async backfillFriendship(userId: string, friendId: string): Promise<void> {
+    try {
+      for (const [ownerId, authorId] of [[userId, friendId], [friendId, userId]]) {
+        const posts = await this.getAuthorPosts(authorId, BACKFILL_POST_LIMIT);
+
+        await this.batchWrite(
+          posts
+            .filter(post => this.isSharedWithFriends(post))
+            .map(post => ({ PutRequest: { Item: this.buildEntry(ownerId, post) } }))
+        );
+      }
+    } catch (error) {
+      logger.error('Failed to backfill timelines for friendship', error, { userId, friendId });
+    }
+  }
+
+  /**
+   * Remove each former friend's posts from the other's timeline
+   */
+  static async removeFriendship(userId: string, friendId: string): Promise<void> {
+    try {
+      for (const [ownerId, authorId] of [[userId, friendId], [friendId, userId]]) {
+        const posts = await this.getAuthorPosts(authorId);
+
+        await this.batchWrite(posts.map(post => ({ DeleteRequest: { Key: this.buildKey(ownerId, post) } })));
+      }
+    } catch (error) {
+      logger.error('Failed to clean up timelines for removed friendship', error, { userId, friendId });
+    }
+  }
+
+  /**
+   * Read the next stretch of a user's home feed, newest first: their timeline merged with the
+   * public feed, without duplicates
+   * Both sources are read from `before`. When one of them stops at the limit the page is cut at
+   * its oldest post, since the other source may hold older posts it has not reached yet.
+   * Posts deleted since their timeline entry was written are skipped.
+   */
+  static async getHomeFeedPage(userId: string, limit: number, before?: FeedPosition): Promise<HomeFeedPage> {
+    const boundary = before && this.positionKey(before);
+    // Key conditions are inclusive, so read one more to still get `limit` newer posts
+    const readLimit = boundary ? limit + 1 : limit;
+
+    const [timeline, publicFeed] = await Promise.all([
+      DynamoDBHelper.query({
+        KeyConditionExpression: boundary
+          ? 'PK = :pk AND SK BETWEEN :sk AND :before'
+          : 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `TIMELINE#${userId}`,
+          ':sk': 'POST#',
+          ...(boundary && { ':before': `POST#${boundary}` }),
+        },
+        ScanIndexForward: false,
+        Limit: readLimit,
+      }),
+      DynamoDBHelper.query({
+        IndexName: 'GSI3',
+        KeyConditionExpression: before ? 'GSI3PK = :pk AND GSI3SK <= :before' : 'GSI3PK = :pk',
+        ExpressionAttributeValues: {
+          ':pk': 'FEED#PUBLIC',
+          ...(before && { ':before': `POST#${before.created_at}` }),
+        },
+        ScanIndexForward: false,
+        Limit: readLimit,
+      }),
+    ]);
+
+    const isNewer = (position: FeedPosition) => !boundary || this.positionKey(position) < boundary;
+    const timelineEntries: FeedPosition[] = timeline.Items
+      .map(item => ({ post_id: item.post_id, created_at: item.created_at }))
+      .filter(isNewer);
+    const publicPosts = (publicFeed.Items as Array<FeedPosition & Record<string, any>>).filter(isNewer);
+
+    const cuts: string[] = [];
+    if (timeline.LastEvaluatedKey && timelineEntries.length > 0) {
+      cuts.push(this.positionKey(timelineEntries[timelineEntries.length - 1]));
+    }
+    if (publicFeed.LastEvaluatedKey && publicPosts.length > 0) {
+      cuts.push(this.positionKey(publicPosts[publicPosts.length - 1]));
+    }
+    const cut = cuts.sort().pop();
+
+    // Public items are full posts; timeline entries still need their post loaded
+    const candidates = new Map<string, FeedPosition & { item?: any }>();
+    timelineEntries.forEach(entry => candidates.set(entry.post_id, entry));
+    publicPosts.forEach(item => candidates.set(item.post_id, { post_id: item.post_id, created_at: item.created_at, item }));
+
+    const page = [...candidates.values()]
+      .filter(candidate => !cut || this.positionKey(candidate) >= cut)
+      .sort((a, b) => this.positionKey(b).localeCompare(this.positionKey(a)));
+
+    const loaded = new Map<string, any>();
+    const toLoad = page.filter(candidate => !candidate.item);
+    for (let i = 0; i < toLoad.length; i += BATCH_GET_SIZE) {
+      const items = await DynamoDBHelper.batchGet(
+        toLoad.slice(i, i + BATCH_GET_SIZE).map(candidate => ({ PK: `POST#${candidate.post_id}`, SK: 'METADATA' }))
+      );
+      items.forEach(item => loaded.set(item.post_id, item));
+    }
+
+    const oldest = page[page.length - 1];
+    return {
+      posts: page.map(candidate => candidate.item || loaded.get(candidate.post_id)).filter(Boolean),
+      ...(oldest && { oldest: { created_at: oldest.created_at, post_id: oldest.post_id } }),
+      hasMore: !!(timeline.LastEvaluatedKey || publicFeed.LastEvaluatedKey),
+    };
+  }
+
+  private static positionKey(position: FeedPosition): string {
+    return `${position.created_at}#${position.post_id}`;
+  }
+
+  private static buildKey(userId: string, post: TimelinePost) {
+    return {
+      PK: `TIMELINE#${userId}`,
+      SK: `POST#${post.created_at}#${post.post_id}`,
+    };
+  }
+
+  private static buildEntry(userId: string, post: TimelinePost) {
+    return {
+      ...this.buildKey(userId, post),
+      entity_type: 'TIMELINE_ENTRY',
+      post_id: post.post_id,
+      author_id: post.user_id,
+      created_at: post.created_at,
+    };
+  }
+
+  /**
+   * An author's posts, newest first (all of them when no limit is given)
+   */
+  private static async getAuthorPosts(authorId: string, limit?: number): Promise<TimelinePost[]> {
+    const posts: TimelinePost[] = [];
+    let exclusiveStartKey: any;
+
+    do {
+      const result = await DynamoDBHelper.query({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'GSI1PK = :pk AND begins_with(GSI1SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${authorId}`,
+          ':sk': 'POST#',
+        },
+        ScanIndexForward: false,
+        Limit: limit,
+        ExclusiveStartKey: exclusiveStartKey,
+      });
+      posts.push(...(result.Items as TimelinePost[]));
+      exclusiveStartKey = limit ? undefined : result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return posts;
+  }
+
+  private static async batchWrite(writes: WriteRequest[]): Promise<void> {
+    for (let i = 0; i < writes.length; i += BATCH_WRITE_SIZE) {
+      await DynamoDBHelper.batchWrite(writes.slice(i, i + BATCH_WRITE_SIZE));
+    }
+  }
+}
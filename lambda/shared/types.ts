@@ -79,6 +79,45 @@ export interface MasterIngredient {
   category: string;
   aliases: string[];
   is_active: boolean;
+  nutrition_per_100g?: NutrientValues;
+  grams_per_unit?: { [unit: string]: number }; // Weight of one count unit ("quả", "tép"); "each" for a bare count
+  grams_per_ml?: number; // Density for volume quantities, defaults to 1
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NutrientValues {
+  calories: number; // kcal
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+  fiber_g?: number;
+  sodium_mg?: number;
+}
+
+export interface NutritionDiscrepancy {
+  nutrient: 'calories' | 'protein' | 'carbs' | 'fat';
+  reported: number;
+  computed: number;
+}
+
+export interface ComputedNutrition {
+  per_serving: NutrientValues;
+  coverage: number; // Share of required ingredients that could be quantified (0-1)
+  missing_ingredients: string[]; // No nutrient data or no measurable quantity
+  discrepancies?: NutritionDiscrepancy[]; // Reported nutrition that disagrees strongly with the computed values
+}
+
+export interface PantryItem {
+  pantry_item_id: string;
+  user_id: string;
+  ingredient_id: string; // MasterIngredient reference
+  ingredient_name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  purchase_date?: string; // YYYY-MM-DD
+  expiry_date?: string; // YYYY-MM-DD
   created_at: string;
   updated_at: string;
 }
@@ -97,6 +136,7 @@ export interface Recipe {
   ingredients: RecipeIngredient[];
   instructions: RecipeInstruction[];
   nutritional_info?: NutritionalInfo;
+  computed_nutrition?: ComputedNutrition; // Calculated from master ingredient data
   is_public: boolean;
   is_ai_generated: boolean;
   is_approved: boolean;
@@ -106,6 +146,17 @@ export interface Recipe {
   created_at: string;
   updated_at: string;
   approved_at?: string;
+  is_hidden?: boolean; // Hidden after reports, visible to its owner only
+  expiring_ingredients_used?: string[]; // Set in use-it-up mode
+}
+
+export type QuantityUnitType = 'mass' | 'volume' | 'count';
+
+export interface ParsedQuantity {
+  value: number; // Lower bound for ranges ("2-3")
+  max_value?: number; // Upper bound for ranges
+  unit?: string; // Canonical unit (g, kg, ml, tbsp...) for mass/volume, otherwise as written (quả, tép)
+  unit_type: QuantityUnitType;
 }
 
 export interface RecipeIngredient {
@@ -114,6 +165,7 @@ export interface RecipeIngredient {
   unit?: string;
   preparation?: string;
   is_optional?: boolean;
+  parsed_quantity?: ParsedQuantity; // Structured form of quantity + unit, when measurable
 }
 
 export interface RecipeInstruction {
@@ -145,6 +197,53 @@ export interface CookingHistory {
   updated_at: string;
 }
 
+export type MealType = 'breakfast' | 'lunch' | 'dinner';
+
+export interface MealPlanSlot {
+  slot_id: string; // <date>_<meal_type>
+  date: string; // YYYY-MM-DD
+  meal_type: MealType;
+  recipe: Recipe | null; // Snapshot, so AI recipes stay available to the plan
+  servings: number;
+  is_locked: boolean; // Locked slots survive regeneration
+}
+
+export interface MealPlan {
+  plan_id: string;
+  user_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;
+  meal_types: MealType[];
+  slots: MealPlanSlot[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShoppingListItem {
+  item_id: string;
+  ingredient_id?: string; // MasterIngredient reference when the name resolves
+  ingredient_name: string;
+  category: string; // MasterIngredient category, 'other' when unknown
+  quantity?: number; // Summed numeric quantity (after pantry subtraction)
+  unit?: string;
+  quantity_notes: string[]; // Non-numeric quantities, e.g. "to taste"
+  recipes: Array<{ recipe_id: string; title: string }>;
+  pantry_quantity?: number; // Amount already in the pantry when it could not be subtracted
+  pantry_unit?: string;
+  is_checked: boolean;
+}
+
+export interface ShoppingList {
+  list_id: string;
+  user_id: string;
+  name: string;
+  recipe_ids: string[];
+  meal_plan_id?: string;
+  items: ShoppingListItem[];
+  created_at: string;
+  updated_at: string;
+}
+
 export interface RecipeRating {
   rating_id: string;
   recipe_id: string;
@@ -185,6 +284,15 @@ export interface ValidationWarning {
 export interface AISuggestionRequest {
   ingredients: string[];
   recipe_count: number; // 1-5
+  use_pantry?: boolean; // Merge unexpired pantry items into ingredients
+  use_it_up?: boolean; // Rank recipes by how many soon-to-expire items they use
+  ingredient_expiry?: { [ingredient: string]: string }; // YYYY-MM-DD, supplements pantry expiry dates
+}
+
+export interface ExpiringIngredient {
+  ingredient_name: string;
+  expiry_date: string; // YYYY-MM-DD
+  days_until_expiry: number;
 }
 
 export interface AISuggestionResponse {
@@ -195,8 +303,15 @@ export interface AISuggestionResponse {
     from_ai: number;
   };
   warnings: ValidationWarning[];
+  expiring_ingredients?: ExpiringIngredient[]; // At-risk items considered in use-it-up mode
 }
 
+// Newline-delimited messages of the streaming suggestion endpoint
+export type AISuggestionStreamMessage =
+  | { type: 'recipe'; source: 'database' | 'ai'; recipe: Recipe } // As soon as each recipe is available
+  | ({ type: 'complete'; suggestion_id: string } & AISuggestionResponse) // Final ranking and stats
+  | { type: 'error'; status_code: number; error: string };
+
 export interface ValidationRequest {
   ingredients: string[];
 }
@@ -213,8 +328,9 @@ export interface IngredientSearchResult {
   normalized_name: string;
   category: string;
   aliases: string[];
-  match_type: 'exact' | 'alias' | 'fuzzy';
+  match_type: 'exact' | 'alias' | 'prefix' | 'fuzzy';
   match_score: number;
+  popularity?: number; // usage_count, set by autocomplete
 }
 
 export interface IngredientSearchOptions {
@@ -279,6 +395,17 @@ export interface FriendProfile {
   responded_at?: string;
 }
 
+// User search types
+export interface UserSearchResult {
+  user_id: string;
+  username: string;
+  full_name?: string;
+  avatar_url?: string;
+  friendship_status: FriendshipStatus | 'none'; // From the viewer's side
+  is_friend: boolean;
+  mutual_friends_count: number;
+}
+
 // Notification types
 export type NotificationType = 
   | 'friend_request' 
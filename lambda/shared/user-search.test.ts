@@ -0,0 +1,161 @@
+/**
+ * Unit tests for user search
+ */
+
+import { UserSearchService } from './user-search';
+import { DynamoDBHelper } from './dynamodb';
+
+jest.mock('./dynamodb');
+
+const profiles: { [userId: string]: any } = {
+  viewer: { user_id: 'viewer', username: 'viewer', full_name: 'Người Xem' },
+  an: { user_id: 'an', username: 'an_nguyen', full_name: 'Nguyễn Văn An' },
+  anh: { user_id: 'anh', username: 'anhtran', full_name: 'Trần Anh' },
+  hidden: { user_id: 'hidden', username: 'an_hidden', full_name: 'Ẩn Danh' },
+  blocked: { user_id: 'blocked', username: 'an_blocked', full_name: 'Bị Chặn' }
+};
+
+// Key -> item, for DynamoDBHelper.batchGet
+const items: { [key: string]: any } = {
+  'USER#hidden|PRIVACY': { PK: 'USER#hidden', SK: 'PRIVACY', profile_visibility: 'private' },
+  ...Object.fromEntries(Object.values(profiles).map(profile => [
+    `USER#${profile.user_id}|PROFILE`,
+    { PK: `USER#${profile.user_id}`, SK: 'PROFILE', ...profile }
+  ]))
+};
+
+// Friendship records per user, for the FRIEND# partition queries
+const friendships: { [userId: string]: { [friendId: string]: string } } = {
+  viewer: { anh: 'accepted', binh: 'accepted', chi: 'accepted', blocked: 'blocked' },
+  an: { binh: 'accepted', chi: 'accepted', dung: 'accepted' },
+  anh: { viewer: 'accepted', binh: 'accepted' }
+};
+
+describe('UserSearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    (DynamoDBHelper.batchGet as jest.Mock).mockImplementation(async (keys: any[]) =>
+      keys.map(key => items[`${key.PK}|${key.SK}`]).filter(Boolean));
+    (DynamoDBHelper.query as jest.Mock).mockImplementation(async (params: any) => {
+      if (params.IndexName === 'GSI2') {
+        return {
+          Items: [
+            { user_id: 'an', term: 'an nguyen' },
+            { user_id: 'an', term: 'an' },
+            { user_id: 'hidden', term: 'an hidden' },
+            { user_id: 'blocked', term: 'an blocked' },
+            { user_id: 'anh', term: 'anh' },
+            { user_id: 'viewer', term: 'an viewer' }
+          ],
+          Count: 6
+        };
+      }
+
+      const userId = params.ExpressionAttributeValues[':pk'].replace('USER#', '');
+      const wantedStatus = params.ExpressionAttributeValues[':status'];
+      const records = Object.entries(friendships[userId] || {})
+        .filter(([, status]) => !wantedStatus || status === wantedStatus)
+        .map(([friendId, status]) => ({ friend_id: friendId, status }));
+      return { Items: records, Count: records.length };
+    });
+  });
+
+  describe('buildSearchTerms', () => {
+    it('should index the username and every word suffix of the full name without diacritics', () => {
+      expect(UserSearchService.buildSearchTerms({ username: 'An_Nguyen', full_name: 'Nguyễn Văn An' }))
+        .toEqual(['an_nguyen', 'nguyen van an', 'van an', 'an']);
+    });
+  });
+
+  describe('searchUsers', () => {
+    it('should query the index with the normalized prefix', async () => {
+      await UserSearchService.searchUsers('viewer', 'Ân  ', 10);
+
+      expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI2',
+        ExpressionAttributeValues: { ':pk': 'USER#SEARCH', ':sk': 'NAME#an' }
+      }));
+    });
+
+    it('should hide private and blocked users and annotate friendship and mutual friends', async () => {
+      const results = await UserSearchService.searchUsers('viewer', 'an', 10);
+
+      expect(DynamoDBHelper.get).not.toHaveBeenCalled();
+      expect(DynamoDBHelper.getUserProfile).not.toHaveBeenCalled();
+      expect(DynamoDBHelper.batchGet).toHaveBeenCalledWith(['an', 'hidden', 'blocked', 'anh'].map(id => ({ PK: `USER#${id}`, SK: 'PRIVACY' })));
+
+      expect(results).toEqual([
+        {
+          user_id: 'anh',
+          username: 'anhtran',
+          full_name: 'Trần Anh',
+          avatar_url: undefined,
+          friendship_status: 'accepted',
+          is_friend: true,
+          mutual_friends_count: 1
+        },
+        {
+          user_id: 'an',
+          username: 'an_nguyen',
+          full_name: 'Nguyễn Văn An',
+          avatar_url: undefined,
+          friendship_status: 'none',
+          is_friend: false,
+          mutual_friends_count: 2
+        }
+      ]);
+    });
+
+    it('should cap the candidates read from the index', async () => {
+      await UserSearchService.searchUsers('viewer', 'an', 50);
+
+      expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({ IndexName: 'GSI2', Limit: 50 }));
+    });
+
+    it('should skip mutual friend lookups when the viewer has no friends', async () => {
+      const results = await UserSearchService.searchUsers('dung', 'an', 10);
+
+      expect(results.map(result => result.user_id)).toEqual(['an', 'blocked', 'anh', 'viewer']);
+      expect(results.every(result => result.mutual_friends_count === 0)).toBe(true);
+      // The index query and the viewer's own friendships only
+      expect(DynamoDBHelper.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('findByUsernames', () => {
+    it('should match usernames exactly, ignoring full-name terms', async () => {
+      (DynamoDBHelper.batchGet as jest.Mock).mockImplementation(async (keys: any[]) =>
+        keys.map(key => profiles[key.PK.replace('USER#', '')]));
+
+      const result = await UserSearchService.findByUsernames(['AN_NGUYEN', 'an']);
+
+      expect(DynamoDBHelper.query).toHaveBeenCalledWith(expect.objectContaining({
+        KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK = :sk',
+        ExpressionAttributeValues: { ':pk': 'USER#SEARCH', ':sk': 'NAME#an_nguyen' }
+      }));
+      expect(Array.from(result.keys())).toEqual(['an_nguyen']);
+      expect(result.get('an_nguyen')?.user_id).toBe('an');
+    });
+  });
+
+  describe('indexUser', () => {
+    it('should add new terms and remove stale ones', async () => {
+      (DynamoDBHelper.query as jest.Mock).mockResolvedValueOnce({
+        Items: [
+          { PK: 'USER#an', SK: 'SEARCH#an_nguyen', term: 'an_nguyen' },
+          { PK: 'USER#an', SK: 'SEARCH#nguyen an', term: 'nguyen an' }
+        ],
+        Count: 2
+      });
+
+      await UserSearchService.indexUser({ user_id: 'an', username: 'an_nguyen', full_name: 'Văn An' });
+
+      expect(DynamoDBHelper.batchWrite).toHaveBeenCalledWith([
+        { DeleteRequest: { Key: { PK: 'USER#an', SK: 'SEARCH#nguyen an' } } },
+        expect.objectContaining({ PutRequest: { Item: expect.objectContaining({ SK: 'SEARCH#van an', GSI2PK: 'USER#SEARCH', GSI2SK: 'NAME#van an' }) } }),
+        expect.objectContaining({ PutRequest: { Item: expect.objectContaining({ SK: 'SEARCH#an', GSI2SK: 'NAME#an' }) } })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * User Search Service
+ * Username/full-name search for friend discovery and @mentions
+ *
+ * Index: one USER_SEARCH_INDEX item per search term (PK: USER#id, SK: SEARCH#term) on
+ * GSI2 (USER#SEARCH / NAME#term), mirroring the INGREDIENT#SEARCH alias items. Terms are
+ * normalized with IngredientService.normalizeVietnamese, so "nguyen" matches "Nguyễn".
+ */
+
+import { DynamoDBHelper } from './dynamodb';
+import { IngredientService } from './ingredient-service';
+import { hasAccess } from './privacy-middleware';
+import { UserProfile, UserSearchResult, FriendshipStatus } from './types';
+import { logStructured } from './utils';
+
+const USER_SEARCH_PK = 'USER#SEARCH';
+const BATCH_WRITE_SIZE = 25;
+const BATCH_GET_SIZE = 100;
+
+// Several terms can point at the same user, and hidden profiles are dropped afterwards
+const CANDIDATE_MULTIPLIER = 5;
+// Each visible candidate still costs a friend list query for its mutual friend count
+const MAX_CANDIDATES = 50;
+
+export class UserSearchService {
+  /**
+   * Search terms for a user: the username, the full name, and every word suffix of the
+   * full name, so "an" and "van an" both match "Nguyễn Văn An"
+   */
+  static buildSearchTerms(profile: Pick<UserProfile, 'username' | 'full_name'>): string[] {
+    const terms = new Set<string>();
+
+    if (profile.username) {
+      terms.add(IngredientService.normalizeVietnamese(profile.username));
+    }
+
+    const words = IngredientService.normalizeVietnamese(profile.full_name || '').split(/\s+/).filter(Boolean);
+    words.forEach((_, index) => terms.add(words.slice(index).join(' ')));
+
+    return Array.from(terms).filter(Boolean);
+  }
+
+  /**
+   * Create or refresh a user's search index items
+   * Never throws: a stale index must not fail the profile write that triggered it
+   */
+  static async indexUser(profile: Pick<UserProfile, 'user_id' | 'username' | 'full_name'>): Promise<void> {
+    try {
+      const terms = this.buildSearchTerms(profile);
+      const existing = await DynamoDBHelper.query({
+        KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${profile.user_id}`,
+          ':sk': 'SEARCH#',
+        },
+      });
+      const existingTerms = new Set<string>(existing.Items.map(item => item.term));
+
+      const writes = [
+        ...existing.Items
+          .filter(item => !terms.includes(item.term))
+          .map(item => ({ DeleteRequest: { Key: { PK: item.PK, SK: item.SK } } })),
+        ...terms
+          .filter(term => !existingTerms.has(term))
+          .map(term => ({
+            PutRequest: {
+              Item: {
+                PK: `USER#${profile.user_id}`,
+                SK: `SEARCH#${term}`,
+                entity_type: 'USER_SEARCH_INDEX',
+                user_id: profile.user_id,
+                term,
+                GSI2PK: USER_SEARCH_PK,
+                GSI2SK: `NAME#${term}`,
+              },
+            },
+          })),
+      ];
+
+      for (let i = 0; i < writes.length; i += BATCH_WRITE_SIZE) {
+        await DynamoDBHelper.batchWrite(writes.slice(i, i + BATCH_WRITE_SIZE));
+      }
+    } catch (error: any) {
+      logStructured('ERROR', 'Failed to index user for search', { userId: profile.user_id, error: error.message });
+    }
+  }
+
+  /**
+   * Prefix search over usernames and full names
+   * Skips the viewer, users whose profile_visibility hides them from the viewer, and
+   * blocked users. Friends come first, then users with more mutual friends.
+   * Profiles and privacy settings are batch read, and the viewer's friendships come from one
+   * query of their own partition (both sides of a friendship or block store a record).
+   */
+  static async searchUsers(viewerId: string, query: string, limit: number = 10): Promise<UserSearchResult[]> {
+    const term = IngredientService.normalizeVietnamese(query).replace(/\s+/g, ' ');
+
+    const matches = await DynamoDBHelper.query({
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'GSI2PK = :pk AND begins_with(GSI2SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': USER_SEARCH_PK,
+        ':sk': `NAME#${term}`,
+      },
+      Limit: Math.min(limit * CANDIDATE_MULTIPLIER, MAX_CANDIDATES),
+    });
+
+    const candidateIds = Array.from(new Set<string>(matches.Items.map(item => item.user_id)))
+      .filter(userId => userId !== viewerId);
+
+    if (candidateIds.length === 0) {
+      return [];
+    }
+
+    const [friendships, profiles, privacyItems] = await Promise.all([
+      this.getFriendshipStatuses(viewerId),
+      this.batchGetUserItems(candidateIds, 'PROFILE'),
+      this.batchGetUserItems(candidateIds, 'PRIVACY'),
+    ]);
+    const viewerFriends = new Set(
+      Array.from(friendships).filter(([, status]) => status === 'accepted').map(([friendId]) => friendId)
+    );
+
+    const visibleIds = candidateIds.filter(userId => {
+      const status = friendships.get(userId);
+      if (!profiles.has(userId) || status === 'blocked') {
+        return false;
+      }
+      // Users without saved settings have a public profile, as in getUserPrivacySettings
+      const visibility = privacyItems.get(userId)?.profile_visibility || 'public';
+      return hasAccess(visibility, { viewerId, targetUserId: userId, isSelf: false, isFriend: status === 'accepted' });
+    });
+
+    const results = await Promise.all(
+      visibleIds.map(userId => this.buildResult(userId, profiles.get(userId), friendships.get(userId) || 'none', viewerFriends))
+    );
+
+    return results
+      .sort((a, b) => Number(b.is_friend) - Number(a.is_friend) || b.mutual_friends_count - a.mutual_friends_count)
+      .slice(0, limit);
+  }
+
+  /**
+   * Look up users by exact username (case-insensitive), keyed by lowercase username
+   * Usernames are indexed as search terms, so each is one query on the same index
+   */
+  static async findByUsernames(usernames: string[]): Promise<Map<string, UserProfile>> {
+    const wanted = new Set(usernames.map(username => username.toLowerCase()));
+
+    const matches = await Promise.all(
+      Array.from(wanted).map(username => DynamoDBHelper.query({
+        IndexName: 'GSI2',
+        KeyConditionExpression: 'GSI2PK = :pk AND GSI2SK = :sk',
+        ExpressionAttributeValues: {
+          ':pk': USER_SEARCH_PK,
+          ':sk': `NAME#${IngredientService.normalizeVietnamese(username)}`,
+        },
+      }))
+    );
+
+    // A term can also be a word of someone's full name, so confirm against the profile
+    const userIds = Array.from(new Set<string>(matches.flatMap(result => result.Items.map(item => item.user_id))));
+    const profiles = new Map<string, UserProfile>();
+
+    for (let i = 0; i < userIds.length; i += BATCH_GET_SIZE) {
+      const items = await DynamoDBHelper.batchGet(
+        userIds.slice(i, i + BATCH_GET_SIZE).map(userId => ({ PK: `USER#${userId}`, SK: 'PROFILE' }))
+      );
+      for (const profile of items as UserProfile[]) {
+        const username = profile.username?.toLowerCase();
+        if (username && wanted.has(username)) {
+          profiles.set(username, profile);
+        }
+      }
+    }
+
+    return profiles;
+  }
+
+  /**
+   * IDs of a user's accepted friends
+   */
+  static async getAcceptedFriendIds(userId: string): Promise<string[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      FilterExpression: '#status = :status',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FRIEND#',
+        ':status': 'accepted',
+      },
+      ExpressionAttributeNames: { '#status': 'status' },
+    });
+
+    return result.Items.map(item => item.friend_id);
+  }
+
+  /**
+   * Status of each of a user's friendships (accepted, pending or blocked), keyed by the other user
+   */
+  private static async getFriendshipStatuses(userId: string): Promise<Map<string, FriendshipStatus>> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'FRIEND#',
+      },
+    });
+
+    return new Map(result.Items.map(item => [item.friend_id, item.status]));
+  }
+
+  /**
+   * Batch read one item (PROFILE, PRIVACY) per user, keyed by user ID
+   */
+  private static async batchGetUserItems(userIds: string[], sortKey: string): Promise<Map<string, any>> {
+    const items = new Map<string, any>();
+
+    for (let i = 0; i < userIds.length; i += BATCH_GET_SIZE) {
+      const page = await DynamoDBHelper.batchGet(
+        userIds.slice(i, i + BATCH_GET_SIZE).map(userId => ({ PK: `USER#${userId}`, SK: sortKey }))
+      );
+      for (const item of page) {
+        items.set(item.PK.replace('USER#', ''), item);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Build a search hit for a user the viewer may see
+   */
+  private static async buildResult(
+    userId: string,
+    profile: UserProfile,
+    friendshipStatus: FriendshipStatus | 'none',
+    viewerFriends: Set<string>
+  ): Promise<UserSearchResult> {
+    // Without friends of their own the viewer has no mutual friends to count
+    const targetFriends = viewerFriends.size > 0 ? await this.getAcceptedFriendIds(userId) : [];
+
+    return {
+      user_id: userId,
+      username: profile.username,
+      full_name: profile.full_name,
+      avatar_url: profile.avatar_url,
+      friendship_status: friendshipStatus,
+      is_friend: friendshipStatus === 'accepted',
+      mutual_friends_count: targetFriends.filter(friendId => viewerFriends.has(friendId)).length,
+    };
+  }
+}
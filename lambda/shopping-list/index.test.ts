@@ -0,0 +1,299 @@
+/**
+ * Unit Tests for Shopping List Lambda
+ */
+
+import { handler } from './index';
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { APIGatewayEvent } from '../shared/types';
+
+// Mock DynamoDB Helper
+jest.mock('../shared/dynamodb');
+const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+
+const mockGetMealPlan = jest.fn();
+jest.mock('../meal-plan/meal-plan-service', () => ({
+  MealPlanService: {
+    getMealPlan: (...args: any[]) => mockGetMealPlan(...args)
+  }
+}));
+
+jest.mock('uuid', () => ({
+  v4: () => 'list-1'
+}));
+
+describe('Shopping List Lambda', () => {
+  const userId = 'user-alice';
+  const listId = 'list-1';
+
+  const createMockEvent = (
+    method: string,
+    path: string,
+    userId: string,
+    body?: any,
+    pathParams?: any,
+    queryParams?: any
+  ): APIGatewayEvent => ({
+    httpMethod: method,
+    path,
+    pathParameters: pathParams || null,
+    queryStringParameters: queryParams || null,
+    headers: {},
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      requestId: 'test-request-id',
+      authorizer: {
+        claims: {
+          sub: userId,
+          email: `${userId}@example.com`,
+          username: userId
+        }
+      }
+    },
+    multiValueHeaders: undefined,
+    multiValueQueryStringParameters: undefined,
+    stageVariables: null,
+    isBase64Encoded: false,
+    resource: path
+  });
+
+  const recipeItem = (id: string, ingredients: any[], overrides: any = {}) => ({
+    PK: `RECIPE#${id}`,
+    SK: 'METADATA',
+    recipe_id: id,
+    user_id: userId,
+    title: `Recipe ${id}`,
+    servings: 2,
+    ingredients,
+    instructions: [],
+    is_public: true,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  });
+
+  const masterIngredients: { [normalized: string]: any } = {
+    'thit ga': { entity_type: 'MASTER_INGREDIENT', ingredient_id: 'ing-ga', name: 'Thịt gà', category: 'meat' },
+    'ca chua': { entity_type: 'MASTER_INGREDIENT', ingredient_id: 'ing-cachua', name: 'Cà chua', category: 'vegetable' },
+    'hanh la': { entity_type: 'INGREDIENT_ALIAS', ingredient_id: 'ing-hanh' },
+    'nuoc mam': { entity_type: 'MASTER_INGREDIENT', ingredient_id: 'ing-nuocmam', name: 'Nước mắm', category: 'seasoning' }
+  };
+
+  const emptyQuery = { Items: [], LastEvaluatedKey: undefined, Count: 0 };
+
+  const storedList = (items: any[]) => ({
+    PK: `USER#${userId}`,
+    SK: `SHOPPING_LIST#${listId}`,
+    entity_type: 'SHOPPING_LIST',
+    list_id: listId,
+    user_id: userId,
+    name: 'Weekend',
+    recipe_ids: ['r1'],
+    items,
+    created_at: '2025-10-01T00:00:00.000Z',
+    updated_at: '2025-10-01T00:00:00.000Z'
+  });
+
+  const line = (overrides: any) => ({
+    item_id: 'item-1',
+    ingredient_name: 'Cà chua',
+    category: 'vegetable',
+    quantity_notes: [],
+    recipes: [{ recipe_id: 'r1', title: 'Recipe r1' }],
+    is_checked: false,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDynamoDBHelper.put.mockResolvedValue({} as any);
+    mockDynamoDBHelper.getUserIngredients.mockResolvedValue(emptyQuery);
+    mockDynamoDBHelper.query.mockImplementation(async (params: any) => {
+      const name = params.ExpressionAttributeValues[':sk'].replace('NAME#', '');
+      const match = masterIngredients[name];
+      return { Items: match ? [match] : [], LastEvaluatedKey: undefined, Count: match ? 1 : 0 };
+    });
+    mockDynamoDBHelper.get.mockImplementation(async (PK: string) =>
+      PK === 'INGREDIENT#ing-hanh'
+        ? { ingredient_id: 'ing-hanh', name: 'Hành lá', category: 'vegetable' }
+        : undefined
+    );
+  });
+
+  describe('Create Shopping List', () => {
+    it('should merge duplicates across recipes and units and group by category', async () => {
+      mockDynamoDBHelper.getRecipe.mockImplementation(async (recipeId: string) => ({
+        r1: recipeItem('r1', [
+          { ingredient_name: 'thịt gà', quantity: '300', unit: 'g' },
+          { ingredient_name: 'cà chua', quantity: '2', unit: 'quả' },
+          { ingredient_name: 'nước mắm', quantity: 'vừa đủ' },
+          { ingredient_name: 'ớt', quantity: '1', unit: 'quả', is_optional: true }
+        ]),
+        r2: recipeItem('r2', [
+          { ingredient_name: 'Thịt gà', quantity: '1/2', unit: 'kg' },
+          { ingredient_name: 'thịt gà', quantity: '200', unit: 'G' },
+          { ingredient_name: 'hành lá', quantity: '1 1/2', unit: 'nhánh' },
+          { ingredient_name: 'rau mùi', quantity: '1', unit: 'bó' }
+        ])
+      } as any)[recipeId]);
+
+      const result = await handler(createMockEvent('POST', '/shopping-lists', userId, {
+        recipe_ids: ['r1', 'r2', 'r1']
+      }));
+
+      expect(result.statusCode).toBe(201);
+      const list = JSON.parse(result.body).data.shopping_list;
+      expect(list.recipe_ids).toEqual(['r1', 'r2']);
+      expect(list.items.map((i: any) => [i.ingredient_name, i.category, i.quantity, i.unit])).toEqual([
+        ['Cà chua', 'vegetable', 2, 'quả'],
+        ['Hành lá', 'vegetable', 1.5, 'nhánh'],
+        ['Thịt gà', 'meat', 1, 'kg'],
+        ['Nước mắm', 'seasoning', undefined, undefined],
+        ['rau mùi', 'other', 1, 'bó']
+      ]);
+      expect(list.items[2].recipes.map((r: any) => r.recipe_id)).toEqual(['r1', 'r2']);
+      expect(list.items[3].quantity_notes).toEqual(['vừa đủ']);
+      expect(list.items.map((i: any) => i.item_id)).toEqual(['item-1', 'item-2', 'item-3', 'item-4', 'item-5']);
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        PK: `USER#${userId}`,
+        SK: `SHOPPING_LIST#${listId}`,
+        entity_type: 'SHOPPING_LIST'
+      }));
+    });
+
+    it('should subtract unexpired pantry stock', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(recipeItem('r1', [
+        { ingredient_name: 'thịt gà', quantity: '300', unit: 'g' },
+        { ingredient_name: 'cà chua', quantity: '4', unit: 'quả' },
+        { ingredient_name: 'hành lá', quantity: '2', unit: 'nhánh' },
+        { ingredient_name: 'nước mắm', quantity: 'vừa đủ' }
+      ]));
+      mockDynamoDBHelper.getUserIngredients.mockResolvedValue({
+        Items: [
+          { pantry_item_id: 'p1', ingredient_id: 'ing-ga', ingredient_name: 'Thịt gà', quantity: 500, unit: 'g', created_at: '2025-10-01T00:00:00.000Z' },
+          { pantry_item_id: 'p2', ingredient_id: 'ing-cachua', ingredient_name: 'Cà chua', quantity: 1, unit: 'quả', created_at: '2025-10-01T00:00:00.000Z' },
+          { pantry_item_id: 'p3', ingredient_id: 'ing-hanh', ingredient_name: 'Hành lá', quantity: 100, unit: 'g', created_at: '2025-10-01T00:00:00.000Z' },
+          { pantry_item_id: 'p4', ingredient_id: 'ing-nuocmam', ingredient_name: 'Nước mắm', quantity: 1, unit: 'chai', created_at: '2025-10-01T00:00:00.000Z', expiry_date: '2020-01-01' }
+        ],
+        LastEvaluatedKey: undefined,
+        Count: 4
+      });
+
+      const result = await handler(createMockEvent('POST', '/v1/shopping-lists', userId, { recipe_ids: ['r1'] }));
+
+      const list = JSON.parse(result.body).data.shopping_list;
+      expect(list.items.map((i: any) => [i.ingredient_name, i.quantity, i.pantry_quantity])).toEqual([
+        ['Cà chua', 3, undefined],
+        ['Hành lá', 2, 100],
+        ['Nước mắm', undefined, undefined]
+      ]);
+    });
+
+    it('should scale meal plan recipes to slot servings', async () => {
+      mockGetMealPlan.mockResolvedValue({
+        plan_id: 'plan-1',
+        start_date: '2025-10-06',
+        end_date: '2025-10-07',
+        slots: [
+          { slot_id: '2025-10-06_dinner', servings: 4, recipe: { recipe_id: 'r1', title: 'Gà xào', servings: 2, ingredients: [{ ingredient_name: 'thịt gà', quantity: '300', unit: 'g' }] } },
+          { slot_id: '2025-10-07_dinner', servings: 4, recipe: null }
+        ]
+      });
+
+      const result = await handler(createMockEvent('POST', '/shopping-lists', userId, {
+        meal_plan_id: 'plan-1',
+        subtract_pantry: false
+      }));
+
+      const list = JSON.parse(result.body).data.shopping_list;
+      expect(mockGetMealPlan).toHaveBeenCalledWith(userId, 'plan-1');
+      expect(list.name).toBe('Meal plan 2025-10-06 – 2025-10-07');
+      expect(list.meal_plan_id).toBe('plan-1');
+      expect(list.items).toHaveLength(1);
+      expect(list.items[0].quantity).toBe(600);
+      expect(mockDynamoDBHelper.getUserIngredients).not.toHaveBeenCalled();
+    });
+
+    it('should require recipes or a meal plan', async () => {
+      const result = await handler(createMockEvent('POST', '/shopping-lists', userId, { name: 'Empty' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('missing_sources');
+    });
+
+    it('should not include private recipes of other users', async () => {
+      mockDynamoDBHelper.getRecipe.mockResolvedValue(recipeItem('r9', [], { user_id: 'user-bob', is_public: false }));
+
+      const result = await handler(createMockEvent('POST', '/shopping-lists', userId, { recipe_ids: ['r9'] }));
+
+      expect(result.statusCode).toBe(403);
+      expect(mockDynamoDBHelper.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Check Off Items', () => {
+    it('should check an item off', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(storedList([line({})]));
+
+      const result = await handler(createMockEvent(
+        'PUT', `/shopping-lists/${listId}/items/item-1`, userId,
+        { is_checked: true }, { listId, itemId: 'item-1' }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.shopping_list.items[0].is_checked).toBe(true);
+      expect(mockDynamoDBHelper.put).toHaveBeenCalledWith(expect.objectContaining({
+        SK: `SHOPPING_LIST#${listId}`,
+        items: [expect.objectContaining({ item_id: 'item-1', is_checked: true })]
+      }));
+    });
+
+    it('should return 404 for an unknown item', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(storedList([line({})]));
+
+      const result = await handler(createMockEvent(
+        'PUT', `/shopping-lists/${listId}/items/item-9`, userId,
+        { is_checked: true }, { listId, itemId: 'item-9' }
+      ));
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error).toBe('item_not_found');
+    });
+  });
+
+  describe('Export Shopping List', () => {
+    it('should export as Markdown checklist grouped by category', async () => {
+      mockDynamoDBHelper.get.mockResolvedValue(storedList([
+        line({ item_id: 'item-1', quantity: 3, unit: 'quả', is_checked: true }),
+        line({ item_id: 'item-2', ingredient_name: 'Hành lá', quantity: 2, unit: 'nhánh', pantry_quantity: 100, pantry_unit: 'g' }),
+        line({ item_id: 'item-3', ingredient_name: 'Nước mắm', category: 'seasoning', quantity_notes: ['vừa đủ'] })
+      ]));
+
+      const result = await handler(createMockEvent(
+        'GET', `/shopping-lists/${listId}/export`, userId, undefined, { listId }, { format: 'markdown' }
+      ));
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers['Content-Type']).toBe('text/markdown; charset=utf-8');
+      expect(result.body).toBe([
+        '# Weekend',
+        '',
+        '## Vegetable',
+        '- [x] Cà chua – 3 quả',
+        '- [ ] Hành lá – 2 nhánh (have 100 g)',
+        '',
+        '## Seasoning',
+        '- [ ] Nước mắm – vừa đủ',
+        ''
+      ].join('\n'));
+    });
+
+    it('should reject unknown export formats', async () => {
+      const result = await handler(createMockEvent(
+        'GET', `/shopping-lists/${listId}/export`, userId, undefined, { listId }, { format: 'pdf' }
+      ));
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error).toBe('invalid_format');
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Shopping List Lambda Function
+ * Handles generating shopping lists from recipes/meal plans, checking items off and exporting
+ */
+
+import { APIGatewayEvent, APIResponse } from '../shared/types';
+import { successResponse, errorResponse, handleError, AppError } from '../shared/responses';
+import { getUserIdFromEvent } from '../shared/utils';
+import { ShoppingListService } from './shopping-list-service';
+import { logger } from '../shared/logger';
+import { metrics } from '../shared/metrics';
+import { tracer } from '../shared/tracer';
+import { CreateShoppingListRequest, ShoppingListExportFormat, UpdateShoppingListItemRequest } from './types';
+
+const EXPORT_CONTENT_TYPES: Record<ShoppingListExportFormat, string> = {
+  text: 'text/plain; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+};
+
+export async function handler(event: APIGatewayEvent): Promise<APIResponse> {
+  const startTime = Date.now();
+
+  // Initialize logger with request context
+  logger.initFromEvent(event);
+  logger.logFunctionStart('shopping-list', event);
+
+  try {
+    const method = event.httpMethod;
+    const path = event.path;
+
+    // Handle OPTIONS preflight requests for CORS
+    if (method === 'OPTIONS') {
+      return {
+        statusCode: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+          'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+        },
+        body: '',
+      };
+    }
+
+    const userId = getUserIdFromEvent(event);
+
+    // Set X-Ray user context
+    tracer.setUser(userId);
+
+    logger.info('Shopping list request received', {
+      method,
+      path,
+      userId,
+      pathParameters: event.pathParameters
+    });
+
+    // Route requests based on HTTP method and path
+    if (method === 'GET' && (path === '/shopping-lists' || path === '/v1/shopping-lists')) {
+      return await listShoppingLists(userId);
+    }
+
+    if (method === 'POST' && (path === '/shopping-lists' || path === '/v1/shopping-lists')) {
+      return await createShoppingList(userId, event.body);
+    }
+
+    if (method === 'GET' && path.match(/\/shopping-lists\/[^/]+\/export$/)) {
+      const listId = event.pathParameters?.listId || '';
+      return await exportShoppingList(userId, listId, event.queryStringParameters);
+    }
+
+    if (method === 'PUT' && path.match(/\/shopping-lists\/[^/]+\/items\/[^/]+$/)) {
+      const listId = event.pathParameters?.listId || '';
+      const itemId = event.pathParameters?.itemId || '';
+      return await updateItem(userId, listId, itemId, event.body);
+    }
+
+    if (method === 'GET' && path.match(/\/shopping-lists\/[^/]+$/)) {
+      const listId = event.pathParameters?.listId || '';
+      return await getShoppingList(userId, listId);
+    }
+
+    if (method === 'DELETE' && path.match(/\/shopping-lists\/[^/]+$/)) {
+      const listId = event.pathParameters?.listId || '';
+      return await deleteShoppingList(userId, listId);
+    }
+
+    return errorResponse(404, 'not_found', 'Endpoint not found');
+
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    logger.error('Shopping list handler error', error, { duration });
+    metrics.trackApiRequest(500, duration, 'shopping-list');
+    logger.logFunctionEnd('shopping-list', 500, duration);
+    return handleError(error);
+  } finally {
+    // Flush metrics and log function end
+    const duration = Date.now() - startTime;
+    logger.logFunctionEnd('shopping-list', 200, duration);
+    await metrics.flush();
+  }
+}
+
+/**
+ * Create a shopping list from recipes and/or a meal plan
+ */
+async function createShoppingList(userId: string, body: string | null): Promise<APIResponse> {
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: CreateShoppingListRequest = JSON.parse(body);
+
+  const shoppingList = await ShoppingListService.createShoppingList(userId, request);
+
+  return successResponse({
+    message: 'Shopping list created successfully',
+    shopping_list: shoppingList
+  }, 201);
+}
+
+/**
+ * List the user's shopping lists
+ */
+async function listShoppingLists(userId: string): Promise<APIResponse> {
+  const shoppingLists = await ShoppingListService.listShoppingLists(userId);
+
+  return successResponse({
+    shopping_lists: shoppingLists,
+    count: shoppingLists.length,
+  });
+}
+
+/**
+ * Get a single shopping list
+ */
+async function getShoppingList(userId: string, listId: string): Promise<APIResponse> {
+  if (!listId) {
+    throw new AppError(400, 'missing_list_id', 'Shopping list ID is required');
+  }
+
+  const shoppingList = await ShoppingListService.getShoppingList(userId, listId);
+
+  return successResponse({ shopping_list: shoppingList });
+}
+
+/**
+ * Check or uncheck a shopping list item
+ */
+async function updateItem(userId: string, listId: string, itemId: string, body: string | null): Promise<APIResponse> {
+  if (!listId) {
+    throw new AppError(400, 'missing_list_id', 'Shopping list ID is required');
+  }
+
+  if (!itemId) {
+    throw new AppError(400, 'missing_item_id', 'Item ID is required');
+  }
+
+  if (!body) {
+    throw new AppError(400, 'missing_body', 'Request body is required');
+  }
+
+  const request: UpdateShoppingListItemRequest = JSON.parse(body);
+
+  const shoppingList = await ShoppingListService.updateItem(userId, listId, itemId, request);
+
+  return successResponse({
+    message: 'Shopping list item updated successfully',
+    shopping_list: shoppingList
+  });
+}
+
+/**
+ * Export a shopping list as plain text (default) or Markdown
+ */
+async function exportShoppingList(
+  userId: string,
+  listId: string,
+  queryParams: { [key: string]: string } | null
+): Promise<APIResponse> {
+  if (!listId) {
+    throw new AppError(400, 'missing_list_id', 'Shopping list ID is required');
+  }
+
+  const format = (queryParams?.format || 'text') as ShoppingListExportFormat;
+  if (format !== 'text' && format !== 'markdown') {
+    throw new AppError(400, 'invalid_format', 'format must be text or markdown');
+  }
+
+  const shoppingList = await ShoppingListService.getShoppingList(userId, listId);
+
+  return {
+    statusCode: 200,
+    headers: {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
+      'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+    },
+    body: ShoppingListService.exportShoppingList(shoppingList, format),
+  };
+}
+
+/**
+ * Delete a shopping list
+ */
+async function deleteShoppingList(userId: string, listId: string): Promise<APIResponse> {
+  if (!listId) {
+    throw new AppError(400, 'missing_list_id', 'Shopping list ID is required');
+  }
+
+  await ShoppingListService.deleteShoppingList(userId, listId);
+
+  return successResponse({
+    message: 'Shopping list deleted successfully',
+    list_id: listId
+  });
+}
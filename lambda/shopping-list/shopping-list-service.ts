@@ -0,0 +1,452 @@
+/**
+ * Shopping List Service
+ * Aggregates recipe ingredients (from picked recipes or a meal plan) into a categorized shopping list
+ */
+
+import { DynamoDBHelper } from '../shared/dynamodb';
+import { generateUUID, formatTimestamp } from '../shared/utils';
+import { logger } from '../shared/logger';
+import { AppError } from '../shared/responses';
+import { IngredientService } from '../shared/ingredient-service';
+import { getPantryItems, isPantryItemExpired } from '../shared/pantry';
+import { fromBaseUnit, parseQuantity, roundQuantity, toBaseUnit } from '../shared/quantity';
+import { PantryItem, Recipe, ShoppingList, ShoppingListItem } from '../shared/types';
+import { RecipeService } from '../recipe/recipe-service';
+import { MealPlanService } from '../meal-plan/meal-plan-service';
+import { CreateShoppingListRequest, ShoppingListExportFormat, UpdateShoppingListItemRequest } from './types';
+
+const MAX_RECIPES = 30;
+const MAX_NAME_LENGTH = 100;
+const UNKNOWN_CATEGORY = 'other';
+
+// Roughly the order of a store walk; unlisted categories sort alphabetically after these
+const CATEGORY_ORDER = [
+  'vegetable', 'fruit', 'meat', 'seafood', 'dairy', 'grain', 'legume', 'nut',
+  'spice', 'seasoning', 'processed', 'beverage',
+];
+
+interface RecipeSource {
+  recipe: Recipe;
+  scale: number; // Multiplier applied to numeric quantities
+}
+
+interface ResolvedIngredient {
+  ingredient_id?: string;
+  name: string;
+  category: string;
+}
+
+export class ShoppingListService {
+  /**
+   * Build and save a shopping list from recipes and/or a meal plan
+   */
+  static async createShoppingList(userId: string, request: CreateShoppingListRequest): Promise<ShoppingList> {
+    const recipeIds = this.validateRecipeIds(request.recipe_ids);
+
+    if (request.meal_plan_id !== undefined && (typeof request.meal_plan_id !== 'string' || !request.meal_plan_id)) {
+      throw new AppError(400, 'invalid_meal_plan_id', 'meal_plan_id must be a non-empty string');
+    }
+
+    if (recipeIds.length === 0 && !request.meal_plan_id) {
+      throw new AppError(400, 'missing_sources', 'Provide recipe_ids and/or meal_plan_id');
+    }
+
+    const sources: RecipeSource[] = [];
+
+    for (const recipeId of recipeIds) {
+      const recipe = await RecipeService.getRecipe(recipeId, userId);
+      sources.push({ recipe, scale: 1 });
+    }
+
+    let defaultName = 'Shopping list';
+    if (request.meal_plan_id) {
+      const plan = await MealPlanService.getMealPlan(userId, request.meal_plan_id);
+      defaultName = `Meal plan ${plan.start_date} – ${plan.end_date}`;
+
+      for (const slot of plan.slots) {
+        if (!slot.recipe) {
+          continue;
+        }
+
+        const recipeServings = slot.recipe.servings || slot.servings;
+        sources.push({
+          recipe: slot.recipe,
+          scale: recipeServings ? slot.servings / recipeServings : 1,
+        });
+      }
+    }
+
+    let items = await this.aggregateIngredients(sources);
+
+    if (request.subtract_pantry !== false) {
+      const pantryItems = (await getPantryItems(userId)).filter(item => !isPantryItemExpired(item));
+      items = this.subtractPantry(items, pantryItems);
+    }
+
+    const now = formatTimestamp();
+    const list: ShoppingList = {
+      list_id: generateUUID(),
+      user_id: userId,
+      name: this.validateName(request.name) || defaultName,
+      recipe_ids: Array.from(new Set(sources.map(source => source.recipe.recipe_id))),
+      meal_plan_id: request.meal_plan_id,
+      items: this.sortItems(items).map((item, index) => this.toDisplayUnits({ ...item, item_id: `item-${index + 1}` })),
+      created_at: now,
+      updated_at: now,
+    };
+
+    await DynamoDBHelper.put({
+      PK: `USER#${userId}`,
+      SK: `SHOPPING_LIST#${list.list_id}`,
+      entity_type: 'SHOPPING_LIST',
+      ...list,
+    });
+
+    logger.info('Shopping list created', {
+      userId,
+      listId: list.list_id,
+      recipes: list.recipe_ids.length,
+      items: list.items.length,
+    });
+
+    return list;
+  }
+
+  /**
+   * Get a shopping list owned by the user
+   */
+  static async getShoppingList(userId: string, listId: string): Promise<ShoppingList> {
+    const item = await this.getShoppingListItem(userId, listId);
+    return this.convertDynamoItemToShoppingList(item);
+  }
+
+  /**
+   * List the user's shopping lists, most recently created first
+   */
+  static async listShoppingLists(userId: string): Promise<ShoppingList[]> {
+    const result = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: {
+        ':pk': `USER#${userId}`,
+        ':sk': 'SHOPPING_LIST#',
+      },
+    });
+
+    // SKs are keyed by list ID, so ordering is applied here rather than by the query
+    return result.Items
+      .map(item => this.convertDynamoItemToShoppingList(item))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Check or uncheck a single line
+   */
+  static async updateItem(
+    userId: string,
+    listId: string,
+    itemId: string,
+    request: UpdateShoppingListItemRequest
+  ): Promise<ShoppingList> {
+    if (typeof request.is_checked !== 'boolean') {
+      throw new AppError(400, 'invalid_is_checked', 'is_checked must be a boolean');
+    }
+
+    const dynamoItem = await this.getShoppingListItem(userId, listId);
+    const list = this.convertDynamoItemToShoppingList(dynamoItem);
+    const line = list.items.find(item => item.item_id === itemId);
+
+    if (!line) {
+      throw new AppError(404, 'item_not_found', 'Shopping list item not found');
+    }
+
+    line.is_checked = request.is_checked;
+    list.updated_at = formatTimestamp();
+
+    await DynamoDBHelper.put({ ...dynamoItem, ...list });
+
+    logger.info('Shopping list item updated', { userId, listId, itemId, isChecked: line.is_checked });
+
+    return list;
+  }
+
+  /**
+   * Delete a shopping list
+   */
+  static async deleteShoppingList(userId: string, listId: string): Promise<void> {
+    await this.getShoppingListItem(userId, listId);
+    await DynamoDBHelper.delete(`USER#${userId}`, `SHOPPING_LIST#${listId}`);
+
+    logger.info('Shopping list deleted', { userId, listId });
+  }
+
+  /**
+   * Render a shopping list as plain text or Markdown, one section per category
+   */
+  static exportShoppingList(list: ShoppingList, format: ShoppingListExportFormat): string {
+    const lines: string[] = [format === 'markdown' ? `# ${list.name}` : list.name];
+
+    let currentCategory: string | undefined;
+    for (const item of list.items) {
+      if (item.category !== currentCategory) {
+        currentCategory = item.category;
+        const heading = currentCategory.charAt(0).toUpperCase() + currentCategory.slice(1);
+        lines.push('', format === 'markdown' ? `## ${heading}` : `${heading.toUpperCase()}`);
+      }
+
+      const amount = this.formatAmount(item);
+      const label = amount ? `${item.ingredient_name} – ${amount}` : item.ingredient_name;
+
+      lines.push(format === 'markdown'
+        ? `- [${item.is_checked ? 'x' : ' '}] ${label}`
+        : `[${item.is_checked ? 'x' : ' '}] ${label}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Merge ingredients across recipes into one line per ingredient and unit.
+   * Optional ingredients are left off the list.
+   */
+  private static async aggregateIngredients(sources: RecipeSource[]): Promise<ShoppingListItem[]> {
+    const resolved = new Map<string, ResolvedIngredient>();
+    const lines = new Map<string, ShoppingListItem>();
+
+    for (const { recipe, scale } of sources) {
+      for (const ingredient of recipe.ingredients || []) {
+        if (ingredient.is_optional || !ingredient.ingredient_name?.trim()) {
+          continue;
+        }
+
+        const normalizedName = IngredientService.normalizeVietnamese(ingredient.ingredient_name);
+        if (!resolved.has(normalizedName)) {
+          resolved.set(normalizedName, await this.resolveIngredient(ingredient.ingredient_name.trim()));
+        }
+        const master = resolved.get(normalizedName)!;
+
+        // Mass and volume are summed in g / ml so "300g" and "1/2 kg" land on one line
+        const parsed = parseQuantity(ingredient.quantity, ingredient.unit);
+        const base = parsed ? toBaseUnit(parsed) : undefined;
+        const unit = base ? base.unit : (ingredient.unit?.trim().toLowerCase() || undefined);
+        const key = `${master.ingredient_id || normalizedName}|${unit || ''}`;
+
+        let line = lines.get(key);
+        if (!line) {
+          line = {
+            item_id: '',
+            ingredient_id: master.ingredient_id,
+            ingredient_name: master.name,
+            category: master.category,
+            unit,
+            quantity_notes: [],
+            recipes: [],
+            is_checked: false,
+          };
+          lines.set(key, line);
+        }
+
+        if (base) {
+          // Ranges use the upper bound so the list never comes up short
+          line.quantity = roundQuantity((line.quantity || 0) + (base.max_value ?? base.value) * scale);
+        } else if (ingredient.quantity?.trim() && !line.quantity_notes.includes(ingredient.quantity.trim())) {
+          line.quantity_notes.push(ingredient.quantity.trim());
+        }
+
+        if (!line.recipes.some(r => r.recipe_id === recipe.recipe_id)) {
+          line.recipes.push({ recipe_id: recipe.recipe_id, title: recipe.title });
+        }
+      }
+    }
+
+    return Array.from(lines.values());
+  }
+
+  /**
+   * Resolve an ingredient name (or alias) to its master ingredient for ID and category
+   */
+  private static async resolveIngredient(name: string): Promise<ResolvedIngredient> {
+    const master = await IngredientService.findByName(name);
+
+    if (!master) {
+      return { name, category: UNKNOWN_CATEGORY };
+    }
+
+    return {
+      ingredient_id: master.ingredient_id,
+      name: master.name || name,
+      category: master.category || UNKNOWN_CATEGORY,
+    };
+  }
+
+  /**
+   * Take pantry stock off the list.
+   * Same-unit stock is subtracted and lines that are fully covered are dropped; stock in a
+   * different unit cannot be compared, so it is recorded on the line for the user to judge.
+   */
+  private static subtractPantry(items: ShoppingListItem[], pantryItems: PantryItem[]): ShoppingListItem[] {
+    const stock = new Map<string, { quantity: number; unit?: string }[]>();
+
+    for (const pantryItem of pantryItems) {
+      const key = pantryItem.ingredient_id || IngredientService.normalizeVietnamese(pantryItem.ingredient_name);
+      const parsed = parseQuantity(pantryItem.quantity, pantryItem.unit);
+      if (!parsed) {
+        continue;
+      }
+
+      const { value: quantity, unit } = toBaseUnit(parsed);
+      const entries = stock.get(key) || [];
+      const existing = entries.find(entry => entry.unit === unit);
+
+      if (existing) {
+        existing.quantity += quantity;
+      } else {
+        entries.push({ quantity, unit });
+      }
+      stock.set(key, entries);
+    }
+
+    const remaining: ShoppingListItem[] = [];
+
+    for (const item of items) {
+      const entries = stock.get(item.ingredient_id || IngredientService.normalizeVietnamese(item.ingredient_name));
+
+      if (!entries || entries.length === 0) {
+        remaining.push(item);
+        continue;
+      }
+
+      // Some is on hand and the recipe gives no measurable amount ("to taste")
+      if (item.quantity === undefined) {
+        continue;
+      }
+
+      const sameUnit = entries.find(entry => entry.unit === item.unit);
+      if (sameUnit) {
+        const used = Math.min(sameUnit.quantity, item.quantity);
+        sameUnit.quantity -= used;
+        item.quantity = roundQuantity(item.quantity - used);
+
+        if (item.quantity <= 0) {
+          continue;
+        }
+      } else {
+        item.pantry_quantity = entries[0].quantity;
+        item.pantry_unit = entries[0].unit;
+      }
+
+      remaining.push(item);
+    }
+
+    return remaining;
+  }
+
+  private static formatAmount(item: ShoppingListItem): string {
+    const parts: string[] = [];
+
+    if (item.quantity !== undefined) {
+      parts.push(item.unit ? `${item.quantity} ${item.unit}` : `${item.quantity}`);
+    }
+    parts.push(...item.quantity_notes);
+
+    let amount = parts.join(' + ');
+    if (item.pantry_quantity !== undefined) {
+      const have = item.pantry_unit ? `${item.pantry_quantity} ${item.pantry_unit}` : `${item.pantry_quantity}`;
+      amount += ` (have ${have})`;
+    }
+
+    return amount;
+  }
+
+  /**
+   * Show large base-unit amounts as kg / l
+   */
+  private static toDisplayUnits(item: ShoppingListItem): ShoppingListItem {
+    if (item.quantity !== undefined) {
+      const display = fromBaseUnit(item.quantity, item.unit);
+      item.quantity = display.value;
+      item.unit = display.unit;
+    }
+
+    if (item.pantry_quantity !== undefined) {
+      const display = fromBaseUnit(item.pantry_quantity, item.pantry_unit);
+      item.pantry_quantity = display.value;
+      item.pantry_unit = display.unit;
+    }
+
+    return item;
+  }
+
+  /**
+   * Order lines by category (store walk order), then by name
+   */
+  private static sortItems(items: ShoppingListItem[]): ShoppingListItem[] {
+    const rank = (category: string) => {
+      if (category === UNKNOWN_CATEGORY) {
+        return CATEGORY_ORDER.length + 1;
+      }
+      const index = CATEGORY_ORDER.indexOf(category);
+      return index === -1 ? CATEGORY_ORDER.length : index;
+    };
+
+    return [...items].sort((a, b) =>
+      rank(a.category) - rank(b.category) ||
+      a.category.localeCompare(b.category) ||
+      a.ingredient_name.localeCompare(b.ingredient_name)
+    );
+  }
+
+  private static validateRecipeIds(value: any): string[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+
+    if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || !id)) {
+      throw new AppError(400, 'invalid_recipe_ids', 'recipe_ids must be a list of recipe IDs');
+    }
+
+    const recipeIds = Array.from(new Set<string>(value));
+    if (recipeIds.length > MAX_RECIPES) {
+      throw new AppError(400, 'too_many_recipes', `Maximum ${MAX_RECIPES} recipes per shopping list`);
+    }
+
+    return recipeIds;
+  }
+
+  private static validateName(value: any): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    if (typeof value !== 'string' || value.trim().length > MAX_NAME_LENGTH) {
+      throw new AppError(400, 'invalid_name', `name must be a string of at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    return value.trim() || undefined;
+  }
+
+  private static async getShoppingListItem(userId: string, listId: string): Promise<any> {
+    const item = await DynamoDBHelper.get(`USER#${userId}`, `SHOPPING_LIST#${listId}`);
+
+    if (!item) {
+      throw new AppError(404, 'shopping_list_not_found', 'Shopping list not found');
+    }
+
+    return item;
+  }
+
+  /**
+   * Convert DynamoDB item to ShoppingList object
+   */
+  private static convertDynamoItemToShoppingList(item: any): ShoppingList {
+    return {
+      list_id: item.list_id,
+      user_id: item.user_id,
+      name: item.name,
+      recipe_ids: item.recipe_ids || [],
+      meal_plan_id: item.meal_plan_id,
+      items: item.items || [],
+      created_at: item.created_at,
+      updated_at: item.updated_at,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Shopping List Types
+ */
+
+export interface CreateShoppingListRequest {
+  name?: string;
+  recipe_ids?: string[]; // Recipes to shop for (at their own servings)
+  meal_plan_id?: string; // Every filled slot of the plan, scaled to the slot servings
+  subtract_pantry?: boolean; // Subtract unexpired pantry stock (default true)
+}
+
+export interface UpdateShoppingListItemRequest {
+  is_checked: boolean;
+}
+
+export type ShoppingListExportFormat = 'text' | 'markdown';
@@ -21,6 +21,7 @@ import {
   filterCookingHistory,
   filterUserPreferences
 } from '../shared/privacy-middleware';
+import { UserSearchService } from '../shared/user-search';
 
 export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
   const startTime = Date.now();
@@ -47,6 +48,10 @@ export const handler = async (event: APIGatewayEvent): Promise<APIResponse> => {
 
     switch (httpMethod) {
       case 'GET':
+        // Handle /v1/users/search
+        if (event.path.includes('/users/search')) {
+          return await searchUsers(userId, event.queryStringParameters);
+        }
         // Handle /v1/users/me/stats
         if (event.path.includes('/users/me/stats')) {
           return await getUserStats(userId);
@@ -155,6 +160,24 @@ async function getUserStats(userId: string): Promise<APIResponse> {
   }
 }
 
+/**
+ * Search users by username or full name
+ * GET /v1/users/search?q=...&limit=10
+ */
+async function searchUsers(userId: string, queryParams: { [key: string]: string } | null): Promise<APIResponse> {
+  const query = (queryParams?.q || '').trim();
+  if (query.length < 2) {
+    throw new AppError(400, 'invalid_query', 'Search query must be at least 2 characters');
+  }
+
+  const limit = Math.min(Math.max(parseInt(queryParams?.limit || '10', 10) || 10, 1), 50);
+  const users = await UserSearchService.searchUsers(userId, sanitizeInput(query, 100), limit);
+
+  logStructured('INFO', 'User search completed', { userId, resultCount: users.length });
+
+  return successResponse({ users });
+}
+
 async function getProfile(viewerId: string, targetUserId: string): Promise<APIResponse> {
   try {
     const profile = await DynamoDBHelper.getUserProfile(targetUserId);
@@ -168,6 +191,12 @@ async function getProfile(viewerId: string, targetUserId: string): Promise<APIRe
 
     // Apply privacy filtering
     const privacyContext = await createPrivacyContext(viewerId, targetUserId);
+
+    // Blocked users cannot view each other's profiles
+    if (privacyContext.isBlocked) {
+      throw new AppError(404, 'profile_not_found', 'User profile not found');
+    }
+
     const filteredProfile = await filterUserProfile(cleanProfile, privacyContext);
 
     logStructured('INFO', 'Profile retrieved with privacy filtering', {
@@ -290,6 +319,14 @@ async function updateProfile(userId: string, body: string | null): Promise<APIRe
     // Remove DynamoDB keys from response
     const { PK, SK, GSI1PK, GSI1SK, entity_type, ...cleanProfile } = updatedProfile || {};
 
+    if (updates.full_name !== undefined) {
+      await UserSearchService.indexUser({
+        user_id: userId,
+        username: existingProfile.username,
+        full_name: updates.full_name
+      });
+    }
+
     logStructured('INFO', 'Profile updated successfully', { userId, updatedFields: Object.keys(updates) });
 
     return successResponse({
@@ -365,6 +402,8 @@ async function createProfile(userId: string, body: string | null): Promise<APIRe
       ...profileData
     });
 
+    await UserSearchService.indexUser(profileData);
+
     logStructured('INFO', 'Profile created successfully', { userId, email });
 
     return successResponse({
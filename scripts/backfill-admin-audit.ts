@@ -0,0 +1,69 @@
+/**
+ * Backfill the audit log indexes for admin actions logged before the hash chain
+ * Those actions have no sequence or hash and cannot be chained after the fact without rewriting
+ * every chained entry, so they get GSI1PK: ADMIN_AUDIT_LEGACY, GSI1SK: created_at#actionId (listed
+ * and exported after the chain) and GSI2PK: AUDIT_TARGET#targetType#targetId,
+ * GSI2SK: created_at#actionId (target history). verifyChain does not cover them.
+ * Usage: DYNAMODB_TABLE=smart-cooking-data-dev AWS_REGION=ap-southeast-1 npx ts-node scripts/backfill-admin-audit.ts
+ */
+
+import { DynamoDBHelper } from '../lambda/shared/dynamodb';
+
+async function backfillAdminAudit(): Promise<void> {
+  let exclusiveStartKey: any;
+  let indexed = 0;
+  let withoutTarget = 0;
+
+  console.log(`📜 Backfilling pre-chain admin actions in ${process.env.DYNAMODB_TABLE || 'smart-cooking-data'}...`);
+
+  do {
+    const page = await DynamoDBHelper.scan({
+      FilterExpression: 'begins_with(PK, :pk) AND begins_with(SK, :sk) AND attribute_not_exists(#sequence) AND attribute_not_exists(GSI1PK)',
+      ExpressionAttributeValues: { ':pk': 'ADMIN#', ':sk': 'ACTION#' },
+      ExpressionAttributeNames: { '#sequence': 'sequence' },
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    for (const item of page.Items) {
+      const sortKey = `${item.created_at}#${item.action_id}`;
+      const hasTarget = !!(item.target_type && item.target_id);
+
+      await DynamoDBHelper.update(
+        item.PK,
+        item.SK,
+        hasTarget
+          ? 'SET entity_type = :type, GSI1PK = :legacy, GSI1SK = :sk, GSI2PK = :target, GSI2SK = :sk'
+          : 'SET entity_type = :type, GSI1PK = :legacy, GSI1SK = :sk',
+        {
+          ':type': 'ADMIN_ACTION',
+          ':legacy': 'ADMIN_AUDIT_LEGACY',
+          ':sk': sortKey,
+          ...(hasTarget && { ':target': `AUDIT_TARGET#${item.target_type}#${item.target_id}` })
+        }
+      );
+
+      indexed++;
+      if (!hasTarget) {
+        withoutTarget++;
+      }
+    }
+
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`✅ Indexed ${indexed} pre-chain admin actions`);
+  if (withoutTarget > 0) {
+    console.log(`⚠️  ${withoutTarget} actions have no target and only appear in the full and per-admin listings`);
+  }
+}
+
+if (require.main === module) {
+  backfillAdminAudit()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('💥 Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillAdminAudit };
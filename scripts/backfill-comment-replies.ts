@@ -0,0 +1,113 @@
+/**
+ * Backfill reply threading for comments created before replies were paged
+ * Replies get their GSI2 keys (GSI2PK: COMMENT#parentId, GSI2SK: REPLY#created_at#replyId) and
+ * every comment gets a reply_count matching the replies stored under it.
+ * Counts are only written over the value that was read, so a comment replied to while the
+ * script runs is skipped; re-run the script to pick it up.
+ * Usage: DYNAMODB_TABLE=smart-cooking-data-dev AWS_REGION=ap-southeast-1 npx ts-node scripts/backfill-comment-replies.ts
+ */
+
+import { DynamoDBHelper } from '../lambda/shared/dynamodb';
+
+async function getPostComments(postId: string): Promise<any[]> {
+  const comments: any[] = [];
+  let exclusiveStartKey: any;
+
+  do {
+    const page = await DynamoDBHelper.query({
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :sk)',
+      ExpressionAttributeValues: { ':pk': `POST#${postId}`, ':sk': 'COMMENT#' },
+      ExclusiveStartKey: exclusiveStartKey
+    });
+    comments.push(...(page.Items || []));
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return comments;
+}
+
+async function backfillCommentReplies(): Promise<void> {
+  let exclusiveStartKey: any;
+  let indexed = 0;
+  let counted = 0;
+  let skipped = 0;
+
+  console.log(`💬 Backfilling comment replies in ${process.env.DYNAMODB_TABLE || 'smart-cooking-data'}...`);
+
+  do {
+    const page = await DynamoDBHelper.scan({
+      FilterExpression: 'entity_type = :type',
+      ExpressionAttributeValues: { ':type': 'POST' },
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    for (const post of page.Items) {
+      const comments = await getPostComments(post.post_id);
+      const replyCounts = new Map<string, number>();
+
+      for (const comment of comments) {
+        if (!comment.parent_comment_id) {
+          continue;
+        }
+        replyCounts.set(comment.parent_comment_id, (replyCounts.get(comment.parent_comment_id) || 0) + 1);
+
+        if (!comment.GSI2PK) {
+          await DynamoDBHelper.update(
+            comment.PK,
+            comment.SK,
+            'SET GSI2PK = :pk, GSI2SK = :sk',
+            {
+              ':pk': `COMMENT#${comment.parent_comment_id}`,
+              ':sk': `REPLY#${comment.created_at}#${comment.comment_id}`
+            }
+          );
+          indexed++;
+        }
+      }
+
+      for (const comment of comments) {
+        const replyCount = replyCounts.get(comment.comment_id) || 0;
+        if (comment.reply_count === replyCount) {
+          continue;
+        }
+
+        try {
+          await DynamoDBHelper.conditionalUpdate(
+            comment.PK,
+            comment.SK,
+            'SET reply_count = :count',
+            comment.reply_count === undefined ? 'attribute_not_exists(reply_count)' : 'reply_count = :stored',
+            {
+              ':count': replyCount,
+              ...(comment.reply_count !== undefined && { ':stored': comment.reply_count })
+            }
+          );
+          counted++;
+        } catch (error: any) {
+          if (error.name !== 'ConditionalCheckFailedException') {
+            throw error;
+          }
+          skipped++;
+        }
+      }
+    }
+
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`✅ Indexed ${indexed} replies and counted replies on ${counted} comments`);
+  if (skipped > 0) {
+    console.log(`⚠️  ${skipped} comments changed during the backfill; run it again to count them`);
+  }
+}
+
+if (require.main === module) {
+  backfillCommentReplies()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('💥 Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillCommentReplies };
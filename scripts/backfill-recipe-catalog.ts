@@ -0,0 +1,64 @@
+/**
+ * Backfill the recipe search catalog index for recipes created before it existed
+ * Recipe metadata gets GSI3PK: RECIPE_CATALOG, GSI3SK: created_at, and the separate
+ * ingredient items of seed recipes get GSI3SK: RECIPE#recipeId#INGREDIENT#nnn so the
+ * catalog query returns them with their recipe.
+ * Usage: DYNAMODB_TABLE=smart-cooking-data-dev AWS_REGION=ap-southeast-1 npx ts-node scripts/backfill-recipe-catalog.ts
+ */
+
+import { DynamoDBHelper } from '../lambda/shared/dynamodb';
+
+async function backfillRecipeCatalog(): Promise<void> {
+  let exclusiveStartKey: any;
+  let recipes = 0;
+  let ingredients = 0;
+
+  console.log(`🍲 Backfilling the recipe catalog index in ${process.env.DYNAMODB_TABLE || 'smart-cooking-data'}...`);
+
+  do {
+    const page = await DynamoDBHelper.scan({
+      FilterExpression: 'begins_with(PK, :pk) AND (SK = :metadata OR begins_with(SK, :ingredient)) AND attribute_not_exists(GSI3PK)',
+      ExpressionAttributeValues: {
+        ':pk': 'RECIPE#',
+        ':metadata': 'METADATA',
+        ':ingredient': 'INGREDIENT#',
+      },
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    for (const item of page.Items) {
+      const isMetadata = item.SK === 'METADATA';
+
+      await DynamoDBHelper.update(
+        item.PK,
+        item.SK,
+        'SET GSI3PK = :pk, GSI3SK = :sk',
+        {
+          ':pk': 'RECIPE_CATALOG',
+          ':sk': isMetadata ? item.created_at || new Date().toISOString() : `${item.PK}#${item.SK}`
+        }
+      );
+
+      if (isMetadata) {
+        recipes++;
+      } else {
+        ingredients++;
+      }
+    }
+
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`✅ Indexed ${recipes} recipes and ${ingredients} ingredient items`);
+}
+
+if (require.main === module) {
+  backfillRecipeCatalog()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('💥 Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillRecipeCatalog };
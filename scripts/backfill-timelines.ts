@@ -0,0 +1,44 @@
+/**
+ * Backfill timelines for posts created before fan-out-on-write existed
+ * Each post is written to its author's timeline and, unless private, to every accepted friend's.
+ * Entries are plain puts, so the script can be re-run safely.
+ * Usage: DYNAMODB_TABLE=smart-cooking-data-dev AWS_REGION=ap-southeast-1 npx ts-node scripts/backfill-timelines.ts
+ */
+
+import { DynamoDBHelper } from '../lambda/shared/dynamodb';
+import { TimelineService, TimelinePost } from '../lambda/shared/timeline';
+
+async function backfillTimelines(): Promise<void> {
+  let exclusiveStartKey: any;
+  let fannedOut = 0;
+
+  console.log(`📰 Backfilling timelines in ${process.env.DYNAMODB_TABLE || 'smart-cooking-data'}...`);
+
+  do {
+    const page = await DynamoDBHelper.scan({
+      FilterExpression: 'entity_type = :type',
+      ExpressionAttributeValues: { ':type': 'POST' },
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    for (const post of page.Items) {
+      await TimelineService.fanOutPost(post as TimelinePost);
+      fannedOut++;
+    }
+
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`✅ Fanned out ${fannedOut} posts to timelines`);
+}
+
+if (require.main === module) {
+  backfillTimelines()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('💥 Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillTimelines };
@@ -0,0 +1,46 @@
+/**
+ * Backfill the user search index for profiles created before search existed
+ * Usage: DYNAMODB_TABLE=smart-cooking-data-dev AWS_REGION=ap-southeast-1 npx ts-node scripts/backfill-user-search-index.ts
+ */
+
+import { DynamoDBHelper } from '../lambda/shared/dynamodb';
+import { UserSearchService } from '../lambda/shared/user-search';
+
+async function backfillUserSearchIndex(): Promise<void> {
+  let exclusiveStartKey: any;
+  let indexed = 0;
+
+  console.log(`🔍 Indexing user profiles in ${process.env.DYNAMODB_TABLE || 'smart-cooking-data'}...`);
+
+  do {
+    const page = await DynamoDBHelper.scan({
+      FilterExpression: 'entity_type = :type',
+      ExpressionAttributeValues: { ':type': 'USER_PROFILE' },
+      ExclusiveStartKey: exclusiveStartKey
+    });
+
+    for (const profile of page.Items) {
+      await UserSearchService.indexUser({
+        user_id: profile.user_id,
+        username: profile.username,
+        full_name: profile.full_name
+      });
+      indexed++;
+    }
+
+    exclusiveStartKey = page.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`✅ Indexed ${indexed} user profiles`);
+}
+
+if (require.main === module) {
+  backfillUserSearchIndex()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('💥 Backfill failed:', error);
+      process.exit(1);
+    });
+}
+
+export { backfillUserSearchIndex };
@@ -374,7 +374,9 @@ async function seedRecipes(users: any[]) {
       GSI1PK: `USER#${userId}`,
       GSI1SK: `RECIPE#${createdAt}`,
       GSI2PK: `METHOD#${recipe.cooking_method}`,
-      GSI2SK: `RECIPE#${createdAt}`
+      GSI2SK: `RECIPE#${createdAt}`,
+      GSI3PK: 'RECIPE_CATALOG',
+      GSI3SK: createdAt
     });
 
     // Recipe Ingredients
@@ -386,7 +388,10 @@ async function seedRecipes(users: any[]) {
         ingredient_name: ing.name,
         quantity: ing.quantity,
         unit: ing.unit,
-        is_optional: false
+        is_optional: false,
+        // Loaded with the recipe by the search catalog
+        GSI3PK: 'RECIPE_CATALOG',
+        GSI3SK: `RECIPE#${recipeId}#INGREDIENT#${String(idx + 1).padStart(3, '0')}`
       });
     });
   }
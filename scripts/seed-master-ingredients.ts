@@ -17,6 +17,19 @@ interface MasterIngredientData {
   aliases: string[];
 }
 
+interface NutritionData {
+  nutrition_per_100g: {
+    calories: number;
+    protein_g: number;
+    carbs_g: number;
+    fat_g: number;
+    fiber_g?: number;
+    sodium_mg?: number;
+  };
+  grams_per_unit?: { [unit: string]: number }; // "each" for a bare count
+  grams_per_ml?: number;
+}
+
 // Vietnamese ingredients database with 500+ items
 const VIETNAMESE_INGREDIENTS: MasterIngredientData[] = [
   // Meat & Poultry (Thịt)
@@ -579,6 +592,76 @@ const VIETNAMESE_INGREDIENTS: MasterIngredientData[] = [
   { name: 'Nước mắm Phú Quốc', category: 'spice', aliases: ['phu quoc fish sauce', 'nuoc mam phu quoc'] },
 ];
 
+// Approximate per-100g nutrient values (raw weight) for common ingredients, used by the
+// recipe nutrition calculator. Keyed by ingredient name as in VIETNAMESE_INGREDIENTS.
+const NUTRITION_DATA: { [name: string]: NutritionData } = {
+  // Meat & seafood
+  'Thịt bò': { nutrition_per_100g: { calories: 250, protein_g: 26, carbs_g: 0, fat_g: 15, sodium_mg: 72 } },
+  'Thịt heo': { nutrition_per_100g: { calories: 242, protein_g: 27, carbs_g: 0, fat_g: 14, sodium_mg: 62 } },
+  'Thịt gà': { nutrition_per_100g: { calories: 215, protein_g: 18.6, carbs_g: 0, fat_g: 15, sodium_mg: 70 } },
+  'Thịt vịt': { nutrition_per_100g: { calories: 337, protein_g: 19, carbs_g: 0, fat_g: 28, sodium_mg: 63 } },
+  'Thịt ba chỉ': { nutrition_per_100g: { calories: 518, protein_g: 9.3, carbs_g: 0, fat_g: 53, sodium_mg: 32 } },
+  'Sườn heo': { nutrition_per_100g: { calories: 277, protein_g: 17, carbs_g: 0, fat_g: 23, sodium_mg: 81 } },
+  'Thăn bò': { nutrition_per_100g: { calories: 158, protein_g: 21, carbs_g: 0, fat_g: 8, sodium_mg: 55 } },
+  'Thăn heo': { nutrition_per_100g: { calories: 143, protein_g: 21, carbs_g: 0, fat_g: 6, sodium_mg: 53 } },
+  'Chả lụa': { nutrition_per_100g: { calories: 240, protein_g: 15, carbs_g: 4, fat_g: 18, sodium_mg: 900 } },
+  'Cá': { nutrition_per_100g: { calories: 120, protein_g: 20, carbs_g: 0, fat_g: 4, sodium_mg: 60 } },
+  'Cá hồi': { nutrition_per_100g: { calories: 208, protein_g: 20, carbs_g: 0, fat_g: 13, sodium_mg: 59 } },
+  'Cá basa': { nutrition_per_100g: { calories: 90, protein_g: 15, carbs_g: 0, fat_g: 3, sodium_mg: 50 } },
+  'Tôm': { nutrition_per_100g: { calories: 85, protein_g: 20, carbs_g: 0, fat_g: 0.5, sodium_mg: 119 }, grams_per_unit: { 'con': 15 } },
+  'Mực': { nutrition_per_100g: { calories: 92, protein_g: 15.6, carbs_g: 3.1, fat_g: 1.4, sodium_mg: 44 } },
+
+  // Vegetables & herbs
+  'Cà chua': { nutrition_per_100g: { calories: 18, protein_g: 0.9, carbs_g: 3.9, fat_g: 0.2, fiber_g: 1.2, sodium_mg: 5 }, grams_per_unit: { 'quả': 120, 'trái': 120, 'each': 120 } },
+  'Hành tây': { nutrition_per_100g: { calories: 40, protein_g: 1.1, carbs_g: 9.3, fat_g: 0.1, fiber_g: 1.7, sodium_mg: 4 }, grams_per_unit: { 'củ': 150, 'each': 150 } },
+  'Hành lá': { nutrition_per_100g: { calories: 32, protein_g: 1.8, carbs_g: 7.3, fat_g: 0.2, fiber_g: 2.6, sodium_mg: 16 }, grams_per_unit: { 'cây': 15, 'nhánh': 15, 'cọng': 15 } },
+  'Tỏi': { nutrition_per_100g: { calories: 149, protein_g: 6.4, carbs_g: 33, fat_g: 0.5, fiber_g: 2.1, sodium_mg: 17 }, grams_per_unit: { 'tép': 5, 'củ': 40 } },
+  'Gừng': { nutrition_per_100g: { calories: 80, protein_g: 1.8, carbs_g: 18, fat_g: 0.8, fiber_g: 2, sodium_mg: 13 }, grams_per_unit: { 'lát': 3, 'củ': 30 } },
+  'Ớt': { nutrition_per_100g: { calories: 40, protein_g: 1.9, carbs_g: 8.8, fat_g: 0.4, fiber_g: 1.5, sodium_mg: 9 }, grams_per_unit: { 'quả': 5, 'trái': 5, 'each': 5 } },
+  'Khoai tây': { nutrition_per_100g: { calories: 77, protein_g: 2, carbs_g: 17, fat_g: 0.1, fiber_g: 2.2, sodium_mg: 6 }, grams_per_unit: { 'củ': 170, 'each': 170 } },
+  'Khoai lang': { nutrition_per_100g: { calories: 86, protein_g: 1.6, carbs_g: 20, fat_g: 0.1, fiber_g: 3, sodium_mg: 55 }, grams_per_unit: { 'củ': 200, 'each': 200 } },
+  'Bắp cải': { nutrition_per_100g: { calories: 25, protein_g: 1.3, carbs_g: 5.8, fat_g: 0.1, fiber_g: 2.5, sodium_mg: 18 } },
+  'Rau muống': { nutrition_per_100g: { calories: 19, protein_g: 2.6, carbs_g: 3.1, fat_g: 0.2, fiber_g: 2.1, sodium_mg: 113 } },
+  'Cải bó xôi': { nutrition_per_100g: { calories: 23, protein_g: 2.9, carbs_g: 3.6, fat_g: 0.4, fiber_g: 2.2, sodium_mg: 79 } },
+  'Bí đỏ': { nutrition_per_100g: { calories: 26, protein_g: 1, carbs_g: 6.5, fat_g: 0.1, fiber_g: 0.5, sodium_mg: 1 } },
+  'Dưa chuột': { nutrition_per_100g: { calories: 15, protein_g: 0.7, carbs_g: 3.6, fat_g: 0.1, fiber_g: 0.5, sodium_mg: 2 }, grams_per_unit: { 'quả': 200, 'trái': 200, 'each': 200 } },
+  'Cà tím': { nutrition_per_100g: { calories: 25, protein_g: 1, carbs_g: 5.9, fat_g: 0.2, fiber_g: 3, sodium_mg: 2 }, grams_per_unit: { 'quả': 250, 'trái': 250, 'each': 250 } },
+  'Nấm': { nutrition_per_100g: { calories: 22, protein_g: 3.1, carbs_g: 3.3, fat_g: 0.3, fiber_g: 1, sodium_mg: 5 } },
+  'Bông cải xanh': { nutrition_per_100g: { calories: 34, protein_g: 2.8, carbs_g: 6.6, fat_g: 0.4, fiber_g: 2.6, sodium_mg: 33 } },
+
+  // Fruit
+  'Chanh': { nutrition_per_100g: { calories: 30, protein_g: 0.7, carbs_g: 10.5, fat_g: 0.2, fiber_g: 2.8, sodium_mg: 2 }, grams_per_unit: { 'quả': 60, 'trái': 60, 'each': 60 } },
+  'Chuối': { nutrition_per_100g: { calories: 89, protein_g: 1.1, carbs_g: 23, fat_g: 0.3, fiber_g: 2.6, sodium_mg: 1 }, grams_per_unit: { 'quả': 120, 'trái': 120, 'each': 120 } },
+
+  // Grains & starches
+  'Gạo': { nutrition_per_100g: { calories: 365, protein_g: 7.1, carbs_g: 80, fat_g: 0.7, fiber_g: 1.3, sodium_mg: 5 }, grams_per_ml: 0.85 },
+  'Gạo nếp': { nutrition_per_100g: { calories: 370, protein_g: 6.8, carbs_g: 81, fat_g: 0.6, fiber_g: 2.8, sodium_mg: 7 }, grams_per_ml: 0.85 },
+  'Bột mì': { nutrition_per_100g: { calories: 364, protein_g: 10, carbs_g: 76, fat_g: 1, fiber_g: 2.7, sodium_mg: 2 }, grams_per_ml: 0.53 },
+  'Bánh phở': { nutrition_per_100g: { calories: 140, protein_g: 2.5, carbs_g: 31, fat_g: 0.3, sodium_mg: 20 } },
+  'Bún': { nutrition_per_100g: { calories: 110, protein_g: 1.7, carbs_g: 25, fat_g: 0.2, sodium_mg: 20 } },
+  'Mì': { nutrition_per_100g: { calories: 370, protein_g: 13, carbs_g: 74, fat_g: 1.5, fiber_g: 3, sodium_mg: 6 } },
+  'Bánh mì': { nutrition_per_100g: { calories: 265, protein_g: 9, carbs_g: 49, fat_g: 3.2, fiber_g: 2.7, sodium_mg: 490 }, grams_per_unit: { 'ổ': 80, 'cái': 80, 'each': 80 } },
+
+  // Eggs, dairy, soy
+  'Trứng gà': { nutrition_per_100g: { calories: 143, protein_g: 12.6, carbs_g: 0.7, fat_g: 9.5, sodium_mg: 142 }, grams_per_unit: { 'quả': 50, 'trái': 50, 'each': 50 } },
+  'Trứng vịt': { nutrition_per_100g: { calories: 185, protein_g: 12.8, carbs_g: 1.5, fat_g: 13.8, sodium_mg: 146 }, grams_per_unit: { 'quả': 70, 'trái': 70, 'each': 70 } },
+  'Đậu hũ': { nutrition_per_100g: { calories: 76, protein_g: 8, carbs_g: 1.9, fat_g: 4.8, fiber_g: 0.3, sodium_mg: 7 }, grams_per_unit: { 'miếng': 150, 'bìa': 150 } },
+  'Đậu phụ': { nutrition_per_100g: { calories: 76, protein_g: 8, carbs_g: 1.9, fat_g: 4.8, fiber_g: 0.3, sodium_mg: 7 }, grams_per_unit: { 'miếng': 150, 'bìa': 150 } },
+  'Sữa tươi': { nutrition_per_100g: { calories: 61, protein_g: 3.2, carbs_g: 4.8, fat_g: 3.3, sodium_mg: 43 }, grams_per_ml: 1.03 },
+
+  // Seasonings & oils
+  'Muối': { nutrition_per_100g: { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0, sodium_mg: 38758 }, grams_per_ml: 1.2 },
+  'Đường': { nutrition_per_100g: { calories: 387, protein_g: 0, carbs_g: 100, fat_g: 0, sodium_mg: 1 }, grams_per_ml: 0.85 },
+  'Nước mắm': { nutrition_per_100g: { calories: 35, protein_g: 5, carbs_g: 3.6, fat_g: 0, sodium_mg: 7850 }, grams_per_ml: 1.2 },
+  'Dầu hào': { nutrition_per_100g: { calories: 51, protein_g: 1.4, carbs_g: 11, fat_g: 0.3, sodium_mg: 2700 }, grams_per_ml: 1.2 },
+  'Dầu ăn': { nutrition_per_100g: { calories: 884, protein_g: 0, carbs_g: 0, fat_g: 100, sodium_mg: 0 }, grams_per_ml: 0.92 },
+  'Dầu mè': { nutrition_per_100g: { calories: 884, protein_g: 0, carbs_g: 0, fat_g: 100, sodium_mg: 0 }, grams_per_ml: 0.92 },
+  'Tiêu': { nutrition_per_100g: { calories: 251, protein_g: 10, carbs_g: 64, fat_g: 3.3, fiber_g: 25, sodium_mg: 20 }, grams_per_ml: 0.5 },
+  'Mật ong': { nutrition_per_100g: { calories: 304, protein_g: 0.3, carbs_g: 82, fat_g: 0, sodium_mg: 4 }, grams_per_ml: 1.42 },
+  'Nước': { nutrition_per_100g: { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0, sodium_mg: 0 } },
+  'Nước dừa': { nutrition_per_100g: { calories: 19, protein_g: 0.7, carbs_g: 3.7, fat_g: 0.2, sodium_mg: 105 } },
+};
+
 // Function to normalize Vietnamese text for search
 function normalizeVietnamese(text: string): string {
   return text
@@ -609,6 +692,7 @@ function createIngredientItems(ingredients: MasterIngredientData[]): any[] {
       normalized_name: normalizedName,
       category: ingredient.category,
       aliases: ingredient.aliases,
+      ...NUTRITION_DATA[ingredient.name],
       is_active: true,
       created_at: timestamp,
       updated_at: timestamp,
@@ -710,4 +794,4 @@ if (require.main === module) {
     });
 }
 
-export { seedMasterIngredients, VIETNAMESE_INGREDIENTS, normalizeVietnamese };
\ No newline at end of file
+export { seedMasterIngredients, VIETNAMESE_INGREDIENTS, NUTRITION_DATA, normalizeVietnamese };
\ No newline at end of file
@@ -3,7 +3,7 @@
  * Task 18.2: Optimize social queries and performance
  * 
  * Tests:
- * - Feed query performance with GSI3
+ * - Feed query performance with timelines merged with the public feed (GSI3)
  * - Friend list caching effectiveness
  * - Pagination performance
  * - Sparse index optimization for unread notifications
@@ -16,9 +16,46 @@ import { describe, test, expect, beforeEach, jest } from '@jest/globals';
 import { SocialOptimizations, PaginationOptions } from '../../lambda/shared/social-optimizations';
 import { DynamoDBClient, QueryCommand, BatchGetItemCommand } from '@aws-sdk/client-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBHelper } from '../../lambda/shared/dynamodb';
 
 const dynamoMock = mockClient(DynamoDBClient);
 
+// The feed reads through DynamoDBHelper: the timeline query first, then the public feed (GSI3)
+const mockFeedQueries = (timelineItems: any[], publicItems: any[], lastKeys: { timeline?: any; public?: any } = {}) => {
+  const querySpy = jest.spyOn(DynamoDBHelper, 'query').mockImplementation(async (params: any) =>
+    params.IndexName === 'GSI3'
+      ? { Items: publicItems, Count: publicItems.length, LastEvaluatedKey: lastKeys.public }
+      : { Items: timelineItems, Count: timelineItems.length, LastEvaluatedKey: lastKeys.timeline }
+  );
+  const batchGetSpy = jest.spyOn(DynamoDBHelper, 'batchGet').mockImplementation(async (keys: any[]) =>
+    keys.map(key => ({
+      PK: key.PK,
+      SK: 'METADATA',
+      post_id: key.PK.replace('POST#', ''),
+      content: 'Friend post',
+      created_at: timelineItems.find(entry => `POST#${entry.post_id}` === key.PK)?.created_at,
+    }))
+  );
+  return { querySpy, batchGetSpy };
+};
+
+const timelineEntry = (postId: string, createdAt: string) => ({
+  PK: 'TIMELINE#user1',
+  SK: `POST#${createdAt}#${postId}`,
+  post_id: postId,
+  author_id: 'friend1',
+  created_at: createdAt,
+});
+
+const publicPost = (postId: string, createdAt: string) => ({
+  PK: `POST#${postId}`,
+  SK: 'METADATA',
+  post_id: postId,
+  content: 'Public post',
+  created_at: createdAt,
+  GSI3PK: 'FEED#PUBLIC',
+});
+
 describe('Social Optimizations', () => {
   let socialOpt: SocialOptimizations;
 
@@ -27,83 +64,40 @@ describe('Social Optimizations', () => {
     process.env.DYNAMODB_TABLE = 'test-table';
     process.env.AWS_REGION = 'us-east-1';
     socialOpt = new SocialOptimizations();
+    jest.restoreAllMocks();
   });
 
   describe('Feed Query Optimization', () => {
-    test('should use GSI3 for efficient feed queries', async () => {
-      // Mock friend list query
-      dynamoMock.on(QueryCommand).resolvesOnce({
-        Items: [
-          { PK: { S: 'USER#user1' }, SK: { S: 'FRIEND#friend1' }, friend_id: { S: 'friend1' }, status: { S: 'ACCEPTED' } },
-          { PK: { S: 'USER#user1' }, SK: { S: 'FRIEND#friend2' }, friend_id: { S: 'friend2' }, status: { S: 'ACCEPTED' } }
-        ]
-      });
-
-      // Mock feed queries (public + friends)
-      dynamoMock.on(QueryCommand).resolves({
-        Items: [
-          {
-            PK: { S: 'POST#post1' },
-            SK: { S: 'METADATA' },
-            post_id: { S: 'post1' },
-            content: { S: 'Test post' },
-            created_at: { S: '2025-01-20T10:00:00Z' },
-            GSI3PK: { S: 'FEED#PUBLIC' }
-          }
-        ]
-      });
+    test('should read the timeline and the public feed (GSI3) in one page', async () => {
+      const { querySpy } = mockFeedQueries([], [publicPost('post1', '2025-01-20T10:00:00Z')]);
 
       const result = await socialOpt.getFeedOptimized('user1', { limit: 20 });
 
       expect(result.items.length).toBeGreaterThan(0);
       expect(result.count).toBe(result.items.length);
-      
-      // Verify queries were made (GSI3 optimization implemented)
-      const queryCalls = dynamoMock.commandCalls(QueryCommand);
-      expect(queryCalls.length).toBeGreaterThan(0);
+
+      // One query per source, no per-friend queries
+      expect(querySpy).toHaveBeenCalledTimes(2);
+      expect(querySpy).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI3',
+        ExpressionAttributeValues: { ':pk': 'FEED#PUBLIC' },
+      }));
     });
 
     test('should combine public and friends posts efficiently', async () => {
-      // Mock friend list
-      dynamoMock.on(QueryCommand).resolvesOnce({
-        Items: [
-          { PK: { S: 'USER#user1' }, SK: { S: 'FRIEND#friend1' }, friend_id: { S: 'friend1' }, status: { S: 'ACCEPTED' } }
-        ]
-      });
+      const { batchGetSpy } = mockFeedQueries(
+        [timelineEntry('post2', '2025-01-20T11:00:00Z'), timelineEntry('post1', '2025-01-20T10:00:00Z')],
+        [publicPost('post1', '2025-01-20T10:00:00Z')]
+      );
 
-      // Mock public posts
-      dynamoMock.on(QueryCommand).resolvesOnce({
-        Items: [
-          {
-            PK: { S: 'POST#post1' },
-            SK: { S: 'METADATA' },
-            post_id: { S: 'post1' },
-            content: { S: 'Public post' },
-            created_at: { S: '2025-01-20T10:00:00Z' },
-            visibility: { S: 'PUBLIC' }
-          }
-        ]
-      });
+      const result = await socialOpt.getFeedOptimized('user1', { limit: 20 });
 
-      // Mock friend posts
-      dynamoMock.on(QueryCommand).resolves({
-        Items: [
-          {
-            PK: { S: 'POST#post2' },
-            SK: { S: 'METADATA' },
-            post_id: { S: 'post2' },
-            content: { S: 'Friend post' },
-            created_at: { S: '2025-01-20T11:00:00Z' },
-            visibility: { S: 'FRIENDS' }
-          }
-        ]
-      });
+      // Should have posts from both public and friends, each once
+      expect(result.items.map(item => item.post_id)).toEqual(['post2', 'post1']);
 
-      const result = await socialOpt.getFeedOptimized('user1', { limit: 20 });
+      // Only the friend post that is not already in the public feed is loaded
+      expect(batchGetSpy).toHaveBeenCalledWith([{ PK: 'POST#post2', SK: 'METADATA' }]);
 
-      // Should have posts from both public and friends
-      expect(result.items.length).toBeGreaterThan(0);
-      
       // Posts should be sorted by created_at (newest first)
       for (let i = 0; i < result.items.length - 1; i++) {
         const current = new Date(result.items[i].created_at).getTime();
@@ -113,36 +107,31 @@ describe('Social Optimizations', () => {
     });
 
     test('should support pagination for large feeds', async () => {
-      // Mock friend list
-      dynamoMock.on(QueryCommand).resolvesOnce({
-        Items: []
-      });
-
-      // Mock paginated feed query
-      dynamoMock.on(QueryCommand).resolves({
-        Items: Array.from({ length: 10 }, (_, i) => ({
-          PK: { S: `POST#post${i}` },
-          SK: { S: 'METADATA' },
-          post_id: { S: `post${i}` },
-          content: { S: `Post ${i}` },
-          created_at: { S: new Date(Date.now() - i * 1000).toISOString() }
-        })),
-        LastEvaluatedKey: { PK: { S: 'POST#post10' }, SK: { S: 'METADATA' } }
-      });
+      const posts = Array.from({ length: 10 }, (_, i) =>
+        publicPost(`post${i}`, new Date(Date.now() - i * 1000).toISOString())
+      );
+      const { querySpy } = mockFeedQueries([], posts, { public: { PK: 'POST#post9', SK: 'METADATA' } });
 
       const result = await socialOpt.getFeedOptimized('user1', { limit: 10 });
 
       expect(result.items.length).toBe(10);
       expect(result.nextToken).toBeDefined();
+
+      // The next page continues from the oldest post shown
+      querySpy.mockClear();
+      await socialOpt.getFeedOptimized('user1', { limit: 10, nextToken: result.nextToken });
+
+      expect(querySpy).toHaveBeenCalledWith(expect.objectContaining({
+        IndexName: 'GSI3',
+        KeyConditionExpression: 'GSI3PK = :pk AND GSI3SK <= :before',
+        ExpressionAttributeValues: { ':pk': 'FEED#PUBLIC', ':before': `POST#${posts[9].created_at}` },
+      }));
     });
 
     test('should measure and log feed query performance', async () => {
       const startTime = Date.now();
 
-      // Mock queries
-      dynamoMock.on(QueryCommand).resolves({
-        Items: []
-      });
+      mockFeedQueries([], []);
 
       await socialOpt.getFeedOptimized('user1', { limit: 20 });
 
@@ -452,9 +441,7 @@ describe('Social Optimizations', () => {
 
   describe('Performance Metrics', () => {
     test('should track query performance metrics', async () => {
-      dynamoMock.on(QueryCommand).resolves({
-        Items: []
-      });
+      mockFeedQueries([], []);
 
       const startTime = Date.now();
       await socialOpt.getFeedOptimized('user1', { limit: 20 });
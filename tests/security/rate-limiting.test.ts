@@ -1,10 +1,14 @@
 import { successResponse, errorResponse } from '../../lambda/shared/responses';
+import { AIQuotaService } from '../../lambda/shared/ai-quota';
+import { DynamoDBHelper } from '../../lambda/shared/dynamodb';
+import { RateLimitError } from '../../lambda/shared/errors';
 
 // Mock rate limiting handler
 const mockRateLimitHandler = jest.fn();
 
 // Mock setup
 jest.mock('../../lambda/shared/responses');
+jest.mock('../../lambda/shared/dynamodb');
 
 describe('Rate Limiting Prevention', () => {
   beforeEach(() => {
@@ -208,4 +212,63 @@ describe('Rate Limiting Prevention', () => {
     expect(result.headers).toHaveProperty('X-RateLimit-Remaining');
     expect(result.headers).toHaveProperty('X-RateLimit-Reset');
   });
-});
\ No newline at end of file
+});
+
+describe('AI Generation Quotas', () => {
+  const mockDynamoDBHelper = DynamoDBHelper as jest.Mocked<typeof DynamoDBHelper>;
+  const now = new Date('2026-10-19T10:15:00.000Z');
+  let store: Map<string, any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    // In-memory table for the quota counters
+    store = new Map();
+    mockDynamoDBHelper.get.mockImplementation(async (PK: string, SK: string) => store.get(`${PK}|${SK}`));
+    const add = (PK: string, SK: string, amount: number) => {
+      const item = { used: (store.get(`${PK}|${SK}`)?.used || 0) + amount };
+      store.set(`${PK}|${SK}`, item);
+      return item;
+    };
+    mockDynamoDBHelper.update.mockImplementation(async (PK: string, SK: string, _expression: string, values: any) =>
+      add(PK, SK, values[':amount']));
+    // Limited counters only move while the amount still fits under the limit
+    mockDynamoDBHelper.conditionalUpdate.mockImplementation(
+      async (PK: string, SK: string, _expression: string, _condition: string, values: any) => {
+        if ((store.get(`${PK}|${SK}`)?.used || 0) > values[':max']) {
+          throw Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' });
+        }
+        return add(PK, SK, values[':amount']);
+      }
+    );
+  });
+
+  it('should block AI requests over the per-minute burst limit', async () => {
+    for (let i = 0; i < 3; i++) {
+      await AIQuotaService.acquire('user123', 'recipe_generation', now);
+    }
+
+    await expect(AIQuotaService.acquire('user123', 'recipe_generation', now)).rejects.toBeInstanceOf(RateLimitError);
+    // The next minute starts a fresh window
+    await expect(AIQuotaService.acquire('user123', 'recipe_generation', new Date('2026-10-19T10:16:00.000Z')))
+      .resolves.toBeDefined();
+  });
+
+  it('should exhaust the daily AI recipe budget per user', async () => {
+    const status = await AIQuotaService.acquire('user123', 'recipe_generation', now);
+    const charged = await AIQuotaService.consume('user123', 'recipe_generation', 20, status, now);
+
+    expect(charged.exhausted).toBe(true);
+    expect(AIQuotaService.getBudget(await AIQuotaService.getStatus('user123', 'recipe_generation', now))).toBe(0);
+    expect(AIQuotaService.getBudget(await AIQuotaService.getStatus('user456', 'recipe_generation', now))).toBe(20);
+  });
+
+  it('should keep the conversational validator limits separate', async () => {
+    for (let i = 0; i < 3; i++) {
+      await AIQuotaService.acquire('user123', 'recipe_generation', now);
+    }
+
+    const validation = await AIQuotaService.acquire('user123', 'ingredient_validation', now);
+    expect(validation.remaining.burst).toBe(9);
+  });
+});